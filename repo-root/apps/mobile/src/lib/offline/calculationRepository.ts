@@ -0,0 +1,263 @@
+/**
+ * Offline Calculation Repository
+ *
+ * Saved calculator results on the device. Rows record when each field last
+ * changed and deletes leave a tombstone row until they are synced, so the
+ * sync manager can merge them with the user's calculator history on the web
+ */
+
+import { nanoid } from 'nanoid/non-secure'
+import { Platform } from 'react-native'
+import {
+  CalculationFieldClock,
+  CalculationSyncRecord,
+  SYNCED_CALCULATION_FIELDS,
+  SyncedCalculationField,
+  isCalculationTombstone,
+  mergeCalculationSyncRecords
+} from '@locumtruerate/types'
+import { executeSql } from './database'
+import { Analytics } from '../../services/analytics'
+
+export interface OfflineCalculation {
+  id: string
+  type: CalculationSyncRecord['type']
+  input: CalculationSyncRecord['input']
+  result: CalculationSyncRecord['result']
+  name?: string
+  tags: string[]
+  isFavorite: boolean
+  notes?: string
+  createdAt: string
+  syncedAt?: string
+}
+
+// A row of the offline_calculations table. Columns added by the sync
+// migration are null on rows saved before it.
+interface OfflineCalculationRow {
+  id: string
+  type: CalculationSyncRecord['type']
+  input_data: string
+  result_data: string
+  name: string | null
+  tags: string | null
+  is_favorite: number | null
+  notes: string | null
+  metadata: string | null
+  field_updated_at: string | null
+  created_at: string
+  synced_at: string | null
+  deleted_at: string | null
+}
+
+export type OfflineCalculationUpdate = Partial<Pick<OfflineCalculation, 'name' | 'tags' | 'isFavorite' | 'notes'>>
+
+// SQLite's CURRENT_TIMESTAMP is UTC without a zone, e.g. "2026-10-19 12:00:00"
+const parseTimestamp = (value: string) =>
+  new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`).getTime()
+
+const parseJson = <T>(value: string | null, fallback: T): T =>
+  value ? JSON.parse(value) : fallback
+
+// Notes travel in the calculation's metadata
+const SYNCED_FIELD_FOR_UPDATE: Record<keyof OfflineCalculationUpdate, SyncedCalculationField> = {
+  name: 'name',
+  tags: 'tags',
+  isFavorite: 'isFavorite',
+  notes: 'metadata'
+}
+
+function toSyncRecord(row: OfflineCalculationRow): CalculationSyncRecord {
+  const metadata = parseJson<Record<string, any>>(row.metadata, { device: Platform.OS })
+
+  return {
+    id: row.id,
+    type: row.type,
+    input: JSON.parse(row.input_data),
+    result: JSON.parse(row.result_data),
+    name: row.name,
+    tags: parseJson(row.tags, []),
+    isFavorite: row.is_favorite === 1,
+    metadata: row.notes ? { ...metadata, notes: row.notes } : metadata,
+    timestamp: parseTimestamp(row.created_at),
+    fieldUpdatedAt: parseJson(row.field_updated_at, {}),
+    deletedAt: row.deleted_at ? parseTimestamp(row.deleted_at) : null
+  }
+}
+
+function toOfflineCalculation(row: OfflineCalculationRow): OfflineCalculation {
+  return {
+    id: row.id,
+    type: row.type,
+    input: JSON.parse(row.input_data),
+    result: JSON.parse(row.result_data),
+    name: row.name ?? undefined,
+    tags: parseJson(row.tags, []),
+    isFavorite: row.is_favorite === 1,
+    notes: row.notes ?? undefined,
+    createdAt: row.created_at,
+    syncedAt: row.synced_at ?? undefined
+  }
+}
+
+// Whether the device has a change the server's copy is missing
+function isAhead(local: CalculationSyncRecord, remote: CalculationSyncRecord): boolean {
+  return (local.deletedAt ?? 0) > (remote.deletedAt ?? 0) ||
+    SYNCED_CALCULATION_FIELDS.some(field =>
+      (local.fieldUpdatedAt[field] ?? local.timestamp) > (remote.fieldUpdatedAt[field] ?? remote.timestamp)
+    )
+}
+
+export class CalculationRepository {
+  // Save a calculator result
+  async saveCalculation(
+    calculation: Omit<OfflineCalculation, 'id' | 'createdAt' | 'syncedAt'>
+  ): Promise<string> {
+    const id = nanoid()
+    const now = Date.now()
+    const clock = Object.fromEntries(SYNCED_CALCULATION_FIELDS.map(field => [field, now]))
+
+    await executeSql(
+      `INSERT INTO offline_calculations
+       (id, type, input_data, result_data, name, tags, is_favorite, notes, metadata, field_updated_at, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        calculation.type,
+        JSON.stringify(calculation.input),
+        JSON.stringify(calculation.result),
+        calculation.name ?? null,
+        JSON.stringify(calculation.tags),
+        calculation.isFavorite ? 1 : 0,
+        calculation.notes ?? null,
+        JSON.stringify({ device: Platform.OS }),
+        JSON.stringify(clock),
+        new Date(now).toISOString()
+      ]
+    )
+
+    Analytics.addBreadcrumb('Calculation saved offline', { type: calculation.type })
+
+    return id
+  }
+
+  // Get saved calculations, newest first
+  async getCalculations(): Promise<OfflineCalculation[]> {
+    const result = await executeSql(
+      'SELECT * FROM offline_calculations WHERE deleted_at IS NULL ORDER BY created_at DESC'
+    )
+
+    const calculations: OfflineCalculation[] = []
+    for (let i = 0; i < result.rows.length; i++) {
+      calculations.push(toOfflineCalculation(result.rows.item(i)))
+    }
+
+    return calculations
+  }
+
+  // Rename, tag, favorite or annotate a calculation
+  async updateCalculation(id: string, updates: OfflineCalculationUpdate): Promise<void> {
+    const row = await this.getRow(id)
+    if (!row || row.deleted_at) {
+      throw new Error('Calculation not found')
+    }
+
+    const now = Date.now()
+    const clock: CalculationFieldClock = parseJson(row.field_updated_at, {})
+    Object.keys(updates).forEach(key => {
+      clock[SYNCED_FIELD_FOR_UPDATE[key as keyof OfflineCalculationUpdate]] = now
+    })
+
+    await executeSql(
+      `UPDATE offline_calculations
+       SET name = ?, tags = ?, is_favorite = ?, notes = ?, field_updated_at = ?, synced_at = NULL
+       WHERE id = ?`,
+      [
+        'name' in updates ? updates.name ?? null : row.name,
+        'tags' in updates ? JSON.stringify(updates.tags ?? []) : row.tags,
+        'isFavorite' in updates ? (updates.isFavorite ? 1 : 0) : row.is_favorite,
+        'notes' in updates ? updates.notes ?? null : row.notes,
+        JSON.stringify(clock),
+        id
+      ]
+    )
+  }
+
+  // Delete a calculation. The row stays as a tombstone until it is synced.
+  async deleteCalculation(id: string): Promise<void> {
+    await executeSql(
+      'UPDATE offline_calculations SET deleted_at = ?, synced_at = NULL WHERE id = ?',
+      [new Date().toISOString(), id]
+    )
+  }
+
+  // Calculations created, edited or deleted since the last sync
+  async getPendingChanges(): Promise<CalculationSyncRecord[]> {
+    const result = await executeSql(
+      'SELECT * FROM offline_calculations WHERE synced_at IS NULL'
+    )
+
+    const changes: CalculationSyncRecord[] = []
+    for (let i = 0; i < result.rows.length; i++) {
+      changes.push(toSyncRecord(result.rows.item(i)))
+    }
+
+    return changes
+  }
+
+  // Merge a calculation from the server into the device's copy
+  async applyRemote(record: CalculationSyncRecord): Promise<void> {
+    const row = await this.getRow(record.id)
+    const local = row ? toSyncRecord(row) : null
+    const merged = local ? mergeCalculationSyncRecords(local, record) : record
+
+    if (isCalculationTombstone(merged)) {
+      await executeSql('DELETE FROM offline_calculations WHERE id = ?', [record.id])
+      return
+    }
+
+    // Changes made while the sync was running still need pushing
+    const syncedAt = local && isAhead(local, record) ? null : new Date().toISOString()
+    const { notes, ...metadata } = merged.metadata ?? {}
+
+    await executeSql(
+      `INSERT OR REPLACE INTO offline_calculations
+       (id, type, input_data, result_data, name, tags, is_favorite, notes, metadata, field_updated_at, created_at, synced_at, deleted_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL)`,
+      [
+        merged.id,
+        merged.type,
+        JSON.stringify(merged.input),
+        JSON.stringify(merged.result),
+        merged.name ?? null,
+        JSON.stringify(merged.tags ?? []),
+        merged.isFavorite ? 1 : 0,
+        notes ?? null,
+        JSON.stringify(metadata),
+        JSON.stringify(merged.fieldUpdatedAt),
+        new Date(merged.timestamp).toISOString(),
+        syncedAt
+      ]
+    )
+  }
+
+  // Drop tombstones the server now has. A full pull does not send them back.
+  async removeSyncedTombstones(pushed: CalculationSyncRecord[]): Promise<void> {
+    for (const record of pushed) {
+      if (record.deletedAt) {
+        await executeSql(
+          'DELETE FROM offline_calculations WHERE id = ? AND deleted_at IS NOT NULL',
+          [record.id]
+        )
+      }
+    }
+  }
+
+  private async getRow(id: string): Promise<OfflineCalculationRow | null> {
+    const result = await executeSql(
+      'SELECT * FROM offline_calculations WHERE id = ?',
+      [id]
+    )
+    return result.rows.length > 0 ? result.rows.item(0) : null
+  }
+}
\ No newline at end of file
@@ -12,7 +12,7 @@ const DATABASE_NAME = 'locumtruerate_offline.db'
 export const db = SQLite.openDatabase(DATABASE_NAME)
 
 // Database version for migrations
-const CURRENT_VERSION = 1
+const CURRENT_VERSION = 2
 
 // Initialize database tables
 export async function initializeDatabase() {
@@ -148,8 +148,18 @@ function runMigrations(
   fromVersion: number, 
   toVersion: number
 ) {
-  // Add migration logic here as database evolves
-  // For now, just update version
+  // Version 2: calculator history sync. Calculations were never actually
+  // uploaded before, so all of them are pending.
+  if (fromVersion < 2) {
+    tx.executeSql('ALTER TABLE offline_calculations ADD COLUMN name TEXT')
+    tx.executeSql('ALTER TABLE offline_calculations ADD COLUMN tags TEXT')
+    tx.executeSql('ALTER TABLE offline_calculations ADD COLUMN is_favorite INTEGER DEFAULT 0')
+    tx.executeSql('ALTER TABLE offline_calculations ADD COLUMN metadata TEXT')
+    tx.executeSql('ALTER TABLE offline_calculations ADD COLUMN field_updated_at TEXT')
+    tx.executeSql('ALTER TABLE offline_calculations ADD COLUMN deleted_at TEXT')
+    tx.executeSql('UPDATE offline_calculations SET synced_at = NULL')
+  }
+
   tx.executeSql(
     'INSERT OR REPLACE INTO db_version (version) VALUES (?)',
     [toVersion]
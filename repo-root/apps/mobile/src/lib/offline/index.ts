@@ -7,6 +7,7 @@
 export * from './database'
 export * from './jobRepository'
 export * from './applicationQueue'
+export * from './calculationRepository'
 export * from './syncManager'
 export { useOfflineSync } from './useOfflineSync'
 
@@ -5,9 +5,11 @@
  */
 
 import NetInfo from '@react-native-community/netinfo'
+import { MAX_CALCULATION_SYNC_CHANGES } from '@locumtruerate/types'
 import { executeSql, executeBatch } from './database'
 import { JobRepository } from './jobRepository'
 import { ApplicationQueue } from './applicationQueue'
+import { CalculationRepository } from './calculationRepository'
 import { Analytics } from '../../services/analytics'
 import { trpc } from '../../lib/trpc'
 
@@ -31,6 +33,7 @@ export class SyncManager {
   private static instance: SyncManager
   private jobRepository: JobRepository
   private applicationQueue: ApplicationQueue
+  private calculationRepository: CalculationRepository
   private isSyncing = false
   private syncListeners: Set<(status: SyncStatus) => void> = new Set()
   private networkUnsubscribe: (() => void) | null = null
@@ -39,6 +42,7 @@ export class SyncManager {
   private constructor() {
     this.jobRepository = new JobRepository()
     this.applicationQueue = new ApplicationQueue()
+    this.calculationRepository = new CalculationRepository()
   }
 
   static getInstance(): SyncManager {
@@ -116,6 +120,12 @@ export class SyncManager {
     const pendingCount = await this.getPendingOperationsCount()
     if (pendingCount > 0) {
       this.performSync()
+    } else {
+      // Nothing to upload, but calculations may have changed on the web
+      this.isSyncing = true
+      this.syncCalculations().finally(() => {
+        this.isSyncing = false
+      })
     }
   }
 
@@ -226,34 +236,50 @@ export class SyncManager {
     return { success, errors }
   }
 
-  // Sync saved calculations
+  // Sync saved calculations with the user's calculator history on the web:
+  // push changes made on the device, then pull changes made elsewhere
   private async syncCalculations(): Promise<{ success: number; errors: number }> {
-    const result = await executeSql(
-      `SELECT * FROM offline_calculations WHERE synced_at IS NULL`
+    const changes = await this.calculationRepository.getPendingChanges()
+
+    const cursorResult = await executeSql(
+      `SELECT value FROM offline_preferences WHERE key = ?`,
+      ['calculations_sync_cursor']
     )
+    let since: string | undefined = cursorResult.rows.length > 0
+      ? cursorResult.rows.item(0).value
+      : undefined
 
-    let success = 0
-    let errors = 0
+    try {
+      let batch = changes
+      let hasMore = true
 
-    for (let i = 0; i < result.rows.length; i++) {
-      const calc = result.rows.item(i)
-      
-      try {
-        // In a real app, you'd call an API to save calculations
-        // For now, just mark as synced
-        await executeSql(
-          `UPDATE offline_calculations SET synced_at = ? WHERE id = ?`,
-          [new Date().toISOString(), calc.id]
-        )
-        success++
+      while (hasMore) {
+        const response = await trpc.calculations.sync.mutate({
+          changes: batch.slice(0, MAX_CALCULATION_SYNC_CHANGES),
+          since
+        })
+        batch = batch.slice(MAX_CALCULATION_SYNC_CHANGES)
 
-      } catch (error) {
-        errors++
-        console.error('Failed to sync calculation:', error)
+        for (const record of response.changes) {
+          await this.calculationRepository.applyRemote(record)
+        }
+
+        since = response.cursor
+        hasMore = response.hasMore || batch.length > 0
       }
-    }
 
-    return { success, errors }
+      await this.calculationRepository.removeSyncedTombstones(changes)
+      await executeSql(
+        `INSERT OR REPLACE INTO offline_preferences (key, value) VALUES (?, ?)`,
+        ['calculations_sync_cursor', String(since)]
+      )
+
+      return { success: changes.length, errors: 0 }
+
+    } catch (error: any) {
+      Analytics.captureError(error, { context: 'sync_calculations' })
+      return { success: 0, errors: changes.length }
+    }
   }
 
   // Sync user preferences
@@ -4,6 +4,7 @@ import Stripe from 'stripe'
 import { z } from 'zod'
 import { db } from '@locumtruerate/database'
 import { SubscriptionTier } from '@locumtruerate/database'
+import { WebhookEventType } from '@locumtruerate/types'
 import { 
   validateWebhookPayload,
   stripeWebhookEventSchema 
@@ -107,6 +108,37 @@ export async function POST(req: NextRequest) {
   }
 }
 
+/**
+ * Tell the organizations the customer owns or administers about a
+ * subscription change over their webhooks
+ */
+async function notifySubscriptionWebhooks(
+  customerId: string,
+  subscription: Stripe.Subscription,
+  tier: SubscriptionTier
+) {
+  const users = await db.user.findMany({
+    where: { stripeCustomerId: customerId },
+    select: { id: true }
+  })
+
+  try {
+    const { WebhookService } = await import('@locumtruerate/api')
+    const webhooks = new WebhookService(db)
+
+    for (const user of users) {
+      await webhooks.emitForUser(user.id, WebhookEventType.SUBSCRIPTION_UPDATED, {
+        subscriptionId: subscription.id,
+        tier,
+        status: subscription.status,
+        cancelAtPeriodEnd: subscription.cancel_at_period_end,
+      })
+    }
+  } catch (error) {
+    console.error('Failed to queue subscription webhooks:', error)
+  }
+}
+
 /**
  * Handle subscription creation
  */
@@ -127,6 +159,8 @@ async function handleSubscriptionCreated(subscription: Stripe.Subscription) {
     }
   })
 
+  await notifySubscriptionWebhooks(customerId, subscription, tier)
+
   console.log('Subscription created:', {
     customerId,
     subscriptionId: subscription.id,
@@ -154,6 +188,8 @@ async function handleSubscriptionUpdated(subscription: Stripe.Subscription) {
     }
   })
 
+  await notifySubscriptionWebhooks(customerId, subscription, tier)
+
   console.log('Subscription updated:', {
     customerId,
     subscriptionId: subscription.id,
@@ -177,6 +213,8 @@ async function handleSubscriptionDeleted(subscription: Stripe.Subscription) {
     }
   })
 
+  await notifySubscriptionWebhooks(customerId, subscription, 'FREE')
+
   console.log('Subscription deleted:', {
     customerId,
     subscriptionId: subscription.id,
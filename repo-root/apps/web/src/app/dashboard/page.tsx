@@ -12,6 +12,8 @@ import { Button } from '@locumtruerate/ui'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { trpc } from '@/providers/trpc-provider'
+import { JobMatches } from '@/components/availability'
+import { CandidateOffers } from '@/components/pipeline'
 
 type DashboardTab = 'overview' | 'applications' | 'saved' | 'profile' | 'analytics'
 
@@ -264,6 +266,11 @@ export default function DashboardPage() {
                   </div>
                 </CardContent>
               </Card>
+
+              {/* Jobs matched to the candidate's availability */}
+              <div className="mt-8">
+                <JobMatches />
+              </div>
             </motion.div>
 
             {/* Sidebar */}
@@ -273,6 +280,9 @@ export default function DashboardPage() {
               transition={{ duration: 0.6, delay: 0.3 }}
               className="space-y-6"
             >
+              {/* Offers awaiting a response */}
+              <CandidateOffers />
+
               {/* Upcoming Events */}
               <Card>
                 <CardHeader>
@@ -1,18 +1,21 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { useParams, useRouter } from 'next/navigation'
 import { motion } from 'framer-motion'
 import { 
   MapPin, Clock, DollarSign, Star, Bookmark, Share2, 
   Calendar, Users, Building, Stethoscope, AlertCircle,
-  CheckCircle, ArrowLeft, ExternalLink
+  CheckCircle, ArrowLeft, ExternalLink, Calculator, CalendarClock
 } from 'lucide-react'
+import { JobCompensationCalculator, JobCompensationInput, USState } from '@locumtruerate/calc-core'
+import { CallRequirement, ShiftType, formatAssignmentDates, formatShiftPattern } from '@locumtruerate/types'
 import { Header } from '@/components/layout/header'
 import { Footer } from '@/components/layout/footer'
 import { Button } from '@locumtruerate/ui'
 import { Badge } from '@/components/ui/badge'
 import { SimilarJobs, ApplicationForm, JobMap } from '@/components/jobs'
+import { ContractCalculator } from '@/components/calculator'
 import { trpc } from '@/providers/trpc-provider'
 import { cn } from '@/lib/utils'
 import { useJobAnalytics } from '@/hooks/use-analytics'
@@ -62,19 +65,47 @@ const mockJob = {
     'Health, dental, and vision insurance',
     '401(k) with employer matching',
   ],
-  salaryMin: 350000,
-  salaryMax: 450000,
+  zipCode: '10016',
+  compensation: {
+    payBasis: 'SHIFT',
+    rateMin: 2100,
+    rateMax: 2700,
+    hoursPerShift: 12,
+    hoursPerWeek: 36,
+    durationWeeks: 13,
+    stipends: { housing: 1400, meals: 450, travel: 1000 },
+    malpracticeCoverage: 'OCCURRENCE',
+    workerClassification: '1099',
+  } as JobCompensationInput,
   postedAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000), // 3 days ago
-  startDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days from now
-  duration: '3 months with possibility of extension',
+  assignmentStartDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days from now
+  assignmentEndDate: new Date(Date.now() + (30 + 13 * 7) * 24 * 60 * 60 * 1000), // 13 weeks
+  latestStartDate: new Date(Date.now() + 44 * 24 * 60 * 60 * 1000),
+  shiftType: ShiftType.NIGHT,
+  shiftLengthHours: 12,
+  daysOn: 7,
+  daysOff: 7,
+  callRequirement: CallRequirement.HOME_CALL,
+  callFrequency: 4,
+  guaranteedHoursPerWeek: 36,
   applicants: 24,
   views: 856,
   tags: ['Emergency Medicine', 'Critical Care', 'Trauma', 'High Volume'],
 }
 
+const PAY_BASIS_UNITS: Record<JobCompensationInput['payBasis'], string> = {
+  HOURLY: 'hour',
+  DAILY: 'day',
+  SHIFT: 'shift',
+  ANNUAL: 'year',
+}
+
+const compensationCalculator = new JobCompensationCalculator()
+
 export default function JobDetailClient({ params }: { params: { slug: string } }) {
   const router = useRouter()
   const [showApplication, setShowApplication] = useState(false)
+  const [showCalculator, setShowCalculator] = useState(false)
   const [isSaved, setIsSaved] = useState(false)
   const [showMap, setShowMap] = useState(false)
 
@@ -93,6 +124,19 @@ export default function JobDetailClient({ params }: { params: { slug: string } }
     }
   }, [job, trackJobView])
 
+  // Calculator input prefilled from the posting's structured compensation
+  const contractInput = useMemo(() => {
+    if (!job?.compensation) return undefined
+    const [city, state] = job.location.split(',').map((part) => part.trim())
+    return compensationCalculator.toContractInput({
+      title: job.title,
+      specialty: job.specialty,
+      location: { state: state as USState, city, zipCode: job.zipCode },
+      startDate: job.assignmentStartDate,
+      compensation: job.compensation,
+    })
+  }, [job])
+
   if (isLoading) {
     return <JobDetailPageSkeleton />
   }
@@ -138,9 +182,20 @@ export default function JobDetailClient({ params }: { params: { slug: string } }
     }
   }
 
-  const formatSalary = (min: number, max: number) => {
-    const format = (num: number) => `$${(num / 1000).toFixed(0)}k`
-    return `${format(min)} - ${format(max)}`
+  const handleCalculate = () => {
+    setShowCalculator(true)
+    // Wait for the calculator to render before scrolling to it
+    setTimeout(() => {
+      document.getElementById('take-home-calculator')?.scrollIntoView({ behavior: 'smooth' })
+    }, 0)
+  }
+
+  const formatCompensation = (compensation: JobCompensationInput) => {
+    const format = (num: number) => `$${num.toLocaleString('en-US')}`
+    const range = compensation.rateMax && compensation.rateMax !== compensation.rateMin
+      ? `${format(compensation.rateMin)} - ${format(compensation.rateMax)}`
+      : format(compensation.rateMin)
+    return `${range}/${PAY_BASIS_UNITS[compensation.payBasis]}`
   }
 
   const getRelativeTime = (date: Date) => {
@@ -251,14 +306,21 @@ export default function JobDetailClient({ params }: { params: { slug: string } }
                 </div>
                 <div className="flex items-center space-x-2 text-gray-600 dark:text-gray-400">
                   <DollarSign className="h-4 w-4" />
-                  <span>{formatSalary(job.salaryMin, job.salaryMax)}</span>
+                  <span>{formatCompensation(job.compensation)}</span>
                 </div>
                 <div className="flex items-center space-x-2 text-gray-600 dark:text-gray-400">
                   <Calendar className="h-4 w-4" />
-                  <span>{job.duration}</span>
+                  <span>{formatAssignmentDates(job) ?? 'Flexible dates'}</span>
                 </div>
               </div>
 
+              {formatShiftPattern(job) && (
+                <div className="flex items-center space-x-2 text-gray-600 dark:text-gray-400 mb-6">
+                  <CalendarClock className="h-4 w-4" />
+                  <span>{formatShiftPattern(job)}</span>
+                </div>
+              )}
+
               <div className="flex flex-wrap gap-2 mb-6">
                 {job.tags.map((tag) => (
                   <Badge key={tag} variant="secondary">
@@ -270,18 +332,38 @@ export default function JobDetailClient({ params }: { params: { slug: string } }
               <div className="bg-blue-50 dark:bg-blue-900/20 rounded-lg p-4 flex items-center justify-between">
                 <div>
                   <p className="text-sm text-blue-900 dark:text-blue-100 font-medium">
-                    Start Date: {job.startDate.toLocaleDateString()}
+                    Start Date: {job.assignmentStartDate.toLocaleDateString()}
                   </p>
                   <p className="text-xs text-blue-700 dark:text-blue-300 mt-1">
                     Posted {getRelativeTime(job.postedAt)} • {job.applicants} applicants • {job.views} views
                   </p>
                 </div>
-                <Button onClick={handleApply} size="lg">
-                  Apply Now
-                </Button>
+                <div className="flex gap-2">
+                  {contractInput && (
+                    <Button onClick={handleCalculate} variant="outline" size="lg">
+                      <Calculator className="h-4 w-4 mr-2" />
+                      Calculate my take-home
+                    </Button>
+                  )}
+                  <Button onClick={handleApply} size="lg">
+                    Apply Now
+                  </Button>
+                </div>
               </div>
             </motion.div>
 
+            {/* Take-home calculator, prefilled from the posting */}
+            {showCalculator && contractInput && (
+              <motion.div
+                id="take-home-calculator"
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="bg-white dark:bg-gray-800 rounded-lg shadow-sm"
+              >
+                <ContractCalculator initialInput={contractInput} />
+              </motion.div>
+            )}
+
             {/* Job Description */}
             <motion.div
               initial={{ opacity: 0, y: 20 }}
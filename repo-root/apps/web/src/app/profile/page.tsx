@@ -6,7 +6,7 @@ import {
   User, Mail, Phone, MapPin, Camera, Save, 
   Plus, Edit3, Trash2, Award, Briefcase, 
   GraduationCap, FileText, Star, Calendar,
-  Building, Stethoscope, Shield, Globe, AlertCircle
+  Building, Stethoscope, Globe, AlertCircle
 } from 'lucide-react'
 import { Header } from '@/components/layout/header'
 import { Footer } from '@/components/layout/footer'
@@ -20,8 +20,10 @@ import { trpc } from '@/providers/trpc-provider'
 import { profileUpdateSchema, emailSchema, phoneSchema, safeTextSchema, npiSchema, licenseNumberSchema } from '@/lib/validation/schemas'
 import { z } from 'zod'
 import { safeParse } from '@/lib/validation/apply-validation'
+import { AvailabilityEditor } from '@/components/availability'
+import { CredentialWallet } from '@/components/credentials'
 
-type ProfileSection = 'personal' | 'experience' | 'education' | 'certifications' | 'preferences'
+type ProfileSection = 'personal' | 'experience' | 'education' | 'certifications' | 'preferences' | 'availability'
 
 const experienceItems = [
   {
@@ -69,33 +71,6 @@ const educationItems = [
   }
 ]
 
-const certifications = [
-  {
-    id: '1',
-    name: 'Board Certification in Emergency Medicine',
-    issuer: 'American Board of Emergency Medicine',
-    issueDate: '2017-08',
-    expiryDate: '2027-08',
-    status: 'Active'
-  },
-  {
-    id: '2',
-    name: 'Advanced Cardiac Life Support (ACLS)',
-    issuer: 'American Heart Association',
-    issueDate: '2023-06',
-    expiryDate: '2025-06',
-    status: 'Active'
-  },
-  {
-    id: '3',
-    name: 'Pediatric Advanced Life Support (PALS)',
-    issuer: 'American Heart Association',
-    issueDate: '2023-04',
-    expiryDate: '2025-04',
-    status: 'Active'
-  }
-]
-
 // Extend profile update schema for additional fields
 const extendedProfileSchema = profileUpdateSchema.extend({
   location: safeTextSchema(2, 100).optional(),
@@ -283,7 +258,8 @@ export default function ProfilePage() {
                       { id: 'experience', label: 'Experience', icon: Briefcase },
                       { id: 'education', label: 'Education', icon: GraduationCap },
                       { id: 'certifications', label: 'Certifications', icon: Award },
-                      { id: 'preferences', label: 'Preferences', icon: FileText }
+                      { id: 'preferences', label: 'Preferences', icon: FileText },
+                      { id: 'availability', label: 'Availability', icon: Calendar }
                     ].map((item) => {
                       const Icon = item.icon
                       return (
@@ -594,60 +570,7 @@ export default function ProfilePage() {
               )}
 
               {/* Certifications */}
-              {activeSection === 'certifications' && (
-                <Card>
-                  <CardHeader>
-                    <div className="flex items-center justify-between">
-                      <CardTitle className="flex items-center gap-2">
-                        <Award className="h-5 w-5" />
-                        Certifications & Licenses
-                      </CardTitle>
-                      {isEditing && (
-                        <Button size="sm" variant="outline">
-                          <Plus className="mr-2 h-4 w-4" />
-                          Add Certification
-                        </Button>
-                      )}
-                    </div>
-                  </CardHeader>
-                  <CardContent className="space-y-6">
-                    {certifications.map((cert) => (
-                      <div key={cert.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-6">
-                        <div className="flex items-start justify-between">
-                          <div className="flex-1">
-                            <div className="flex items-center gap-3 mb-2">
-                              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
-                                {cert.name}
-                              </h3>
-                              <Badge variant={cert.status === 'Active' ? 'success' : 'secondary'}>
-                                {cert.status}
-                              </Badge>
-                            </div>
-                            <div className="flex items-center gap-2 text-gray-600 dark:text-gray-400 mb-2">
-                              <Shield className="h-4 w-4" />
-                              <span>{cert.issuer}</span>
-                            </div>
-                            <div className="flex items-center gap-4 text-sm text-gray-500">
-                              <span>Issued: {new Date(cert.issueDate).toLocaleDateString()}</span>
-                              <span>Expires: {new Date(cert.expiryDate).toLocaleDateString()}</span>
-                            </div>
-                          </div>
-                          {isEditing && (
-                            <div className="flex gap-2">
-                              <Button size="sm" variant="outline">
-                                <Edit3 className="h-4 w-4" />
-                              </Button>
-                              <Button size="sm" variant="outline">
-                                <Trash2 className="h-4 w-4" />
-                              </Button>
-                            </div>
-                          )}
-                        </div>
-                      </div>
-                    ))}
-                  </CardContent>
-                </Card>
-              )}
+              {activeSection === 'certifications' && <CredentialWallet />}
 
               {/* Job Preferences */}
               {activeSection === 'preferences' && (
@@ -757,6 +680,9 @@ export default function ProfilePage() {
                   </CardContent>
                 </Card>
               )}
+
+              {/* Availability and job matching */}
+              {activeSection === 'availability' && <AvailabilityEditor />}
             </motion.div>
           </div>
         </div>
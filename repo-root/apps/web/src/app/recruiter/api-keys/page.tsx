@@ -0,0 +1,20 @@
+'use client'
+
+import { ApiKeyManager } from '@/components/api-keys'
+
+export default function RecruiterApiKeysPage() {
+  return (
+    <div className="bg-gray-50 dark:bg-gray-900 min-h-screen">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">API keys</h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Manage your jobs and applications and run calculations from your own systems with the REST API
+          </p>
+        </div>
+
+        <ApiKeyManager />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,153 @@
+'use client'
+
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { ArrowLeft, Award, FileText, Mail, Phone, Shield } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { CredentialExpiryBadge, VerifiedLicenseBadge } from '@/components/credentials'
+import { ApplicationPipeline } from '@/components/pipeline'
+import { MatchScoreCard } from '@/components/applications'
+import { trpc } from '@/providers/trpc-provider'
+import { CREDENTIAL_TYPE_LABELS, CredentialType } from '@locumtruerate/types'
+
+export default function RecruiterApplicationPage() {
+  const params = useParams()
+  const id = params.id as string
+  const { data: application, isLoading, error, refetch } = trpc.applications.getById.useQuery({ id })
+
+  if (isLoading) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-4 animate-pulse">
+        <div className="h-8 w-1/3 bg-gray-100 dark:bg-gray-700 rounded" />
+        <div className="h-48 bg-gray-100 dark:bg-gray-700 rounded-lg" />
+      </div>
+    )
+  }
+
+  if (error || !application) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <p className="text-gray-600 dark:text-gray-400">
+          {error?.message || 'Application not found'}
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-900 min-h-screen">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <Link
+          href="/recruiter/leads"
+          className="inline-flex items-center gap-2 text-sm text-blue-600 hover:underline"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back
+        </Link>
+
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{application.name}</h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              {application.job.title} · {application.job.company?.name}
+            </p>
+          </div>
+          <Badge variant="outline">{application.status}</Badge>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Candidate</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm text-gray-700 dark:text-gray-300">
+            <p className="flex items-center gap-2">
+              <Mail className="h-4 w-4" />
+              {application.email}
+            </p>
+            <p className="flex items-center gap-2">
+              <Phone className="h-4 w-4" />
+              {application.phone}
+            </p>
+            <p>
+              {application.experience} years experience
+              {application.currentRole && ` · ${application.currentRole}`}
+              {application.currentCompany && ` at ${application.currentCompany}`}
+            </p>
+            {application.resumeUrl && (
+              <a
+                href={application.resumeUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1 text-blue-600 hover:underline"
+              >
+                <FileText className="h-4 w-4" />
+                Resume
+              </a>
+            )}
+          </CardContent>
+        </Card>
+
+        <MatchScoreCard
+          jobId={application.jobId}
+          score={application.score}
+          breakdown={application.scoreBreakdown}
+          scoredAt={application.scoredAt}
+          onRescored={refetch}
+        />
+
+        <ApplicationPipeline applicationId={application.id} />
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Award className="h-5 w-5" />
+              Credentials
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {!application.credentials.length ? (
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                No credentials were shared with this application.
+              </p>
+            ) : (
+              application.credentials.map(({ credential }) => (
+                <div
+                  key={credential.id}
+                  className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 border border-gray-200 dark:border-gray-700 rounded-lg p-4"
+                >
+                  <div>
+                    <p className="font-medium text-gray-900 dark:text-white">{credential.name}</p>
+                    <p className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                      <Shield className="h-4 w-4" />
+                      {[
+                        CREDENTIAL_TYPE_LABELS[credential.type as CredentialType],
+                        credential.issuingState,
+                        credential.number && `#${credential.number}`
+                      ].filter(Boolean).join(' · ')}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <VerifiedLicenseBadge credential={credential} />
+                    <CredentialExpiryBadge expiresAt={credential.expiresAt} />
+                  </div>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Cover Letter</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="whitespace-pre-line text-sm text-gray-700 dark:text-gray-300">
+              {application.coverLetter}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,48 @@
+'use client'
+
+import { useState } from 'react'
+import { WebhookEndpoints } from '@/components/webhooks'
+import { trpc } from '@/providers/trpc-provider'
+
+export default function RecruiterWebhooksPage() {
+  const { data: organizations, isLoading } = trpc.webhooks.organizations.useQuery()
+  const [organizationId, setOrganizationId] = useState<string | null>(null)
+
+  const selectedId = organizationId ?? organizations?.[0]?.id
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-900 min-h-screen">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Webhooks</h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              Send job, application, lead and subscription events to your own systems
+            </p>
+          </div>
+          {organizations && organizations.length > 1 && (
+            <select
+              value={selectedId}
+              onChange={(e) => setOrganizationId(e.target.value)}
+              className="p-2 border border-gray-200 rounded-lg bg-white text-gray-900 text-sm"
+            >
+              {organizations.map(organization => (
+                <option key={organization.id} value={organization.id}>{organization.name}</option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="h-48 bg-gray-100 dark:bg-gray-700 rounded-lg animate-pulse" />
+        ) : selectedId ? (
+          <WebhookEndpoints key={selectedId} organizationId={selectedId} />
+        ) : (
+          <p className="text-gray-600 dark:text-gray-400">
+            Webhooks are managed by organization owners and admins.
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import { Lock } from 'lucide-react'
+import { Button } from '@locumtruerate/ui'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { SharedCalculationView } from '@/components/calculator'
+import { trpc } from '@/providers/trpc-provider'
+
+export default function SharedCalculationClient({ token }: { token: string }) {
+  const [password, setPassword] = useState('')
+  const open = trpc.calculations.getShared.useMutation()
+  const { mutate } = open
+  const openedToken = useRef<string>()
+
+  // Opening the page counts as a view, so each token is opened once, not
+  // refetched on re-renders
+  useEffect(() => {
+    if (openedToken.current === token) return
+    openedToken.current = token
+    mutate({ token, referrer: document.referrer || undefined })
+  }, [token, mutate])
+
+  const result = open.data
+  const needsPassword = result?.status === 'password_required' || result?.status === 'invalid_password' || result?.status === 'locked'
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-900 min-h-screen">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {open.isLoading && !result ? (
+          <div className="h-64 bg-gray-100 dark:bg-gray-700 rounded-lg animate-pulse" />
+        ) : open.error ? (
+          <Card>
+            <CardContent className="py-12 text-center text-gray-600 dark:text-gray-400">
+              {open.error.message}
+            </CardContent>
+          </Card>
+        ) : result?.status === 'expired' ? (
+          <Card>
+            <CardContent className="py-12 text-center text-gray-600 dark:text-gray-400">
+              This link has expired. Ask the person who shared it for a new one.
+            </CardContent>
+          </Card>
+        ) : needsPassword ? (
+          <Card className="max-w-md mx-auto">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Lock className="h-5 w-5" />
+                Password required
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form
+                className="space-y-4"
+                onSubmit={(e) => {
+                  e.preventDefault()
+                  open.mutate({ token, password })
+                }}
+              >
+                <div>
+                  <Label htmlFor="sharePassword">Password</Label>
+                  <Input
+                    id="sharePassword"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    autoFocus
+                    required
+                  />
+                </div>
+                {result.status === 'invalid_password' && (
+                  <p className="text-sm text-red-600" role="alert">That password is not correct.</p>
+                )}
+                {result.status === 'locked' && (
+                  <p className="text-sm text-red-600" role="alert">
+                    Too many wrong passwords. Try again in a few minutes.
+                  </p>
+                )}
+                <Button type="submit" size="sm" disabled={open.isLoading}>
+                  View calculation
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        ) : result?.status === 'ok' ? (
+          <SharedCalculationView calculation={result.calculation} />
+        ) : null}
+
+        <p className="text-center text-sm text-gray-500">
+          Run your own numbers with the{' '}
+          <Link href="/tools/calculator" className="text-blue-600 hover:underline">LocumTrueRate calculator</Link>
+        </p>
+      </div>
+    </div>
+  )
+}
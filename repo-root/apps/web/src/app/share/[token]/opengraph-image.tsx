@@ -0,0 +1,52 @@
+import { ImageResponse } from 'next/og'
+import { appRouter, createContext } from '@locumtruerate/api'
+
+export const alt = 'Shared compensation breakdown'
+export const size = { width: 1200, height: 630 }
+export const contentType = 'image/png'
+
+const currency = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 })
+
+// Preview card for chat apps and social sites. Password-protected and
+// unavailable links get a generic card.
+export default async function Image({ params }: { params: { token: string } }) {
+  const preview = await appRouter
+    .createCaller(createContext({}))
+    .calculations.getSharePreview({ token: params.token })
+    .catch(() => null)
+
+  const title = preview && !preview.protected && preview.name ? preview.name : alt
+  const headline = preview?.headline
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: 'space-between',
+          padding: 72,
+          background: 'linear-gradient(135deg, #1e3a8a 0%, #2563eb 100%)',
+          color: 'white'
+        }}
+      >
+        <div style={{ fontSize: 32, opacity: 0.85 }}>LocumTrueRate</div>
+        <div style={{ display: 'flex', flexDirection: 'column' }}>
+          <div style={{ fontSize: 56, fontWeight: 700 }}>{title}</div>
+          {headline && (
+            <div style={{ display: 'flex', alignItems: 'baseline', marginTop: 24 }}>
+              <span style={{ fontSize: 36, opacity: 0.85, marginRight: 20 }}>{headline.label}</span>
+              <span style={{ fontSize: 72, fontWeight: 700 }}>{currency.format(headline.amount)}</span>
+            </div>
+          )}
+        </div>
+        <div style={{ fontSize: 28, opacity: 0.85 }}>
+          {preview?.protected ? 'Password protected' : 'Open for the full breakdown'}
+        </div>
+      </div>
+    ),
+    size
+  )
+}
@@ -0,0 +1,32 @@
+import { Metadata } from 'next'
+import { appRouter, createContext } from '@locumtruerate/api'
+import { generateSEO } from '@/lib/seo'
+import SharedCalculationClient from './client'
+
+const currency = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 })
+
+// Link previews only see what the link's settings allow and don't count as views
+export async function generateMetadata({ params }: { params: { token: string } }): Promise<Metadata> {
+  const preview = await appRouter
+    .createCaller(createContext({}))
+    .calculations.getSharePreview({ token: params.token })
+    .catch(() => null)
+
+  const title = preview && !preview.protected && preview.name ? preview.name : 'Shared compensation breakdown'
+  const description = preview?.headline
+    ? `${preview.headline.label}: ${currency.format(preview.headline.amount)}. See the full breakdown on LocumTrueRate.`
+    : 'A compensation breakdown shared from LocumTrueRate.'
+
+  return generateSEO({
+    title,
+    description,
+    url: `/share/${params.token}`,
+    image: `/share/${params.token}/opengraph-image`,
+    noIndex: true,
+    noFollow: true
+  })
+}
+
+export default function SharedCalculationPage({ params }: { params: { token: string } }) {
+  return <SharedCalculationClient token={params.token} />
+}
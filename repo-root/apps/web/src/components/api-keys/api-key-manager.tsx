@@ -0,0 +1,230 @@
+'use client'
+
+import { useState } from 'react'
+import { Key, Plus, Trash2 } from 'lucide-react'
+import { Button } from '@locumtruerate/ui'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { trpc } from '@/providers/trpc-provider'
+import {
+  API_KEY_HEADER,
+  API_KEY_SCOPE_LABELS,
+  ApiKeyScope,
+  DEFAULT_API_KEY_RATE_LIMIT
+} from '@locumtruerate/types'
+
+const EMPTY_FORM = {
+  name: '',
+  permissions: [] as ApiKeyScope[],
+  rateLimit: String(DEFAULT_API_KEY_RATE_LIMIT),
+  expiresAt: ''
+}
+
+const formatKeyDate = (date: Date | string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+
+function keyStatus(apiKey: { revokedAt: Date | string | null; expiresAt: Date | string | null }) {
+  if (apiKey.revokedAt) return { label: 'Revoked', variant: 'gray' as const }
+  if (apiKey.expiresAt && new Date(apiKey.expiresAt) <= new Date()) return { label: 'Expired', variant: 'red' as const }
+  return { label: 'Active', variant: 'green' as const }
+}
+
+/**
+ * The user's REST API keys: create a key with scopes, a rate limit and an
+ * optional expiration, see when each was last used, and revoke them
+ */
+export function ApiKeyManager() {
+  const { data: access } = trpc.apiKeys.access.useQuery()
+  const { data: apiKeys, isLoading, refetch } = trpc.apiKeys.list.useQuery()
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [showForm, setShowForm] = useState(false)
+  // A new key is only shown once, right after it is created
+  const [revealed, setRevealed] = useState<{ id: string; key: string } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const create = trpc.apiKeys.create.useMutation({
+    onSuccess: (apiKey) => {
+      setRevealed({ id: apiKey.id, key: apiKey.key })
+      setForm(EMPTY_FORM)
+      setShowForm(false)
+      refetch()
+    },
+    onError: (error) => setError(error.message)
+  })
+  const revoke = trpc.apiKeys.revoke.useMutation({
+    onSuccess: () => refetch(),
+    onError: (error) => setError(error.message)
+  })
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Key className="h-5 w-5" />
+            API keys
+          </CardTitle>
+          {access?.apiAccess && (
+            <Button size="sm" variant="outline" onClick={() => setShowForm(!showForm)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Create key
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Send a key in the <code>{API_KEY_HEADER}</code> header (or as a Bearer token) and the API version in
+          the <code>API-Version</code> header. A key can do only what its scopes allow, as you, and each key has
+          its own requests-per-minute limit.
+        </p>
+
+        {access && !access.apiAccess && (
+          <p className="rounded-lg bg-blue-50 dark:bg-blue-900/30 p-3 text-sm text-blue-800 dark:text-blue-300">
+            API access is included with an active Enterprise subscription. Existing keys stop working while it is
+            not active.
+          </p>
+        )}
+
+        {showForm && (
+          <form
+            className="space-y-4 border border-gray-200 dark:border-gray-700 rounded-lg p-4"
+            onSubmit={(e) => {
+              e.preventDefault()
+              setError(null)
+              create.mutate({
+                name: form.name,
+                permissions: form.permissions,
+                rateLimit: Number(form.rateLimit) || DEFAULT_API_KEY_RATE_LIMIT,
+                expiresAt: form.expiresAt ? new Date(`${form.expiresAt}T23:59:59`) : undefined
+              })
+            }}
+          >
+            <div>
+              <Label htmlFor="apiKeyName">Name</Label>
+              <Input
+                id="apiKeyName"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g. ATS integration"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Scopes</Label>
+              <div className="grid gap-2 sm:grid-cols-2">
+                {Object.values(ApiKeyScope).map(scope => (
+                  <label key={scope} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={form.permissions.includes(scope)}
+                      onChange={(e) => setForm(prev => ({
+                        ...prev,
+                        permissions: e.target.checked
+                          ? [...prev.permissions, scope]
+                          : prev.permissions.filter(value => value !== scope)
+                      }))}
+                      className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600"
+                    />
+                    {API_KEY_SCOPE_LABELS[scope]}
+                    <code className="text-xs text-gray-500">{scope}</code>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div>
+                <Label htmlFor="apiKeyRateLimit">Requests per minute</Label>
+                <Input
+                  id="apiKeyRateLimit"
+                  type="number"
+                  min={1}
+                  max={600}
+                  value={form.rateLimit}
+                  onChange={(e) => setForm(prev => ({ ...prev, rateLimit: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="apiKeyExpiresAt">Expires (optional)</Label>
+                <Input
+                  id="apiKeyExpiresAt"
+                  type="date"
+                  value={form.expiresAt}
+                  onChange={(e) => setForm(prev => ({ ...prev, expiresAt: e.target.value }))}
+                />
+              </div>
+            </div>
+            <Button type="submit" size="sm" disabled={create.isLoading || form.permissions.length === 0}>
+              Create key
+            </Button>
+          </form>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {isLoading ? (
+          <div className="h-24 bg-gray-100 dark:bg-gray-700 rounded-lg animate-pulse" />
+        ) : !apiKeys?.length ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400">No API keys yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {apiKeys.map(apiKey => {
+              const status = keyStatus(apiKey)
+              return (
+                <li key={apiKey.id} className="py-4 space-y-2 text-sm">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-gray-900 dark:text-white">{apiKey.name}</span>
+                      {apiKey.prefix && <code className="text-xs text-gray-500">{apiKey.prefix}…</code>}
+                      <Badge variant={status.variant}>{status.label}</Badge>
+                    </div>
+                    {!apiKey.revokedAt && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={revoke.isLoading}
+                        onClick={() => {
+                          if (confirm(`Revoke "${apiKey.name}"? Requests using it will be rejected immediately.`)) {
+                            setError(null)
+                            revoke.mutate({ id: apiKey.id })
+                          }
+                        }}
+                      >
+                        <Trash2 className="mr-2 h-4 w-4" />
+                        Revoke
+                      </Button>
+                    )}
+                  </div>
+
+                  {revealed && revealed.id === apiKey.id && (
+                    <div className="rounded-lg bg-yellow-50 dark:bg-yellow-900/30 p-3">
+                      <p className="text-yellow-800 dark:text-yellow-300">
+                        Copy this key now; it will not be shown again.
+                      </p>
+                      <code className="break-all text-gray-900 dark:text-white">{revealed.key}</code>
+                    </div>
+                  )}
+
+                  <div className="flex flex-wrap gap-1">
+                    {apiKey.permissions.map(scope => (
+                      <Badge key={scope} variant="outline">{scope}</Badge>
+                    ))}
+                  </div>
+                  <p className="text-gray-500">
+                    {apiKey.rateLimit} requests/min
+                    {' · '}created {formatKeyDate(apiKey.createdAt)}
+                    {' · '}{apiKey.lastUsedAt ? `last used ${formatKeyDate(apiKey.lastUsedAt)}` : 'never used'}
+                    {apiKey.expiresAt && ` · expires ${formatKeyDate(apiKey.expiresAt)}`}
+                    {apiKey.revokedAt && ` · revoked ${formatKeyDate(apiKey.revokedAt)}`}
+                  </p>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
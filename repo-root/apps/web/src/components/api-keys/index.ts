@@ -0,0 +1 @@
+export { ApiKeyManager } from './api-key-manager'
@@ -0,0 +1 @@
+export { MatchScoreCard } from './match-score-card'
@@ -0,0 +1,119 @@
+'use client'
+
+import { useState } from 'react'
+import { CheckCircle2, MinusCircle, RefreshCw, Target, XCircle } from 'lucide-react'
+import { Button } from '@locumtruerate/ui'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { trpc } from '@/providers/trpc-provider'
+import {
+  APPLICATION_SCORE_CRITERION_LABELS,
+  type ApplicationScoreBreakdown,
+  type ApplicationScoreItem
+} from '@locumtruerate/types'
+
+const scoreVariant = (score: number) => score >= 75 ? 'green' : score >= 50 ? 'yellow' : 'red'
+
+function ItemIcon({ item }: { item: ApplicationScoreItem }) {
+  if (!item.applicable) return <MinusCircle className="h-4 w-4 text-gray-400" />
+  if (item.points === item.maxPoints) return <CheckCircle2 className="h-4 w-4 text-green-600" />
+  if (item.points === 0) return <XCircle className="h-4 w-4 text-red-600" />
+  return <MinusCircle className="h-4 w-4 text-yellow-600" />
+}
+
+/**
+ * How an application matches the job's requirements, criterion by criterion,
+ * with a button to re-score every application for the job
+ */
+export function MatchScoreCard({
+  jobId,
+  score,
+  breakdown,
+  scoredAt,
+  onRescored
+}: {
+  jobId: string
+  score?: number | null
+  breakdown?: ApplicationScoreBreakdown | null
+  scoredAt?: Date | string | null
+  onRescored: () => void
+}) {
+  const [notice, setNotice] = useState<string | null>(null)
+  const rescore = trpc.applications.rescoreByJob.useMutation({
+    onSuccess: ({ rescored }) => {
+      setNotice(`Re-scored ${rescored} application${rescored === 1 ? '' : 's'}`)
+      onRescored()
+    },
+    onError: (error) => setNotice(error.message)
+  })
+
+  // Applications scored before match scoring have no item list
+  const items = Array.isArray(breakdown?.items) ? breakdown!.items : null
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Target className="h-5 w-5" />
+            Match Score
+            {typeof score === 'number' && (
+              <Badge variant={scoreVariant(score)}>{Math.round(score)}</Badge>
+            )}
+          </CardTitle>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => {
+              setNotice(null)
+              rescore.mutate({ jobId })
+            }}
+            disabled={rescore.isLoading}
+          >
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Re-score job applications
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!items ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            This application has not been scored against the job&apos;s requirements yet.
+          </p>
+        ) : (
+          <>
+            {score === null && (
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                The job has no requirements to score against.
+              </p>
+            )}
+            <ul className="space-y-2">
+              {items.map(item => (
+                <li key={item.criterion} className="flex items-start justify-between gap-4 text-sm">
+                  <div className="flex items-start gap-2">
+                    <ItemIcon item={item} />
+                    <div>
+                      <p className="font-medium text-gray-900 dark:text-white">
+                        {APPLICATION_SCORE_CRITERION_LABELS[item.criterion]}
+                      </p>
+                      <p className="text-gray-600 dark:text-gray-400">{item.detail}</p>
+                    </div>
+                  </div>
+                  {item.applicable && (
+                    <span className="whitespace-nowrap text-gray-700 dark:text-gray-300">
+                      {item.points} / {item.maxPoints}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+        {scoredAt && (
+          <p className="text-xs text-gray-500">Scored {new Date(scoredAt).toLocaleString()}</p>
+        )}
+        {notice && <p className="text-sm text-gray-600 dark:text-gray-400">{notice}</p>}
+      </CardContent>
+    </Card>
+  )
+}
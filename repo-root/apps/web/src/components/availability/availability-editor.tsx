@@ -0,0 +1,317 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Calendar, Plus, Trash2, Save, Bell } from 'lucide-react'
+import { Button } from '@locumtruerate/ui'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { trpc } from '@/providers/trpc-provider'
+import { cn } from '@/lib/utils'
+import {
+  HEALTHCARE_SPECIALTIES,
+  LICENSE_STATES,
+  PROFESSION_LABELS,
+  Profession,
+  type LicenseState
+} from '@locumtruerate/types'
+
+const SPECIALTIES = Object.keys(HEALTHCARE_SPECIALTIES)
+
+interface PreferencesForm {
+  profession: Profession | ''
+  specialties: string[]
+  desiredStates: LicenseState[]
+  licensedStates: LicenseState[]
+  minHourlyRate: string
+  digestEnabled: boolean
+}
+
+const emptyPreferences: PreferencesForm = {
+  profession: '',
+  specialties: [],
+  desiredStates: [],
+  licensedStates: [],
+  minHourlyRate: '',
+  digestEnabled: true
+}
+
+// Dates from <input type="date"> are calendar dates; keep them in UTC
+const parseDateInput = (value: string) => new Date(`${value}T00:00:00Z`)
+
+const formatBlockDate = (date: Date | string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' })
+
+const toggle = <T,>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter(item => item !== value) : [...values, value]
+
+interface StateToggleGridProps {
+  label: string
+  selected: LicenseState[]
+  onToggle: (state: LicenseState) => void
+}
+
+function StateToggleGrid({ label, selected, onToggle }: StateToggleGridProps) {
+  return (
+    <div>
+      <Label className="text-sm font-medium mb-2 block">{label}</Label>
+      <div className="grid grid-cols-6 sm:grid-cols-9 gap-1">
+        {LICENSE_STATES.map(state => (
+          <button
+            key={state}
+            type="button"
+            onClick={() => onToggle(state)}
+            aria-pressed={selected.includes(state)}
+            className={cn(
+              "p-1 text-xs rounded border transition-all",
+              selected.includes(state)
+                ? "bg-blue-50 border-blue-200 text-blue-700"
+                : "bg-white border-gray-200 text-gray-700 hover:bg-gray-50"
+            )}
+          >
+            {state}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Availability blocks and matching preferences used to find job matches and
+ * build the daily match digest
+ */
+export function AvailabilityEditor() {
+  const { data: availability, refetch } = trpc.availability.get.useQuery()
+  const [preferences, setPreferences] = useState<PreferencesForm>(emptyPreferences)
+  const [newBlock, setNewBlock] = useState({ startDate: '', endDate: '', note: '' })
+  const [blockError, setBlockError] = useState<string | null>(null)
+
+  const updatePreferences = trpc.availability.updatePreferences.useMutation({
+    onSuccess: () => refetch()
+  })
+  const addBlock = trpc.availability.addBlock.useMutation({
+    onSuccess: () => {
+      setNewBlock({ startDate: '', endDate: '', note: '' })
+      refetch()
+    },
+    onError: (error) => setBlockError(error.message)
+  })
+  const removeBlock = trpc.availability.removeBlock.useMutation({
+    onSuccess: () => refetch()
+  })
+
+  useEffect(() => {
+    if (availability) {
+      setPreferences({
+        profession: (availability.profession as Profession) || '',
+        specialties: availability.specialties,
+        desiredStates: availability.desiredStates as LicenseState[],
+        licensedStates: availability.licensedStates as LicenseState[],
+        minHourlyRate: availability.minHourlyRate?.toString() || '',
+        digestEnabled: availability.digestEnabled
+      })
+    }
+  }, [availability])
+
+  const handleSavePreferences = () => {
+    updatePreferences.mutate({
+      profession: preferences.profession || null,
+      specialties: preferences.specialties,
+      desiredStates: preferences.desiredStates,
+      licensedStates: preferences.licensedStates,
+      minHourlyRate: preferences.minHourlyRate ? parseInt(preferences.minHourlyRate, 10) : null,
+      digestEnabled: preferences.digestEnabled
+    })
+  }
+
+  const handleAddBlock = () => {
+    setBlockError(null)
+    if (!newBlock.startDate || !newBlock.endDate) {
+      setBlockError('Choose a start and end date')
+      return
+    }
+    if (newBlock.endDate < newBlock.startDate) {
+      setBlockError('End date must be on or after the start date')
+      return
+    }
+    addBlock.mutate({
+      startDate: parseDateInput(newBlock.startDate),
+      endDate: parseDateInput(newBlock.endDate),
+      note: newBlock.note || undefined
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Availability blocks */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Calendar className="h-5 w-5" />
+            Availability
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {availability?.blocks.length ? (
+            <div className="space-y-2">
+              {availability.blocks.map(block => (
+                <div
+                  key={block.id}
+                  className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700 rounded-lg"
+                >
+                  <div>
+                    <p className="font-medium text-gray-900 dark:text-white">
+                      {formatBlockDate(block.startDate)} – {formatBlockDate(block.endDate)}
+                    </p>
+                    {block.note && (
+                      <p className="text-sm text-gray-600 dark:text-gray-400">{block.note}</p>
+                    )}
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => removeBlock.mutate({ id: block.id })}
+                    aria-label="Remove availability block"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Add the dates you can work to get matched with assignments.
+            </p>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div>
+              <Label htmlFor="availabilityStart">Available from</Label>
+              <Input
+                id="availabilityStart"
+                type="date"
+                value={newBlock.startDate}
+                onChange={(e) => setNewBlock(prev => ({ ...prev, startDate: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="availabilityEnd">Until</Label>
+              <Input
+                id="availabilityEnd"
+                type="date"
+                value={newBlock.endDate}
+                onChange={(e) => setNewBlock(prev => ({ ...prev, endDate: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="availabilityNote">Note</Label>
+              <Input
+                id="availabilityNote"
+                placeholder="e.g. Nights only"
+                value={newBlock.note}
+                onChange={(e) => setNewBlock(prev => ({ ...prev, note: e.target.value }))}
+              />
+            </div>
+          </div>
+          {blockError && <p className="text-sm text-red-600">{blockError}</p>}
+          <Button onClick={handleAddBlock} disabled={addBlock.isLoading}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Availability
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Matching preferences */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Matching Preferences</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <Label htmlFor="matchProfession">Profession</Label>
+              <select
+                id="matchProfession"
+                value={preferences.profession}
+                onChange={(e) => setPreferences(prev => ({ ...prev, profession: e.target.value as Profession | '' }))}
+                className="w-full p-2 border border-gray-200 rounded-lg bg-white text-gray-900 text-sm"
+              >
+                <option value="">Any profession</option>
+                {Object.values(Profession).map(profession => (
+                  <option key={profession} value={profession}>{PROFESSION_LABELS[profession]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="minHourlyRate">Minimum hourly rate ($)</Label>
+              <Input
+                id="minHourlyRate"
+                type="number"
+                min="0"
+                value={preferences.minHourlyRate}
+                onChange={(e) => setPreferences(prev => ({ ...prev, minHourlyRate: e.target.value }))}
+                placeholder="e.g. 250"
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label className="text-sm font-medium mb-2 block">Specialties</Label>
+            <div className="flex flex-wrap gap-2">
+              {SPECIALTIES.map(specialty => (
+                <button
+                  key={specialty}
+                  type="button"
+                  onClick={() => setPreferences(prev => ({ ...prev, specialties: toggle(prev.specialties, specialty) }))}
+                  aria-pressed={preferences.specialties.includes(specialty)}
+                >
+                  <Badge variant={preferences.specialties.includes(specialty) ? 'default' : 'outline'}>
+                    {specialty}
+                  </Badge>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <StateToggleGrid
+            label="Where you want to work"
+            selected={preferences.desiredStates}
+            onToggle={(state) => setPreferences(prev => ({ ...prev, desiredStates: toggle(prev.desiredStates, state) }))}
+          />
+
+          <StateToggleGrid
+            label="States you are licensed in"
+            selected={preferences.licensedStates}
+            onToggle={(state) => setPreferences(prev => ({ ...prev, licensedStates: toggle(prev.licensedStates, state) }))}
+          />
+
+          <div className="flex items-center justify-between border-t border-gray-200 dark:border-gray-700 pt-6">
+            <div>
+              <Label htmlFor="digestEnabled" className="flex items-center gap-2">
+                <Bell className="h-4 w-4" />
+                Daily match digest
+              </Label>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Email me new jobs that match my availability
+              </p>
+            </div>
+            <input
+              type="checkbox"
+              id="digestEnabled"
+              checked={preferences.digestEnabled}
+              onChange={(e) => setPreferences(prev => ({ ...prev, digestEnabled: e.target.checked }))}
+              className="rounded"
+            />
+          </div>
+
+          <Button onClick={handleSavePreferences} disabled={updatePreferences.isLoading}>
+            <Save className="mr-2 h-4 w-4" />
+            Save Preferences
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
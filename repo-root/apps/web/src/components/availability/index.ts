@@ -0,0 +1,2 @@
+export { AvailabilityEditor } from './availability-editor'
+export { JobMatches } from './job-matches'
\ No newline at end of file
@@ -0,0 +1,98 @@
+'use client'
+
+import Link from 'next/link'
+import { Sparkles, MapPin, DollarSign, Calendar } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge, type BadgeProps } from '@/components/ui/badge'
+import { trpc } from '@/providers/trpc-provider'
+import { formatAssignmentDates } from '@locumtruerate/types'
+
+interface JobMatchesProps {
+  limit?: number
+}
+
+const getScoreVariant = (score: number): BadgeProps['variant'] => {
+  if (score >= 85) return 'green'
+  if (score >= 70) return 'blue'
+  return 'yellow'
+}
+
+/**
+ * Active jobs ranked against the candidate's availability and preferences
+ */
+export function JobMatches({ limit = 5 }: JobMatchesProps) {
+  const { data: matches, isLoading } = trpc.availability.matches.useQuery({ limit })
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Sparkles className="h-5 w-5" />
+          Job Matches
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-4 animate-pulse">
+            {[0, 1, 2].map(index => (
+              <div key={index} className="h-20 bg-gray-100 dark:bg-gray-700 rounded-lg" />
+            ))}
+          </div>
+        ) : !matches?.length ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            No matches yet.{' '}
+            <Link href="/profile" className="text-blue-600 hover:underline">
+              Add your availability and preferences
+            </Link>{' '}
+            to get matched with assignments.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {matches.map(({ job, score, reasons }) => (
+              <Link
+                key={job.id}
+                href={`/jobs/${job.slug}`}
+                className="block p-4 bg-gray-50 dark:bg-gray-700 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors"
+              >
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex-1 min-w-0">
+                    <h3 className="font-semibold text-gray-900 dark:text-white truncate">
+                      {job.title}
+                    </h3>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {job.company?.name}
+                    </p>
+                    <div className="flex flex-wrap items-center gap-4 mt-2 text-sm text-gray-500">
+                      <span className="flex items-center gap-1">
+                        <MapPin className="h-4 w-4" />
+                        {job.location}
+                      </span>
+                      {job.salary && (
+                        <span className="flex items-center gap-1">
+                          <DollarSign className="h-4 w-4" />
+                          {job.salary}
+                        </span>
+                      )}
+                      {formatAssignmentDates(job) && (
+                        <span className="flex items-center gap-1">
+                          <Calendar className="h-4 w-4" />
+                          {formatAssignmentDates(job)}
+                        </span>
+                      )}
+                    </div>
+                    {reasons.length > 0 && (
+                      <p className="text-xs text-gray-500 mt-2">{reasons.join(' · ')}</p>
+                    )}
+                  </div>
+                  <Badge variant={getScoreVariant(score)}>
+                    {score}% match
+                  </Badge>
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -2,12 +2,23 @@
 
 import React from 'react'
 import { useState, useCallback, useEffect } from 'react'
-import { ContractCalculationEngine, ContractInput, ContractCalculationResult, US_STATES, ContractType } from '@locumtruerate/calc-core'
+import {
+  ContractCalculationEngine,
+  ContractSolver,
+  ContractInput,
+  ContractCalculationResult,
+  SensitivityTable,
+  SolverResult,
+  SolverVariable,
+  US_STATES,
+  USState,
+  ContractType
+} from '@locumtruerate/calc-core'
 import { Button } from '@locumtruerate/ui'
 import { Input } from '@/components/ui/input'
 import { Select, SelectOption } from '@/components/ui/select'
 import { useCalculatorAnalytics } from '@/hooks/use-analytics'
-import { ChevronDown, ChevronUp, Download, Save, Calculator, RefreshCw, GitCompare, AlertCircle } from 'lucide-react'
+import { ChevronDown, ChevronUp, Download, Save, Calculator, RefreshCw, GitCompare, AlertCircle, Target } from 'lucide-react'
 import { format } from 'date-fns'
 import { cn } from '@/lib/utils'
 import { SaveCalculationDialog } from './save-calculation-dialog'
@@ -15,6 +26,9 @@ import { z } from 'zod'
 import { safeTextSchema, moneySchema } from '@/lib/validation/schemas'
 import { safeParse } from '@/lib/validation/apply-validation'
 
+const isUSState = (value: string): value is USState =>
+  (US_STATES as readonly string[]).includes(value)
+
 // Validation schema for contract calculator
 const contractCalculatorSchema = z.object({
   // Basic Info
@@ -75,6 +89,12 @@ const FILING_STATUS_OPTIONS: SelectOption[] = [
   { value: 'HEAD_OF_HOUSEHOLD', label: 'Head of Household' }
 ]
 
+const SOLVER_VARIABLE_OPTIONS: SelectOption[] = [
+  { value: 'hourlyRate', label: 'Hourly Rate' },
+  { value: 'hoursPerWeek', label: 'Hours per Week' },
+  { value: 'housingStipend', label: 'Housing Stipend ($/week)' }
+]
+
 const STATE_OPTIONS: SelectOption[] = US_STATES.map(state => ({
   value: state,
   label: state
@@ -99,8 +119,36 @@ const initialFormData: FormData = {
   malpracticeInsurance: ''
 }
 
-export function ContractCalculator() {
-  const [formData, setFormData] = useState<FormData>({
+interface ContractCalculatorProps {
+  // Prefills the form, e.g. from a job posting's structured compensation.
+  // Fields the form does not show (meals, overtime, call pay, W-2/1099) are
+  // carried into the calculation.
+  initialInput?: ContractInput
+  onCalculation?: (result: ContractCalculationResult) => void
+}
+
+// Form values for an existing contract input
+const formDataFromContract = (input: ContractInput): FormData => ({
+  title: input.title,
+  specialty: input.specialty,
+  state: input.location.state,
+  city: input.location.city,
+  zipCode: input.location.zipCode,
+  contractType: input.contractType,
+  hourlyRate: input.hourlyRate,
+  hoursPerWeek: input.hoursPerWeek,
+  duration: input.duration,
+  startDate: format(input.startDate, 'yyyy-MM-dd'),
+  endDate: format(input.endDate, 'yyyy-MM-dd'),
+  filingStatus: input.taxInfo.filingStatus as FormData['filingStatus'],
+  federalExemptions: input.taxInfo.federalExemptions,
+  travelExpenses: input.stipends.travel,
+  housingAllowance: input.stipends.housing,
+  malpracticeInsurance: input.stipends.malpractice
+})
+
+export function ContractCalculator({ initialInput, onCalculation }: ContractCalculatorProps = {}) {
+  const [formData, setFormData] = useState<FormData>(() => initialInput ? formDataFromContract(initialInput) : {
     title: '',
     specialty: '',
     state: '',
@@ -126,9 +174,24 @@ export function ContractCalculator() {
   const [showComparison, setShowComparison] = useState(false)
   const [showSaveDialog, setShowSaveDialog] = useState(false)
   const [calculationEngine] = useState(() => new ContractCalculationEngine())
+  const [solver] = useState(() => new ContractSolver(calculationEngine))
+  const [showSolver, setShowSolver] = useState(false)
+  const [solverVariable, setSolverVariable] = useState<SolverVariable>('hourlyRate')
+  const [targetNetPay, setTargetNetPay] = useState('')
+  const [isSolving, setIsSolving] = useState(false)
+  const [solverResult, setSolverResult] = useState<SolverResult | null>(null)
+  const [sensitivity, setSensitivity] = useState<SensitivityTable | null>(null)
   
   const { trackCalculatorUsage, trackCalculatorError, trackCalculatorExport } = useCalculatorAnalytics()
 
+  // Refill the form when a different contract is passed in
+  useEffect(() => {
+    if (initialInput) {
+      setFormData(formDataFromContract(initialInput))
+      setResult(null)
+    }
+  }, [initialInput])
+
   // Handle input changes with validation
   const handleInputChange = useCallback((field: keyof FormData, value: string | number) => {
     // Update form data
@@ -168,6 +231,59 @@ export function ContractCalculator() {
     return true
   }, [formData])
 
+  // Build contract input from the form
+  const buildContractInput = useCallback((): ContractInput => {
+    const { state } = formData
+    if (!isUSState(state)) {
+      throw new Error('Select a state first')
+    }
+
+    return {
+      ...initialInput,
+      title: formData.title || 'Contract Position',
+      specialty: formData.specialty || 'General',
+      location: {
+        state,
+        city: formData.city,
+        zipCode: formData.zipCode
+      },
+      contractType: formData.contractType as ContractType,
+      startDate: formData.startDate ? new Date(formData.startDate) : new Date(),
+      endDate: formData.endDate ? new Date(formData.endDate) : new Date(Date.now() + parseInt(formData.duration) * 7 * 24 * 60 * 60 * 1000),
+      duration: parseInt(formData.duration) || 0,
+      hourlyRate: parseFloat(formData.hourlyRate) || 0,
+      hoursPerWeek: parseFloat(formData.hoursPerWeek) || 0,
+      overtimeThreshold: initialInput?.overtimeThreshold ?? 40,
+      bonuses: initialInput?.bonuses ?? [],
+      stipends: {
+        housing: parseFloat(formData.housingAllowance) || 0,
+        travel: parseFloat(formData.travelExpenses) || 0,
+        meals: initialInput?.stipends.meals ?? 0,
+        licensure: initialInput?.stipends.licensure ?? 0,
+        malpractice: parseFloat(formData.malpracticeInsurance) || 0,
+        cme: initialInput?.stipends.cme ?? 0,
+        other: initialInput?.stipends.other ?? 0
+      },
+      deductions: {
+        healthInsurance: 0,
+        dentalInsurance: 0,
+        visionInsurance: 0,
+        retirement401k: 0,
+        professionalFees: 0,
+        parking: 0,
+        other: 0
+      },
+      taxInfo: {
+        filingStatus: formData.filingStatus,
+        federalExemptions: formData.federalExemptions,
+        stateExemptions: 0,
+        additionalFederalWithholding: 0,
+        additionalStateWithholding: 0,
+        isResident: true
+      }
+    }
+  }, [formData, initialInput])
+
   // Handle calculation
   const handleCalculate = useCallback(async () => {
     if (!validateForm()) {
@@ -177,53 +293,10 @@ export function ContractCalculator() {
     setIsCalculating(true)
     
     try {
-      // Build contract input
-      const contractInput: ContractInput = {
-        title: formData.title || 'Contract Position',
-        specialty: formData.specialty || 'General',
-        location: {
-          state: formData.state as any,
-          city: formData.city,
-          zipCode: formData.zipCode
-        },
-        contractType: formData.contractType as ContractType,
-        startDate: formData.startDate ? new Date(formData.startDate) : new Date(),
-        endDate: formData.endDate ? new Date(formData.endDate) : new Date(Date.now() + parseInt(formData.duration) * 7 * 24 * 60 * 60 * 1000),
-        duration: parseInt(formData.duration) || 0,
-        hourlyRate: parseFloat(formData.hourlyRate) || 0,
-        hoursPerWeek: parseFloat(formData.hoursPerWeek) || 0,
-        overtimeThreshold: 40,
-        bonuses: [],
-        stipends: {
-          housing: parseFloat(formData.housingAllowance) || 0,
-          travel: parseFloat(formData.travelExpenses) || 0,
-          meals: 0,
-          licensure: 0,
-          malpractice: parseFloat(formData.malpracticeInsurance) || 0,
-          cme: 0,
-          other: 0
-        },
-        deductions: {
-          healthInsurance: 0,
-          dentalInsurance: 0,
-          visionInsurance: 0,
-          retirement401k: 0,
-          professionalFees: 0,
-          parking: 0,
-          other: 0
-        },
-        taxInfo: {
-          filingStatus: formData.filingStatus,
-          federalExemptions: formData.federalExemptions,
-          stateExemptions: 0,
-          additionalFederalWithholding: 0,
-          additionalStateWithholding: 0,
-          isResident: true
-        }
-      }
-      
+      const contractInput = buildContractInput()
       const calculationResult = await calculationEngine.calculateContract(contractInput)
       setResult(calculationResult)
+      onCalculation?.(calculationResult)
       
       trackCalculatorUsage({
         calculatorType: 'contract',
@@ -241,7 +314,48 @@ export function ContractCalculator() {
     } finally {
       setIsCalculating(false)
     }
-  }, [formData, validateForm, calculationEngine, trackCalculatorUsage, trackCalculatorError])
+  }, [formData, validateForm, buildContractInput, calculationEngine, onCalculation, trackCalculatorUsage, trackCalculatorError])
+
+  // Solve for the rate, hours or stipend that reaches the target net pay
+  const handleSolve = useCallback(async () => {
+    const target = parseFloat(targetNetPay)
+    if (!target || target <= 0) {
+      setErrors(prev => ({ ...prev, targetNetPay: 'Enter a target net pay' }))
+      return
+    }
+
+    setIsSolving(true)
+    setErrors(prev => {
+      const newErrors = { ...prev }
+      delete newErrors.targetNetPay
+      return newErrors
+    })
+
+    try {
+      const contractInput = buildContractInput()
+      const [solved, table] = await Promise.all([
+        solver.solveForNetPay(contractInput, solverVariable, target),
+        solver.sensitivity(contractInput)
+      ])
+      setSolverResult(solved)
+      setSensitivity(table)
+
+      trackCalculatorUsage({
+        calculatorType: 'contract',
+        action: 'solve',
+        variable: solverVariable
+      })
+    } catch (error) {
+      const errorMessage = (error as Error).message
+      setErrors(prev => ({ ...prev, targetNetPay: 'Solver error: ' + errorMessage }))
+      trackCalculatorError({
+        calculatorType: 'contract',
+        error: errorMessage
+      })
+    } finally {
+      setIsSolving(false)
+    }
+  }, [targetNetPay, solverVariable, buildContractInput, solver, trackCalculatorUsage, trackCalculatorError])
 
   // Reset form
   const handleReset = useCallback(() => {
@@ -267,6 +381,9 @@ export function ContractCalculator() {
     setResult(null)
     setShowTaxBreakdown(false)
     setShowExpenses(false)
+    setSolverResult(null)
+    setSensitivity(null)
+    setTargetNetPay('')
   }, [])
 
   // Format currency
@@ -642,6 +759,117 @@ export function ContractCalculator() {
             )}
           </div>
 
+          {/* Break-even Solver */}
+          <div className="border-t pt-6">
+            <Button
+              variant="ghost"
+              onClick={() => setShowSolver(!showSolver)}
+              aria-expanded={showSolver}
+              aria-controls="break-even-solver"
+              className="w-full justify-between"
+            >
+              <span className="font-medium">Break-even &amp; Sensitivity</span>
+              {showSolver ? (
+                <ChevronUp className="w-4 h-4" />
+              ) : (
+                <ChevronDown className="w-4 h-4" />
+              )}
+            </Button>
+
+            {showSolver && (
+              <div id="break-even-solver" className="mt-4 space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                  <Input
+                    label="Target Net Pay ($)"
+                    type="number"
+                    value={targetNetPay}
+                    onChange={(e) => setTargetNetPay(e.target.value)}
+                    error={errors.targetNetPay}
+                    min="0"
+                    placeholder={result.totals.netAnnualPay.toFixed(0)}
+                  />
+
+                  <Select
+                    label="Solve For"
+                    value={solverVariable}
+                    onChange={(value) => setSolverVariable(value as SolverVariable)}
+                    options={SOLVER_VARIABLE_OPTIONS}
+                  />
+
+                  <Button
+                    variant="outline"
+                    onClick={handleSolve}
+                    disabled={isSolving}
+                    loading={isSolving}
+                  >
+                    <Target className="w-4 h-4 mr-2" />
+                    Solve
+                  </Button>
+                </div>
+
+                {solverResult && (
+                  <div
+                    className={cn(
+                      'rounded-lg p-4',
+                      solverResult.converged ? 'bg-blue-50 text-blue-900' : 'bg-yellow-50 text-yellow-900'
+                    )}
+                    role="status"
+                  >
+                    {solverResult.converged ? (
+                      <p className="text-sm">
+                        {SOLVER_VARIABLE_OPTIONS.find(option => option.value === solverResult.variable)?.label} needed:{' '}
+                        <span className="font-semibold">
+                          {solverResult.variable === 'hoursPerWeek'
+                            ? `${solverResult.value.toFixed(1)} hours`
+                            : formatCurrency(solverResult.value)}
+                        </span>{' '}
+                        for {formatCurrency(solverResult.achievedNetPay)} net pay
+                      </p>
+                    ) : (
+                      <p className="text-sm flex items-center">
+                        <AlertCircle className="w-4 h-4 mr-2" />
+                        {formatCurrency(solverResult.targetNetPay)} is not reachable; the most this contract can
+                        pay is {formatCurrency(solverResult.achievedNetPay)} net.
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {sensitivity && (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <caption className="text-left text-gray-600 mb-2">Net pay by hourly rate and hours per week</caption>
+                      <thead>
+                        <tr>
+                          <th scope="col" className="text-left py-2">Hours / Rate</th>
+                          {sensitivity.hourlyRates.map(rate => (
+                            <th key={rate.toString()} scope="col" className="text-right py-2">
+                              {formatCurrency(rate)}
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {sensitivity.cells.map((row, index) => (
+                          <tr key={sensitivity.hoursPerWeek[index].toString()} className="border-t">
+                            <th scope="row" className="text-left py-2 font-medium">
+                              {sensitivity.hoursPerWeek[index].toString()}
+                            </th>
+                            {row.map(cell => (
+                              <td key={cell.hourlyRate.toString()} className="text-right py-2">
+                                {formatCurrency(cell.netAnnualPay)}
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
           {/* Metrics */}
           <div className="border-t pt-6">
             <h4 className="font-medium mb-4">Key Metrics</h4>
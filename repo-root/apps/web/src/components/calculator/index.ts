@@ -1,2 +1,4 @@
 export { ContractCalculator } from './contract-calculator'
-export { PaycheckCalculator } from './paycheck-calculator'
\ No newline at end of file
+export { PaycheckCalculator } from './paycheck-calculator'
+export { ShareCalculationDialog } from './share-calculation-dialog'
+export { SharedCalculationView } from './shared-calculation-view'
\ No newline at end of file
@@ -1,12 +1,12 @@
 'use client'
 
 import React from 'react'
-import { useState, useCallback, useEffect } from 'react'
-import { PaycheckCalculationEngine, PaycheckInput, PaycheckCalculationResult, US_STATES, PayFrequency, FilingStatus } from '@locumtruerate/calc-core'
+import { useState, useCallback, useEffect, useRef } from 'react'
+import { PaycheckCalculationEngine, PaycheckInput, PaycheckCalculationResult, US_STATES, PayFrequency, FilingStatus, PayEvent, PaySimulationMilestone, PaySimulationResult, USState, PayStubImporter, PayStubLineKind, PayStubReconciliation } from '@locumtruerate/calc-core'
 import { Button, Input, Select, type SelectOption } from '@locumtruerate/ui'
 import { useCalculatorAnalytics } from '@/hooks/use-analytics'
-import { ChevronDown, ChevronUp, Download, Save, Calculator, RefreshCw, GitCompare, Plus, AlertCircle } from 'lucide-react'
-import { format } from 'date-fns'
+import { ChevronDown, ChevronUp, Download, Save, Calculator, RefreshCw, GitCompare, Plus, AlertCircle, Trash2, Upload } from 'lucide-react'
+import { format, subMonths, subWeeks } from 'date-fns'
 import { cn } from '@/lib/utils'
 import { SaveCalculationDialog } from './save-calculation-dialog'
 import { z } from 'zod'
@@ -35,6 +35,11 @@ const paycheckCalculatorSchema = z.object({
     .min(0, 'Allowances cannot be negative')
     .max(20, 'Allowances seem too high'),
   additionalExemptions: z.coerce.number().min(0).optional().default(0),
+  w4Version: z.enum(['2020_OR_LATER', '2019_OR_EARLIER']),
+  multipleJobs: z.boolean().optional().default(false),
+  dependentsCredit: z.coerce.number().min(0).optional().default(0),
+  w4OtherIncome: z.coerce.number().min(0).optional().default(0),
+  w4Deductions: z.coerce.number().min(0).optional().default(0),
   
   // Year-to-date (optional)
   ytdGross: z.coerce.number().min(0).optional().default(0),
@@ -93,6 +98,64 @@ const STATE_OPTIONS: SelectOption[] = US_STATES.map(state => ({
   label: state
 }))
 
+const W4_VERSION_OPTIONS: SelectOption[] = [
+  { value: '2020_OR_LATER', label: '2020 or later' },
+  { value: '2019_OR_EARLIER', label: '2019 or earlier (allowances)' }
+]
+
+const PAY_EVENT_OPTIONS: SelectOption[] = [
+  { value: 'RATE_CHANGE', label: 'New salary (annual)' },
+  { value: 'WORK_STATE_CHANGE', label: 'New work state' },
+  { value: 'BONUS', label: 'Bonus' },
+  { value: 'RETIREMENT_CHANGE', label: '401(k) change (%)' }
+]
+
+const MILESTONE_LABELS: Record<PaySimulationMilestone, string> = {
+  SOCIAL_SECURITY_WAGE_BASE: 'Social Security wage base reached',
+  ADDITIONAL_MEDICARE: 'Additional Medicare starts',
+  RETIREMENT_LIMIT: '401(k) limit reached'
+}
+
+// A mid-year change as entered; the value is a salary, state, amount or percent
+interface PayEventRow {
+  id: number
+  type: PayEvent['type']
+  date: string
+  value: string
+}
+
+// Earliest pay date of the year on the schedule that includes this pay date
+const getFirstPayDate = (payDate: Date, payPeriod: PayFrequency): Date => {
+  const previous = (date: Date): Date => {
+    switch (payPeriod) {
+      case 'WEEKLY': return subWeeks(date, 1)
+      case 'BI_WEEKLY': return subWeeks(date, 2)
+      case 'MONTHLY': return subMonths(date, 1)
+      case 'QUARTERLY': return subMonths(date, 3)
+      default: return date
+    }
+  }
+
+  if (payPeriod === 'SEMI_MONTHLY') {
+    return new Date(payDate.getFullYear(), 0, 1)
+  }
+
+  let firstPayDate = payDate
+  while (payPeriod !== 'ANNUALLY' && previous(firstPayDate).getFullYear() === payDate.getFullYear()) {
+    firstPayDate = previous(firstPayDate)
+  }
+  return firstPayDate
+}
+
+const PERIODS_PER_YEAR: Record<PayFrequency, number> = {
+  'WEEKLY': 52,
+  'BI_WEEKLY': 26,
+  'SEMI_MONTHLY': 24,
+  'MONTHLY': 12,
+  'QUARTERLY': 4,
+  'ANNUALLY': 1
+}
+
 const initialFormData: FormData = {
   grossSalary: '',
   payPeriod: 'BI_WEEKLY',
@@ -104,6 +167,11 @@ const initialFormData: FormData = {
   filingStatus: 'SINGLE',
   allowances: '0',
   additionalExemptions: '',
+  w4Version: '2020_OR_LATER',
+  multipleJobs: false,
+  dependentsCredit: 0,
+  w4OtherIncome: 0,
+  w4Deductions: 0,
   ytdGross: '',
   ytdFederalTax: '',
   ytdStateTax: '',
@@ -136,6 +204,11 @@ export function PaycheckCalculator() {
     filingStatus: 'SINGLE',
     allowances: 0,
     additionalExemptions: 0,
+    w4Version: '2020_OR_LATER',
+    multipleJobs: false,
+    dependentsCredit: 0,
+    w4OtherIncome: 0,
+    w4Deductions: 0,
     ytdGross: 0,
     ytdFederalTax: 0,
     ytdStateTax: 0,
@@ -164,12 +237,24 @@ export function PaycheckCalculator() {
   const [showOvertime, setShowOvertime] = useState(false)
   const [showComparison, setShowComparison] = useState(false)
   const [showSaveDialog, setShowSaveDialog] = useState(false)
+  const [payEvents, setPayEvents] = useState<PayEventRow[]>([])
+  const [showPayEvents, setShowPayEvents] = useState(false)
+  const [simulation, setSimulation] = useState<PaySimulationResult | null>(null)
+  const [showTimeline, setShowTimeline] = useState(false)
   const [calculationEngine] = useState(() => new PaycheckCalculationEngine())
+  const [payStubImporter] = useState(() => new PayStubImporter(calculationEngine))
+  const [payStubCheck, setPayStubCheck] = useState<{
+    fileName: string
+    reconciliation: PayStubReconciliation
+    unrecognized: string[]
+  } | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+  const payStubInput = useRef<HTMLInputElement>(null)
   
   const { trackCalculatorUsage, trackCalculatorError, trackCalculatorExport } = useCalculatorAnalytics()
 
   // Handle input changes with validation
-  const handleInputChange = useCallback((field: keyof FormData, value: string | number) => {
+  const handleInputChange = useCallback((field: keyof FormData, value: string | number | boolean) => {
     // Update form data
     setFormData(prev => ({ ...prev, [field]: value }))
     
@@ -196,18 +281,120 @@ export function PaycheckCalculator() {
 
   // Calculate gross pay for the period based on annual salary
   const calculatePeriodGrossPay = useCallback((annualSalary: number, payPeriod: PayFrequency): number => {
-    const periodsPerYear: Record<PayFrequency, number> = {
-      'WEEKLY': 52,
-      'BI_WEEKLY': 26,
-      'SEMI_MONTHLY': 24,
-      'MONTHLY': 12,
-      'QUARTERLY': 4,
-      'ANNUALLY': 1
+    return annualSalary / PERIODS_PER_YEAR[payPeriod]
+  }, [])
+
+  // Prefill the form from a pay stub and check its withholding
+  const handleImportPayStub = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    setIsImporting(true)
+    setErrors({})
+
+    try {
+      const stub = await payStubImporter.parse({ name: file.name, data: new Uint8Array(await file.arrayBuffer()) })
+
+      // Where the user says they work wins over the state payroll withheld for
+      const reconciliation = await payStubImporter.reconcile(stub, {
+        ...(formData.workState && { workState: formData.workState as USState }),
+        ...(formData.residenceState && { residenceState: formData.residenceState as USState }),
+        filingStatus: stub.filingStatus ?? formData.filingStatus,
+        exemptions: Number(formData.allowances) || 0,
+        w4: formData.w4Version === '2020_OR_LATER'
+          ? {
+              multipleJobs: Boolean(formData.multipleJobs),
+              dependentsCredit: Number(formData.dependentsCredit) || 0,
+              otherIncome: Number(formData.w4OtherIncome) || 0,
+              deductions: Number(formData.w4Deductions) || 0
+            }
+          : undefined
+      })
+      const { input } = reconciliation
+      const total = (kind: PayStubLineKind) =>
+        stub.lines.filter(line => line.kind === kind).reduce((sum, line) => sum + line.current, 0)
+
+      setFormData(prev => ({
+        ...prev,
+        grossSalary: Math.round(input.grossPay * PERIODS_PER_YEAR[input.payFrequency] * 100) / 100,
+        payPeriod: input.payFrequency,
+        payDate: format(input.payDate, 'yyyy-MM-dd'),
+        workState: input.workState,
+        residenceState: input.residenceState,
+        filingStatus: input.filingStatus,
+        ytdGross: input.ytdGross ?? 0,
+        ytdFederalTax: input.ytdFederalTax ?? 0,
+        ytdStateTax: input.ytdStateTax ?? 0,
+        ytdSocialSecurity: input.ytdSocialSecurity ?? 0,
+        ytdMedicare: input.ytdMedicare ?? 0,
+        ytdStateDisability: input.ytdStateDisability ?? 0,
+        retirement401k: total('RETIREMENT'),
+        healthInsurance: 0,
+        dentalInsurance: 0,
+        visionInsurance: 0,
+        otherPreTax: total('PRE_TAX'),
+        rothContribution: total('ROTH'),
+        otherPostTax: total('AFTER_TAX')
+      }))
+      setPayStubCheck({ fileName: file.name, reconciliation, unrecognized: stub.unrecognized })
+      setShowDeductions(true)
+      setShowYearToDate(Boolean(input.ytdGross))
+      setResult(null)
+      setSimulation(null)
+
+      trackCalculatorUsage({
+        calculatorType: 'paycheck',
+        action: 'import_pay_stub',
+        reconciled: reconciliation.reconciled
+      })
+    } catch (error) {
+      setPayStubCheck(null)
+      setErrors({ general: 'Pay stub import error: ' + (error as Error).message })
+      trackCalculatorError({
+        calculatorType: 'paycheck',
+        error: (error as Error).message
+      })
+    } finally {
+      setIsImporting(false)
     }
-    
-    return annualSalary / periodsPerYear[payPeriod]
+  }, [formData, payStubImporter, trackCalculatorUsage, trackCalculatorError])
+
+  const handleAddPayEvent = useCallback(() => {
+    setPayEvents(prev => [
+      ...prev,
+      { id: Date.now(), type: 'RATE_CHANGE', date: format(new Date(), 'yyyy-MM-dd'), value: '' }
+    ])
+  }, [])
+
+  const handlePayEventChange = useCallback((id: number, updates: Partial<PayEventRow>) => {
+    setPayEvents(prev => prev.map(event => event.id === id ? { ...event, ...updates } : event))
   }, [])
 
+  const handleRemovePayEvent = useCallback((id: number) => {
+    setPayEvents(prev => prev.filter(event => event.id !== id))
+  }, [])
+
+  // Changes with a date and value, as simulation events
+  const buildPayEvents = useCallback((payPeriod: PayFrequency): PayEvent[] => {
+    return payEvents.flatMap((event): PayEvent[] => {
+      const date = new Date(event.date)
+      const amount = parseFloat(event.value)
+      if (!event.date || !event.value || isNaN(date.getTime())) return []
+
+      switch (event.type) {
+        case 'RATE_CHANGE':
+          return amount > 0 ? [{ type: 'RATE_CHANGE', date, grossPay: calculatePeriodGrossPay(amount, payPeriod) }] : []
+        case 'WORK_STATE_CHANGE':
+          return [{ type: 'WORK_STATE_CHANGE', date, workState: event.value as USState }]
+        case 'BONUS':
+          return amount > 0 ? [{ type: 'BONUS', date, amount }] : []
+        case 'RETIREMENT_CHANGE':
+          return amount >= 0 && amount <= 100 ? [{ type: 'RETIREMENT_CHANGE', date, retirement401kPercent: amount }] : []
+      }
+    })
+  }, [payEvents, calculatePeriodGrossPay])
+
   // Validate form using Zod schema
   const validateForm = useCallback((): boolean => {
     const result = safeParse(paycheckCalculatorSchema, formData)
@@ -267,11 +454,41 @@ export function PaycheckCalculator() {
         rothDeductions,
         afterTaxDeductions,
         additionalFederalWithholding: formData.additionalFederalWithholding ? parseFloat(formData.additionalFederalWithholding) : 0,
-        additionalStateWithholding: formData.additionalStateWithholding ? parseFloat(formData.additionalStateWithholding) : 0
+        additionalStateWithholding: formData.additionalStateWithholding ? parseFloat(formData.additionalStateWithholding) : 0,
+        // A 2019 or earlier Form W-4 is withheld from the allowances instead
+        w4: formData.w4Version === '2020_OR_LATER'
+          ? {
+              multipleJobs: Boolean(formData.multipleJobs),
+              dependentsCredit: Number(formData.dependentsCredit) || 0,
+              otherIncome: Number(formData.w4OtherIncome) || 0,
+              deductions: Number(formData.w4Deductions) || 0
+            }
+          : undefined
       }
       
       const calculationResult = await calculationEngine.calculatePaycheck(paycheckInput)
       setResult(calculationResult)
+
+      // Every paycheck of the year, with the mid-year changes
+      const retirement401k = Number(formData.retirement401k) || 0
+      const simulationResult = await calculationEngine.simulateYear({
+        grossPay: periodGrossPay,
+        payFrequency: formData.payPeriod,
+        firstPayDate: getFirstPayDate(paycheckInput.payDate, formData.payPeriod),
+        filingStatus: paycheckInput.filingStatus,
+        exemptions: paycheckInput.exemptions,
+        workState: paycheckInput.workState,
+        residenceState: paycheckInput.residenceState,
+        preTaxDeductions: preTaxDeductions - retirement401k,
+        retirement401kPercent: Math.min(100, retirement401k / periodGrossPay * 100),
+        rothDeductions,
+        afterTaxDeductions,
+        additionalFederalWithholding: paycheckInput.additionalFederalWithholding,
+        additionalStateWithholding: paycheckInput.additionalStateWithholding,
+        w4: paycheckInput.w4,
+        events: buildPayEvents(formData.payPeriod)
+      })
+      setSimulation(simulationResult)
       
       trackCalculatorUsage({
         calculatorType: 'paycheck',
@@ -289,17 +506,22 @@ export function PaycheckCalculator() {
     } finally {
       setIsCalculating(false)
     }
-  }, [formData, validateForm, calculatePeriodGrossPay, calculationEngine, trackCalculatorUsage, trackCalculatorError])
+  }, [formData, validateForm, calculatePeriodGrossPay, buildPayEvents, calculationEngine, trackCalculatorUsage, trackCalculatorError])
 
   // Reset form
   const handleReset = useCallback(() => {
     setFormData(initialFormData)
     setErrors({})
     setResult(null)
+    setSimulation(null)
+    setPayStubCheck(null)
+    setPayEvents([])
     setShowTaxBreakdown(false)
     setShowDeductions(false)
     setShowYearToDate(false)
     setShowOvertime(false)
+    setShowPayEvents(false)
+    setShowTimeline(false)
   }, [])
 
   // Format currency
@@ -341,6 +563,24 @@ export function PaycheckCalculator() {
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
         <h2 className="text-2xl font-bold">Paycheck Calculator</h2>
         <div className="flex gap-2">
+          <input
+            ref={payStubInput}
+            type="file"
+            accept=".pdf,.csv,application/pdf,text/csv"
+            className="hidden"
+            onChange={handleImportPayStub}
+            aria-label="Pay stub file"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => payStubInput.current?.click()}
+            disabled={isImporting}
+            loading={isImporting}
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            Import Pay Stub
+          </Button>
           <Button
             variant="outline"
             size="sm"
@@ -370,6 +610,50 @@ export function PaycheckCalculator() {
       )}>
         {/* Calculator Form */}
         <div className="space-y-6">
+          {/* Pay Stub Check */}
+          {payStubCheck && (
+            <div className="bg-white rounded-lg border p-6 space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold">Pay Stub Check</h3>
+                <span className="text-sm text-gray-600">{payStubCheck.fileName}</span>
+              </div>
+
+              {payStubCheck.reconciliation.discrepancies.length === 0 ? (
+                <p className="text-sm text-gray-600">
+                  Every amount on this pay stub matches the calculator. The form has been filled in from it.
+                </p>
+              ) : (
+                <ul className="space-y-2">
+                  {payStubCheck.reconciliation.discrepancies.map(discrepancy => (
+                    <li
+                      key={discrepancy.check}
+                      className={cn(
+                        'flex items-start gap-2 border p-3 rounded-lg',
+                        discrepancy.severity === 'ERROR'
+                          ? 'bg-red-50 border-red-200 text-red-800'
+                          : 'bg-yellow-50 border-yellow-200 text-yellow-900'
+                      )}
+                    >
+                      <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                      <div className="flex-1">
+                        <p className="text-sm">{discrepancy.message}</p>
+                        <p className="text-xs mt-1">
+                          Pay stub {discrepancy.stubAmount.toFixed(2)} · Expected {discrepancy.expectedAmount.toFixed(2)}
+                        </p>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {payStubCheck.unrecognized.length > 0 && (
+                <p className="text-sm text-gray-600">
+                  Not imported: {payStubCheck.unrecognized.join(', ')}. Add these under deductions if they come out of your pay.
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Paycheck Details */}
           <div className="bg-white rounded-lg border p-6 space-y-4">
             <h3 className="text-lg font-semibold">Paycheck Details</h3>
@@ -473,14 +757,81 @@ export function PaycheckCalculator() {
                 aria-label="Filing status"
               />
               
+              <Select
+                label="Form W-4"
+                value={formData.w4Version}
+                onChange={(value) => handleInputChange('w4Version', value)}
+                options={W4_VERSION_OPTIONS}
+                aria-label="Form W-4 version"
+              />
+              
+              {formData.w4Version === '2019_OR_EARLIER' ? (
+                <Input
+                  label="Allowances"
+                  type="number"
+                  value={formData.allowances}
+                  onChange={(e) => handleInputChange('allowances', e.target.value)}
+                  min="0"
+                  placeholder="0"
+                  aria-label="Allowances"
+                />
+              ) : (
+                <>
+                  <div className="flex items-start gap-3 md:col-span-2">
+                    <input
+                      id="w4-multiple-jobs"
+                      type="checkbox"
+                      checked={Boolean(formData.multipleJobs)}
+                      onChange={(e) => handleInputChange('multipleJobs', e.target.checked)}
+                      className="mt-1 w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500"
+                    />
+                    <label htmlFor="w4-multiple-jobs" className="text-sm text-gray-700">
+                      Step 2(c): multiple jobs or spouse works
+                    </label>
+                  </div>
+                  
+                  <Input
+                    label="Step 3: Dependents Credit ($)"
+                    type="number"
+                    value={formData.dependentsCredit}
+                    onChange={(e) => handleInputChange('dependentsCredit', e.target.value)}
+                    min="0"
+                    step="500"
+                    placeholder="0"
+                    error={errors.dependentsCredit}
+                  />
+                  
+                  <Input
+                    label="Step 4(a): Other Income ($/year)"
+                    type="number"
+                    value={formData.w4OtherIncome}
+                    onChange={(e) => handleInputChange('w4OtherIncome', e.target.value)}
+                    min="0"
+                    placeholder="0"
+                    error={errors.w4OtherIncome}
+                  />
+                  
+                  <Input
+                    label="Step 4(b): Deductions ($/year)"
+                    type="number"
+                    value={formData.w4Deductions}
+                    onChange={(e) => handleInputChange('w4Deductions', e.target.value)}
+                    min="0"
+                    placeholder="0"
+                    error={errors.w4Deductions}
+                  />
+                </>
+              )}
+              
               <Input
-                label="Allowances"
+                label="Extra Withholding per Paycheck ($)"
                 type="number"
-                value={formData.allowances}
-                onChange={(e) => handleInputChange('allowances', e.target.value)}
+                value={formData.additionalFederalWithholding}
+                onChange={(e) => handleInputChange('additionalFederalWithholding', e.target.value)}
                 min="0"
                 placeholder="0"
-                aria-label="Allowances"
+                error={errors.additionalFederalWithholding}
+                aria-label="Extra federal withholding"
               />
               
               <Input
@@ -702,6 +1053,84 @@ export function PaycheckCalculator() {
             )}
           </div>
 
+          {/* Mid-Year Changes (Optional) */}
+          <div className="bg-white rounded-lg border p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold">Mid-Year Changes</h3>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowPayEvents(!showPayEvents)}
+                aria-expanded={showPayEvents}
+                aria-controls="pay-events-section"
+              >
+                {showPayEvents ? (
+                  <>Hide <ChevronUp className="w-4 h-4 ml-1" /></>
+                ) : (
+                  <>Add Changes <ChevronDown className="w-4 h-4 ml-1" /></>
+                )}
+              </Button>
+            </div>
+            
+            {showPayEvents && (
+              <div id="pay-events-section" className="space-y-4">
+                <p className="text-sm text-gray-600">
+                  Rate changes, new work states, bonuses and 401(k) changes take effect from the first paycheck on or after their date.
+                </p>
+                
+                {payEvents.map(event => (
+                  <div key={event.id} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_auto] gap-4 items-end">
+                    <Select
+                      label="Change"
+                      value={event.type}
+                      onChange={(value) => handlePayEventChange(event.id, { type: value as PayEvent['type'], value: '' })}
+                      options={PAY_EVENT_OPTIONS}
+                    />
+                    
+                    <Input
+                      label="Date"
+                      type="date"
+                      value={event.date}
+                      onChange={(e) => handlePayEventChange(event.id, { date: e.target.value })}
+                    />
+                    
+                    {event.type === 'WORK_STATE_CHANGE' ? (
+                      <Select
+                        label="Work State"
+                        value={event.value}
+                        onChange={(value) => handlePayEventChange(event.id, { value })}
+                        options={STATE_OPTIONS}
+                      />
+                    ) : (
+                      <Input
+                        label={event.type === 'RETIREMENT_CHANGE' ? '401(k) (% of pay)' : 'Amount ($)'}
+                        type="number"
+                        value={event.value}
+                        onChange={(e) => handlePayEventChange(event.id, { value: e.target.value })}
+                        min="0"
+                        max={event.type === 'RETIREMENT_CHANGE' ? '100' : undefined}
+                      />
+                    )}
+                    
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemovePayEvent(event.id)}
+                      aria-label="Remove change"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                
+                <Button variant="outline" size="sm" onClick={handleAddPayEvent}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Change
+                </Button>
+              </div>
+            )}
+          </div>
+
           {/* Error Message */}
           {errors.general && (
             <div className="bg-red-50 border border-red-200 text-red-800 p-4 rounded-lg" role="alert">
@@ -867,6 +1296,50 @@ export function PaycheckCalculator() {
             </div>
           </div>
 
+          {/* Tax Return Forecast */}
+          <div className="border-t pt-6">
+            <h4 className="font-medium mb-4">{result.forecast.taxYear} Tax Return Forecast</h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="flex justify-between">
+                <span className="text-sm text-gray-600">Federal Tax Withheld</span>
+                <span className="text-sm font-medium">
+                  {formatCurrency(result.forecast.withholding)}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-sm text-gray-600">Federal Tax Owed</span>
+                <span className="text-sm font-medium">
+                  {formatCurrency(result.forecast.liability)}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-sm text-gray-600">
+                  {result.forecast.outcome === 'BALANCE_DUE' ? 'Balance Due' : 'Refund'}
+                </span>
+                <span
+                  className={cn(
+                    'text-sm font-medium',
+                    result.forecast.outcome === 'REFUND' && 'text-green-700',
+                    result.forecast.outcome === 'BALANCE_DUE' && 'text-red-700'
+                  )}
+                >
+                  {formatCurrency(result.forecast.refund.abs())}
+                </span>
+              </div>
+            </div>
+            
+            {result.forecast.recommendation ? (
+              <div className="mt-4 flex items-start gap-2 bg-yellow-50 border border-yellow-200 text-yellow-900 p-4 rounded-lg">
+                <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                <p className="text-sm">{result.forecast.recommendation.message}</p>
+              </div>
+            ) : (
+              <p className="mt-4 text-sm text-gray-600">
+                Your withholding is on track to cover this year's federal income tax.
+              </p>
+            )}
+          </div>
+
           {/* YTD Summary */}
           {result.ytd.grossPay.toNumber() > 0 && (
             <div className="border-t pt-6">
@@ -902,6 +1375,116 @@ export function PaycheckCalculator() {
         </div>
       )}
 
+      {/* Year Timeline */}
+      {simulation && (
+        <div className="bg-white rounded-lg border p-6 space-y-6">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold">{simulation.taxYear} Paycheck Timeline</h3>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowTimeline(!showTimeline)}
+              aria-expanded={showTimeline}
+              aria-controls="paycheck-timeline"
+            >
+              {showTimeline ? (
+                <>Hide <ChevronUp className="w-4 h-4 ml-1" /></>
+              ) : (
+                <>Every Paycheck <ChevronDown className="w-4 h-4 ml-1" /></>
+              )}
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="flex justify-between md:block">
+              <p className="text-sm text-gray-600">Annual Gross</p>
+              <p className="text-sm font-medium">{formatCurrency(simulation.totals.grossPay)}</p>
+            </div>
+            <div className="flex justify-between md:block">
+              <p className="text-sm text-gray-600">Annual Taxes</p>
+              <p className="text-sm font-medium">{formatCurrency(simulation.totals.totalTaxes)}</p>
+            </div>
+            <div className="flex justify-between md:block">
+              <p className="text-sm text-gray-600">Annual Net</p>
+              <p className="text-sm font-medium">{formatCurrency(simulation.totals.netPay)}</p>
+            </div>
+            <div className="flex justify-between md:block">
+              <p className="text-sm text-gray-600">Paychecks</p>
+              <p className="text-sm font-medium">{simulation.paychecks.length}</p>
+            </div>
+          </div>
+
+          {Object.keys(simulation.milestones).length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {(Object.entries(simulation.milestones) as [PaySimulationMilestone, Date][]).map(([milestone, date]) => (
+                <span key={milestone} className="inline-flex items-center gap-1 rounded-full bg-blue-50 px-3 py-1 text-xs text-blue-700">
+                  <AlertCircle className="w-3 h-3" />
+                  {MILESTONE_LABELS[milestone]} on {format(date, 'MMM d')}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {showTimeline && (
+            <div id="paycheck-timeline" className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-gray-600">
+                    <th className="py-2 pr-4 font-medium">Pay Date</th>
+                    <th className="py-2 pr-4 font-medium">Paycheck</th>
+                    <th className="py-2 pr-4 font-medium text-right">Gross</th>
+                    <th className="py-2 pr-4 font-medium text-right">Federal</th>
+                    <th className="py-2 pr-4 font-medium text-right">State</th>
+                    <th className="py-2 pr-4 font-medium text-right">Social Security</th>
+                    <th className="py-2 pr-4 font-medium text-right">Medicare</th>
+                    <th className="py-2 pr-4 font-medium text-right">Net</th>
+                    <th className="py-2 font-medium text-right">YTD Gross</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {simulation.paychecks.map((paycheck, index) => (
+                    <tr
+                      key={index}
+                      className={cn('border-b align-top', paycheck.kind === 'BONUS' && 'bg-green-50')}
+                    >
+                      <td className="py-2 pr-4 whitespace-nowrap">{format(paycheck.payDate, 'MMM d')}</td>
+                      <td className="py-2 pr-4">
+                        <p>{paycheck.kind === 'BONUS' ? paycheck.description || 'Bonus' : `Regular (${paycheck.workState})`}</p>
+                        {paycheck.changes.map(change => (
+                          <p key={change} className="text-xs text-gray-500">{change}</p>
+                        ))}
+                        {paycheck.milestones.map(milestone => (
+                          <p key={milestone} className="text-xs text-blue-700">{MILESTONE_LABELS[milestone]}</p>
+                        ))}
+                      </td>
+                      <td className="py-2 pr-4 text-right">{formatCurrency(paycheck.grossPay)}</td>
+                      <td className="py-2 pr-4 text-right">{formatCurrency(paycheck.taxes.federal)}</td>
+                      <td className="py-2 pr-4 text-right">{formatCurrency(paycheck.taxes.state)}</td>
+                      <td className="py-2 pr-4 text-right">{formatCurrency(paycheck.taxes.socialSecurity)}</td>
+                      <td className="py-2 pr-4 text-right">{formatCurrency(paycheck.taxes.medicare)}</td>
+                      <td className="py-2 pr-4 text-right font-medium">{formatCurrency(paycheck.netPay)}</td>
+                      <td className="py-2 text-right text-gray-600">{formatCurrency(paycheck.ytd.grossPay)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr className="font-medium">
+                    <td className="py-2 pr-4" colSpan={2}>Total</td>
+                    <td className="py-2 pr-4 text-right">{formatCurrency(simulation.totals.grossPay)}</td>
+                    <td className="py-2 pr-4 text-right">{formatCurrency(simulation.totals.federal)}</td>
+                    <td className="py-2 pr-4 text-right">{formatCurrency(simulation.totals.state)}</td>
+                    <td className="py-2 pr-4 text-right">{formatCurrency(simulation.totals.socialSecurity)}</td>
+                    <td className="py-2 pr-4 text-right">{formatCurrency(simulation.totals.medicare)}</td>
+                    <td className="py-2 pr-4 text-right">{formatCurrency(simulation.totals.netPay)}</td>
+                    <td className="py-2" />
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Save Calculation Dialog */}
       <SaveCalculationDialog
         isOpen={showSaveDialog}
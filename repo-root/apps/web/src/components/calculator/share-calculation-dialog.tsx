@@ -0,0 +1,202 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Button, Input, Modal, ModalHeader, ModalTitle, ModalDescription, ModalBody } from '@locumtruerate/ui'
+import { Copy, Eye, Link2, Lock, Trash2 } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { trpc } from '@/providers/trpc-provider'
+import {
+  CALCULATION_SHARE_LINK_STATUS_LABELS,
+  CalculationShareLinkStatus
+} from '@locumtruerate/types'
+
+const STATUS_VARIANTS: Record<CalculationShareLinkStatus, 'green' | 'gray' | 'red'> = {
+  [CalculationShareLinkStatus.ACTIVE]: 'green',
+  [CalculationShareLinkStatus.EXPIRED]: 'gray',
+  [CalculationShareLinkStatus.REVOKED]: 'red'
+}
+
+const EXPIRY_OPTIONS = [
+  { label: 'Never', days: undefined },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 }
+]
+
+const formatViewTime = (date: Date | string) =>
+  new Date(date).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+
+interface ShareCalculationDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  calculationId: string
+  userId: string
+}
+
+/**
+ * Create read-only links to a saved calculation, each with its own
+ * redaction, password and expiry, and see when each link was opened
+ */
+export function ShareCalculationDialog({ isOpen, onClose, calculationId, userId }: ShareCalculationDialogProps) {
+  const [form, setForm] = useState({ label: '', redactPersonal: true, password: '', expiresInDays: undefined as number | undefined })
+  const [copiedId, setCopiedId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const { data: links, refetch } = trpc.calculations.shareLinks.useQuery({ calculationId }, { enabled: isOpen })
+
+  const share = trpc.calculations.share.useMutation({
+    onSuccess: async (link) => {
+      setForm({ label: '', redactPersonal: true, password: '', expiresInDays: undefined })
+      await copy(link.id, link.shareableLink)
+      refetch()
+    },
+    onError: (error) => setError(error.message)
+  })
+  const revoke = trpc.calculations.revokeShareLink.useMutation({
+    onSuccess: () => refetch(),
+    onError: (error) => setError(error.message)
+  })
+
+  const copy = async (id: string, url: string) => {
+    await navigator.clipboard?.writeText(url)
+    setCopiedId(id)
+  }
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="lg">
+      <ModalHeader>
+        <div>
+          <ModalTitle>Share Calculation</ModalTitle>
+          <ModalDescription>
+            Anyone with a link can view this calculation, read-only, until you revoke it or it expires
+          </ModalDescription>
+        </div>
+      </ModalHeader>
+
+      <ModalBody>
+        <div className="space-y-6">
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault()
+              setError(null)
+              share.mutate({
+                id: calculationId,
+                userId,
+                label: form.label || undefined,
+                redactPersonal: form.redactPersonal,
+                password: form.password || undefined,
+                expiresInDays: form.expiresInDays
+              })
+            }}
+          >
+            <Input
+              label="Label"
+              id="share-label"
+              value={form.label}
+              onChange={(e) => setForm(prev => ({ ...prev, label: e.target.value }))}
+              placeholder="e.g. Dr. Patel – Dallas ER offer"
+            />
+            <div className="grid gap-4 sm:grid-cols-2">
+              <Input
+                label="Password (optional)"
+                id="share-password"
+                type="password"
+                value={form.password}
+                onChange={(e) => setForm(prev => ({ ...prev, password: e.target.value }))}
+                minLength={4}
+              />
+              <div>
+                <label htmlFor="share-expiry" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Expires
+                </label>
+                <select
+                  id="share-expiry"
+                  value={form.expiresInDays ?? ''}
+                  onChange={(e) => setForm(prev => ({ ...prev, expiresInDays: e.target.value ? Number(e.target.value) : undefined }))}
+                  className="w-full p-2 border border-gray-200 rounded-lg bg-white text-gray-900 text-sm"
+                >
+                  {EXPIRY_OPTIONS.map(option => (
+                    <option key={option.label} value={option.days ?? ''}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={form.redactPersonal}
+                onChange={(e) => setForm(prev => ({ ...prev, redactPersonal: e.target.checked }))}
+                className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500"
+              />
+              Hide personal tax details (filing status, deductions, retirement, year-to-date totals)
+            </label>
+            <Button type="submit" size="sm" disabled={share.isLoading} loading={share.isLoading}>
+              <Link2 className="w-4 h-4 mr-2" />
+              Create and copy link
+            </Button>
+          </form>
+
+          {error && <p className="text-sm text-red-600" role="alert">{error}</p>}
+
+          {links && links.length > 0 && (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700 border-t border-gray-200 dark:border-gray-700">
+              {links.map(link => (
+                <li key={link.id} className="py-3 space-y-1 text-sm">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-gray-900 dark:text-white">{link.label || 'Untitled link'}</span>
+                      <Badge variant={STATUS_VARIANTS[link.status as CalculationShareLinkStatus]}>
+                        {CALCULATION_SHARE_LINK_STATUS_LABELS[link.status as CalculationShareLinkStatus]}
+                      </Badge>
+                      {link.hasPassword && <Lock className="h-4 w-4 text-gray-500" aria-label="Password protected" />}
+                    </div>
+                    {link.status === CalculationShareLinkStatus.ACTIVE && (
+                      <div className="flex gap-2">
+                        <Button size="sm" variant="outline" onClick={() => copy(link.id, link.url)}>
+                          <Copy className="w-4 h-4 mr-2" />
+                          {copiedId === link.id ? 'Copied' : 'Copy'}
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={revoke.isLoading}
+                          onClick={() => {
+                            if (confirm('Revoke this link? Anyone who has it will no longer be able to open it.')) {
+                              revoke.mutate({ id: link.id })
+                            }
+                          }}
+                        >
+                          <Trash2 className="w-4 h-4 mr-2" />
+                          Revoke
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                  <p className="flex items-center gap-1 text-gray-500">
+                    <Eye className="h-4 w-4" />
+                    {link.viewCount === 0
+                      ? 'Not opened yet'
+                      : `Opened ${link.viewCount} time${link.viewCount === 1 ? '' : 's'}, last ${formatViewTime(link.lastViewedAt!)}`}
+                    {link.expiresAt && ` · expires ${formatViewTime(link.expiresAt)}`}
+                    {!link.redactPersonal && ' · personal details visible'}
+                  </p>
+                  {link.recentViews.length > 1 && (
+                    <details>
+                      <summary className="cursor-pointer text-blue-600">Recent views</summary>
+                      <ul className="mt-1 text-gray-500">
+                        {link.recentViews.map((viewedAt, index) => (
+                          <li key={index}>{formatViewTime(viewedAt)}</li>
+                        ))}
+                      </ul>
+                    </details>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </ModalBody>
+    </Modal>
+  )
+}
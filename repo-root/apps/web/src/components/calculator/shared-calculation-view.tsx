@@ -0,0 +1,141 @@
+'use client'
+
+import { EyeOff } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import type { SharedCalculation } from '@locumtruerate/types'
+
+const currency = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 })
+const currencyCents = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' })
+
+// Stored results hold Decimals serialized as strings or numbers
+const toNumber = (value: unknown) => {
+  const number = Number(value)
+  return Number.isFinite(number) ? number : null
+}
+
+function Row({ label, value, format = currency }: { label: string; value: unknown; format?: Intl.NumberFormat }) {
+  const number = toNumber(value)
+  if (number === null) return null
+  return (
+    <div className="flex justify-between text-sm">
+      <span className="text-gray-600 dark:text-gray-400">{label}</span>
+      <span className="font-medium text-gray-900 dark:text-white">{format.format(number)}</span>
+    </div>
+  )
+}
+
+function Detail({ label, value }: { label: string; value?: string | number | null }) {
+  if (value === undefined || value === null || value === '') return null
+  return (
+    <div className="flex justify-between text-sm">
+      <span className="text-gray-600 dark:text-gray-400">{label}</span>
+      <span className="text-gray-900 dark:text-white">{value}</span>
+    </div>
+  )
+}
+
+const formatDate = (value: unknown) =>
+  value ? new Date(value as string).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }) : null
+
+function ContractSummary({ input, result }: { input: Record<string, any>; result: Record<string, any> }) {
+  const totals = result.totals ?? {}
+  const breakdown = result.breakdown ?? {}
+
+  return (
+    <div className="grid gap-6 md:grid-cols-2">
+      <div className="space-y-2">
+        <h3 className="font-semibold text-gray-900 dark:text-white">Contract</h3>
+        <Detail label="Title" value={input.title} />
+        <Detail label="Specialty" value={input.specialty} />
+        <Detail label="Location" value={input.location && [input.location.city, input.location.state].filter(Boolean).join(', ')} />
+        <Detail label="Dates" value={input.startDate && `${formatDate(input.startDate)} – ${formatDate(input.endDate)}`} />
+        <Row label="Hourly rate" value={input.hourlyRate} format={currencyCents} />
+        <Detail label="Hours per week" value={input.hoursPerWeek} />
+      </div>
+      <div className="space-y-2">
+        <h3 className="font-semibold text-gray-900 dark:text-white">Annual compensation</h3>
+        <Row label="Gross pay" value={totals.grossAnnualPay} />
+        <Row label="Base pay" value={breakdown.basePay} />
+        <Row label="Overtime" value={breakdown.overtimePay} />
+        <Row label="Call pay" value={breakdown.callPay} />
+        <Row label="Bonuses" value={breakdown.bonuses} />
+        <Row label="Stipends" value={totals.totalStipends} />
+        <Row label="Taxes" value={totals.totalTaxes} />
+        <Row label="Deductions" value={totals.totalDeductions} />
+        <Row label="Take-home pay" value={totals.netAnnualPay} />
+        <Row label="Effective hourly rate" value={totals.effectiveHourlyRate} format={currencyCents} />
+      </div>
+    </div>
+  )
+}
+
+function PaycheckSummary({ input, result }: { input: Record<string, any>; result: Record<string, any> }) {
+  const currentPay = result.currentPay ?? {}
+  const taxes = result.taxes ?? {}
+
+  return (
+    <div className="grid gap-6 md:grid-cols-2">
+      <div className="space-y-2">
+        <h3 className="font-semibold text-gray-900 dark:text-white">Paycheck</h3>
+        <Detail label="Pay frequency" value={input.payFrequency} />
+        <Detail label="Pay date" value={formatDate(input.payDate)} />
+        <Detail label="Work state" value={input.workState} />
+        <Detail label="Filing status" value={input.filingStatus} />
+        <Row label="Gross pay" value={currentPay.grossPay} format={currencyCents} />
+        <Row label="Deductions" value={currentPay.totalDeductions} format={currencyCents} />
+        <Row label="Net pay" value={currentPay.netPay} format={currencyCents} />
+      </div>
+      <div className="space-y-2">
+        <h3 className="font-semibold text-gray-900 dark:text-white">Taxes</h3>
+        <Row label="Federal income tax" value={taxes.federal} format={currencyCents} />
+        <Row label="State income tax" value={taxes.state} format={currencyCents} />
+        <Row label="Local tax" value={taxes.local} format={currencyCents} />
+        <Row label="Social Security" value={taxes.socialSecurity} format={currencyCents} />
+        <Row label="Medicare" value={taxes.medicare} format={currencyCents} />
+        <Row label="State disability" value={taxes.stateDisability} format={currencyCents} />
+        <Row label="Total taxes" value={currentPay.totalTaxes} format={currencyCents} />
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Read-only view of a calculation opened through a share link
+ */
+export function SharedCalculationView({ calculation }: { calculation: SharedCalculation }) {
+  const title = calculation.name || (calculation.type === 'paycheck' ? 'Paycheck breakdown' : 'Contract breakdown')
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle>{title}</CardTitle>
+          <Badge variant="outline">Read-only</Badge>
+        </div>
+        <p className="text-sm text-gray-500">
+          Shared {formatDate(calculation.sharedAt)}
+          {calculation.expiresAt && ` · available until ${formatDate(calculation.expiresAt)}`}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {calculation.redacted && (
+          <p className="flex items-center gap-2 rounded-lg bg-gray-100 dark:bg-gray-800 p-3 text-sm text-gray-600 dark:text-gray-400">
+            <EyeOff className="h-4 w-4" />
+            Personal tax details such as filing status and deductions are hidden.
+          </p>
+        )}
+
+        {calculation.type === 'paycheck' ? (
+          <PaycheckSummary input={calculation.input} result={calculation.result} />
+        ) : calculation.type === 'contract' ? (
+          <ContractSummary input={calculation.input} result={calculation.result} />
+        ) : (
+          <pre className="max-h-96 overflow-auto whitespace-pre-wrap text-xs text-gray-700 dark:text-gray-300">
+            {JSON.stringify(calculation.result, null, 2)}
+          </pre>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,84 @@
+'use client'
+
+import Link from 'next/link'
+import { Award } from 'lucide-react'
+import { trpc } from '@/providers/trpc-provider'
+import { cn } from '@/lib/utils'
+import {
+  CREDENTIAL_TYPE_LABELS,
+  CredentialType,
+  credentialExpiryStatus
+} from '@locumtruerate/types'
+import { CredentialExpiryBadge } from './credential-wallet'
+
+interface CredentialPickerProps {
+  selectedIds: string[]
+  onChange: (selectedIds: string[]) => void
+}
+
+/**
+ * Choose credentials from the wallet to send with an application
+ */
+export function CredentialPicker({ selectedIds, onChange }: CredentialPickerProps) {
+  const { data: credentials, isLoading } = trpc.credentials.list.useQuery()
+
+  const toggle = (id: string) => {
+    onChange(selectedIds.includes(id)
+      ? selectedIds.filter(selectedId => selectedId !== id)
+      : [...selectedIds, id])
+  }
+
+  if (isLoading) {
+    return <div className="h-16 bg-gray-100 dark:bg-gray-700 rounded-lg animate-pulse" />
+  }
+
+  if (!credentials?.length) {
+    return (
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        Save your licenses and certifications in your{' '}
+        <Link href="/profile" className="text-blue-600 hover:underline">
+          credential wallet
+        </Link>{' '}
+        to attach them to applications.
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      {credentials.map(credential => {
+        const expired = credentialExpiryStatus(credential.expiresAt) === 'expired'
+        return (
+          <label
+            key={credential.id}
+            className={cn(
+              "flex items-center gap-3 p-3 border rounded-lg cursor-pointer transition-colors",
+              selectedIds.includes(credential.id)
+                ? "border-blue-500 bg-blue-50 dark:bg-blue-900/20"
+                : "border-gray-200 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-800",
+              expired && "opacity-60 cursor-not-allowed"
+            )}
+          >
+            <input
+              type="checkbox"
+              checked={selectedIds.includes(credential.id)}
+              onChange={() => toggle(credential.id)}
+              disabled={expired}
+              className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+            />
+            <Award className="w-4 h-4 text-gray-500" />
+            <div className="flex-1">
+              <p className="font-medium text-gray-900 dark:text-white">{credential.name}</p>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {[CREDENTIAL_TYPE_LABELS[credential.type as CredentialType], credential.issuingState]
+                  .filter(Boolean)
+                  .join(' · ')}
+              </p>
+            </div>
+            <CredentialExpiryBadge expiresAt={credential.expiresAt} />
+          </label>
+        )
+      })}
+    </div>
+  )
+}
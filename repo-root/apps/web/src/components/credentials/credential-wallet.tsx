@@ -0,0 +1,371 @@
+'use client'
+
+import { useState } from 'react'
+import { Award, Plus, Edit3, Trash2, Shield, ShieldCheck, Save, X, FileText } from 'lucide-react'
+import { Button } from '@locumtruerate/ui'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { trpc } from '@/providers/trpc-provider'
+import {
+  CREDENTIAL_TYPE_LABELS,
+  CREDENTIAL_VERIFICATION_STATUS_LABELS,
+  CredentialType,
+  CredentialVerificationStatus,
+  LICENSE_STATES,
+  PRIMARY_SOURCE_CREDENTIAL_TYPES,
+  STATE_ISSUED_CREDENTIAL_TYPES,
+  credentialExpiryStatus,
+  daysUntilExpiry,
+  type LicenseState
+} from '@locumtruerate/types'
+
+interface CredentialForm {
+  type: CredentialType
+  name: string
+  issuingState: LicenseState | ''
+  issuingAuthority: string
+  number: string
+  issuedAt: string
+  expiresAt: string
+  documentUrl: string
+}
+
+const emptyForm: CredentialForm = {
+  type: CredentialType.STATE_LICENSE,
+  name: '',
+  issuingState: '',
+  issuingAuthority: '',
+  number: '',
+  issuedAt: '',
+  expiresAt: '',
+  documentUrl: ''
+}
+
+const VERIFICATION_VARIANTS: Record<CredentialVerificationStatus, 'green' | 'blue' | 'gray' | 'red'> = {
+  [CredentialVerificationStatus.UNVERIFIED]: 'gray',
+  [CredentialVerificationStatus.PENDING]: 'blue',
+  [CredentialVerificationStatus.VERIFIED]: 'green',
+  [CredentialVerificationStatus.REJECTED]: 'red',
+  [CredentialVerificationStatus.EXPIRED]: 'red'
+}
+
+// Credential dates are calendar dates; keep them in UTC
+const parseDateInput = (value: string) => value ? new Date(`${value}T00:00:00Z`) : null
+
+const toDateInput = (date: Date | string | null | undefined) =>
+  date ? new Date(date).toISOString().slice(0, 10) : ''
+
+export const formatCredentialDate = (date: Date | string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' })
+
+/**
+ * Expiry badge shared by the wallet and the application credential picker
+ */
+export function CredentialExpiryBadge({ expiresAt }: { expiresAt?: Date | string | null }) {
+  if (!expiresAt) return null
+
+  const status = credentialExpiryStatus(expiresAt)
+  if (status === 'expired') {
+    return <Badge variant="red">Expired</Badge>
+  }
+  if (status === 'expiring') {
+    return <Badge variant="yellow">Expires in {daysUntilExpiry(expiresAt)} days</Badge>
+  }
+  return null
+}
+
+/**
+ * Licenses, board certifications, DEA registrations, malpractice COIs and
+ * immunization records kept on the profile and reused across applications
+ */
+export function CredentialWallet() {
+  const { data: credentials, isLoading, refetch } = trpc.credentials.list.useQuery()
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null)
+  const [form, setForm] = useState<CredentialForm>(emptyForm)
+  const [formError, setFormError] = useState<string | null>(null)
+  const [verifyNotice, setVerifyNotice] = useState<{ id: string; message: string } | null>(null)
+
+  const onSaved = () => {
+    setEditingId(null)
+    setForm(emptyForm)
+    refetch()
+  }
+  const createCredential = trpc.credentials.create.useMutation({
+    onSuccess: onSaved,
+    onError: (error) => setFormError(error.message)
+  })
+  const updateCredential = trpc.credentials.update.useMutation({
+    onSuccess: onSaved,
+    onError: (error) => setFormError(error.message)
+  })
+  const deleteCredential = trpc.credentials.delete.useMutation({
+    onSuccess: () => refetch()
+  })
+  const verifyCredential = trpc.credentials.verify.useMutation({
+    onSuccess: (result, { id }) => {
+      setVerifyNotice(result.message ? { id, message: result.message } : null)
+      refetch()
+    },
+    onError: (error, { id }) => setVerifyNotice({ id, message: error.message })
+  })
+
+  const startEditing = (credential?: NonNullable<typeof credentials>[number]) => {
+    setFormError(null)
+    setEditingId(credential?.id ?? 'new')
+    setForm(credential ? {
+      type: credential.type as CredentialType,
+      name: credential.name,
+      issuingState: (credential.issuingState as LicenseState) || '',
+      issuingAuthority: credential.issuingAuthority || '',
+      number: credential.number || '',
+      issuedAt: toDateInput(credential.issuedAt),
+      expiresAt: toDateInput(credential.expiresAt),
+      documentUrl: credential.documentUrl || ''
+    } : emptyForm)
+  }
+
+  const handleSave = () => {
+    setFormError(null)
+    if (!form.name.trim()) {
+      setFormError('Name is required')
+      return
+    }
+    if (STATE_ISSUED_CREDENTIAL_TYPES.includes(form.type) && !form.issuingState) {
+      setFormError('Issuing state is required for state licenses and DEA registrations')
+      return
+    }
+
+    const data = {
+      type: form.type,
+      name: form.name.trim(),
+      issuingState: form.issuingState || null,
+      issuingAuthority: form.issuingAuthority || null,
+      number: form.number || null,
+      issuedAt: parseDateInput(form.issuedAt),
+      expiresAt: parseDateInput(form.expiresAt),
+      documentUrl: form.documentUrl || null
+    }
+
+    if (editingId === 'new') {
+      createCredential.mutate(data)
+    } else if (editingId) {
+      updateCredential.mutate({ id: editingId, ...data })
+    }
+  }
+
+  const isSaving = createCredential.isLoading || updateCredential.isLoading
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Award className="h-5 w-5" />
+            Credential Wallet
+          </CardTitle>
+          {editingId === null && (
+            <Button size="sm" variant="outline" onClick={() => startEditing()}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Credential
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {editingId !== null && (
+          <div className="border border-blue-200 dark:border-blue-800 rounded-lg p-6 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="credentialType">Type</Label>
+                <select
+                  id="credentialType"
+                  value={form.type}
+                  onChange={(e) => setForm(prev => ({ ...prev, type: e.target.value as CredentialType }))}
+                  className="w-full p-2 border border-gray-200 rounded-lg bg-white text-gray-900 text-sm"
+                >
+                  {Object.values(CredentialType).map(type => (
+                    <option key={type} value={type}>{CREDENTIAL_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="credentialName">Name</Label>
+                <Input
+                  id="credentialName"
+                  value={form.name}
+                  onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="e.g. California Medical License"
+                />
+              </div>
+              <div>
+                <Label htmlFor="credentialState">Issuing state</Label>
+                <select
+                  id="credentialState"
+                  value={form.issuingState}
+                  onChange={(e) => setForm(prev => ({ ...prev, issuingState: e.target.value as LicenseState | '' }))}
+                  className="w-full p-2 border border-gray-200 rounded-lg bg-white text-gray-900 text-sm"
+                >
+                  <option value="">None</option>
+                  {LICENSE_STATES.map(state => (
+                    <option key={state} value={state}>{state}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="credentialAuthority">Issuing authority</Label>
+                <Input
+                  id="credentialAuthority"
+                  value={form.issuingAuthority}
+                  onChange={(e) => setForm(prev => ({ ...prev, issuingAuthority: e.target.value }))}
+                  placeholder="e.g. Medical Board of California"
+                />
+              </div>
+              <div>
+                <Label htmlFor="credentialNumber">Number</Label>
+                <Input
+                  id="credentialNumber"
+                  value={form.number}
+                  onChange={(e) => setForm(prev => ({ ...prev, number: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="credentialDocument">Document URL</Label>
+                <Input
+                  id="credentialDocument"
+                  type="url"
+                  value={form.documentUrl}
+                  onChange={(e) => setForm(prev => ({ ...prev, documentUrl: e.target.value }))}
+                  placeholder="https://"
+                />
+              </div>
+              <div>
+                <Label htmlFor="credentialIssued">Issued</Label>
+                <Input
+                  id="credentialIssued"
+                  type="date"
+                  value={form.issuedAt}
+                  onChange={(e) => setForm(prev => ({ ...prev, issuedAt: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="credentialExpires">Expires</Label>
+                <Input
+                  id="credentialExpires"
+                  type="date"
+                  value={form.expiresAt}
+                  onChange={(e) => setForm(prev => ({ ...prev, expiresAt: e.target.value }))}
+                />
+              </div>
+            </div>
+            {formError && <p className="text-sm text-red-600">{formError}</p>}
+            <div className="flex gap-2">
+              <Button onClick={handleSave} disabled={isSaving}>
+                <Save className="mr-2 h-4 w-4" />
+                Save
+              </Button>
+              <Button variant="outline" onClick={() => setEditingId(null)}>
+                <X className="mr-2 h-4 w-4" />
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="space-y-4 animate-pulse">
+            {[0, 1].map(index => (
+              <div key={index} className="h-24 bg-gray-100 dark:bg-gray-700 rounded-lg" />
+            ))}
+          </div>
+        ) : !credentials?.length ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Add your licenses and certifications once and attach them to any application.
+          </p>
+        ) : (
+          credentials.map((credential) => (
+            <div key={credential.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-6">
+              <div className="flex items-start justify-between">
+                <div className="flex-1">
+                  <div className="flex flex-wrap items-center gap-3 mb-2">
+                    <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                      {credential.name}
+                    </h3>
+                    <Badge variant={VERIFICATION_VARIANTS[credential.verificationStatus as CredentialVerificationStatus]}>
+                      {CREDENTIAL_VERIFICATION_STATUS_LABELS[credential.verificationStatus as CredentialVerificationStatus]}
+                    </Badge>
+                    <CredentialExpiryBadge expiresAt={credential.expiresAt} />
+                  </div>
+                  <div className="flex items-center gap-2 text-gray-600 dark:text-gray-400 mb-2">
+                    <Shield className="h-4 w-4" />
+                    <span>
+                      {[
+                        CREDENTIAL_TYPE_LABELS[credential.type as CredentialType],
+                        credential.issuingState,
+                        credential.issuingAuthority,
+                        credential.number && `#${credential.number}`
+                      ].filter(Boolean).join(' · ')}
+                    </span>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-4 text-sm text-gray-500">
+                    {credential.issuedAt && <span>Issued: {formatCredentialDate(credential.issuedAt)}</span>}
+                    {credential.expiresAt && <span>Expires: {formatCredentialDate(credential.expiresAt)}</span>}
+                    {credential.verificationCheckedAt && (
+                      <span>
+                        Checked {formatCredentialDate(credential.verificationCheckedAt)} via {credential.verificationSource}
+                      </span>
+                    )}
+                    {credential.documentUrl && (
+                      <a
+                        href={credential.documentUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-1 text-blue-600 hover:underline"
+                      >
+                        <FileText className="h-4 w-4" />
+                        Document
+                      </a>
+                    )}
+                  </div>
+                  {verifyNotice && verifyNotice.id === credential.id && (
+                    <p className="mt-2 text-sm text-red-600">{verifyNotice.message}</p>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  {PRIMARY_SOURCE_CREDENTIAL_TYPES.includes(credential.type as CredentialType) && credential.number && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => verifyCredential.mutate({ id: credential.id })}
+                      disabled={verifyCredential.isLoading && verifyCredential.variables?.id === credential.id}
+                    >
+                      <ShieldCheck className="mr-2 h-4 w-4" />
+                      Verify
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => startEditing(credential)}
+                    aria-label="Edit credential"
+                  >
+                    <Edit3 className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => deleteCredential.mutate({ id: credential.id })}
+                    aria-label="Remove credential"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  )
+}
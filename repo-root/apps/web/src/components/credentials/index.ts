@@ -0,0 +1,3 @@
+export { CredentialWallet, CredentialExpiryBadge } from './credential-wallet'
+export { CredentialPicker } from './credential-picker'
+export { VerifiedLicenseBadge } from './verified-license-badge'
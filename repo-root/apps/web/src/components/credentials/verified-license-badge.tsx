@@ -0,0 +1,51 @@
+'use client'
+
+import { ShieldCheck } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import {
+  CREDENTIAL_TYPE_LABELS,
+  CredentialType,
+  CredentialVerificationStatus,
+  PRIMARY_SOURCE_CREDENTIAL_TYPES,
+  credentialExpiryStatus
+} from '@locumtruerate/types'
+import { formatCredentialDate } from './credential-wallet'
+
+interface VerifiedLicenseBadgeProps {
+  credential: {
+    type: string
+    issuingState?: string | null
+    expiresAt?: Date | string | null
+    verificationStatus: string
+    verificationSource?: string | null
+    verificationCheckedAt?: Date | string | null
+  }
+}
+
+/**
+ * Shown to employers on applications when a shared credential was confirmed
+ * against its primary source and has not expired since
+ */
+export function VerifiedLicenseBadge({ credential }: VerifiedLicenseBadgeProps) {
+  if (
+    credential.verificationStatus !== CredentialVerificationStatus.VERIFIED ||
+    !PRIMARY_SOURCE_CREDENTIAL_TYPES.includes(credential.type as CredentialType) ||
+    credentialExpiryStatus(credential.expiresAt) === 'expired'
+  ) {
+    return null
+  }
+
+  const label = credential.type === CredentialType.STATE_LICENSE
+    ? `Verified license${credential.issuingState ? ` · ${credential.issuingState}` : ''}`
+    : `Verified ${CREDENTIAL_TYPE_LABELS[credential.type as CredentialType]}`
+  const checked = credential.verificationCheckedAt
+    ? `Checked ${formatCredentialDate(credential.verificationCheckedAt)} via ${credential.verificationSource}`
+    : undefined
+
+  return (
+    <Badge variant="green" title={checked} className="inline-flex items-center gap-1">
+      <ShieldCheck className="h-3 w-3" />
+      {label}
+    </Badge>
+  )
+}
@@ -16,12 +16,14 @@ import {
   Mail,
   Phone,
   MessageSquare,
-  Briefcase
+  Briefcase,
+  Award
 } from 'lucide-react'
 import { Button } from '@locumtruerate/ui'
 import { cn } from '@/lib/utils'
 import type { Job } from '@locumtruerate/types'
 import { emailSchema, phoneSchema, urlSchema, safeTextSchema, fileUploadSchema } from '@/lib/validation/schemas'
+import { CredentialPicker } from '@/components/credentials'
 
 // Resume file validation
 const resumeFileSchema = fileUploadSchema.extend({
@@ -60,7 +62,7 @@ type ApplicationFormData = z.infer<typeof applicationSchema>
 interface ApplicationFormProps {
   job: Job
   onClose: () => void
-  onSubmit: (data: ApplicationFormData & { resumeFile?: File }) => Promise<void>
+  onSubmit: (data: ApplicationFormData & { resumeFile?: File; credentialIds: string[] }) => Promise<void>
   isOpen?: boolean
 }
 
@@ -88,6 +90,7 @@ export function ApplicationForm({
   isOpen = true 
 }: ApplicationFormProps) {
   const [resumeFile, setResumeFile] = useState<File | null>(null)
+  const [credentialIds, setCredentialIds] = useState<string[]>([])
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [submitStatus, setSubmitStatus] = useState<'idle' | 'success' | 'error'>('idle')
   const [dragOver, setDragOver] = useState(false)
@@ -161,7 +164,7 @@ export function ApplicationForm({
     setSubmitStatus('idle')
 
     try {
-      await onSubmit({ ...data, resumeFile })
+      await onSubmit({ ...data, resumeFile, credentialIds })
       setSubmitStatus('success')
       
       // Close modal after success delay
@@ -169,6 +172,7 @@ export function ApplicationForm({
         onClose()
         reset()
         setResumeFile(null)
+        setCredentialIds([])
       }, 2000)
     } catch (error) {
       setSubmitStatus('error')
@@ -183,6 +187,7 @@ export function ApplicationForm({
       onClose()
       reset()
       setResumeFile(null)
+      setCredentialIds([])
       setSubmitStatus('idle')
     }
   }, [isSubmitting, onClose, reset])
@@ -443,6 +448,15 @@ export function ApplicationForm({
                 </div>
               </div>
 
+              {/* Credentials from the applicant's wallet */}
+              <div className="space-y-4">
+                <h3 className="flex items-center gap-2 text-lg font-medium text-gray-900 dark:text-white">
+                  <Award className="w-5 h-5" />
+                  Credentials
+                </h3>
+                <CredentialPicker selectedIds={credentialIds} onChange={setCredentialIds} />
+              </div>
+
               {/* Application Details */}
               <div className="space-y-4">
                 <h3 className="flex items-center gap-2 text-lg font-medium text-gray-900 dark:text-white">
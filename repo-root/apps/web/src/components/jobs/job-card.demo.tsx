@@ -1,7 +1,7 @@
 // Demo file showcasing JobCard usage
 import React from 'react'
 import { JobCard } from './job-card'
-import type { JobCardData } from '@locumtruerate/types'
+import { CallRequirement, ShiftType, type JobCardData } from '@locumtruerate/types'
 
 // Sample job data for demonstration
 const sampleJobs: JobCardData[] = [
@@ -22,6 +22,16 @@ const sampleJobs: JobCardData[] = [
     category: 'OTHER',
     tags: ['Emergency Medicine', 'Night Shifts', 'Level 1 Trauma'],
     specialty: 'Emergency Medicine',
+    schedule: {
+      assignmentStartDate: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000),
+      assignmentEndDate: new Date(Date.now() + (14 + 13 * 7) * 24 * 60 * 60 * 1000),
+      shiftType: ShiftType.NIGHT,
+      shiftLengthHours: 12,
+      daysOn: 7,
+      daysOff: 7,
+      callRequirement: CallRequirement.HOME_CALL,
+      callFrequency: 4
+    },
     experienceLevel: '5+ years',
     publishedAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000), // 2 days ago
     expiresAt: new Date(Date.now() + 5 * 24 * 60 * 60 * 1000), // 5 days from now
@@ -4,7 +4,7 @@ import React, { useState, useCallback, useMemo } from 'react'
 import { cn } from '@/lib/utils'
 import { Card, CardContent, CardFooter, CardHeader } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import type { JobCardData, JobType, JobCategory } from '@locumtruerate/types'
+import { formatAssignmentSchedule, type JobCardData, type JobType, type JobCategory } from '@locumtruerate/types'
 import { BoostedJobBadges, type BoostType } from './boosted-job-badge'
 import { 
   MapPin, 
@@ -18,7 +18,8 @@ import {
   ChevronDown,
   ChevronUp,
   Eye,
-  Zap
+  Zap,
+  CalendarClock
 } from 'lucide-react'
 
 interface JobCardProps {
@@ -150,6 +151,11 @@ export function JobCard({
     [job.publishedAt]
   )
   
+  const formattedSchedule = useMemo(() => 
+    job.schedule && formatAssignmentSchedule(job.schedule), 
+    [job.schedule]
+  )
+  
   const daysUntilExpiry = useMemo(() => {
     const now = new Date()
     const expiry = new Date(job.expiresAt)
@@ -259,6 +265,14 @@ export function JobCard({
           </div>
         </div>
         
+        {/* Assignment schedule */}
+        {formattedSchedule && (
+          <div className="flex items-center gap-1 text-sm text-muted-foreground">
+            <CalendarClock className="w-4 h-4 shrink-0" />
+            <span>{formattedSchedule}</span>
+          </div>
+        )}
+        
         {/* Job badges */}
         <div className="flex flex-wrap gap-2">
           {job.isUrgent && (
@@ -8,6 +8,14 @@ import { Badge } from '@/components/ui/badge'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import type { JobType, JobCategory } from '@locumtruerate/types'
+import {
+  Profession,
+  ClinicalCertification,
+  PROFESSION_LABELS,
+  CLINICAL_CERTIFICATION_LABELS,
+  HEALTHCARE_SPECIALTIES,
+  LICENSE_STATES
+} from '@locumtruerate/types'
 import { 
   Filter, 
   X, 
@@ -24,7 +32,8 @@ import {
   Sliders,
   ToggleLeft,
   ToggleRight,
-  Settings
+  Settings,
+  Stethoscope
 } from 'lucide-react'
 import { z } from 'zod'
 import { safeTextSchema, searchQuerySchema } from '@/lib/validation/schemas'
@@ -36,6 +45,10 @@ const jobFiltersSchema = z.object({
   location: safeTextSchema(0, 100).optional(),
   remote: z.enum(['remote', 'onsite', 'hybrid', '']).optional(),
   specialty: safeTextSchema(0, 100).optional(),
+  profession: z.union([z.nativeEnum(Profession), z.literal('')]).optional(),
+  subspecialty: safeTextSchema(0, 100).optional(),
+  licenseState: z.union([z.enum(LICENSE_STATES), z.literal('')]).optional(),
+  certifications: z.array(z.nativeEnum(ClinicalCertification)).max(10).optional(),
   experience: z.enum(['entry', 'mid', 'senior', 'executive', '']).optional(),
   jobType: z.union([
     z.enum(['FULL_TIME', 'PART_TIME', 'CONTRACT', 'REMOTE', 'INTERNSHIP']),
@@ -79,6 +92,12 @@ export interface JobFiltersState {
   experience?: 'entry' | 'mid' | 'senior' | 'executive' | ''
   jobType?: JobType | ''
   
+  // Healthcare taxonomy
+  profession?: Profession | ''
+  subspecialty?: string
+  licenseState?: string
+  certifications?: ClinicalCertification[]
+  
   // Salary range
   salaryMin?: number
   salaryMax?: number
@@ -112,28 +131,17 @@ interface JobFiltersProps {
 }
 
 // Static data for filter options
-const SPECIALTIES = [
-  'Emergency Medicine',
-  'Family Medicine', 
-  'Internal Medicine',
-  'Pediatrics',
-  'Psychiatry',
-  'Anesthesiology',
-  'Radiology',
-  'Surgery',
-  'Critical Care',
-  'Hospitalist',
-  'Cardiology',
-  'Dermatology',
-  'Endocrinology',
-  'Gastroenterology',
-  'Neurology',
-  'Oncology',
-  'Orthopedics',
-  'Ophthalmology',
-  'Pathology',
-  'Pulmonology'
-]
+const SPECIALTIES = Object.keys(HEALTHCARE_SPECIALTIES)
+
+const PROFESSIONS = Object.values(Profession).map(value => ({
+  value,
+  label: PROFESSION_LABELS[value]
+}))
+
+const CERTIFICATIONS = Object.values(ClinicalCertification).map(value => ({
+  value,
+  label: CLINICAL_CERTIFICATION_LABELS[value]
+}))
 
 const JOB_TYPES = [
   { value: 'FULL_TIME', label: 'Full-time' },
@@ -218,6 +226,10 @@ function useUrlSync(filters: JobFiltersState, onFiltersChange: (filters: JobFilt
     const location = searchParams.get('location')
     const remote = searchParams.get('remote') as JobFiltersState['remote']
     const specialty = searchParams.get('specialty')
+    const profession = searchParams.get('profession') as Profession
+    const subspecialty = searchParams.get('subspecialty')
+    const licenseState = searchParams.get('licenseState')
+    const certifications = searchParams.get('certifications')
     const experience = searchParams.get('experience') as JobFiltersState['experience']
     const jobType = searchParams.get('jobType') as JobType
     const salaryMin = searchParams.get('salaryMin')
@@ -231,6 +243,10 @@ function useUrlSync(filters: JobFiltersState, onFiltersChange: (filters: JobFilt
     if (location) urlFilters.location = location
     if (remote) urlFilters.remote = remote
     if (specialty) urlFilters.specialty = specialty
+    if (profession) urlFilters.profession = profession
+    if (subspecialty) urlFilters.subspecialty = subspecialty
+    if (licenseState) urlFilters.licenseState = licenseState
+    if (certifications) urlFilters.certifications = certifications.split(',') as ClinicalCertification[]
     if (experience) urlFilters.experience = experience
     if (jobType) urlFilters.jobType = jobType
     if (salaryMin) urlFilters.salaryMin = parseInt(salaryMin)
@@ -280,6 +296,7 @@ export function JobFilters({
   const [filters, setFilters] = useState<JobFiltersState>(initialFilters)
   const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({
     location: true,
+    clinical: true,
     salary: false,
     experience: false,
     company: false,
@@ -355,6 +372,17 @@ export function JobFilters({
     })
   }, [])
   
+  // Handle certification toggle
+  const toggleCertification = useCallback((certification: ClinicalCertification) => {
+    setFilters(prev => {
+      const certifications = prev.certifications || []
+      const newCertifications = certifications.includes(certification)
+        ? certifications.filter(c => c !== certification)
+        : [...certifications, certification]
+      return { ...prev, certifications: newCertifications }
+    })
+  }, [])
+  
   // Clear all filters
   const clearAllFilters = useCallback(() => {
     setFilters({})
@@ -596,6 +624,97 @@ export function JobFilters({
         </div>
       </FilterSection>
       
+      {/* Profession, Specialty & Credentials */}
+      <FilterSection title="Profession & Credentials" icon={Stethoscope} sectionKey="clinical">
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="profession" className="text-sm font-medium mb-2 block">Profession</Label>
+            <select
+              id="profession"
+              value={filters.profession || ''}
+              onChange={(e) => updateFilter('profession', e.target.value as Profession | '')}
+              className="w-full p-2 border border-gray-200 rounded-lg bg-white text-gray-900 text-sm touch-target"
+            >
+              <option value="">All Professions</option>
+              {PROFESSIONS.map(profession => (
+                <option key={profession.value} value={profession.value}>{profession.label}</option>
+              ))}
+            </select>
+          </div>
+          
+          <div>
+            <Label htmlFor="specialty" className="text-sm font-medium mb-2 block">Medical Specialty</Label>
+            <select
+              id="specialty"
+              value={filters.specialty || ''}
+              onChange={(e) => setFilters(prev => ({ ...prev, specialty: e.target.value, subspecialty: '' }))}
+              className="w-full p-2 border border-gray-200 rounded-lg bg-white text-gray-900 text-sm touch-target"
+            >
+              <option value="">All Specialties</option>
+              {SPECIALTIES.map(specialty => (
+                <option key={specialty} value={specialty}>{specialty}</option>
+              ))}
+            </select>
+          </div>
+          
+          {filters.specialty && HEALTHCARE_SPECIALTIES[filters.specialty]?.length > 0 && (
+            <div>
+              <Label htmlFor="subspecialty" className="text-sm font-medium mb-2 block">Subspecialty</Label>
+              <select
+                id="subspecialty"
+                value={filters.subspecialty || ''}
+                onChange={(e) => updateFilter('subspecialty', e.target.value)}
+                className="w-full p-2 border border-gray-200 rounded-lg bg-white text-gray-900 text-sm touch-target"
+              >
+                <option value="">All Subspecialties</option>
+                {HEALTHCARE_SPECIALTIES[filters.specialty].map(subspecialty => (
+                  <option key={subspecialty} value={subspecialty}>{subspecialty}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          
+          <div>
+            <Label htmlFor="licenseState" className="text-sm font-medium mb-2 block">State License</Label>
+            <select
+              id="licenseState"
+              value={filters.licenseState || ''}
+              onChange={(e) => updateFilter('licenseState', e.target.value)}
+              className="w-full p-2 border border-gray-200 rounded-lg bg-white text-gray-900 text-sm touch-target"
+            >
+              <option value="">Any State</option>
+              {LICENSE_STATES.map(state => (
+                <option key={state} value={state}>{state}</option>
+              ))}
+            </select>
+          </div>
+          
+          <div>
+            <Label className="text-sm font-medium mb-2 block">Certifications</Label>
+            <div className="grid grid-cols-3 gap-2">
+              {CERTIFICATIONS.map(certification => {
+                const isSelected = filters.certifications?.includes(certification.value) || false
+                return (
+                  <button
+                    key={certification.value}
+                    onClick={() => toggleCertification(certification.value)}
+                    title={certification.label}
+                    className={cn(
+                      "p-2 text-xs rounded-lg border transition-all touch-target",
+                      isSelected
+                        ? "bg-blue-50 border-blue-200 text-blue-700"
+                        : "bg-white border-gray-200 text-gray-700 hover:bg-gray-50"
+                    )}
+                  >
+                    {certification.value}
+                  </button>
+                )
+              })}
+            </div>
+          </div>
+        </div>
+      </FilterSection>
+      
       {/* Salary Range */}
       <FilterSection title="Salary Range" icon={DollarSign} sectionKey="salary">
         <SalaryRangeSlider
@@ -655,21 +774,7 @@ export function JobFilters({
               ))}
             </div>
           </div>
-          
-          <div>
-            <Label htmlFor="specialty" className="text-sm font-medium mb-2 block">Medical Specialty</Label>
-            <select
-              id="specialty"
-              value={filters.specialty || ''}
-              onChange={(e) => updateFilter('specialty', e.target.value)}
-              className="w-full p-2 border border-gray-200 rounded-lg bg-white text-gray-900 text-sm touch-target"
-            >
-              <option value="">All Specialties</option>
-              {SPECIALTIES.map(specialty => (
-                <option key={specialty} value={specialty}>{specialty}</option>
-              ))}
-            </select>
-          </div>
+
         </div>
       </FilterSection>
       
@@ -0,0 +1,145 @@
+'use client'
+
+import { useState } from 'react'
+import { Calendar, Check, FileSignature, History, Workflow } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { trpc } from '@/providers/trpc-provider'
+import { APPLICATION_EVENT_LABELS, ApplicationEventType } from '@locumtruerate/types'
+import { InterviewScheduler } from './interview-scheduler'
+import { OfferComposer } from './offer-composer'
+
+const formatEventTime = (date: Date | string) =>
+  new Date(date).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' })
+
+/**
+ * Recruiter view of an application's hiring pipeline: the stage stepper,
+ * interviews, offers and the full stage history
+ */
+export function ApplicationPipeline({ applicationId }: { applicationId: string }) {
+  const { data: pipeline, isLoading, refetch } = trpc.pipelines.getApplicationPipeline.useQuery({ applicationId })
+  const [note, setNote] = useState('')
+  const [moveError, setMoveError] = useState<string | null>(null)
+
+  const moveStage = trpc.pipelines.moveStage.useMutation({
+    onSuccess: () => {
+      setNote('')
+      refetch()
+    },
+    onError: (error) => setMoveError(error.message)
+  })
+
+  if (isLoading || !pipeline) {
+    return <div className="h-32 bg-gray-100 dark:bg-gray-700 rounded-lg animate-pulse" />
+  }
+
+  const currentIndex = pipeline.stages.findIndex(stage => stage.key === pipeline.stage)
+  const isClosed = pipeline.status === 'REJECTED' || pipeline.status === 'WITHDRAWN'
+  const stageName = (key?: string | null) =>
+    pipeline.stages.find(stage => stage.key === key)?.name ?? key
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Workflow className="h-5 w-5" />
+            Pipeline
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <ol className="flex flex-wrap gap-2">
+            {pipeline.stages.map((stage, index) => {
+              const isCurrent = index === currentIndex
+              const isDone = index < currentIndex
+              return (
+                <li key={stage.key}>
+                  <button
+                    type="button"
+                    disabled={isCurrent || isClosed || moveStage.isLoading}
+                    onClick={() => {
+                      setMoveError(null)
+                      moveStage.mutate({ applicationId, stageKey: stage.key, note: note || undefined })
+                    }}
+                    className={`flex items-center gap-1 rounded-full border px-3 py-1 text-sm ${
+                      isCurrent
+                        ? 'border-blue-600 bg-blue-600 text-white'
+                        : isDone
+                          ? 'border-green-200 bg-green-50 text-green-800 dark:border-green-800 dark:bg-green-900/30 dark:text-green-400'
+                          : 'border-gray-200 text-gray-700 hover:border-blue-400 dark:border-gray-700 dark:text-gray-300'
+                    } disabled:cursor-default`}
+                  >
+                    {isDone && <Check className="h-3 w-3" />}
+                    {stage.name}
+                  </button>
+                </li>
+              )
+            })}
+          </ol>
+          {isClosed ? (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              This application is {pipeline.status.toLowerCase()}. Reopen it to move it through the pipeline.
+            </p>
+          ) : (
+            <Input
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Note for the next stage change (optional)"
+            />
+          )}
+          {moveError && <p className="text-sm text-red-600">{moveError}</p>}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Calendar className="h-5 w-5" />
+            Interviews
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <InterviewScheduler applicationId={applicationId} interviews={pipeline.interviews} onChange={refetch} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileSignature className="h-5 w-5" />
+            Offers
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <OfferComposer applicationId={applicationId} offers={pipeline.offers} onChange={refetch} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            History
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ol className="space-y-4 border-l border-gray-200 dark:border-gray-700 pl-4">
+            {[...pipeline.events].reverse().map(event => (
+              <li key={event.id} className="text-sm">
+                <p className="font-medium text-gray-900 dark:text-white">
+                  {APPLICATION_EVENT_LABELS[event.type as ApplicationEventType]}
+                  {event.type === ApplicationEventType.STAGE_CHANGED && ` to ${event.stageName ?? stageName(event.toStage)}`}
+                  {event.type === ApplicationEventType.STATUS_CHANGED && event.toStatus && ` to ${event.toStatus.toLowerCase()}`}
+                </p>
+                <p className="text-gray-500">{formatEventTime(event.createdAt)}</p>
+                {'note' in event && event.note && (
+                  <p className="mt-1 text-gray-700 dark:text-gray-300">{event.note}</p>
+                )}
+              </li>
+            ))}
+          </ol>
+        </CardContent>
+      </Card>
+    </>
+  )
+}
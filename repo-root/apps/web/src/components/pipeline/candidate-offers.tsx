@@ -0,0 +1,94 @@
+'use client'
+
+import { useState } from 'react'
+import { FileSignature } from 'lucide-react'
+import { Button } from '@locumtruerate/ui'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { trpc } from '@/providers/trpc-provider'
+import { OFFER_STATUS_LABELS, OfferStatus } from '@locumtruerate/types'
+import { OFFER_STATUS_VARIANTS, formatOfferDate } from './offer-composer'
+
+/**
+ * Offers the candidate has received, with accept and decline for open ones.
+ * Renders nothing until the candidate has an offer.
+ */
+export function CandidateOffers() {
+  const { data: offers, refetch } = trpc.offers.mine.useQuery()
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  const [error, setError] = useState<{ id: string; message: string } | null>(null)
+
+  const respond = trpc.offers.respond.useMutation({
+    onSuccess: () => {
+      setError(null)
+      refetch()
+    },
+    onError: (error, { id }) => {
+      setError({ id, message: error.message })
+      refetch()
+    }
+  })
+
+  if (!offers?.length) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileSignature className="h-5 w-5" />
+          Offers
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {offers.map(offer => (
+          <div key={offer.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <h3 className="font-semibold text-gray-900 dark:text-white">{offer.application.job.title}</h3>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  {offer.application.job.company.name}
+                  {offer.expiresAt && ` · respond by ${formatOfferDate(offer.expiresAt)}`}
+                </p>
+              </div>
+              <Badge variant={OFFER_STATUS_VARIANTS[offer.status as OfferStatus]}>
+                {OFFER_STATUS_LABELS[offer.status as OfferStatus]}
+              </Badge>
+            </div>
+            <details className="text-sm" open={offer.status === OfferStatus.SENT}>
+              <summary className="cursor-pointer text-blue-600">Offer letter</summary>
+              <pre className="mt-2 whitespace-pre-wrap font-sans text-gray-700 dark:text-gray-300">{offer.letter}</pre>
+            </details>
+            {offer.status === OfferStatus.SENT && (
+              <div className="space-y-2">
+                <Input
+                  value={notes[offer.id] ?? ''}
+                  onChange={(e) => setNotes(prev => ({ ...prev, [offer.id]: e.target.value }))}
+                  placeholder="Note to the recruiter (optional)"
+                />
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    disabled={respond.isLoading}
+                    onClick={() => respond.mutate({ id: offer.id, accept: true, note: notes[offer.id] || undefined })}
+                  >
+                    Accept
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={respond.isLoading}
+                    onClick={() => respond.mutate({ id: offer.id, accept: false, note: notes[offer.id] || undefined })}
+                  >
+                    Decline
+                  </Button>
+                </div>
+              </div>
+            )}
+            {error && error.id === offer.id && <p className="text-sm text-red-600">{error.message}</p>}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
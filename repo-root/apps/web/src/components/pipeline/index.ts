@@ -0,0 +1,4 @@
+export { ApplicationPipeline } from './application-pipeline'
+export { CandidateOffers } from './candidate-offers'
+export { InterviewScheduler, InterviewCalendarButton } from './interview-scheduler'
+export { OfferComposer } from './offer-composer'
@@ -0,0 +1,233 @@
+'use client'
+
+import { useState } from 'react'
+import { CalendarPlus, Download, Video, MapPin, X } from 'lucide-react'
+import { Button } from '@locumtruerate/ui'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { trpc } from '@/providers/trpc-provider'
+import { InterviewStatus } from '@locumtruerate/types'
+
+interface InterviewSummary {
+  id: string
+  status: string
+  startsAt: Date | string
+  endsAt: Date | string
+  timezone: string
+  location?: string | null
+  meetingUrl?: string | null
+}
+
+const STATUS_VARIANTS: Record<InterviewStatus, 'blue' | 'green' | 'gray'> = {
+  [InterviewStatus.SCHEDULED]: 'blue',
+  [InterviewStatus.COMPLETED]: 'green',
+  [InterviewStatus.CANCELLED]: 'gray'
+}
+
+export const formatInterviewTime = (interview: InterviewSummary) =>
+  new Date(interview.startsAt).toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: interview.timezone,
+    timeZoneName: 'short'
+  })
+
+/**
+ * Downloads the .ics file for an interview so it can be added to a calendar
+ */
+export function InterviewCalendarButton({ interviewId }: { interviewId: string }) {
+  const calendarFile = trpc.interviews.calendarFile.useQuery({ id: interviewId }, { enabled: false })
+
+  const handleDownload = async () => {
+    const { data } = await calendarFile.refetch()
+    if (!data) return
+
+    const url = URL.createObjectURL(new Blob([data.content], { type: 'text/calendar' }))
+    const a = document.createElement('a')
+    a.href = url
+    a.download = data.filename
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <Button size="sm" variant="outline" onClick={handleDownload} disabled={calendarFile.isFetching}>
+      <Download className="mr-2 h-4 w-4" />
+      Add to calendar
+    </Button>
+  )
+}
+
+/**
+ * Interview list with a form to schedule a new slot. Candidates receive a
+ * calendar invite by email whenever an interview is scheduled, moved or
+ * cancelled.
+ */
+export function InterviewScheduler({
+  applicationId,
+  interviews,
+  onChange
+}: {
+  applicationId: string
+  interviews: InterviewSummary[]
+  onChange: () => void
+}) {
+  const [isScheduling, setIsScheduling] = useState(false)
+  const [startsAt, setStartsAt] = useState('')
+  const [duration, setDuration] = useState('30')
+  const [location, setLocation] = useState('')
+  const [meetingUrl, setMeetingUrl] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const scheduleInterview = trpc.interviews.schedule.useMutation({
+    onSuccess: () => {
+      setIsScheduling(false)
+      setStartsAt('')
+      setLocation('')
+      setMeetingUrl('')
+      onChange()
+    },
+    onError: (error) => setError(error.message)
+  })
+  const cancelInterview = trpc.interviews.cancel.useMutation({ onSuccess: onChange })
+  const completeInterview = trpc.interviews.complete.useMutation({ onSuccess: onChange })
+
+  const handleSchedule = () => {
+    setError(null)
+    if (!startsAt) {
+      setError('Choose a start time')
+      return
+    }
+
+    // datetime-local values are in the recruiter's own time zone
+    const start = new Date(startsAt)
+    scheduleInterview.mutate({
+      applicationId,
+      startsAt: start,
+      endsAt: new Date(start.getTime() + Number(duration) * 60 * 1000),
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      location: location || null,
+      meetingUrl: meetingUrl || null
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      {interviews.length === 0 && !isScheduling && (
+        <p className="text-sm text-gray-600 dark:text-gray-400">No interviews scheduled.</p>
+      )}
+
+      {interviews.map(interview => (
+        <div
+          key={interview.id}
+          className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 border border-gray-200 dark:border-gray-700 rounded-lg p-4"
+        >
+          <div className="space-y-1 text-sm">
+            <p className="font-medium text-gray-900 dark:text-white">{formatInterviewTime(interview)}</p>
+            {interview.location && (
+              <p className="flex items-center gap-2 text-gray-600 dark:text-gray-400">
+                <MapPin className="h-4 w-4" />
+                {interview.location}
+              </p>
+            )}
+            {interview.meetingUrl && (
+              <a
+                href={interview.meetingUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-2 text-blue-600 hover:underline"
+              >
+                <Video className="h-4 w-4" />
+                Meeting link
+              </a>
+            )}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant={STATUS_VARIANTS[interview.status as InterviewStatus]}>
+              {interview.status.toLowerCase()}
+            </Badge>
+            {interview.status === InterviewStatus.SCHEDULED && (
+              <>
+                <InterviewCalendarButton interviewId={interview.id} />
+                <Button size="sm" variant="outline" onClick={() => completeInterview.mutate({ id: interview.id })}>
+                  Mark completed
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => cancelInterview.mutate({ id: interview.id })}>
+                  <X className="mr-1 h-4 w-4" />
+                  Cancel
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      ))}
+
+      {isScheduling ? (
+        <div className="border border-blue-200 dark:border-blue-800 rounded-lg p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="interviewStartsAt">Starts at</Label>
+              <Input
+                id="interviewStartsAt"
+                type="datetime-local"
+                value={startsAt}
+                onChange={(e) => setStartsAt(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="interviewDuration">Length</Label>
+              <select
+                id="interviewDuration"
+                value={duration}
+                onChange={(e) => setDuration(e.target.value)}
+                className="w-full p-2 border border-gray-200 rounded-lg bg-white text-gray-900 text-sm"
+              >
+                {['15', '30', '45', '60', '90'].map(minutes => (
+                  <option key={minutes} value={minutes}>{minutes} minutes</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="interviewLocation">Location</Label>
+              <Input
+                id="interviewLocation"
+                value={location}
+                onChange={(e) => setLocation(e.target.value)}
+                placeholder="e.g. Phone, or the hospital address"
+              />
+            </div>
+            <div>
+              <Label htmlFor="interviewMeetingUrl">Meeting link</Label>
+              <Input
+                id="interviewMeetingUrl"
+                value={meetingUrl}
+                onChange={(e) => setMeetingUrl(e.target.value)}
+                placeholder="https://"
+              />
+            </div>
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handleSchedule} disabled={scheduleInterview.isLoading}>
+              Send invite
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setIsScheduling(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button size="sm" variant="outline" onClick={() => setIsScheduling(true)}>
+          <CalendarPlus className="mr-2 h-4 w-4" />
+          Schedule interview
+        </Button>
+      )}
+    </div>
+  )
+}
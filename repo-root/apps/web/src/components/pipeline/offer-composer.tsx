@@ -0,0 +1,187 @@
+'use client'
+
+import { useState } from 'react'
+import { Send } from 'lucide-react'
+import { Button } from '@locumtruerate/ui'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { trpc } from '@/providers/trpc-provider'
+import { OFFER_STATUS_LABELS, OfferStatus } from '@locumtruerate/types'
+
+interface OfferSummary {
+  id: string
+  status: string
+  letter: string
+  sentAt: Date | string
+  expiresAt?: Date | string | null
+  responseNote?: string | null
+}
+
+export const OFFER_STATUS_VARIANTS: Record<OfferStatus, 'blue' | 'green' | 'red' | 'gray' | 'yellow'> = {
+  [OfferStatus.SENT]: 'blue',
+  [OfferStatus.ACCEPTED]: 'green',
+  [OfferStatus.DECLINED]: 'red',
+  [OfferStatus.WITHDRAWN]: 'gray',
+  [OfferStatus.EXPIRED]: 'yellow'
+}
+
+// Offer dates are calendar dates; keep them in UTC
+const parseDateInput = (value: string) => value ? new Date(`${value}T00:00:00Z`) : undefined
+
+export const formatOfferDate = (date: Date | string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' })
+
+/**
+ * Offers sent for an application, and a composer that previews the letter
+ * with terms taken from the job's compensation before it is sent
+ */
+export function OfferComposer({
+  applicationId,
+  offers,
+  onChange
+}: {
+  applicationId: string
+  offers: OfferSummary[]
+  onChange: () => void
+}) {
+  const [isComposing, setIsComposing] = useState(false)
+  const [rate, setRate] = useState('')
+  const [startDate, setStartDate] = useState('')
+  const [expiresAt, setExpiresAt] = useState('')
+  const [message, setMessage] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const overrides = {
+    applicationId,
+    rate: rate ? Number(rate) : undefined,
+    startDate: parseDateInput(startDate),
+    message: message || undefined
+  }
+
+  const preview = trpc.offers.preview.useQuery(overrides, { enabled: isComposing })
+  const createOffer = trpc.offers.create.useMutation({
+    onSuccess: () => {
+      setIsComposing(false)
+      setRate('')
+      setStartDate('')
+      setExpiresAt('')
+      setMessage('')
+      onChange()
+    },
+    onError: (error) => setError(error.message)
+  })
+  const withdrawOffer = trpc.offers.withdraw.useMutation({ onSuccess: onChange })
+
+  const hasOpenOffer = offers.some(offer => offer.status === OfferStatus.SENT)
+
+  return (
+    <div className="space-y-4">
+      {offers.length === 0 && !isComposing && (
+        <p className="text-sm text-gray-600 dark:text-gray-400">No offers sent.</p>
+      )}
+
+      {offers.map(offer => (
+        <div key={offer.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-2">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <Badge variant={OFFER_STATUS_VARIANTS[offer.status as OfferStatus]}>
+                {OFFER_STATUS_LABELS[offer.status as OfferStatus]}
+              </Badge>
+              <span className="text-sm text-gray-600 dark:text-gray-400">
+                Sent {formatOfferDate(offer.sentAt)}
+                {offer.expiresAt && ` · expires ${formatOfferDate(offer.expiresAt)}`}
+              </span>
+            </div>
+            {offer.status === OfferStatus.SENT && (
+              <Button size="sm" variant="ghost" onClick={() => withdrawOffer.mutate({ id: offer.id })}>
+                Withdraw
+              </Button>
+            )}
+          </div>
+          {offer.responseNote && (
+            <p className="text-sm italic text-gray-700 dark:text-gray-300">“{offer.responseNote}”</p>
+          )}
+          <details className="text-sm">
+            <summary className="cursor-pointer text-blue-600">Offer letter</summary>
+            <pre className="mt-2 whitespace-pre-wrap font-sans text-gray-700 dark:text-gray-300">{offer.letter}</pre>
+          </details>
+        </div>
+      ))}
+
+      {isComposing ? (
+        <div className="border border-blue-200 dark:border-blue-800 rounded-lg p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="offerRate">Rate</Label>
+              <Input
+                id="offerRate"
+                type="number"
+                min="0"
+                value={rate}
+                onChange={(e) => setRate(e.target.value)}
+                placeholder={preview.data?.terms.rate?.toString() ?? 'From the job'}
+              />
+            </div>
+            <div>
+              <Label htmlFor="offerStartDate">Start date</Label>
+              <Input
+                id="offerStartDate"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="offerExpiresAt">Respond by</Label>
+              <Input
+                id="offerExpiresAt"
+                type="date"
+                value={expiresAt}
+                onChange={(e) => setExpiresAt(e.target.value)}
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="offerMessage">Message</Label>
+            <textarea
+              id="offerMessage"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              rows={3}
+              className="w-full p-2 border border-gray-200 rounded-lg bg-white text-gray-900 text-sm"
+            />
+          </div>
+          {preview.data && (
+            <pre className="whitespace-pre-wrap font-sans text-sm bg-gray-50 dark:bg-gray-800 rounded-lg p-4 text-gray-700 dark:text-gray-300">
+              {preview.data.letter}
+            </pre>
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              onClick={() => {
+                setError(null)
+                createOffer.mutate({ ...overrides, expiresAt: parseDateInput(expiresAt) })
+              }}
+              disabled={createOffer.isLoading}
+            >
+              <Send className="mr-2 h-4 w-4" />
+              Send offer
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setIsComposing(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        !hasOpenOffer && (
+          <Button size="sm" variant="outline" onClick={() => setIsComposing(true)}>
+            Make an offer
+          </Button>
+        )
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,2 @@
+export { WebhookEndpoints } from './webhook-endpoints'
+export { WebhookDeliveryLog } from './webhook-delivery-log'
@@ -0,0 +1,132 @@
+'use client'
+
+import { useState } from 'react'
+import { RotateCcw } from 'lucide-react'
+import { Button } from '@locumtruerate/ui'
+import { Badge } from '@/components/ui/badge'
+import { trpc } from '@/providers/trpc-provider'
+import {
+  WEBHOOK_DELIVERY_STATUS_LABELS,
+  WEBHOOK_EVENT_LABELS,
+  WebhookDeliveryStatus,
+  WebhookEventType
+} from '@locumtruerate/types'
+
+const STATUS_VARIANTS: Record<WebhookDeliveryStatus, 'yellow' | 'green' | 'red'> = {
+  [WebhookDeliveryStatus.PENDING]: 'yellow',
+  [WebhookDeliveryStatus.SUCCEEDED]: 'green',
+  [WebhookDeliveryStatus.FAILED]: 'red'
+}
+
+const formatDeliveryTime = (date: Date | string) =>
+  new Date(date).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit', second: '2-digit' })
+
+/**
+ * Deliveries sent to one endpoint, newest first, with the receiver's
+ * response and a replay button
+ */
+export function WebhookDeliveryLog({ endpointId }: { endpointId: string }) {
+  const [status, setStatus] = useState<WebhookDeliveryStatus | ''>('')
+  const [page, setPage] = useState(1)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const { data, isLoading, refetch } = trpc.webhooks.listDeliveries.useQuery({
+    endpointId,
+    status: status || undefined,
+    page
+  })
+
+  const replay = trpc.webhooks.replayDelivery.useMutation({
+    onSuccess: () => {
+      setNotice('Delivery queued again; it will be sent within a minute')
+      refetch()
+    },
+    onError: (error) => setNotice(error.message)
+  })
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-semibold text-gray-900 dark:text-white">Delivery log</h3>
+        <select
+          value={status}
+          onChange={(e) => {
+            setStatus(e.target.value as WebhookDeliveryStatus | '')
+            setPage(1)
+          }}
+          className="p-2 border border-gray-200 rounded-lg bg-white text-gray-900 text-sm"
+        >
+          <option value="">All deliveries</option>
+          {Object.values(WebhookDeliveryStatus).map(value => (
+            <option key={value} value={value}>{WEBHOOK_DELIVERY_STATUS_LABELS[value]}</option>
+          ))}
+        </select>
+      </div>
+
+      {notice && <p className="text-sm text-gray-600 dark:text-gray-400">{notice}</p>}
+
+      {isLoading ? (
+        <div className="h-24 bg-gray-100 dark:bg-gray-700 rounded-lg animate-pulse" />
+      ) : !data?.deliveries.length ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">No deliveries yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {data.deliveries.map(delivery => (
+            <li key={delivery.id} className="py-3 text-sm">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <Badge variant={STATUS_VARIANTS[delivery.status as WebhookDeliveryStatus]}>
+                    {WEBHOOK_DELIVERY_STATUS_LABELS[delivery.status as WebhookDeliveryStatus]}
+                  </Badge>
+                  <span className="font-medium text-gray-900 dark:text-white">
+                    {WEBHOOK_EVENT_LABELS[delivery.eventType as WebhookEventType] ?? delivery.eventType}
+                  </span>
+                  {delivery.replayOf && <Badge variant="outline">Replay</Badge>}
+                </div>
+                <div className="flex items-center gap-3 text-gray-600 dark:text-gray-400">
+                  {delivery.responseStatus && <span>HTTP {delivery.responseStatus}</span>}
+                  {delivery.durationMs !== null && <span>{delivery.durationMs} ms</span>}
+                  <span>{formatDeliveryTime(delivery.createdAt)}</span>
+                  {delivery.status !== WebhookDeliveryStatus.PENDING && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={replay.isLoading}
+                      onClick={() => {
+                        setNotice(null)
+                        replay.mutate({ id: delivery.id })
+                      }}
+                    >
+                      <RotateCcw className="mr-1 h-4 w-4" />
+                      Replay
+                    </Button>
+                  )}
+                </div>
+              </div>
+              <p className="mt-1 text-gray-500">
+                {delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'}
+                {delivery.status === WebhookDeliveryStatus.PENDING && delivery.nextAttemptAt &&
+                  ` · next attempt ${formatDeliveryTime(delivery.nextAttemptAt)}`}
+                {delivery.error && ` · ${delivery.error}`}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {data && data.pagination.totalPages > 1 && (
+        <div className="flex items-center justify-end gap-2 text-sm">
+          <Button size="sm" variant="outline" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+            Previous
+          </Button>
+          <span className="text-gray-600 dark:text-gray-400">
+            Page {page} of {data.pagination.totalPages}
+          </span>
+          <Button size="sm" variant="outline" disabled={page >= data.pagination.totalPages} onClick={() => setPage(page + 1)}>
+            Next
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
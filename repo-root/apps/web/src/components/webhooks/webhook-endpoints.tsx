@@ -0,0 +1,235 @@
+'use client'
+
+import { useState } from 'react'
+import { KeyRound, Plus, Trash2, Webhook } from 'lucide-react'
+import { Button } from '@locumtruerate/ui'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { trpc } from '@/providers/trpc-provider'
+import {
+  WEBHOOK_EVENT_LABELS,
+  WEBHOOK_SIGNATURE_HEADER,
+  WebhookEventType
+} from '@locumtruerate/types'
+import { WebhookDeliveryLog } from './webhook-delivery-log'
+
+function EventCheckboxes({
+  selected,
+  onChange
+}: {
+  selected: WebhookEventType[]
+  onChange: (events: WebhookEventType[]) => void
+}) {
+  return (
+    <div className="grid gap-2 sm:grid-cols-2">
+      {Object.values(WebhookEventType).map(event => (
+        <label key={event} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={selected.includes(event)}
+            onChange={(e) => onChange(e.target.checked ? [...selected, event] : selected.filter(value => value !== event))}
+            className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600"
+          />
+          {WEBHOOK_EVENT_LABELS[event]}
+          <code className="text-xs text-gray-500">{event}</code>
+        </label>
+      ))}
+    </div>
+  )
+}
+
+/**
+ * An organization's webhook endpoints: register, pick events, rotate the
+ * signing secret, disable or remove, and browse each endpoint's deliveries
+ */
+export function WebhookEndpoints({ organizationId }: { organizationId: string }) {
+  const { data: endpoints, isLoading, refetch } = trpc.webhooks.listEndpoints.useQuery({ organizationId })
+  const [form, setForm] = useState({ url: '', description: '', events: [] as WebhookEventType[] })
+  const [showForm, setShowForm] = useState(false)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  // A new secret is only shown once, right after it is created
+  const [revealed, setRevealed] = useState<{ id: string; secret: string } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const onError = (error: { message: string }) => setError(error.message)
+
+  const create = trpc.webhooks.createEndpoint.useMutation({
+    onSuccess: (endpoint) => {
+      setRevealed({ id: endpoint.id, secret: endpoint.secret })
+      setForm({ url: '', description: '', events: [] })
+      setShowForm(false)
+      setSelectedId(endpoint.id)
+      refetch()
+    },
+    onError
+  })
+  const update = trpc.webhooks.updateEndpoint.useMutation({ onSuccess: () => refetch(), onError })
+  const remove = trpc.webhooks.deleteEndpoint.useMutation({ onSuccess: () => refetch(), onError })
+  const rotate = trpc.webhooks.rotateSecret.useMutation({
+    onSuccess: (endpoint) => {
+      setRevealed({ id: endpoint.id, secret: endpoint.secret })
+      refetch()
+    },
+    onError
+  })
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Webhook className="h-5 w-5" />
+            Webhooks
+          </CardTitle>
+          <Button size="sm" variant="outline" onClick={() => setShowForm(!showForm)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add endpoint
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Each event is POSTed as JSON. Verify the <code>{WEBHOOK_SIGNATURE_HEADER}</code> header: an
+          HMAC-SHA256 of <code>{'<t>.<body>'}</code> with your signing secret. Failed deliveries are retried with
+          increasing delays for about six hours.
+        </p>
+
+        {showForm && (
+          <form
+            className="space-y-4 border border-gray-200 dark:border-gray-700 rounded-lg p-4"
+            onSubmit={(e) => {
+              e.preventDefault()
+              setError(null)
+              create.mutate({
+                organizationId,
+                url: form.url,
+                description: form.description || undefined,
+                events: form.events
+              })
+            }}
+          >
+            <div>
+              <Label htmlFor="webhookUrl">Endpoint URL</Label>
+              <Input
+                id="webhookUrl"
+                type="url"
+                value={form.url}
+                onChange={(e) => setForm(prev => ({ ...prev, url: e.target.value }))}
+                placeholder="https://example.com/webhooks/locumtruerate"
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="webhookDescription">Description</Label>
+              <Input
+                id="webhookDescription"
+                value={form.description}
+                onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+                placeholder="e.g. ATS sync"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Events</Label>
+              <EventCheckboxes selected={form.events} onChange={(events) => setForm(prev => ({ ...prev, events }))} />
+            </div>
+            <Button type="submit" size="sm" disabled={create.isLoading || form.events.length === 0}>
+              Create endpoint
+            </Button>
+          </form>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {isLoading ? (
+          <div className="h-24 bg-gray-100 dark:bg-gray-700 rounded-lg animate-pulse" />
+        ) : !endpoints?.length ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400">No webhook endpoints yet.</p>
+        ) : (
+          endpoints.map(endpoint => (
+            <div key={endpoint.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-3">
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div>
+                  <p className="font-medium text-gray-900 dark:text-white break-all">{endpoint.url}</p>
+                  {endpoint.description && (
+                    <p className="text-sm text-gray-600 dark:text-gray-400">{endpoint.description}</p>
+                  )}
+                  <p className="text-xs text-gray-500">
+                    Secret {endpoint.secretHint}
+                    {endpoint.previousSecretExpiresAt && new Date(endpoint.previousSecretExpiresAt) > new Date() &&
+                      ` · previous secret valid until ${new Date(endpoint.previousSecretExpiresAt).toLocaleString()}`}
+                  </p>
+                </div>
+                <Badge variant={endpoint.enabled ? 'green' : 'gray'}>{endpoint.enabled ? 'Enabled' : 'Disabled'}</Badge>
+              </div>
+
+              {revealed && revealed.id === endpoint.id && (
+                <div className="rounded-lg bg-yellow-50 dark:bg-yellow-900/30 p-3 text-sm">
+                  <p className="text-yellow-800 dark:text-yellow-300">
+                    Copy this signing secret now; it will not be shown again.
+                  </p>
+                  <code className="break-all text-gray-900 dark:text-white">{revealed.secret}</code>
+                </div>
+              )}
+
+              <EventCheckboxes
+                selected={endpoint.events as WebhookEventType[]}
+                onChange={(events) => {
+                  setError(null)
+                  if (events.length > 0) update.mutate({ id: endpoint.id, events })
+                }}
+              />
+
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setSelectedId(selectedId === endpoint.id ? null : endpoint.id)}
+                >
+                  {selectedId === endpoint.id ? 'Hide deliveries' : 'Deliveries'}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={update.isLoading}
+                  onClick={() => update.mutate({ id: endpoint.id, enabled: !endpoint.enabled })}
+                >
+                  {endpoint.enabled ? 'Disable' : 'Enable'}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={rotate.isLoading}
+                  onClick={() => {
+                    if (confirm('Rotate the signing secret? The current secret keeps working for 24 hours.')) {
+                      rotate.mutate({ id: endpoint.id })
+                    }
+                  }}
+                >
+                  <KeyRound className="mr-2 h-4 w-4" />
+                  Rotate secret
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={remove.isLoading}
+                  onClick={() => {
+                    if (confirm('Delete this endpoint and its delivery log?')) {
+                      remove.mutate({ id: endpoint.id })
+                    }
+                  }}
+                >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Delete
+                </Button>
+              </div>
+
+              {selectedId === endpoint.id && <WebhookDeliveryLog endpointId={endpoint.id} />}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  )
+}
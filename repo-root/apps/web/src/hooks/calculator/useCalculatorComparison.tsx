@@ -6,7 +6,9 @@ import {
   ContractInput,
   ContractCalculationResult,
   ContractComparisonResult,
-  CalculationHistoryItem
+  CalculationHistoryItem,
+  ScoringProfileInput,
+  DEFAULT_SCORING_PROFILE
 } from '@locumtruerate/calc-core'
 
 export interface ComparisonItem {
@@ -21,6 +23,8 @@ export interface ComparisonItem {
 export interface UseCalculatorComparisonOptions {
   maxComparisons?: number
   autoCalculate?: boolean
+  // Initial scoring profile, e.g. the user's saved default
+  scoringProfile?: ScoringProfileInput
 }
 
 export function useCalculatorComparison(options: UseCalculatorComparisonOptions = {}) {
@@ -29,6 +33,9 @@ export function useCalculatorComparison(options: UseCalculatorComparisonOptions
   const [comparisonResult, setComparisonResult] = useState<ContractComparisonResult | null>(null)
   const [isComparing, setIsComparing] = useState(false)
   const [error, setError] = useState<Error | null>(null)
+  const [scoringProfile, setScoringProfile] = useState<ScoringProfileInput>(
+    options.scoringProfile || DEFAULT_SCORING_PROFILE
+  )
   
   // Initialize comparison engine
   const comparisonEngine = useMemo(() => new ContractComparisonEngine(), [])
@@ -140,14 +147,14 @@ export function useCalculatorComparison(options: UseCalculatorComparisonOptions
     
     try {
       const inputs = validContracts.map(c => c.input)
-      const result = await comparisonEngine.compareContracts(inputs)
+      const result = await comparisonEngine.compareContracts(inputs, scoringProfile)
       setComparisonResult(result)
     } catch (error) {
       setError(error as Error)
     } finally {
       setIsComparing(false)
     }
-  }, [comparisons, comparisonEngine])
+  }, [comparisons, comparisonEngine, scoringProfile])
   
   // Calculate all contracts
   const calculateAll = useCallback(async () => {
@@ -173,7 +180,7 @@ export function useCalculatorComparison(options: UseCalculatorComparisonOptions
     if (validContracts.length < 2) return null
     
     const calculations = validContracts.map(c => c.result!)
-    const { ranking, scores } = comparisonEngine.rankContracts(calculations, criteria)
+    const { ranking, scores } = comparisonEngine.rankContracts(calculations, criteria, scoringProfile)
     
     return ranking.map(index => ({
       id: validContracts[index].id,
@@ -181,7 +188,7 @@ export function useCalculatorComparison(options: UseCalculatorComparisonOptions
       score: scores[index],
       rank: ranking.indexOf(index) + 1
     }))
-  }, [comparisons, comparisonEngine])
+  }, [comparisons, comparisonEngine, scoringProfile])
   
   // Get comparison metrics
   const getMetrics = useCallback(() => {
@@ -259,6 +266,7 @@ export function useCalculatorComparison(options: UseCalculatorComparisonOptions
     isComparing,
     error,
     comparisonState,
+    scoringProfile,
     
     // Methods
     addToComparison,
@@ -273,6 +281,7 @@ export function useCalculatorComparison(options: UseCalculatorComparisonOptions
     getMetrics,
     compareTwo,
     calculateBreakEven,
+    setScoringProfile,
     
     // Constants
     maxComparisons
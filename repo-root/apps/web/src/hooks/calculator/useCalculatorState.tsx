@@ -4,6 +4,7 @@ import { useState, useCallback, useEffect, useMemo } from 'react'
 import { 
   CalculationHistoryManager, 
   CalculationHistoryItem,
+  CalculationSyncClient,
   ContractCalculationResult,
   PaycheckCalculationResult,
   ContractInput,
@@ -23,6 +24,8 @@ export interface CalculatorState {
   // Loading states
   isLoadingHistory: boolean
   isSavingCalculation: boolean
+  isSyncingHistory: boolean
+  lastSyncedAt: Date | null
   
   // Error states
   error: Error | null
@@ -32,19 +35,25 @@ export interface UseCalculatorStateOptions {
   storage?: 'localStorage' | 'indexedDB'
   autoSave?: boolean
   maxHistoryItems?: number
+  // The API's calculations.sync, e.g. from trpc.useContext().client. With it,
+  // signed-in history syncs with the user's saved calculations so it follows
+  // them between devices. Keep it stable across renders.
+  syncClient?: CalculationSyncClient
 }
 
 export function useCalculatorState(options: UseCalculatorStateOptions = {}) {
   const { user } = useUser()
   const userId = user?.id
+  const syncClient = userId ? options.syncClient : undefined
   
   // Initialize history manager with user context
   const historyManager = useMemo(() => {
     return new CalculationHistoryManager({
       storage: options.storage || 'indexedDB',
-      userId
+      userId,
+      syncClient
     })
-  }, [userId, options.storage])
+  }, [userId, options.storage, syncClient])
   
   // State
   const [state, setState] = useState<CalculatorState>({
@@ -54,6 +63,8 @@ export function useCalculatorState(options: UseCalculatorStateOptions = {}) {
     savedCalculations: [],
     isLoadingHistory: false,
     isSavingCalculation: false,
+    isSyncingHistory: false,
+    lastSyncedAt: null,
     error: null
   })
   
@@ -89,6 +100,32 @@ export function useCalculatorState(options: UseCalculatorStateOptions = {}) {
     }
   }, [historyManager])
   
+  // Sync history with the server, then reload it
+  const syncHistory = useCallback(async () => {
+    setState(prev => ({ ...prev, isSyncingHistory: true }))
+    
+    try {
+      const result = await historyManager.sync()
+      setState(prev => ({
+        ...prev,
+        isSyncingHistory: false,
+        lastSyncedAt: result?.syncedAt ?? prev.lastSyncedAt
+      }))
+      await Promise.all([loadHistory(), loadSavedCalculations()])
+    } catch (error) {
+      // Local history keeps working; changes go up on the next sync
+      console.error('Failed to sync calculation history:', error)
+      setState(prev => ({ ...prev, isSyncingHistory: false }))
+    }
+  }, [historyManager, loadHistory, loadSavedCalculations])
+  
+  // Sync on sign-in and whenever the signed-in user changes
+  useEffect(() => {
+    if (syncClient) {
+      syncHistory()
+    }
+  }, [syncClient, syncHistory])
+  
   // Save contract calculation
   const saveContractCalculation = useCallback(async (
     input: ContractInput,
@@ -324,6 +361,7 @@ export function useCalculatorState(options: UseCalculatorStateOptions = {}) {
     
     // Refresh methods
     refreshHistory: loadHistory,
-    refreshSavedCalculations: loadSavedCalculations
+    refreshSavedCalculations: loadSavedCalculations,
+    syncHistory
   }
 }
\ No newline at end of file
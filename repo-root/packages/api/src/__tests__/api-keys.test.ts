@@ -0,0 +1,129 @@
+import { ApiKeyScope } from '@locumtruerate/types'
+import {
+  API_KEY_PREFIX,
+  ApiKeyService,
+  apiKeyPrefix,
+  generateApiKey,
+  hasApiAccess,
+  hasScope,
+  hashApiKey
+} from '../services/api-keys'
+import { createMockDb } from './mock-db'
+
+// The payments router pulls in tRPC and Stripe; only the tier table is needed
+jest.mock('../routers/payments', () => ({
+  SUBSCRIPTION_TIERS: {
+    FREE: { apiAccess: false },
+    PRO: { apiAccess: false },
+    ENTERPRISE: { apiAccess: true }
+  }
+}))
+
+const now = new Date('2026-10-19T12:00:00Z')
+
+describe('API key helpers', () => {
+  it('generates distinct keys that are stored only as hashes', () => {
+    const key = generateApiKey()
+
+    expect(key.startsWith(API_KEY_PREFIX)).toBe(true)
+    expect(generateApiKey()).not.toBe(key)
+    expect(hashApiKey(key)).toMatch(/^[0-9a-f]{64}$/)
+    expect(hashApiKey(key)).toBe(hashApiKey(key))
+    expect(apiKeyPrefix(key)).toBe(key.slice(0, API_KEY_PREFIX.length + 4))
+  })
+
+  it('checks scopes', () => {
+    const permissions = [ApiKeyScope.JOBS_READ]
+
+    expect(hasScope(permissions, ApiKeyScope.JOBS_READ)).toBe(true)
+    expect(hasScope(permissions, ApiKeyScope.JOBS_WRITE)).toBe(false)
+  })
+
+  it('gives API access to active Enterprise subscriptions only', () => {
+    expect(hasApiAccess({ subscriptionTier: 'ENTERPRISE', subscriptionStatus: 'active' })).toBe(true)
+    expect(hasApiAccess({ subscriptionTier: 'ENTERPRISE', subscriptionStatus: 'past_due' })).toBe(false)
+    expect(hasApiAccess({ subscriptionTier: 'PRO', subscriptionStatus: 'active' })).toBe(false)
+    expect(hasApiAccess({ subscriptionTier: null })).toBe(false)
+  })
+})
+
+describe('ApiKeyService', () => {
+  const key = `${API_KEY_PREFIX}${'a'.repeat(48)}`
+  const stored = {
+    id: 'key-1',
+    userId: 'user-1',
+    key: hashApiKey(key),
+    permissions: [ApiKeyScope.JOBS_READ, ApiKeyScope.CALCULATIONS_RUN],
+    rateLimit: 120,
+    lastUsedAt: null as Date | null,
+    expiresAt: null as Date | null,
+    revokedAt: null as Date | null,
+    user: { id: 'user-1', role: 'EMPLOYER', subscriptionTier: 'ENTERPRISE', subscriptionStatus: 'active', deletedAt: null }
+  }
+
+  const createDb = (apiKey: object | null = stored) => createMockDb({
+    apiKey: {
+      create: jest.fn(async ({ data }) => ({ id: 'key-2', createdAt: now, ...data })),
+      findUnique: jest.fn().mockResolvedValue(apiKey),
+      update: jest.fn()
+    }
+  })
+
+  it('stores the hash and prefix, and returns the key once', async () => {
+    const db = createDb()
+
+    const { apiKey, key: created } = await new ApiKeyService(db).create('user-1', {
+      name: 'ATS sync',
+      permissions: [ApiKeyScope.JOBS_READ]
+    })
+
+    expect(apiKey.key).toBe(hashApiKey(created))
+    expect(apiKey.key).not.toBe(created)
+    expect(apiKey).toMatchObject({ prefix: apiKeyPrefix(created), rateLimit: 60, permissions: [ApiKeyScope.JOBS_READ] })
+  })
+
+  it('authenticates a key by its hash and records its use', async () => {
+    const db = createDb()
+
+    const result = await new ApiKeyService(db).authenticate(key, now)
+
+    expect(db.apiKey.findUnique).toHaveBeenCalledWith(expect.objectContaining({ where: { key: hashApiKey(key) } }))
+    expect(result).toEqual({
+      ok: true,
+      apiKey: {
+        id: 'key-1',
+        userId: 'user-1',
+        userRole: 'EMPLOYER',
+        permissions: stored.permissions,
+        rateLimit: 120
+      }
+    })
+    expect(db.apiKey.update).toHaveBeenCalledWith({ where: { id: 'key-1' }, data: { lastUsedAt: now } })
+  })
+
+  it('writes lastUsedAt at most once a minute', async () => {
+    const db = createDb({ ...stored, lastUsedAt: new Date(now.getTime() - 30_000) })
+
+    expect((await new ApiKeyService(db).authenticate(key, now)).ok).toBe(true)
+    expect(db.apiKey.update).not.toHaveBeenCalled()
+  })
+
+  it.each([
+    ['unknown', null, 'invalid'],
+    ['revoked', { ...stored, revokedAt: new Date('2026-10-01') }, 'revoked'],
+    ['expired', { ...stored, expiresAt: new Date('2026-10-19T11:00:00Z') }, 'expired'],
+    ['downgraded', { ...stored, user: { ...stored.user, subscriptionTier: 'PRO' } }, 'no_api_access']
+  ])('rejects %s keys', async (_label, apiKey, reason) => {
+    const db = createDb(apiKey)
+
+    expect(await new ApiKeyService(db).authenticate(key, now)).toEqual({ ok: false, reason })
+    expect(db.apiKey.update).not.toHaveBeenCalled()
+  })
+
+  it('rejects keys without the prefix without a lookup', async () => {
+    const db = createDb()
+
+    expect(await new ApiKeyService(db).authenticate('not-a-key', now)).toEqual({ ok: false, reason: 'invalid' })
+    expect(db.apiKey.findUnique).not.toHaveBeenCalled()
+  })
+})
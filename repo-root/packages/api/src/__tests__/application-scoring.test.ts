@@ -0,0 +1,182 @@
+import {
+  ApplicationScoreCriterion,
+  BoardCertificationRequirement,
+  ClinicalCertification,
+  CredentialType,
+  Profession
+} from '@locumtruerate/types'
+import {
+  inferProfession,
+  parseExpectedPay,
+  parseNoticePeriod,
+  rescoreJobApplications,
+  scoreApplication
+} from '../services/application-scoring'
+import { createMockDb } from './mock-db'
+
+const now = new Date('2026-10-19T12:00:00Z')
+
+const job = {
+  profession: Profession.PHYSICIAN,
+  specialty: 'Emergency Medicine',
+  subspecialty: null,
+  boardCertification: BoardCertificationRequirement.BOARD_CERTIFIED,
+  requiredLicenseStates: ['CA', 'NV'],
+  requiredCertifications: [ClinicalCertification.ACLS],
+  minExperienceYears: 4,
+  compensation: { payBasis: 'HOURLY', rateMin: 200, rateMax: 250 },
+  assignmentStartDate: new Date('2026-11-15T00:00:00Z'),
+  latestStartDate: null
+}
+
+const strongApplication = {
+  experience: 6,
+  currentRole: 'Emergency Medicine physician',
+  coverLetter: 'I have worked nights in two level I trauma centers.',
+  specialty: 'Emergency Medicine',
+  licenseStates: [],
+  expectedSalary: '$240/hr',
+  noticePeriod: '2 weeks',
+  appliedAt: now,
+  credentials: [
+    { type: CredentialType.STATE_LICENSE, name: 'California Medical License', issuingState: 'CA', verificationStatus: 'VERIFIED' },
+    { type: CredentialType.STATE_LICENSE, name: 'Nevada Medical License', issuingState: 'NV', verificationStatus: 'UNVERIFIED' },
+    { type: CredentialType.BOARD_CERTIFICATION, name: 'ABEM' },
+    { type: CredentialType.LIFE_SUPPORT_CERTIFICATION, name: 'ACLS Provider' }
+  ]
+}
+
+const itemFor = (result: ReturnType<typeof scoreApplication>, criterion: ApplicationScoreCriterion) =>
+  result.breakdown.items.find(entry => entry.criterion === criterion)!
+
+describe('scoreApplication', () => {
+  it('gives a full score to an application that meets every requirement', () => {
+    const result = scoreApplication(strongApplication, job, now)
+
+    expect(result.score).toBe(100)
+    expect(result.breakdown.maxPoints).toBe(100)
+    expect(result.breakdown.items.every(entry => entry.applicable)).toBe(true)
+  })
+
+  it('is deterministic', () => {
+    expect(scoreApplication(strongApplication, job, now)).toEqual(scoreApplication(strongApplication, job, now))
+  })
+
+  it('explains each shortfall', () => {
+    const result = scoreApplication({
+      ...strongApplication,
+      experience: 2,
+      currentRole: 'Registered nurse',
+      specialty: 'Pediatrics',
+      licenseStates: ['NV'],
+      expectedSalary: '$275/hr',
+      noticePeriod: '6 weeks',
+      credentials: [strongApplication.credentials[0]]
+    }, job, now)
+
+    expect(itemFor(result, ApplicationScoreCriterion.EXPERIENCE)).toMatchObject({ points: 10, detail: '2 of the 4 years required' })
+    expect(itemFor(result, ApplicationScoreCriterion.PROFESSION)).toMatchObject({ points: 0 })
+    expect(itemFor(result, ApplicationScoreCriterion.SPECIALTY).detail).toBe('Specializes in Pediatrics; job is in Emergency Medicine')
+    expect(itemFor(result, ApplicationScoreCriterion.LICENSES)).toMatchObject({
+      points: 17.5,
+      detail: 'Licensed in CA; reports a license in NV'
+    })
+    expect(itemFor(result, ApplicationScoreCriterion.CERTIFICATIONS)).toMatchObject({
+      points: 0,
+      detail: 'Missing ACLS, Board certification'
+    })
+    expect(itemFor(result, ApplicationScoreCriterion.EXPECTED_PAY)).toMatchObject({ points: 6 })
+    expect(itemFor(result, ApplicationScoreCriterion.AVAILABILITY).detail).toBe('Available 16 days after the start date')
+    expect(result.score).toBeLessThan(50)
+  })
+
+  it('leaves requirements the job does not set out of the score', () => {
+    const result = scoreApplication(strongApplication, {
+      specialty: 'Emergency Medicine',
+      requiredLicenseStates: ['TX']
+    }, now)
+
+    expect(result.breakdown.maxPoints).toBe(40)
+    expect(result.score).toBe(50)
+    expect(itemFor(result, ApplicationScoreCriterion.EXPERIENCE).applicable).toBe(false)
+  })
+
+  it('has no score when the job sets no requirements', () => {
+    expect(scoreApplication(strongApplication, {}, now).score).toBeNull()
+  })
+
+  it('ignores expired and rejected credentials', () => {
+    const result = scoreApplication({
+      ...strongApplication,
+      credentials: [
+        { ...strongApplication.credentials[0], expiresAt: new Date('2026-01-01T00:00:00Z') },
+        { ...strongApplication.credentials[1], verificationStatus: 'REJECTED' }
+      ]
+    }, { requiredLicenseStates: ['CA', 'NV'] }, now)
+
+    expect(result.score).toBe(0)
+  })
+
+  it('gives half credit for answers left blank', () => {
+    const result = scoreApplication({ ...strongApplication, expectedSalary: undefined, noticePeriod: undefined }, job, now)
+
+    expect(itemFor(result, ApplicationScoreCriterion.EXPECTED_PAY)).toMatchObject({ points: 5, detail: 'Expected pay not given' })
+    expect(itemFor(result, ApplicationScoreCriterion.AVAILABILITY).points).toBe(2.5)
+  })
+})
+
+describe('free-text parsing', () => {
+  it('reads expected pay', () => {
+    expect(parseExpectedPay('$250/hr')).toEqual({ amount: 250, payBasis: 'HOURLY' })
+    expect(parseExpectedPay('2,000 per shift')).toEqual({ amount: 2000, payBasis: 'SHIFT' })
+    expect(parseExpectedPay('320k')).toEqual({ amount: 320000, payBasis: 'ANNUAL' })
+    expect(parseExpectedPay('5000')).toEqual({ amount: 5000, payBasis: null })
+    expect(parseExpectedPay('negotiable')).toBeNull()
+  })
+
+  it('reads notice periods', () => {
+    expect(parseNoticePeriod('Immediately')).toBe(0)
+    expect(parseNoticePeriod('2 weeks')).toBe(14)
+    expect(parseNoticePeriod('30 days notice')).toBe(30)
+    expect(parseNoticePeriod('1 month')).toBe(30)
+    expect(parseNoticePeriod('depends')).toBeNull()
+  })
+
+  it('infers the profession from the current role', () => {
+    expect(inferProfession('CRNA')).toBe(Profession.CRNA)
+    expect(inferProfession('Family NP')).toBe(Profession.NURSE_PRACTITIONER)
+    expect(inferProfession('PA-C, urgent care')).toBe(Profession.PHYSICIAN_ASSISTANT)
+    expect(inferProfession('Hospitalist, Erie PA')).toBe(Profession.PHYSICIAN)
+    expect(inferProfession('ICU nurse')).toBe(Profession.REGISTERED_NURSE)
+    expect(inferProfession('Anesthesiologist')).toBe(Profession.PHYSICIAN)
+    expect(inferProfession('Locum')).toBeNull()
+  })
+})
+
+describe('rescoreJobApplications', () => {
+  it('stores the new score and breakdown for every application', async () => {
+    const db = createMockDb({
+      job: { findUnique: jest.fn().mockResolvedValue(job) },
+      application: {
+        findMany: jest.fn().mockResolvedValue([
+          { ...strongApplication, id: 'app-1', credentials: strongApplication.credentials.map(credential => ({ credential })) },
+          { ...strongApplication, id: 'app-2', experience: 1, credentials: [] }
+        ]),
+        update: jest.fn()
+      }
+    })
+
+    expect(await rescoreJobApplications(db, 'job-1', now)).toBe(2)
+    expect(db.application.update).toHaveBeenCalledWith({
+      where: { id: 'app-1' },
+      data: expect.objectContaining({ score: 100, scoredAt: now })
+    })
+    expect(db.application.update).toHaveBeenCalledWith({
+      where: { id: 'app-2' },
+      data: expect.objectContaining({
+        score: expect.any(Number),
+        scoreBreakdown: expect.objectContaining({ version: 1 })
+      })
+    })
+  })
+})
@@ -0,0 +1,263 @@
+import bcrypt from 'bcryptjs'
+import type { ZodTypeAny } from 'zod'
+import { ContractInputSchema, PaycheckInputSchema } from '@locumtruerate/calc-core'
+import { CalculationShareLinkStatus } from '@locumtruerate/types'
+import {
+  CalculationShareService,
+  MAX_FAILED_PASSWORD_ATTEMPTS,
+  PASSWORD_LOCKOUT_MS,
+  PERSONAL_CALCULATION_FIELDS,
+  calculationHeadline,
+  generateShareToken,
+  redactCalculation,
+  shareLinkStatus
+} from '../services/calculation-sharing'
+import { createMockDb } from './mock-db'
+
+const now = new Date('2026-10-19T12:00:00Z')
+
+const contractInput = {
+  title: 'ER nights',
+  hourlyRate: 210,
+  location: { state: 'TX', city: 'Dallas' },
+  taxInfo: { filingStatus: 'MARRIED_JOINT', federalExemptions: 2 },
+  deductions: { healthInsurance: 400 },
+  retirement: { electiveDeferral: 23000 }
+}
+
+const contractResult = {
+  contract: contractInput,
+  totals: { grossAnnualPay: 436800, netAnnualPay: 301234.5, totalDeductions: 4800, totalTaxes: 130765.5 },
+  breakdown: { basePay: 436800, deductions: { healthInsurance: 4800 } }
+}
+
+// Calculator input fields a redacted link still shows: the assignment, its
+// pay and where the work is done
+const SHAREABLE_CALCULATION_FIELDS = [
+  'title', 'specialty', 'location', 'state', 'city', 'zipCode',
+  'contractType', 'startDate', 'endDate', 'duration', 'workerClassification',
+  'hourlyRate', 'hoursPerWeek', 'overtimeRate', 'overtimeThreshold', 'callPay', 'rate',
+  'bonuses', 'type', 'amount', 'description',
+  'stipends', 'housing', 'travel', 'meals', 'licensure', 'malpractice', 'cme', 'other',
+  'multiState', 'apportionBy', 'workStates', 'days', 'hours',
+  'grossPay', 'payFrequency', 'payDate', 'workState', 'workCity', 'workZipCode'
+]
+
+// Field names in a schema, without looking inside personal fields (they are
+// removed whole)
+function shownFieldNames(schema: ZodTypeAny): string[] {
+  const { typeName, innerType, schema: refined, type, shape } = schema._def
+  if (innerType) return shownFieldNames(innerType)
+  if (refined) return shownFieldNames(refined)
+  if (typeName === 'ZodArray') return shownFieldNames(type)
+  if (typeName !== 'ZodObject') return []
+
+  return Object.entries(shape() as Record<string, ZodTypeAny>).flatMap(([key, value]) =>
+    PERSONAL_CALCULATION_FIELDS.has(key) ? [] : [key, ...shownFieldNames(value)]
+  )
+}
+
+describe('share link helpers', () => {
+  it('generates unguessable url-safe tokens', () => {
+    const token = generateShareToken()
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]{32}$/)
+    expect(generateShareToken()).not.toBe(token)
+  })
+
+  it('removes personal fields wherever they appear', () => {
+    const redacted = redactCalculation(contractResult)
+
+    expect(redacted.contract).toEqual({ title: 'ER nights', hourlyRate: 210, location: { state: 'TX', city: 'Dallas' } })
+    expect(redacted.totals).toEqual({ grossAnnualPay: 436800, netAnnualPay: 301234.5, totalTaxes: 130765.5 })
+    expect(redacted.breakdown).toEqual({ basePay: 436800 })
+    expect(redactCalculation({ filingStatus: 'SINGLE', grossPay: 5000, ytdGross: 60000 })).toEqual({ grossPay: 5000 })
+    expect(redactCalculation({ grossPay: 5000, w4: { dependentsCredit: 4000, otherIncome: 12000 } })).toEqual({ grossPay: 5000 })
+  })
+
+  it('classifies every calculator input field as personal or shareable', () => {
+    const shown = new Set([...shownFieldNames(ContractInputSchema), ...shownFieldNames(PaycheckInputSchema)])
+
+    expect([...shown].filter(field => !SHAREABLE_CALCULATION_FIELDS.includes(field))).toEqual([])
+  })
+
+  it('hides home states and 1099 business expenses', () => {
+    const input = {
+      hourlyRate: 210,
+      multiState: { homeState: 'FL', apportionBy: 'DAYS', workStates: [{ state: 'GA', days: 120 }] },
+      businessExpenses: { malpracticeInsurance: 9000 }
+    }
+
+    expect(redactCalculation(input)).toEqual({
+      hourlyRate: 210,
+      multiState: { apportionBy: 'DAYS', workStates: [{ state: 'GA', days: 120 }] }
+    })
+  })
+
+  it('derives link status from revocation and expiry', () => {
+    expect(shareLinkStatus({}, now)).toBe(CalculationShareLinkStatus.ACTIVE)
+    expect(shareLinkStatus({ expiresAt: new Date('2026-10-19T11:00:00Z') }, now)).toBe(CalculationShareLinkStatus.EXPIRED)
+    expect(shareLinkStatus({ revokedAt: new Date('2026-10-18') }, now)).toBe(CalculationShareLinkStatus.REVOKED)
+  })
+
+  it('picks the headline figure by calculation type', () => {
+    expect(calculationHeadline('contract', contractResult)).toEqual({ label: 'Annual take-home', amount: 301234.5 })
+    expect(calculationHeadline('paycheck', { currentPay: { netPay: '3120.55' } })).toEqual({ label: 'Net pay', amount: 3120.55 })
+    expect(calculationHeadline('comparison', {})).toBeNull()
+  })
+})
+
+describe('CalculationShareService', () => {
+  const link = {
+    id: 'link-1',
+    calculationId: 'calc-1',
+    token: 'tok',
+    redactPersonal: true,
+    passwordHash: null as string | null,
+    failedPasswordAttempts: 0,
+    lockedUntil: null as Date | null,
+    expiresAt: null as Date | null,
+    revokedAt: null as Date | null,
+    createdBy: 'recruiter-1',
+    createdAt: new Date('2026-10-18T09:00:00Z'),
+    calculation: { type: 'contract', name: 'Dallas ER', input: contractInput, result: contractResult }
+  }
+
+  const createDb = (found: object | null = link) => createMockDb({
+    calculationShareLink: {
+      create: jest.fn(async ({ data }) => ({ id: 'link-2', createdAt: now, ...data })),
+      findUnique: jest.fn().mockResolvedValue(found),
+      findMany: jest.fn(),
+      update: jest.fn().mockResolvedValue({ failedPasswordAttempts: 1 })
+    }
+  })
+
+  it('stores only a hash of the password', async () => {
+    const db = createDb()
+
+    const created = await new CalculationShareService(db).createLink('calc-1', 'recruiter-1', {
+      redactPersonal: true,
+      password: 'hunter22'
+    })
+
+    expect(created.token).toHaveLength(32)
+    expect(created.passwordHash).not.toBe('hunter22')
+    expect(await bcrypt.compare('hunter22', created.passwordHash)).toBe(true)
+  })
+
+  it('opens a link with redaction and counts the view', async () => {
+    const db = createDb()
+
+    const result = await new CalculationShareService(db).open('tok', undefined, {
+      userId: 'candidate-1',
+      userAgent: 'Mozilla/5.0'
+    }, now)
+
+    expect(result.status).toBe('ok')
+    if (result.status !== 'ok') return
+    expect(result.calculation).toMatchObject({ type: 'contract', name: 'Dallas ER', redacted: true })
+    expect(result.calculation.input).not.toHaveProperty('taxInfo')
+    expect(result.calculation.input).not.toHaveProperty('deductions')
+    expect(db.calculationShareLink.update).toHaveBeenCalledWith({
+      where: { id: 'link-1' },
+      data: {
+        viewCount: { increment: 1 },
+        lastViewedAt: now,
+        views: { create: { viewedAt: now, userAgent: 'Mozilla/5.0', referrer: undefined } }
+      }
+    })
+  })
+
+  it('does not count the creator opening their own link', async () => {
+    const db = createDb({ ...link, redactPersonal: false })
+
+    const result = await new CalculationShareService(db).open('tok', undefined, { userId: 'recruiter-1' }, now)
+
+    expect(result.status === 'ok' && result.calculation.input).toHaveProperty('taxInfo')
+    expect(db.calculationShareLink.update).not.toHaveBeenCalled()
+  })
+
+  it.each([
+    ['unknown', null, 'not_found'],
+    ['revoked', { ...link, revokedAt: new Date('2026-10-18T10:00:00Z') }, 'not_found'],
+    ['deleted', { ...link, calculation: { ...link.calculation, deletedAt: new Date('2026-10-18T10:00:00Z') } }, 'not_found'],
+    ['expired', { ...link, expiresAt: new Date('2026-10-19T00:00:00Z') }, 'expired']
+  ])('turns away %s links', async (_label, found, status) => {
+    const db = createDb(found)
+
+    expect(await new CalculationShareService(db).open('tok', undefined, {}, now)).toEqual({ status })
+    expect(db.calculationShareLink.update).not.toHaveBeenCalled()
+  })
+
+  it('asks for the password of protected links', async () => {
+    const db = createDb({ ...link, passwordHash: await bcrypt.hash('hunter22', 4) })
+    const service = new CalculationShareService(db)
+
+    expect(await service.open('tok', undefined, {}, now)).toEqual({ status: 'password_required' })
+    expect(await service.open('tok', 'wrong', {}, now)).toEqual({ status: 'invalid_password' })
+    expect((await service.open('tok', 'hunter22', {}, now)).status).toBe('ok')
+    expect(db.calculationShareLink.update).toHaveBeenCalledTimes(2)
+    expect(db.calculationShareLink.update).toHaveBeenNthCalledWith(1, {
+      where: { id: 'link-1' },
+      data: { failedPasswordAttempts: { increment: 1 } },
+      select: { failedPasswordAttempts: true }
+    })
+  })
+
+  it('locks a link after too many wrong passwords', async () => {
+    const db = createDb({ ...link, passwordHash: await bcrypt.hash('hunter22', 4) })
+    db.calculationShareLink.update.mockResolvedValue({ failedPasswordAttempts: MAX_FAILED_PASSWORD_ATTEMPTS })
+
+    expect(await new CalculationShareService(db).open('tok', 'wrong', {}, now)).toEqual({ status: 'locked' })
+    expect(db.calculationShareLink.update).toHaveBeenLastCalledWith({
+      where: { id: 'link-1' },
+      data: { failedPasswordAttempts: 0, lockedUntil: new Date(now.getTime() + PASSWORD_LOCKOUT_MS) }
+    })
+  })
+
+  it('turns away even the right password while a link is locked', async () => {
+    const db = createDb({
+      ...link,
+      passwordHash: await bcrypt.hash('hunter22', 4),
+      lockedUntil: new Date('2026-10-19T12:10:00Z')
+    })
+
+    expect(await new CalculationShareService(db).open('tok', 'hunter22', {}, now)).toEqual({ status: 'locked' })
+    expect(db.calculationShareLink.update).not.toHaveBeenCalled()
+  })
+
+  it('clears earlier failures once the right password is given', async () => {
+    const db = createDb({ ...link, passwordHash: await bcrypt.hash('hunter22', 4), failedPasswordAttempts: 3 })
+
+    expect((await new CalculationShareService(db).open('tok', 'hunter22', {}, now)).status).toBe('ok')
+    expect(db.calculationShareLink.update).toHaveBeenCalledWith({
+      where: { id: 'link-1' },
+      data: { failedPasswordAttempts: 0 }
+    })
+  })
+
+  it('limits password attempts per IP address', async () => {
+    const db = createDb({ ...link, passwordHash: await bcrypt.hash('hunter22', 4) })
+    const limiter = { checkLimit: jest.fn().mockResolvedValue({ allowed: false }) }
+
+    const result = await new CalculationShareService(db, limiter).open('tok', 'hunter22', {
+      ipAddress: '203.0.113.7'
+    }, now)
+
+    expect(result).toEqual({ status: 'locked' })
+    expect(limiter.checkLimit).toHaveBeenCalledWith('share-password:203.0.113.7')
+    expect(db.calculationShareLink.update).not.toHaveBeenCalled()
+  })
+
+  it('previews protected links without revealing the calculation', async () => {
+    const service = new CalculationShareService(createDb({ ...link, passwordHash: 'hash' }))
+
+    expect(await service.preview('tok', now)).toEqual({ protected: true, type: null, name: null, headline: null })
+    expect(await new CalculationShareService(createDb()).preview('tok', now)).toEqual({
+      protected: false,
+      type: 'contract',
+      name: 'Dallas ER',
+      headline: { label: 'Annual take-home', amount: 301234.5 }
+    })
+  })
+})
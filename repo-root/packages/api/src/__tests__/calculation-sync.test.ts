@@ -0,0 +1,193 @@
+import { CalculationSyncRecord, isCalculationTombstone, mergeCalculationSyncRecords } from '@locumtruerate/types'
+import { CalculationSyncService, decodeSyncCursor, encodeSyncCursor, toSyncRecord, touchFields } from '../services/calculation-sync'
+import { createMockDb } from './mock-db'
+
+const now = new Date('2026-10-19T12:00:00Z')
+const at = (time: string) => new Date(`2026-10-19T${time}Z`).getTime()
+
+const record = (overrides: Partial<CalculationSyncRecord> = {}): CalculationSyncRecord => ({
+  id: 'calc-1',
+  type: 'contract',
+  input: { hourlyRate: 200 },
+  result: { totals: { netAnnualPay: 280000 } },
+  name: 'Dallas ER',
+  tags: ['er'],
+  isFavorite: false,
+  metadata: { device: 'web' },
+  timestamp: at('08:00:00'),
+  fieldUpdatedAt: {},
+  deletedAt: null,
+  ...overrides
+})
+
+const row = (overrides: Record<string, any> = {}) => ({
+  id: 'calc-1',
+  userId: 'user-1',
+  type: 'contract',
+  input: { hourlyRate: 200 },
+  result: { totals: { netAnnualPay: 280000 } },
+  name: 'Dallas ER',
+  tags: ['er'],
+  isFavorite: false,
+  metadata: { device: 'web' },
+  timestamp: new Date(at('08:00:00')),
+  updatedAt: new Date(at('09:00:00')),
+  fieldUpdatedAt: null,
+  deletedAt: null,
+  ...overrides
+})
+
+describe('mergeCalculationSyncRecords', () => {
+  it('keeps the newer value of each field', () => {
+    const web = record({ name: 'Renamed on web', fieldUpdatedAt: { name: at('10:00:00'), isFavorite: at('09:00:00') } })
+    const phone = record({ isFavorite: true, name: 'Old name', fieldUpdatedAt: { name: at('09:30:00'), isFavorite: at('11:00:00') } })
+
+    const merged = mergeCalculationSyncRecords(web, phone)
+
+    expect(merged).toMatchObject({ name: 'Renamed on web', isFavorite: true })
+    expect(merged.fieldUpdatedAt).toMatchObject({ name: at('10:00:00'), isFavorite: at('11:00:00') })
+    expect(mergeCalculationSyncRecords(phone, web)).toMatchObject({ name: 'Renamed on web', isFavorite: true })
+  })
+
+  it('lets a delete win over older edits but not newer ones', () => {
+    const deleted = record({ deletedAt: at('10:00:00'), fieldUpdatedAt: { name: at('09:00:00') } })
+
+    expect(isCalculationTombstone(mergeCalculationSyncRecords(deleted, record({ fieldUpdatedAt: { tags: at('09:30:00') } })))).toBe(true)
+
+    const revived = mergeCalculationSyncRecords(deleted, record({ tags: ['revised'], fieldUpdatedAt: { tags: at('10:30:00') } }))
+    expect(isCalculationTombstone(revived)).toBe(false)
+    expect(revived.tags).toEqual(['revised'])
+  })
+})
+
+describe('calculation sync helpers', () => {
+  it('dates missing field clocks from the last update', () => {
+    const synced = toSyncRecord(row({ fieldUpdatedAt: { name: at('08:30:00') } }))
+
+    expect(synced.timestamp).toBe(at('08:00:00'))
+    expect(synced.fieldUpdatedAt.name).toBe(at('08:30:00'))
+    expect(synced.fieldUpdatedAt.input).toBe(at('09:00:00'))
+  })
+
+  it('touches only the edited fields', () => {
+    const clock = touchFields(row(), ['name', 'isPublic'], now)
+
+    expect(clock.name).toBe(now.getTime())
+    expect(clock.tags).toBe(at('09:00:00'))
+    expect(clock).not.toHaveProperty('isPublic')
+  })
+})
+
+describe('CalculationSyncService', () => {
+  // findMany looks up the pushed calculations, then pulls changes; with
+  // nothing pushed it only pulls
+  const createDb = (...results: object[][]) => createMockDb({
+    savedCalculation: {
+      findMany: results.reduce((mock, result) => mock.mockResolvedValueOnce(result), jest.fn().mockResolvedValue([])),
+      createMany: jest.fn(),
+      update: jest.fn()
+    }
+  })
+
+  it('creates calculations the server has not seen, keeping the device id', async () => {
+    const db = createDb()
+
+    await new CalculationSyncService(db).sync('user-1', {
+      changes: [record({ id: 'uuid-1' })],
+      since: encodeSyncCursor(at('07:00:00'))
+    }, now)
+
+    expect(db.savedCalculation.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ id: 'uuid-1', userId: 'user-1', name: 'Dallas ER', deletedAt: null })],
+      skipDuplicates: true
+    })
+  })
+
+  it('merges pushed edits into the stored calculation', async () => {
+    const db = createDb([row({ fieldUpdatedAt: { name: at('10:00:00') }, name: 'Server name' })])
+
+    await new CalculationSyncService(db).sync('user-1', {
+      changes: [record({ name: 'Stale name', isFavorite: true, fieldUpdatedAt: { name: at('09:30:00'), isFavorite: at('11:00:00') } })]
+    }, now)
+
+    const { data } = db.savedCalculation.update.mock.calls[0][0]
+    expect(data).toMatchObject({ name: 'Server name', isFavorite: true, deletedAt: null })
+  })
+
+  it('stores pushed deletes as tombstones', async () => {
+    const db = createDb([row()])
+
+    await new CalculationSyncService(db).sync('user-1', {
+      changes: [record({ deletedAt: at('11:00:00') })]
+    }, now)
+
+    expect(db.savedCalculation.update.mock.calls[0][0].data.deletedAt).toEqual(new Date(at('11:00:00')))
+  })
+
+  it('clamps device clocks that run ahead of the server', async () => {
+    const db = createDb()
+
+    await new CalculationSyncService(db).sync('user-1', {
+      changes: [record({ fieldUpdatedAt: { name: at('18:00:00') } })]
+    }, now)
+
+    expect(db.savedCalculation.createMany.mock.calls[0][0].data[0].fieldUpdatedAt.name).toBe(now.getTime())
+  })
+
+  it('ignores changes to calculations owned by someone else', async () => {
+    const db = createDb([row({ userId: 'user-2' })])
+
+    await new CalculationSyncService(db).sync('user-1', { changes: [record(), record({ id: 'uuid-2' })] }, now)
+
+    expect(db.savedCalculation.findMany.mock.calls[0][0]).toEqual({ where: { id: { in: ['calc-1', 'uuid-2'] } } })
+    expect(db.savedCalculation.createMany.mock.calls[0][0].data.map((data: { id: string }) => data.id)).toEqual(['uuid-2'])
+    expect(db.savedCalculation.update).not.toHaveBeenCalled()
+  })
+
+  it('pulls everything but tombstones on a first sync', async () => {
+    const db = createDb([row()])
+
+    const response = await new CalculationSyncService(db).sync('user-1', { changes: [] }, now)
+
+    expect(db.savedCalculation.findMany).toHaveBeenCalledTimes(1)
+    expect(db.savedCalculation.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { userId: 'user-1', deletedAt: null }
+    }))
+    expect(response).toEqual({ changes: [toSyncRecord(row())], cursor: encodeSyncCursor(now.getTime()), hasMore: false })
+  })
+
+  it('pages through large pulls', async () => {
+    const rows = Array.from({ length: 501 }, (_, index) =>
+      row({ id: `calc-${index}`, updatedAt: new Date(at('09:00:00') + index) })
+    )
+    const db = createDb(rows)
+
+    const response = await new CalculationSyncService(db).sync('user-1', {
+      changes: [],
+      since: encodeSyncCursor(at('08:00:00'))
+    }, now)
+
+    expect(response.changes).toHaveLength(500)
+    expect(response.hasMore).toBe(true)
+    expect(decodeSyncCursor(response.cursor)).toEqual({ updatedAt: new Date(at('09:00:00') + 499), id: 'calc-499' })
+  })
+
+  it('resumes after the cursor row when others share its update time', async () => {
+    const db = createDb()
+    const updatedAt = new Date(at('09:00:00'))
+
+    await new CalculationSyncService(db).sync('user-1', {
+      changes: [],
+      since: encodeSyncCursor(updatedAt.getTime(), 'calc-7')
+    }, now)
+
+    expect(db.savedCalculation.findMany).toHaveBeenCalledWith({
+      where: {
+        userId: 'user-1',
+        OR: [{ updatedAt: { gt: updatedAt } }, { updatedAt, id: { gt: 'calc-7' } }]
+      },
+      orderBy: [{ updatedAt: 'asc' }, { id: 'asc' }],
+      take: 501
+    })
+  })
+})
\ No newline at end of file
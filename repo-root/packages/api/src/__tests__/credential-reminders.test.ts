@@ -0,0 +1,31 @@
+import { dueReminderDays } from '../services/credential-reminders'
+
+const now = new Date('2026-10-19T08:00:00Z')
+const inDays = (days: number) => new Date(now.getTime() + days * 24 * 60 * 60 * 1000)
+
+describe('dueReminderDays', () => {
+  it('sends nothing while expiry is more than 90 days away', () => {
+    expect(dueReminderDays(inDays(120), null, now)).toBeNull()
+  })
+
+  it('sends the 90, 60 and 30 day reminders once each', () => {
+    expect(dueReminderDays(inDays(90), null, now)).toBe(90)
+    expect(dueReminderDays(inDays(75), 90, now)).toBeNull()
+    expect(dueReminderDays(inDays(60), 90, now)).toBe(60)
+    expect(dueReminderDays(inDays(45), 60, now)).toBeNull()
+    expect(dueReminderDays(inDays(30), 60, now)).toBe(30)
+    expect(dueReminderDays(inDays(10), 30, now)).toBeNull()
+  })
+
+  it('only sends the most urgent reminder for credentials added late', () => {
+    expect(dueReminderDays(inDays(20), null, now)).toBe(30)
+  })
+
+  it('catches up when a daily run was missed', () => {
+    expect(dueReminderDays(inDays(58), 90, now)).toBe(60)
+  })
+
+  it('sends nothing once the credential has expired', () => {
+    expect(dueReminderDays(inDays(-1), null, now)).toBeNull()
+  })
+})
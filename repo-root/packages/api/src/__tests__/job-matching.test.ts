@@ -0,0 +1,114 @@
+import { scoreJobMatch, MatchCandidate, MatchableJob } from '../services/job-matching'
+
+const date = (value: string) => new Date(`${value}T00:00:00Z`)
+
+const candidate = (overrides: Partial<MatchCandidate> = {}): MatchCandidate => ({
+  profession: 'PHYSICIAN',
+  specialties: ['Emergency Medicine'],
+  desiredStates: ['CA', 'TX'],
+  licensedStates: ['CA'],
+  minHourlyRate: 300,
+  blocks: [{ startDate: date('2026-09-01'), endDate: date('2026-12-31') }],
+  ...overrides
+})
+
+const job = (overrides: Partial<MatchableJob> = {}): MatchableJob => ({
+  location: 'San Francisco, CA',
+  requiredLicenseStates: ['CA'],
+  compensation: {
+    payBasis: 'HOURLY',
+    rateMin: 350,
+    rateMax: 450
+  },
+  assignmentStartDate: date('2026-09-15'),
+  assignmentEndDate: date('2026-12-14'),
+  ...overrides
+})
+
+describe('scoreJobMatch', () => {
+  it('gives a full score when every factor matches', () => {
+    const match = scoreJobMatch(candidate(), job())
+
+    expect(match).not.toBeNull()
+    expect(match!.score).toBe(100)
+    expect(match!.reasons).toContain('Available for the whole assignment')
+    expect(match!.reasons).toContain('Licensed in CA')
+  })
+
+  it('excludes jobs the candidate is not available for', () => {
+    const match = scoreJobMatch(candidate(), job({
+      assignmentStartDate: date('2027-02-01'),
+      assignmentEndDate: date('2027-05-01')
+    }))
+
+    expect(match).toBeNull()
+  })
+
+  it('scores partial date overlap by the share of the assignment covered', () => {
+    const match = scoreJobMatch(
+      candidate({ blocks: [{ startDate: date('2026-09-01'), endDate: date('2026-10-30') }] }),
+      job({ assignmentStartDate: date('2026-10-01'), assignmentEndDate: date('2026-11-30') })
+    )
+
+    expect(match!.factors.dates).toBeCloseTo(29 / 60, 2)
+    expect(match!.score).toBeLessThan(100)
+  })
+
+  it('moves a flexible start to the candidate\'s first available day', () => {
+    const candidateFromOctober = candidate({
+      blocks: [{ startDate: date('2026-10-15'), endDate: date('2027-03-01') }]
+    })
+    const fixed = scoreJobMatch(candidateFromOctober, job())
+    const flexible = scoreJobMatch(candidateFromOctober, job({ latestStartDate: date('2026-10-31') }))
+
+    expect(fixed!.factors.dates).toBeLessThan(1)
+    expect(flexible!.factors.dates).toBe(1)
+  })
+
+  it('excludes jobs paying less than the minimum rate', () => {
+    const match = scoreJobMatch(candidate({ minHourlyRate: 500 }), job())
+
+    expect(match).toBeNull()
+  })
+
+  it('converts shift pay to hourly before comparing with the rate floor', () => {
+    const match = scoreJobMatch(candidate({ minHourlyRate: 150 }), job({
+      compensation: { payBasis: 'SHIFT', rateMin: 2400, hoursPerShift: 12 }
+    }))
+
+    expect(match!.factors.rate).toBe(1)
+    expect(match!.reasons).toContain('Pays up to $200/hr')
+  })
+
+  it('penalizes jobs requiring a license the candidate does not hold', () => {
+    const match = scoreJobMatch(candidate(), job({
+      location: 'Austin, TX',
+      requiredLicenseStates: ['TX']
+    }))
+
+    expect(match!.factors.licensure).toBe(0)
+    expect(match!.factors.location).toBe(1)
+    expect(match!.score).toBe(75)
+  })
+
+  it('scores jobs outside the desired states lower', () => {
+    const match = scoreJobMatch(candidate({ licensedStates: ['CA', 'NY'] }), job({
+      location: 'New York, NY',
+      requiredLicenseStates: ['NY']
+    }))
+
+    expect(match!.factors.location).toBe(0)
+    expect(match!.score).toBe(85)
+  })
+
+  it('treats missing dates and compensation as unknown', () => {
+    const match = scoreJobMatch(candidate(), job({
+      compensation: null,
+      assignmentStartDate: null,
+      assignmentEndDate: null
+    }))
+
+    expect(match!.factors.dates).toBe(0.5)
+    expect(match!.factors.rate).toBe(0.5)
+  })
+})
@@ -0,0 +1,147 @@
+import { CallRequirement, ShiftType } from '@locumtruerate/types'
+import { availabilityFilter, scheduleDatesIssue, scheduleFilter } from '../services/job-schedule'
+import { SearchService, searchJobsSchema } from '../services/search'
+import { createMockDb } from './mock-db'
+
+// Only the where clause handed to the mock db is under test
+jest.mock('@locumtruerate/database', () => ({ Prisma: { join: jest.fn() } }))
+
+type DateField = 'assignmentStartDate' | 'assignmentEndDate' | 'latestStartDate'
+type JobDates = Record<DateField, Date | null>
+type DateCondition = Date | null | { lte?: Date; gte?: Date; not?: null }
+type DateFilter = { AND?: DateFilter[]; OR?: DateFilter[] } & { [Field in DateField]?: DateCondition }
+
+const DATE_FIELDS: DateField[] = ['assignmentStartDate', 'assignmentEndDate', 'latestStartDate']
+
+// Enough of Prisma's where semantics to check which jobs the date filters match
+function satisfies(value: Date | null, condition: DateCondition): boolean {
+  if (condition === null) return value === null
+  if (condition instanceof Date) return value?.getTime() === condition.getTime()
+  if (value === null) return false
+  return (!condition.lte || value <= condition.lte) && (!condition.gte || value >= condition.gte)
+}
+
+function matches(job: JobDates, filter: DateFilter): boolean {
+  return (filter.AND ?? []).every(condition => matches(job, condition)) &&
+    (!filter.OR || filter.OR.some(condition => matches(job, condition))) &&
+    DATE_FIELDS.every(field => filter[field] === undefined || satisfies(job[field], filter[field] as DateCondition))
+}
+
+const date = (day: string) => new Date(`${day}T00:00:00Z`)
+const job = (start: string | null, end: string | null, latestStart: string | null = null): JobDates => ({
+  assignmentStartDate: start ? date(start) : null,
+  assignmentEndDate: end ? date(end) : null,
+  latestStartDate: latestStart ? date(latestStart) : null
+})
+
+describe('scheduleDatesIssue', () => {
+  it('accepts a flexible start inside the assignment', () => {
+    expect(scheduleDatesIssue({
+      assignmentStartDate: date('2026-09-01'),
+      assignmentEndDate: date('2026-12-31'),
+      latestStartDate: date('2026-09-15')
+    })).toBeUndefined()
+  })
+
+  it('rejects a flexible start outside the assignment or without a start', () => {
+    expect(scheduleDatesIssue({ latestStartDate: date('2026-09-15') })?.path).toBe('latestStartDate')
+    expect(scheduleDatesIssue({ assignmentStartDate: date('2026-09-01'), latestStartDate: date('2026-08-31') })?.message)
+      .toBe('Latest start date must be on or after the start date')
+    expect(scheduleDatesIssue({
+      assignmentStartDate: date('2026-09-01'),
+      assignmentEndDate: date('2026-12-31'),
+      latestStartDate: date('2027-01-01')
+    })?.message).toBe('Latest start date must be before the assignment end date')
+  })
+
+  it('rejects an end before the start', () => {
+    expect(scheduleDatesIssue({ assignmentStartDate: date('2026-09-01'), assignmentEndDate: date('2026-08-01') })?.path)
+      .toBe('assignmentEndDate')
+  })
+})
+
+describe('availabilityFilter', () => {
+  const window = (from?: string, to?: string) => ({
+    AND: availabilityFilter(from ? date(from) : undefined, to ? date(to) : undefined) as DateFilter[]
+  })
+  const septToDec = window('2026-09-01', '2026-12-31')
+
+  it('matches assignments ending on the first day of the window', () => {
+    expect(matches(job('2026-06-01', '2026-09-01'), septToDec)).toBe(true)
+    expect(matches(job('2026-06-01', '2026-08-31'), septToDec)).toBe(false)
+  })
+
+  it('matches assignments starting on the last day of the window', () => {
+    expect(matches(job('2026-12-31', '2027-03-31'), septToDec)).toBe(true)
+    expect(matches(job('2027-01-01', '2027-03-31'), septToDec)).toBe(false)
+  })
+
+  it('matches assignments inside or around the window', () => {
+    expect(matches(job('2026-10-01', '2026-10-31'), septToDec)).toBe(true)
+    expect(matches(job('2026-08-01', '2027-01-31'), septToDec)).toBe(true)
+  })
+
+  it('treats an open end date as overlapping', () => {
+    expect(matches(job('2026-01-01', null), septToDec)).toBe(true)
+  })
+
+  it('leaves out jobs without an assignment start date', () => {
+    expect(matches(job(null, '2026-10-31'), septToDec)).toBe(false)
+    expect(matches(job(null, null), window('2026-09-01'))).toBe(false)
+  })
+
+  it('leaves a side of the window open when only one edge is given', () => {
+    expect(matches(job('2030-01-01', '2030-02-01'), window('2026-09-01'))).toBe(true)
+    expect(matches(job('2020-01-01', '2020-02-01'), window(undefined, '2026-12-31'))).toBe(true)
+  })
+})
+
+describe('scheduleFilter', () => {
+  it('matches the shift type and call requirement', () => {
+    expect(scheduleFilter({ shiftType: ShiftType.NIGHT, callRequirement: CallRequirement.HOME_CALL })).toEqual({
+      shiftType: 'NIGHT',
+      callRequirement: 'HOME_CALL'
+    })
+  })
+
+  it('adds the availability window', () => {
+    const from = date('2026-09-01')
+    expect(scheduleFilter({ availableFrom: from })).toEqual({ AND: availabilityFilter(from) })
+    expect(scheduleFilter({})).toEqual({})
+  })
+})
+
+describe('SearchService schedule filters', () => {
+  const search = async (filters: Partial<ReturnType<typeof searchJobsSchema.parse>>) => {
+    const db = createMockDb({
+      job: { findMany: jest.fn().mockResolvedValue([]), count: jest.fn().mockResolvedValue(0) }
+    })
+    await new SearchService(db).searchJobs(searchJobsSchema.parse(filters))
+    return db.job.findMany.mock.calls[0][0].where
+  }
+
+  it('filters by shift type and call requirement', async () => {
+    expect(await search({ shiftType: 'NIGHT', callRequirement: 'IN_HOUSE' })).toMatchObject({
+      shiftType: 'NIGHT',
+      callRequirement: 'IN_HOUSE'
+    })
+  })
+
+  it('matches flexible starts that reach the provider\'s start date', async () => {
+    const where: DateFilter = await search({ startDate: date('2026-09-15') })
+
+    expect(matches(job('2026-09-15', null), where)).toBe(true)
+    expect(matches(job('2026-09-01', null, '2026-09-15'), where)).toBe(true)
+    expect(matches(job('2026-09-01', null, '2026-09-14'), where)).toBe(false)
+    expect(matches(job('2026-09-01', null), where)).toBe(false)
+  })
+
+  it('matches assignments overlapping the availability window, edges included', async () => {
+    const where: DateFilter = await search({ availableFrom: date('2026-09-01'), availableTo: date('2026-12-31') })
+
+    expect(matches(job('2026-06-01', '2026-09-01'), where)).toBe(true)
+    expect(matches(job('2026-12-31', null), where)).toBe(true)
+    expect(matches(job('2026-06-01', '2026-08-31'), where)).toBe(false)
+    expect(matches(job('2027-01-01', null), where)).toBe(false)
+  })
+})
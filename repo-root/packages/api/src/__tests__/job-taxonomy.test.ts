@@ -0,0 +1,66 @@
+import { BoardCertificationRequirement, ClinicalCertification, Profession } from '@locumtruerate/types'
+import { subspecialtyUpdate, taxonomyFilter } from '../services/job-taxonomy'
+
+describe('taxonomyFilter', () => {
+  it('matches the taxonomy fields exactly', () => {
+    expect(taxonomyFilter({
+      profession: Profession.PHYSICIAN,
+      specialty: 'Cardiology',
+      subspecialty: 'Electrophysiology',
+      boardCertification: BoardCertificationRequirement.BOARD_CERTIFIED
+    })).toEqual({
+      profession: 'PHYSICIAN',
+      specialty: 'Cardiology',
+      subspecialty: 'Electrophysiology',
+      boardCertification: 'BOARD_CERTIFIED'
+    })
+  })
+
+  it('matches jobs requiring any of the license states or certifications', () => {
+    expect(taxonomyFilter({
+      licenseStates: ['TX', 'CA'],
+      certifications: [ClinicalCertification.ACLS, ClinicalCertification.PALS]
+    })).toEqual({
+      requiredLicenseStates: { hasSome: ['TX', 'CA'] },
+      requiredCertifications: { hasSome: ['ACLS', 'PALS'] }
+    })
+  })
+
+  it('ignores empty filters', () => {
+    expect(taxonomyFilter({ specialty: '', licenseStates: [], certifications: [] })).toEqual({})
+  })
+})
+
+describe('subspecialtyUpdate', () => {
+  const job = { specialty: 'Cardiology', subspecialty: 'Heart Failure' }
+
+  it('accepts a subspecialty of the job\'s specialty', () => {
+    expect(subspecialtyUpdate(job, { subspecialty: 'Electrophysiology' })).toEqual({ subspecialty: 'Electrophysiology' })
+  })
+
+  it('checks a new subspecialty against the new specialty', () => {
+    expect(subspecialtyUpdate(job, { specialty: 'Hospitalist', subspecialty: 'Nocturnist' })).toEqual({ subspecialty: 'Nocturnist' })
+    expect(subspecialtyUpdate(job, { specialty: 'Hospitalist', subspecialty: 'Electrophysiology' })).toEqual({
+      issue: '"Electrophysiology" is not a subspecialty of Hospitalist'
+    })
+  })
+
+  it('rejects a subspecialty for a job without a specialty', () => {
+    expect(subspecialtyUpdate({ specialty: null, subspecialty: null }, { subspecialty: 'Nocturnist' })).toEqual({
+      issue: '"Nocturnist" is not a subspecialty of this job\'s specialty'
+    })
+  })
+
+  it('clears the subspecialty when given null', () => {
+    expect(subspecialtyUpdate(job, { subspecialty: null })).toEqual({ subspecialty: null })
+  })
+
+  it('drops a subspecialty the new specialty does not have', () => {
+    expect(subspecialtyUpdate(job, { specialty: 'Hospitalist' })).toEqual({ subspecialty: null })
+  })
+
+  it('leaves the subspecialty alone otherwise', () => {
+    expect(subspecialtyUpdate(job, {})).toEqual({})
+    expect(subspecialtyUpdate(job, { specialty: 'Cardiology' })).toEqual({})
+  })
+})
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { TRPCError } from '@trpc/server';
 import { leadsRouter } from '../routers/leads';
 import { createContext } from '../context';
@@ -18,6 +18,15 @@ const mockDb = {
     aggregate: vi.fn(),
     groupBy: vi.fn(),
   },
+  organizationMember: {
+    findMany: vi.fn(),
+  },
+  webhookEndpoint: {
+    findMany: vi.fn(),
+  },
+  webhookDelivery: {
+    createMany: vi.fn(),
+  },
 };
 
 // Mock logger
@@ -28,9 +37,6 @@ const mockLogger = {
   debug: vi.fn(),
 };
 
-// Mock fetch for webhook testing
-global.fetch = vi.fn();
-
 const createMockContext = (overrides: Partial<Context> = {}): Context => ({
   db: mockDb as any,
   logger: mockLogger as any,
@@ -57,13 +63,8 @@ const createCaller = (ctx: Context) => {
 describe('Leads Router', () => {
   beforeEach(() => {
     vi.clearAllMocks();
-    process.env.ZAPIER_WEBHOOK_URLS = 'https://hooks.zapier.com/test';
-    process.env.ZAPIER_WEBHOOK_SECRET = 'test-secret';
-  });
-
-  afterEach(() => {
-    delete process.env.ZAPIER_WEBHOOK_URLS;
-    delete process.env.ZAPIER_WEBHOOK_SECRET;
+    mockDb.organizationMember.findMany.mockResolvedValue([{ organizationId: 'org-1' }]);
+    mockDb.webhookEndpoint.findMany.mockResolvedValue([{ id: 'endpoint-1' }]);
   });
 
   describe('create', () => {
@@ -102,12 +103,6 @@ describe('Leads Router', () => {
       };
       mockDb.lead.create.mockResolvedValue(mockLead);
 
-      // Mock successful webhook
-      (global.fetch as any).mockResolvedValue({
-        ok: true,
-        status: 200,
-      });
-
       const result = await caller.create({
         email: 'test@example.com',
         name: 'Test User',
@@ -132,6 +127,18 @@ describe('Leads Router', () => {
           status: 'new',
         }),
       });
+      expect(mockDb.webhookDelivery.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            endpointId: 'endpoint-1',
+            eventType: 'lead.created',
+            payload: expect.objectContaining({
+              organizationId: 'org-1',
+              data: expect.objectContaining({ id: 'lead-1', email: 'test@example.com' }),
+            }),
+          }),
+        ],
+      });
     });
 
     it('should update existing lead within 24 hours', async () => {
@@ -299,12 +306,6 @@ describe('Leads Router', () => {
       };
       mockDb.lead.update.mockResolvedValue(updatedLead);
 
-      // Mock webhook success
-      (global.fetch as any).mockResolvedValue({
-        ok: true,
-        status: 200,
-      });
-
       const result = await caller.updateLead({
         id: 'lead-1',
         status: 'contacted',
@@ -317,6 +318,45 @@ describe('Leads Router', () => {
           status: 'contacted',
         }),
       });
+      expect(mockDb.webhookDelivery.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            endpointId: 'endpoint-1',
+            eventType: 'lead.updated',
+            payload: expect.objectContaining({
+              data: expect.objectContaining({ id: 'lead-1', oldStatus: 'new', newStatus: 'contacted', updatedBy: 'admin-user-1' }),
+            }),
+          }),
+        ],
+      });
+    });
+
+    it('should not send a webhook when the status is unchanged', async () => {
+      const ctx = createAdminContext();
+      const caller = createCaller(ctx);
+
+      const existingLead = { id: 'lead-1', status: 'new', metadata: {} };
+      mockDb.lead.findUnique.mockResolvedValue(existingLead);
+      mockDb.lead.update.mockResolvedValue({ ...existingLead, score: 70 });
+
+      await caller.updateLead({ id: 'lead-1', score: 70 });
+
+      expect(mockDb.webhookDelivery.createMany).not.toHaveBeenCalled();
+    });
+
+    it('should still update the lead when queueing the webhook fails', async () => {
+      const ctx = createAdminContext();
+      const caller = createCaller(ctx);
+
+      const existingLead = { id: 'lead-1', status: 'new', metadata: {} };
+      mockDb.lead.findUnique.mockResolvedValue(existingLead);
+      mockDb.lead.update.mockResolvedValue({ ...existingLead, status: 'contacted' });
+      mockDb.webhookDelivery.createMany.mockRejectedValueOnce(new Error('database unavailable'));
+
+      const result = await caller.updateLead({ id: 'lead-1', status: 'contacted' });
+
+      expect(result.status).toBe('contacted');
+      expect(mockLogger.error).toHaveBeenCalledWith('Failed to queue lead webhooks', expect.objectContaining({ leadId: 'lead-1' }));
     });
 
     it('should set conversion timestamp when status changes to converted', async () => {
@@ -431,51 +471,44 @@ describe('Leads Router', () => {
   });
 
   describe('testWebhook', () => {
-    it('should test webhook successfully', async () => {
+    it('should queue a sample lead to the platform admins\' endpoints', async () => {
       const ctx = createAdminContext();
       const caller = createCaller(ctx);
 
-      (global.fetch as any).mockResolvedValue({
-        ok: true,
-        status: 200,
-      });
-
-      const result = await caller.testWebhook({
-        url: 'https://hooks.zapier.com/test',
-        event: 'test',
-      });
-
-      expect(result.success).toBe(true);
-      expect(global.fetch).toHaveBeenCalledWith(
-        'https://hooks.zapier.com/test',
-        expect.objectContaining({
-          method: 'POST',
-          headers: expect.objectContaining({
-            'Content-Type': 'application/json',
-            'User-Agent': 'LocumTrueRate-Webhook/1.0',
+      const result = await caller.testWebhook({ event: 'lead.updated' });
+
+      expect(result).toEqual({ queued: 1 });
+      expect(mockDb.webhookEndpoint.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ events: { has: 'lead.updated' } }),
+      }));
+      expect(mockDb.webhookDelivery.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            endpointId: 'endpoint-1',
+            eventType: 'lead.updated',
+            payload: expect.objectContaining({
+              data: expect.objectContaining({ email: 'test@example.com', test: true }),
+            }),
           }),
-          body: expect.stringContaining('test'),
-        })
-      );
+        ],
+      });
     });
 
-    it('should handle webhook failure', async () => {
+    it('should report when no endpoint is subscribed', async () => {
       const ctx = createAdminContext();
       const caller = createCaller(ctx);
+      mockDb.webhookEndpoint.findMany.mockResolvedValue([]);
 
-      (global.fetch as any).mockResolvedValue({
-        ok: false,
-        status: 500,
-        statusText: 'Internal Server Error',
-      });
+      const result = await caller.testWebhook({});
 
-      const result = await caller.testWebhook({
-        url: 'https://hooks.zapier.com/test',
-        event: 'test',
-      });
+      expect(result).toEqual({ queued: 0 });
+      expect(mockDb.webhookDelivery.createMany).not.toHaveBeenCalled();
+    });
+
+    it('should require an admin', async () => {
+      const caller = createCaller(createMockContext());
 
-      expect(result.success).toBe(false);
-      expect(result.error).toContain('500');
+      await expect(caller.testWebhook({})).rejects.toThrow(/admin access required/i);
     });
   });
 });
\ No newline at end of file
@@ -0,0 +1,236 @@
+import { CredentialType } from '@locumtruerate/types'
+import {
+  DeaRegistrationAdapter,
+  FixtureLicenseAdapter,
+  LicenseVerificationService,
+  NppesRegistryAdapter,
+  StateBoardAdapter,
+  isValidDeaNumber,
+  isValidNpi,
+  namesMatch
+} from '../services/license-verification'
+import { createMockDb } from './mock-db'
+
+const jsonResponse = (status: number, body: unknown) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  json: async () => body
+})
+
+describe('check digits', () => {
+  it('validates NPI numbers', () => {
+    expect(isValidNpi('1234567893')).toBe(true)
+    expect(isValidNpi('1234567890')).toBe(false)
+    expect(isValidNpi('12345')).toBe(false)
+  })
+
+  it('validates DEA numbers', () => {
+    expect(isValidDeaNumber('AB1234563')).toBe(true)
+    expect(isValidDeaNumber('ab1234563')).toBe(true)
+    expect(isValidDeaNumber('AB1234567')).toBe(false)
+    expect(isValidDeaNumber('A11234563')).toBe(false)
+  })
+})
+
+describe('namesMatch', () => {
+  it('ignores case, order, middle names and titles', () => {
+    expect(namesMatch('JANE DOE', 'Jane Doe')).toBe(true)
+    expect(namesMatch('Doe, Jane A.', 'Dr. Jane Doe, MD')).toBe(true)
+    expect(namesMatch('J Doe', 'Jane Doe')).toBe(true)
+  })
+
+  it('rejects different people', () => {
+    expect(namesMatch('John Doe', 'Jane Doe')).toBe(false)
+    expect(namesMatch('Jane Smith', 'Jane Doe')).toBe(false)
+    expect(namesMatch('Doe', 'Jane Doe')).toBe(false)
+  })
+})
+
+describe('FixtureLicenseAdapter', () => {
+  const adapter = new FixtureLicenseAdapter([
+    { type: CredentialType.STATE_LICENSE, number: 'A12345', issuingState: 'CA', status: 'ACTIVE' },
+    { type: CredentialType.STATE_LICENSE, number: 'B99999', issuingState: 'TX', status: 'REVOKED' }
+  ])
+
+  it('verifies active fixtures', async () => {
+    const result = await adapter.verify({ type: CredentialType.STATE_LICENSE, number: 'A12345', issuingState: 'CA' })
+    expect(result.outcome).toBe('VERIFIED')
+    expect(result.sourceStatus).toBe('ACTIVE')
+  })
+
+  it('rejects licenses that are not in good standing', async () => {
+    const result = await adapter.verify({ type: CredentialType.STATE_LICENSE, number: 'B99999', issuingState: 'TX' })
+    expect(result.outcome).toBe('REJECTED')
+  })
+
+  it('matches on the issuing state', async () => {
+    const result = await adapter.verify({ type: CredentialType.STATE_LICENSE, number: 'A12345', issuingState: 'NV' })
+    expect(result.outcome).toBe('NOT_FOUND')
+  })
+
+  it('only supports the types and states it has fixtures for', () => {
+    expect(adapter.supports({ type: CredentialType.STATE_LICENSE, number: 'X1', issuingState: 'TX' })).toBe(true)
+    expect(adapter.supports({ type: CredentialType.STATE_LICENSE, number: 'X1', issuingState: 'NV' })).toBe(false)
+    expect(adapter.supports({ type: CredentialType.NPI, number: '1234567893' })).toBe(false)
+  })
+})
+
+describe('HTTP adapters', () => {
+  const fetchMock = jest.fn()
+  const originalFetch = global.fetch
+
+  beforeEach(() => {
+    fetchMock.mockReset()
+    global.fetch = fetchMock as any
+  })
+
+  afterAll(() => {
+    global.fetch = originalFetch
+  })
+
+  it('reads license status and expiry from the state board', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, {
+      licenseNumber: 'A12345',
+      status: 'ACTIVE',
+      expirationDate: '2027-06-30'
+    }))
+    const adapter = new StateBoardAdapter({ baseUrl: 'http://boards.test/', states: ['CA'] })
+
+    expect(adapter.supports({ type: CredentialType.STATE_LICENSE, number: 'A12345', issuingState: 'NY' })).toBe(false)
+
+    const result = await adapter.verify({ type: CredentialType.STATE_LICENSE, number: 'A12345', issuingState: 'CA' })
+    expect(fetchMock.mock.calls[0][0]).toBe('http://boards.test/CA/licenses/A12345')
+    expect(result.outcome).toBe('VERIFIED')
+    expect(result.source).toBe('state-board:CA')
+    expect(result.expiresAt?.toISOString()).toBe('2027-06-30T00:00:00.000Z')
+  })
+
+  it('reports missing records as not found', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(404, {}))
+    const adapter = new StateBoardAdapter({ baseUrl: 'http://boards.test' })
+
+    const result = await adapter.verify({ type: CredentialType.STATE_LICENSE, number: 'Z0', issuingState: 'CA' })
+    expect(result.outcome).toBe('NOT_FOUND')
+  })
+
+  it('reports unreachable sources as unavailable', async () => {
+    fetchMock.mockRejectedValue(new Error('ECONNREFUSED'))
+    const adapter = new DeaRegistrationAdapter({ baseUrl: 'http://dea.test' })
+
+    const result = await adapter.verify({ type: CredentialType.DEA_REGISTRATION, number: 'AB1234563' })
+    expect(result.outcome).toBe('UNAVAILABLE')
+    expect(result.message).toBe('ECONNREFUSED')
+  })
+
+  it('rejects malformed numbers without calling the source', async () => {
+    const adapter = new NppesRegistryAdapter({ baseUrl: 'http://nppes.test' })
+
+    const result = await adapter.verify({ type: CredentialType.NPI, number: '1234567890' })
+    expect(result.outcome).toBe('REJECTED')
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('maps deactivated NPIs to rejected', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, {
+      result_count: 1,
+      results: [{ number: '1234567893', basic: { first_name: 'JANE', last_name: 'DOE', status: 'D' } }]
+    }))
+    const adapter = new NppesRegistryAdapter({ baseUrl: 'http://nppes.test' })
+
+    const result = await adapter.verify({ type: CredentialType.NPI, number: '1234567893' })
+    expect(result.outcome).toBe('REJECTED')
+    expect(result.evidence.name).toBe('JANE DOE')
+  })
+})
+
+describe('LicenseVerificationService', () => {
+  const update = jest.fn()
+  const findUnique = jest.fn()
+  const db = createMockDb({ credential: { update }, user: { findUnique } })
+  const service = new LicenseVerificationService(db, [
+    new FixtureLicenseAdapter([
+      {
+        type: CredentialType.STATE_LICENSE,
+        number: 'A12345',
+        issuingState: 'CA',
+        status: 'ACTIVE',
+        holderName: 'Jane Doe',
+        expiresAt: new Date('2027-06-30T00:00:00Z')
+      }
+    ])
+  ])
+
+  beforeEach(() => {
+    update.mockReset()
+    findUnique.mockReset().mockResolvedValue({ contactName: 'Dr. Jane Doe' })
+  })
+
+  it('records the result, timestamp and evidence on the credential', async () => {
+    const result = await service.verifyCredential({
+      id: 'cred_1',
+      userId: 'user_1',
+      type: 'STATE_LICENSE',
+      number: ' A12345 ',
+      issuingState: 'CA',
+      expiresAt: null
+    })
+
+    expect(result?.outcome).toBe('VERIFIED')
+    const { data } = update.mock.calls[0][0]
+    expect(data.verificationStatus).toBe('VERIFIED')
+    expect(data.verificationSource).toBe('fixture')
+    expect(data.verifiedAt).toEqual(result?.checkedAt)
+    expect(data.verificationEvidence.outcome).toBe('VERIFIED')
+    expect(data.verificationEvidence.holderName).toBe('Jane Doe')
+    expect(data.expiresAt).toEqual(new Date('2027-06-30T00:00:00Z'))
+    expect(findUnique).toHaveBeenCalledWith({ where: { id: 'user_1' }, select: { contactName: true } })
+  })
+
+  it('rejects active licenses held by someone else', async () => {
+    findUnique.mockResolvedValue({ contactName: 'John Smith' })
+
+    const result = await service.verifyCredential({
+      id: 'cred_1',
+      userId: 'user_2',
+      type: 'STATE_LICENSE',
+      number: 'A12345',
+      issuingState: 'CA',
+      expiresAt: null
+    })
+
+    expect(result?.outcome).toBe('NAME_MISMATCH')
+    const { data } = update.mock.calls[0][0]
+    expect(data.verificationStatus).toBe('REJECTED')
+    expect(data.verifiedAt).toBeNull()
+    expect(data.verificationEvidence.holderName).toBe('Jane Doe')
+  })
+
+  it('marks unknown licenses as rejected', async () => {
+    await service.verifyCredential({
+      id: 'cred_2',
+      userId: 'user_1',
+      type: 'STATE_LICENSE',
+      number: 'NOPE',
+      issuingState: 'CA',
+      expiresAt: null
+    })
+
+    const { data } = update.mock.calls[0][0]
+    expect(data.verificationStatus).toBe('REJECTED')
+    expect(data.verifiedAt).toBeNull()
+  })
+
+  it('skips credentials without a number', async () => {
+    const result = await service.verifyCredential({
+      id: 'cred_3',
+      userId: 'user_1',
+      type: 'STATE_LICENSE',
+      number: null,
+      issuingState: 'CA',
+      expiresAt: null
+    })
+
+    expect(result).toBeNull()
+    expect(update).not.toHaveBeenCalled()
+  })
+})
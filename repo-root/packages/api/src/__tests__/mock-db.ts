@@ -0,0 +1,14 @@
+import type { Context } from '../context'
+
+type Db = Context['db']
+
+// The jest mocks a test gives each model it uses, e.g.
+// { apiKey: { findUnique: jest.fn() } }
+export type MockModels = { [Model in keyof Db]?: Record<string, jest.Mock> }
+
+/**
+ * A stand-in for ctx.db with only the models and methods a test mocks.
+ * Services take it as the real client, and the test keeps the jest.Mock
+ * types of its methods for assertions.
+ */
+export const createMockDb = <Models extends MockModels>(models: Models) => models as Models & Db
@@ -0,0 +1,208 @@
+import {
+  ApplicationEventType,
+  DEFAULT_PIPELINE_STAGES,
+  PipelineStageKind,
+  validatePipelineStages
+} from '@locumtruerate/types'
+import { buildCalendarInvite, foldLine } from '../services/calendar-invites'
+import { offerTermsFromJob, renderOfferLetter } from '../services/offer-letters'
+import { ApplicationPipelineService, pipelineStagesFor, statusForStage } from '../services/pipeline'
+import { createMockDb } from './mock-db'
+
+describe('calendar invites', () => {
+  const invite = {
+    uid: 'interview-1@locumtruerate.com',
+    sequence: 0,
+    method: 'REQUEST' as const,
+    startsAt: new Date('2026-11-02T15:00:00Z'),
+    endsAt: new Date('2026-11-02T15:30:00Z'),
+    summary: 'Interview: Hospitalist, nights',
+    description: 'Bring your license;\nwe will review it',
+    location: 'Room 4',
+    organizer: { email: 'recruiter@example.com', name: 'Pat Recruiter' },
+    attendees: [{ email: 'candidate@example.com', name: 'Dr. Lee' }]
+  }
+
+  it('builds a request with a stable UID and CRLF line endings', () => {
+    const ics = buildCalendarInvite(invite, new Date('2026-10-19T12:00:00Z'))
+    const lines = ics.split('\r\n')
+
+    expect(lines[0]).toBe('BEGIN:VCALENDAR')
+    expect(lines).toContain('METHOD:REQUEST')
+    expect(lines).toContain('UID:interview-1@locumtruerate.com')
+    expect(lines).toContain('DTSTAMP:20261019T120000Z')
+    expect(lines).toContain('DTSTART:20261102T150000Z')
+    expect(lines).toContain('DTEND:20261102T153000Z')
+    expect(lines).toContain('STATUS:CONFIRMED')
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true)
+    expect(ics.replace(/\r\n/g, '')).not.toContain('\n')
+  })
+
+  it('escapes text values', () => {
+    const ics = buildCalendarInvite(invite)
+    expect(ics).toContain('SUMMARY:Interview: Hospitalist\\, nights')
+    expect(ics).toContain('DESCRIPTION:Bring your license\\;\\nwe will review it')
+  })
+
+  it('cancels the original event with a higher sequence', () => {
+    const ics = buildCalendarInvite({ ...invite, method: 'CANCEL', sequence: 2 })
+    expect(ics).toContain('METHOD:CANCEL')
+    expect(ics).toContain('SEQUENCE:2')
+    expect(ics).toContain('STATUS:CANCELLED')
+  })
+
+  it('folds long lines at 75 octets', () => {
+    const folded = foldLine(`DESCRIPTION:${'é'.repeat(100)}`)
+    const parts = folded.split('\r\n')
+
+    expect(parts.length).toBeGreaterThan(1)
+    for (const part of parts) {
+      expect(Buffer.byteLength(part)).toBeLessThanOrEqual(75)
+    }
+    expect(parts.slice(1).every(part => part.startsWith(' '))).toBe(true)
+    expect(parts.map((part, index) => index === 0 ? part : part.slice(1)).join('')).toBe(`DESCRIPTION:${'é'.repeat(100)}`)
+  })
+})
+
+describe('offer letters', () => {
+  const job = {
+    title: 'ER Physician',
+    location: 'Reno, NV',
+    company: { name: 'Sierra Health' },
+    assignmentStartDate: new Date('2026-12-01T00:00:00Z'),
+    assignmentEndDate: new Date('2027-03-01T00:00:00Z'),
+    compensation: {
+      payBasis: 'HOURLY',
+      rateMin: 200,
+      rateMax: 250,
+      stipends: { housing: 500 }
+    }
+  }
+
+  it('takes terms from the job compensation', () => {
+    const terms = offerTermsFromJob(job)
+
+    expect(terms.payBasis).toBe('HOURLY')
+    expect(terms.rate).toBe(225)
+    expect(terms.stipends).toEqual({ housing: 500 })
+    expect(terms.startDate).toEqual(job.assignmentStartDate)
+  })
+
+  it('applies recruiter overrides', () => {
+    const startDate = new Date('2026-12-15T00:00:00Z')
+    const terms = offerTermsFromJob(job, { rate: 240, startDate })
+
+    expect(terms.rate).toBe(240)
+    expect(terms.startDate).toEqual(startDate)
+  })
+
+  it('falls back to the free-text salary', () => {
+    const terms = offerTermsFromJob({ ...job, compensation: null, salary: 'DOE' })
+    expect(terms.salary).toBe('DOE')
+    expect(terms.payBasis).toBeUndefined()
+  })
+
+  it('renders the terms into the letter', () => {
+    const letter = renderOfferLetter({
+      candidateName: 'Dr. Lee',
+      job,
+      terms: offerTermsFromJob(job),
+      expiresAt: new Date('2026-11-01T00:00:00Z')
+    })
+
+    expect(letter).toContain('Dear Dr. Lee,')
+    expect(letter).toContain('- Compensation: $225 per hour')
+    expect(letter).toContain('- Housing (weekly) stipend: $500')
+    expect(letter).toContain('- Start date: December 1, 2026')
+    expect(letter).toContain('by November 1, 2026')
+  })
+})
+
+describe('pipeline stages', () => {
+  it('falls back to the default pipeline', () => {
+    expect(pipelineStagesFor(null)).toBe(DEFAULT_PIPELINE_STAGES)
+    expect(pipelineStagesFor({ pipelineStages: [] })).toBe(DEFAULT_PIPELINE_STAGES)
+  })
+
+  it('validates stage configuration', () => {
+    expect(validatePipelineStages(DEFAULT_PIPELINE_STAGES)).toEqual([])
+    expect(validatePipelineStages([])).toHaveLength(1)
+    expect(validatePipelineStages([
+      { key: 'screen', name: 'Screen', kind: PipelineStageKind.SCREEN },
+      { key: 'screen', name: 'Phone screen', kind: PipelineStageKind.CUSTOM }
+    ])).toEqual(['Stage key "screen" is used more than once'])
+  })
+
+  it('derives the status from the stage', () => {
+    expect(statusForStage(DEFAULT_PIPELINE_STAGES, 'screen', 'PENDING')).toBe('PENDING')
+    expect(statusForStage(DEFAULT_PIPELINE_STAGES, 'screen', 'SHORTLISTED')).toBe('REVIEWED')
+    expect(statusForStage(DEFAULT_PIPELINE_STAGES, 'interview', 'PENDING')).toBe('SHORTLISTED')
+    expect(statusForStage(DEFAULT_PIPELINE_STAGES, 'onboarding', 'SHORTLISTED')).toBe('ACCEPTED')
+  })
+})
+
+describe('ApplicationPipelineService', () => {
+  const db = createMockDb({
+    application: { update: jest.fn(async ({ data }) => ({ id: 'app-1', jobId: 'job-1', ...data })) },
+    applicationEvent: { create: jest.fn(async ({ data }) => data) },
+    // The job's company has no organization, so no webhooks are queued
+    job: { findUnique: jest.fn(async () => ({ company: { organizationId: null } })) }
+  })
+  const pipeline = new ApplicationPipelineService(db)
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('records stage changes in the timeline', async () => {
+    const application = { id: 'app-1', stage: 'screen', status: 'PENDING' }
+    await pipeline.moveToStage(application, DEFAULT_PIPELINE_STAGES[2], DEFAULT_PIPELINE_STAGES, 'recruiter-1', 'Strong fit')
+
+    expect(db.application.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ stage: 'interview', status: 'SHORTLISTED' })
+    }))
+    expect(db.applicationEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        applicationId: 'app-1',
+        type: ApplicationEventType.STAGE_CHANGED,
+        fromStage: 'screen',
+        toStage: 'interview',
+        fromStatus: 'PENDING',
+        toStatus: 'SHORTLISTED',
+        note: 'Strong fit'
+      })
+    })
+  })
+
+  it('only advances applications forward', async () => {
+    const atOffer = { id: 'app-1', stage: 'offer', status: 'SHORTLISTED' }
+    expect(await pipeline.advanceToKind(atOffer, DEFAULT_PIPELINE_STAGES, PipelineStageKind.INTERVIEW, 'recruiter-1')).toBeNull()
+    expect(db.application.update).not.toHaveBeenCalled()
+
+    const atScreen = { id: 'app-1', stage: 'screen', status: 'PENDING' }
+    await pipeline.advanceToKind(atScreen, DEFAULT_PIPELINE_STAGES, PipelineStageKind.INTERVIEW, 'recruiter-1')
+    expect(db.application.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ stage: 'interview' })
+    }))
+  })
+
+  it('skips stage kinds the pipeline does not have', async () => {
+    const stages = DEFAULT_PIPELINE_STAGES.filter(stage => stage.kind !== PipelineStageKind.ONBOARDING)
+    const application = { id: 'app-1', stage: 'offer', status: 'SHORTLISTED' }
+
+    expect(await pipeline.advanceToKind(application, stages, PipelineStageKind.ONBOARDING, 'recruiter-1')).toBeNull()
+  })
+
+  it('keeps a status change when its webhooks fail to queue', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined)
+    db.job.findUnique.mockRejectedValueOnce(new Error('database unavailable'))
+    const application = { id: 'app-1', stage: 'screen', status: 'PENDING' }
+
+    const updated = await pipeline.changeStatus(application, 'REJECTED', 'recruiter-1')
+
+    expect(updated).toMatchObject({ id: 'app-1', status: 'REJECTED' })
+    expect(db.applicationEvent.create).toHaveBeenCalled()
+    expect(consoleError).toHaveBeenCalledWith(expect.stringContaining('app-1'), expect.any(Error))
+    consoleError.mockRestore()
+  })
+})
@@ -0,0 +1,64 @@
+import { TRPCError } from '@trpc/server'
+import { REST_API_VERSION, restEndpoints, reviveDates } from '../rest/endpoints'
+import { toAppError } from '../rest'
+
+const mockCtx = {
+  user: { id: 'user-1', role: 'EMPLOYER' },
+  db: { savedCalculation: { findMany: jest.fn(), count: jest.fn() } }
+}
+const mockJobs = { getAll: jest.fn() }
+
+// Requests arrive already authenticated as the key's owner
+jest.mock('../rest/auth', () => ({
+  withApiKey: (_scope: string, handler: Function) => (req: unknown, res: unknown) => handler(req, res, mockCtx)
+}))
+jest.mock('../routers/jobs', () => ({ jobsRouter: { createCaller: () => mockJobs } }))
+jest.mock('../routers/applications', () => ({ applicationsRouter: { createCaller: () => ({}) } }))
+
+const call = async (method: string, path: string, req: { query?: object; params?: object; body?: unknown }) => {
+  const endpoint = restEndpoints.find(candidate => candidate.method === method && candidate.path === path)
+  const res = { status: jest.fn().mockReturnThis(), json: jest.fn() }
+  await endpoint!.versions[REST_API_VERSION].handler({ query: {}, params: {}, ...req } as any, res as any, jest.fn())
+  return res.json.mock.calls[0][0]
+}
+
+beforeEach(() => jest.clearAllMocks())
+
+describe('REST endpoints', () => {
+  it('lists the key owner\'s jobs with the status filter', async () => {
+    mockJobs.getAll.mockResolvedValue({ jobs: [] })
+
+    await call('GET', '/jobs', { query: { status: 'ACTIVE', page: '2' } })
+
+    expect(mockJobs.getAll).toHaveBeenCalledWith({ page: 2, limit: 20, userId: 'user-1', status: 'ACTIVE' })
+  })
+
+  it('lists saved calculations without deleted ones', async () => {
+    mockCtx.db.savedCalculation.findMany.mockResolvedValue([])
+    mockCtx.db.savedCalculation.count.mockResolvedValue(0)
+
+    await call('GET', '/calculations', { query: { type: 'contract' } })
+
+    const where = { userId: 'user-1', deletedAt: null, type: 'contract' }
+    expect(mockCtx.db.savedCalculation.findMany).toHaveBeenCalledWith(expect.objectContaining({ where }))
+    expect(mockCtx.db.savedCalculation.count).toHaveBeenCalledWith({ where })
+  })
+})
+
+describe('reviveDates', () => {
+  it('turns ISO date strings into dates, leaving other values alone', () => {
+    expect(reviveDates({ startDate: '2026-01-05', notes: ['2026-01-05T08:00:00Z', 'soon'], rate: 150 })).toEqual({
+      startDate: new Date('2026-01-05'),
+      notes: [new Date('2026-01-05T08:00:00Z'), 'soon'],
+      rate: 150
+    })
+  })
+})
+
+describe('toAppError', () => {
+  it('maps tRPC errors to REST errors', () => {
+    expect(toAppError(new TRPCError({ code: 'FORBIDDEN', message: 'Upgrade' }))).toMatchObject({ statusCode: 403 })
+    expect(toAppError(new TRPCError({ code: 'BAD_REQUEST', message: 'Bad' }))).toMatchObject({ statusCode: 400 })
+    expect(toAppError(new TRPCError({ code: 'TOO_MANY_REQUESTS', message: 'Slow down' }))).toMatchObject({ statusCode: 429 })
+  })
+})
@@ -0,0 +1,286 @@
+import { WebhookDeliveryStatus, WebhookEventType } from '@locumtruerate/types'
+import {
+  MAX_DELIVERY_ATTEMPTS,
+  WebhookService,
+  endpointUrlProblem,
+  isPrivateAddress,
+  retryDelayMs,
+  signWebhookPayload,
+  signingSecrets,
+  verifyWebhookSignature
+} from '../services/webhooks'
+import { createMockDb } from './mock-db'
+
+const now = new Date('2026-10-19T12:00:00Z')
+const timestamp = Math.floor(now.getTime() / 1000)
+
+describe('webhook signatures', () => {
+  const body = JSON.stringify({ id: 'evt-1', type: 'job.published' })
+
+  it('verifies with the secret it was signed with', () => {
+    const header = signWebhookPayload(body, ['whsec_a'], timestamp)
+
+    expect(header).toMatch(/^t=\d+,v1=[0-9a-f]{64}$/)
+    expect(verifyWebhookSignature(body, header, 'whsec_a', now)).toBe(true)
+    expect(verifyWebhookSignature(body, header, 'whsec_b', now)).toBe(false)
+    expect(verifyWebhookSignature(`${body} `, header, 'whsec_a', now)).toBe(false)
+  })
+
+  it('rejects stale signatures', () => {
+    const header = signWebhookPayload(body, ['whsec_a'], timestamp - 10 * 60)
+    expect(verifyWebhookSignature(body, header, 'whsec_a', now)).toBe(false)
+  })
+
+  it('signs with the previous secret until its grace period ends', () => {
+    const endpoint = {
+      secret: 'whsec_new',
+      previousSecret: 'whsec_old',
+      previousSecretExpiresAt: new Date('2026-10-20T00:00:00Z')
+    }
+
+    const header = signWebhookPayload(body, signingSecrets(endpoint, now), timestamp)
+    expect(verifyWebhookSignature(body, header, 'whsec_new', now)).toBe(true)
+    expect(verifyWebhookSignature(body, header, 'whsec_old', now)).toBe(true)
+
+    expect(signingSecrets(endpoint, new Date('2026-10-21T00:00:00Z'))).toEqual(['whsec_new'])
+  })
+})
+
+describe('retryDelayMs', () => {
+  it('doubles from a minute up to two hours', () => {
+    expect(retryDelayMs(1)).toBe(60_000)
+    expect(retryDelayMs(2)).toBe(120_000)
+    expect(retryDelayMs(4)).toBe(480_000)
+    expect(retryDelayMs(20)).toBe(2 * 60 * 60 * 1000)
+  })
+})
+
+describe('endpoint addresses', () => {
+  it('treats loopback, private, link-local and metadata addresses as private', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '0.0.0.0', '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', 'not-an-ip']) {
+      expect(isPrivateAddress(address)).toBe(true)
+    }
+    for (const address of ['93.184.216.34', '172.32.0.1', '2606:2800:220:1::1', '::ffff:93.184.216.34']) {
+      expect(isPrivateAddress(address)).toBe(false)
+    }
+  })
+
+  it('refuses hosts that resolve to any private address', async () => {
+    const resolve = jest.fn().mockResolvedValue(['93.184.216.34', '10.0.0.5'])
+
+    expect(await endpointUrlProblem('https://hooks.example.com/x', resolve)).toBe('hooks.example.com resolves to a private or local address')
+    expect(resolve).toHaveBeenCalledWith('hooks.example.com')
+  })
+
+  it('checks IPv6 literals without their brackets', async () => {
+    const resolve = jest.fn().mockResolvedValue(['::1'])
+
+    expect(await endpointUrlProblem('https://[::1]/x', resolve)).toBe('::1 resolves to a private or local address')
+    expect(resolve).toHaveBeenCalledWith('::1')
+  })
+
+  it('refuses hosts that do not resolve', async () => {
+    const resolve = jest.fn().mockRejectedValue(new Error('getaddrinfo ENOTFOUND'))
+
+    expect(await endpointUrlProblem('https://nowhere.example.com', resolve)).toBe('Could not resolve nowhere.example.com')
+  })
+
+  it('accepts hosts that resolve only to public addresses', async () => {
+    expect(await endpointUrlProblem('https://hooks.example.com', async () => ['93.184.216.34'])).toBeNull()
+  })
+})
+
+describe('WebhookService', () => {
+  const endpoint = {
+    url: 'https://hooks.example.com/locum',
+    enabled: true,
+    secret: 'whsec_a',
+    previousSecret: null,
+    previousSecretExpiresAt: null
+  }
+  const delivery = {
+    id: 'del-1',
+    endpointId: 'end-1',
+    eventId: 'evt-1',
+    eventType: WebhookEventType.APPLICATION_CREATED,
+    payload: { id: 'evt-1', type: WebhookEventType.APPLICATION_CREATED, data: { applicationId: 'app-1' } },
+    attempts: 0,
+    nextAttemptAt: now,
+    endpoint
+  }
+
+  const createDb = () => createMockDb({
+    webhookEndpoint: { findMany: jest.fn().mockResolvedValue([{ id: 'end-1' }, { id: 'end-2' }]) },
+    webhookDelivery: {
+      findMany: jest.fn().mockResolvedValue([delivery]),
+      createMany: jest.fn(),
+      create: jest.fn(async ({ data }) => ({ id: 'del-2', ...data })),
+      update: jest.fn(),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 })
+    },
+    job: { findUnique: jest.fn().mockResolvedValue({ company: { organizationId: 'org-1' } }) },
+    organizationMember: { findMany: jest.fn().mockResolvedValue([{ organizationId: 'org-1' }]) }
+  })
+
+  const respond = (status: number) =>
+    jest.fn().mockResolvedValue({ ok: status >= 200 && status < 300, status, body: null })
+  const publicHost = async () => ['93.184.216.34']
+
+  it('queues one delivery per subscribed endpoint', async () => {
+    const db = createDb()
+
+    const queued = await new WebhookService(db).emitForJob('job-1', WebhookEventType.JOB_PUBLISHED, { jobId: 'job-1' }, now)
+
+    expect(queued).toBe(2)
+    expect(db.webhookEndpoint.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { organizationId: 'org-1', enabled: true, events: { has: WebhookEventType.JOB_PUBLISHED } }
+    }))
+    const rows = db.webhookDelivery.createMany.mock.calls[0][0].data
+    expect(rows).toHaveLength(2)
+    expect(rows[0].eventId).toBe(rows[1].eventId)
+    expect(rows[0]).toMatchObject({
+      status: WebhookDeliveryStatus.PENDING,
+      nextAttemptAt: now,
+      payload: expect.objectContaining({ type: 'job.published', organizationId: 'org-1', data: { jobId: 'job-1' } })
+    })
+  })
+
+  it('queues site leads for the organizations of platform admins', async () => {
+    const db = createDb()
+
+    await new WebhookService(db).emitForPlatformAdmins(WebhookEventType.LEAD_CREATED, { id: 'lead-1' }, now)
+
+    expect(db.organizationMember.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { role: { in: ['OWNER', 'ADMIN'] }, user: { role: 'ADMIN' } }
+    }))
+    expect(db.webhookDelivery.createMany.mock.calls[0][0].data[0].payload).toMatchObject({
+      type: 'lead.created',
+      organizationId: 'org-1'
+    })
+  })
+
+  it('queues nothing for jobs outside an organization', async () => {
+    const db = createDb()
+    db.job.findUnique.mockResolvedValue({ company: { organizationId: null } })
+
+    expect(await new WebhookService(db).emitForJob('job-1', WebhookEventType.JOB_PUBLISHED, {}, now)).toBe(0)
+    expect(db.webhookDelivery.createMany).not.toHaveBeenCalled()
+  })
+
+  it('sends signed deliveries and records the response', async () => {
+    const db = createDb()
+    const fetchImpl = respond(200)
+
+    const results = await new WebhookService(db, fetchImpl, publicHost).processDueDeliveries(now)
+
+    expect(results).toEqual({ attempted: 1, succeeded: 1 })
+    expect(db.webhookDelivery.updateMany).toHaveBeenCalledWith({
+      where: { id: 'del-1', status: WebhookDeliveryStatus.PENDING, attempts: 0, nextAttemptAt: now },
+      data: { nextAttemptAt: expect.any(Date) }
+    })
+    const [url, request] = fetchImpl.mock.calls[0]
+    expect(url).toBe(endpoint.url)
+    expect(request.redirect).toBe('manual')
+    expect(verifyWebhookSignature(request.body, request.headers['X-LocumTrueRate-Signature'], 'whsec_a', now)).toBe(true)
+    expect(db.webhookDelivery.update).toHaveBeenCalledWith({
+      where: { id: 'del-1' },
+      data: expect.objectContaining({
+        status: WebhookDeliveryStatus.SUCCEEDED,
+        attempts: 1,
+        responseStatus: 200,
+        error: null,
+        nextAttemptAt: null
+      })
+    })
+  })
+
+  it('skips deliveries another run has already claimed', async () => {
+    const db = createDb()
+    db.webhookDelivery.updateMany.mockResolvedValue({ count: 0 })
+    const fetchImpl = respond(200)
+
+    const results = await new WebhookService(db, fetchImpl, publicHost).processDueDeliveries(now)
+
+    expect(results).toEqual({ attempted: 0, succeeded: 0 })
+    expect(fetchImpl).not.toHaveBeenCalled()
+    expect(db.webhookDelivery.update).not.toHaveBeenCalled()
+  })
+
+  it('schedules a retry with backoff when the receiver fails', async () => {
+    const db = createDb()
+
+    await new WebhookService(db, respond(503), publicHost).attempt({ ...delivery, attempts: 2 }, now)
+
+    expect(db.webhookDelivery.update).toHaveBeenCalledWith({
+      where: { id: 'del-1' },
+      data: expect.objectContaining({
+        status: WebhookDeliveryStatus.PENDING,
+        attempts: 3,
+        responseStatus: 503,
+        error: 'Endpoint responded with 503',
+        nextAttemptAt: new Date(now.getTime() + retryDelayMs(3))
+      })
+    })
+  })
+
+  it('gives up after the last attempt', async () => {
+    const db = createDb()
+    const fetchImpl = jest.fn().mockRejectedValue(new Error('connect ECONNREFUSED'))
+
+    await new WebhookService(db, fetchImpl, publicHost).attempt({ ...delivery, attempts: MAX_DELIVERY_ATTEMPTS - 1 }, now)
+
+    expect(db.webhookDelivery.update).toHaveBeenCalledWith({
+      where: { id: 'del-1' },
+      data: expect.objectContaining({
+        status: WebhookDeliveryStatus.FAILED,
+        error: 'connect ECONNREFUSED',
+        nextAttemptAt: null
+      })
+    })
+  })
+
+  it('counts a redirect as a failure instead of following it', async () => {
+    const db = createDb()
+
+    expect(await new WebhookService(db, respond(302), publicHost).attempt(delivery, now)).toBe(false)
+
+    expect(db.webhookDelivery.update).toHaveBeenCalledWith({
+      where: { id: 'del-1' },
+      data: expect.objectContaining({
+        status: WebhookDeliveryStatus.PENDING,
+        responseStatus: 302,
+        error: 'Endpoint redirected with 302; webhooks do not follow redirects'
+      })
+    })
+  })
+
+  it('does not send to endpoints that resolve to private addresses', async () => {
+    const db = createDb()
+    const fetchImpl = respond(200)
+
+    await new WebhookService(db, fetchImpl, async () => ['169.254.169.254']).attempt(delivery, now)
+
+    expect(fetchImpl).not.toHaveBeenCalled()
+    expect(db.webhookDelivery.update).toHaveBeenCalledWith({
+      where: { id: 'del-1' },
+      data: expect.objectContaining({
+        status: WebhookDeliveryStatus.PENDING,
+        responseStatus: null,
+        error: 'hooks.example.com resolves to a private or local address'
+      })
+    })
+  })
+
+  it('replays a delivery as a new one for the same event', async () => {
+    const db = createDb()
+
+    const replay = await new WebhookService(db).replay(delivery, now)
+
+    expect(replay).toMatchObject({
+      eventId: 'evt-1',
+      replayOf: 'del-1',
+      status: WebhookDeliveryStatus.PENDING,
+      nextAttemptAt: now
+    })
+  })
+})
@@ -3,7 +3,7 @@ import { PrismaClient } from '@locumtruerate/database';
 import { getAuditLogger, type AuditUser } from '@locumtruerate/audit';
 
 // Simple logger to avoid complex shared logger issues
-const logger = {
+export const logger = {
   debug: console.debug,
   info: console.log,
   warn: console.warn,
@@ -54,4 +54,24 @@ export function getAuditUser(ctx: Context): AuditUser | undefined {
   };
 }
 
+/**
+ * Record access to a provider's credential wallet in the HIPAA audit trail
+ */
+export async function logCredentialAccess(
+  ctx: Context,
+  eventType: 'phi.access' | 'phi.create' | 'phi.update' | 'phi.delete',
+  recordId: string,
+  purpose: string,
+  details?: Record<string, any>
+): Promise<void> {
+  const user = getAuditUser(ctx);
+  if (!user) return;
+
+  await ctx.auditLogger.logPHIAccess(eventType, user, {
+    dataType: 'credential',
+    recordId,
+    purpose
+  }, details);
+}
+
 export type Context = inferAsyncReturnType<typeof createContext>;
\ No newline at end of file
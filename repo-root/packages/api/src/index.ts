@@ -1,15 +1,23 @@
 import { createTRPCRouter, publicProcedure } from './trpc';
 // import { authRouter } from './routers/auth';
-// import { jobsRouter } from './routers/jobs'; // Temporarily disabled due to schema issues
-// import { applicationsRouter } from './routers/applications';
+import { jobsRouter } from './routers/jobs';
+import { applicationsRouter } from './routers/applications';
 // import { usersRouter } from './routers/users'; // Temporarily disabled due to schema issues
 // import { searchRouter } from './routers/search';
 // import { adminRouter } from './routers/admin';
 // import { analyticsRouter } from './routers/analytics';
 // import { supportRouter } from './routers/support'; // Temporarily disabled due to compilation issues
-// import { calculationsRouter } from './routers/calculations';
+import { calculationsRouter } from './routers/calculations';
 // import { leadsRouter } from './routers/leads';
 import { paymentsRouter } from './routers/payments';
+import { scoringProfilesRouter } from './routers/scoring-profiles';
+import { availabilityRouter } from './routers/availability';
+import { credentialsRouter } from './routers/credentials';
+import { pipelinesRouter } from './routers/pipelines';
+import { interviewsRouter } from './routers/interviews';
+import { offersRouter } from './routers/offers';
+import { webhooksRouter } from './routers/webhooks';
+import { apiKeysRouter } from './routers/api-keys';
 // import { leadMarketplaceRouter } from './routers/lead-marketplace';
 // import { API_VERSION } from './versioning'; // Temporarily disabled due to compilation issues
 // import { companiesRouter } from './routers/companies';
@@ -37,6 +45,33 @@ export const appRouter = createTRPCRouter({
   
   // Add payments functionality
   payments: paymentsRouter,
+
+  // Job postings and the applications to them
+  jobs: jobsRouter,
+  applications: applicationsRouter,
+
+  // Saved contract comparison scoring profiles
+  scoringProfiles: scoringProfilesRouter,
+
+  // Candidate availability and job matching
+  availability: availabilityRouter,
+
+  // Provider credential wallet
+  credentials: credentialsRouter,
+
+  // Hiring pipelines, interview scheduling and offers
+  pipelines: pipelinesRouter,
+  interviews: interviewsRouter,
+  offers: offersRouter,
+
+  // Per-organization outbound webhooks
+  webhooks: webhooksRouter,
+
+  // Keys for the public REST API
+  apiKeys: apiKeysRouter,
+
+  // Saved calculations and their share links
+  calculations: calculationsRouter,
 });
 
 export type AppRouter = typeof appRouter;
@@ -45,5 +80,8 @@ export type AppRouter = typeof appRouter;
 export { createContext, type Context } from './context';
 export { createCallerFactory } from './trpc';
 
+// Used by the web app's Stripe webhook route to notify organizations
+export { WebhookService } from './services/webhooks';
+
 // Export individual routers for testing (minimal set)
 // export { jobsRouter, usersRouter }; // Temporarily disabled
\ No newline at end of file
@@ -5,8 +5,8 @@
  */
 
 import { TRPCError } from '@trpc/server'
-import { MiddlewareFunction } from '@trpc/server/unstable-core-do-not-import'
 import { Context } from '../context'
+import { t } from '../trpc'
 import { SUBSCRIPTION_TIERS, SubscriptionTier, SubscriptionFeatures } from '../routers/payments'
 
 export interface FeatureGateOptions {
@@ -19,8 +19,8 @@ export interface FeatureGateOptions {
 /**
  * Creates a middleware that validates subscription features
  */
-export const createFeatureGate = (options: FeatureGateOptions): MiddlewareFunction<any, Context, any> => {
-  return async ({ ctx, next }) => {
+export const createFeatureGate = (options: FeatureGateOptions) => {
+  return t.middleware(async ({ ctx, next }) => {
     try {
       // Get user's subscription tier
       const user = await ctx.db.user.findUnique({
@@ -45,7 +45,7 @@ export const createFeatureGate = (options: FeatureGateOptions): MiddlewareFuncti
       // Check if user's subscription is active
       if (user.subscriptionStatus && user.subscriptionStatus !== 'active' && userTier !== 'FREE') {
         throw new TRPCError({
-          code: 'PAYMENT_REQUIRED',
+          code: 'FORBIDDEN',
           message: 'Your subscription is not active. Please update your billing information.',
         })
       }
@@ -55,7 +55,7 @@ export const createFeatureGate = (options: FeatureGateOptions): MiddlewareFuncti
         const tierOrder = { FREE: 0, PRO: 1, ENTERPRISE: 2 }
         if (tierOrder[userTier] < tierOrder[options.requiredTier]) {
           throw new TRPCError({
-            code: 'PAYMENT_REQUIRED',
+            code: 'FORBIDDEN',
             message: options.errorMessage || `This feature requires a ${options.requiredTier} subscription.`,
           })
         }
@@ -68,7 +68,7 @@ export const createFeatureGate = (options: FeatureGateOptions): MiddlewareFuncti
       if (typeof featureValue === 'boolean') {
         if (!featureValue) {
           throw new TRPCError({
-            code: 'PAYMENT_REQUIRED',
+            code: 'FORBIDDEN',
             message: options.errorMessage || `This feature is not available in your current plan.`,
           })
         }
@@ -78,7 +78,7 @@ export const createFeatureGate = (options: FeatureGateOptions): MiddlewareFuncti
       else if (typeof featureValue === 'number' && options.requiredAmount) {
         if (options.requiredAmount > featureValue) {
           throw new TRPCError({
-            code: 'PAYMENT_REQUIRED',
+            code: 'FORBIDDEN',
             message: options.errorMessage || `You have reached your limit of ${featureValue} for this feature. Upgrade to access more.`,
           })
         }
@@ -106,7 +106,7 @@ export const createFeatureGate = (options: FeatureGateOptions): MiddlewareFuncti
         message: 'Failed to validate subscription access',
       })
     }
-  }
+  })
 }
 
 /**
@@ -5,8 +5,8 @@
  */
 
 import { TRPCError } from '@trpc/server'
-import { MiddlewareFunction } from '@trpc/server/unstable-core-do-not-import'
 import { Context } from '../context'
+import { t } from '../trpc'
 import { SUBSCRIPTION_TIERS, SubscriptionTier, SubscriptionFeatures } from '../routers/payments'
 import { checkFeatureAccess } from './feature-gate'
 
@@ -293,14 +293,14 @@ export async function checkUsageOverage(
 /**
  * Rate limiting middleware
  */
-export function createRateLimit(config: RateLimitConfig): MiddlewareFunction<any, Context, any> {
-  return async ({ ctx, next }) => {
+export function createRateLimit(config: RateLimitConfig) {
+  return t.middleware(async ({ ctx, next }) => {
     try {
       // Check if user's tier allows this feature
       const featureAccess = await checkFeatureAccess(ctx, config.feature)
       if (!featureAccess.hasAccess) {
         throw new TRPCError({
-          code: 'PAYMENT_REQUIRED',
+          code: 'FORBIDDEN',
           message: `This feature requires a higher subscription tier.`,
         })
       }
@@ -330,7 +330,7 @@ export function createRateLimit(config: RateLimitConfig): MiddlewareFunction<any
       // Don't block requests if rate limiting fails
       return next()
     }
-  }
+  })
 }
 
 /**
@@ -340,8 +340,8 @@ export function createUsageValidator(
   feature: keyof SubscriptionFeatures,
   amount: number = 1,
   allowOverage: boolean = false
-): MiddlewareFunction<any, Context, any> {
-  return async ({ ctx, next }) => {
+) {
+  return t.middleware(async ({ ctx, next }) => {
     try {
       // Use database transaction to prevent race conditions
       return await ctx.db.$transaction(async (tx) => {
@@ -365,7 +365,7 @@ export function createUsageValidator(
         // Check if user's subscription is active
         if (user.subscriptionStatus && user.subscriptionStatus !== 'active' && tier !== 'FREE') {
           throw new TRPCError({
-            code: 'PAYMENT_REQUIRED',
+            code: 'FORBIDDEN',
             message: 'Your subscription is not active. Please update your billing information.',
           })
         }
@@ -434,14 +434,14 @@ export function createUsageValidator(
           
           // Block the request
           throw new TRPCError({
-            code: 'PAYMENT_REQUIRED',
+            code: 'FORBIDDEN',
             message: `You have reached your ${feature} limit (${featureLimit}). Current usage: ${currentAmount}. Upgrade your subscription or enable overage billing.`,
           })
         }
         
         // For boolean features that are false, deny access
         throw new TRPCError({
-          code: 'PAYMENT_REQUIRED',
+          code: 'FORBIDDEN',
           message: `This feature is not available in your current plan.`,
         })
       })
@@ -456,7 +456,7 @@ export function createUsageValidator(
         message: 'Failed to validate feature usage',
       })
     }
-  }
+  })
 }
 
 /**
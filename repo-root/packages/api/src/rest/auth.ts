@@ -0,0 +1,107 @@
+import type { NextFunction, Request, Response } from 'express'
+import {
+  AuthenticationError,
+  AuthorizationError,
+  RateLimitError,
+  RateLimiter
+} from '@locumtruerate/shared'
+import { API_KEY_HEADER, ApiKeyScope } from '@locumtruerate/types'
+import { createContext, type Context } from '../context'
+import { ApiKeyService, hasScope, type AuthenticatedApiKey } from '../services/api-keys'
+
+declare global {
+  namespace Express {
+    interface Request {
+      apiKey?: AuthenticatedApiKey
+    }
+  }
+}
+
+const RATE_LIMIT_WINDOW_MS = 60_000
+
+const AUTH_FAILURE_MESSAGES = {
+  invalid: 'Invalid API key',
+  revoked: 'This API key has been revoked',
+  expired: 'This API key has expired',
+  no_api_access: 'API access requires an active Enterprise subscription'
+} as const
+
+// Keys share a limiter per requests-per-minute limit; counts are per key id
+const limiters = new Map<number, RateLimiter>()
+
+function limiterFor(requestsPerMinute: number): RateLimiter {
+  let limiter = limiters.get(requestsPerMinute)
+  if (!limiter) {
+    limiter = new RateLimiter({ windowMs: RATE_LIMIT_WINDOW_MS, maxRequests: requestsPerMinute })
+    limiters.set(requestsPerMinute, limiter)
+  }
+  return limiter
+}
+
+export function readApiKey(req: Request): string | null {
+  const header = req.header(API_KEY_HEADER)
+  if (header) return header.trim()
+
+  const authorization = req.header('Authorization')
+  if (authorization?.startsWith('Bearer ')) return authorization.slice('Bearer '.length).trim()
+
+  return null
+}
+
+/**
+ * Authenticate the request's API key, require a scope and count the request
+ * against the key's rate limit. Sets X-RateLimit-* headers either way.
+ */
+export async function requireApiKey(req: Request, res: Response, scope: ApiKeyScope): Promise<AuthenticatedApiKey> {
+  const key = readApiKey(req)
+  if (!key) throw new AuthenticationError(`Send your API key in the ${API_KEY_HEADER} header`)
+
+  const result = await new ApiKeyService(createContext({}).db).authenticate(key)
+  if (result.ok === false) throw new AuthenticationError(AUTH_FAILURE_MESSAGES[result.reason])
+
+  const { apiKey } = result
+  const { allowed, info } = await limiterFor(apiKey.rateLimit).checkLimit(`api-key:${apiKey.id}`)
+  res.setHeader('X-RateLimit-Limit', info.limit)
+  res.setHeader('X-RateLimit-Remaining', info.remaining)
+  res.setHeader('X-RateLimit-Reset', Math.ceil(info.resetTime.getTime() / 1000))
+
+  if (!allowed) {
+    const retryAfter = Math.max(1, Math.ceil((info.resetTime.getTime() - Date.now()) / 1000))
+    res.setHeader('Retry-After', retryAfter)
+    throw new RateLimitError(info.limit, 'minute', retryAfter)
+  }
+
+  if (!hasScope(apiKey.permissions, scope)) {
+    throw new AuthorizationError(`This API key is missing the ${scope} scope`, { scope })
+  }
+
+  req.apiKey = apiKey
+  return apiKey
+}
+
+/**
+ * Context for calling tRPC procedures as the key's owner
+ */
+export function contextForApiKey(req: Request, apiKey: AuthenticatedApiKey): Context {
+  return createContext({
+    userId: apiKey.userId,
+    userRole: apiKey.userRole,
+    sessionId: `api-key:${apiKey.id}`,
+    ipAddress: req.ip,
+    userAgent: req.header('User-Agent')
+  })
+}
+
+type ScopedHandler = (req: Request, res: Response, ctx: Context) => Promise<unknown>
+
+/**
+ * Express handler that runs `handler` as the key's owner once the key is
+ * authenticated for `scope`, and passes any error on to the error handler
+ */
+export function withApiKey(scope: ApiKeyScope, handler: ScopedHandler) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    requireApiKey(req, res, scope)
+      .then(apiKey => handler(req, res, contextForApiKey(req, apiKey)))
+      .catch(next)
+  }
+}
@@ -0,0 +1,203 @@
+import type { Request } from 'express'
+import type { inferRouterInputs } from '@trpc/server'
+import type { ApiEndpoint } from '@locumtruerate/api-versioning'
+import { NotFoundError } from '@locumtruerate/shared'
+import {
+  ContractCalculationEngine,
+  PaycheckCalculationEngine,
+  type ContractInput,
+  type PaycheckInput
+} from '@locumtruerate/calc-core'
+import { API_KEY_HEADER, ApiKeyScope, ApplicationStatus, JobStatus } from '@locumtruerate/types'
+import { jobsRouter } from '../routers/jobs'
+import { applicationsRouter } from '../routers/applications'
+import { withApiKey } from './auth'
+
+/**
+ * Endpoints of the public REST API. Job and application endpoints call the
+ * same tRPC procedures the web app uses, as the key's owner, so ownership
+ * checks, validation and side effects (webhooks, emails) are shared.
+ */
+
+export const REST_API_VERSION = '2.0.0'
+
+type Method = ApiEndpoint['method']
+type Handler = Parameters<typeof withApiKey>[1]
+
+// Request bodies and query strings are only assumed to have these shapes; the
+// procedures and calculation engines validate their input when called
+type JobsInput = inferRouterInputs<typeof jobsRouter>
+
+const contractEngine = new ContractCalculationEngine()
+const paycheckEngine = new PaycheckCalculationEngine()
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:\d{2})?)?$/
+
+/**
+ * JSON has no dates; turn ISO date strings back into Dates so the bodies
+ * validate against the same schemas as tRPC input
+ */
+export function reviveDates(value: unknown): unknown {
+  if (typeof value === 'string') return ISO_DATE.test(value) ? new Date(value) : value
+  if (Array.isArray(value)) return value.map(reviveDates)
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, reviveDates(entry)]))
+  }
+  return value
+}
+
+function pageQuery(req: Request) {
+  const page = Number(req.query.page)
+  const limit = Number(req.query.limit)
+  return {
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+    limit: Number.isInteger(limit) && limit > 0 ? Math.min(limit, 100) : 20
+  }
+}
+
+const stringQuery = (value: unknown) => (typeof value === 'string' && value ? value : undefined)
+
+function endpoint(
+  method: Method,
+  path: string,
+  scope: ApiKeyScope,
+  documentation: { summary: string; description?: string; tag: string },
+  handler: Handler
+): ApiEndpoint {
+  return {
+    path,
+    method,
+    versions: {
+      [REST_API_VERSION]: {
+        handler: withApiKey(scope, handler),
+        documentation: {
+          summary: documentation.summary,
+          description: [documentation.description, `Requires an API key with the \`${scope}\` scope.`]
+            .filter(Boolean)
+            .join(' '),
+          tags: [documentation.tag],
+          security: [{ apiKey: [] }]
+        }
+      }
+    }
+  }
+}
+
+export const restEndpoints: ApiEndpoint[] = [
+  endpoint('GET', '/jobs', ApiKeyScope.JOBS_READ, {
+    summary: 'List your jobs',
+    description: 'Paginated with `page` and `limit`; filter with `status`.',
+    tag: 'Jobs'
+  }, async (req, res, ctx) => {
+    const jobs = jobsRouter.createCaller(ctx)
+    res.json(await jobs.getAll({
+      ...pageQuery(req),
+      userId: ctx.user!.id,
+      status: stringQuery(req.query.status) as JobStatus | undefined
+    }))
+  }),
+
+  endpoint('POST', '/jobs', ApiKeyScope.JOBS_WRITE, {
+    summary: 'Create a job',
+    description: 'Jobs are created as drafts; publish them with POST /jobs/{id}/publish.',
+    tag: 'Jobs'
+  }, async (req, res, ctx) => {
+    const jobs = jobsRouter.createCaller(ctx)
+    res.status(201).json(await jobs.create(reviveDates(req.body) as JobsInput['create']))
+  }),
+
+  endpoint('GET', '/jobs/:id', ApiKeyScope.JOBS_READ, { summary: 'Get one of your jobs', tag: 'Jobs' }, async (req, res, ctx) => {
+    const job = await jobsRouter.createCaller(ctx).getById({ id: req.params.id })
+    if (job.userId !== ctx.user!.id) throw new NotFoundError('Job', req.params.id)
+    res.json(job)
+  }),
+
+  endpoint('PATCH', '/jobs/:id', ApiKeyScope.JOBS_WRITE, { summary: 'Update a job', tag: 'Jobs' }, async (req, res, ctx) => {
+    const jobs = jobsRouter.createCaller(ctx)
+    res.json(await jobs.update(reviveDates({ ...req.body, id: req.params.id }) as JobsInput['update']))
+  }),
+
+  endpoint('DELETE', '/jobs/:id', ApiKeyScope.JOBS_WRITE, { summary: 'Delete a job', tag: 'Jobs' }, async (req, res, ctx) => {
+    res.json(await jobsRouter.createCaller(ctx).delete({ id: req.params.id }))
+  }),
+
+  endpoint('POST', '/jobs/:id/publish', ApiKeyScope.JOBS_WRITE, { summary: 'Publish a draft job', tag: 'Jobs' }, async (req, res, ctx) => {
+    res.json(await jobsRouter.createCaller(ctx).publish({ id: req.params.id }))
+  }),
+
+  endpoint('GET', '/jobs/:id/applications', ApiKeyScope.APPLICATIONS_READ, {
+    summary: 'List applications to one of your jobs',
+    description: 'Paginated with `page` and `limit`; filter with `status` or pipeline `stage`.',
+    tag: 'Applications'
+  }, async (req, res, ctx) => {
+    const applications = applicationsRouter.createCaller(ctx)
+    res.json(await applications.getByJob({
+      ...pageQuery(req),
+      jobId: req.params.id,
+      status: stringQuery(req.query.status) as ApplicationStatus | undefined,
+      stage: stringQuery(req.query.stage)
+    }))
+  }),
+
+  endpoint('GET', '/applications/:id', ApiKeyScope.APPLICATIONS_READ, { summary: 'Get an application', tag: 'Applications' }, async (req, res, ctx) => {
+    res.json(await applicationsRouter.createCaller(ctx).getById({ id: req.params.id }))
+  }),
+
+  endpoint('PATCH', '/applications/:id', ApiKeyScope.APPLICATIONS_WRITE, {
+    summary: 'Update an application\'s status',
+    description: 'Body: `{ "status": "REVIEWED", "notes": "..." }`.',
+    tag: 'Applications'
+  }, async (req, res, ctx) => {
+    const applications = applicationsRouter.createCaller(ctx)
+    res.json(await applications.updateStatus({
+      id: req.params.id,
+      status: req.body?.status,
+      notes: req.body?.notes
+    }))
+  }),
+
+  endpoint('GET', '/calculations', ApiKeyScope.CALCULATIONS_READ, {
+    summary: 'List your saved calculations',
+    description: 'Paginated with `page` and `limit`; filter with `type`.',
+    tag: 'Calculations'
+  }, async (req, res, ctx) => {
+    const { page, limit } = pageQuery(req)
+    const where = {
+      userId: ctx.user!.id,
+      // Deleted calculations are kept as sync tombstones
+      deletedAt: null,
+      ...(stringQuery(req.query.type) && { type: stringQuery(req.query.type) })
+    }
+
+    const [calculations, total] = await Promise.all([
+      ctx.db.savedCalculation.findMany({
+        where,
+        orderBy: { timestamp: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      ctx.db.savedCalculation.count({ where })
+    ])
+
+    res.json({ calculations, pagination: { page, limit, total, totalPages: Math.ceil(total / limit) } })
+  }),
+
+  endpoint('POST', '/calculations/contract', ApiKeyScope.CALCULATIONS_RUN, {
+    summary: 'Calculate a contract\'s take-home and effective rate',
+    tag: 'Calculations'
+  }, async (req, res) => {
+    res.json(await contractEngine.calculateContract(reviveDates(req.body) as ContractInput))
+  }),
+
+  endpoint('POST', '/calculations/paycheck', ApiKeyScope.CALCULATIONS_RUN, {
+    summary: 'Calculate a paycheck\'s withholding and net pay',
+    tag: 'Calculations'
+  }, async (req, res) => {
+    res.json(await paycheckEngine.calculatePaycheck(reviveDates(req.body) as PaycheckInput))
+  })
+]
+
+export const REST_API_DESCRIPTION =
+  `Manage your jobs and applications and run calculations. Authenticate with an API key in the ${API_KEY_HEADER} ` +
+  'header (or as a Bearer token) and pick the version with the API-Version header. Each key has its own ' +
+  'requests-per-minute limit, reported in the X-RateLimit-* response headers.'
@@ -0,0 +1,100 @@
+import express, { type NextFunction, type Request, type Response } from 'express'
+import { TRPCError } from '@trpc/server'
+import { ZodError } from 'zod'
+import { ApiVersionManager, generateOpenApiSpec, type DocumentationConfig } from '@locumtruerate/api-versioning'
+import {
+  AppError,
+  AuthenticationError,
+  AuthorizationError,
+  ErrorCode,
+  NotFoundError,
+  ValidationError,
+  errorHandler
+} from '@locumtruerate/shared'
+import { REST_API_DESCRIPTION, REST_API_VERSION, restEndpoints } from './endpoints'
+
+export { REST_API_VERSION, restEndpoints, reviveDates } from './endpoints'
+export { requireApiKey, readApiKey } from './auth'
+
+const DOCUMENTATION: DocumentationConfig = {
+  title: 'LocumTrueRate REST API',
+  description: REST_API_DESCRIPTION,
+  version: REST_API_VERSION,
+  servers: [
+    {
+      url: process.env.REST_API_URL || 'https://api.locumtruerate.com',
+      description: 'Production server'
+    }
+  ],
+  contact: {
+    name: 'LocumTrueRate Support',
+    email: 'support@locumtruerate.com',
+    url: 'https://locumtruerate.com/support'
+  },
+  tags: [
+    { name: 'Jobs', description: 'Your job postings' },
+    { name: 'Applications', description: 'Applications to your jobs' },
+    { name: 'Calculations', description: 'Contract and paycheck calculations' }
+  ]
+}
+
+/**
+ * tRPC and validation errors as the REST error format
+ */
+export function toAppError(error: unknown): Error {
+  if (error instanceof AppError) return error
+  if (error instanceof ZodError) return new ValidationError('Invalid request', { issues: error.issues })
+
+  if (error instanceof TRPCError) {
+    const issues = error.cause instanceof ZodError ? error.cause.issues : undefined
+    switch (error.code) {
+      case 'BAD_REQUEST':
+        return new ValidationError(issues ? 'Invalid request' : error.message, issues && { issues })
+      case 'UNAUTHORIZED':
+        return new AuthenticationError(error.message)
+      case 'FORBIDDEN':
+        return new AuthorizationError(error.message)
+      case 'NOT_FOUND':
+        return new AppError(ErrorCode.RESOURCE_NOT_FOUND, error.message, 404)
+      case 'CONFLICT':
+        return new AppError(ErrorCode.DUPLICATE_RESOURCE, error.message, 409)
+      case 'TOO_MANY_REQUESTS':
+        return new AppError(ErrorCode.TOO_MANY_REQUESTS, error.message, 429)
+    }
+  }
+
+  return error instanceof Error ? error : new Error(String(error))
+}
+
+/**
+ * The public REST API as an Express app. Clients pick a version with the
+ * API-Version header; the OpenAPI document is served at /openapi.json.
+ */
+export function createRestApi() {
+  const app = express()
+  app.disable('x-powered-by')
+  app.use(express.json({ limit: '1mb' }))
+
+  const manager = new ApiVersionManager({
+    method: 'header',
+    header: 'api-version',
+    defaultVersion: REST_API_VERSION,
+    supportedVersions: [REST_API_VERSION],
+    enableDocumentation: false
+  })
+  restEndpoints.forEach(endpoint => manager.registerEndpoint(endpoint))
+
+  app.get('/openapi.json', (req, res) => {
+    res.json(generateOpenApiSpec(DOCUMENTATION, restEndpoints, REST_API_VERSION))
+  })
+  app.use(manager.getRouter())
+
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    next(new NotFoundError(`${req.method} ${req.path}`))
+  })
+  app.use((error: unknown, req: Request, res: Response, _next: NextFunction) => {
+    errorHandler(toAppError(error), req, res)
+  })
+
+  return app
+}
@@ -0,0 +1,9 @@
+import { logger } from '../context'
+import { createRestApi } from './index'
+
+// Standalone REST API server, e.g. behind api.locumtruerate.com
+const port = Number(process.env.REST_API_PORT) || 4000
+
+createRestApi().listen(port, () => {
+  logger.info('REST API listening', { port })
+})
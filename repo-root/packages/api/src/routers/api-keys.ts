@@ -0,0 +1,119 @@
+import { z } from 'zod'
+import { createTRPCRouter, protectedProcedure } from '../trpc'
+import { TRPCError } from '@trpc/server'
+import { ApiKeyScope, DEFAULT_API_KEY_RATE_LIMIT } from '@locumtruerate/types'
+import type { Context } from '../context'
+import { ApiKeyService, hasApiAccess } from '../services/api-keys'
+
+const MAX_ACTIVE_KEYS_PER_USER = 20
+
+// Everything about a key except its hash
+const API_KEY_FIELDS = {
+  id: true,
+  name: true,
+  prefix: true,
+  permissions: true,
+  rateLimit: true,
+  lastUsedAt: true,
+  expiresAt: true,
+  revokedAt: true,
+  createdAt: true
+} as const
+
+async function requireApiAccess(ctx: Context) {
+  const user = await ctx.db.user.findUnique({
+    where: { id: ctx.user!.id },
+    select: { subscriptionTier: true, subscriptionStatus: true }
+  })
+
+  if (!user || !hasApiAccess(user)) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'API access requires an active Enterprise subscription.'
+    })
+  }
+}
+
+export const apiKeysRouter = createTRPCRouter({
+  // Whether the user's plan allows creating keys
+  access: protectedProcedure
+    .query(async ({ ctx }) => {
+      const user = await ctx.db.user.findUnique({
+        where: { id: ctx.user.id },
+        select: { subscriptionTier: true, subscriptionStatus: true }
+      })
+
+      return { apiAccess: !!user && hasApiAccess(user) }
+    }),
+
+  list: protectedProcedure
+    .query(async ({ ctx }) => {
+      return ctx.db.apiKey.findMany({
+        where: { userId: ctx.user.id },
+        select: API_KEY_FIELDS,
+        orderBy: [{ revokedAt: { sort: 'desc', nulls: 'first' } }, { createdAt: 'desc' }]
+      })
+    }),
+
+  // The key itself is only ever returned here
+  create: protectedProcedure
+    .input(z.object({
+      name: z.string().min(1).max(100),
+      permissions: z.array(z.nativeEnum(ApiKeyScope)).min(1, 'Choose at least one scope'),
+      rateLimit: z.number().int().min(1).max(600).default(DEFAULT_API_KEY_RATE_LIMIT),
+      expiresAt: z.date().optional()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await requireApiAccess(ctx)
+
+      if (input.expiresAt && input.expiresAt <= new Date()) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Expiration must be in the future'
+        })
+      }
+
+      const active = await ctx.db.apiKey.count({ where: { userId: ctx.user.id, revokedAt: null } })
+      if (active >= MAX_ACTIVE_KEYS_PER_USER) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `You can have at most ${MAX_ACTIVE_KEYS_PER_USER} active API keys`
+        })
+      }
+
+      const { apiKey, key } = await new ApiKeyService(ctx.db).create(ctx.user.id, {
+        name: input.name,
+        permissions: [...new Set(input.permissions)],
+        rateLimit: input.rateLimit,
+        expiresAt: input.expiresAt
+      })
+
+      ctx.logger.info('API key created', { apiKeyId: apiKey.id, userId: ctx.user.id })
+
+      const { key: _hash, userId: _userId, ...fields } = apiKey
+      return { ...fields, key }
+    }),
+
+  revoke: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const apiKey = await ctx.db.apiKey.findUnique({ where: { id: input.id } })
+
+      if (!apiKey || apiKey.userId !== ctx.user.id) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'API key not found'
+        })
+      }
+      if (apiKey.revokedAt) return { success: true }
+
+      await ctx.db.apiKey.update({
+        where: { id: input.id },
+        data: { revokedAt: new Date() }
+      })
+
+      ctx.logger.info('API key revoked', { apiKeyId: apiKey.id, userId: ctx.user.id })
+
+      return { success: true }
+    })
+})
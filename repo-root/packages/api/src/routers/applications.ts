@@ -1,8 +1,12 @@
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
 import { createTRPCRouter, publicProcedure, protectedProcedure } from '../trpc';
-import { ApplicationStatus } from '@locumtruerate/database';
 import { nanoid } from 'nanoid';
+import { logCredentialAccess } from '../context';
+import { ApplicationEventType, ApplicationStatus, LICENSE_STATES, WebhookEventType, isKnownSpecialty } from '@locumtruerate/types';
+import { ApplicationPipelineService, pipelineStagesFor } from '../services/pipeline';
+import { rescoreJobApplications, scoreApplication } from '../services/application-scoring';
+import { WebhookService } from '../services/webhooks';
 
 // Validation schemas
 const createApplicationSchema = z.object({
@@ -15,11 +19,16 @@ const createApplicationSchema = z.object({
   currentRole: z.string().optional(),
   expectedSalary: z.string().optional(),
   noticePeriod: z.string().optional(),
+  specialty: z.string().refine(isKnownSpecialty, 'Unknown specialty').optional(),
+  // States the applicant is licensed in, beyond any attached credentials
+  licenseStates: z.array(z.enum(LICENSE_STATES)).optional(),
   resumeUrl: z.string().url('Invalid resume URL').optional(),
   coverLetter: z.string().min(50, 'Cover letter must be at least 50 characters'),
   portfolioUrl: z.string().url('Invalid portfolio URL').optional(),
   linkedinUrl: z.string().url('Invalid LinkedIn URL').optional(),
-  additionalInfo: z.string().optional()
+  additionalInfo: z.string().optional(),
+  // Credentials from the applicant's wallet to send with the application
+  credentialIds: z.array(z.string()).max(25).optional()
 });
 
 const updateApplicationStatusSchema = z.object({
@@ -37,6 +46,8 @@ const addCommentSchema = z.object({
 const applicationFiltersSchema = z.object({
   jobId: z.string().optional(),
   status: z.nativeEnum(ApplicationStatus).optional(),
+  // Pipeline stage key
+  stage: z.string().optional(),
   userId: z.string().optional(),
   minScore: z.number().min(0).max(100).optional(),
   maxScore: z.number().min(0).max(100).optional(),
@@ -50,53 +61,6 @@ const paginationSchema = z.object({
   sortOrder: z.enum(['asc', 'desc']).default('desc')
 });
 
-// AI Scoring function (placeholder)
-const calculateApplicationScore = async (application: any): Promise<{ score: number; breakdown: any }> => {
-  // This would integrate with an AI service in production
-  // For now, return a mock score based on basic criteria
-  
-  let score = 0;
-  const breakdown = {
-    experience: 0,
-    education: 0,
-    skills: 0,
-    coverLetter: 0,
-    overall: 0
-  };
-
-  // Experience scoring (0-30 points)
-  if (application.experience >= 5) {
-    breakdown.experience = 30;
-  } else if (application.experience >= 2) {
-    breakdown.experience = 20;
-  } else if (application.experience >= 1) {
-    breakdown.experience = 10;
-  }
-
-  // Cover letter scoring (0-25 points)
-  const coverLetterLength = application.coverLetter.length;
-  if (coverLetterLength >= 500) {
-    breakdown.coverLetter = 25;
-  } else if (coverLetterLength >= 200) {
-    breakdown.coverLetter = 20;
-  } else if (coverLetterLength >= 100) {
-    breakdown.coverLetter = 15;
-  } else {
-    breakdown.coverLetter = 10;
-  }
-
-  // Additional points for portfolio and LinkedIn
-  if (application.portfolioUrl) breakdown.skills += 10;
-  if (application.linkedinUrl) breakdown.skills += 5;
-  if (application.resumeUrl) breakdown.skills += 10;
-
-  // Calculate total score
-  score = breakdown.experience + breakdown.education + breakdown.skills + breakdown.coverLetter;
-  breakdown.overall = score;
-
-  return { score: Math.min(score, 100), breakdown };
-};
-
 export const applicationsRouter = createTRPCRouter({
   create: publicProcedure
     .input(createApplicationSchema)
@@ -111,11 +75,14 @@ export const applicationsRouter = createTRPCRouter({
         currentRole,
         expectedSalary,
         noticePeriod,
+        specialty,
+        licenseStates = [],
         resumeUrl,
         coverLetter,
         portfolioUrl,
         linkedinUrl,
-        additionalInfo
+        additionalInfo,
+        credentialIds = []
       } = input;
 
       // Verify job exists and is active
@@ -128,7 +95,12 @@ export const applicationsRouter = createTRPCRouter({
         include: {
           company: {
             select: {
-              name: true
+              name: true,
+              organization: {
+                select: {
+                  pipelineStages: true
+                }
+              }
             }
           }
         }
@@ -156,15 +128,43 @@ export const applicationsRouter = createTRPCRouter({
         });
       }
 
+      // Credentials can only be attached from the signed-in applicant's wallet
+      const credentials = credentialIds.length > 0 && ctx.user
+        ? await ctx.db.credential.findMany({
+            where: {
+              id: { in: credentialIds },
+              userId: ctx.user.id,
+              deletedAt: null
+            }
+          })
+        : [];
+
+      if (credentialIds.length > 0) {
+        if (credentials.length !== new Set(credentialIds).size) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'One or more credentials could not be found in your wallet'
+          });
+        }
+      }
+
       try {
-        // Calculate AI score
-        const { score, breakdown } = await calculateApplicationScore({
+        // Score the application against the job's requirements
+        const scoredAt = new Date();
+        const { score, breakdown } = scoreApplication({
           experience,
+          currentRole,
           coverLetter,
-          portfolioUrl,
-          linkedinUrl,
-          resumeUrl
-        });
+          specialty,
+          licenseStates,
+          expectedSalary,
+          noticePeriod,
+          appliedAt: scoredAt,
+          credentials
+        }, job, scoredAt);
+
+        // New applications start in the first stage of the pipeline
+        const [firstStage] = pipelineStagesFor(job.company.organization);
 
         // Create application
         const application = await ctx.db.application.create({
@@ -179,6 +179,8 @@ export const applicationsRouter = createTRPCRouter({
             currentRole,
             expectedSalary,
             noticePeriod,
+            specialty,
+            licenseStates,
             resumeUrl,
             coverLetter,
             portfolioUrl,
@@ -186,8 +188,23 @@ export const applicationsRouter = createTRPCRouter({
             additionalInfo,
             score,
             scoreBreakdown: breakdown,
+            scoredAt,
             ipAddress: ctx.request.ipAddress,
-            legacyId: nanoid(10) // For backward compatibility
+            legacyId: nanoid(10), // For backward compatibility
+            stage: firstStage.key,
+            stageEnteredAt: new Date(),
+            credentials: {
+              create: [...new Set(credentialIds)].map(credentialId => ({ credentialId }))
+            },
+            events: {
+              create: {
+                type: ApplicationEventType.APPLIED,
+                actorId: ctx.user?.id,
+                toStage: firstStage.key,
+                stageName: firstStage.name,
+                toStatus: 'PENDING'
+              }
+            }
           },
           include: {
             job: {
@@ -204,6 +221,13 @@ export const applicationsRouter = createTRPCRouter({
           }
         });
 
+        for (const credentialId of new Set(credentialIds)) {
+          await logCredentialAccess(ctx, 'phi.access', credentialId, 'Credential shared with employer in application', {
+            applicationId: application.id,
+            jobId
+          });
+        }
+
         // Increment application count on job
         await ctx.db.job.update({
           where: { id: jobId },
@@ -240,6 +264,20 @@ export const applicationsRouter = createTRPCRouter({
         // Send notification emails to employer and applicant
         await sendApplicationNotificationEmails(application);
 
+        await new WebhookService(ctx.db).emitForJob(jobId, WebhookEventType.APPLICATION_CREATED, {
+          applicationId: application.id,
+          jobId,
+          jobTitle: job.title,
+          name: application.name,
+          email: application.email,
+          stage: application.stage,
+          status: application.status,
+          score: application.score,
+          appliedAt: application.appliedAt
+        }).catch((error) => {
+          ctx.logger.error('Failed to queue application webhooks', { applicationId: application.id, error });
+        });
+
         return {
           id: application.id,
           jobTitle: job.title,
@@ -316,6 +354,11 @@ export const applicationsRouter = createTRPCRouter({
             orderBy: {
               createdAt: 'desc'
             }
+          },
+          credentials: {
+            include: {
+              credential: true
+            }
           }
         }
       });
@@ -327,6 +370,15 @@ export const applicationsRouter = createTRPCRouter({
         });
       }
 
+      const purpose = application.userId === ctx.user.id
+        ? 'Credential viewed by owner on application'
+        : 'Credential reviewed by employer on application';
+      for (const { credentialId } of application.credentials) {
+        await logCredentialAccess(ctx, 'phi.access', credentialId, purpose, {
+          applicationId: application.id
+        });
+      }
+
       return application;
     }),
 
@@ -344,7 +396,7 @@ export const applicationsRouter = createTRPCRouter({
         });
       }
 
-      const { jobId, status, minScore, maxScore, search, page, limit, sortBy, sortOrder } = input;
+      const { jobId, status, stage, minScore, maxScore, search, page, limit, sortBy, sortOrder } = input;
 
       // Verify user owns the job
       const job = await ctx.db.job.findFirst({
@@ -364,6 +416,7 @@ export const applicationsRouter = createTRPCRouter({
       const where: any = { jobId };
 
       if (status) where.status = status;
+      if (stage) where.stage = stage;
       if (minScore !== undefined) where.score = { gte: minScore };
       if (maxScore !== undefined) {
         where.score = { ...where.score, lte: maxScore };
@@ -396,20 +449,41 @@ export const applicationsRouter = createTRPCRouter({
             currentCompany: true,
             currentRole: true,
             expectedSalary: true,
+            specialty: true,
             score: true,
+            scoreBreakdown: true,
             status: true,
             appliedAt: true,
             reviewedAt: true,
+            stage: true,
+            stageEnteredAt: true,
             resumeUrl: true,
             portfolioUrl: true,
-            linkedinUrl: true
+            linkedinUrl: true,
+            credentials: {
+              select: {
+                credential: {
+                  select: {
+                    type: true,
+                    issuingState: true,
+                    verificationStatus: true
+                  }
+                }
+              }
+            }
           }
         }),
         ctx.db.application.count({ where })
       ]);
 
       return {
-        applications,
+        applications: applications.map(({ credentials, ...application }) => ({
+          ...application,
+          // States where the applicant's license was verified with the state board
+          verifiedLicenseStates: credentials
+            .filter(({ credential }) => credential.type === 'STATE_LICENSE' && credential.verificationStatus === 'VERIFIED')
+            .map(({ credential }) => credential.issuingState)
+        })),
         pagination: {
           page,
           limit,
@@ -514,14 +588,8 @@ export const applicationsRouter = createTRPCRouter({
         });
       }
 
-      const updatedApplication = await ctx.db.application.update({
-        where: { id },
-        data: {
-          status,
-          reviewedAt: new Date(),
-          reviewedBy: ctx.user.id
-        }
-      });
+      const updatedApplication = await new ApplicationPipelineService(ctx.db)
+        .changeStatus(application, status, ctx.user.id, notes);
 
       // Add comment if notes provided
       if (notes) {
@@ -548,6 +616,36 @@ export const applicationsRouter = createTRPCRouter({
       return updatedApplication;
     }),
 
+  // Re-score every application for a job against its current requirements
+  rescoreByJob: protectedProcedure
+    .input(z.object({ jobId: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      const job = await ctx.db.job.findFirst({
+        where: {
+          id: input.jobId,
+          userId: ctx.user.id
+        },
+        select: { id: true }
+      });
+
+      if (!job) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'You can only re-score applications for jobs you own'
+        });
+      }
+
+      const rescored = await rescoreJobApplications(ctx.db, job.id);
+
+      ctx.logger.info('Applications re-scored', {
+        jobId: job.id,
+        rescored,
+        userId: ctx.user.id
+      });
+
+      return { rescored };
+    }),
+
   addComment: protectedProcedure
     .input(addCommentSchema)
     .mutation(async ({ input, ctx }) => {
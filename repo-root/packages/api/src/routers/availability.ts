@@ -0,0 +1,104 @@
+import { z } from 'zod'
+import { createTRPCRouter, protectedProcedure } from '../trpc'
+import { TRPCError } from '@trpc/server'
+import { LICENSE_STATES, Profession, isKnownSpecialty } from '@locumtruerate/types'
+import { JobMatchingService } from '../services/job-matching'
+
+const UpdatePreferencesSchema = z.object({
+  profession: z.nativeEnum(Profession).nullable().optional(),
+  specialties: z.array(z.string().refine(isKnownSpecialty, 'Unknown specialty')).optional(),
+  desiredStates: z.array(z.enum(LICENSE_STATES)).optional(),
+  licensedStates: z.array(z.enum(LICENSE_STATES)).optional(),
+  minHourlyRate: z.number().int().min(0).max(2000).nullable().optional(),
+  digestEnabled: z.boolean().optional()
+})
+
+const AvailabilityBlockSchema = z.object({
+  startDate: z.date(),
+  endDate: z.date(),
+  note: z.string().max(200).optional()
+}).refine(
+  block => block.endDate >= block.startDate,
+  { message: 'End date must be on or after the start date', path: ['endDate'] }
+)
+
+export const availabilityRouter = createTRPCRouter({
+  // The user's availability and matching preferences, or null if not set up
+  get: protectedProcedure
+    .query(async ({ ctx }) => {
+      return ctx.db.candidateAvailability.findUnique({
+        where: { userId: ctx.user.id },
+        include: {
+          blocks: { orderBy: { startDate: 'asc' } }
+        }
+      })
+    }),
+
+  // Set desired states, specialties, licenses and minimum rate
+  updatePreferences: protectedProcedure
+    .input(UpdatePreferencesSchema)
+    .mutation(async ({ ctx, input }) => {
+      return ctx.db.candidateAvailability.upsert({
+        where: { userId: ctx.user.id },
+        create: { userId: ctx.user.id, ...input },
+        update: input,
+        include: {
+          blocks: { orderBy: { startDate: 'asc' } }
+        }
+      })
+    }),
+
+  // Publish a block of dates the user is available to work
+  addBlock: protectedProcedure
+    .input(AvailabilityBlockSchema)
+    .mutation(async ({ ctx, input }) => {
+      const availability = await ctx.db.candidateAvailability.upsert({
+        where: { userId: ctx.user.id },
+        create: { userId: ctx.user.id },
+        update: {}
+      })
+
+      return ctx.db.availabilityBlock.create({
+        data: {
+          availabilityId: availability.id,
+          startDate: input.startDate,
+          endDate: input.endDate,
+          note: input.note
+        }
+      })
+    }),
+
+  // Remove an availability block
+  removeBlock: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const block = await ctx.db.availabilityBlock.findUnique({
+        where: { id: input.id },
+        include: { availability: { select: { userId: true } } }
+      })
+
+      if (!block || block.availability.userId !== ctx.user.id) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Availability block not found'
+        })
+      }
+
+      await ctx.db.availabilityBlock.delete({
+        where: { id: input.id }
+      })
+
+      return { success: true }
+    }),
+
+  // Active jobs ranked against the user's availability and preferences
+  matches: protectedProcedure
+    .input(z.object({
+      limit: z.number().int().min(1).max(50).default(20),
+      minScore: z.number().min(0).max(100).optional()
+    }).default({}))
+    .query(async ({ ctx, input }) => {
+      const matchingService = new JobMatchingService(ctx.db)
+      return matchingService.findMatches(ctx.user.id, input)
+    })
+})
@@ -1,7 +1,10 @@
 import { z } from 'zod'
-import { createTRPCRouter, privateProcedure, publicProcedure } from '../trpc'
+import { createTRPCRouter, protectedProcedure, publicProcedure } from '../trpc'
 import { TRPCError } from '@trpc/server'
-import { v4 as uuidv4 } from 'uuid'
+import type { Context } from '../context'
+import { CalculationSyncRecord, MAX_CALCULATION_SYNC_CHANGES } from '@locumtruerate/types'
+import { CalculationShareService, shareUrl } from '../services/calculation-sharing'
+import { CalculationSyncService, SYNC_CURSOR_PATTERN, touchFields } from '../services/calculation-sync'
 
 // Schemas
 const CalculationTypeSchema = z.enum(['contract', 'paycheck', 'comparison'])
@@ -31,17 +34,49 @@ const UpdateCalculationSchema = z.object({
 const ShareCalculationSchema = z.object({
   id: z.string(),
   userId: z.string(),
-  expiresInDays: z.number().optional(),
-  isPublic: z.boolean().optional()
+  label: z.string().max(100).optional(),
+  // Hide filing status, deductions and other personal tax details
+  redactPersonal: z.boolean().default(true),
+  password: z.string().min(4).max(100).optional(),
+  expiresInDays: z.number().int().min(1).max(365).optional()
 })
 
+const CalculationSyncRecordSchema = z.object({
+  id: z.string().min(1).max(100),
+  type: CalculationTypeSchema,
+  input: z.record(z.unknown()),
+  result: z.record(z.unknown()),
+  name: z.string().max(200).nullish(),
+  tags: z.array(z.string()).optional(),
+  isFavorite: z.boolean().optional(),
+  metadata: z.record(z.any()).nullish(),
+  timestamp: z.number(),
+  fieldUpdatedAt: z.record(z.number()),
+  deletedAt: z.number().nullish()
+})
+
+async function findOwnCalculation(ctx: Context, id: string, action: string) {
+  const calculation = await ctx.db.savedCalculation.findUnique({
+    where: { id }
+  })
+
+  if (!calculation || calculation.userId !== ctx.user!.id || calculation.deletedAt) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: `Calculation not found or you do not have permission to ${action} it`
+    })
+  }
+
+  return calculation
+}
+
 export const calculationsRouter = createTRPCRouter({
   // Save a new calculation
-  save: privateProcedure
+  save: protectedProcedure
     .input(SaveCalculationSchema)
     .mutation(async ({ ctx, input }) => {
       // Verify user owns this calculation
-      if (input.userId !== ctx.userId) {
+      if (input.userId !== ctx.user.id) {
         throw new TRPCError({
           code: 'FORBIDDEN',
           message: 'You can only save your own calculations'
@@ -50,7 +85,6 @@ export const calculationsRouter = createTRPCRouter({
 
       const calculation = await ctx.db.savedCalculation.create({
         data: {
-          id: uuidv4(),
           userId: input.userId,
           type: input.type,
           input: input.input,
@@ -68,20 +102,12 @@ export const calculationsRouter = createTRPCRouter({
     }),
 
   // Update an existing calculation
-  update: privateProcedure
+  update: protectedProcedure
     .input(UpdateCalculationSchema)
     .mutation(async ({ ctx, input }) => {
-      // Verify user owns this calculation
-      const existing = await ctx.db.savedCalculation.findUnique({
-        where: { id: input.id }
-      })
-
-      if (!existing || existing.userId !== ctx.userId) {
-        throw new TRPCError({
-          code: 'NOT_FOUND',
-          message: 'Calculation not found or you do not have permission to update it'
-        })
-      }
+      const existing = await findOwnCalculation(ctx, input.id, 'update')
+      const now = new Date()
+      const { id, userId, ...changes } = input
 
       const updated = await ctx.db.savedCalculation.update({
         where: { id: input.id },
@@ -91,41 +117,38 @@ export const calculationsRouter = createTRPCRouter({
           isFavorite: input.isFavorite,
           isPublic: input.isPublic,
           metadata: input.metadata,
-          updatedAt: new Date()
+          fieldUpdatedAt: touchFields(
+            existing,
+            Object.keys(changes).filter(field => changes[field as keyof typeof changes] !== undefined),
+            now
+          ),
+          updatedAt: now
         }
       })
 
       return updated
     }),
 
-  // Delete a calculation
-  delete: privateProcedure
+  // Delete a calculation. The row stays behind as a tombstone so synced
+  // devices remove their copies too.
+  delete: protectedProcedure
     .input(z.object({
       id: z.string(),
       userId: z.string()
     }))
     .mutation(async ({ ctx, input }) => {
-      // Verify user owns this calculation
-      const existing = await ctx.db.savedCalculation.findUnique({
-        where: { id: input.id }
-      })
+      await findOwnCalculation(ctx, input.id, 'delete')
 
-      if (!existing || existing.userId !== ctx.userId) {
-        throw new TRPCError({
-          code: 'NOT_FOUND',
-          message: 'Calculation not found or you do not have permission to delete it'
-        })
-      }
-
-      await ctx.db.savedCalculation.delete({
-        where: { id: input.id }
+      await ctx.db.savedCalculation.update({
+        where: { id: input.id },
+        data: { deletedAt: new Date() }
       })
 
       return { success: true }
     }),
 
   // Get user's calculations
-  getUserCalculations: privateProcedure
+  getUserCalculations: protectedProcedure
     .input(z.object({
       userId: z.string(),
       type: CalculationTypeSchema.optional(),
@@ -135,7 +158,7 @@ export const calculationsRouter = createTRPCRouter({
     }))
     .query(async ({ ctx, input }) => {
       // Verify user is requesting their own calculations
-      if (input.userId !== ctx.userId) {
+      if (input.userId !== ctx.user.id) {
         throw new TRPCError({
           code: 'FORBIDDEN',
           message: 'You can only view your own calculations'
@@ -143,7 +166,8 @@ export const calculationsRouter = createTRPCRouter({
       }
 
       const where: any = {
-        userId: input.userId
+        userId: input.userId,
+        deletedAt: null
       }
 
       if (input.type) {
@@ -164,80 +188,125 @@ export const calculationsRouter = createTRPCRouter({
       return calculations
     }),
 
-  // Get a single calculation
-  getCalculation: publicProcedure
+  // Sync a device's calculator history: apply its changes and return what
+  // changed on the server since `since`
+  sync: protectedProcedure
+    .input(z.object({
+      changes: z.array(CalculationSyncRecordSchema).max(MAX_CALCULATION_SYNC_CHANGES),
+      since: z.string().max(200).regex(SYNC_CURSOR_PATTERN, 'Invalid sync cursor').optional()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      return new CalculationSyncService(ctx.db).sync(ctx.user.id, {
+        changes: input.changes as CalculationSyncRecord[],
+        since: input.since
+      })
+    }),
+
+  // Get one of the user's calculations. Others see calculations only
+  // through share links.
+  getCalculation: protectedProcedure
     .input(z.object({
       id: z.string()
     }))
     .query(async ({ ctx, input }) => {
-      const calculation = await ctx.db.savedCalculation.findUnique({
-        where: { id: input.id }
+      return findOwnCalculation(ctx, input.id, 'view')
+    }),
+
+  // Create a share link. Each call makes a new link with its own token,
+  // password and expiry, so links can be revoked one at a time.
+  share: protectedProcedure
+    .input(ShareCalculationSchema)
+    .mutation(async ({ ctx, input }) => {
+      await findOwnCalculation(ctx, input.id, 'share')
+
+      const expiresAt = input.expiresInDays
+        ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000)
+        : undefined
+
+      const link = await new CalculationShareService(ctx.db).createLink(input.id, ctx.user.id, {
+        label: input.label,
+        redactPersonal: input.redactPersonal,
+        password: input.password,
+        expiresAt
+      })
+
+      return {
+        id: link.id,
+        calculationId: input.id,
+        shareableLink: shareUrl(link.token),
+        expiresAt: link.expiresAt
+      }
+    }),
+
+  // Links to a calculation with their view counts
+  shareLinks: protectedProcedure
+    .input(z.object({ calculationId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      await findOwnCalculation(ctx, input.calculationId, 'view')
+      return new CalculationShareService(ctx.db).listLinks(input.calculationId)
+    }),
+
+  revokeShareLink: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const link = await ctx.db.calculationShareLink.findUnique({
+        where: { id: input.id },
+        include: { calculation: { select: { userId: true } } }
       })
 
-      if (!calculation) {
+      if (!link || link.calculation.userId !== ctx.user.id) {
         throw new TRPCError({
           code: 'NOT_FOUND',
-          message: 'Calculation not found'
+          message: 'Share link not found'
         })
       }
 
-      // Check if calculation is public or user owns it
-      if (!calculation.isPublic && calculation.userId !== ctx.userId) {
-        throw new TRPCError({
-          code: 'FORBIDDEN',
-          message: 'You do not have permission to view this calculation'
+      if (!link.revokedAt) {
+        await ctx.db.calculationShareLink.update({
+          where: { id: input.id },
+          data: { revokedAt: new Date() }
         })
       }
 
-      return calculation
+      return { success: true }
     }),
 
-  // Share a calculation
-  share: privateProcedure
-    .input(ShareCalculationSchema)
+  // Open a share link. A mutation because each successful open is counted.
+  // Password, lockout and expiry problems come back as a status for the
+  // page to handle; unknown and revoked links are not found.
+  getShared: publicProcedure
+    .input(z.object({
+      token: z.string().min(1).max(100),
+      password: z.string().max(100).optional(),
+      referrer: z.string().max(500).optional()
+    }))
     .mutation(async ({ ctx, input }) => {
-      // Verify user owns this calculation
-      const existing = await ctx.db.savedCalculation.findUnique({
-        where: { id: input.id }
+      const result = await new CalculationShareService(ctx.db).open(input.token, input.password, {
+        userId: ctx.user?.id,
+        ipAddress: ctx.request.ipAddress,
+        userAgent: ctx.request.userAgent,
+        referrer: input.referrer
       })
 
-      if (!existing || existing.userId !== ctx.userId) {
+      if (result.status === 'not_found') {
         throw new TRPCError({
           code: 'NOT_FOUND',
-          message: 'Calculation not found or you do not have permission to share it'
+          message: 'This link is no longer available'
         })
       }
 
-      // Generate shareable link
-      const shareableLink = `${process.env.NEXT_PUBLIC_APP_URL}/share/${input.id}`
-      
-      // Calculate expiration date
-      const expiresAt = input.expiresInDays
-        ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000)
-        : null
-
-      // Update calculation with sharing info
-      const updated = await ctx.db.savedCalculation.update({
-        where: { id: input.id },
-        data: {
-          isPublic: input.isPublic || false,
-          shareableLink,
-          expiresAt,
-          metadata: {
-            ...existing.metadata,
-            sharedAt: new Date().toISOString()
-          }
-        }
-      })
+      return result
+    }),
 
-      return {
-        ...updated,
-        shareableLink
-      }
+  // Title and headline figure for link previews; does not count as a view
+  getSharePreview: publicProcedure
+    .input(z.object({ token: z.string().min(1).max(100) }))
+    .query(async ({ ctx, input }) => {
+      return new CalculationShareService(ctx.db).preview(input.token)
     }),
 
   // Get calculation statistics for a user
-  getStats: privateProcedure
+  getStats: protectedProcedure
     .input(z.object({
       userId: z.string(),
       startDate: z.date().optional(),
@@ -245,7 +314,7 @@ export const calculationsRouter = createTRPCRouter({
     }))
     .query(async ({ ctx, input }) => {
       // Verify user is requesting their own stats
-      if (input.userId !== ctx.userId) {
+      if (input.userId !== ctx.user.id) {
         throw new TRPCError({
           code: 'FORBIDDEN',
           message: 'You can only view your own statistics'
@@ -253,7 +322,8 @@ export const calculationsRouter = createTRPCRouter({
       }
 
       const where: any = {
-        userId: input.userId
+        userId: input.userId,
+        deletedAt: null
       }
 
       if (input.startDate || input.endDate) {
@@ -0,0 +1,246 @@
+import { z } from 'zod'
+import { createTRPCRouter, protectedProcedure } from '../trpc'
+import { TRPCError } from '@trpc/server'
+import {
+  CredentialType,
+  LICENSE_STATES,
+  STATE_ISSUED_CREDENTIAL_TYPES
+} from '@locumtruerate/types'
+import { logCredentialAccess } from '../context'
+import { LicenseVerificationService } from '../services/license-verification'
+
+const CredentialFieldsSchema = z.object({
+  type: z.nativeEnum(CredentialType),
+  name: z.string().min(1).max(200),
+  issuingState: z.enum(LICENSE_STATES).nullable().optional(),
+  issuingAuthority: z.string().max(200).nullable().optional(),
+  number: z.string().max(100).nullable().optional(),
+  issuedAt: z.date().nullable().optional(),
+  expiresAt: z.date().nullable().optional(),
+  documentUrl: z.string().url('Invalid document URL').nullable().optional()
+})
+
+type CredentialFields = Partial<z.infer<typeof CredentialFieldsSchema>>
+
+// Changing any of these means the credential has to be verified again
+const VERIFIED_FIELDS = ['type', 'issuingState', 'issuingAuthority', 'number', 'issuedAt', 'expiresAt', 'documentUrl'] as const
+
+/**
+ * Problem with a credential's fields, or null if they are consistent. Used
+ * on create and on the merged record when updating.
+ */
+function credentialIssue(credential: CredentialFields): string | null {
+  if (credential.type && STATE_ISSUED_CREDENTIAL_TYPES.includes(credential.type) && !credential.issuingState) {
+    return 'Issuing state is required for state licenses and DEA registrations'
+  }
+  if (credential.issuedAt && credential.expiresAt && credential.expiresAt <= credential.issuedAt) {
+    return 'Expiration date must be after the issue date'
+  }
+  return null
+}
+
+const CreateCredentialSchema = CredentialFieldsSchema.superRefine((credential, refinement) => {
+  const issue = credentialIssue(credential)
+  if (issue) {
+    refinement.addIssue({ code: z.ZodIssueCode.custom, message: issue })
+  }
+})
+
+const UpdateCredentialSchema = CredentialFieldsSchema.partial().extend({
+  id: z.string()
+})
+
+export const credentialsRouter = createTRPCRouter({
+  // The user's credential wallet, soonest to expire first
+  list: protectedProcedure
+    .input(z.object({
+      type: z.nativeEnum(CredentialType).optional()
+    }).default({}))
+    .query(async ({ ctx, input }) => {
+      const credentials = await ctx.db.credential.findMany({
+        where: {
+          userId: ctx.user.id,
+          deletedAt: null,
+          ...(input.type && { type: input.type })
+        },
+        orderBy: [{ expiresAt: 'asc' }, { name: 'asc' }]
+      })
+
+      await logCredentialAccess(ctx, 'phi.access', ctx.user.id, 'Credential wallet viewed by owner', {
+        credentialCount: credentials.length
+      })
+
+      return credentials
+    }),
+
+  // Get a single credential
+  get: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const credential = await ctx.db.credential.findFirst({
+        where: { id: input.id, userId: ctx.user.id, deletedAt: null }
+      })
+
+      if (!credential) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Credential not found'
+        })
+      }
+
+      await logCredentialAccess(ctx, 'phi.access', credential.id, 'Credential viewed by owner')
+
+      return credential
+    }),
+
+  // Add a credential to the wallet
+  create: protectedProcedure
+    .input(CreateCredentialSchema)
+    .mutation(async ({ ctx, input }) => {
+      const credential = await ctx.db.credential.create({
+        data: {
+          ...input,
+          userId: ctx.user.id
+        }
+      })
+
+      await logCredentialAccess(ctx, 'phi.create', credential.id, 'Credential added to wallet', {
+        type: credential.type
+      })
+
+      return credential
+    }),
+
+  // Update a credential. Edits to verified details reset its verification,
+  // and a new expiration date restarts the reminder schedule.
+  update: protectedProcedure
+    .input(UpdateCredentialSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...data } = input
+
+      const existing = await ctx.db.credential.findFirst({
+        where: { id, userId: ctx.user.id, deletedAt: null }
+      })
+
+      if (!existing) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Credential not found'
+        })
+      }
+
+      const merged = { ...existing, ...data } as CredentialFields
+      const issue = credentialIssue(merged)
+      if (issue) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: issue
+        })
+      }
+
+      const comparable = (value: unknown) => value instanceof Date ? value.getTime() : value ?? null
+      const changedFields = VERIFIED_FIELDS.filter(
+        field => field in data && comparable(existing[field]) !== comparable(data[field])
+      )
+
+      const credential = await ctx.db.credential.update({
+        where: { id },
+        data: {
+          ...data,
+          ...(changedFields.length > 0 && {
+            verificationStatus: 'UNVERIFIED',
+            verifiedAt: null
+          }),
+          ...(changedFields.includes('expiresAt') && { lastReminderDays: null })
+        }
+      })
+
+      await logCredentialAccess(ctx, 'phi.update', credential.id, 'Credential updated by owner', {
+        fields: Object.keys(data)
+      })
+
+      return credential
+    }),
+
+  // Check a credential against its primary source (state board, NPPES NPI
+  // registry or DEA) and record the result on it
+  verify: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const credential = await ctx.db.credential.findFirst({
+        where: { id: input.id, userId: ctx.user.id, deletedAt: null }
+      })
+
+      if (!credential) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Credential not found'
+        })
+      }
+
+      if (!credential.number) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Add the license or registration number before verifying'
+        })
+      }
+
+      const verificationService = new LicenseVerificationService(ctx.db)
+      const result = await verificationService.verifyCredential(credential)
+
+      if (!result) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Primary-source verification is not available for this credential'
+        })
+      }
+
+      await logCredentialAccess(ctx, 'phi.update', credential.id, 'Primary-source verification', {
+        source: result.source,
+        outcome: result.outcome
+      })
+
+      return {
+        outcome: result.outcome,
+        message: result.message,
+        credential: await ctx.db.credential.findUnique({ where: { id: credential.id } })
+      }
+    }),
+
+  // Remove a credential from the wallet. Applications link to the credential
+  // row itself, so one that was sent with an application is only hidden from
+  // the wallet and stays visible on those applications; others are deleted.
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const credential = await ctx.db.credential.findFirst({
+        where: { id: input.id, userId: ctx.user.id, deletedAt: null }
+      })
+
+      if (!credential) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Credential not found'
+        })
+      }
+
+      const applicationCount = await ctx.db.applicationCredential.count({
+        where: { credentialId: input.id }
+      })
+
+      if (applicationCount > 0) {
+        await ctx.db.credential.update({
+          where: { id: input.id },
+          data: { deletedAt: new Date() }
+        })
+      } else {
+        await ctx.db.credential.delete({ where: { id: input.id } })
+      }
+
+      await logCredentialAccess(ctx, 'phi.delete', credential.id, 'Credential removed from wallet', {
+        applicationCount
+      })
+
+      return { success: true }
+    })
+})
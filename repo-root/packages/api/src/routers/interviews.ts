@@ -0,0 +1,323 @@
+import { z } from 'zod'
+import { randomUUID } from 'crypto'
+import { createTRPCRouter, protectedProcedure } from '../trpc'
+import { TRPCError } from '@trpc/server'
+import { ApplicationEventType, PipelineStageKind } from '@locumtruerate/types'
+import type { Context } from '../context'
+import { buildCalendarInvite } from '../services/calendar-invites'
+import { sendInterviewInvitation } from '../services/email-service'
+import { ApplicationPipelineService, isClosedStatus } from '../services/pipeline'
+
+const InterviewSlotSchema = z.object({
+  startsAt: z.date(),
+  endsAt: z.date(),
+  // IANA time zone the invite email shows the time in
+  timezone: z.string().max(64).default('UTC'),
+  location: z.string().max(300).nullable().optional(),
+  meetingUrl: z.string().url('Invalid meeting URL').nullable().optional(),
+  notes: z.string().max(2000).nullable().optional()
+})
+
+const endsAfterStart = (slot: { startsAt: Date; endsAt: Date }) => slot.endsAt > slot.startsAt
+const endsAfterStartError = { message: 'Interview must end after it starts', path: ['endsAt'] }
+
+// Everything needed to send an invite for an interview
+const inviteInclude = {
+  application: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      userId: true,
+      job: {
+        select: {
+          title: true,
+          userId: true,
+          company: { select: { name: true } },
+          user: { select: { email: true, contactName: true } }
+        }
+      }
+    }
+  }
+} as const
+
+interface InterviewWithApplication {
+  id: string
+  icsUid: string
+  sequence: number
+  status: string
+  startsAt: Date
+  endsAt: Date
+  timezone: string
+  location: string | null
+  meetingUrl: string | null
+  application: {
+    id: string
+    name: string
+    email: string
+    userId: string | null
+    job: {
+      title: string
+      userId: string
+      company: { name: string }
+      user: { email: string; contactName: string }
+    }
+  }
+}
+
+function calendarInviteFor(interview: InterviewWithApplication, method: 'REQUEST' | 'CANCEL') {
+  const { application } = interview
+  return buildCalendarInvite({
+    uid: interview.icsUid,
+    sequence: interview.sequence,
+    method,
+    startsAt: interview.startsAt,
+    endsAt: interview.endsAt,
+    summary: `Interview: ${application.job.title} at ${application.job.company.name}`,
+    description: [
+      `Interview with ${application.job.company.name} for ${application.job.title}.`,
+      interview.meetingUrl && `Join: ${interview.meetingUrl}`
+    ].filter(Boolean).join('\n'),
+    location: interview.location || interview.meetingUrl,
+    url: interview.meetingUrl,
+    organizer: { email: application.job.user.email, name: application.job.user.contactName },
+    attendees: [{ email: application.email, name: application.name }]
+  })
+}
+
+async function sendInvite(interview: InterviewWithApplication, method: 'REQUEST' | 'CANCEL'): Promise<void> {
+  const { application } = interview
+  try {
+    await sendInterviewInvitation(application.email, {
+      name: application.name,
+      jobTitle: application.job.title,
+      companyName: application.job.company.name,
+      startsAt: interview.startsAt,
+      timezone: interview.timezone,
+      location: interview.location,
+      meetingUrl: interview.meetingUrl,
+      cancelled: method === 'CANCEL'
+    }, [{
+      content: Buffer.from(calendarInviteFor(interview, method)).toString('base64'),
+      filename: 'interview.ics',
+      type: `text/calendar; method=${method}`,
+      disposition: 'attachment'
+    }])
+  } catch (error) {
+    console.error('Failed to send interview invitation:', error)
+  }
+}
+
+async function notifyApplicant(ctx: Context, interview: InterviewWithApplication, title: string, message: string) {
+  if (!interview.application.userId) return
+
+  await ctx.db.notification.create({
+    data: {
+      userId: interview.application.userId,
+      type: 'interview',
+      title,
+      message,
+      data: {
+        applicationId: interview.application.id,
+        interviewId: interview.id,
+        startsAt: interview.startsAt.toISOString()
+      }
+    }
+  })
+}
+
+/**
+ * Scheduled interview for a job the user owns
+ */
+async function findOwnedInterview(ctx: Context, id: string): Promise<InterviewWithApplication> {
+  const interview = await ctx.db.interview.findFirst({
+    where: {
+      id,
+      application: { job: { userId: ctx.user!.id } }
+    },
+    include: inviteInclude
+  })
+
+  if (!interview) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Interview not found'
+    })
+  }
+
+  if (interview.status !== 'SCHEDULED') {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'Only scheduled interviews can be changed'
+    })
+  }
+
+  return interview as InterviewWithApplication
+}
+
+export const interviewsRouter = createTRPCRouter({
+  // Schedule an interview and send the candidate a calendar invite. The
+  // application moves to the pipeline's interview stage if it has not
+  // reached it yet.
+  schedule: protectedProcedure
+    .input(InterviewSlotSchema.extend({ applicationId: z.string() }).refine(endsAfterStart, endsAfterStartError))
+    .mutation(async ({ ctx, input }) => {
+      const { applicationId, ...slot } = input
+
+      const application = await ctx.db.application.findFirst({
+        where: {
+          id: applicationId,
+          job: { userId: ctx.user.id }
+        }
+      })
+
+      if (!application) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'You can only schedule interviews for jobs you own'
+        })
+      }
+
+      if (isClosedStatus(application.status)) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'This application is closed'
+        })
+      }
+
+      const interview = await ctx.db.interview.create({
+        data: {
+          ...slot,
+          applicationId,
+          scheduledBy: ctx.user.id,
+          icsUid: `${randomUUID()}@locumtruerate.com`
+        },
+        include: inviteInclude
+      }) as InterviewWithApplication
+
+      const pipeline = new ApplicationPipelineService(ctx.db)
+      await pipeline.recordEvent(applicationId, {
+        type: ApplicationEventType.INTERVIEW_SCHEDULED,
+        actorId: ctx.user.id,
+        details: { interviewId: interview.id, startsAt: interview.startsAt.toISOString() }
+      })
+
+      const stages = await pipeline.stagesForJob(application.jobId)
+      await pipeline.advanceToKind(application, stages, PipelineStageKind.INTERVIEW, ctx.user.id)
+
+      await sendInvite(interview, 'REQUEST')
+      await notifyApplicant(ctx, interview, 'Interview scheduled',
+        `${interview.application.job.company.name} scheduled an interview for ${interview.application.job.title}.`)
+
+      return interview
+    }),
+
+  // Move an interview to a new time; the updated invite replaces the original
+  reschedule: protectedProcedure
+    .input(InterviewSlotSchema.extend({ id: z.string() }).refine(endsAfterStart, endsAfterStartError))
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...slot } = input
+      const existing = await findOwnedInterview(ctx, id)
+
+      const interview = await ctx.db.interview.update({
+        where: { id: existing.id },
+        data: {
+          ...slot,
+          sequence: { increment: 1 }
+        },
+        include: inviteInclude
+      }) as InterviewWithApplication
+
+      await new ApplicationPipelineService(ctx.db).recordEvent(interview.application.id, {
+        type: ApplicationEventType.INTERVIEW_SCHEDULED,
+        actorId: ctx.user.id,
+        note: 'Rescheduled',
+        details: {
+          interviewId: interview.id,
+          startsAt: interview.startsAt.toISOString(),
+          previousStartsAt: existing.startsAt.toISOString()
+        }
+      })
+
+      await sendInvite(interview, 'REQUEST')
+      await notifyApplicant(ctx, interview, 'Interview rescheduled',
+        `Your interview for ${interview.application.job.title} has a new time.`)
+
+      return interview
+    }),
+
+  // Cancel an interview and send a cancellation for the calendar invite
+  cancel: protectedProcedure
+    .input(z.object({
+      id: z.string(),
+      reason: z.string().max(2000).optional()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const existing = await findOwnedInterview(ctx, input.id)
+
+      const interview = await ctx.db.interview.update({
+        where: { id: existing.id },
+        data: {
+          status: 'CANCELLED',
+          sequence: { increment: 1 }
+        },
+        include: inviteInclude
+      }) as InterviewWithApplication
+
+      await new ApplicationPipelineService(ctx.db).recordEvent(interview.application.id, {
+        type: ApplicationEventType.INTERVIEW_CANCELLED,
+        actorId: ctx.user.id,
+        note: input.reason,
+        details: { interviewId: interview.id }
+      })
+
+      await sendInvite(interview, 'CANCEL')
+      await notifyApplicant(ctx, interview, 'Interview cancelled',
+        `Your interview for ${interview.application.job.title} was cancelled.`)
+
+      return interview
+    }),
+
+  // Record that a scheduled interview took place
+  complete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const existing = await findOwnedInterview(ctx, input.id)
+
+      return ctx.db.interview.update({
+        where: { id: existing.id },
+        data: { status: 'COMPLETED' }
+      })
+    }),
+
+  // Calendar file for an interview, for the recruiter or the candidate to
+  // add to their calendar
+  calendarFile: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const interview = await ctx.db.interview.findFirst({
+        where: {
+          id: input.id,
+          application: {
+            OR: [
+              { userId: ctx.user.id },
+              { job: { userId: ctx.user.id } }
+            ]
+          }
+        },
+        include: inviteInclude
+      }) as InterviewWithApplication | null
+
+      if (!interview) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Interview not found'
+        })
+      }
+
+      return {
+        filename: 'interview.ics',
+        content: calendarInviteFor(interview, interview.status === 'CANCELLED' ? 'CANCEL' : 'REQUEST')
+      }
+    })
+})
@@ -1,23 +1,51 @@
 import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
 import { createTRPCRouter, publicProcedure, protectedProcedure } from '../trpc';
-import { JobStatus, JobType, JobCategory } from '@locumtruerate/database';
+import { Prisma } from '@locumtruerate/database';
+import { JobStatus, JobType, JobCategory, Profession, BoardCertificationRequirement, ClinicalCertification, ShiftType, CallRequirement } from '@locumtruerate/types';
+import { JobCompensation, JobCompensationCalculator, JobCompensationSchema, PayBasisSchema } from '@locumtruerate/calc-core';
+import { LICENSE_STATES, WebhookEventType, isKnownSpecialty, isValidSubspecialty } from '@locumtruerate/types';
 import { nanoid } from 'nanoid';
 import { addDays } from 'date-fns';
 import { featureGates, checkFeatureAccess, trackFeatureUsage } from '../middleware/feature-gate';
+import { rescoreJobApplications } from '../services/application-scoring';
+import { scheduleDatesIssue, scheduleFilter } from '../services/job-schedule';
+import { subspecialtyUpdate, taxonomyFilter } from '../services/job-taxonomy';
+import { WebhookService } from '../services/webhooks';
 
 // Validation schemas
-const createJobSchema = z.object({
+const jobSchema = z.object({
   title: z.string().min(5, 'Title must be at least 5 characters'),
   location: z.string().min(2, 'Location is required'),
+  zipCode: z.string().regex(/^\d{5}(-\d{4})?$/, 'Invalid ZIP code format').optional(),
   description: z.string().min(50, 'Description must be at least 50 characters'),
   requirements: z.string().optional(),
   responsibilities: z.string().optional(),
   benefits: z.string().optional(),
+  // Free-text salary for postings without structured compensation
   salary: z.string().optional(),
+  compensation: JobCompensationSchema.optional(),
   type: z.nativeEnum(JobType).optional(),
   category: z.nativeEnum(JobCategory).optional(),
   tags: z.array(z.string()).default([]),
+  profession: z.nativeEnum(Profession).optional(),
+  specialty: z.string().refine(isKnownSpecialty, 'Unknown specialty').optional(),
+  subspecialty: z.string().optional(),
+  boardCertification: z.nativeEnum(BoardCertificationRequirement).default(BoardCertificationRequirement.NOT_REQUIRED),
+  requiredLicenseStates: z.array(z.enum(LICENSE_STATES)).default([]),
+  requiredCertifications: z.array(z.nativeEnum(ClinicalCertification)).default([]),
+  minExperienceYears: z.number().int().min(0).max(50).optional(),
+  // Assignment schedule; the start is flexible up to latestStartDate
+  assignmentStartDate: z.date().optional(),
+  assignmentEndDate: z.date().optional(),
+  latestStartDate: z.date().optional(),
+  shiftType: z.nativeEnum(ShiftType).optional(),
+  shiftLengthHours: z.number().int().min(1).max(24).optional(),
+  daysOn: z.number().int().min(1).max(28).optional(),
+  daysOff: z.number().int().min(0).max(28).optional(),
+  callRequirement: z.nativeEnum(CallRequirement).default(CallRequirement.NONE),
+  callFrequency: z.number().int().min(1).max(31).optional(),
+  guaranteedHoursPerWeek: z.number().int().min(1).max(168).optional(),
   companyId: z.string(),
   expiresAt: z.date().optional(),
   autoRenew: z.boolean().default(false),
@@ -27,21 +55,86 @@ const createJobSchema = z.object({
   metaDescription: z.string().optional()
 });
 
-const updateJobSchema = createJobSchema.partial().extend({
-  id: z.string()
+// Job fields applications are scored against
+const SCORING_FIELDS = [
+  'profession',
+  'specialty',
+  'subspecialty',
+  'boardCertification',
+  'requiredLicenseStates',
+  'requiredCertifications',
+  'minExperienceYears',
+  'assignmentStartDate',
+  'latestStartDate'
+];
+
+// A subspecialty must belong to the job's specialty
+const refineSubspecialty = (
+  data: { specialty?: string; subspecialty?: string | null },
+  ctx: z.RefinementCtx
+) => {
+  if (data.subspecialty && data.specialty && !isValidSubspecialty(data.specialty, data.subspecialty)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['subspecialty'],
+      message: `"${data.subspecialty}" is not a subspecialty of ${data.specialty}`
+    });
+  }
+};
+
+const createJobSchema = jobSchema.superRefine((data, ctx) => {
+  if (data.subspecialty && !data.specialty) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['specialty'],
+      message: 'Specialty is required when a subspecialty is given'
+    });
+  }
+  refineSubspecialty(data, ctx);
+
+  const scheduleIssue = scheduleDatesIssue(data);
+  if (scheduleIssue) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [scheduleIssue.path],
+      message: scheduleIssue.message
+    });
+  }
 });
 
+// Schedule dates are checked in the handler, against the job's current
+// dates. A null subspecialty clears it.
+const updateJobSchema = jobSchema.partial().extend({
+  id: z.string(),
+  subspecialty: z.string().nullable().optional()
+}).superRefine(refineSubspecialty);
+
 const jobFiltersSchema = z.object({
   status: z.nativeEnum(JobStatus).optional(),
   type: z.nativeEnum(JobType).optional(),
   category: z.nativeEnum(JobCategory).optional(),
   location: z.string().optional(),
+  // Annual pay range; postings are compared by their annualized compensation
   salaryMin: z.number().optional(),
   salaryMax: z.number().optional(),
+  payBasis: PayBasisSchema.optional(),
   tags: z.array(z.string()).optional(),
   companyId: z.string().optional(),
   userId: z.string().optional(),
-  search: z.string().optional()
+  search: z.string().optional(),
+  // Healthcare taxonomy; license states and certifications match jobs
+  // requiring any of the given values
+  profession: z.nativeEnum(Profession).optional(),
+  specialty: z.string().optional(),
+  subspecialty: z.string().optional(),
+  boardCertification: z.nativeEnum(BoardCertificationRequirement).optional(),
+  licenseStates: z.array(z.enum(LICENSE_STATES)).optional(),
+  certifications: z.array(z.nativeEnum(ClinicalCertification)).optional(),
+  // Provider availability; matches assignments overlapping the window
+  availableFrom: z.date().optional(),
+  availableTo: z.date().optional(),
+  shiftType: z.nativeEnum(ShiftType).optional(),
+  callRequirement: z.nativeEnum(CallRequirement).optional()
 });
 
 const paginationSchema = z.object({
@@ -51,13 +144,47 @@ const paginationSchema = z.object({
   sortOrder: z.enum(['asc', 'desc']).default('desc')
 });
 
+const compensationCalculator = new JobCompensationCalculator();
+
+const PAY_BASIS_UNITS: Record<JobCompensation['payBasis'], string> = {
+  HOURLY: 'hour',
+  DAILY: 'day',
+  SHIFT: 'shift',
+  ANNUAL: 'year'
+};
+
+const formatCompensation = (compensation: JobCompensation): string => {
+  const format = (amount: number) => `$${amount.toLocaleString('en-US')}`;
+  const range = compensation.rateMax && compensation.rateMax !== compensation.rateMin
+    ? `${format(compensation.rateMin)}-${format(compensation.rateMax)}`
+    : format(compensation.rateMin);
+  return `${range}/${PAY_BASIS_UNITS[compensation.payBasis]}`;
+};
+
+// Columns derived from structured compensation: the pay basis and annualized
+// range used for filtering, and the salary text older clients display
+const compensationFields = (compensation?: JobCompensation) => {
+  if (!compensation) {
+    return {};
+  }
+
+  const annual = compensationCalculator.annualize(compensation);
+  return {
+    compensation,
+    payBasis: compensation.payBasis,
+    annualPayMin: annual.min.toNumber(),
+    annualPayMax: annual.max.toNumber(),
+    salary: formatCompensation(compensation)
+  };
+};
+
 const generateSlug = (title: string): string => {
   return title
     .toLowerCase()
     .replace(/[^a-z0-9\s-]/g, '')
     .replace(/\s+/g, '-')
     .replace(/-+/g, '-')
-    .trim('-') + '-' + nanoid(6);
+    .replace(/^-|-$/g, '') + '-' + nanoid(6);
 };
 
 export const jobsRouter = createTRPCRouter({
@@ -83,7 +210,7 @@ export const jobsRouter = createTRPCRouter({
       const featureAccess = await checkFeatureAccess(ctx, 'jobPostings', activeJobsCount + 1);
       if (!featureAccess.hasAccess) {
         throw new TRPCError({
-          code: 'PAYMENT_REQUIRED',
+          code: 'FORBIDDEN',
           message: `You have reached your job posting limit (${featureAccess.limit}). Upgrade your subscription to post more jobs.`,
         });
       }
@@ -91,14 +218,33 @@ export const jobsRouter = createTRPCRouter({
       const {
         title,
         location,
+        zipCode,
         description,
         requirements,
         responsibilities,
         benefits,
         salary,
+        compensation,
         type,
         category,
         tags,
+        profession,
+        specialty,
+        subspecialty,
+        boardCertification,
+        requiredLicenseStates,
+        requiredCertifications,
+        minExperienceYears,
+        assignmentStartDate,
+        assignmentEndDate,
+        latestStartDate,
+        shiftType,
+        shiftLengthHours,
+        daysOn,
+        daysOff,
+        callRequirement,
+        callFrequency,
+        guaranteedHoursPerWeek,
         companyId,
         expiresAt,
         autoRenew,
@@ -129,14 +275,33 @@ export const jobsRouter = createTRPCRouter({
             title,
             slug: generateSlug(title),
             location,
+            zipCode,
             description,
             requirements,
             responsibilities,
             benefits,
             salary,
+            ...compensationFields(compensation),
             type,
             category,
             tags,
+            profession,
+            specialty,
+            subspecialty,
+            boardCertification,
+            requiredLicenseStates,
+            requiredCertifications,
+            minExperienceYears,
+            assignmentStartDate,
+            assignmentEndDate,
+            latestStartDate,
+            shiftType,
+            shiftLengthHours,
+            daysOn,
+            daysOff,
+            callRequirement,
+            callFrequency,
+            guaranteedHoursPerWeek,
             companyId,
             userId: ctx.user.id,
             expiresAt: expiresAt || addDays(new Date(), 30),
@@ -337,17 +502,31 @@ export const jobsRouter = createTRPCRouter({
         location,
         salaryMin,
         salaryMax,
+        payBasis,
         tags,
         companyId,
         userId,
         search,
+        profession,
+        specialty,
+        subspecialty,
+        boardCertification,
+        licenseStates,
+        certifications,
+        availableFrom,
+        availableTo,
+        shiftType,
+        callRequirement,
         page,
         limit,
         sortBy,
         sortOrder
       } = input;
 
-      const where: any = {};
+      const where: any = {
+        ...taxonomyFilter({ profession, specialty, subspecialty, boardCertification, licenseStates, certifications }),
+        ...scheduleFilter({ availableFrom, availableTo, shiftType, callRequirement })
+      };
 
       // Public queries only show active jobs unless user owns them
       if (!userId || userId !== ctx.user?.id) {
@@ -361,7 +540,9 @@ export const jobsRouter = createTRPCRouter({
       if (category) where.category = category;
       if (companyId) where.companyId = companyId;
       if (userId) where.userId = userId;
-
+      if (payBasis) where.payBasis = payBasis;
+      if (salaryMin) where.annualPayMax = { gte: salaryMin };
+      if (salaryMax) where.annualPayMin = { lte: salaryMax };
       if (location) {
         where.location = {
           contains: location,
@@ -562,7 +743,7 @@ export const jobsRouter = createTRPCRouter({
         });
       }
 
-      const { id, ...updateData } = input;
+      const { id, compensation, companyId, ...changes } = input;
 
       // Verify user owns the job
       const existingJob = await ctx.db.job.findFirst({
@@ -580,10 +761,38 @@ export const jobsRouter = createTRPCRouter({
       }
 
       // Update slug if title changed
-      if (updateData.title && updateData.title !== existingJob.title) {
-        updateData.slug = generateSlug(updateData.title);
+      const slug = changes.title && changes.title !== existingJob.title
+        ? generateSlug(changes.title)
+        : undefined;
+
+      const { subspecialty, issue: subspecialtyIssue } = subspecialtyUpdate(existingJob, changes);
+      if (subspecialtyIssue) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: subspecialtyIssue
+        });
+      }
+
+      const scheduleIssue = scheduleDatesIssue({
+        assignmentStartDate: changes.assignmentStartDate ?? existingJob.assignmentStartDate,
+        assignmentEndDate: changes.assignmentEndDate ?? existingJob.assignmentEndDate,
+        latestStartDate: changes.latestStartDate ?? existingJob.latestStartDate
+      });
+      if (scheduleIssue) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: scheduleIssue.message
+        });
       }
 
+      const updateData: Prisma.JobUpdateInput = {
+        ...changes,
+        subspecialty,
+        ...(companyId && { company: { connect: { id: companyId } } }),
+        ...(slug && { slug }),
+        ...compensationFields(compensation)
+      };
+
       try {
         const updatedJob = await ctx.db.job.update({
           where: { id },
@@ -600,10 +809,16 @@ export const jobsRouter = createTRPCRouter({
           }
         });
 
+        // Applications were scored against the old requirements
+        const rescoredApplications = compensation || Object.keys(changes).some(field => SCORING_FIELDS.includes(field))
+          ? await rescoreJobApplications(ctx.db, id)
+          : 0;
+
         ctx.logger.info('Job updated successfully', {
           jobId: id,
           userId: ctx.user.id,
-          updatedFields: Object.keys(updateData)
+          updatedFields: Object.keys(changes),
+          rescoredApplications
         });
 
         return updatedJob;
@@ -667,6 +882,16 @@ export const jobsRouter = createTRPCRouter({
         userId: ctx.user.id
       });
 
+      await new WebhookService(ctx.db).emitForJob(id, WebhookEventType.JOB_PUBLISHED, {
+        jobId: id,
+        title: updatedJob.title,
+        slug: updatedJob.slug,
+        location: updatedJob.location,
+        publishedAt: updatedJob.publishedAt
+      }).catch((error) => {
+        ctx.logger.error('Failed to queue job webhooks', { jobId: id, error });
+      });
+
       return updatedJob;
     }),
 
@@ -750,6 +975,44 @@ export const jobsRouter = createTRPCRouter({
       const { query, filters = {}, pagination = {} } = input;
       const { page = 1, limit = 20, sortBy = 'createdAt', sortOrder = 'desc' } = pagination;
 
+      // Structured taxonomy and schedule filters
+      const structuredFilters: Prisma.Sql[] = [];
+      if (filters.profession) {
+        structuredFilters.push(Prisma.sql`j.profession::text = ${filters.profession}`);
+      }
+      if (filters.specialty) {
+        structuredFilters.push(Prisma.sql`j.specialty = ${filters.specialty}`);
+      }
+      if (filters.subspecialty) {
+        structuredFilters.push(Prisma.sql`j.subspecialty = ${filters.subspecialty}`);
+      }
+      if (filters.boardCertification) {
+        structuredFilters.push(Prisma.sql`j."boardCertification"::text = ${filters.boardCertification}`);
+      }
+      if (filters.licenseStates && filters.licenseStates.length > 0) {
+        structuredFilters.push(Prisma.sql`j."requiredLicenseStates" && ${filters.licenseStates}::text[]`);
+      }
+      if (filters.certifications && filters.certifications.length > 0) {
+        structuredFilters.push(Prisma.sql`j."requiredCertifications"::text[] && ${filters.certifications}::text[]`);
+      }
+      if (filters.shiftType) {
+        structuredFilters.push(Prisma.sql`j."shiftType"::text = ${filters.shiftType}`);
+      }
+      if (filters.callRequirement) {
+        structuredFilters.push(Prisma.sql`j."callRequirement"::text = ${filters.callRequirement}`);
+      }
+      if (filters.availableFrom || filters.availableTo) {
+        structuredFilters.push(filters.availableTo
+          ? Prisma.sql`j."assignmentStartDate" <= ${filters.availableTo}`
+          : Prisma.sql`j."assignmentStartDate" IS NOT NULL`);
+      }
+      if (filters.availableFrom) {
+        structuredFilters.push(Prisma.sql`(j."assignmentEndDate" IS NULL OR j."assignmentEndDate" >= ${filters.availableFrom})`);
+      }
+      const structuredClause = structuredFilters.length > 0
+        ? Prisma.sql`AND ${Prisma.join(structuredFilters, ' AND ')}`
+        : Prisma.empty;
+
       // Full-text search using PostgreSQL
       const jobs = await ctx.db.$queryRaw`
         SELECT j.*, c.name as company_name, c.logo as company_logo
@@ -762,6 +1025,7 @@ export const jobsRouter = createTRPCRouter({
             to_tsvector('english', j.title || ' ' || j.description || ' ' || j.location) 
             @@ plainto_tsquery('english', ${query})
           )
+          ${structuredClause}
         ORDER BY 
           -- Boost-aware ordering: boosted jobs first
           j."isBoosted" DESC NULLS LAST,
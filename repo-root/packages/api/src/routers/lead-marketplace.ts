@@ -2,6 +2,8 @@ import { z } from 'zod'
 import { TRPCError } from '@trpc/server'
 import { createTRPCRouter, protectedProcedure, adminProcedure } from '../trpc'
 import Stripe from 'stripe'
+import { WebhookEventType } from '@locumtruerate/types'
+import { WebhookService } from '../services/webhooks'
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2025-05-28.basil',
@@ -375,6 +377,15 @@ export const leadMarketplaceRouter = createTRPCRouter({
           buyerId: ctx.user.id,
         })
 
+        // The lead now belongs to the buyer's organizations
+        await new WebhookService(ctx.db).emitForUser(ctx.user.id, WebhookEventType.LEAD_CREATED, {
+          purchaseId,
+          ...updatedPurchase.lead,
+          purchasedAt: updatedPurchase.accessGrantedAt,
+        }).catch((error) => {
+          ctx.logger.error('Failed to queue lead webhooks', { purchaseId, error })
+        })
+
         return {
           success: true,
           lead: updatedPurchase.lead,
@@ -2,9 +2,10 @@ import { z } from 'zod';
 import { TRPCError } from '@trpc/server';
 import { createTRPCRouter, publicProcedure, protectedProcedure, adminProcedure } from '../trpc';
 import { nanoid } from 'nanoid';
-import * as crypto from 'crypto';
+import { WebhookEventType } from '@locumtruerate/types';
 import { LeadScoringService } from '../services/lead-scoring';
 import { CronJobService } from '../services/cron-jobs';
+import { WebhookService } from '../services/webhooks';
 
 // Validation schemas
 const createLeadSchema = z.object({
@@ -46,13 +47,6 @@ const paginationSchema = z.object({
   sortOrder: z.enum(['asc', 'desc']).default('desc'),
 });
 
-const webhookConfigSchema = z.object({
-  url: z.string().url('Invalid webhook URL'),
-  events: z.array(z.enum(['lead.created', 'lead.updated', 'lead.converted', 'lead.scored'])),
-  secret: z.string().optional(),
-  enabled: z.boolean().default(true),
-});
-
 // Lead scoring function
 const calculateLeadScore = (lead: any): { score: number; breakdown: any } => {
   let score = 0;
@@ -124,61 +118,6 @@ const calculateLeadScore = (lead: any): { score: number; breakdown: any } => {
   return { score: breakdown.total, breakdown };
 };
 
-// Webhook notification function
-const sendWebhookNotification = async (
-  webhookUrl: string,
-  event: string,
-  leadData: any,
-  secret?: string,
-  retryCount = 0
-): Promise<{ success: boolean; error?: string }> => {
-  try {
-    const payload = {
-      event,
-      data: leadData,
-      timestamp: Date.now(),
-      version: '1.0',
-    };
-
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      'User-Agent': 'LocumTrueRate-Webhook/1.0',
-    };
-
-    // Add webhook signature if secret provided
-    if (secret) {
-      const signature = crypto
-        .createHmac('sha256', secret)
-        .update(JSON.stringify(payload))
-        .digest('hex');
-      headers['X-Webhook-Signature'] = `sha256=${signature}`;
-    }
-
-    const response = await fetch(webhookUrl, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(payload),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Webhook failed with status ${response.status}: ${response.statusText}`);
-    }
-
-    return { success: true };
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    
-    // Retry logic with exponential backoff (max 3 retries)
-    if (retryCount < 3) {
-      const delay = Math.pow(2, retryCount) * 1000; // 1s, 2s, 4s
-      await new Promise(resolve => setTimeout(resolve, delay));
-      return sendWebhookNotification(webhookUrl, event, leadData, secret, retryCount + 1);
-    }
-
-    return { success: false, error: errorMessage };
-  }
-};
-
 // Rate limiting for lead submission (basic implementation)
 const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
 const RATE_LIMIT_WINDOW = 15 * 60 * 1000; // 15 minutes
@@ -346,40 +285,23 @@ export const leadsRouter = createTRPCRouter({
           },
         });
 
-        // Send webhook notifications
-        const webhookUrls = process.env.ZAPIER_WEBHOOK_URLS?.split(',') || [];
-        const webhookSecret = process.env.ZAPIER_WEBHOOK_SECRET;
-
-        for (const webhookUrl of webhookUrls) {
-          if (webhookUrl.trim()) {
-            const webhookResult = await sendWebhookNotification(
-              webhookUrl.trim(),
-              'lead.created',
-              {
-                id: lead.id,
-                email: lead.email,
-                name: lead.name,
-                company: lead.company,
-                phone: lead.phone,
-                message: lead.message,
-                source: lead.source,
-                score: lead.score,
-                status: lead.status,
-                createdAt: lead.createdAt,
-                metadata: lead.metadata,
-              },
-              webhookSecret
-            );
-
-            if (!webhookResult.success) {
-              ctx.logger.error('Webhook notification failed', {
-                leadId: lead.id,
-                webhookUrl,
-                error: webhookResult.error,
-              });
-            }
-          }
-        }
+        // Site leads belong to the platform until bought, so they go to
+        // the platform admins' organizations
+        await new WebhookService(ctx.db).emitForPlatformAdmins(WebhookEventType.LEAD_CREATED, {
+          id: lead.id,
+          email: lead.email,
+          name: lead.name,
+          company: lead.company,
+          phone: lead.phone,
+          message: lead.message,
+          source: lead.source,
+          score: lead.score,
+          status: lead.status,
+          createdAt: lead.createdAt,
+          metadata: lead.metadata,
+        }).catch((error) => {
+          ctx.logger.error('Failed to queue lead webhooks', { leadId: lead.id, error });
+        });
 
         ctx.logger.info('Lead created successfully', {
           leadId: lead.id,
@@ -552,29 +474,18 @@ export const leadsRouter = createTRPCRouter({
         data: updateData,
       });
 
-      // Send webhook notification for status changes
       if (status && status !== existingLead.status) {
-        const webhookUrls = process.env.ZAPIER_WEBHOOK_URLS?.split(',') || [];
-        const webhookSecret = process.env.ZAPIER_WEBHOOK_SECRET;
-
-        for (const webhookUrl of webhookUrls) {
-          if (webhookUrl.trim()) {
-            await sendWebhookNotification(
-              webhookUrl.trim(),
-              'lead.updated',
-              {
-                id: updatedLead.id,
-                email: updatedLead.email,
-                oldStatus: existingLead.status,
-                newStatus: status,
-                score: updatedLead.score,
-                updatedAt: updatedLead.updatedAt,
-                updatedBy: ctx.user?.id,
-              },
-              webhookSecret
-            );
-          }
-        }
+        await new WebhookService(ctx.db).emitForPlatformAdmins(WebhookEventType.LEAD_UPDATED, {
+          id: updatedLead.id,
+          email: updatedLead.email,
+          oldStatus: existingLead.status,
+          newStatus: status,
+          score: updatedLead.score,
+          updatedAt: updatedLead.updatedAt,
+          updatedBy: ctx.user?.id,
+        }).catch((error) => {
+          ctx.logger.error('Failed to queue lead webhooks', { leadId: id, error });
+        });
       }
 
       ctx.logger.info('Lead updated', {
@@ -831,16 +742,13 @@ export const leadsRouter = createTRPCRouter({
       return { updatedCount: result.count };
     }),
 
-  // Test webhook (admin only)
+  // Test webhook (admin only): queues a sample lead to the platform admins'
+  // endpoints subscribed to the event, to show up in their delivery logs
   testWebhook: adminProcedure
     .input(z.object({
-      url: z.string().url(),
-      event: z.string().default('test'),
-      secret: z.string().optional(),
+      event: z.enum([WebhookEventType.LEAD_CREATED, WebhookEventType.LEAD_UPDATED]).default(WebhookEventType.LEAD_CREATED),
     }))
     .mutation(async ({ input, ctx }) => {
-      const { url, event, secret } = input;
-
       const testData = {
         id: 'test_' + nanoid(),
         email: 'test@example.com',
@@ -850,19 +758,18 @@ export const leadsRouter = createTRPCRouter({
         score: 85,
         status: 'new',
         createdAt: new Date(),
+        test: true,
       };
 
-      const result = await sendWebhookNotification(url, event, testData, secret);
+      const queued = await new WebhookService(ctx.db).emitForPlatformAdmins(input.event, testData);
 
       ctx.logger.info('Webhook test', {
-        url,
-        event,
-        success: result.success,
-        error: result.error,
+        event: input.event,
+        queued,
         userId: ctx.user?.id,
       });
 
-      return result;
+      return { queued };
     }),
 
   // Automated scoring endpoints
@@ -0,0 +1,341 @@
+import { z } from 'zod'
+import { createTRPCRouter, protectedProcedure } from '../trpc'
+import { TRPCError } from '@trpc/server'
+import { ApplicationEventType, PipelineStageKind } from '@locumtruerate/types'
+import { sendOfferLetter, sendOfferResponse } from '../services/email-service'
+import { offerTermsFromJob, renderOfferLetter } from '../services/offer-letters'
+import { ApplicationPipelineService, isClosedStatus } from '../services/pipeline'
+
+const OfferTermsInputSchema = z.object({
+  applicationId: z.string(),
+  // Overrides for the terms taken from the job's compensation
+  rate: z.number().positive().optional(),
+  startDate: z.date().optional(),
+  endDate: z.date().optional(),
+  message: z.string().max(5000).optional()
+})
+
+const offerJobSelect = {
+  title: true,
+  location: true,
+  compensation: true,
+  salary: true,
+  assignmentStartDate: true,
+  assignmentEndDate: true,
+  company: { select: { name: true } }
+} as const
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric', timeZone: 'UTC' })
+
+export const offersRouter = createTRPCRouter({
+  // Offer terms and letter as they would be sent, for the recruiter to review
+  preview: protectedProcedure
+    .input(OfferTermsInputSchema)
+    .query(async ({ ctx, input }) => {
+      const application = await ctx.db.application.findFirst({
+        where: {
+          id: input.applicationId,
+          job: { userId: ctx.user.id }
+        },
+        include: { job: { select: offerJobSelect } }
+      })
+
+      if (!application) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'You can only make offers for jobs you own'
+        })
+      }
+
+      const terms = offerTermsFromJob(application.job, input)
+      return {
+        terms,
+        letter: renderOfferLetter({
+          candidateName: application.name,
+          job: application.job,
+          terms,
+          message: input.message
+        })
+      }
+    }),
+
+  // Send an offer letter. Only one offer can be awaiting a response at a time.
+  create: protectedProcedure
+    .input(OfferTermsInputSchema.extend({
+      expiresAt: z.date().optional()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const application = await ctx.db.application.findFirst({
+        where: {
+          id: input.applicationId,
+          job: { userId: ctx.user.id }
+        },
+        include: { job: { select: offerJobSelect } }
+      })
+
+      if (!application) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'You can only make offers for jobs you own'
+        })
+      }
+
+      if (isClosedStatus(application.status)) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'This application is closed'
+        })
+      }
+
+      if (input.expiresAt && input.expiresAt <= new Date()) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Offer expiration must be in the future'
+        })
+      }
+
+      const openOffer = await ctx.db.offer.findFirst({
+        where: { applicationId: application.id, status: 'SENT' }
+      })
+
+      if (openOffer) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: 'Withdraw the current offer before sending a new one'
+        })
+      }
+
+      const terms = offerTermsFromJob(application.job, input)
+      const letter = renderOfferLetter({
+        candidateName: application.name,
+        job: application.job,
+        terms,
+        expiresAt: input.expiresAt,
+        message: input.message
+      })
+
+      const offer = await ctx.db.offer.create({
+        data: {
+          applicationId: application.id,
+          createdBy: ctx.user.id,
+          // Dates in the terms are stored as ISO strings
+          terms: JSON.parse(JSON.stringify(terms)),
+          letter,
+          expiresAt: input.expiresAt
+        }
+      })
+
+      const pipeline = new ApplicationPipelineService(ctx.db)
+      await pipeline.recordEvent(application.id, {
+        type: ApplicationEventType.OFFER_SENT,
+        actorId: ctx.user.id,
+        details: { offerId: offer.id }
+      })
+      const stages = await pipeline.stagesForJob(application.jobId)
+      await pipeline.advanceToKind(application, stages, PipelineStageKind.OFFER, ctx.user.id)
+
+      if (application.userId) {
+        await ctx.db.notification.create({
+          data: {
+            userId: application.userId,
+            type: 'offer',
+            title: `Offer from ${application.job.company.name}`,
+            message: `You have an offer for ${application.job.title}. Review and respond from your dashboard.`,
+            data: { applicationId: application.id, offerId: offer.id }
+          }
+        })
+      }
+
+      try {
+        await sendOfferLetter(application.email, {
+          name: application.name,
+          jobTitle: application.job.title,
+          companyName: application.job.company.name,
+          letter,
+          expiresAt: input.expiresAt && formatDate(input.expiresAt)
+        })
+      } catch (error) {
+        console.error('Failed to send offer letter:', error)
+      }
+
+      ctx.logger.info('Offer sent', {
+        applicationId: application.id,
+        offerId: offer.id,
+        userId: ctx.user.id
+      })
+
+      return offer
+    }),
+
+  // Withdraw an offer the candidate has not responded to
+  withdraw: protectedProcedure
+    .input(z.object({
+      id: z.string(),
+      reason: z.string().max(2000).optional()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const offer = await ctx.db.offer.findFirst({
+        where: {
+          id: input.id,
+          application: { job: { userId: ctx.user.id } }
+        }
+      })
+
+      if (!offer) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Offer not found'
+        })
+      }
+
+      if (offer.status !== 'SENT') {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Only offers awaiting a response can be withdrawn'
+        })
+      }
+
+      const updated = await ctx.db.offer.update({
+        where: { id: offer.id },
+        data: { status: 'WITHDRAWN' }
+      })
+
+      await new ApplicationPipelineService(ctx.db).recordEvent(offer.applicationId, {
+        type: ApplicationEventType.OFFER_WITHDRAWN,
+        actorId: ctx.user.id,
+        note: input.reason,
+        details: { offerId: offer.id }
+      })
+
+      return updated
+    }),
+
+  // Candidate accepts or declines an offer. Accepting marks the application
+  // accepted and moves it to onboarding when the pipeline has that stage.
+  respond: protectedProcedure
+    .input(z.object({
+      id: z.string(),
+      accept: z.boolean(),
+      note: z.string().max(2000).optional()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const offer = await ctx.db.offer.findFirst({
+        where: {
+          id: input.id,
+          application: { userId: ctx.user.id }
+        },
+        include: {
+          application: {
+            include: {
+              job: {
+                select: {
+                  title: true,
+                  userId: true,
+                  user: { select: { email: true } }
+                }
+              }
+            }
+          }
+        }
+      })
+
+      if (!offer) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Offer not found'
+        })
+      }
+
+      if (offer.status !== 'SENT') {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'This offer is no longer open'
+        })
+      }
+
+      if (offer.expiresAt && offer.expiresAt < new Date()) {
+        await ctx.db.offer.update({
+          where: { id: offer.id },
+          data: { status: 'EXPIRED' }
+        })
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'This offer has expired'
+        })
+      }
+
+      const updated = await ctx.db.offer.update({
+        where: { id: offer.id },
+        data: {
+          status: input.accept ? 'ACCEPTED' : 'DECLINED',
+          respondedAt: new Date(),
+          responseNote: input.note
+        }
+      })
+
+      const { application } = offer
+      const pipeline = new ApplicationPipelineService(ctx.db)
+      await pipeline.recordEvent(application.id, {
+        type: input.accept ? ApplicationEventType.OFFER_ACCEPTED : ApplicationEventType.OFFER_DECLINED,
+        actorId: ctx.user.id,
+        note: input.note,
+        details: { offerId: offer.id }
+      })
+
+      if (input.accept) {
+        const stages = await pipeline.stagesForJob(application.jobId)
+        const onboarded = await pipeline.advanceToKind(application, stages, PipelineStageKind.ONBOARDING, ctx.user.id)
+        if (!onboarded && application.status !== 'ACCEPTED') {
+          await pipeline.changeStatus(application, 'ACCEPTED', ctx.user.id)
+        }
+      }
+
+      await ctx.db.notification.create({
+        data: {
+          userId: application.job.userId,
+          type: 'offer_response',
+          title: `Offer ${input.accept ? 'accepted' : 'declined'}`,
+          message: `${application.name} ${input.accept ? 'accepted' : 'declined'} your offer for ${application.job.title}.`,
+          data: { applicationId: application.id, offerId: offer.id }
+        }
+      })
+
+      try {
+        await sendOfferResponse(application.job.user.email, {
+          candidateName: application.name,
+          jobTitle: application.job.title,
+          accepted: input.accept,
+          note: input.note,
+          applicationId: application.id
+        })
+      } catch (error) {
+        console.error('Failed to send offer response email:', error)
+      }
+
+      return updated
+    }),
+
+  // Offers the signed-in candidate has received, newest first
+  mine: protectedProcedure
+    .query(async ({ ctx }) => {
+      return ctx.db.offer.findMany({
+        where: { application: { userId: ctx.user.id } },
+        orderBy: { sentAt: 'desc' },
+        include: {
+          application: {
+            select: {
+              id: true,
+              job: {
+                select: {
+                  title: true,
+                  slug: true,
+                  company: { select: { name: true } }
+                }
+              }
+            }
+          }
+        }
+      })
+    })
+})
@@ -0,0 +1,212 @@
+import { z } from 'zod'
+import { createTRPCRouter, protectedProcedure } from '../trpc'
+import { TRPCError } from '@trpc/server'
+import {
+  DEFAULT_PIPELINE_STAGES,
+  MAX_PIPELINE_STAGES,
+  PipelineStage,
+  PipelineStageKind,
+  validatePipelineStages
+} from '@locumtruerate/types'
+import { ApplicationPipelineService, isClosedStatus, pipelineStagesFor } from '../services/pipeline'
+
+const PipelineStageSchema = z.object({
+  key: z.string().min(1).max(40).regex(/^[a-z0-9-]+$/, 'Stage keys may only contain lowercase letters, numbers and dashes'),
+  name: z.string().min(1).max(60),
+  kind: z.nativeEnum(PipelineStageKind)
+})
+
+const PipelineStagesSchema = z.array(PipelineStageSchema).max(MAX_PIPELINE_STAGES).superRefine((stages, refinement) => {
+  for (const message of validatePipelineStages(stages as PipelineStage[])) {
+    refinement.addIssue({ code: z.ZodIssueCode.custom, message })
+  }
+})
+
+// Organization roles allowed to change the pipeline
+const PIPELINE_ADMIN_ROLES = ['OWNER', 'ADMIN']
+
+export const pipelinesRouter = createTRPCRouter({
+  // Pipeline stages for an organization the user belongs to
+  getOrganizationStages: protectedProcedure
+    .input(z.object({ organizationId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const member = await ctx.db.organizationMember.findUnique({
+        where: { organizationId_userId: { organizationId: input.organizationId, userId: ctx.user.id } },
+        include: { organization: { select: { pipelineStages: true } } }
+      })
+
+      if (!member) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Organization not found'
+        })
+      }
+
+      const stages = pipelineStagesFor(member.organization)
+      return {
+        stages,
+        isDefault: stages === DEFAULT_PIPELINE_STAGES,
+        canEdit: PIPELINE_ADMIN_ROLES.includes(member.role)
+      }
+    }),
+
+  // Replace an organization's pipeline. Stages that still hold applications
+  // cannot be removed.
+  updateOrganizationStages: protectedProcedure
+    .input(z.object({
+      organizationId: z.string(),
+      stages: PipelineStagesSchema
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const member = await ctx.db.organizationMember.findUnique({
+        where: { organizationId_userId: { organizationId: input.organizationId, userId: ctx.user.id } },
+        include: { organization: { select: { pipelineStages: true } } }
+      })
+
+      if (!member || !PIPELINE_ADMIN_ROLES.includes(member.role)) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'Only organization owners and admins can change the hiring pipeline'
+        })
+      }
+
+      const keys = new Set(input.stages.map(stage => stage.key))
+      const removed = pipelineStagesFor(member.organization).filter(stage => !keys.has(stage.key))
+      if (removed.length > 0) {
+        const occupied = await ctx.db.application.groupBy({
+          by: ['stage'],
+          where: {
+            stage: { in: removed.map(stage => stage.key) },
+            status: { notIn: ['REJECTED', 'WITHDRAWN'] },
+            job: { company: { organizationId: input.organizationId } }
+          },
+          _count: true
+        })
+
+        if (occupied.length > 0) {
+          const names = removed
+            .filter(stage => occupied.some(group => group.stage === stage.key))
+            .map(stage => stage.name)
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `Move open applications out of ${names.join(', ')} before removing ${names.length === 1 ? 'it' : 'them'}`
+          })
+        }
+      }
+
+      await ctx.db.organization.update({
+        where: { id: input.organizationId },
+        data: { pipelineStages: input.stages }
+      })
+
+      return { stages: input.stages }
+    }),
+
+  // Pipeline, stage history, interviews and offers for an application.
+  // Applicants see their own application without internal notes.
+  getApplicationPipeline: protectedProcedure
+    .input(z.object({ applicationId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const application = await ctx.db.application.findFirst({
+        where: {
+          id: input.applicationId,
+          OR: [
+            { userId: ctx.user.id },
+            { job: { userId: ctx.user.id } }
+          ]
+        },
+        include: {
+          job: {
+            select: {
+              userId: true,
+              company: { select: { organization: { select: { pipelineStages: true } } } }
+            }
+          },
+          events: { orderBy: { createdAt: 'asc' } },
+          interviews: { orderBy: { startsAt: 'asc' } },
+          offers: { orderBy: { sentAt: 'desc' } }
+        }
+      })
+
+      if (!application) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Application not found or you do not have permission to view it'
+        })
+      }
+
+      const isRecruiter = application.job.userId === ctx.user.id
+
+      return {
+        applicationId: application.id,
+        stages: pipelineStagesFor(application.job.company.organization),
+        stage: application.stage,
+        stageEnteredAt: application.stageEnteredAt,
+        status: application.status,
+        isRecruiter,
+        events: isRecruiter
+          ? application.events
+          : application.events.map(({ note, actorId, ...event }) => event),
+        interviews: isRecruiter
+          ? application.interviews
+          : application.interviews.map(({ notes, ...interview }) => interview),
+        offers: application.offers
+      }
+    }),
+
+  // Move an application to another stage of its pipeline
+  moveStage: protectedProcedure
+    .input(z.object({
+      applicationId: z.string(),
+      stageKey: z.string(),
+      note: z.string().max(2000).optional()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const application = await ctx.db.application.findFirst({
+        where: {
+          id: input.applicationId,
+          job: { userId: ctx.user.id }
+        }
+      })
+
+      if (!application) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: 'You can only update applications for jobs you own'
+        })
+      }
+
+      if (isClosedStatus(application.status)) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Reopen this application before moving it through the pipeline'
+        })
+      }
+
+      const pipeline = new ApplicationPipelineService(ctx.db)
+      const stages = await pipeline.stagesForJob(application.jobId)
+      const stage = stages.find(candidate => candidate.key === input.stageKey)
+
+      if (!stage) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Stage is not part of this pipeline'
+        })
+      }
+
+      if (stage.key === application.stage) {
+        return application
+      }
+
+      const updated = await pipeline.moveToStage(application, stage, stages, ctx.user.id, input.note)
+
+      ctx.logger.info('Application moved to pipeline stage', {
+        applicationId: application.id,
+        fromStage: application.stage,
+        toStage: stage.key,
+        userId: ctx.user.id
+      })
+
+      return updated
+    })
+})
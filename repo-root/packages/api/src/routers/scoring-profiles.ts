@@ -0,0 +1,169 @@
+import { z } from 'zod'
+import { createTRPCRouter, protectedProcedure } from '../trpc'
+import { TRPCError } from '@trpc/server'
+
+// Mirrors ScoringProfileSchema in @locumtruerate/calc-core. Weights are
+// relative and are normalized when the comparison runs.
+const ScoringWeightsSchema = z.object({
+  netPay: z.number().min(0).max(100).default(0),
+  hourlyRate: z.number().min(0).max(100).default(0),
+  benefits: z.number().min(0).max(100).default(0),
+  taxEfficiency: z.number().min(0).max(100).default(0),
+  location: z.number().min(0).max(100).default(0),
+  costOfLiving: z.number().min(0).max(100).default(0),
+  qualityOfLife: z.number().min(0).max(100).default(0),
+  commute: z.number().min(0).max(100).default(0)
+}).refine(
+  weights => Object.values(weights).some(weight => weight > 0),
+  'At least one factor must have a weight'
+)
+
+const CreateScoringProfileSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+  weights: ScoringWeightsSchema,
+  isDefault: z.boolean().optional()
+})
+
+const UpdateScoringProfileSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+  weights: ScoringWeightsSchema.optional(),
+  isDefault: z.boolean().optional()
+})
+
+export const scoringProfilesRouter = createTRPCRouter({
+  // List the user's saved scoring profiles
+  list: protectedProcedure
+    .query(async ({ ctx }) => {
+      return ctx.db.scoringProfile.findMany({
+        where: { userId: ctx.user.id },
+        orderBy: [{ isDefault: 'desc' }, { name: 'asc' }]
+      })
+    }),
+
+  // Get a single profile
+  get: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const profile = await ctx.db.scoringProfile.findUnique({
+        where: { id: input.id }
+      })
+
+      if (!profile || profile.userId !== ctx.user.id) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Scoring profile not found'
+        })
+      }
+
+      return profile
+    }),
+
+  // Create a profile
+  create: protectedProcedure
+    .input(CreateScoringProfileSchema)
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.db.scoringProfile.findUnique({
+        where: { userId_name: { userId: ctx.user.id, name: input.name } }
+      })
+
+      if (existing) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: `A scoring profile named "${input.name}" already exists`
+        })
+      }
+
+      // Only one profile can be the default
+      if (input.isDefault) {
+        await ctx.db.scoringProfile.updateMany({
+          where: { userId: ctx.user.id, isDefault: true },
+          data: { isDefault: false }
+        })
+      }
+
+      const profile = await ctx.db.scoringProfile.create({
+        data: {
+          userId: ctx.user.id,
+          name: input.name,
+          description: input.description,
+          weights: input.weights,
+          isDefault: input.isDefault || false
+        }
+      })
+
+      return profile
+    }),
+
+  // Update a profile
+  update: protectedProcedure
+    .input(UpdateScoringProfileSchema)
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.db.scoringProfile.findUnique({
+        where: { id: input.id }
+      })
+
+      if (!existing || existing.userId !== ctx.user.id) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Scoring profile not found or you do not have permission to update it'
+        })
+      }
+
+      if (input.name && input.name !== existing.name) {
+        const duplicate = await ctx.db.scoringProfile.findUnique({
+          where: { userId_name: { userId: ctx.user.id, name: input.name } }
+        })
+
+        if (duplicate) {
+          throw new TRPCError({
+            code: 'CONFLICT',
+            message: `A scoring profile named "${input.name}" already exists`
+          })
+        }
+      }
+
+      if (input.isDefault) {
+        await ctx.db.scoringProfile.updateMany({
+          where: { userId: ctx.user.id, isDefault: true, id: { not: input.id } },
+          data: { isDefault: false }
+        })
+      }
+
+      const updated = await ctx.db.scoringProfile.update({
+        where: { id: input.id },
+        data: {
+          name: input.name,
+          description: input.description,
+          weights: input.weights,
+          isDefault: input.isDefault
+        }
+      })
+
+      return updated
+    }),
+
+  // Delete a profile
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.db.scoringProfile.findUnique({
+        where: { id: input.id }
+      })
+
+      if (!existing || existing.userId !== ctx.user.id) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Scoring profile not found or you do not have permission to delete it'
+        })
+      }
+
+      await ctx.db.scoringProfile.delete({
+        where: { id: input.id }
+      })
+
+      return { success: true }
+    })
+})
@@ -0,0 +1,270 @@
+import { z } from 'zod'
+import { createTRPCRouter, protectedProcedure } from '../trpc'
+import { TRPCError } from '@trpc/server'
+import { WebhookDeliveryStatus, WebhookEventType } from '@locumtruerate/types'
+import type { Context } from '../context'
+import {
+  SECRET_ROTATION_GRACE_MS,
+  WebhookService,
+  endpointUrlProblem,
+  generateWebhookSecret,
+  secretHint
+} from '../services/webhooks'
+
+// Organization roles allowed to manage webhooks
+const WEBHOOK_ADMIN_ROLES = ['OWNER', 'ADMIN']
+const MAX_ENDPOINTS_PER_ORGANIZATION = 10
+
+const EndpointUrlSchema = z.string().url().max(2000).refine(
+  url => url.startsWith('https://'),
+  'Webhook endpoints must use https'
+)
+
+const EventsSchema = z.array(z.nativeEnum(WebhookEventType)).min(1, 'Choose at least one event')
+
+async function requireWebhookAdmin(ctx: Context, organizationId: string) {
+  const member = await ctx.db.organizationMember.findUnique({
+    where: { organizationId_userId: { organizationId, userId: ctx.user!.id } }
+  })
+
+  if (!member || !WEBHOOK_ADMIN_ROLES.includes(member.role)) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'Only organization owners and admins can manage webhooks'
+    })
+  }
+}
+
+// Deliveries re-check the address every time; this just refuses endpoints
+// that already point somewhere they could never be sent
+async function requirePublicEndpoint(url: string) {
+  const problem = await endpointUrlProblem(url)
+
+  if (problem) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `Webhook endpoints must be publicly reachable: ${problem}`
+    })
+  }
+}
+
+async function findEndpoint(ctx: Context, id: string) {
+  const endpoint = await ctx.db.webhookEndpoint.findUnique({ where: { id } })
+
+  if (!endpoint) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Webhook endpoint not found'
+    })
+  }
+
+  await requireWebhookAdmin(ctx, endpoint.organizationId)
+  return endpoint
+}
+
+// Endpoint as shown after creation: the secret is reduced to a hint
+const withoutSecret = ({ secret, previousSecret, ...endpoint }: Record<string, any>) => ({
+  ...endpoint,
+  secretHint: secretHint(secret)
+})
+
+export const webhooksRouter = createTRPCRouter({
+  // Organizations whose webhooks the user can manage
+  organizations: protectedProcedure
+    .query(async ({ ctx }) => {
+      const memberships = await ctx.db.organizationMember.findMany({
+        where: { userId: ctx.user.id, role: { in: WEBHOOK_ADMIN_ROLES } },
+        select: { organization: { select: { id: true, name: true } } },
+        orderBy: { joinedAt: 'asc' }
+      })
+
+      return memberships.map(membership => membership.organization)
+    }),
+
+  listEndpoints: protectedProcedure
+    .input(z.object({ organizationId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      await requireWebhookAdmin(ctx, input.organizationId)
+
+      const endpoints = await ctx.db.webhookEndpoint.findMany({
+        where: { organizationId: input.organizationId },
+        orderBy: { createdAt: 'asc' }
+      })
+
+      return endpoints.map(withoutSecret)
+    }),
+
+  // The signing secret is only returned here and by rotateSecret
+  createEndpoint: protectedProcedure
+    .input(z.object({
+      organizationId: z.string(),
+      url: EndpointUrlSchema,
+      description: z.string().max(200).optional(),
+      events: EventsSchema
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await requireWebhookAdmin(ctx, input.organizationId)
+      await requirePublicEndpoint(input.url)
+
+      const count = await ctx.db.webhookEndpoint.count({ where: { organizationId: input.organizationId } })
+      if (count >= MAX_ENDPOINTS_PER_ORGANIZATION) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `Organizations can have at most ${MAX_ENDPOINTS_PER_ORGANIZATION} webhook endpoints`
+        })
+      }
+
+      const endpoint = await ctx.db.webhookEndpoint.create({
+        data: {
+          organizationId: input.organizationId,
+          url: input.url,
+          description: input.description,
+          events: [...new Set(input.events)],
+          secret: generateWebhookSecret(),
+          createdBy: ctx.user.id
+        }
+      })
+
+      ctx.logger.info('Webhook endpoint created', {
+        endpointId: endpoint.id,
+        organizationId: input.organizationId,
+        userId: ctx.user.id
+      })
+
+      return { ...withoutSecret(endpoint), secret: endpoint.secret }
+    }),
+
+  updateEndpoint: protectedProcedure
+    .input(z.object({
+      id: z.string(),
+      url: EndpointUrlSchema.optional(),
+      description: z.string().max(200).nullable().optional(),
+      events: EventsSchema.optional(),
+      enabled: z.boolean().optional()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { id, events, ...changes } = input
+      await findEndpoint(ctx, id)
+      if (changes.url) await requirePublicEndpoint(changes.url)
+
+      const endpoint = await ctx.db.webhookEndpoint.update({
+        where: { id },
+        data: {
+          ...changes,
+          ...(events && { events: [...new Set(events)] })
+        }
+      })
+
+      return withoutSecret(endpoint)
+    }),
+
+  deleteEndpoint: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const endpoint = await findEndpoint(ctx, input.id)
+
+      await ctx.db.webhookEndpoint.delete({ where: { id: input.id } })
+
+      ctx.logger.info('Webhook endpoint deleted', {
+        endpointId: input.id,
+        organizationId: endpoint.organizationId,
+        userId: ctx.user.id
+      })
+
+      return { success: true }
+    }),
+
+  // Replace the signing secret. Deliveries are signed with both the new and
+  // the old secret for a day so receivers can switch over without downtime.
+  rotateSecret: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const current = await findEndpoint(ctx, input.id)
+
+      const endpoint = await ctx.db.webhookEndpoint.update({
+        where: { id: input.id },
+        data: {
+          secret: generateWebhookSecret(),
+          previousSecret: current.secret,
+          previousSecretExpiresAt: new Date(Date.now() + SECRET_ROTATION_GRACE_MS)
+        }
+      })
+
+      ctx.logger.info('Webhook secret rotated', {
+        endpointId: input.id,
+        organizationId: endpoint.organizationId,
+        userId: ctx.user.id
+      })
+
+      return { ...withoutSecret(endpoint), secret: endpoint.secret }
+    }),
+
+  // Delivery log for an endpoint, newest first
+  listDeliveries: protectedProcedure
+    .input(z.object({
+      endpointId: z.string(),
+      status: z.nativeEnum(WebhookDeliveryStatus).optional(),
+      page: z.number().int().min(1).default(1),
+      limit: z.number().int().min(1).max(100).default(20)
+    }))
+    .query(async ({ ctx, input }) => {
+      await findEndpoint(ctx, input.endpointId)
+
+      const where = {
+        endpointId: input.endpointId,
+        ...(input.status && { status: input.status })
+      }
+
+      const [deliveries, total] = await Promise.all([
+        ctx.db.webhookDelivery.findMany({
+          where,
+          orderBy: { createdAt: 'desc' },
+          skip: (input.page - 1) * input.limit,
+          take: input.limit
+        }),
+        ctx.db.webhookDelivery.count({ where })
+      ])
+
+      return {
+        deliveries,
+        pagination: {
+          page: input.page,
+          limit: input.limit,
+          total,
+          totalPages: Math.ceil(total / input.limit)
+        }
+      }
+    }),
+
+  // Send a delivery again, e.g. after fixing the receiver
+  replayDelivery: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const delivery = await ctx.db.webhookDelivery.findUnique({ where: { id: input.id } })
+
+      if (!delivery) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Delivery not found'
+        })
+      }
+
+      const endpoint = await findEndpoint(ctx, delivery.endpointId)
+      if (!endpoint.enabled) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Enable the endpoint before replaying deliveries'
+        })
+      }
+
+      const replay = await new WebhookService(ctx.db).replay(delivery)
+
+      ctx.logger.info('Webhook delivery replayed', {
+        deliveryId: delivery.id,
+        replayId: replay.id,
+        userId: ctx.user.id
+      })
+
+      return replay
+    })
+})
@@ -0,0 +1,115 @@
+import { createHash, randomBytes } from 'crypto'
+import { ApiKeyScope, DEFAULT_API_KEY_RATE_LIMIT } from '@locumtruerate/types'
+import type { Context } from '../context'
+import { SUBSCRIPTION_TIERS, SubscriptionTier } from '../routers/payments'
+
+/**
+ * Keys for the public REST API. Only a SHA-256 of each key is stored, so a
+ * key is shown once when it is created and can't be recovered afterwards.
+ * A key acts as the user who created it, limited to its scopes, and only
+ * while that user's plan includes API access.
+ */
+
+export const API_KEY_PREFIX = 'ltr_live_'
+// lastUsedAt is written at most this often per key, not on every request
+const LAST_USED_RESOLUTION_MS = 60_000
+
+export const generateApiKey = () => `${API_KEY_PREFIX}${randomBytes(24).toString('hex')}`
+
+export const hashApiKey = (key: string) => createHash('sha256').update(key).digest('hex')
+
+// Kept in the clear so owners can tell their keys apart
+export const apiKeyPrefix = (key: string) => key.slice(0, API_KEY_PREFIX.length + 4)
+
+export function hasScope(permissions: string[], scope: ApiKeyScope): boolean {
+  return permissions.includes(scope)
+}
+
+/**
+ * Whether a user's plan includes API access. Lapsed paid subscriptions lose
+ * it, as with the other paid features.
+ */
+export function hasApiAccess(user: { subscriptionTier?: string | null; subscriptionStatus?: string | null }): boolean {
+  const tier = (user.subscriptionTier as SubscriptionTier) || 'FREE'
+  if (!SUBSCRIPTION_TIERS[tier]?.apiAccess) return false
+  return !user.subscriptionStatus || user.subscriptionStatus === 'active'
+}
+
+export interface AuthenticatedApiKey {
+  id: string
+  userId: string
+  userRole: string
+  permissions: ApiKeyScope[]
+  rateLimit: number
+}
+
+export type ApiKeyAuthResult =
+  | { ok: true; apiKey: AuthenticatedApiKey }
+  | { ok: false; reason: 'invalid' | 'revoked' | 'expired' | 'no_api_access' }
+
+export interface CreateApiKeyInput {
+  name: string
+  permissions: ApiKeyScope[]
+  rateLimit?: number
+  expiresAt?: Date
+}
+
+export class ApiKeyService {
+  constructor(private db: Context['db']) {}
+
+  /**
+   * Create a key for a user. Returns the stored record and the key itself,
+   * which the caller must hand over now since only its hash is kept.
+   */
+  async create(userId: string, input: CreateApiKeyInput) {
+    const key = generateApiKey()
+
+    const apiKey = await this.db.apiKey.create({
+      data: {
+        userId,
+        name: input.name,
+        key: hashApiKey(key),
+        prefix: apiKeyPrefix(key),
+        permissions: input.permissions,
+        rateLimit: input.rateLimit ?? DEFAULT_API_KEY_RATE_LIMIT,
+        expiresAt: input.expiresAt
+      }
+    })
+
+    return { apiKey, key }
+  }
+
+  /**
+   * Resolve a key presented by a client, and record that it was used
+   */
+  async authenticate(key: string, now = new Date()): Promise<ApiKeyAuthResult> {
+    if (!key.startsWith(API_KEY_PREFIX)) return { ok: false, reason: 'invalid' }
+
+    const apiKey = await this.db.apiKey.findUnique({
+      where: { key: hashApiKey(key) },
+      include: {
+        user: { select: { id: true, role: true, subscriptionTier: true, subscriptionStatus: true, deletedAt: true } }
+      }
+    })
+
+    if (!apiKey || apiKey.user.deletedAt) return { ok: false, reason: 'invalid' }
+    if (apiKey.revokedAt) return { ok: false, reason: 'revoked' }
+    if (apiKey.expiresAt && apiKey.expiresAt <= now) return { ok: false, reason: 'expired' }
+    if (!hasApiAccess(apiKey.user)) return { ok: false, reason: 'no_api_access' }
+
+    if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS) {
+      await this.db.apiKey.update({ where: { id: apiKey.id }, data: { lastUsedAt: now } })
+    }
+
+    return {
+      ok: true,
+      apiKey: {
+        id: apiKey.id,
+        userId: apiKey.userId,
+        userRole: apiKey.user.role,
+        permissions: apiKey.permissions as ApiKeyScope[],
+        rateLimit: apiKey.rateLimit
+      }
+    }
+  }
+}
@@ -0,0 +1,429 @@
+import { JobCompensationCalculator, JobCompensationSchema } from '@locumtruerate/calc-core'
+import type { JobCompensation } from '@locumtruerate/calc-core'
+import {
+  ApplicationScoreBreakdown,
+  ApplicationScoreCriterion,
+  ApplicationScoreItem,
+  BoardCertificationRequirement,
+  CLINICAL_CERTIFICATION_LABELS,
+  ClinicalCertification,
+  CredentialType,
+  PROFESSION_LABELS,
+  Profession
+} from '@locumtruerate/types'
+import type { Context } from '../context'
+
+/**
+ * Deterministic match scoring of an application against the job's
+ * structured requirements. Every criterion the job sets a requirement for
+ * earns points with a one-line reason; criteria the job leaves open are
+ * reported but do not count, so the score is the share of the applicable
+ * points the application earned.
+ */
+
+export const SCORER_VERSION = 1
+
+const MAX_POINTS: Record<ApplicationScoreCriterion, number> = {
+  [ApplicationScoreCriterion.EXPERIENCE]: 20,
+  [ApplicationScoreCriterion.PROFESSION]: 15,
+  [ApplicationScoreCriterion.SPECIALTY]: 20,
+  [ApplicationScoreCriterion.LICENSES]: 20,
+  [ApplicationScoreCriterion.CERTIFICATIONS]: 10,
+  [ApplicationScoreCriterion.EXPECTED_PAY]: 10,
+  [ApplicationScoreCriterion.AVAILABILITY]: 5
+}
+
+// Share of the points given when the applicant left a field blank, so a
+// missing answer ranks between a match and a mismatch
+const NOT_PROVIDED_SHARE = 0.5
+
+// Licenses the applicant only reports count for less than attached ones
+const SELF_REPORTED_LICENSE_SHARE = 0.75
+
+// Expected pay this far above the top of the range earns nothing
+const PAY_OVERAGE_LIMIT = 0.25
+
+// Days after the latest start date at which availability earns nothing
+const LATE_START_LIMIT_DAYS = 30
+
+const WEEKS_PER_YEAR = 52
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface ScoringCredential {
+  type: string
+  name: string
+  issuingState?: string | null
+  expiresAt?: Date | null
+  verificationStatus?: string | null
+}
+
+export interface ScoringApplication {
+  experience: number
+  currentRole?: string | null
+  coverLetter?: string | null
+  specialty?: string | null
+  licenseStates?: string[] | null
+  expectedSalary?: string | null
+  noticePeriod?: string | null
+  appliedAt?: Date | null
+  credentials?: ScoringCredential[]
+}
+
+export interface ScoringJob {
+  profession?: string | null
+  specialty?: string | null
+  subspecialty?: string | null
+  boardCertification?: string | null
+  requiredLicenseStates?: string[] | null
+  requiredCertifications?: string[] | null
+  minExperienceYears?: number | null
+  compensation?: unknown
+  assignmentStartDate?: Date | null
+  latestStartDate?: Date | null
+}
+
+export interface ApplicationScore {
+  score: number | null // Null when the job has no requirements to score against
+  breakdown: ApplicationScoreBreakdown
+}
+
+// Matched against the applicant's current role, most specific first. The
+// PA, MD and DO abbreviations come last and are case-sensitive so
+// "Hospitalist, Erie PA" or "what I do" are read by their other words.
+const PROFESSION_PATTERNS: [Profession, RegExp][] = [
+  [Profession.CRNA, /\bcrna\b|nurse anesthetist/i],
+  [Profession.NURSE_PRACTITIONER, /nurse practitioner|\b(a?np|fnp|agacnp|pmhnp|aprn)\b/i],
+  [Profession.PHYSICIAN_ASSISTANT, /physician assistant/i],
+  [Profession.REGISTERED_NURSE, /registered nurse|\brn\b|\bnurse\b/i],
+  [Profession.PHYSICIAN, /physician|doctor|hospitalist|nocturnist|surgeon|\w+ologist|\w+iatrist/i],
+  [Profession.PHYSICIAN_ASSISTANT, /\bPA(-C)?\b/],
+  [Profession.PHYSICIAN, /\b(MD|DO)\b/]
+]
+
+const PAY_BASIS_PATTERNS: [JobCompensation['payBasis'], RegExp][] = [
+  ['HOURLY', /\/\s*h(ou)?r|per\s+h(ou)?r|hourly|an hour/i],
+  ['DAILY', /\/\s*day|per\s+day|daily|a day/i],
+  ['SHIFT', /\/\s*shift|per\s+shift|a shift/i],
+  ['ANNUAL', /\/\s*y(ea)?r|per\s+y(ea)?r|annual|yearly|a year/i]
+]
+
+const NOTICE_UNITS: Record<string, number> = { day: 1, week: 7, month: 30 }
+
+const isUsable = (credential: ScoringCredential, now: Date) =>
+  credential.verificationStatus !== 'REJECTED' &&
+  credential.verificationStatus !== 'EXPIRED' &&
+  (!credential.expiresAt || credential.expiresAt >= now)
+
+const round = (value: number) => Math.round(value * 10) / 10
+
+const formatMoney = (amount: number) =>
+  `$${amount.toLocaleString('en-US', { maximumFractionDigits: 2 })}`
+
+const mentions = (text: string | null | undefined, phrase: string) =>
+  Boolean(text) && text!.toLowerCase().includes(phrase.toLowerCase())
+
+export function inferProfession(role: string): Profession | null {
+  const match = PROFESSION_PATTERNS.find(([, pattern]) => pattern.test(role))
+  return match ? match[0] : null
+}
+
+/**
+ * Read free-text expected pay such as "$250/hr", "2,000 per shift" or
+ * "320k". Without a stated period, amounts under $1,000 are taken as hourly
+ * and amounts of $20,000 and up as annual.
+ */
+export function parseExpectedPay(text: string): { amount: number; payBasis: JobCompensation['payBasis'] | null } | null {
+  const match = text.replace(/,/g, '').match(/(\d+(?:\.\d+)?)\s*(k)?/i)
+  if (!match) return null
+
+  const amount = Number(match[1]) * (match[2] ? 1000 : 1)
+  if (!(amount > 0)) return null
+
+  const stated = PAY_BASIS_PATTERNS.find(([, pattern]) => pattern.test(text))
+  if (stated) return { amount, payBasis: stated[0] }
+  if (amount < 1000) return { amount, payBasis: 'HOURLY' }
+  if (amount >= 20000) return { amount, payBasis: 'ANNUAL' }
+  return { amount, payBasis: null }
+}
+
+/**
+ * Days of notice in answers such as "2 weeks", "30 days" or "immediately"
+ */
+export function parseNoticePeriod(text: string): number | null {
+  if (/\b(immediate(ly)?|asap|now|none|no notice)\b/i.test(text)) return 0
+
+  const match = text.match(/(\d+)\s*(day|week|month)/i)
+  return match ? Number(match[1]) * NOTICE_UNITS[match[2].toLowerCase()] : null
+}
+
+function item(
+  criterion: ApplicationScoreCriterion,
+  share: number,
+  detail: string
+): ApplicationScoreItem {
+  const maxPoints = MAX_POINTS[criterion]
+  return {
+    criterion,
+    applicable: true,
+    points: round(maxPoints * Math.min(1, Math.max(0, share))),
+    maxPoints,
+    detail
+  }
+}
+
+const notApplicable = (criterion: ApplicationScoreCriterion, detail: string): ApplicationScoreItem =>
+  ({ criterion, applicable: false, points: 0, maxPoints: 0, detail })
+
+function scoreExperience(application: ScoringApplication, job: ScoringJob) {
+  const criterion = ApplicationScoreCriterion.EXPERIENCE
+  if (!job.minExperienceYears) return notApplicable(criterion, 'No minimum experience set')
+
+  const years = application.experience
+  return item(criterion, years / job.minExperienceYears,
+    years >= job.minExperienceYears
+      ? `${years} years meets the ${job.minExperienceYears}-year minimum`
+      : `${years} of the ${job.minExperienceYears} years required`)
+}
+
+function scoreProfession(application: ScoringApplication, job: ScoringJob) {
+  const criterion = ApplicationScoreCriterion.PROFESSION
+  if (!job.profession) return notApplicable(criterion, 'Any profession')
+
+  const required = PROFESSION_LABELS[job.profession as Profession]
+  if (!application.currentRole) {
+    return item(criterion, NOT_PROVIDED_SHARE, `Current role not given; job is for a ${required}`)
+  }
+
+  const profession = inferProfession(application.currentRole)
+  if (!profession) {
+    return item(criterion, 0, `"${application.currentRole}" does not name a profession; job is for a ${required}`)
+  }
+  return profession === job.profession
+    ? item(criterion, 1, `Works as a ${required}`)
+    : item(criterion, 0, `Works as a ${PROFESSION_LABELS[profession]}; job is for a ${required}`)
+}
+
+function scoreSpecialty(application: ScoringApplication, job: ScoringJob) {
+  const criterion = ApplicationScoreCriterion.SPECIALTY
+  if (!job.specialty) return notApplicable(criterion, 'Any specialty')
+
+  const wanted = [job.subspecialty, job.specialty].filter((name): name is string => Boolean(name))
+  if (application.specialty === job.specialty) {
+    return item(criterion, 1, `Specializes in ${job.specialty}`)
+  }
+
+  const inRole = wanted.find(name => mentions(application.currentRole, name))
+  if (inRole) return item(criterion, 1, `Current role is in ${inRole}`)
+
+  const inLetter = wanted.find(name => mentions(application.coverLetter, name))
+  if (inLetter) return item(criterion, 0.5, `Mentions ${inLetter} in the cover letter`)
+
+  return item(criterion, 0, application.specialty
+    ? `Specializes in ${application.specialty}; job is in ${job.specialty}`
+    : `No ${job.specialty} experience given`)
+}
+
+function scoreLicenses(application: ScoringApplication, job: ScoringJob, now: Date) {
+  const criterion = ApplicationScoreCriterion.LICENSES
+  const required = job.requiredLicenseStates ?? []
+  if (required.length === 0) return notApplicable(criterion, 'No state licenses required')
+
+  const attached = new Set((application.credentials ?? [])
+    .filter(credential => credential.type === CredentialType.STATE_LICENSE && isUsable(credential, now))
+    .map(credential => credential.issuingState))
+  const reported = new Set(application.licenseStates ?? [])
+
+  const held = required.filter(state => attached.has(state))
+  const selfReported = required.filter(state => !attached.has(state) && reported.has(state))
+  const missing = required.filter(state => !attached.has(state) && !reported.has(state))
+
+  const detail = [
+    held.length > 0 && `Licensed in ${held.join(', ')}`,
+    selfReported.length > 0 && `reports a license in ${selfReported.join(', ')}`,
+    missing.length > 0 && `no license in ${missing.join(', ')}`
+  ].filter(Boolean).join('; ')
+
+  return item(criterion,
+    (held.length + selfReported.length * SELF_REPORTED_LICENSE_SHARE) / required.length,
+    detail.charAt(0).toUpperCase() + detail.slice(1))
+}
+
+function scoreCertifications(application: ScoringApplication, job: ScoringJob, now: Date) {
+  const criterion = ApplicationScoreCriterion.CERTIFICATIONS
+  const board = job.boardCertification as BoardCertificationRequirement | null | undefined
+  const certifications = (job.requiredCertifications ?? []) as ClinicalCertification[]
+  const requiresBoard = Boolean(board) && board !== BoardCertificationRequirement.NOT_REQUIRED
+  if (certifications.length === 0 && !requiresBoard) {
+    return notApplicable(criterion, 'No certifications required')
+  }
+
+  const credentials = (application.credentials ?? []).filter(credential => isUsable(credential, now))
+  const hasCertification = (certification: ClinicalCertification) => certification === ClinicalCertification.DEA
+    ? credentials.some(credential => credential.type === CredentialType.DEA_REGISTRATION)
+    : credentials.some(credential =>
+      credential.type === CredentialType.LIFE_SUPPORT_CERTIFICATION &&
+      new RegExp(`\\b${certification}\\b`, 'i').test(credential.name))
+
+  const met: string[] = []
+  const missing: string[] = []
+  for (const certification of certifications) {
+    (hasCertification(certification) ? met : missing).push(CLINICAL_CERTIFICATION_LABELS[certification])
+  }
+
+  if (requiresBoard) {
+    const boardCertified = credentials.some(credential => credential.type === CredentialType.BOARD_CERTIFICATION)
+    // Eligibility has no credential, so the applicant saying so counts
+    const boardEligible = board === BoardCertificationRequirement.BOARD_ELIGIBLE &&
+      [application.currentRole, application.coverLetter].some(text => mentions(text, 'board eligible') || mentions(text, 'board certified'))
+    const label = board === BoardCertificationRequirement.BOARD_ELIGIBLE ? 'Board eligibility' : 'Board certification'
+    ;(boardCertified || boardEligible ? met : missing).push(label)
+  }
+
+  const detail = [
+    met.length > 0 && `Has ${met.join(', ')}`,
+    missing.length > 0 && `missing ${missing.join(', ')}`
+  ].filter(Boolean).join('; ')
+
+  return item(criterion, met.length / (met.length + missing.length),
+    detail.charAt(0).toUpperCase() + detail.slice(1))
+}
+
+const compensationCalculator = new JobCompensationCalculator()
+
+function scoreExpectedPay(application: ScoringApplication, job: ScoringJob) {
+  const criterion = ApplicationScoreCriterion.EXPECTED_PAY
+  const parsed = job.compensation ? JobCompensationSchema.safeParse(job.compensation) : null
+  if (!parsed?.success) return notApplicable(criterion, 'No structured pay on the job')
+
+  const compensation = parsed.data
+  if (!application.expectedSalary) {
+    return item(criterion, NOT_PROVIDED_SHARE, 'Expected pay not given')
+  }
+
+  const expected = parseExpectedPay(application.expectedSalary)
+  if (!expected?.payBasis) {
+    return item(criterion, NOT_PROVIDED_SHARE, `Could not read "${application.expectedSalary}" as a rate`)
+  }
+
+  // Compare in the job's own pay basis when the applicant used it, and as an
+  // hourly rate otherwise
+  let amount: number
+  let max: number
+  if (expected.payBasis === compensation.payBasis) {
+    amount = expected.amount
+    max = compensation.rateMax ?? compensation.rateMin
+  } else {
+    const hourly = expected.payBasis === 'HOURLY'
+      ? expected.amount
+      : expected.payBasis === 'ANNUAL'
+        ? expected.amount / compensation.hoursPerWeek / WEEKS_PER_YEAR
+        : compensation.hoursPerShift
+          ? expected.amount / compensation.hoursPerShift
+          : null
+    if (hourly === null) {
+      return item(criterion, NOT_PROVIDED_SHARE, `Cannot compare "${application.expectedSalary}" with the job's pay`)
+    }
+    amount = hourly
+    max = compensationCalculator.getHourlyRange(compensation).max.toNumber()
+  }
+
+  if (amount <= max) {
+    return item(criterion, 1, `Expects ${application.expectedSalary}, within the posted pay`)
+  }
+
+  const overage = (amount - max) / max
+  return item(criterion, 1 - overage / PAY_OVERAGE_LIMIT,
+    `Expects ${application.expectedSalary}, ${Math.round(overage * 100)}% above the top of the range (${formatMoney(max)}${expected.payBasis === compensation.payBasis ? '' : '/hr'})`)
+}
+
+function scoreAvailability(application: ScoringApplication, job: ScoringJob, now: Date) {
+  const criterion = ApplicationScoreCriterion.AVAILABILITY
+  const deadline = job.latestStartDate ?? job.assignmentStartDate
+  if (!deadline) return notApplicable(criterion, 'No start date set')
+
+  if (!application.noticePeriod) {
+    return item(criterion, NOT_PROVIDED_SHARE, 'Notice period not given')
+  }
+
+  const noticeDays = parseNoticePeriod(application.noticePeriod)
+  if (noticeDays === null) {
+    return item(criterion, NOT_PROVIDED_SHARE, `Could not read "${application.noticePeriod}" as a notice period`)
+  }
+
+  const startLabel = job.latestStartDate ? 'latest start date' : 'start date'
+  const availableOn = new Date((application.appliedAt ?? now).getTime() + noticeDays * DAY_MS)
+  const lateDays = Math.ceil((availableOn.getTime() - deadline.getTime()) / DAY_MS)
+  return lateDays <= 0
+    ? item(criterion, 1, `Available by the ${startLabel}`)
+    : item(criterion, 1 - lateDays / LATE_START_LIMIT_DAYS, `Available ${lateDays} days after the ${startLabel}`)
+}
+
+export function scoreApplication(
+  application: ScoringApplication,
+  job: ScoringJob,
+  now: Date = new Date()
+): ApplicationScore {
+  const items = [
+    scoreExperience(application, job),
+    scoreProfession(application, job),
+    scoreSpecialty(application, job),
+    scoreLicenses(application, job, now),
+    scoreCertifications(application, job, now),
+    scoreExpectedPay(application, job),
+    scoreAvailability(application, job, now)
+  ]
+
+  const points = round(items.reduce((sum, entry) => sum + entry.points, 0))
+  const maxPoints = items.reduce((sum, entry) => sum + entry.maxPoints, 0)
+
+  return {
+    score: maxPoints > 0 ? Math.round((points / maxPoints) * 100) : null,
+    breakdown: { version: SCORER_VERSION, items, points, maxPoints }
+  }
+}
+
+/**
+ * Re-score every application for a job, e.g. after its requirements change.
+ * Returns the number of applications scored.
+ */
+export async function rescoreJobApplications(db: Context['db'], jobId: string, now: Date = new Date()): Promise<number> {
+  const job = await db.job.findUnique({ where: { id: jobId } })
+  if (!job) return 0
+
+  const applications = await db.application.findMany({
+    where: { jobId },
+    include: {
+      credentials: {
+        select: {
+          credential: {
+            select: {
+              type: true,
+              name: true,
+              issuingState: true,
+              expiresAt: true,
+              verificationStatus: true
+            }
+          }
+        }
+      }
+    }
+  })
+
+  for (const application of applications) {
+    const { score, breakdown } = scoreApplication({
+      ...application,
+      credentials: application.credentials.map(({ credential }) => credential)
+    }, job, now)
+
+    await db.application.update({
+      where: { id: application.id },
+      data: {
+        score,
+        scoreBreakdown: breakdown,
+        scoredAt: now
+      }
+    })
+  }
+
+  return applications.length
+}
@@ -0,0 +1,276 @@
+import { randomBytes } from 'crypto'
+import bcrypt from 'bcryptjs'
+import {
+  CalculationShareLinkStatus,
+  SharedCalculation,
+  SharedCalculationGate
+} from '@locumtruerate/types'
+import { RateLimiter } from '@locumtruerate/shared'
+import type { Context } from '../context'
+
+/**
+ * Share links for saved calculations. Links are addressed by a random token,
+ * never the calculation id, so they can't be guessed and can be revoked one
+ * at a time. Opening a link records a view for the owner to see.
+ */
+
+const PASSWORD_HASH_ROUNDS = 10
+const RECENT_VIEWS = 10
+
+// Wrong passwords before a link locks, and for how long
+export const MAX_FAILED_PASSWORD_ATTEMPTS = 5
+export const PASSWORD_LOCKOUT_MS = 15 * 60 * 1000
+
+// Password attempts allowed from one IP address across all links
+const passwordAttemptLimiter = new RateLimiter({ windowMs: 15 * 60 * 1000, maxRequests: 20 })
+
+// Input and result fields hidden by redacting links, wherever they appear
+// (results embed a copy of the input). Every calculator input field is
+// either listed here or known to be shareable; the tests check both lists
+// against calc-core's input schemas.
+export const PERSONAL_CALCULATION_FIELDS = new Set([
+  'filingStatus',
+  'taxInfo',
+  'taxHome',
+  'exemptions',
+  'w4',
+  'deductions',
+  'totalDeductions',
+  'preTaxDeductions',
+  'rothDeductions',
+  'afterTaxDeductions',
+  'retirement',
+  'businessExpenses',
+  'additionalFederalWithholding',
+  'additionalStateWithholding',
+  'residenceState',
+  'homeState',
+  'residenceCity',
+  'residenceZipCode',
+  'ytdGross',
+  'ytdFederalTax',
+  'ytdStateTax',
+  'ytdSocialSecurity',
+  'ytdMedicare',
+  'ytdStateDisability'
+])
+
+export const generateShareToken = () => randomBytes(24).toString('base64url')
+
+export const shareUrl = (token: string) =>
+  `${process.env.NEXT_PUBLIC_APP_URL || 'https://locumtruerate.com'}/share/${token}`
+
+export function redactCalculation<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(redactCalculation) as T
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key]) => !PERSONAL_CALCULATION_FIELDS.has(key))
+        .map(([key, entry]) => [key, redactCalculation(entry)])
+    ) as T
+  }
+  return value
+}
+
+export function shareLinkStatus(
+  link: { expiresAt?: Date | null; revokedAt?: Date | null },
+  now = new Date()
+): CalculationShareLinkStatus {
+  if (link.revokedAt) return CalculationShareLinkStatus.REVOKED
+  if (link.expiresAt && link.expiresAt <= now) return CalculationShareLinkStatus.EXPIRED
+  return CalculationShareLinkStatus.ACTIVE
+}
+
+// The saved result fields a headline reads. Results are stored as JSON, so
+// calc-core's Decimal amounts come back as strings.
+type StoredAmount = string | number | null
+
+export interface CalculationHeadlineSource {
+  totals?: { netAnnualPay?: StoredAmount }
+  currentPay?: { netPay?: StoredAmount }
+}
+
+/**
+ * Headline figure for preview cards: annual take-home for contracts, net
+ * pay for paychecks
+ */
+export function calculationHeadline(
+  type: string,
+  result: CalculationHeadlineSource | null
+): { label: string; amount: number } | null {
+  const amount = type === 'paycheck' ? result?.currentPay?.netPay : result?.totals?.netAnnualPay
+  const value = Number(amount)
+  if (amount === undefined || amount === null || !Number.isFinite(value)) return null
+  return { label: type === 'paycheck' ? 'Net pay' : 'Annual take-home', amount: value }
+}
+
+export interface CreateShareLinkInput {
+  label?: string
+  redactPersonal: boolean
+  password?: string
+  expiresAt?: Date
+}
+
+export interface ShareViewer {
+  userId?: string
+  ipAddress?: string
+  userAgent?: string
+  referrer?: string
+}
+
+export type OpenShareLinkResult =
+  | { status: 'ok'; calculation: SharedCalculation }
+  | { status: 'not_found' }
+  | { status: SharedCalculationGate }
+
+export class CalculationShareService {
+  constructor(
+    private db: Context['db'],
+    private passwordAttempts: Pick<RateLimiter, 'checkLimit'> = passwordAttemptLimiter
+  ) {}
+
+  async createLink(calculationId: string, createdBy: string, input: CreateShareLinkInput) {
+    return this.db.calculationShareLink.create({
+      data: {
+        calculationId,
+        createdBy,
+        token: generateShareToken(),
+        label: input.label,
+        redactPersonal: input.redactPersonal,
+        passwordHash: input.password ? await bcrypt.hash(input.password, PASSWORD_HASH_ROUNDS) : null,
+        expiresAt: input.expiresAt
+      }
+    })
+  }
+
+  /**
+   * A calculation's links with their view counts and latest views
+   */
+  async listLinks(calculationId: string, now = new Date()) {
+    const links = await this.db.calculationShareLink.findMany({
+      where: { calculationId },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        views: { orderBy: { viewedAt: 'desc' }, take: RECENT_VIEWS, select: { viewedAt: true } }
+      }
+    })
+
+    return links.map(({ token, passwordHash, views, ...link }) => ({
+      ...link,
+      url: shareUrl(token),
+      hasPassword: !!passwordHash,
+      status: shareLinkStatus(link, now),
+      recentViews: views.map(view => view.viewedAt)
+    }))
+  }
+
+  /**
+   * Open a link for a viewer. Checks revocation, expiry and the password,
+   * then counts the view unless the viewer is the link's creator. Password
+   * guesses are limited per IP address, and a link locks for a while after
+   * MAX_FAILED_PASSWORD_ATTEMPTS wrong ones.
+   */
+  async open(token: string, password: string | undefined, viewer: ShareViewer, now = new Date()): Promise<OpenShareLinkResult> {
+    const link = await this.db.calculationShareLink.findUnique({
+      where: { token },
+      include: { calculation: true }
+    })
+
+    const status = link ? shareLinkStatus(link, now) : null
+    if (!link || status === CalculationShareLinkStatus.REVOKED || link.calculation.deletedAt) return { status: 'not_found' }
+    if (status === CalculationShareLinkStatus.EXPIRED) return { status: 'expired' }
+
+    if (link.passwordHash) {
+      if (link.lockedUntil && link.lockedUntil > now) return { status: 'locked' }
+      if (!password) return { status: 'password_required' }
+
+      if (viewer.ipAddress) {
+        const { allowed } = await this.passwordAttempts.checkLimit(`share-password:${viewer.ipAddress}`)
+        if (!allowed) return { status: 'locked' }
+      }
+
+      if (!(await bcrypt.compare(password, link.passwordHash))) return this.recordFailedPassword(link.id, now)
+
+      if (link.failedPasswordAttempts > 0) {
+        await this.db.calculationShareLink.update({
+          where: { id: link.id },
+          data: { failedPasswordAttempts: 0 }
+        })
+      }
+    }
+
+    if (viewer.userId !== link.createdBy) {
+      await this.db.calculationShareLink.update({
+        where: { id: link.id },
+        data: {
+          viewCount: { increment: 1 },
+          lastViewedAt: now,
+          views: {
+            create: {
+              viewedAt: now,
+              userAgent: viewer.userAgent?.slice(0, 500),
+              referrer: viewer.referrer?.slice(0, 500)
+            }
+          }
+        }
+      })
+    }
+
+    const { calculation } = link
+    const redact = <T>(value: T) => (link.redactPersonal ? redactCalculation(value) : value)
+
+    return {
+      status: 'ok',
+      calculation: {
+        type: calculation.type as SharedCalculation['type'],
+        name: calculation.name ?? undefined,
+        input: redact(calculation.input as Record<string, any>),
+        result: redact(calculation.result as Record<string, any>),
+        redacted: link.redactPersonal,
+        sharedAt: link.createdAt,
+        expiresAt: link.expiresAt ?? undefined
+      }
+    }
+  }
+
+  /**
+   * Count a wrong password, locking the link once the limit is reached. The
+   * count is incremented in the database so concurrent guesses all add up.
+   */
+  private async recordFailedPassword(linkId: string, now: Date): Promise<OpenShareLinkResult> {
+    const { failedPasswordAttempts } = await this.db.calculationShareLink.update({
+      where: { id: linkId },
+      data: { failedPasswordAttempts: { increment: 1 } },
+      select: { failedPasswordAttempts: true }
+    })
+
+    if (failedPasswordAttempts < MAX_FAILED_PASSWORD_ATTEMPTS) return { status: 'invalid_password' }
+
+    await this.db.calculationShareLink.update({
+      where: { id: linkId },
+      data: { failedPasswordAttempts: 0, lockedUntil: new Date(now.getTime() + PASSWORD_LOCKOUT_MS) }
+    })
+    return { status: 'locked' }
+  }
+
+  /**
+   * What link previews (Open Graph cards) may show, without counting a view.
+   * Password-protected links reveal nothing.
+   */
+  async preview(token: string, now = new Date()) {
+    const link = await this.db.calculationShareLink.findUnique({
+      where: { token },
+      include: { calculation: { select: { type: true, name: true, result: true, deletedAt: true } } }
+    })
+
+    if (!link || link.calculation.deletedAt || shareLinkStatus(link, now) !== CalculationShareLinkStatus.ACTIVE) return null
+    if (link.passwordHash) return { protected: true as const, type: null, name: null, headline: null }
+
+    return {
+      protected: false as const,
+      type: link.calculation.type,
+      name: link.calculation.name,
+      headline: calculationHeadline(link.calculation.type, link.calculation.result as CalculationHeadlineSource | null)
+    }
+  }
+}
@@ -0,0 +1,189 @@
+import type { Prisma } from '@locumtruerate/database'
+import {
+  CalculationFieldClock,
+  CalculationSyncCursor,
+  CalculationSyncRecord,
+  CalculationSyncRequest,
+  CalculationSyncResponse,
+  SYNCED_CALCULATION_FIELDS,
+  isCalculationTombstone,
+  mergeCalculationSyncRecords
+} from '@locumtruerate/types'
+import type { Context } from '../context'
+
+/**
+ * Server side of calculator history sync. Devices push the calculations
+ * they changed and pull everything that changed since their last sync;
+ * the two copies of a calculation are merged field by field with
+ * mergeCalculationSyncRecords. Deletes are soft (deletedAt) so they can be
+ * handed to other devices as tombstones.
+ */
+
+const SYNC_PAGE_SIZE = 500
+
+type SavedCalculationRow = {
+  id: string
+  userId: string
+  type: string
+  input: Prisma.JsonValue
+  result: Prisma.JsonValue
+  name: string | null
+  tags: string[]
+  isFavorite: boolean
+  metadata: Prisma.JsonValue | null
+  timestamp: Date
+  updatedAt: Date
+  fieldUpdatedAt: Prisma.JsonValue | null
+  deletedAt: Date | null
+}
+
+// Pulls go in (updatedAt, id) order and a cursor names the last row a
+// device was sent, so rows sharing an updatedAt are neither skipped nor
+// sent twice at a page boundary
+export const SYNC_CURSOR_PATTERN = /^\d+:/
+
+export const encodeSyncCursor = (updatedAt: number, id = ''): CalculationSyncCursor => `${updatedAt}:${id}`
+
+export function decodeSyncCursor(cursor: CalculationSyncCursor): { updatedAt: Date; id: string } {
+  const separator = cursor.indexOf(':')
+  return { updatedAt: new Date(Number(cursor.slice(0, separator))), id: cursor.slice(separator + 1) }
+}
+
+export function toSyncRecord(row: SavedCalculationRow): CalculationSyncRecord {
+  // Rows written before sync existed have no field clocks; their fields
+  // date from the last update
+  const updatedAt = row.updatedAt.getTime()
+  const clock = (row.fieldUpdatedAt ?? {}) as CalculationFieldClock
+
+  return {
+    id: row.id,
+    type: row.type as CalculationSyncRecord['type'],
+    input: row.input as CalculationSyncRecord['input'],
+    result: row.result as CalculationSyncRecord['result'],
+    name: row.name,
+    tags: row.tags,
+    isFavorite: row.isFavorite,
+    metadata: row.metadata as CalculationSyncRecord['metadata'],
+    timestamp: row.timestamp.getTime(),
+    fieldUpdatedAt: Object.fromEntries(
+      SYNCED_CALCULATION_FIELDS.map(field => [field, clock[field] ?? updatedAt])
+    ),
+    deletedAt: row.deletedAt?.getTime() ?? null
+  }
+}
+
+/**
+ * Field clocks after an edit through the update procedure, so the edit
+ * syncs like one made on a device
+ */
+export function touchFields(row: SavedCalculationRow, fields: string[], now = new Date()): CalculationFieldClock {
+  const touched = { ...toSyncRecord(row).fieldUpdatedAt }
+  for (const field of SYNCED_CALCULATION_FIELDS) {
+    if (fields.includes(field)) touched[field] = now.getTime()
+  }
+  return touched
+}
+
+// A device with its clock set ahead would otherwise win every conflict
+// until real time caught up
+function clampToNow(record: CalculationSyncRecord, now: number): CalculationSyncRecord {
+  return {
+    ...record,
+    timestamp: Math.min(record.timestamp, now),
+    fieldUpdatedAt: Object.fromEntries(
+      Object.entries(record.fieldUpdatedAt).map(([field, at]) => [field, Math.min(at as number, now)])
+    ),
+    deletedAt: record.deletedAt == null ? null : Math.min(record.deletedAt, now)
+  }
+}
+
+function toRowData(record: CalculationSyncRecord) {
+  return {
+    type: record.type,
+    input: record.input as Prisma.InputJsonObject,
+    result: record.result as Prisma.InputJsonObject,
+    name: record.name ?? null,
+    tags: record.tags ?? [],
+    isFavorite: record.isFavorite ?? false,
+    metadata: record.metadata ?? {},
+    timestamp: new Date(record.timestamp),
+    fieldUpdatedAt: record.fieldUpdatedAt,
+    // Cleared when an edit made after the delete brings the calculation back
+    deletedAt: isCalculationTombstone(record) ? new Date(record.deletedAt!) : null
+  }
+}
+
+export class CalculationSyncService {
+  constructor(private db: Context['db']) {}
+
+  /**
+   * Apply a device's changes, then return what changed since it last
+   * synced. Devices choose calculation ids, so a pushed id may already be
+   * another user's calculation; those changes are ignored, never merged in
+   * or used to take the id over.
+   */
+  async sync(userId: string, request: CalculationSyncRequest, now = new Date()): Promise<CalculationSyncResponse> {
+    // Taken before writing so the device's next pull starts no later than
+    // anything written during this one
+    const serverTime = now.getTime()
+
+    if (request.changes.length > 0) {
+      const existing: SavedCalculationRow[] = await this.db.savedCalculation.findMany({
+        where: { id: { in: request.changes.map(change => change.id) } }
+      })
+      const rows = new Map(existing.map(row => [row.id, row]))
+      const created = []
+
+      for (const change of request.changes) {
+        const incoming = clampToNow(change, serverTime)
+        const row = rows.get(change.id)
+
+        if (!row) {
+          created.push({ id: change.id, userId, ...toRowData(incoming) })
+        } else if (row.userId === userId) {
+          const merged = mergeCalculationSyncRecords(toSyncRecord(row), incoming)
+          await this.db.savedCalculation.update({
+            where: { id: change.id },
+            data: toRowData(merged)
+          })
+        }
+      }
+
+      if (created.length > 0) {
+        // An id claimed by another request since the lookup keeps its
+        // calculation
+        await this.db.savedCalculation.createMany({ data: created, skipDuplicates: true })
+      }
+    }
+
+    const since = request.since !== undefined ? decodeSyncCursor(request.since) : undefined
+    const rows: SavedCalculationRow[] = await this.db.savedCalculation.findMany({
+      where: {
+        userId,
+        ...(since
+          ? {
+              OR: [
+                { updatedAt: { gt: since.updatedAt } },
+                { updatedAt: since.updatedAt, id: { gt: since.id } }
+              ]
+            }
+          // A device pulling everything has nothing to delete
+          : { deletedAt: null })
+      },
+      orderBy: [{ updatedAt: 'asc' }, { id: 'asc' }],
+      take: SYNC_PAGE_SIZE + 1
+    })
+
+    const hasMore = rows.length > SYNC_PAGE_SIZE
+    const page = rows.slice(0, SYNC_PAGE_SIZE)
+    const last = page[page.length - 1]
+
+    return {
+      changes: page.map(toSyncRecord),
+      // Resume after the last row of a partial page, otherwise from the
+      // start of this sync
+      cursor: hasMore ? encodeSyncCursor(last.updatedAt.getTime(), last.id) : encodeSyncCursor(serverTime),
+      hasMore
+    }
+  }
+}
\ No newline at end of file
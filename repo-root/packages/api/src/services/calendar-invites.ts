@@ -0,0 +1,97 @@
+/**
+ * iCalendar (RFC 5545) invites for interviews. Invites keep the same UID for
+ * the life of an interview and bump SEQUENCE on every change, so calendar
+ * clients update or cancel the original event instead of adding a new one.
+ */
+
+export interface CalendarAttendee {
+  email: string
+  name?: string | null
+}
+
+export interface CalendarInvite {
+  uid: string
+  sequence: number
+  method: 'REQUEST' | 'CANCEL'
+  startsAt: Date
+  endsAt: Date
+  summary: string
+  description?: string | null
+  location?: string | null
+  url?: string | null
+  organizer: CalendarAttendee
+  attendees: CalendarAttendee[]
+}
+
+const MAX_LINE_OCTETS = 75
+
+const formatUtc = (date: Date) =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+
+const escapeParam = (value: string) => `"${value.replace(/"/g, "'")}"`
+
+/**
+ * Fold a content line at 75 octets; continuation lines start with a space
+ */
+export function foldLine(line: string): string {
+  const parts: string[] = []
+  let current = ''
+  let octets = 0
+  const limit = () => parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char)
+    if (octets + size > limit()) {
+      parts.push(current)
+      current = ''
+      octets = 0
+    }
+    current += char
+    octets += size
+  }
+  parts.push(current)
+
+  return parts.join('\r\n ')
+}
+
+const person = (property: 'ORGANIZER' | 'ATTENDEE', attendee: CalendarAttendee) => {
+  const params = property === 'ATTENDEE'
+    ? ';ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE'
+    : ''
+  const name = attendee.name ? `;CN=${escapeParam(attendee.name)}` : ''
+  return `${property}${name}${params}:mailto:${attendee.email}`
+}
+
+export function buildCalendarInvite(invite: CalendarInvite, now: Date = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'PRODID:-//LocumTrueRate//Interviews//EN',
+    'VERSION:2.0',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${invite.method}`,
+    'BEGIN:VEVENT',
+    `UID:${invite.uid}`,
+    `SEQUENCE:${invite.sequence}`,
+    `DTSTAMP:${formatUtc(now)}`,
+    `DTSTART:${formatUtc(invite.startsAt)}`,
+    `DTEND:${formatUtc(invite.endsAt)}`,
+    `SUMMARY:${escapeText(invite.summary)}`,
+    invite.description && `DESCRIPTION:${escapeText(invite.description)}`,
+    invite.location && `LOCATION:${escapeText(invite.location)}`,
+    invite.url && `URL:${invite.url}`,
+    person('ORGANIZER', invite.organizer),
+    ...invite.attendees.map(attendee => person('ATTENDEE', attendee)),
+    `STATUS:${invite.method === 'CANCEL' ? 'CANCELLED' : 'CONFIRMED'}`,
+    'END:VEVENT',
+    'END:VCALENDAR'
+  ].filter((line): line is string => Boolean(line))
+
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
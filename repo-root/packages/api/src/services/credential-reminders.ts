@@ -0,0 +1,126 @@
+import {
+  CREDENTIAL_REMINDER_DAYS,
+  CREDENTIAL_TYPE_LABELS,
+  CredentialType,
+  daysUntilExpiry
+} from '@locumtruerate/types'
+import type { Context } from '../context'
+import { sendCredentialExpiringReminder } from './email-service'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Reminder threshold (90, 60 or 30 days) a credential is due for, or null when
+ * no reminder is due. Only the most urgent threshold crossed is returned, so a
+ * credential added 20 days before expiry gets the 30-day reminder alone, and
+ * a threshold already reminded about is never repeated.
+ */
+export function dueReminderDays(
+  expiresAt: Date,
+  lastReminderDays: number | null | undefined,
+  now: Date = new Date()
+): number | null {
+  const days = daysUntilExpiry(expiresAt, now)
+  if (days < 0) return null
+
+  const crossed = CREDENTIAL_REMINDER_DAYS.filter(threshold => days <= threshold)
+  if (crossed.length === 0) return null
+
+  const threshold = Math.min(...crossed)
+  if (lastReminderDays != null && lastReminderDays <= threshold) return null
+
+  return threshold
+}
+
+/**
+ * Expiration reminders for credentials in provider wallets
+ */
+export class CredentialReminderService {
+  constructor(private db: Context['db']) {}
+
+  /**
+   * Mark lapsed credentials as expired, then send an in-app notification and
+   * an email for each credential crossing a reminder threshold
+   */
+  async sendExpirationReminders(now = new Date()): Promise<{ processed: number; sent: number; expired: number; errors: number }> {
+    const { count: expired } = await this.db.credential.updateMany({
+      where: {
+        deletedAt: null,
+        expiresAt: { lt: now },
+        verificationStatus: { notIn: ['EXPIRED', 'REJECTED'] }
+      },
+      data: { verificationStatus: 'EXPIRED' }
+    })
+
+    const credentials = await this.db.credential.findMany({
+      where: {
+        deletedAt: null,
+        expiresAt: {
+          gte: now,
+          lte: new Date(now.getTime() + CREDENTIAL_REMINDER_DAYS[0] * DAY_MS)
+        },
+        verificationStatus: { not: 'REJECTED' }
+      },
+      include: {
+        user: { select: { email: true, contactName: true } }
+      }
+    })
+
+    let sent = 0
+    let errors = 0
+
+    for (const credential of credentials) {
+      const threshold = dueReminderDays(credential.expiresAt!, credential.lastReminderDays, now)
+      if (threshold === null) continue
+
+      try {
+        const daysRemaining = daysUntilExpiry(credential.expiresAt!, now)
+        const expiresAt = credential.expiresAt!.toLocaleDateString('en-US', {
+          month: 'long',
+          day: 'numeric',
+          year: 'numeric',
+          timeZone: 'UTC'
+        })
+
+        await this.db.notification.create({
+          data: {
+            userId: credential.userId,
+            type: 'credential_expiring',
+            title: `${credential.name} expires in ${daysRemaining} days`,
+            message: `Your ${credential.name} expires on ${expiresAt}. Renew it and update your credential wallet.`,
+            data: {
+              credentialId: credential.id,
+              expiresAt: credential.expiresAt!.toISOString(),
+              daysRemaining
+            }
+          }
+        })
+
+        const result = await sendCredentialExpiringReminder(credential.user.email, {
+          name: credential.user.contactName,
+          credentialName: credential.name,
+          credentialType: CREDENTIAL_TYPE_LABELS[credential.type as CredentialType],
+          issuingState: credential.issuingState,
+          expiresAt,
+          daysRemaining
+        })
+        if (!result.success) {
+          errors++
+        }
+
+        // The in-app notification went out, so don't repeat this threshold
+        // even if the email failed
+        await this.db.credential.update({
+          where: { id: credential.id },
+          data: { lastReminderDays: threshold }
+        })
+        sent++
+      } catch (error) {
+        console.error('Failed to send credential expiration reminder:', error)
+        errors++
+      }
+    }
+
+    return { processed: credentials.length, sent, expired, errors }
+  }
+}
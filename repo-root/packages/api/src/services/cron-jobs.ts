@@ -1,4 +1,7 @@
 import { LeadScoringService } from './lead-scoring'
+import { JobMatchingService } from './job-matching'
+import { CredentialReminderService } from './credential-reminders'
+import { WebhookService } from './webhooks'
 import { db } from '@/lib/db'
 
 /**
@@ -7,6 +10,8 @@ import { db } from '@/lib/db'
 export class CronJobService {
   private static isRunning = false
   private static intervals: NodeJS.Timeout[] = []
+  // A slow batch of webhook deliveries can outlast the interval
+  private static isDeliveringWebhooks = false
 
   /**
    * Start all automated jobs
@@ -43,7 +48,28 @@ export class CronJobService {
       await this.autoCreateHighQualityListings()
     }, 2 * 60 * 60 * 1000)
 
-    this.intervals.push(scoringInterval, ageUpdateInterval, cleanupInterval, autoListingInterval)
+    // Candidate job match digest - daily at 7 AM
+    const matchDigestInterval = setInterval(async () => {
+      const now = new Date()
+      if (now.getHours() === 7) {
+        await this.sendJobMatchDigests()
+      }
+    }, 60 * 60 * 1000) // Check every hour
+
+    // Credential expiration reminders - daily at 8 AM
+    const credentialReminderInterval = setInterval(async () => {
+      const now = new Date()
+      if (now.getHours() === 8) {
+        await this.sendCredentialReminders()
+      }
+    }, 60 * 60 * 1000) // Check every hour
+
+    // Outbound webhook deliveries and retries - every minute
+    const webhookInterval = setInterval(async () => {
+      await this.deliverWebhooks()
+    }, 60 * 1000)
+
+    this.intervals.push(scoringInterval, ageUpdateInterval, cleanupInterval, autoListingInterval, matchDigestInterval, credentialReminderInterval, webhookInterval)
     console.log('All automated jobs started successfully')
   }
 
@@ -270,6 +296,72 @@ export class CronJobService {
     }
   }
 
+  /**
+   * Email candidates their new job matches
+   */
+  private static async sendJobMatchDigests(): Promise<void> {
+    try {
+      console.log('Sending job match digests...')
+      const startTime = Date.now()
+
+      const results = await new JobMatchingService(db).sendDailyDigests()
+
+      const duration = Date.now() - startTime
+      console.log(`Job match digests completed in ${duration}ms:`, results)
+
+      await this.logJobPerformance('job_match_digest', duration, results)
+    } catch (error) {
+      console.error('Job match digest failed:', error)
+      await this.logJobError('job_match_digest', error)
+    }
+  }
+
+  /**
+   * Remind providers about credentials nearing expiry
+   */
+  private static async sendCredentialReminders(): Promise<void> {
+    try {
+      console.log('Sending credential expiration reminders...')
+      const startTime = Date.now()
+
+      const results = await new CredentialReminderService(db).sendExpirationReminders()
+
+      const duration = Date.now() - startTime
+      console.log(`Credential reminders completed in ${duration}ms:`, results)
+
+      await this.logJobPerformance('credential_reminders', duration, results)
+    } catch (error) {
+      console.error('Credential reminders failed:', error)
+      await this.logJobError('credential_reminders', error)
+    }
+  }
+
+  /**
+   * Send queued webhook deliveries and retries that are due
+   */
+  private static async deliverWebhooks(): Promise<void> {
+    if (this.isDeliveringWebhooks) return
+    this.isDeliveringWebhooks = true
+
+    try {
+      const startTime = Date.now()
+
+      const results = await new WebhookService(db).processDueDeliveries()
+
+      // Most runs find nothing due; only record the ones that did work
+      if (results.attempted > 0) {
+        const duration = Date.now() - startTime
+        console.log(`Webhook deliveries completed in ${duration}ms:`, results)
+        await this.logJobPerformance('webhook_delivery', duration, results)
+      }
+    } catch (error) {
+      console.error('Webhook delivery failed:', error)
+      await this.logJobError('webhook_delivery', error)
+    } finally {
+      this.isDeliveringWebhooks = false
+    }
+  }
+
   /**
    * Log job performance metrics
    */
@@ -376,6 +468,18 @@ export class CronJobService {
           await this.autoCreateHighQualityListings()
           return { success: true, message: 'Auto-listing job completed' }
         
+        case 'job_match_digest':
+          await this.sendJobMatchDigests()
+          return { success: true, message: 'Job match digests sent' }
+        
+        case 'credential_reminders':
+          await this.sendCredentialReminders()
+          return { success: true, message: 'Credential reminders sent' }
+        
+        case 'webhook_delivery':
+          await this.deliverWebhooks()
+          return { success: true, message: 'Due webhook deliveries sent' }
+        
         default:
           return { success: false, message: `Unknown job: ${jobName}` }
       }
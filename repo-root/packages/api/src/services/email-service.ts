@@ -20,6 +20,26 @@ export interface EmailData {
   text?: string
   templateId?: string
   dynamicTemplateData?: Record<string, any>
+  attachments?: EmailAttachment[]
+}
+
+// SendGrid attachment; content is base64 encoded
+export interface EmailAttachment {
+  content: string
+  filename: string
+  type: string
+  disposition?: 'attachment' | 'inline'
+}
+
+// One job in the job match digest
+export interface JobMatch {
+  title: string
+  company?: string | null
+  location: string
+  salary?: string | null
+  slug: string
+  score: number
+  reasons?: string[]
 }
 
 /**
@@ -42,6 +62,7 @@ export class EmailService {
       replyTo?: string
       trackOpens?: boolean
       trackClicks?: boolean
+      attachments?: EmailAttachment[]
     }
   ): Promise<{ success: boolean; messageId?: string; error?: string }> {
     try {
@@ -56,6 +77,7 @@ export class EmailService {
         subject: templateConfig.subject,
         html: templateConfig.html,
         text: templateConfig.text,
+        attachments: options?.attachments,
       }
 
       const result = await this.sendEmail(emailData, options)
@@ -177,6 +199,11 @@ export class EmailService {
       'high_quality_lead': this.getHighQualityLeadTemplate(data),
       'support_ticket_created': this.getSupportTicketCreatedTemplate(data),
       'support_ticket_resolved': this.getSupportTicketResolvedTemplate(data),
+      'job_match_digest': this.getJobMatchDigestTemplate(data),
+      'credential_expiring': this.getCredentialExpiringTemplate(data),
+      'interview_invitation': this.getInterviewInvitationTemplate(data),
+      'offer_sent': this.getOfferSentTemplate(data),
+      'offer_response': this.getOfferResponseTemplate(data),
     }
 
     return templates[templateName as keyof typeof templates] || null
@@ -698,6 +725,208 @@ export class EmailService {
       text: `Support Ticket Resolved\n\nTicket #: ${ticketNumber}\nSubject: ${subject}\n\n${resolution ? `Resolution: ${resolution}\n\n` : ''}Visit support: ${process.env.API_URL}/support`
     }
   }
+
+  /**
+   * Daily job match digest template
+   */
+  private static getJobMatchDigestTemplate(data: Record<string, any>): EmailTemplate {
+    const { name, matches = [] }: { name?: string | null; matches?: JobMatch[] } = data
+
+    return {
+      subject: `${matches.length} new job ${matches.length === 1 ? 'match' : 'matches'} for your availability`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px 20px; text-align: center;">
+            <h1 style="color: white; margin: 0;">Your Job Matches</h1>
+          </div>
+          
+          <div style="padding: 40px 20px; background: white;">
+            <h2 style="color: #333;">Hi ${name || 'there'},</h2>
+            
+            <p style="color: #666; line-height: 1.6;">
+              These new assignments match your availability and preferences:
+            </p>
+            
+            ${matches.map(match => `
+              <div style="background: #f8f9fa; padding: 20px; border-radius: 8px; margin: 20px 0;">
+                <h3 style="color: #333; margin-top: 0;">
+                  <a href="${process.env.API_URL}/jobs/${match.slug}" style="color: #667eea; text-decoration: none;">${match.title}</a>
+                </h3>
+                <p style="margin: 5px 0;"><strong>${match.company || ''}</strong> · ${match.location}</p>
+                ${match.salary ? `<p style="margin: 5px 0;">${match.salary}</p>` : ''}
+                <p style="margin: 5px 0;"><strong>Match:</strong> ${match.score}%</p>
+                ${match.reasons?.length ? `<p style="color: #666; font-size: 14px; margin: 5px 0;">${match.reasons.join(' · ')}</p>` : ''}
+              </div>
+            `).join('')}
+            
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${process.env.API_URL}/dashboard" 
+                 style="background: #667eea; color: white; padding: 15px 30px; text-decoration: none; border-radius: 5px; display: inline-block;">
+                See All Matches
+              </a>
+            </div>
+            
+            <p style="color: #666; font-size: 14px;">
+              You can update your availability or turn off this digest in your profile preferences.
+            </p>
+          </div>
+        </div>
+      `,
+      text: `Your Job Matches\n\n${matches.map(match => `${match.title} - ${match.location} (${match.score}% match)\n${process.env.API_URL}/jobs/${match.slug}`).join('\n\n')}\n\nSee all matches: ${process.env.API_URL}/dashboard`
+    }
+  }
+
+  /**
+   * Credential expiration reminder template
+   */
+  private static getCredentialExpiringTemplate(data: Record<string, any>): EmailTemplate {
+    const { name, credentialName, credentialType, issuingState, expiresAt, daysRemaining } = data
+
+    return {
+      subject: `Your ${credentialName} expires in ${daysRemaining} days`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <div style="background: #ffc107; padding: 30px 20px; text-align: center;">
+            <h1 style="color: #333; margin: 0;">Credential Expiring Soon</h1>
+          </div>
+          
+          <div style="padding: 40px 20px; background: white;">
+            <h2 style="color: #333;">Hi ${name || 'there'},</h2>
+            
+            <p style="color: #666; line-height: 1.6;">
+              One of the credentials in your wallet expires in <strong>${daysRemaining} days</strong>. 
+              Renew it and upload the new document so your applications stay complete.
+            </p>
+            
+            <div style="background: #fff3cd; padding: 20px; border-radius: 8px; margin: 20px 0;">
+              <p><strong>Credential:</strong> ${credentialName}</p>
+              <p><strong>Type:</strong> ${credentialType}</p>
+              ${issuingState ? `<p><strong>State:</strong> ${issuingState}</p>` : ''}
+              <p><strong>Expires:</strong> ${expiresAt}</p>
+            </div>
+            
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${process.env.API_URL}/profile" 
+                 style="background: #667eea; color: white; padding: 15px 30px; text-decoration: none; border-radius: 5px; display: inline-block;">
+                Update Credential
+              </a>
+            </div>
+          </div>
+        </div>
+      `,
+      text: `Credential Expiring Soon\n\n${credentialName} (${credentialType}${issuingState ? `, ${issuingState}` : ''}) expires on ${expiresAt}, in ${daysRemaining} days.\n\nUpdate it: ${process.env.API_URL}/profile`
+    }
+  }
+
+  /**
+   * Interview invitation or cancellation; the calendar invite is attached
+   */
+  private static getInterviewInvitationTemplate(data: Record<string, any>): EmailTemplate {
+    const { name, jobTitle, companyName, startsAt, timezone, location, meetingUrl, cancelled } = data
+    const when = startsAt ? new Date(startsAt).toLocaleString('en-US', {
+      dateStyle: 'full',
+      timeStyle: 'short',
+      timeZone: timezone || 'UTC'
+    }) : ''
+
+    return {
+      subject: cancelled
+        ? `Interview cancelled: ${jobTitle} at ${companyName}`
+        : `Interview invitation: ${jobTitle} at ${companyName}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <div style="background: ${cancelled ? '#6c757d' : '#17a2b8'}; padding: 30px 20px; text-align: center;">
+            <h1 style="color: white; margin: 0;">${cancelled ? 'Interview Cancelled' : 'Interview Scheduled'}</h1>
+          </div>
+          
+          <div style="padding: 40px 20px; background: white;">
+            <h2 style="color: #333;">Hi ${name || 'there'},</h2>
+            
+            <p style="color: #666; line-height: 1.6;">
+              ${cancelled
+                ? `Your interview for <strong>${jobTitle}</strong> at ${companyName} has been cancelled.`
+                : `${companyName} would like to interview you for <strong>${jobTitle}</strong>. The calendar invite is attached.`}
+            </p>
+            
+            <div style="background: #f8f9fa; padding: 20px; border-radius: 8px; margin: 20px 0;">
+              <p><strong>When:</strong> ${when} (${timezone || 'UTC'})</p>
+              ${location ? `<p><strong>Where:</strong> ${location}</p>` : ''}
+              ${meetingUrl ? `<p><strong>Join:</strong> <a href="${meetingUrl}">${meetingUrl}</a></p>` : ''}
+            </div>
+          </div>
+        </div>
+      `,
+      text: `${cancelled ? 'Interview Cancelled' : 'Interview Scheduled'}\n\n${jobTitle} at ${companyName}\nWhen: ${when} (${timezone || 'UTC'})${location ? `\nWhere: ${location}` : ''}${meetingUrl ? `\nJoin: ${meetingUrl}` : ''}`
+    }
+  }
+
+  /**
+   * Offer letter sent to a candidate
+   */
+  private static getOfferSentTemplate(data: Record<string, any>): EmailTemplate {
+    const { name, jobTitle, companyName, letter, expiresAt } = data
+
+    return {
+      subject: `Offer from ${companyName}: ${jobTitle}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <div style="background: #28a745; padding: 30px 20px; text-align: center;">
+            <h1 style="color: white; margin: 0;">You Have an Offer</h1>
+          </div>
+          
+          <div style="padding: 40px 20px; background: white;">
+            <h2 style="color: #333;">Hi ${name || 'there'},</h2>
+            
+            <div style="background: #f8f9fa; padding: 20px; border-radius: 8px; margin: 20px 0; white-space: pre-line; color: #333;">${letter}</div>
+            
+            ${expiresAt ? `<p style="color: #666;">This offer expires on ${expiresAt}.</p>` : ''}
+            
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${process.env.API_URL}/dashboard" 
+                 style="background: #667eea; color: white; padding: 15px 30px; text-decoration: none; border-radius: 5px; display: inline-block;">
+                Review Offer
+              </a>
+            </div>
+          </div>
+        </div>
+      `,
+      text: `${letter}\n\nReview the offer: ${process.env.API_URL}/dashboard`
+    }
+  }
+
+  /**
+   * Candidate's response to an offer, sent to the recruiter
+   */
+  private static getOfferResponseTemplate(data: Record<string, any>): EmailTemplate {
+    const { candidateName, jobTitle, accepted, note, applicationId } = data
+    const outcome = accepted ? 'accepted' : 'declined'
+
+    return {
+      subject: `${candidateName} ${outcome} your offer for ${jobTitle}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <div style="background: ${accepted ? '#28a745' : '#dc3545'}; padding: 30px 20px; text-align: center;">
+            <h1 style="color: white; margin: 0;">Offer ${accepted ? 'Accepted' : 'Declined'}</h1>
+          </div>
+          
+          <div style="padding: 40px 20px; background: white;">
+            <p style="color: #666; line-height: 1.6;">
+              <strong>${candidateName}</strong> ${outcome} your offer for <strong>${jobTitle}</strong>.
+            </p>
+            ${note ? `<blockquote style="color: #666; border-left: 4px solid #ddd; padding-left: 12px;">${note}</blockquote>` : ''}
+            
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${process.env.API_URL}/recruiter/applications/${applicationId}" 
+                 style="background: #667eea; color: white; padding: 15px 30px; text-decoration: none; border-radius: 5px; display: inline-block;">
+                View Application
+              </a>
+            </div>
+          </div>
+        </div>
+      `,
+      text: `${candidateName} ${outcome} your offer for ${jobTitle}.${note ? `\n\n"${note}"` : ''}\n\nView the application: ${process.env.API_URL}/recruiter/applications/${applicationId}`
+    }
+  }
 }
 
 // Export convenience functions
@@ -714,4 +943,19 @@ export const sendPasswordReset = (to: string, data: Record<string, any>) =>
   EmailService.sendTemplateEmail('password_reset', to, data)
 
 export const sendHighQualityLeadAlert = (to: string, data: Record<string, any>) =>
-  EmailService.sendTemplateEmail('high_quality_lead', to, data)
\ No newline at end of file
+  EmailService.sendTemplateEmail('high_quality_lead', to, data)
+
+export const sendJobMatchDigest = (to: string, data: Record<string, any>) =>
+  EmailService.sendTemplateEmail('job_match_digest', to, data)
+
+export const sendCredentialExpiringReminder = (to: string, data: Record<string, any>) =>
+  EmailService.sendTemplateEmail('credential_expiring', to, data)
+
+export const sendInterviewInvitation = (to: string, data: Record<string, any>, attachments: EmailAttachment[]) =>
+  EmailService.sendTemplateEmail('interview_invitation', to, data, { attachments })
+
+export const sendOfferLetter = (to: string, data: Record<string, any>) =>
+  EmailService.sendTemplateEmail('offer_sent', to, data)
+
+export const sendOfferResponse = (to: string, data: Record<string, any>) =>
+  EmailService.sendTemplateEmail('offer_response', to, data)
\ No newline at end of file
@@ -0,0 +1,338 @@
+import { JobCompensationCalculator, JobCompensationInput } from '@locumtruerate/calc-core'
+import type { Prisma, Profession } from '@locumtruerate/database'
+import type { Context } from '../context'
+import { JobMatch, sendJobMatchDigest } from './email-service'
+
+export interface AvailabilityWindow {
+  startDate: Date
+  endDate: Date
+}
+
+export interface MatchCandidate {
+  profession?: Profession | null
+  specialties: string[]
+  desiredStates: string[]
+  licensedStates: string[]
+  minHourlyRate?: number | null
+  blocks: AvailabilityWindow[]
+}
+
+export interface MatchableJob {
+  location: string
+  requiredLicenseStates: string[]
+  compensation?: unknown
+  assignmentStartDate?: Date | null
+  assignmentEndDate?: Date | null
+  latestStartDate?: Date | null
+}
+
+export interface JobMatchScore {
+  // 0-100
+  score: number
+  // Each factor from 0 to 1
+  factors: {
+    dates: number
+    licensure: number
+    rate: number
+    location: number
+  }
+  reasons: string[]
+}
+
+export interface FindMatchesOptions {
+  limit?: number
+  minScore?: number
+  // Only consider jobs published after this date, e.g. since the last digest
+  publishedAfter?: Date
+}
+
+// Relative weight of each factor in the match score
+const MATCH_WEIGHTS = {
+  dates: 35,
+  licensure: 25,
+  rate: 25,
+  location: 15
+}
+
+// Factor score used when the job or candidate does not give enough
+// information to compare
+const UNKNOWN_FACTOR = 0.5
+
+const DEFAULT_MIN_SCORE = 50
+const DEFAULT_ASSIGNMENT_WEEKS = 13
+const MAX_JOBS_SCORED = 500
+const DIGEST_MATCH_LIMIT = 10
+
+// Avoid sending a second digest when the job runs more than once a day
+const DIGEST_INTERVAL_MS = 20 * 60 * 60 * 1000
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const compensationCalculator = new JobCompensationCalculator()
+
+/**
+ * State a job is in, from its "City, ST" location or else the state it
+ * requires a license in
+ */
+const jobState = (job: MatchableJob): string | undefined => {
+  const match = job.location.match(/,\s*([A-Z]{2})\b/)
+  return match?.[1] ?? job.requiredLicenseStates[0]
+}
+
+const hourlyRange = (compensation: unknown) => {
+  if (!compensation) return undefined
+  try {
+    return compensationCalculator.getHourlyRange(compensation as JobCompensationInput)
+  } catch {
+    // Compensation saved before validation existed
+    return undefined
+  }
+}
+
+/**
+ * Share of the assignment the candidate is available for. Assignments with a
+ * flexible start are moved to the candidate's start date when the window
+ * allows it, keeping their length.
+ */
+const assignmentCoverage = (job: MatchableJob, blocks: AvailabilityWindow[]): number => {
+  const start = job.assignmentStartDate!.getTime()
+  const end = job.assignmentEndDate?.getTime() ?? start + DEFAULT_ASSIGNMENT_WEEKS * 7 * DAY_MS
+  const latestStart = Math.max(job.latestStartDate?.getTime() ?? start, start)
+  const length = Math.max(end - start, DAY_MS)
+
+  let best = 0
+  for (const block of blocks) {
+    const shiftedStart = Math.min(Math.max(block.startDate.getTime(), start), latestStart)
+    const shiftedEnd = shiftedStart + (end - start)
+    const overlap = Math.min(shiftedEnd, block.endDate.getTime()) - Math.max(shiftedStart, block.startDate.getTime())
+    best = Math.max(best, overlap / length)
+  }
+
+  return Math.min(best, 1)
+}
+
+/**
+ * Score a job for a candidate on dates, licensure, pay and location. Returns
+ * null when the job cannot work for the candidate: the candidate is not
+ * available at all during the assignment, or it pays less than their
+ * minimum rate.
+ */
+export function scoreJobMatch(candidate: MatchCandidate, job: MatchableJob): JobMatchScore | null {
+  const reasons: string[] = []
+
+  // Dates
+  let dates = UNKNOWN_FACTOR
+  if (job.assignmentStartDate && candidate.blocks.length > 0) {
+    dates = assignmentCoverage(job, candidate.blocks)
+    if (dates <= 0) return null
+    reasons.push(dates >= 1
+      ? 'Available for the whole assignment'
+      : `Available for ${Math.round(dates * 100)}% of the assignment`)
+  }
+
+  // Licensure
+  let licensure = 1
+  if (job.requiredLicenseStates.length > 0) {
+    const held = job.requiredLicenseStates.filter(state => candidate.licensedStates.includes(state))
+    licensure = held.length > 0 ? 1 : 0
+    reasons.push(held.length > 0
+      ? `Licensed in ${held.join(', ')}`
+      : `Requires a license in ${job.requiredLicenseStates.join(', ')}`)
+  }
+
+  // Rate floor
+  let rate = 1
+  const range = hourlyRange(job.compensation)
+  if (candidate.minHourlyRate) {
+    if (!range) {
+      rate = UNKNOWN_FACTOR
+    } else {
+      const floor = candidate.minHourlyRate
+      const min = range.min.toNumber()
+      const max = range.max.toNumber()
+      if (max < floor) return null
+      rate = min >= floor || max === min ? 1 : 0.5 + 0.5 * (max - floor) / (max - min)
+      reasons.push(`Pays up to $${Math.round(max)}/hr`)
+    }
+  }
+
+  // Location
+  let location = 1
+  if (candidate.desiredStates.length > 0) {
+    const state = jobState(job)
+    if (!state) {
+      location = UNKNOWN_FACTOR
+    } else if (candidate.desiredStates.includes(state)) {
+      reasons.push(`In ${state}, one of your preferred states`)
+    } else {
+      location = 0
+    }
+  }
+
+  const factors = { dates, licensure, rate, location }
+  const score = Math.round(
+    Object.entries(MATCH_WEIGHTS).reduce(
+      (total, [factor, weight]) => total + weight * factors[factor as keyof typeof factors],
+      0
+    )
+  )
+
+  return { score, factors, reasons }
+}
+
+/**
+ * Matches active jobs against candidates' availability and preferences, and
+ * sends the daily match digest
+ */
+export class JobMatchingService {
+  constructor(private db: Context['db']) {}
+
+  /**
+   * Ranked job matches for a user, best first. Returns an empty list when the
+   * user has not set up availability.
+   */
+  async findMatches(userId: string, options: FindMatchesOptions = {}) {
+    const availability = await this.db.candidateAvailability.findUnique({
+      where: { userId },
+      include: { blocks: true }
+    })
+
+    if (!availability) {
+      return []
+    }
+
+    return this.findMatchesForCandidate(availability, options)
+  }
+
+  async findMatchesForCandidate(candidate: MatchCandidate, options: FindMatchesOptions = {}) {
+    const { limit = 20, minScore = DEFAULT_MIN_SCORE, publishedAfter } = options
+    const now = new Date()
+
+    const conditions: Prisma.JobWhereInput[] = []
+    const where: Prisma.JobWhereInput = {
+      status: 'ACTIVE',
+      expiresAt: { gt: now },
+      deletedAt: null,
+      AND: conditions
+    }
+
+    if (publishedAfter) {
+      where.publishedAt = { gt: publishedAfter }
+    }
+
+    // Jobs posted before the structured taxonomy have no profession
+    if (candidate.profession) {
+      conditions.push({ OR: [{ profession: candidate.profession }, { profession: null }] })
+    }
+
+    if (candidate.specialties.length > 0) {
+      conditions.push({
+        OR: [
+          { specialty: { in: candidate.specialties } },
+          { subspecialty: { in: candidate.specialties } },
+          { tags: { hasSome: candidate.specialties } }
+        ]
+      })
+    }
+
+    // Skip assignments that end before the candidate's first available day
+    const firstAvailable = candidate.blocks.reduce<Date | undefined>(
+      (earliest, block) => !earliest || block.startDate < earliest ? block.startDate : earliest,
+      undefined
+    )
+    if (firstAvailable) {
+      conditions.push({
+        OR: [
+          { assignmentEndDate: null },
+          { assignmentEndDate: { gte: firstAvailable } }
+        ]
+      })
+    }
+
+    const jobs = await this.db.job.findMany({
+      where,
+      orderBy: { publishedAt: 'desc' },
+      take: MAX_JOBS_SCORED,
+      include: {
+        company: {
+          select: {
+            id: true,
+            name: true,
+            slug: true,
+            logo: true
+          }
+        }
+      }
+    })
+
+    return jobs
+      .map(job => ({ job, match: scoreJobMatch(candidate, job) }))
+      .filter(({ match }) => match !== null && match.score >= minScore)
+      .sort((a, b) => b.match!.score - a.match!.score)
+      .slice(0, limit)
+      .map(({ job, match }) => ({ job, ...match! }))
+  }
+
+  /**
+   * Email each candidate with the digest enabled their best matches among
+   * jobs published since their last digest. Candidates without new matches
+   * are skipped, so the next digest still covers those jobs.
+   */
+  async sendDailyDigests(now = new Date()): Promise<{ processed: number; sent: number; errors: number }> {
+    const candidates = await this.db.candidateAvailability.findMany({
+      where: {
+        digestEnabled: true,
+        OR: [
+          { lastDigestSentAt: null },
+          { lastDigestSentAt: { lt: new Date(now.getTime() - DIGEST_INTERVAL_MS) } }
+        ]
+      },
+      include: {
+        blocks: { where: { endDate: { gte: now } } },
+        user: { select: { email: true, contactName: true } }
+      }
+    })
+
+    let sent = 0
+    let errors = 0
+
+    for (const candidate of candidates) {
+      try {
+        const matches = await this.findMatchesForCandidate(candidate, {
+          limit: DIGEST_MATCH_LIMIT,
+          publishedAfter: candidate.lastDigestSentAt ?? new Date(now.getTime() - DAY_MS)
+        })
+        if (matches.length === 0) continue
+
+        const result = await sendJobMatchDigest(candidate.user.email, {
+          name: candidate.user.contactName,
+          matches: matches.map(({ job, score, reasons }): JobMatch => ({
+            title: job.title,
+            company: job.company?.name,
+            location: job.location,
+            salary: job.salary,
+            slug: job.slug,
+            score,
+            reasons
+          }))
+        })
+
+        if (!result.success) {
+          errors++
+          continue
+        }
+
+        await this.db.candidateAvailability.update({
+          where: { id: candidate.id },
+          data: { lastDigestSentAt: now }
+        })
+        sent++
+      } catch (error) {
+        console.error('Failed to send job match digest:', error)
+        errors++
+      }
+    }
+
+    return { processed: candidates.length, sent, errors }
+  }
+}
@@ -0,0 +1,69 @@
+import { CallRequirement, ShiftType } from '@locumtruerate/types'
+import type { Prisma } from '@locumtruerate/database'
+
+export interface ScheduleDates {
+  assignmentStartDate?: Date | null
+  assignmentEndDate?: Date | null
+  latestStartDate?: Date | null
+}
+
+/**
+ * Assignment dates must be in order, with any flexible start inside the
+ * assignment
+ */
+export function scheduleDatesIssue(dates: ScheduleDates): { path: keyof ScheduleDates; message: string } | undefined {
+  const { assignmentStartDate: start, assignmentEndDate: end, latestStartDate: latestStart } = dates
+
+  if (start && end && end < start) {
+    return { path: 'assignmentEndDate', message: 'Assignment end date must be after the start date' }
+  }
+  if (latestStart && !start) {
+    return { path: 'latestStartDate', message: 'A flexible start requires an assignment start date' }
+  }
+  if (latestStart && start && latestStart < start) {
+    return { path: 'latestStartDate', message: 'Latest start date must be on or after the start date' }
+  }
+  if (latestStart && end && latestStart > end) {
+    return { path: 'latestStartDate', message: 'Latest start date must be before the assignment end date' }
+  }
+  return undefined
+}
+
+/**
+ * Jobs whose assignment overlaps the availability window, edges included.
+ * Jobs without an assignment start date are excluded; an open end date
+ * overlaps any window.
+ */
+export function availabilityFilter(availableFrom?: Date, availableTo?: Date): Prisma.JobWhereInput[] {
+  const conditions: Prisma.JobWhereInput[] = [
+    { assignmentStartDate: availableTo ? { lte: availableTo } : { not: null } }
+  ]
+  if (availableFrom) {
+    conditions.push({
+      OR: [
+        { assignmentEndDate: null },
+        { assignmentEndDate: { gte: availableFrom } }
+      ]
+    })
+  }
+  return conditions
+}
+
+export interface JobScheduleFilters {
+  availableFrom?: Date
+  availableTo?: Date
+  shiftType?: ShiftType
+  callRequirement?: CallRequirement
+}
+
+export function scheduleFilter(filters: JobScheduleFilters): Prisma.JobWhereInput {
+  const where: Prisma.JobWhereInput = {}
+
+  if (filters.shiftType) where.shiftType = filters.shiftType
+  if (filters.callRequirement) where.callRequirement = filters.callRequirement
+  if (filters.availableFrom || filters.availableTo) {
+    where.AND = availabilityFilter(filters.availableFrom, filters.availableTo)
+  }
+
+  return where
+}
@@ -0,0 +1,65 @@
+import {
+  BoardCertificationRequirement,
+  ClinicalCertification,
+  LicenseState,
+  Profession,
+  isValidSubspecialty
+} from '@locumtruerate/types'
+import type { Prisma } from '@locumtruerate/database'
+
+export interface JobTaxonomyFilters {
+  profession?: Profession
+  specialty?: string
+  subspecialty?: string
+  boardCertification?: BoardCertificationRequirement
+  licenseStates?: LicenseState[]
+  certifications?: ClinicalCertification[]
+}
+
+/**
+ * Job conditions for the healthcare taxonomy filters. License states and
+ * certifications match jobs requiring any of the given values.
+ */
+export function taxonomyFilter(filters: JobTaxonomyFilters): Prisma.JobWhereInput {
+  const where: Prisma.JobWhereInput = {}
+
+  if (filters.profession) where.profession = filters.profession
+  if (filters.specialty) where.specialty = filters.specialty
+  if (filters.subspecialty) where.subspecialty = filters.subspecialty
+  if (filters.boardCertification) where.boardCertification = filters.boardCertification
+  if (filters.licenseStates && filters.licenseStates.length > 0) {
+    where.requiredLicenseStates = { hasSome: filters.licenseStates }
+  }
+  if (filters.certifications && filters.certifications.length > 0) {
+    where.requiredCertifications = { hasSome: filters.certifications }
+  }
+
+  return where
+}
+
+/**
+ * Subspecialty to write when a job is updated. A new one is checked against
+ * the specialty the job will have, null clears it, and a specialty change
+ * drops one that no longer fits. An undefined subspecialty leaves the job's
+ * as it is.
+ */
+export function subspecialtyUpdate(
+  job: { specialty: string | null; subspecialty: string | null },
+  changes: { specialty?: string; subspecialty?: string | null }
+): { subspecialty?: string | null; issue?: string } {
+  const specialty = changes.specialty ?? job.specialty
+
+  if (changes.subspecialty) {
+    if (!specialty || !isValidSubspecialty(specialty, changes.subspecialty)) {
+      return { issue: `"${changes.subspecialty}" is not a subspecialty of ${specialty || 'this job\'s specialty'}` }
+    }
+    return { subspecialty: changes.subspecialty }
+  }
+
+  if (changes.subspecialty === null) return { subspecialty: null }
+
+  if (changes.specialty && job.subspecialty && !isValidSubspecialty(changes.specialty, job.subspecialty)) {
+    return { subspecialty: null }
+  }
+  return {}
+}
@@ -0,0 +1,460 @@
+import type { Prisma } from '@locumtruerate/database'
+import { CredentialType } from '@locumtruerate/types'
+import type { Context } from '../context'
+
+/**
+ * Primary-source verification for credentials in the wallet. Each licensing
+ * source (state medical boards, the NPPES NPI registry, DEA) is an adapter;
+ * the service picks the adapter for a credential, runs the check and records
+ * the result, timestamp and evidence on the credential.
+ */
+
+export interface LicenseVerificationRequest {
+  type: CredentialType
+  number: string
+  issuingState?: string | null
+}
+
+// VERIFIED: active at the source and held by the credential's owner.
+// EXPIRED: found but lapsed. REJECTED: found but revoked, suspended or
+// otherwise not in good standing. NOT_FOUND: the source has no such record.
+// NAME_MISMATCH: active, but held by someone other than the owner.
+// UNAVAILABLE: the source could not be reached, so the check should be retried.
+export type LicenseVerificationOutcome =
+  | 'VERIFIED'
+  | 'EXPIRED'
+  | 'REJECTED'
+  | 'NOT_FOUND'
+  | 'NAME_MISMATCH'
+  | 'UNAVAILABLE'
+
+export interface LicenseVerificationResult {
+  outcome: LicenseVerificationOutcome
+  source: string
+  checkedAt: Date
+  // Status as reported by the source, e.g. "ACTIVE" or "REVOKED"
+  sourceStatus?: string
+  // Licensee or registrant name on the source record
+  holderName?: string
+  expiresAt?: Date
+  // Record returned by the source, kept as proof of the check
+  evidence: Prisma.InputJsonObject
+  message?: string
+}
+
+export interface LicenseVerificationAdapter {
+  // Identifies the source in stored results, e.g. "nppes"
+  readonly source: string
+  supports(request: LicenseVerificationRequest): boolean
+  verify(request: LicenseVerificationRequest): Promise<LicenseVerificationResult>
+}
+
+export interface HttpAdapterOptions {
+  baseUrl: string
+  apiKey?: string
+  timeoutMs?: number
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000
+
+/**
+ * NPI check digit (Luhn over the number prefixed with 80840)
+ */
+export function isValidNpi(npi: string): boolean {
+  if (!/^\d{10}$/.test(npi)) return false
+
+  const digits = `80840${npi}`.split('').map(Number)
+  const sum = digits.reduceRight((total, digit, index) => {
+    const fromRight = digits.length - 1 - index
+    if (fromRight % 2 === 1) {
+      const doubled = digit * 2
+      return total + (doubled > 9 ? doubled - 9 : doubled)
+    }
+    return total + digit
+  }, 0)
+
+  return sum % 10 === 0
+}
+
+/**
+ * DEA registration format (two letters, seven digits) and check digit
+ */
+export function isValidDeaNumber(dea: string): boolean {
+  const match = dea.toUpperCase().match(/^[A-Z][A-Z9](\d{7})$/)
+  if (!match) return false
+
+  const d = match[1].split('').map(Number)
+  const checksum = d[0] + d[2] + d[4] + 2 * (d[1] + d[3] + d[5])
+  return checksum % 10 === d[6]
+}
+
+const outcomeForStatus = (status: string): LicenseVerificationOutcome => {
+  switch (status.toUpperCase()) {
+    case 'ACTIVE':
+      return 'VERIFIED'
+    case 'EXPIRED':
+      return 'EXPIRED'
+    default:
+      return 'REJECTED'
+  }
+}
+
+// Titles, degrees and generational suffixes left out when comparing names
+const NAME_AFFIXES = new Set(['DR', 'MD', 'DO', 'PHD', 'NP', 'PA', 'PAC', 'RN', 'APRN', 'CRNA', 'DNP', 'DDS', 'DMD', 'JR', 'SR', 'II', 'III', 'IV'])
+
+// Name parts in first-to-last order; "Doe, Jane" is read as "Jane Doe"
+const nameParts = (name: string): string[] => {
+  const [last, rest] = name.split(',')
+  const ordered = rest !== undefined && rest.trim() ? `${rest} ${last}` : name
+  return ordered
+    .toUpperCase()
+    .replace(/['.]/g, '')
+    .split(/[^A-Z]+/)
+    .filter(part => part && !NAME_AFFIXES.has(part))
+}
+
+/**
+ * Whether the name on a source record is the profile's name: the same last
+ * name, and the same first name or first initial. Middle names are ignored.
+ */
+export function namesMatch(sourceName: string, profileName: string): boolean {
+  const source = nameParts(sourceName)
+  const profile = nameParts(profileName)
+  if (source.length < 2 || profile.length < 2) return false
+
+  const [sourceFirst, profileFirst] = [source[0], profile[0]]
+  const firstMatches = sourceFirst === profileFirst ||
+    ((sourceFirst.length === 1 || profileFirst.length === 1) && sourceFirst[0] === profileFirst[0])
+
+  return firstMatches && source[source.length - 1] === profile[profile.length - 1]
+}
+
+const parseDate = (value: unknown): Date | undefined => {
+  if (typeof value !== 'string' || !value) return undefined
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : date
+}
+
+/**
+ * Shared request handling for sources reached over HTTP. A 404 means the
+ * source has no record; network errors and other failures are reported as
+ * UNAVAILABLE so the check can be retried.
+ */
+abstract class HttpLicenseAdapter implements LicenseVerificationAdapter {
+  abstract readonly source: string
+
+  constructor(protected options: HttpAdapterOptions) {}
+
+  abstract supports(request: LicenseVerificationRequest): boolean
+
+  abstract verify(request: LicenseVerificationRequest): Promise<LicenseVerificationResult>
+
+  protected async fetchRecord(path: string): Promise<{ record?: Record<string, any>; failure?: LicenseVerificationResult }> {
+    const url = `${this.options.baseUrl.replace(/\/$/, '')}${path}`
+
+    try {
+      const response = await fetch(url, {
+        headers: {
+          Accept: 'application/json',
+          ...(this.options.apiKey && { Authorization: `Bearer ${this.options.apiKey}` })
+        },
+        signal: AbortSignal.timeout(this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS)
+      })
+
+      if (response.status === 404) {
+        return { failure: this.result('NOT_FOUND', { url }, 'No matching record at the primary source') }
+      }
+      if (!response.ok) {
+        return { failure: this.result('UNAVAILABLE', { url, httpStatus: response.status }, `Source responded with ${response.status}`) }
+      }
+
+      return { record: await response.json() }
+    } catch (error) {
+      return {
+        failure: this.result('UNAVAILABLE', { url }, error instanceof Error ? error.message : 'Request failed')
+      }
+    }
+  }
+
+  protected result(
+    outcome: LicenseVerificationOutcome,
+    evidence: Prisma.InputJsonObject,
+    message?: string,
+    extra: Partial<LicenseVerificationResult> = {}
+  ): LicenseVerificationResult {
+    return { outcome, source: this.source, checkedAt: new Date(), evidence, message, ...extra }
+  }
+}
+
+/**
+ * NPPES NPI registry (public CMS API)
+ */
+export class NppesRegistryAdapter extends HttpLicenseAdapter {
+  readonly source = 'nppes'
+
+  supports(request: LicenseVerificationRequest): boolean {
+    return request.type === CredentialType.NPI
+  }
+
+  async verify(request: LicenseVerificationRequest): Promise<LicenseVerificationResult> {
+    if (!isValidNpi(request.number)) {
+      return this.result('REJECTED', { number: request.number }, 'NPI fails the check digit')
+    }
+
+    const { record, failure } = await this.fetchRecord(`/?version=2.1&number=${encodeURIComponent(request.number)}`)
+    if (failure) return failure
+
+    const provider = record.results?.[0]
+    if (!record.result_count || !provider) {
+      return this.result('NOT_FOUND', { number: request.number }, 'NPI not found in the NPPES registry')
+    }
+
+    // NPPES reports "A" for active enumerations and "D" for deactivated ones
+    const status = provider.basic?.status === 'A' ? 'ACTIVE' : 'DEACTIVATED'
+    const name = [provider.basic?.first_name, provider.basic?.last_name].filter(Boolean).join(' ') || provider.basic?.organization_name
+    return this.result(outcomeForStatus(status), {
+      number: provider.number,
+      name,
+      credential: provider.basic?.credential,
+      enumerationDate: provider.basic?.enumeration_date,
+      lastUpdated: provider.basic?.last_updated,
+      taxonomies: provider.taxonomies
+    }, undefined, { sourceStatus: status, holderName: name })
+  }
+}
+
+/**
+ * State medical board license lookup. Boards are reached through a service
+ * exposing GET /{state}/licenses/{number}; pass `states` to limit the adapter
+ * to the boards that service covers.
+ */
+export class StateBoardAdapter extends HttpLicenseAdapter {
+  readonly source = 'state-board'
+  private states?: string[]
+
+  constructor(options: HttpAdapterOptions & { states?: string[] }) {
+    super(options)
+    this.states = options.states
+  }
+
+  supports(request: LicenseVerificationRequest): boolean {
+    return request.type === CredentialType.STATE_LICENSE &&
+      !!request.issuingState &&
+      (!this.states || this.states.includes(request.issuingState))
+  }
+
+  async verify(request: LicenseVerificationRequest): Promise<LicenseVerificationResult> {
+    const state = request.issuingState!
+    const { record: license, failure } = await this.fetchRecord(`/${state}/licenses/${encodeURIComponent(request.number)}`)
+    if (failure) {
+      return { ...failure, source: `${this.source}:${state}` }
+    }
+
+    return {
+      ...this.result(outcomeForStatus(license.status), license, undefined, {
+        sourceStatus: license.status,
+        holderName: license.licenseeName ?? license.name,
+        expiresAt: parseDate(license.expirationDate)
+      }),
+      source: `${this.source}:${state}`
+    }
+  }
+}
+
+/**
+ * DEA registration lookup through a registration validation service exposing
+ * GET /registrations/{number}
+ */
+export class DeaRegistrationAdapter extends HttpLicenseAdapter {
+  readonly source = 'dea'
+
+  supports(request: LicenseVerificationRequest): boolean {
+    return request.type === CredentialType.DEA_REGISTRATION
+  }
+
+  async verify(request: LicenseVerificationRequest): Promise<LicenseVerificationResult> {
+    if (!isValidDeaNumber(request.number)) {
+      return this.result('REJECTED', { number: request.number }, 'DEA number fails the check digit')
+    }
+
+    const { record: registration, failure } = await this.fetchRecord(`/registrations/${encodeURIComponent(request.number.toUpperCase())}`)
+    if (failure) return failure
+
+    return this.result(outcomeForStatus(registration.status), registration, undefined, {
+      sourceStatus: registration.status,
+      holderName: registration.registrantName ?? registration.name,
+      expiresAt: parseDate(registration.expirationDate)
+    })
+  }
+}
+
+export interface LicenseFixture {
+  type: CredentialType
+  number: string
+  issuingState?: string
+  status: string
+  holderName?: string
+  expiresAt?: Date
+  evidence?: Prisma.InputJsonObject
+}
+
+/**
+ * Adapter answering from local fixtures, for tests and offline development.
+ * It covers the credential types and issuing states it has fixtures for.
+ */
+export class FixtureLicenseAdapter implements LicenseVerificationAdapter {
+  readonly source = 'fixture'
+
+  constructor(private fixtures: LicenseFixture[]) {}
+
+  supports(request: LicenseVerificationRequest): boolean {
+    return this.fixtures.some(fixture =>
+      fixture.type === request.type &&
+      (!fixture.issuingState || fixture.issuingState === request.issuingState)
+    )
+  }
+
+  async verify(request: LicenseVerificationRequest): Promise<LicenseVerificationResult> {
+    const fixture = this.fixtures.find(candidate =>
+      candidate.type === request.type &&
+      candidate.number === request.number &&
+      (!candidate.issuingState || candidate.issuingState === request.issuingState)
+    )
+
+    if (!fixture) {
+      return { outcome: 'NOT_FOUND', source: this.source, checkedAt: new Date(), evidence: { ...request } }
+    }
+
+    return {
+      outcome: outcomeForStatus(fixture.status),
+      source: this.source,
+      checkedAt: new Date(),
+      sourceStatus: fixture.status,
+      holderName: fixture.holderName,
+      expiresAt: fixture.expiresAt,
+      evidence: fixture.evidence ?? { ...request, holderName: fixture.holderName, status: fixture.status }
+    }
+  }
+}
+
+/**
+ * Adapters configured from the environment. NPPES is public; state boards and
+ * DEA need a lookup service URL. Point all three at the licensing mock server
+ * in @locumtruerate/mocks for local development.
+ */
+export function createLicenseVerificationAdapters(env: NodeJS.ProcessEnv = process.env): LicenseVerificationAdapter[] {
+  const adapters: LicenseVerificationAdapter[] = [
+    new NppesRegistryAdapter({ baseUrl: env.NPPES_API_URL || 'https://npiregistry.cms.hhs.gov/api' })
+  ]
+
+  if (env.STATE_BOARD_API_URL) {
+    adapters.push(new StateBoardAdapter({
+      baseUrl: env.STATE_BOARD_API_URL,
+      apiKey: env.STATE_BOARD_API_KEY,
+      states: env.STATE_BOARD_STATES?.split(',').map(state => state.trim()).filter(Boolean)
+    }))
+  }
+
+  if (env.DEA_VERIFICATION_API_URL) {
+    adapters.push(new DeaRegistrationAdapter({
+      baseUrl: env.DEA_VERIFICATION_API_URL,
+      apiKey: env.DEA_VERIFICATION_API_KEY
+    }))
+  }
+
+  return adapters
+}
+
+// How a verification outcome is reflected on the credential. Unreachable
+// sources leave the credential pending so it can be checked again.
+const CREDENTIAL_STATUS_FOR_OUTCOME = {
+  VERIFIED: 'VERIFIED',
+  EXPIRED: 'EXPIRED',
+  REJECTED: 'REJECTED',
+  NOT_FOUND: 'REJECTED',
+  NAME_MISMATCH: 'REJECTED',
+  UNAVAILABLE: 'PENDING'
+} as const
+
+export class LicenseVerificationService {
+  constructor(
+    private db: Context['db'],
+    private adapters: LicenseVerificationAdapter[] = createLicenseVerificationAdapters()
+  ) {}
+
+  /**
+   * Adapter able to check this credential, or undefined if no configured
+   * source covers it
+   */
+  adapterFor(request: LicenseVerificationRequest): LicenseVerificationAdapter | undefined {
+    return this.adapters.find(adapter => adapter.supports(request))
+  }
+
+  /**
+   * Check a credential against its primary source and record the result on
+   * it. An active record only verifies the credential when the holder's name
+   * matches the owner's profile, so another clinician's number cannot earn
+   * the badge. Returns null when no configured source covers the credential.
+   */
+  async verifyCredential(credential: {
+    id: string
+    userId: string
+    type: string
+    number: string | null
+    issuingState: string | null
+    expiresAt: Date | null
+  }): Promise<LicenseVerificationResult | null> {
+    if (!credential.number) return null
+
+    const request: LicenseVerificationRequest = {
+      type: credential.type as CredentialType,
+      number: credential.number.trim(),
+      issuingState: credential.issuingState
+    }
+
+    const adapter = this.adapterFor(request)
+    if (!adapter) return null
+
+    const result = await this.matchHolder(await adapter.verify(request), credential.userId)
+    const verificationStatus = CREDENTIAL_STATUS_FOR_OUTCOME[result.outcome]
+
+    await this.db.credential.update({
+      where: { id: credential.id },
+      data: {
+        verificationStatus,
+        verifiedAt: result.outcome === 'VERIFIED' ? result.checkedAt : null,
+        verificationSource: result.source,
+        verificationCheckedAt: result.checkedAt,
+        verificationEvidence: {
+          outcome: result.outcome,
+          sourceStatus: result.sourceStatus,
+          holderName: result.holderName,
+          message: result.message,
+          record: result.evidence
+        },
+        // Fill in the expiry from the source when the provider left it blank
+        ...(!credential.expiresAt && result.expiresAt && { expiresAt: result.expiresAt })
+      }
+    })
+
+    return result
+  }
+
+  private async matchHolder(result: LicenseVerificationResult, userId: string): Promise<LicenseVerificationResult> {
+    if (result.outcome !== 'VERIFIED') return result
+
+    const owner = await this.db.user.findUnique({
+      where: { id: userId },
+      select: { contactName: true }
+    })
+    if (result.holderName && owner && namesMatch(result.holderName, owner.contactName)) return result
+
+    return {
+      ...result,
+      outcome: 'NAME_MISMATCH',
+      message: result.holderName
+        ? 'The name on the primary source record does not match the name on your profile'
+        : 'The primary source did not return a name to match against your profile'
+    }
+  }
+}
@@ -0,0 +1,132 @@
+import { JobCompensationSchema } from '@locumtruerate/calc-core'
+import type { OfferTerms } from '@locumtruerate/types'
+
+export interface OfferJob {
+  title: string
+  location: string
+  compensation?: unknown
+  salary?: string | null
+  assignmentStartDate?: Date | null
+  assignmentEndDate?: Date | null
+  company: { name: string }
+}
+
+export interface OfferOverrides {
+  rate?: number
+  startDate?: Date
+  endDate?: Date
+}
+
+const PAY_BASIS_UNITS = {
+  HOURLY: 'hour',
+  DAILY: 'day',
+  SHIFT: 'shift',
+  ANNUAL: 'year'
+} as const
+
+const STIPEND_LABELS: Record<string, string> = {
+  housing: 'Housing (weekly)',
+  meals: 'Meals (weekly)',
+  travel: 'Travel',
+  licensure: 'Licensure',
+  malpractice: 'Malpractice',
+  cme: 'CME',
+  other: 'Other'
+}
+
+const formatMoney = (amount: number) =>
+  `$${amount.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 2 })}`
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric', timeZone: 'UTC' })
+
+/**
+ * Offer terms from a job's structured compensation. The rate defaults to the
+ * midpoint of the posted range, as in the calculator prefill, and dates to
+ * the assignment dates; the recruiter can override either. Jobs without
+ * structured compensation carry their free-text salary instead.
+ */
+export function offerTermsFromJob(job: OfferJob, overrides: OfferOverrides = {}): OfferTerms {
+  const startDate = overrides.startDate ?? job.assignmentStartDate ?? undefined
+  const endDate = overrides.endDate ?? job.assignmentEndDate ?? undefined
+
+  const parsed = job.compensation ? JobCompensationSchema.safeParse(job.compensation) : null
+  if (!parsed?.success) {
+    return {
+      rate: overrides.rate,
+      salary: job.salary ?? undefined,
+      startDate,
+      endDate
+    }
+  }
+
+  const compensation = parsed.data
+  const midpoint = (compensation.rateMin + (compensation.rateMax ?? compensation.rateMin)) / 2
+  const stipends = Object.fromEntries(
+    Object.entries(compensation.stipends).filter(([, amount]) => amount > 0)
+  )
+
+  return {
+    payBasis: compensation.payBasis,
+    rate: overrides.rate ?? Math.round(midpoint * 100) / 100,
+    hoursPerShift: compensation.hoursPerShift,
+    hoursPerWeek: compensation.hoursPerWeek,
+    overtimeRate: compensation.overtimeRate,
+    callRate: compensation.callRate,
+    stipends,
+    malpracticeCoverage: compensation.malpracticeCoverage,
+    workerClassification: compensation.workerClassification,
+    startDate,
+    endDate
+  }
+}
+
+/**
+ * Plain-text offer letter. The letter is stored with the offer so the
+ * candidate always sees the terms as they were sent.
+ */
+export function renderOfferLetter(params: {
+  candidateName: string
+  job: OfferJob
+  terms: OfferTerms
+  expiresAt?: Date | null
+  message?: string | null
+}): string {
+  const { candidateName, job, terms, expiresAt, message } = params
+
+  const pay = terms.rate !== undefined && terms.payBasis
+    ? `${formatMoney(terms.rate)} per ${PAY_BASIS_UNITS[terms.payBasis]}`
+    : terms.rate !== undefined
+      ? formatMoney(terms.rate)
+      : terms.salary
+
+  const lines = [
+    `Dear ${candidateName},`,
+    '',
+    `${job.company.name} is pleased to offer you the position of ${job.title} in ${job.location}.`,
+    message ? `\n${message}` : null,
+    '',
+    'Terms',
+    pay && `- Compensation: ${pay}`,
+    terms.hoursPerShift && `- Shift length: ${terms.hoursPerShift} hours`,
+    terms.hoursPerWeek && `- Scheduled hours: ${terms.hoursPerWeek} per week`,
+    terms.overtimeRate && `- Overtime: ${formatMoney(terms.overtimeRate)} per hour`,
+    terms.callRate && `- Call pay: ${formatMoney(terms.callRate)} per hour`,
+    ...Object.entries(terms.stipends ?? {}).map(([name, amount]) =>
+      `- ${STIPEND_LABELS[name] ?? name} stipend: ${formatMoney(amount)}`),
+    terms.malpracticeCoverage && terms.malpracticeCoverage !== 'NONE' &&
+      `- Malpractice coverage: ${terms.malpracticeCoverage.replace(/_/g, ' ').toLowerCase()}`,
+    terms.workerClassification && `- Classification: ${terms.workerClassification}`,
+    terms.startDate && `- Start date: ${formatDate(new Date(terms.startDate))}`,
+    terms.endDate && `- End date: ${formatDate(new Date(terms.endDate))}`,
+    '',
+    expiresAt
+      ? `Please accept or decline this offer by ${formatDate(expiresAt)}.`
+      : 'Please accept or decline this offer from your dashboard.',
+    '',
+    'Sincerely,',
+    job.company.name
+  ]
+
+  return lines.filter((line): line is string => typeof line === 'string').join('\n')
+}
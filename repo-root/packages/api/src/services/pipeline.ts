@@ -0,0 +1,193 @@
+import {
+  ApplicationEventType,
+  DEFAULT_PIPELINE_STAGES,
+  PipelineStage,
+  PipelineStageKind,
+  WebhookEventType
+} from '@locumtruerate/types'
+import type { Context } from '../context'
+import { WebhookService } from './webhooks'
+
+// Applications in these statuses are out of the pipeline until a recruiter
+// reopens them
+const CLOSED_STATUSES = ['REJECTED', 'WITHDRAWN']
+
+export const isClosedStatus = (status: string) => CLOSED_STATUSES.includes(status)
+
+/**
+ * Stages configured for an organization, or the default pipeline when it has
+ * none (or the job's company does not belong to an organization)
+ */
+export function pipelineStagesFor(organization?: { pipelineStages?: unknown } | null): PipelineStage[] {
+  const stages = organization?.pipelineStages
+  return Array.isArray(stages) && stages.length > 0
+    ? stages as PipelineStage[]
+    : DEFAULT_PIPELINE_STAGES
+}
+
+/**
+ * Status an application takes on when it enters a stage. The first stage is
+ * where new applications wait, later stages mean the candidate is
+ * shortlisted, and onboarding means they were hired.
+ */
+export function statusForStage(stages: PipelineStage[], stageKey: string, currentStatus: string): string {
+  const index = stages.findIndex(stage => stage.key === stageKey)
+  if (stages[index]?.kind === PipelineStageKind.ONBOARDING) return 'ACCEPTED'
+  if (index > 0) return 'SHORTLISTED'
+  return currentStatus === 'PENDING' ? 'PENDING' : 'REVIEWED'
+}
+
+export interface ApplicationEventInput {
+  type: ApplicationEventType
+  actorId?: string | null
+  fromStage?: string | null
+  toStage?: string | null
+  stageName?: string | null
+  fromStatus?: string | null
+  toStatus?: string | null
+  note?: string | null
+  details?: Record<string, unknown>
+}
+
+/**
+ * Moves applications through their organization's pipeline and records every
+ * change in the application's timeline
+ */
+export class ApplicationPipelineService {
+  constructor(private db: Context['db']) {}
+
+  /**
+   * Pipeline for the organization that owns a job
+   */
+  async stagesForJob(jobId: string): Promise<PipelineStage[]> {
+    const job = await this.db.job.findUnique({
+      where: { id: jobId },
+      select: {
+        company: {
+          select: {
+            organization: { select: { pipelineStages: true } }
+          }
+        }
+      }
+    })
+
+    return pipelineStagesFor(job?.company?.organization)
+  }
+
+  async recordEvent(applicationId: string, event: ApplicationEventInput) {
+    return this.db.applicationEvent.create({
+      data: { applicationId, ...event }
+    })
+  }
+
+  /**
+   * Tell the job's organization about a status change over its webhooks. The
+   * status has already changed by now, so a failure to queue is only logged.
+   */
+  private async notifyStatusChange(
+    updated: { id: string; jobId: string; stage: string | null },
+    fromStatus: string,
+    toStatus: string
+  ) {
+    if (fromStatus === toStatus) return
+
+    await new WebhookService(this.db).emitForJob(updated.jobId, WebhookEventType.APPLICATION_STATUS_CHANGED, {
+      applicationId: updated.id,
+      jobId: updated.jobId,
+      stage: updated.stage,
+      fromStatus,
+      toStatus
+    }).catch(error => {
+      console.error(`Failed to queue status change webhooks for application ${updated.id}:`, error)
+    })
+  }
+
+  /**
+   * Move an application into a stage. The status follows the stage, and the
+   * stage change is recorded with the previous stage and status.
+   */
+  async moveToStage(
+    application: { id: string; stage: string | null; status: string },
+    stage: PipelineStage,
+    stages: PipelineStage[],
+    actorId: string,
+    note?: string
+  ) {
+    const now = new Date()
+    const status = statusForStage(stages, stage.key, application.status)
+
+    const updated = await this.db.application.update({
+      where: { id: application.id },
+      data: {
+        stage: stage.key,
+        stageEnteredAt: now,
+        status,
+        reviewedAt: now,
+        reviewedBy: actorId
+      }
+    })
+
+    await this.recordEvent(application.id, {
+      type: ApplicationEventType.STAGE_CHANGED,
+      actorId,
+      fromStage: application.stage,
+      toStage: stage.key,
+      stageName: stage.name,
+      fromStatus: application.status,
+      toStatus: status,
+      note
+    })
+    await this.notifyStatusChange(updated, application.status, status)
+
+    return updated
+  }
+
+  /**
+   * Change an application's status without moving it, e.g. to reject a
+   * candidate, and record the change in the timeline
+   */
+  async changeStatus(
+    application: { id: string; stage: string | null; status: string },
+    status: string,
+    actorId: string,
+    note?: string
+  ) {
+    const updated = await this.db.application.update({
+      where: { id: application.id },
+      data: {
+        status,
+        reviewedAt: new Date(),
+        reviewedBy: actorId
+      }
+    })
+
+    await this.recordEvent(application.id, {
+      type: ApplicationEventType.STATUS_CHANGED,
+      actorId,
+      fromStatus: application.status,
+      toStatus: status,
+      note
+    })
+    await this.notifyStatusChange(updated, application.status, status)
+
+    return updated
+  }
+
+  /**
+   * Move an application forward to the first stage of a kind, e.g. to the
+   * interview stage when an interview is scheduled. Applications already at
+   * or past that stage, or pipelines without one, are left alone.
+   */
+  async advanceToKind(
+    application: { id: string; stage: string | null; status: string },
+    stages: PipelineStage[],
+    kind: PipelineStageKind,
+    actorId: string
+  ) {
+    const target = stages.findIndex(stage => stage.kind === kind)
+    const current = stages.findIndex(stage => stage.key === application.stage)
+    if (target === -1 || target <= current) return null
+
+    return this.moveToStage(application, stages[target], stages, actorId)
+  }
+}
@@ -1,5 +1,6 @@
 import { PrismaClient, Prisma } from '@locumtruerate/database'
 import { z } from 'zod'
+import { availabilityFilter } from './job-schedule'
 
 export const searchJobsSchema = z.object({
   query: z.string().optional(),
@@ -11,7 +12,16 @@ export const searchJobsSchema = z.object({
   remote: z.boolean().optional(),
   urgent: z.boolean().optional(),
   specialties: z.array(z.string()).optional(),
+  profession: z.enum(['PHYSICIAN', 'CRNA', 'NURSE_PRACTITIONER', 'PHYSICIAN_ASSISTANT', 'REGISTERED_NURSE']).optional(),
+  licenseStates: z.array(z.string().length(2)).optional(),
+  certifications: z.array(z.enum(['DEA', 'ACLS', 'BLS', 'PALS', 'ATLS', 'NRP'])).optional(),
   startDate: z.date().optional(),
+  // Provider availability window, e.g. "available Sept–Dec"; matches
+  // assignments overlapping it
+  availableFrom: z.date().optional(),
+  availableTo: z.date().optional(),
+  shiftType: z.enum(['DAY', 'NIGHT', 'SWING', 'ROTATING', 'TWENTY_FOUR_HOUR']).optional(),
+  callRequirement: z.enum(['NONE', 'HOME_CALL', 'IN_HOUSE']).optional(),
   duration: z.string().optional(),
   page: z.number().default(1),
   limit: z.number().default(20),
@@ -35,7 +45,14 @@ export class SearchService {
       remote,
       urgent,
       specialties,
+      profession,
+      licenseStates,
+      certifications,
       startDate,
+      availableFrom,
+      availableTo,
+      shiftType,
+      callRequirement,
       duration,
       page,
       limit,
@@ -99,14 +116,14 @@ export class SearchService {
       where.type = type
     }
 
-    // Salary range filter
+    // Salary range filter, against the annualized structured compensation
     if (salaryMin || salaryMax) {
       where.AND = where.AND || []
       if (salaryMin) {
-        where.AND.push({ salaryMax: { gte: salaryMin } })
+        where.AND.push({ annualPayMax: { gte: salaryMin } })
       }
       if (salaryMax) {
-        where.AND.push({ salaryMin: { lte: salaryMax } })
+        where.AND.push({ annualPayMin: { lte: salaryMax } })
       }
     }
 
@@ -120,9 +137,31 @@ export class SearchService {
       where.urgent = urgent
     }
 
-    // Start date filter
+    // Start date filter. Jobs with a flexible start match if they can start
+    // on or after the date.
     if (startDate) {
-      where.startDate = { gte: startDate }
+      where.AND = where.AND || []
+      where.AND.push({
+        OR: [
+          { assignmentStartDate: { gte: startDate } },
+          { latestStartDate: { gte: startDate } }
+        ]
+      })
+    }
+
+    // Availability filter: the assignment must start before the window ends
+    // and end after it begins. Jobs without assignment dates are excluded.
+    if (availableFrom || availableTo) {
+      where.AND = where.AND || []
+      where.AND.push(...availabilityFilter(availableFrom, availableTo))
+    }
+
+    if (shiftType) {
+      where.shiftType = shiftType
+    }
+
+    if (callRequirement) {
+      where.callRequirement = callRequirement
     }
 
     // Duration filter
@@ -130,9 +169,30 @@ export class SearchService {
       where.duration = duration
     }
 
-    // Specialties filter (using tags or custom field)
+    // Specialties filter. Jobs posted before the structured taxonomy only
+    // carry the specialty in their tags.
     if (specialties && specialties.length > 0) {
-      where.tags = { hasSome: specialties }
+      where.AND = where.AND || []
+      where.AND.push({
+        OR: [
+          { specialty: { in: specialties } },
+          { subspecialty: { in: specialties } },
+          { tags: { hasSome: specialties } }
+        ]
+      })
+    }
+
+    if (profession) {
+      where.profession = profession
+    }
+
+    // Jobs requiring a license in any of the given states
+    if (licenseStates && licenseStates.length > 0) {
+      where.requiredLicenseStates = { hasSome: licenseStates.map(state => state.toUpperCase()) }
+    }
+
+    if (certifications && certifications.length > 0) {
+      where.requiredCertifications = { hasSome: certifications }
     }
 
     // Build ORDER BY clause
@@ -143,7 +203,7 @@ export class SearchService {
         orderBy = { createdAt: sortOrder }
         break
       case 'salary':
-        orderBy = { salaryMax: sortOrder }
+        orderBy = { annualPayMax: { sort: sortOrder, nulls: 'last' } }
         break
       case 'relevance':
         // Relevance is handled by the full-text search ranking
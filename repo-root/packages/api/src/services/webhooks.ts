@@ -0,0 +1,404 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto'
+import { lookup } from 'dns/promises'
+import { BlockList, isIP } from 'net'
+import type { Prisma } from '@locumtruerate/database'
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  WebhookDeliveryStatus,
+  WebhookEventType
+} from '@locumtruerate/types'
+import type { Context } from '../context'
+
+/**
+ * Outbound webhooks organizations register for platform events. Emitting an
+ * event only queues a delivery per subscribed endpoint; the cron worker sends
+ * due deliveries and reschedules failures with exponential backoff, so
+ * requests never wait on a receiver.
+ */
+
+// Attempts before a delivery is marked failed (about six hours of retries)
+export const MAX_DELIVERY_ATTEMPTS = 10
+const BASE_RETRY_DELAY_MS = 60_000
+const MAX_RETRY_DELAY_MS = 2 * 60 * 60 * 1000
+const DELIVERY_TIMEOUT_MS = 10_000
+// A claimed delivery is hidden from other workers this long; if the worker
+// dies mid-send it becomes due again afterwards
+const CLAIM_LEASE_MS = 5 * 60 * 1000
+// How long a rotated-out secret keeps signing deliveries
+export const SECRET_ROTATION_GRACE_MS = 24 * 60 * 60 * 1000
+// Receivers should reject signatures older than this
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60
+
+// Addresses deliveries never go to: loopback, private networks, link-local
+// (which includes cloud metadata at 169.254.169.254) and other non-public
+// ranges. Endpoint URLs are set by organization admins, so without this the
+// server could be pointed at its own network.
+const PRIVATE_ADDRESSES = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6')
+}
+
+export function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) are checked as IPv4
+  const unmapped = address.toLowerCase().startsWith('::ffff:') ? address.slice(7) : address
+  const family = isIP(unmapped)
+  // Anything that isn't a plain address is refused rather than guessed at
+  if (family === 0) return true
+  return PRIVATE_ADDRESSES.check(unmapped, family === 4 ? 'ipv4' : 'ipv6')
+}
+
+export type ResolveHost = (hostname: string) => Promise<string[]>
+
+const resolveHost: ResolveHost = async hostname =>
+  (await lookup(hostname, { all: true, verbatim: true })).map(entry => entry.address)
+
+/**
+ * Why deliveries can't go to a URL, or null if they can: it must resolve,
+ * and only to public addresses
+ */
+export async function endpointUrlProblem(url: string, resolve: ResolveHost = resolveHost): Promise<string | null> {
+  // IPv6 literals keep their brackets in URL.hostname
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '')
+
+  let addresses: string[]
+  try {
+    addresses = await resolve(hostname)
+  } catch {
+    return `Could not resolve ${hostname}`
+  }
+
+  if (addresses.length === 0) return `Could not resolve ${hostname}`
+  if (addresses.some(isPrivateAddress)) return `${hostname} resolves to a private or local address`
+  return null
+}
+
+export type WebhookEventData = Prisma.InputJsonObject
+
+export interface WebhookPayload extends Prisma.InputJsonObject {
+  id: string
+  type: WebhookEventType
+  createdAt: string
+  organizationId: string
+  data: WebhookEventData
+}
+
+export const generateWebhookSecret = () => `whsec_${randomBytes(24).toString('hex')}`
+
+// Shown in place of the secret once it has been handed out
+export const secretHint = (secret: string) => `whsec_…${secret.slice(-4)}`
+
+/**
+ * Signature header value, "t=<unix seconds>,v1=<hex>" with one v1 per
+ * secret. Each v1 is an HMAC-SHA256 of "<t>.<body>".
+ */
+export function signWebhookPayload(body: string, secrets: string[], timestamp: number): string {
+  const signatures = secrets.map(secret =>
+    `v1=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`
+  )
+  return [`t=${timestamp}`, ...signatures].join(',')
+}
+
+/**
+ * Check a signature header the way receivers should: any v1 matching the
+ * secret, with a timestamp inside the tolerance
+ */
+export function verifyWebhookSignature(
+  body: string,
+  header: string,
+  secret: string,
+  now = new Date(),
+  toleranceSeconds = SIGNATURE_TOLERANCE_SECONDS
+): boolean {
+  const parts = header.split(',').map(part => part.split('='))
+  const timestamp = Number(parts.find(([key]) => key === 't')?.[1])
+  if (!Number.isFinite(timestamp) || Math.abs(now.getTime() / 1000 - timestamp) > toleranceSeconds) return false
+
+  const expected = Buffer.from(signWebhookPayload(body, [secret], timestamp).split(',v1=')[1], 'hex')
+  return parts
+    .filter(([key]) => key === 'v1')
+    .some(([, value]) => {
+      const candidate = Buffer.from(value ?? '', 'hex')
+      return candidate.length === expected.length && timingSafeEqual(candidate, expected)
+    })
+}
+
+/**
+ * Delay before the next attempt after `attempts` failed ones: one minute,
+ * doubling up to two hours
+ */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS)
+}
+
+/**
+ * Secrets a delivery is signed with: the current one, plus the previous one
+ * while its rotation grace period lasts
+ */
+export function signingSecrets(
+  endpoint: { secret: string; previousSecret?: string | null; previousSecretExpiresAt?: Date | null },
+  now: Date
+): string[] {
+  const previousValid = endpoint.previousSecret && endpoint.previousSecretExpiresAt && endpoint.previousSecretExpiresAt > now
+  return previousValid ? [endpoint.secret, endpoint.previousSecret!] : [endpoint.secret]
+}
+
+interface DueDelivery {
+  id: string
+  eventId: string
+  eventType: string
+  payload: Prisma.JsonValue
+  attempts: number
+  nextAttemptAt: Date | null
+  endpoint: {
+    url: string
+    enabled: boolean
+    secret: string
+    previousSecret: string | null
+    previousSecretExpiresAt: Date | null
+  }
+}
+
+export class WebhookService {
+  constructor(
+    private db: Context['db'],
+    private fetchImpl: typeof fetch = fetch,
+    private resolve: ResolveHost = resolveHost
+  ) {}
+
+  /**
+   * Queue an event for every enabled endpoint of the organization that
+   * subscribes to it. Returns the number of deliveries queued.
+   */
+  async emit(organizationId: string, type: WebhookEventType, data: WebhookEventData, now = new Date()): Promise<number> {
+    const endpoints = await this.db.webhookEndpoint.findMany({
+      where: { organizationId, enabled: true, events: { has: type } },
+      select: { id: true }
+    })
+    if (endpoints.length === 0) return 0
+
+    const payload: WebhookPayload = {
+      id: randomUUID(),
+      type,
+      createdAt: now.toISOString(),
+      organizationId,
+      data
+    }
+
+    await this.db.webhookDelivery.createMany({
+      data: endpoints.map(endpoint => ({
+        endpointId: endpoint.id,
+        eventId: payload.id,
+        eventType: type,
+        payload,
+        status: WebhookDeliveryStatus.PENDING,
+        nextAttemptAt: now
+      }))
+    })
+
+    return endpoints.length
+  }
+
+  /**
+   * Queue an event for the organization that owns a job. Jobs whose company
+   * has no organization have no webhooks.
+   */
+  async emitForJob(jobId: string, type: WebhookEventType, data: WebhookEventData, now = new Date()): Promise<number> {
+    const job = await this.db.job.findUnique({
+      where: { id: jobId },
+      select: { company: { select: { organizationId: true } } }
+    })
+    const organizationId = job?.company?.organizationId
+    return organizationId ? this.emit(organizationId, type, data, now) : 0
+  }
+
+  /**
+   * Queue an event for every organization a user owns or administers, e.g.
+   * for the user's subscription or the leads they buy
+   */
+  async emitForUser(userId: string, type: WebhookEventType, data: WebhookEventData, now = new Date()): Promise<number> {
+    const memberships = await this.db.organizationMember.findMany({
+      where: { userId, role: { in: ['OWNER', 'ADMIN'] } },
+      select: { organizationId: true }
+    })
+    return this.emitForOrganizations(memberships, type, data, now)
+  }
+
+  /**
+   * Queue an event for every organization a platform admin owns or
+   * administers, e.g. for leads captured on the site before anyone buys them
+   */
+  async emitForPlatformAdmins(type: WebhookEventType, data: WebhookEventData, now = new Date()): Promise<number> {
+    const memberships = await this.db.organizationMember.findMany({
+      where: { role: { in: ['OWNER', 'ADMIN'] }, user: { role: 'ADMIN' } },
+      select: { organizationId: true },
+      distinct: ['organizationId']
+    })
+    return this.emitForOrganizations(memberships, type, data, now)
+  }
+
+  private async emitForOrganizations(
+    memberships: { organizationId: string }[],
+    type: WebhookEventType,
+    data: WebhookEventData,
+    now: Date
+  ): Promise<number> {
+    let queued = 0
+    for (const { organizationId } of memberships) {
+      queued += await this.emit(organizationId, type, data, now)
+    }
+    return queued
+  }
+
+  /**
+   * Send deliveries whose next attempt is due. Each one is claimed before it
+   * is sent, so overlapping runs never send the same attempt twice. Returns
+   * how many were attempted and how many succeeded.
+   */
+  async processDueDeliveries(now = new Date(), limit = 50): Promise<{ attempted: number; succeeded: number }> {
+    const due = await this.db.webhookDelivery.findMany({
+      where: { status: WebhookDeliveryStatus.PENDING, nextAttemptAt: { lte: now } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: limit,
+      include: {
+        endpoint: {
+          select: { url: true, enabled: true, secret: true, previousSecret: true, previousSecretExpiresAt: true }
+        }
+      }
+    })
+
+    // A batch can take minutes; each attempt is stamped with its own time so
+    // signatures stay inside the receiver's tolerance
+    const started = Date.now()
+    let attempted = 0
+    let succeeded = 0
+    for (const delivery of due) {
+      const attemptAt = new Date(now.getTime() + Date.now() - started)
+      if (!await this.claim(delivery, attemptAt)) continue
+
+      attempted++
+      if (await this.attempt(delivery, attemptAt)) succeeded++
+    }
+    return { attempted, succeeded }
+  }
+
+  /**
+   * Take a delivery for this run by pushing its next attempt past the lease.
+   * The update only matches the row as it was read, so when two runs pick up
+   * the same delivery only one of them gets it.
+   */
+  private async claim(delivery: DueDelivery, now: Date): Promise<boolean> {
+    const { count } = await this.db.webhookDelivery.updateMany({
+      where: {
+        id: delivery.id,
+        status: WebhookDeliveryStatus.PENDING,
+        attempts: delivery.attempts,
+        nextAttemptAt: delivery.nextAttemptAt
+      },
+      data: { nextAttemptAt: new Date(now.getTime() + CLAIM_LEASE_MS) }
+    })
+    return count === 1
+  }
+
+  /**
+   * POST a delivery to its endpoint and record the outcome. Failures are
+   * rescheduled until the attempts run out. Returns whether the receiver
+   * accepted it (any 2xx).
+   */
+  async attempt(delivery: DueDelivery, now = new Date()): Promise<boolean> {
+    const attempts = delivery.attempts + 1
+
+    // Endpoints disabled after the event was queued do not receive it
+    if (!delivery.endpoint.enabled) {
+      await this.db.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: { status: WebhookDeliveryStatus.FAILED, nextAttemptAt: null, error: 'Endpoint is disabled' }
+      })
+      return false
+    }
+
+    const body = JSON.stringify(delivery.payload)
+    const timestamp = Math.floor(now.getTime() / 1000)
+    const started = Date.now()
+
+    let responseStatus: number | null = null
+    let error: string | null = null
+
+    try {
+      // Checked on every attempt, since what a hostname resolves to can
+      // change after the endpoint was registered
+      const problem = await endpointUrlProblem(delivery.endpoint.url, this.resolve)
+      if (problem) throw new Error(problem)
+
+      const response = await this.fetchImpl(delivery.endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'LocumTrueRate-Webhook/1.0',
+          'X-LocumTrueRate-Event': delivery.eventType,
+          'X-LocumTrueRate-Delivery': delivery.id,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(body, signingSecrets(delivery.endpoint, now), timestamp)
+        },
+        body,
+        // A redirect could lead to an address the check above would refuse
+        redirect: 'manual',
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+      })
+      responseStatus = response.status
+      // Only the status is kept; the body is never read or shown
+      await response.body?.cancel().catch(() => undefined)
+      if (response.status >= 300 && response.status < 400) {
+        error = `Endpoint redirected with ${response.status}; webhooks do not follow redirects`
+      } else if (!response.ok) {
+        error = `Endpoint responded with ${response.status}`
+      }
+    } catch (failure) {
+      error = failure instanceof Error ? failure.message : 'Request failed'
+    }
+
+    const ok = error === null
+    const exhausted = attempts >= MAX_DELIVERY_ATTEMPTS
+    const status = ok
+      ? WebhookDeliveryStatus.SUCCEEDED
+      : exhausted ? WebhookDeliveryStatus.FAILED : WebhookDeliveryStatus.PENDING
+
+    await this.db.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status,
+        attempts,
+        lastAttemptAt: now,
+        nextAttemptAt: status === WebhookDeliveryStatus.PENDING ? new Date(now.getTime() + retryDelayMs(attempts)) : null,
+        responseStatus,
+        error,
+        durationMs: Date.now() - started
+      }
+    })
+
+    return ok
+  }
+
+  /**
+   * Queue a fresh copy of a delivery with the same event id, so receivers can
+   * de-duplicate, and reset attempts. The original stays in the log.
+   */
+  async replay(delivery: { id: string; endpointId: string; eventId: string; eventType: string; payload: Prisma.JsonValue }, now = new Date()) {
+    return this.db.webhookDelivery.create({
+      data: {
+        endpointId: delivery.endpointId,
+        eventId: delivery.eventId,
+        eventType: delivery.eventType,
+        // The payload column is required, so a stored payload is never null
+        payload: delivery.payload as Prisma.InputJsonValue,
+        status: WebhookDeliveryStatus.PENDING,
+        nextAttemptAt: now,
+        replayOf: delivery.id
+      }
+    })
+  }
+}
@@ -86,7 +86,7 @@ export type AuditUser = z.infer<typeof AuditUser>
 
 // PHI-related metadata (when applicable)
 export const PHIMetadata = z.object({
-  dataType: z.enum(['resume', 'application', 'profile', 'communication']),
+  dataType: z.enum(['resume', 'application', 'profile', 'communication', 'credential']),
   recordId: z.string(),
   fieldAccessed: z.string().optional(),
   purpose: z.string(), // Business justification for access
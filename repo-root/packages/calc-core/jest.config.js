@@ -37,7 +37,7 @@ module.exports = {
       preset: 'ts-jest',
       testEnvironment: 'node',
       displayName: 'unit',
-      testMatch: ['<rootDir>/src/__tests__/**/!(validation)/*.test.ts'],
+      testMatch: ['<rootDir>/src/__tests__/**/*.test.ts'],
       roots: ['<rootDir>/src'],
       setupFilesAfterEnv: ['<rootDir>/src/__tests__/setup.ts'],
       transform: {
@@ -50,23 +50,5 @@ module.exports = {
         }],
       },
     },
-    {
-      preset: 'ts-jest',
-      testEnvironment: 'node',
-      displayName: 'validation',
-      testMatch: ['<rootDir>/src/__tests__/validation/**/*.test.ts'],
-      roots: ['<rootDir>/src'],
-      setupFilesAfterEnv: ['<rootDir>/src/__tests__/setup.ts'],
-      testTimeout: 60000,
-      transform: {
-        '^.+\\.ts$': ['ts-jest', {
-          tsconfig: {
-            allowJs: true,
-            esModuleInterop: true,
-            resolveJsonModule: true,
-          },
-        }],
-      },
-    },
   ],
 }
\ No newline at end of file
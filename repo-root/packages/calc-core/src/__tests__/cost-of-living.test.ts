@@ -0,0 +1,111 @@
+import { CostOfLivingDirectory, parseCostOfLivingCsv } from '../engines/cost-of-living'
+import { LocationDataProvider } from '../engines/location-data'
+import { ContractComparisonEngine } from '../engines/comparison'
+import { ContractInput } from '../types'
+import { contractInput } from './fixtures'
+
+describe('Cost of Living', () => {
+  const provider = new LocationDataProvider()
+
+  describe('metro lookup', () => {
+    it('distinguishes metros within the same state', () => {
+      const sanFrancisco = provider.getCostOfLiving({ state: 'CA', zipCode: '94102' })
+      const fresno = provider.getCostOfLiving({ state: 'CA', zipCode: '93721' })
+
+      expect(sanFrancisco.area).toBe('San Francisco')
+      expect(sanFrancisco.source).toBe('METRO')
+      expect(fresno.area).toBe('Fresno')
+      expect(sanFrancisco.costOfLivingIndex).toBeGreaterThan(fresno.costOfLivingIndex * 1.5)
+    })
+
+    it('falls back to the state average for unlisted ZIP codes', () => {
+      const rural = provider.getCostOfLiving({ state: 'CA', zipCode: '96101' })
+      const state = provider.getLocationData('CA')
+
+      expect(rural.source).toBe('STATE')
+      expect(rural.costOfLivingIndex).toBe(state.costOfLivingIndex)
+      expect(provider.getCostOfLiving('CA').source).toBe('STATE')
+    })
+
+    it('ignores prefixes from another state', () => {
+      expect(provider.getCostOfLiving({ state: 'NV', zipCode: '94102' }).source).toBe('STATE')
+    })
+
+    it('uses metro indexes in the adjustments', () => {
+      const adjustment = provider.calculateCostOfLivingAdjustment(
+        { state: 'CA', zipCode: '93721' },
+        { state: 'CA', zipCode: '94102' }
+      )
+      expect(adjustment.toNumber()).toBeCloseTo(179.1 / 101.2)
+      expect(provider.calculateHousingCostAdjustment('CA', 'CA').toNumber()).toBe(1)
+    })
+  })
+
+  describe('CSV loader', () => {
+    const csv = [
+      'name,state,zip_prefixes,cost_of_living_index,housing_cost_index',
+      'Fresno,CA,936 937,103.5,104.0',
+      '"Marin County, CA",CA,949;94901,165.2,290.1',
+    ].join('\n')
+
+    it('parses areas', () => {
+      const areas = parseCostOfLivingCsv(csv)
+
+      expect(areas).toHaveLength(2)
+      expect(areas[1]).toEqual({
+        name: 'Marin County, CA',
+        state: 'CA',
+        zipPrefixes: ['949', '94901'],
+        costOfLivingIndex: 165.2,
+        housingCostIndex: 290.1,
+      })
+    })
+
+    it('refreshes the dataset without replacing unrelated areas', () => {
+      const directory = new CostOfLivingDirectory()
+      const loaded = directory.loadCsv(csv)
+
+      expect(loaded).toBe(2)
+      expect(directory.findArea({ state: 'CA', zipCode: '93721' })!.costOfLivingIndex).toBe(103.5)
+      expect(directory.findArea({ state: 'CA', zipCode: '94901' })!.name).toBe('Marin County, CA')
+      expect(directory.findArea({ state: 'CA', zipCode: '94102' })!.name).toBe('San Francisco')
+    })
+
+    it('replaces the dataset when asked', () => {
+      const directory = new CostOfLivingDirectory()
+      directory.loadCsv(csv, { replace: true })
+
+      expect(directory.getAreas()).toHaveLength(2)
+      expect(directory.findArea({ state: 'CA', zipCode: '94102' })).toBeUndefined()
+    })
+
+    it('reports the line of an invalid row', () => {
+      const invalid = 'name,state,zip_prefixes,cost_of_living_index,housing_cost_index\nSomewhere,ZZ,123,100,100'
+      expect(() => parseCostOfLivingCsv(invalid)).toThrow('Invalid state "ZZ" on line 2')
+      expect(() => parseCostOfLivingCsv('name,state\nA,CA')).toThrow('missing columns')
+    })
+  })
+
+  describe('comparison', () => {
+    const contract = (location: ContractInput['location']) => contractInput({
+      title: location.city,
+      specialty: 'Emergency Medicine',
+      location,
+      startDate: new Date(2025, 0, 6),
+      endDate: new Date(2025, 3, 7),
+      duration: 13,
+    })
+
+    it('compares contracts in the same state by metro cost of living', async () => {
+      const engine = new ContractComparisonEngine()
+      const result = await engine.compareContracts([
+        contract({ state: 'CA', city: 'San Francisco', zipCode: '94102' }),
+        contract({ state: 'CA', city: 'Fresno', zipCode: '93721' }),
+      ])
+
+      const [sanFrancisco, fresno] = result.metrics.locationFactors.costOfLiving
+      expect(sanFrancisco.toNumber()).toBe(179.1)
+      expect(fresno.toNumber()).toBe(101.2)
+    })
+  })
+})
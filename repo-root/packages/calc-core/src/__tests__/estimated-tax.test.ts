@@ -0,0 +1,164 @@
+import { Decimal } from 'decimal.js'
+import { EstimatedTaxPlanInput, EstimatedTaxPlanner } from '../engines/estimated-tax'
+import { TaxCalculator } from '../engines/tax-calculator'
+import { CSVExporter } from '../export/csv-exporter'
+import { ExportFormat } from '../export/types'
+import { ContractOverrides, contractInput } from './fixtures'
+import { expectCloseTo } from './setup'
+
+describe('Estimated Tax Planner', () => {
+  const planner = new EstimatedTaxPlanner()
+
+  const contract = (overrides: ContractOverrides = {}) => contractInput({
+    title: 'Emergency Medicine Locum',
+    specialty: 'Emergency Medicine',
+    workerClassification: '1099',
+    startDate: new Date(2025, 0, 1),
+    endDate: new Date(2025, 11, 31),
+    duration: 52,
+    hourlyRate: 100,
+    ...overrides,
+  })
+
+  const plan = (overrides: Partial<EstimatedTaxPlanInput> = {}) =>
+    planner.plan({
+      taxYear: 2025,
+      filingStatus: 'SINGLE',
+      contracts: [contract()],
+      ...overrides,
+    })
+
+  const sum = (values: Decimal[]) => values.reduce((total, value) => total.add(value), new Decimal(0)).toNumber()
+
+  describe('installments', () => {
+    it('schedules four installments on the IRS due dates', async () => {
+      const result = await plan()
+
+      expect(result.installments.map(installment => installment.dueDate)).toEqual([
+        new Date(2025, 3, 15),
+        new Date(2025, 5, 15),
+        new Date(2025, 8, 15),
+        new Date(2026, 0, 15),
+      ])
+      expectCloseTo(sum(result.installments.map(installment => installment.requiredInstallment)), result.currentYearSafeHarbor.toNumber())
+      expect(result.penaltyApplies).toBe(true)
+    })
+
+    it('defers installments for contracts that start mid-year', async () => {
+      const result = await plan({
+        contracts: [contract({ startDate: new Date(2025, 6, 1), endDate: new Date(2025, 11, 30), duration: 26 })],
+      })
+      const [q1, q2, q3, q4] = result.installments
+
+      expect(result.method).toBe('ANNUALIZED')
+      expect(q1.requiredInstallment.toNumber()).toBe(0)
+      expect(q2.requiredInstallment.toNumber()).toBe(0)
+      expect(q3.requiredInstallment.lt(q3.regularInstallment)).toBe(true)
+      expect(q4.requiredInstallment.gt(q3.requiredInstallment)).toBe(true)
+      expectCloseTo(sum(result.installments.map(installment => installment.requiredInstallment)), result.currentYearSafeHarbor.toNumber())
+    })
+
+    it('only counts income earned during the tax year', async () => {
+      const result = await plan({
+        contracts: [contract({ startDate: new Date(2024, 9, 1), endDate: new Date(2025, 8, 29), duration: 52 })],
+      })
+      const fullYear = await plan()
+
+      expect(result.totalIncome.lt(fullYear.totalIncome)).toBe(true)
+      expect(result.warnings[0]).toContain('extends outside 2025')
+    })
+  })
+
+  describe('safe harbor', () => {
+    it('uses 100% of prior-year tax when it is lower', async () => {
+      const result = await plan({ priorYearTax: 20000, priorYearAgi: 140000 })
+
+      expect(result.priorYearSafeHarbor!.toNumber()).toBe(20000)
+      expect(result.requiredAnnualPayment.toNumber()).toBe(20000)
+      expect(result.installments[3].requiredInstallment.toNumber()).toBeLessThanOrEqual(5000)
+    })
+
+    it('uses 110% of prior-year tax above $150,000 AGI', async () => {
+      const result = await plan({ priorYearTax: 20000, priorYearAgi: 180000 })
+      expectCloseTo(result.priorYearSafeHarbor!.toNumber(), 22000)
+    })
+
+    it('uses 90% of current-year tax when it is lower than prior-year tax', async () => {
+      const result = await plan({ priorYearTax: 1000000, priorYearAgi: 3000000 })
+      expect(result.requiredAnnualPayment.eq(result.currentYearSafeHarbor)).toBe(true)
+    })
+  })
+
+  describe('penalty', () => {
+    it('has no penalty when the recommended payments are made', async () => {
+      const result = await plan()
+      expect(result.totalPenalty.toNumber()).toBe(0)
+    })
+
+    it('charges interest on missed installments until the return is due', async () => {
+      const result = await plan({ payments: [0, 0, 0, 0] })
+      const q1 = result.installments[0]
+
+      expect(q1.underpayment.eq(q1.requiredInstallment)).toBe(true)
+      expectCloseTo(q1.penalty.toNumber(), q1.requiredInstallment.mul(0.07).toNumber())
+      expect(result.warnings[0]).toContain('underpayment penalty')
+    })
+
+    it('stops interest when a later payment covers the shortfall', async () => {
+      const base = await plan()
+      const [q1, q2, q3, q4] = base.installments.map(installment => installment.requiredInstallment.toNumber())
+      const result = await plan({ payments: [0, q1 + q2, q3, q4] })
+
+      expectCloseTo(result.installments[0].penalty.toNumber(), q1 * 0.07 * 61 / 365)
+      expectCloseTo(result.installments[1].penalty.toNumber(), 0)
+    })
+
+    it('credits W-2 withholding evenly across installments', async () => {
+      const result = await plan({
+        contracts: [contract({ workerClassification: 'W2' })],
+        payments: [0, 0, 0, 0],
+      })
+
+      expect(result.withholding.gt(0)).toBe(true)
+      expectCloseTo(result.installments[0].withholding.toNumber(), result.withholding.div(4).toNumber())
+      expect(result.penaltyApplies).toBe(false)
+      expect(result.totalPenalty.toNumber()).toBe(0)
+    })
+  })
+
+  describe('calculateFederalLiability', () => {
+    const taxCalculator = new TaxCalculator()
+
+    it('reduces the self-employment Social Security base by W-2 wages', () => {
+      const liability = (wages: number) => taxCalculator.calculateFederalLiability({
+        wages: new Decimal(wages),
+        selfEmploymentIncome: new Decimal(100000),
+        filingStatus: 'SINGLE',
+        taxYear: 2025,
+      })
+
+      const contractorOnly = liability(0)
+      const withWages = liability(176100)
+
+      expectCloseTo(contractorOnly.selfEmploymentTax.toNumber(), 100000 * 0.9235 * 0.153)
+      expectCloseTo(withWages.selfEmploymentTax.toNumber(), 92350 * 0.029 + (92350 - 23900) * 0.009)
+    })
+  })
+
+  describe('export', () => {
+    beforeAll(() => {
+      global.URL.createObjectURL = jest.fn(() => 'blob:mock-url')
+    })
+
+    it('adds an estimated tax payments section to CSV exports', async () => {
+      const result = await plan()
+      const exported = await new CSVExporter({ format: ExportFormat.CSV }).export(result)
+      const csv = await exported.blob!.text()
+
+      expect(exported.success).toBe(true)
+      expect(csv).toContain('ESTIMATED TAX PAYMENTS')
+      expect(csv).toContain('Q1 (due 04/15/2025) Recommended Payment')
+      expect(csv).toContain('Required Annual Payment')
+    })
+  })
+})
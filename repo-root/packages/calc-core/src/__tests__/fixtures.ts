@@ -0,0 +1,95 @@
+// Typed inputs shared by the engine tests
+
+import { ContractInput, PaycheckInput } from '../types'
+
+// Objects merged with the default rather than replaced, so a test can set a
+// single stipend, deduction or tax setting
+type NestedContractField = 'location' | 'stipends' | 'deductions' | 'businessExpenses' | 'taxInfo'
+
+export type ContractOverrides = Partial<Omit<ContractInput, NestedContractField>> & {
+  [Field in NestedContractField]?: Partial<ContractInput[Field]>
+}
+
+// A full-year W-2 contract in a state without income tax, with every
+// schema default filled in
+export const DEFAULT_CONTRACT: ContractInput = {
+  title: 'Hospitalist Locum',
+  specialty: 'Hospital Medicine',
+  location: { state: 'TX', city: 'Austin', zipCode: '78701' },
+  contractType: 'LOCUM_TENENS',
+  startDate: new Date(2024, 0, 1),
+  endDate: new Date(2024, 11, 31),
+  duration: 52,
+  hourlyRate: 200,
+  hoursPerWeek: 40,
+  overtimeThreshold: 40,
+  bonuses: [],
+  stipends: { housing: 0, travel: 0, meals: 0, licensure: 0, malpractice: 0, cme: 0, other: 0 },
+  deductions: {
+    healthInsurance: 0,
+    dentalInsurance: 0,
+    visionInsurance: 0,
+    retirement401k: 0,
+    professionalFees: 0,
+    parking: 0,
+    other: 0,
+  },
+  businessExpenses: {
+    malpracticeInsurance: 0,
+    licensure: 0,
+    cme: 0,
+    travel: 0,
+    equipment: 0,
+    professionalServices: 0,
+    other: 0,
+  },
+  workerClassification: 'W2',
+  taxInfo: {
+    filingStatus: 'SINGLE',
+    federalExemptions: 0,
+    stateExemptions: 0,
+    additionalFederalWithholding: 0,
+    additionalStateWithholding: 0,
+    isResident: true,
+  },
+}
+
+export function contractInput(overrides: ContractOverrides = {}): ContractInput {
+  const { location, stipends, deductions, businessExpenses, taxInfo, ...fields } = overrides
+
+  return {
+    ...DEFAULT_CONTRACT,
+    ...fields,
+    location: { ...DEFAULT_CONTRACT.location, ...location },
+    stipends: { ...DEFAULT_CONTRACT.stipends, ...stipends },
+    deductions: { ...DEFAULT_CONTRACT.deductions, ...deductions },
+    businessExpenses: { ...DEFAULT_CONTRACT.businessExpenses, ...businessExpenses },
+    taxInfo: { ...DEFAULT_CONTRACT.taxInfo, ...taxInfo },
+  }
+}
+
+// A biweekly paycheck early in the year with no year-to-date totals
+export const DEFAULT_PAYCHECK: PaycheckInput = {
+  grossPay: 4000,
+  payFrequency: 'BI_WEEKLY',
+  payDate: new Date(2024, 0, 12),
+  filingStatus: 'SINGLE',
+  exemptions: 0,
+  workState: 'TX',
+  residenceState: 'TX',
+  ytdGross: 0,
+  ytdFederalTax: 0,
+  ytdStateTax: 0,
+  ytdSocialSecurity: 0,
+  ytdMedicare: 0,
+  ytdStateDisability: 0,
+  preTaxDeductions: 0,
+  rothDeductions: 0,
+  afterTaxDeductions: 0,
+  additionalFederalWithholding: 0,
+  additionalStateWithholding: 0,
+}
+
+export function paycheckInput(overrides: Partial<PaycheckInput> = {}): PaycheckInput {
+  return { ...DEFAULT_PAYCHECK, ...overrides }
+}
@@ -0,0 +1,234 @@
+import {
+  CalculationSyncRecord,
+  CalculationSyncRequest,
+  CalculationSyncResponse,
+  isCalculationTombstone,
+  mergeCalculationSyncRecords,
+} from '@locumtruerate/types'
+import { ApiHistoryStorage } from '../history/api-storage'
+import { queryHistory } from '../history/query'
+import { MemorySyncState, SyncedHistoryStorage } from '../history/sync'
+import {
+  CalculationHistoryItem,
+  CalculationHistoryStorage,
+  CalculationSyncClient,
+} from '../history/types'
+
+let time = 1_000_000
+const now = () => time
+const tick = (ms = 1000) => {
+  time += ms
+}
+
+// The calculations.sync procedure, in memory
+class FakeServer implements CalculationSyncClient {
+  rows = new Map<string, { record: CalculationSyncRecord; updatedAt: number }>()
+  fail = false
+
+  async sync({ changes, since }: CalculationSyncRequest): Promise<CalculationSyncResponse> {
+    if (this.fail) throw new Error('Network error')
+
+    const serverTime = now()
+    changes.forEach(change => {
+      const existing = this.rows.get(change.id)
+      const record = existing ? mergeCalculationSyncRecords(existing.record, change) : change
+      this.rows.set(change.id, { record, updatedAt: serverTime })
+    })
+
+    const pulled = Array.from(this.rows.values())
+      .filter(row => since === undefined ? !isCalculationTombstone(row.record) : row.updatedAt >= Number(since))
+      .map(row => row.record)
+
+    return { changes: pulled, cursor: String(serverTime), hasMore: false }
+  }
+}
+
+// Local history without localStorage or IndexedDB
+class MemoryHistory implements CalculationHistoryStorage {
+  items = new Map<string, CalculationHistoryItem>()
+
+  async save(item: CalculationHistoryItem) {
+    this.items.set(item.id, item)
+  }
+  async update(id: string, updates: Partial<CalculationHistoryItem>) {
+    const item = this.items.get(id)
+    if (!item) throw new Error(`Calculation with id ${id} not found`)
+    this.items.set(id, { ...item, ...updates, id })
+  }
+  async delete(id: string) {
+    this.items.delete(id)
+  }
+  async get(id: string) {
+    return this.items.get(id) || null
+  }
+  async list(...args: Parameters<CalculationHistoryStorage['list']>) {
+    return queryHistory(Array.from(this.items.values()), ...args)
+  }
+  async clear() {
+    this.items.clear()
+  }
+  async export() {
+    return Array.from(this.items.values())
+  }
+  async import(items: CalculationHistoryItem[]) {
+    items.forEach(item => this.items.set(item.id, item))
+  }
+}
+
+const calculation = (overrides: Partial<CalculationHistoryItem> = {}): CalculationHistoryItem => ({
+  id: 'calc-1',
+  type: 'contract',
+  input: { hourlyRate: 200, location: 'TX' },
+  result: { netPay: 280000 },
+  timestamp: new Date(now()),
+  userId: 'user-1',
+  name: 'Dallas ER',
+  tags: ['er'],
+  isFavorite: false,
+  ...overrides,
+})
+
+const device = (server: FakeServer, userId = 'user-1') => {
+  const local = new MemoryHistory()
+  const storage = new SyncedHistoryStorage(local, server, { userId, state: new MemorySyncState(), now })
+  return { local, storage }
+}
+
+describe('SyncedHistoryStorage', () => {
+  let server: FakeServer
+
+  beforeEach(() => {
+    server = new FakeServer()
+  })
+
+  it('brings history to a fresh browser after sign-in', async () => {
+    const web = device(server)
+    await web.storage.save(calculation())
+    await web.storage.sync()
+
+    const fresh = device(server)
+    const result = await fresh.storage.sync()
+
+    expect(result).toMatchObject({ pushed: 0, pulled: 1, deleted: 0 })
+    expect(await fresh.storage.get('calc-1')).toMatchObject({ name: 'Dallas ER', userId: 'user-1' })
+  })
+
+  it('uploads history saved before signing in', async () => {
+    const web = device(server)
+    await web.local.save(calculation({ userId: undefined }))
+    await web.local.save(calculation({ id: 'calc-2', userId: 'someone-else' }))
+
+    await web.storage.sync()
+
+    expect(Array.from(server.rows.keys())).toEqual(['calc-1'])
+    expect((await web.storage.get('calc-1'))?.userId).toBe('user-1')
+  })
+
+  it('keeps edits to different fields made on different devices', async () => {
+    const web = device(server)
+    const phone = device(server)
+    await web.storage.save(calculation())
+    await web.storage.sync()
+    await phone.storage.sync()
+
+    tick()
+    await web.storage.update('calc-1', { name: 'Renamed on web' })
+    tick()
+    await phone.storage.update('calc-1', { isFavorite: true })
+    await phone.storage.sync()
+    await web.storage.sync()
+    await phone.storage.sync()
+
+    for (const { storage } of [web, phone]) {
+      expect(await storage.get('calc-1')).toMatchObject({ name: 'Renamed on web', isFavorite: true })
+    }
+  })
+
+  it('lets the later edit of the same field win', async () => {
+    const web = device(server)
+    const phone = device(server)
+    await web.storage.save(calculation())
+    await web.storage.sync()
+    await phone.storage.sync()
+
+    tick()
+    await phone.storage.update('calc-1', { name: 'Phone name' })
+    tick()
+    await web.storage.update('calc-1', { name: 'Web name' })
+    await web.storage.sync()
+    await phone.storage.sync()
+
+    expect((await phone.storage.get('calc-1'))?.name).toBe('Web name')
+  })
+
+  it('removes deleted calculations from other devices', async () => {
+    const web = device(server)
+    const phone = device(server)
+    await web.storage.save(calculation())
+    await web.storage.sync()
+    await phone.storage.sync()
+
+    tick()
+    await phone.storage.update('calc-1', { tags: ['stale'] })
+    tick()
+    await web.storage.delete('calc-1')
+    await web.storage.sync()
+    const result = await phone.storage.sync()
+
+    expect(result.deleted).toBe(1)
+    expect(await phone.storage.get('calc-1')).toBeNull()
+    expect(isCalculationTombstone(server.rows.get('calc-1')!.record)).toBe(true)
+
+    // A new device never hears about it
+    const fresh = device(server)
+    await fresh.storage.sync()
+    expect(await fresh.storage.export()).toEqual([])
+  })
+
+  it('keeps changes for the next sync when one fails', async () => {
+    const web = device(server)
+    await web.storage.sync()
+    await web.storage.save(calculation())
+
+    server.fail = true
+    await expect(web.storage.sync()).rejects.toThrow('Network error')
+
+    server.fail = false
+    expect((await web.storage.sync()).pushed).toBe(1)
+    expect(server.rows.has('calc-1')).toBe(true)
+  })
+})
+
+describe('ApiHistoryStorage', () => {
+  it('keeps history on the server', async () => {
+    const server = new FakeServer()
+    const storage = new ApiHistoryStorage(server, { userId: 'user-1', now })
+
+    await storage.save(calculation())
+    await storage.save(calculation({ id: 'calc-2', type: 'paycheck', name: 'Biweekly' }))
+    tick()
+    await storage.update('calc-2', { isFavorite: true })
+
+    expect((await storage.list({ isFavorite: true })).items.map(item => item.id)).toEqual(['calc-2'])
+    expect(server.rows.get('calc-2')!.record.fieldUpdatedAt.isFavorite).toBe(now())
+
+    tick()
+    await storage.delete('calc-1')
+    expect(await storage.get('calc-1')).toBeNull()
+    expect(isCalculationTombstone(server.rows.get('calc-1')!.record)).toBe(true)
+    await expect(storage.update('calc-1', { name: 'Gone' })).rejects.toThrow('not found')
+  })
+
+  it('sees changes made on other devices', async () => {
+    const server = new FakeServer()
+    const storage = new ApiHistoryStorage(server, { userId: 'user-1', now })
+    expect(await storage.export()).toEqual([])
+
+    const phone = device(server)
+    tick()
+    await phone.storage.save(calculation())
+    await phone.storage.sync()
+
+    expect((await storage.get('calc-1'))?.name).toBe('Dallas ER')
+  })
+})
\ No newline at end of file
@@ -0,0 +1,100 @@
+import { JobCompensationCalculator } from '../engines/job-compensation'
+import { ContractCalculationEngine } from '../engines/contract'
+import { ContractInputSchema, JobCompensationSchema } from '../types'
+
+describe('Job Compensation', () => {
+  const calculator = new JobCompensationCalculator()
+  const engine = new ContractCalculationEngine()
+
+  const posting = (compensation: any): any => ({
+    title: 'Emergency Medicine Physician',
+    specialty: 'Emergency Medicine',
+    location: { state: 'TX', city: 'Houston', zipCode: '77002' },
+    startDate: new Date(2025, 0, 6),
+    compensation,
+  })
+
+  describe('rates', () => {
+    it('converts shift pay to an hourly rate', () => {
+      const range = calculator.getHourlyRange({ payBasis: 'SHIFT', rateMin: 2400, rateMax: 3000, hoursPerShift: 12 })
+
+      expect(range.min.toNumber()).toBe(200)
+      expect(range.max.toNumber()).toBe(250)
+    })
+
+    it('annualizes hourly pay at the posted weekly hours', () => {
+      const annual = calculator.annualize({ payBasis: 'HOURLY', rateMin: 150, rateMax: 175, hoursPerWeek: 40 })
+
+      expect(annual.min.toNumber()).toBe(312000)
+      expect(annual.max.toNumber()).toBe(364000)
+    })
+
+    it('keeps annual salaries as posted', () => {
+      const annual = calculator.annualize({ payBasis: 'ANNUAL', rateMin: 325000 })
+
+      expect(annual.min.toNumber()).toBe(325000)
+      expect(annual.max.toNumber()).toBe(325000)
+    })
+
+    it('requires hours per shift for shift pay', () => {
+      expect(() => JobCompensationSchema.parse({ payBasis: 'DAILY', rateMin: 1800 })).toThrow('Hours per shift are required')
+      expect(() => JobCompensationSchema.parse({ payBasis: 'HOURLY', rateMin: 200, rateMax: 150 })).toThrow('Maximum rate cannot be less')
+    })
+  })
+
+  describe('toContractInput', () => {
+    it('builds a valid calculator input from a posting', async () => {
+      const input = calculator.toContractInput(posting({
+        payBasis: 'HOURLY',
+        rateMin: 180,
+        rateMax: 220,
+        hoursPerWeek: 48,
+        durationWeeks: 26,
+        overtimeRate: 300,
+        callRate: 25,
+        callHoursPerWeek: 24,
+        stipends: { housing: 1200, meals: 350, travel: 1500 },
+        workerClassification: '1099',
+      }))
+
+      expect(() => ContractInputSchema.parse(input)).not.toThrow()
+      expect(input.hourlyRate).toBe(200)
+      expect(input.duration).toBe(26)
+      expect(input.endDate).toEqual(new Date(2025, 6, 7))
+      expect(input.callPay).toEqual({ rate: 25, hoursPerWeek: 24 })
+      expect(input.stipends.housing).toBe(1200)
+      expect(input.workerClassification).toBe('1099')
+
+      const result = await engine.calculateContract(input)
+      expect(result.breakdown.callPay!.toNumber()).toBe(25 * 24 * 26)
+    })
+
+    it('uses the requested end of the rate range', () => {
+      const compensation = { payBasis: 'DAILY', rateMin: 1600, rateMax: 2000, hoursPerShift: 10 }
+
+      expect(calculator.toContractInput(posting(compensation), { rate: 'MIN' }).hourlyRate).toBe(160)
+      expect(calculator.toContractInput(posting(compensation), { rate: 'MAX' }).hourlyRate).toBe(200)
+    })
+
+    it('treats annual salaries as permanent positions', () => {
+      const input = calculator.toContractInput(posting({ payBasis: 'ANNUAL', rateMin: 312000 }))
+
+      expect(input.contractType).toBe('PERMANENT')
+      expect(input.duration).toBe(52)
+      expect(input.hourlyRate).toBe(150)
+    })
+
+    it('round-trips a contract through structured compensation', async () => {
+      const contract = calculator.toContractInput(posting({
+        payBasis: 'HOURLY',
+        rateMin: 210,
+        durationWeeks: 13,
+        stipends: { housing: 1000, malpractice: 2500 },
+      }))
+      const compensation = calculator.fromContractInput(contract)
+      const roundTripped = calculator.toContractInput(posting(compensation))
+
+      expect(roundTripped).toEqual(contract)
+    })
+  })
+})
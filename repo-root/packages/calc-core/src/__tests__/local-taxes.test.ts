@@ -0,0 +1,142 @@
+import { Decimal } from 'decimal.js'
+import { TaxCalculator } from '../engines/tax-calculator'
+import { LocalTaxDirectory, LocalTaxLocation } from '../engines/local-taxes'
+import { ContractCalculationEngine } from '../engines/contract'
+import { PaycheckCalculationEngine } from '../engines/paycheck'
+import { contractInput, paycheckInput } from './fixtures'
+import { expectCloseTo } from './setup'
+
+describe('Local Income Taxes', () => {
+  const directory = new LocalTaxDirectory()
+  const taxCalculator = new TaxCalculator()
+
+  describe('LocalTaxDirectory', () => {
+    it('finds jurisdictions by ZIP prefix', () => {
+      expect(directory.findJurisdiction({ state: 'NY', zipCode: '10027' })?.id).toBe('NY-NYC')
+      expect(directory.findJurisdiction({ state: 'NY', zipCode: '10705' })?.id).toBe('NY-YONKERS')
+      expect(directory.findJurisdiction({ state: 'PA', zipCode: '19104-6303' })?.id).toBe('PA-PHILADELPHIA')
+    })
+
+    it('prefers an exact city match over ZIP', () => {
+      expect(directory.findJurisdiction({ state: 'MO', city: 'Saint Louis', zipCode: '64101' })?.id).toBe('MO-ST-LOUIS')
+    })
+
+    it('only matches jurisdictions in the same state', () => {
+      expect(directory.findJurisdiction({ state: 'KS', city: 'Kansas City' })).toBeUndefined()
+      expect(directory.findJurisdiction({ state: 'ME', city: 'Portland' })).toBeUndefined()
+    })
+
+    it('returns undefined for places without a local income tax', () => {
+      expect(directory.findJurisdiction({ state: 'CA', city: 'Los Angeles', zipCode: '90012' })).toBeUndefined()
+    })
+  })
+
+  describe('calculateLocalTax', () => {
+    const local = (workLocation: LocalTaxLocation, homeLocation: LocalTaxLocation, grossIncome = 100000) =>
+      taxCalculator.calculateLocalTax({
+        grossIncome: new Decimal(grossIncome),
+        filingStatus: 'SINGLE',
+        workLocation,
+        homeLocation,
+        taxYear: 2024,
+      })
+
+    it('applies New York City resident brackets to NY taxable income', () => {
+      const nyc: LocalTaxLocation = { state: 'NY', city: 'New York', zipCode: '10001' }
+      const result = local(nyc, nyc, 150000)
+      expectCloseTo(result.total.toNumber(), 5379.09)
+      expect(result.jurisdictions).toEqual([
+        expect.objectContaining({ jurisdiction: 'NY-NYC', isResident: true }),
+      ])
+    })
+
+    it('does not tax nonresidents working in New York City', () => {
+      const result = local({ state: 'NY', zipCode: '10001' }, { state: 'NJ', city: 'Hoboken' })
+      expect(result.total.toNumber()).toBe(0)
+    })
+
+    it('applies Philadelphia resident and nonresident wage tax rates', () => {
+      const philadelphia: LocalTaxLocation = { state: 'PA', city: 'Philadelphia' }
+      expectCloseTo(local(philadelphia, philadelphia).total.toNumber(), 3750)
+      expectCloseTo(local(philadelphia, { state: 'NJ', city: 'Cherry Hill' }).total.toNumber(), 3440)
+    })
+
+    it('credits the home municipality for tax paid where the work is done', () => {
+      const result = local({ state: 'OH', city: 'Columbus' }, { state: 'OH', city: 'Cincinnati' })
+      expectCloseTo(result.total.toNumber(), 2500)
+
+      const cincinnati = result.jurisdictions.find(jurisdiction => jurisdiction.isResident)!
+      expect(cincinnati.tax.toNumber()).toBe(0)
+    })
+
+    it('applies the Yonkers resident surcharge on state tax', () => {
+      const yonkers: LocalTaxLocation = { state: 'NY', city: 'Yonkers' }
+      const stateTax = taxCalculator.calculateStateIncomeTax(new Decimal(100000), 'NY', 'SINGLE', { taxYear: 2024 })
+      expectCloseTo(local(yonkers, yonkers).total.toNumber(), stateTax.mul(0.1675).toNumber())
+    })
+
+    it('only applies the Portland Metro taxes above the income thresholds', () => {
+      const portland: LocalTaxLocation = { state: 'OR', city: 'Portland' }
+      expect(local(portland, portland, 120000).total.toNumber()).toBe(0)
+      expect(local(portland, portland, 300000).total.gt(0)).toBe(true)
+    })
+  })
+
+  describe('engines', () => {
+    it('adds a local line to contract results', async () => {
+      const engine = new ContractCalculationEngine()
+      const result = await engine.calculateContract(contractInput({
+        title: 'ER Physician',
+        specialty: 'Emergency Medicine',
+        location: { state: 'PA', city: 'Philadelphia', zipCode: '19104' },
+        endDate: new Date(2024, 5, 30),
+        duration: 26,
+      }))
+
+      const { taxes } = result.breakdown
+      expectCloseTo(taxes.local.toNumber(), result.totals.grossAnnualPay.mul(0.0375).toNumber())
+      expect(taxes.localJurisdictions).toHaveLength(1)
+      expectCloseTo(
+        taxes.total.toNumber(),
+        taxes.federal.add(taxes.state).add(taxes.socialSecurity).add(taxes.medicare)
+          .add(taxes.stateDisability).add(taxes.local).toNumber()
+      )
+    })
+
+    it('uses the residence for nonresident contracts', async () => {
+      const engine = new ContractCalculationEngine()
+      const result = await engine.calculateContract(contractInput({
+        title: 'Hospitalist',
+        specialty: 'Internal Medicine',
+        location: { state: 'MI', city: 'Detroit', zipCode: '48201' },
+        endDate: new Date(2024, 5, 30),
+        duration: 26,
+        hourlyRate: 150,
+        taxInfo: {
+          isResident: false,
+          residence: { state: 'MI', city: 'Ann Arbor' },
+        },
+      }))
+
+      expectCloseTo(
+        result.breakdown.taxes.local.toNumber(),
+        result.totals.grossAnnualPay.mul(0.012).toNumber()
+      )
+    })
+
+    it('withholds local tax from paychecks', async () => {
+      const engine = new PaycheckCalculationEngine()
+      const result = await engine.calculatePaycheck(paycheckInput({
+        grossPay: 8000,
+        payDate: new Date(2024, 2, 15),
+        workState: 'MI',
+        residenceState: 'MI',
+        workCity: 'Detroit',
+        residenceCity: 'Ann Arbor',
+      }))
+
+      expectCloseTo(result.taxes.local.toNumber(), 96)
+      expect(result.currentPay.totalTaxes.gte(result.taxes.local)).toBe(true)
+    })
+  })
+})
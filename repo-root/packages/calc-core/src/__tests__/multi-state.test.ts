@@ -0,0 +1,178 @@
+import { Decimal } from 'decimal.js'
+import { TaxCalculator } from '../engines/tax-calculator'
+import { MultiStateTaxCalculator } from '../engines/multi-state'
+import { ContractCalculationEngine } from '../engines/contract'
+import { USState } from '../types'
+import { contractInput } from './fixtures'
+import { expectCloseTo } from './setup'
+
+describe('Multi-State Tax Apportionment', () => {
+  const taxCalculator = new TaxCalculator()
+  const calculator = new MultiStateTaxCalculator(taxCalculator)
+  const income = new Decimal(300000)
+
+  const residentTax = (state: USState) =>
+    taxCalculator.calculateStateIncomeTax(income, state, 'SINGLE', { taxYear: 2024 })
+
+  it('apportions wages for a no-tax home state across three assignments', () => {
+    const result = calculator.calculate({
+      grossIncome: income,
+      homeState: 'TX',
+      filingStatus: 'SINGLE',
+      taxYear: 2024,
+      workStates: [
+        { state: 'CA', units: 91 },
+        { state: 'NV', units: 91 },
+        { state: 'WA', units: 91 },
+      ],
+    })
+
+    const california = result.states.find(state => state.state === 'CA')!
+    expectCloseTo(california.apportionment.toNumber(), 100 / 3)
+    expectCloseTo(california.sourcedIncome.toNumber(), 100000)
+    expectCloseTo(california.tax.toNumber(), residentTax('CA').div(3).toNumber())
+
+    const texas = result.states[0]
+    expect(texas.state).toBe('TX')
+    expect(texas.isResident).toBe(true)
+    expect(texas.tax.toNumber()).toBe(0)
+
+    expectCloseTo(result.stateTax.toNumber(), california.tax.toNumber())
+  })
+
+  it('credits the home state for tax paid to other states', () => {
+    const result = calculator.calculate({
+      grossIncome: income,
+      homeState: 'CA',
+      filingStatus: 'SINGLE',
+      taxYear: 2024,
+      workStates: [
+        { state: 'CA', units: 100 },
+        { state: 'OR', units: 100 },
+      ],
+    })
+
+    const [california, oregon] = result.states
+    const oregonTax = residentTax('OR').div(2)
+    const creditLimit = residentTax('CA').div(2)
+
+    expectCloseTo(oregon.tax.toNumber(), oregonTax.toNumber())
+    expectCloseTo(california.residentCredit.toNumber(), Decimal.min(oregonTax, creditLimit).toNumber())
+    expectCloseTo(
+      california.tax.toNumber(),
+      residentTax('CA').minus(california.residentCredit).toNumber()
+    )
+  })
+
+  it('never credits more than the home-state tax', () => {
+    const result = calculator.calculate({
+      grossIncome: income,
+      homeState: 'PA',
+      filingStatus: 'SINGLE',
+      taxYear: 2024,
+      workStates: [{ state: 'CA', units: 10 }],
+    })
+
+    const [pennsylvania] = result.states
+    expect(pennsylvania.tax.toNumber()).toBe(0)
+    expect(pennsylvania.residentCredit.lte(pennsylvania.taxBeforeCredits)).toBe(true)
+  })
+
+  it('exempts work states with a reciprocal agreement', () => {
+    const result = calculator.calculate({
+      grossIncome: income,
+      homeState: 'PA',
+      filingStatus: 'SINGLE',
+      taxYear: 2024,
+      workStates: [{ state: 'NJ', units: 120 }],
+    })
+
+    const [pennsylvania, newJersey] = result.states
+    expect(newJersey.reciprocal).toBe(true)
+    expect(newJersey.tax.toNumber()).toBe(0)
+    expectCloseTo(pennsylvania.tax.toNumber(), residentTax('PA').toNumber())
+  })
+
+  it('applies state disability insurance where the work is performed', () => {
+    const result = calculator.calculate({
+      grossIncome: income,
+      homeState: 'TX',
+      filingStatus: 'SINGLE',
+      taxYear: 2024,
+      workStates: [
+        { state: 'CA', units: 1 },
+        { state: 'TX', units: 1 },
+      ],
+    })
+
+    expectCloseTo(result.stateDisability.toNumber(), 150000 * 0.011)
+  })
+
+  it('rejects segments without days or hours', () => {
+    expect(() => calculator.calculate({
+      grossIncome: income,
+      homeState: 'TX',
+      filingStatus: 'SINGLE',
+      workStates: [{ state: 'CA', units: 0 }],
+    })).toThrow('Work-state segments must include days or hours worked')
+  })
+
+  describe('ContractCalculationEngine', () => {
+    const engine = new ContractCalculationEngine()
+    const contract = contractInput({
+      title: 'Anesthesiology Locum',
+      specialty: 'Anesthesiology',
+      location: { state: 'CA', city: 'Sacramento', zipCode: '95814' },
+      startDate: new Date(2024, 0, 8),
+      endDate: new Date(2024, 11, 20),
+      duration: 39,
+      hourlyRate: 250,
+    })
+
+    it('reports per-state liability when work states are supplied', async () => {
+      const result = await engine.calculateContract({
+        ...contract,
+        multiState: {
+          homeState: 'TX',
+          apportionBy: 'HOURS',
+          workStates: [
+            { state: 'CA', days: 0, hours: 520 },
+            { state: 'NV', days: 0, hours: 520 },
+            { state: 'WA', days: 0, hours: 520 },
+          ],
+        },
+      })
+
+      const { taxes } = result.breakdown
+      expect(taxes.byState).toHaveLength(4)
+      expectCloseTo(
+        taxes.state.toNumber(),
+        taxes.byState!.reduce((total, state) => total + state.tax.toNumber(), 0)
+      )
+      expectCloseTo(
+        taxes.total.toNumber(),
+        taxes.federal.add(taxes.state).add(taxes.socialSecurity).add(taxes.medicare)
+          .add(taxes.stateDisability).toNumber()
+      )
+    })
+
+    it('taxes less than a full-year California assignment', async () => {
+      const singleState = await engine.calculateContract(contract)
+      const multiState = await engine.calculateContract({
+        ...contract,
+        multiState: {
+          homeState: 'TX',
+          apportionBy: 'DAYS',
+          workStates: [
+            { state: 'CA', days: 91, hours: 0 },
+            { state: 'NV', days: 91, hours: 0 },
+            { state: 'WA', days: 91, hours: 0 },
+          ],
+        },
+      })
+
+      expect(singleState.breakdown.taxes.byState).toBeUndefined()
+      expect(multiState.breakdown.taxes.state.lt(singleState.breakdown.taxes.state)).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,184 @@
+import { PaycheckCalculationEngine } from '../engines/paycheck'
+import { PayEvent, PaySimulationInput } from '../types'
+import { expectCloseTo } from './setup'
+
+describe('Paycheck Simulation', () => {
+  const engine = new PaycheckCalculationEngine()
+
+  const simulate = (overrides: Partial<PaySimulationInput> = {}) =>
+    engine.simulateYear({
+      grossPay: 10000,
+      payFrequency: 'BI_WEEKLY',
+      firstPayDate: new Date(2025, 0, 3),
+      filingStatus: 'SINGLE',
+      workState: 'TX',
+      residenceState: 'TX',
+      ...overrides,
+    })
+
+  describe('pay schedule', () => {
+    it('produces every paycheck from the first pay date to the end of the year', async () => {
+      const result = await simulate()
+
+      expect(result.taxYear).toBe(2025)
+      expect(result.paychecks).toHaveLength(26)
+      expect(result.paychecks[25].payDate).toEqual(new Date(2025, 11, 19))
+      expect(result.totals.grossPay.toNumber()).toBe(260000)
+    })
+
+    it('pays semi-monthly on the 15th and the last day of the month', async () => {
+      const result = await simulate({ payFrequency: 'SEMI_MONTHLY', firstPayDate: new Date(2025, 1, 1) })
+
+      expect(result.paychecks).toHaveLength(22)
+      expect(result.paychecks.slice(0, 2).map(paycheck => paycheck.payDate)).toEqual([
+        new Date(2025, 1, 15),
+        new Date(2025, 1, 28),
+      ])
+    })
+  })
+
+  describe('payroll tax thresholds', () => {
+    it('stops Social Security on the paycheck that reaches the wage base', async () => {
+      const result = await simulate()
+      const socialSecurity = result.paychecks.map(paycheck => paycheck.taxes.socialSecurity.toNumber())
+
+      expect(socialSecurity[16]).toBe(620)
+      expectCloseTo(socialSecurity[17], (176100 - 170000) * 0.062)
+      expect(socialSecurity.slice(18).every(amount => amount === 0)).toBe(true)
+      expectCloseTo(result.totals.socialSecurity.toNumber(), 176100 * 0.062)
+      expect(result.paychecks[17].milestones).toEqual(['SOCIAL_SECURITY_WAGE_BASE'])
+      expect(result.milestones.SOCIAL_SECURITY_WAGE_BASE).toEqual(result.paychecks[17].payDate)
+    })
+
+    it('starts Additional Medicare once wages pass $200,000 whatever the filing status', async () => {
+      const result = await simulate({ filingStatus: 'MARRIED_FILING_JOINTLY' })
+      const additional = result.paychecks.map(paycheck => paycheck.taxes.additionalMedicare.toNumber())
+
+      expect(additional.slice(0, 20).every(amount => amount === 0)).toBe(true)
+      expect(additional[20]).toBe(90)
+      expect(result.paychecks[20].milestones).toContain('ADDITIONAL_MEDICARE')
+      expect(result.paychecks[20].taxes.medicare.toNumber()).toBe(235)
+      expect(result.totals.additionalMedicare.toNumber()).toBe(540)
+    })
+  })
+
+  describe('bonuses', () => {
+    it('withholds federal tax on bonuses at the supplemental rate', async () => {
+      const result = await simulate({
+        events: [{ type: 'BONUS', date: new Date(2025, 5, 20), amount: 20000, description: 'Retention' }],
+      })
+      const bonusIndex = result.paychecks.findIndex(paycheck => paycheck.kind === 'BONUS')
+      const bonus = result.paychecks[bonusIndex]
+
+      expect(result.paychecks).toHaveLength(27)
+      expect(result.paychecks[bonusIndex - 1]).toMatchObject({ kind: 'REGULAR', payDate: bonus.payDate })
+      expect(bonus.description).toBe('Retention')
+      expect(bonus.taxes.federal.toNumber()).toBe(4400)
+      expect(bonus.taxes.socialSecurity.toNumber()).toBe(1240)
+    })
+
+    it('applies the mandatory rate to supplemental wages over $1 million', async () => {
+      const result = await simulate({
+        events: [
+          { type: 'BONUS', date: new Date(2025, 2, 14), amount: 900000 },
+          { type: 'BONUS', date: new Date(2025, 11, 12), amount: 300000 },
+        ],
+      })
+      const bonuses = result.paychecks.filter(paycheck => paycheck.kind === 'BONUS')
+
+      expect(bonuses[0].taxes.federal.toNumber()).toBe(198000)
+      expect(bonuses[1].taxes.federal.toNumber()).toBe(100000 * 0.22 + 200000 * 0.37)
+    })
+
+    it('withholds state tax on bonuses with the aggregate method', async () => {
+      const result = await simulate({
+        workState: 'CA',
+        residenceState: 'CA',
+        events: [{ type: 'BONUS', date: new Date(2025, 5, 13), amount: 10000 }],
+      })
+      const bonus = result.paychecks.find(paycheck => paycheck.kind === 'BONUS')!
+      const regular = result.paychecks[0]
+
+      // Withheld as if the bonus were a second regular paycheck on top of the first
+      const doubled = await simulate({ grossPay: 20000, workState: 'CA', residenceState: 'CA' })
+      expectCloseTo(
+        bonus.taxes.state.toNumber(),
+        doubled.paychecks[0].taxes.state.minus(regular.taxes.state).toNumber()
+      )
+    })
+
+    it('leaves out 401(k) deferrals past the annual limit when aggregating', async () => {
+      const events: PayEvent[] = [{ type: 'BONUS', date: new Date(2025, 8, 5), amount: 10000 }]
+      const deferring = await simulate({ workState: 'CA', residenceState: 'CA', retirement401kPercent: 25, events })
+      const notDeferring = await simulate({ workState: 'CA', residenceState: 'CA', events })
+      const bonusState = (result: typeof deferring) =>
+        result.paychecks.find(paycheck => paycheck.kind === 'BONUS')!.taxes.state.toNumber()
+
+      // The limit is reached in May, so neither the September bonus nor the
+      // regular paycheck it is aggregated with defers anything
+      expect(bonusState(deferring)).toBe(bonusState(notDeferring))
+    })
+  })
+
+  describe('mid-year changes', () => {
+    it('applies rate and work state changes from the next pay date', async () => {
+      const result = await simulate({
+        events: [
+          { type: 'RATE_CHANGE', date: new Date(2025, 3, 1), grossPay: 12000 },
+          { type: 'WORK_STATE_CHANGE', date: new Date(2025, 3, 1), workState: 'CA' },
+        ],
+      })
+      const changed = result.paychecks.findIndex(paycheck => paycheck.changes.length > 0)
+
+      expect(result.paychecks[changed].payDate).toEqual(new Date(2025, 3, 11))
+      expect(result.paychecks[changed].changes).toEqual([
+        'Gross pay changed to $12,000.00 per paycheck',
+        'Work state changed to CA',
+      ])
+      expect(result.paychecks[changed - 1]).toMatchObject({ workState: 'TX' })
+      expect(result.paychecks[changed - 1].taxes.state.toNumber()).toBe(0)
+      expect(result.paychecks[changed].grossPay.toNumber()).toBe(12000)
+      expect(result.paychecks[changed].taxes.state.toNumber()).toBeGreaterThan(0)
+      expect(result.paychecks[changed].taxes.stateDisability.toNumber()).toBeGreaterThan(0)
+    })
+
+    it('stops 401(k) deferrals at the annual limit without reducing FICA wages', async () => {
+      const result = await simulate({ retirement401kPercent: 25 })
+      const deferrals = result.paychecks.map(paycheck => paycheck.deductions.retirement401k.toNumber())
+
+      expect(deferrals[0]).toBe(2500)
+      expect(deferrals[9]).toBe(1000)
+      expect(deferrals.slice(10).every(amount => amount === 0)).toBe(true)
+      expect(result.totals.retirement401k.toNumber()).toBe(23500)
+      expect(result.milestones.RETIREMENT_LIMIT).toEqual(result.paychecks[9].payDate)
+      expect(result.paychecks[0].taxes.socialSecurity.toNumber()).toBe(620)
+    })
+
+    it('lowers federal withholding after a 401(k) increase', async () => {
+      const result = await simulate({
+        events: [{ type: 'RETIREMENT_CHANGE', date: new Date(2025, 6, 1), retirement401kPercent: 10 }],
+      })
+      const changed = result.paychecks.findIndex(paycheck => paycheck.changes.length > 0)
+
+      expect(result.paychecks[changed].changes).toEqual(['401(k) contribution changed to 10%'])
+      expect(result.paychecks[changed].deductions.retirement401k.toNumber()).toBe(1000)
+      expect(result.paychecks[changed].taxes.federal.lt(result.paychecks[0].taxes.federal)).toBe(true)
+    })
+  })
+
+  it('adds up each paycheck to the year-to-date and annual totals', async () => {
+    const result = await simulate({
+      preTaxDeductions: 300,
+      rothDeductions: 200,
+      events: [{ type: 'BONUS', date: new Date(2025, 5, 13), amount: 20000 }],
+    })
+    const last = result.paychecks[result.paychecks.length - 1]
+
+    expect(last.ytd.grossPay.toNumber()).toBe(280000)
+    expect(last.ytd.netPay.toNumber()).toBeCloseTo(result.totals.netPay.toNumber(), 6)
+    expect(
+      result.totals.netPay.add(result.totals.totalTaxes).add(result.totals.totalDeductions).toNumber()
+    ).toBeCloseTo(280000, 6)
+    expect(result.paychecks.find(paycheck => paycheck.kind === 'BONUS')!.deductions.total.toNumber()).toBe(0)
+  })
+})
@@ -0,0 +1,285 @@
+import { deflateSync } from 'zlib'
+import { PaycheckCalculationEngine } from '../engines/paycheck'
+import { PayStubImporter, parsePayStubCsv, parsePayStubText } from '../engines/pay-stub'
+import { extractPdfText } from '../engines/pdf-text'
+import { PaycheckInput } from '../types'
+
+// A one-page PDF drawn upside down the way many report writers do, with a
+// Helvetica font and a font that needs its ToUnicode map
+const buildPdf = (content: string) => {
+  const stream = deflateSync(Buffer.from(content, 'latin1'))
+  const cmap = [
+    '/CIDInit /ProcSet findresource begin 12 dict begin begincmap',
+    '1 begincodespacerange <0000> <FFFF> endcodespacerange',
+    '5 beginbfchar <0001> <0043> <0002> <0041> <0003> <0020> <0004> <0053> <0005> <0044> endbfchar',
+    '1 beginbfrange <0006> <0006> <0049> endbfrange',
+    'endcmap end end',
+  ].join('\n')
+
+  const parts: Array<string | Buffer> = [
+    '%PDF-1.7\n',
+    '1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj\n',
+    '2 0 obj << /Type /Pages /Kids [3 0 R] /Count 1 /Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> >> endobj\n',
+    '3 0 obj << /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 6 0 R >> endobj\n',
+    '4 0 obj << /Type /Font /Subtype /Type1 /BaseFont /Helvetica >> endobj\n',
+    '5 0 obj << /Type /Font /Subtype /Type0 /BaseFont /Arial /ToUnicode 7 0 R >> endobj\n',
+    `6 0 obj << /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`,
+    stream,
+    '\nendstream\nendobj\n',
+    `7 0 obj << /Length ${cmap.length} >>\nstream\n${cmap}\nendstream\nendobj\n`,
+    'trailer << /Root 1 0 R >>\n%%EOF\n',
+  ]
+  return new Uint8Array(Buffer.concat(parts.map(part => typeof part === 'string' ? Buffer.from(part, 'latin1') : part)))
+}
+
+// Amounts are drawn before their labels, as column-by-column layouts do
+const STUB_CONTENT = [
+  '1 0 0 -1 0 792 cm',
+  'BT /F1 10 Tf',
+  '1 0 0 -1 400 100 Tm (4,000.00) Tj 1 0 0 -1 480 100 Tm (24,000.00) Tj',
+  '1 0 0 -1 400 115 Tm (\\(300.00\\)) Tj 1 0 0 -1 480 115 Tm (\\(1,800.00\\)) Tj',
+  '1 0 0 -1 400 130 Tm (48.00) Tj',
+  '1 0 0 -1 50 70 Tm (Pay Date: 03/14/2025) Tj',
+  '1 0 0 -1 50 80 Tm (Pay Period: 03/01/2025 - 03/14/2025) Tj',
+  '1 0 0 -1 50 100 Tm (Gross Pay) Tj',
+  '1 0 0 -1 50 115 Tm [(Federal) -300 (Income Tax)] TJ',
+  'ET',
+  'BT /F2 10 Tf 1 0 0 -1 50 130 Tm <000100020003000400050006> Tj ET',
+].join('\n')
+
+describe('Pay Stub Import', () => {
+  describe('PDF text', () => {
+    it('reads rows top to bottom whatever order they were drawn in', async () => {
+      const text = await extractPdfText(buildPdf(STUB_CONTENT))
+
+      expect(text.split('\n')).toEqual([
+        'Pay Date: 03/14/2025',
+        'Pay Period: 03/01/2025 - 03/14/2025',
+        'Gross Pay 4,000.00 24,000.00',
+        'Federal Income Tax (300.00) (1,800.00)',
+        'CA SDI 48.00',
+      ])
+    })
+
+    it('imports a PDF pay stub', async () => {
+      const stub = await new PayStubImporter().parse({ name: 'stub.pdf', data: buildPdf(STUB_CONTENT) })
+
+      expect(stub).toMatchObject({
+        format: 'PDF',
+        payDate: new Date(2025, 2, 14),
+        payFrequency: 'BI_WEEKLY',
+      })
+      expect(stub.lines).toEqual([
+        { label: 'Gross Pay', kind: 'GROSS', current: 4000, ytd: 24000 },
+        { label: 'Federal Income Tax', kind: 'FEDERAL', current: 300, ytd: 1800 },
+        { label: 'CA SDI', kind: 'STATE_DISABILITY', current: 48, state: 'CA' },
+      ])
+    })
+
+    it('rejects PDFs without a text layer', async () => {
+      await expect(new PayStubImporter().parse({ name: 'scan.pdf', data: buildPdf('q 612 0 0 792 0 0 cm Q') }))
+        .rejects.toThrow('Scanned pay stubs')
+    })
+  })
+
+  describe('parsing', () => {
+    it('splits side-by-side columns and reads the stub details', () => {
+      const stub = parsePayStubText([
+        'Acme Staffing LLC   Check Date: 01/17/2025',
+        'Period Beginning: 01/01/2025   Period Ending: 01/15/2025',
+        'Federal Filing Status: Married',
+        'Earnings Rate Hours Current YTD     Deductions Current YTD',
+        'Regular 150.0000 48.00 7,200.00 7,200.00     401(k) 360.00 360.00',
+        'Housing Stipend 1,000.00 1,000.00     Dental Pre-Tax 12.50 12.50',
+        'Gross Pay $8,200.00 $8,200.00     Roth 401(k) 100.00 100.00',
+        'Social Security -446.40 -446.40     OR State Income Tax -400.00 -400.00',
+        'Parking Fine 25.00 25.00',
+      ].join('\n'))
+
+      expect(stub).toMatchObject({
+        payDate: new Date(2025, 0, 17),
+        periodStart: new Date(2025, 0, 1),
+        periodEnd: new Date(2025, 0, 15),
+        payFrequency: 'SEMI_MONTHLY',
+        filingStatus: 'MARRIED_FILING_JOINTLY',
+      })
+      expect(stub.lines.map(line => [line.label, line.kind, line.current])).toEqual([
+        ['Regular', 'EARNINGS', 7200],
+        ['401(k)', 'RETIREMENT', 360],
+        ['Housing Stipend', 'REIMBURSEMENT', 1000],
+        ['Dental Pre-Tax', 'PRE_TAX', 12.5],
+        ['Gross Pay', 'GROSS', 8200],
+        ['Roth 401(k)', 'ROTH', 100],
+        ['Social Security', 'SOCIAL_SECURITY', 446.4],
+        ['OR State Income Tax', 'STATE', 400],
+        ['Parking Fine', 'PRE_TAX', 25],
+      ])
+      expect(stub.lines.find(line => line.kind === 'STATE')!.state).toBe('OR')
+    })
+
+    it('reads a CSV with one row per line item', () => {
+      const stub = parsePayStubCsv([
+        'Pay Date,02/14/2025',
+        'Pay Frequency,Bi-Weekly',
+        'Work State,AZ',
+        'Category,Description,Current,YTD',
+        'Earnings,Regular,"5,000.00","20,000.00"',
+        'Taxes,Fed Income Tax,512.34,"2,049.36"',
+        'Taxes,State Income Tax,125.00,500.00',
+        'Deductions,Uniform Fee,20.00,80.00',
+        'Taxes,Widget Surcharge,1.00,4.00',
+      ].join('\n'))
+
+      expect(stub).toMatchObject({ format: 'CSV', payDate: new Date(2025, 1, 14), payFrequency: 'BI_WEEKLY', workState: 'AZ' })
+      expect(stub.lines).toEqual([
+        { label: 'Regular', kind: 'EARNINGS', current: 5000, ytd: 20000 },
+        { label: 'Fed Income Tax', kind: 'FEDERAL', current: 512.34, ytd: 2049.36 },
+        { label: 'State Income Tax', kind: 'STATE', current: 125, ytd: 500, state: 'AZ' },
+        { label: 'Uniform Fee', kind: 'AFTER_TAX', current: 20, ytd: 80 },
+      ])
+      expect(stub.unrecognized).toEqual(['Widget Surcharge'])
+    })
+
+    it('reads the latest paycheck from a payroll report CSV', () => {
+      const stub = parsePayStubCsv([
+        'Check Date,Gross Pay,Federal Income Tax,Social Security,Medicare,Net Pay',
+        '01/10/2025,"4,000.00",400.00,248.00,58.00,"3,294.00"',
+        '12/27/2024,"4,000.00",400.00,248.00,58.00,"3,294.00"',
+        '01/24/2025,"4,500.00",480.00,279.00,65.25,"3,675.75"',
+      ].join('\n'))
+
+      expect(stub.payDate).toEqual(new Date(2025, 0, 24))
+      expect(stub.lines.map(line => [line.kind, line.current, line.ytd])).toEqual([
+        ['GROSS', 4500, 8500],
+        ['FEDERAL', 480, 880],
+        ['SOCIAL_SECURITY', 279, 527],
+        ['MEDICARE', 65.25, 123.25],
+        ['NET', 3675.75, 6969.75],
+      ])
+    })
+
+    it('rejects CSVs that are not pay stubs', () => {
+      expect(() => parsePayStubCsv('name,state\nDallas,TX')).toThrow('Pay stub CSV needs')
+    })
+  })
+
+  describe('reconciliation', () => {
+    const engine = new PaycheckCalculationEngine()
+    const importer = new PayStubImporter(engine)
+
+    const input: PaycheckInput = {
+      grossPay: 8000,
+      payFrequency: 'BI_WEEKLY',
+      payDate: new Date(2025, 2, 14),
+      filingStatus: 'SINGLE',
+      exemptions: 0,
+      workState: 'CA',
+      residenceState: 'CA',
+      ytdGross: 0,
+      ytdFederalTax: 0,
+      ytdStateTax: 0,
+      ytdSocialSecurity: 0,
+      ytdMedicare: 0,
+      ytdStateDisability: 0,
+      preTaxDeductions: 600,
+      rothDeductions: 0,
+      afterTaxDeductions: 0,
+      additionalFederalWithholding: 0,
+      additionalStateWithholding: 0,
+    }
+
+    // A correct stub: FICA and SDI wages keep the $500 401(k) deferral
+    const correctStub = async (overrides: Record<string, number> = {}) => {
+      const income = await engine.calculatePaycheck(input)
+      const payroll = await engine.calculatePaycheck({ ...input, preTaxDeductions: 100 })
+      const amounts: Record<string, number> = {
+        'Federal Income Tax': income.taxes.federal.toNumber(),
+        'CA State Income Tax': income.taxes.state.toNumber(),
+        'Social Security': payroll.taxes.socialSecurity.toNumber(),
+        'Medicare': payroll.taxes.medicare.toNumber(),
+        'CA SDI': payroll.taxes.stateDisability.toNumber(),
+        '401(k)': 500,
+        'Medical': 100,
+        ...overrides,
+      }
+      const rounded = Object.fromEntries(Object.entries(amounts).map(([label, amount]) => [label, Math.round(amount * 100) / 100]))
+      const net = Object.values(rounded).reduce((remaining, amount) => remaining - amount, 8000)
+
+      return parsePayStubCsv([
+        'Pay Date,03/14/2025',
+        'Pay Frequency,Biweekly',
+        'Description,Amount',
+        'Gross Pay,8000.00',
+        ...Object.entries(rounded).map(([label, amount]) => `${label},${amount.toFixed(2)}`),
+        `Net Pay,${net.toFixed(2)}`,
+      ].join('\n'))
+    }
+
+    it('turns the stub into calculator input', async () => {
+      expect(importer.toPaycheckInput(await correctStub())).toMatchObject({
+        grossPay: 8000,
+        payFrequency: 'BI_WEEKLY',
+        payDate: new Date(2025, 2, 14),
+        workState: 'CA',
+        residenceState: 'CA',
+        preTaxDeductions: 600,
+      })
+    })
+
+    it('reconciles a stub withheld the way the calculator would', async () => {
+      const reconciliation = await importer.reconcile(await correctStub())
+
+      expect(reconciliation.discrepancies).toEqual([])
+      expect(reconciliation.reconciled).toBe(true)
+    })
+
+    it('flags state tax withheld for the wrong state', async () => {
+      const reconciliation = await importer.reconcile(await correctStub(), { workState: 'TX', residenceState: 'TX' })
+      const state = reconciliation.discrepancies.find(discrepancy => discrepancy.check === 'STATE')!
+
+      expect(reconciliation.reconciled).toBe(false)
+      expect(state.severity).toBe('ERROR')
+      expect(state.message).toContain('withheld for CA, but you work in TX')
+      expect(state.expectedAmount.toNumber()).toBe(0)
+    })
+
+    it('flags missing state withholding', async () => {
+      const stub = await correctStub()
+      stub.lines = stub.lines.filter(line => line.kind !== 'STATE')
+      const reconciliation = await importer.reconcile(stub, { workState: 'CA' })
+
+      expect(reconciliation.discrepancies.map(discrepancy => discrepancy.check)).toEqual(['NET_PAY', 'STATE'])
+      expect(reconciliation.discrepancies[1].message).toContain('No CA income tax was withheld')
+    })
+
+    it('flags payroll taxes that are off and net pay that does not add up', async () => {
+      const stub = await correctStub()
+      stub.lines.find(line => line.kind === 'SOCIAL_SECURITY')!.current += 20
+      const reconciliation = await importer.reconcile(stub)
+
+      expect(reconciliation.discrepancies.map(discrepancy => [discrepancy.check, discrepancy.severity])).toEqual([
+        ['NET_PAY', 'ERROR'],
+        ['SOCIAL_SECURITY', 'ERROR'],
+      ])
+    })
+
+    it('only warns about federal withholding that may come from the Form W-4', async () => {
+      const income = await engine.calculatePaycheck(input)
+      const reconciliation = await importer.reconcile(
+        await correctStub({ 'Federal Income Tax': income.taxes.federal.toNumber() + 150 })
+      )
+
+      expect(reconciliation.reconciled).toBe(true)
+      expect(reconciliation.discrepancies).toHaveLength(1)
+      expect(reconciliation.discrepancies[0]).toMatchObject({ check: 'FEDERAL', severity: 'WARNING' })
+      expect(reconciliation.discrepancies[0].message).toContain('is more than')
+    })
+
+    it('needs gross pay to calculate from', async () => {
+      const stub = parsePayStubText('Pay Date: 03/14/2025\nFederal Income Tax 300.00')
+
+      expect(() => importer.toPaycheckInput(stub, { payFrequency: 'WEEKLY', workState: 'TX' }))
+        .toThrow('Could not find gross pay')
+    })
+  })
+})
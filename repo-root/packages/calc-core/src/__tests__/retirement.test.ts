@@ -0,0 +1,194 @@
+import { Decimal } from 'decimal.js'
+import { RetirementPlanInput, RetirementPlanner } from '../engines/retirement'
+import { TaxCalculator } from '../engines/tax-calculator'
+import { ContractCalculationEngine } from '../engines/contract'
+import { RetirementInput, RetirementPlan, USState, WorkerClassification } from '../types'
+import { ContractOverrides, contractInput } from './fixtures'
+import { expectCloseTo } from './setup'
+
+describe('Retirement Planner', () => {
+  const taxCalculator = new TaxCalculator()
+  const planner = new RetirementPlanner(taxCalculator)
+
+  const contributions = (overrides: Partial<RetirementInput> = {}): RetirementInput => ({
+    electiveDeferral: 0,
+    rothPercent: 0,
+    employerContribution: 0,
+    sepIra: 0,
+    hsa: 0,
+    hsaCoverage: 'SELF',
+    priorDeferrals: 0,
+    ...overrides,
+  })
+
+  const input = (overrides: Partial<RetirementInput> = {}, taxYear = 2025): RetirementPlanInput => ({
+    workerClassification: 'W2',
+    compensation: new Decimal(200000),
+    filingStatus: 'SINGLE',
+    taxYear,
+    contributions: contributions(overrides),
+  })
+
+  describe('getLimits', () => {
+    it('applies age-based catch-up contributions', () => {
+      expect(planner.getLimits(input({ age: 45 })).electiveDeferral.toNumber()).toBe(23500)
+      expect(planner.getLimits(input({ age: 52 })).electiveDeferral.toNumber()).toBe(31000)
+      expect(planner.getLimits(input({ age: 61 })).electiveDeferral.toNumber()).toBe(34750)
+      expect(planner.getLimits(input({ age: 61 }, 2024)).electiveDeferral.toNumber()).toBe(30500)
+    })
+
+    it('reduces the deferral limit by deferrals to other plans', () => {
+      expect(planner.getLimits(input({ priorDeferrals: 10000 })).electiveDeferral.toNumber()).toBe(13500)
+    })
+
+    it('applies HSA coverage and the 55+ catch-up', () => {
+      expect(planner.getLimits(input()).hsa.toNumber()).toBe(4300)
+      expect(planner.getLimits(input({ hsaCoverage: 'FAMILY', age: 56 })).hsa.toNumber()).toBe(9550)
+    })
+
+    it('limits employer contributions to 20% of net self-employment earnings', () => {
+      const limits = planner.getLimits({ ...input(), workerClassification: '1099' })
+      expectCloseTo(limits.employerContribution.toNumber(), (200000 - 13596.35) * 0.2)
+      expect(planner.getLimits(input()).employerContribution.toNumber()).toBe(0)
+    })
+  })
+
+  describe('plan', () => {
+    it('caps elective deferrals at the annual limit', () => {
+      const plan = planner.plan(input({ electiveDeferral: 30000, age: 40 }))
+      expect(plan.preTaxDeferral.toNumber()).toBe(23500)
+      expect(plan.warnings[0]).toContain('401(k) elective deferral reduced')
+    })
+
+    it('splits deferrals between pre-tax and Roth', () => {
+      const plan = planner.plan(input({ electiveDeferral: 20000, rothPercent: 25, hsa: 3000 }))
+      expect(plan.preTaxDeferral.toNumber()).toBe(15000)
+      expect(plan.rothDeferral.toNumber()).toBe(5000)
+      expect(plan.preTaxTotal.toNumber()).toBe(18000)
+      expect(plan.total.toNumber()).toBe(23000)
+    })
+
+    it('requires Roth catch-up contributions for high earners from 2026', () => {
+      const plan = planner.plan(input({ electiveDeferral: 32500, age: 55 }, 2026))
+      expect(plan.rothDeferral.toNumber()).toBe(8000)
+      expect(plan.preTaxDeferral.toNumber()).toBe(24500)
+      expect(plan.warnings[0]).toContain('must be Roth')
+    })
+
+    it('rejects employer contributions on W-2 wages', () => {
+      const plan = planner.plan(input({ sepIra: 10000 }))
+      expect(plan.sepIra.toNumber()).toBe(0)
+      expect(plan.warnings[0]).toContain('require 1099')
+    })
+
+    it('caps Solo 401(k) and SEP-IRA contributions for contractors', () => {
+      const plan = planner.plan({
+        ...input({ electiveDeferral: 23500, employerContribution: 30000, sepIra: 30000 }),
+        workerClassification: '1099',
+      })
+      const employerLimit = (200000 - 13596.35) * 0.2
+
+      expect(plan.preTaxDeferral.toNumber()).toBe(23500)
+      expectCloseTo(plan.employerContribution.toNumber(), 30000)
+      expectCloseTo(plan.sepIra.toNumber(), employerLimit - 30000)
+      expect(plan.warnings[0]).toContain('Employer contributions reduced')
+    })
+  })
+
+  describe('tax effects', () => {
+    const taxes = (plan: RetirementPlan | undefined, state: USState = 'TX', workerClassification: WorkerClassification = 'W2') =>
+      taxCalculator.calculateAnnualTaxes({
+        grossIncome: new Decimal(200000),
+        state,
+        filingStatus: 'SINGLE',
+        exemptions: 0,
+        isResident: true,
+        taxYear: 2024,
+        workerClassification,
+        retirement: plan,
+      })
+
+    it('excludes pre-tax deferrals from income tax but not FICA', async () => {
+      const plan = planner.plan(input({ electiveDeferral: 23000 }, 2024))
+      const [without, withDeferral] = await Promise.all([taxes(undefined), taxes(plan)])
+
+      expectCloseTo(without.federal.minus(withDeferral.federal).toNumber(), 23000 * 0.24)
+      expect(withDeferral.socialSecurity.eq(without.socialSecurity)).toBe(true)
+    })
+
+    it('does not reduce taxes for Roth deferrals', async () => {
+      const plan = planner.plan(input({ electiveDeferral: 23000, rothPercent: 100 }, 2024))
+      const [without, roth] = await Promise.all([taxes(undefined), taxes(plan)])
+      expect(roth.total.eq(without.total)).toBe(true)
+    })
+
+    it('excludes payroll HSA contributions from FICA wages', async () => {
+      const plan = planner.plan(input({ hsa: 4150 }, 2024))
+      const [without, withHsa] = await Promise.all([taxes(undefined), taxes(plan)])
+      expectCloseTo(without.medicare.minus(withHsa.medicare).toNumber(), 4150 * 0.0145)
+    })
+
+    it('adds back contributions in states that tax them', async () => {
+      const deferral = planner.plan(input({ electiveDeferral: 23000 }, 2024))
+      const hsa = planner.plan(input({ hsa: 4150 }, 2024))
+
+      expect((await taxes(deferral, 'PA')).state.eq((await taxes(undefined, 'PA')).state)).toBe(true)
+      expect((await taxes(hsa, 'CA')).state.eq((await taxes(undefined, 'CA')).state)).toBe(true)
+      expect((await taxes(deferral, 'CA')).state.lt((await taxes(undefined, 'CA')).state)).toBe(true)
+    })
+
+    it('deducts self-employed plan contributions from AGI and QBI', async () => {
+      const plan = planner.plan({
+        ...input({ electiveDeferral: 23000, employerContribution: 20000 }, 2024),
+        workerClassification: '1099',
+      })
+      const [without, withPlan] = await Promise.all([
+        taxes(undefined, 'TX', '1099'),
+        taxes(plan, 'TX', '1099'),
+      ])
+
+      expectCloseTo(
+        without.adjustedGrossIncome.minus(withPlan.adjustedGrossIncome).toNumber(),
+        43000
+      )
+      expect(withPlan.selfEmployment!.qualifiedBusinessIncome.lt(without.selfEmployment!.qualifiedBusinessIncome)).toBe(true)
+      expect(withPlan.selfEmployment!.total.eq(without.selfEmployment!.total)).toBe(true)
+    })
+  })
+
+  describe('ContractCalculationEngine', () => {
+    const engine = new ContractCalculationEngine()
+    const contract = (overrides: ContractOverrides = {}) => contractInput({
+      title: 'Hospitalist',
+      specialty: 'Internal Medicine',
+      startDate: new Date(2024, 0, 8),
+      endDate: new Date(2024, 9, 11),
+      duration: 40,
+      hourlyRate: 150,
+      ...overrides,
+    })
+
+    it('caps the legacy weekly 401(k) deduction', async () => {
+      const result = await engine.calculateContract(contract({
+        deductions: { retirement401k: 1000 },
+      }))
+
+      expect(result.breakdown.deductions.retirement401k.toNumber()).toBe(23000)
+      expect(result.breakdown.retirement!.warnings).toHaveLength(1)
+    })
+
+    it('includes retirement and HSA contributions in net pay', async () => {
+      const result = await engine.calculateContract(contract({
+        retirement: contributions({ electiveDeferral: 15000, rothPercent: 50, hsa: 4000 }),
+      }))
+      const { deductions, taxes } = result.breakdown
+
+      expect(deductions.retirement401k.toNumber()).toBe(15000)
+      expect(deductions.hsa.toNumber()).toBe(4000)
+      expectCloseTo(
+        result.totals.netAnnualPay.toNumber(),
+        result.totals.grossAnnualPay.minus(deductions.total).minus(taxes.total).toNumber()
+      )
+    })
+  })
+})
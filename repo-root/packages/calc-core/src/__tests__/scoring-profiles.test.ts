@@ -0,0 +1,87 @@
+import { ContractComparisonEngine } from '../engines/comparison'
+import { ContractCalculationEngine } from '../engines/contract'
+import { SCORING_PROFILES } from '../engines/scoring-profiles'
+import { ContractCalculationResult, ScoringProfileSchema } from '../types'
+import { ContractOverrides, contractInput } from './fixtures'
+
+describe('Scoring Profiles', () => {
+  const engine = new ContractComparisonEngine()
+
+  const contract = (overrides: ContractOverrides = {}) => contractInput({
+    title: 'Hospitalist',
+    specialty: 'Internal Medicine',
+    location: { state: 'TX', city: 'Houston', zipCode: '77002' },
+    startDate: new Date(2025, 0, 6),
+    endDate: new Date(2025, 3, 7),
+    duration: 13,
+    hourlyRate: 150,
+    ...overrides,
+  })
+
+  const highPay = contract({ title: 'San Francisco', hourlyRate: 260, location: { state: 'CA', city: 'San Francisco', zipCode: '94102' } })
+  const affordable = contract({ title: 'Des Moines', hourlyRate: 170, location: { state: 'IA', city: 'Des Moines', zipCode: '50309' } })
+
+  it('returns a per-factor score breakdown for each contract', async () => {
+    const result = await engine.compareContracts([highPay, affordable])
+
+    expect(result.profile.id).toBe('balanced')
+    expect(result.scores).toHaveLength(2)
+    result.scores.forEach(score => {
+      const weights = score.factors.reduce((total, factor) => total + factor.weight, 0)
+      const contributions = score.factors.reduce((total, factor) => total + factor.contribution, 0)
+      expect(weights).toBeCloseTo(1)
+      expect(score.total).toBe(Math.round(contributions))
+    })
+    expect(result.scores[0].factors.map(factor => factor.factor)).toEqual(
+      ['netPay', 'hourlyRate', 'benefits', 'taxEfficiency', 'location']
+    )
+  })
+
+  it('changes the best contract with the profile', async () => {
+    const maxNetPay = await engine.compareContracts([highPay, affordable], SCORING_PROFILES['max-net-pay'])
+    const familyFriendly = await engine.compareContracts([highPay, affordable], SCORING_PROFILES['family-friendly'])
+
+    expect(maxNetPay.comparison.bestOverall).toBe(0)
+    expect(familyFriendly.comparison.bestOverall).toBe(1)
+  })
+
+  it('explains the recommendation in terms of the profile', async () => {
+    const result = await engine.compareContracts([highPay, affordable], SCORING_PROFILES['family-friendly'])
+
+    expect(result.recommendations[0]).toContain('Contract 2 (Des Moines) ranks first under the "Family friendly" profile')
+    expect(result.recommendations[0]).toContain('cost of living')
+  })
+
+  it('accepts custom profiles with partial weights', async () => {
+    const profile = { name: 'Rate only', weights: { hourlyRate: 1 } }
+    const result = await engine.compareContracts([affordable, highPay], profile)
+
+    expect(result.profile.weights.netPay).toBe(0)
+    expect(result.scores[1].factors).toHaveLength(1)
+    expect(result.comparison.bestOverall).toBe(1)
+  })
+
+  it('scores the commute from the distance to the tax home', async () => {
+    const calculator = new ContractCalculationEngine()
+    const taxHome = (distanceMiles: number) =>
+      ({ state: 'TX', distanceMiles, worksNearHome: true, maintainsHome: true, returnsHome: true } as const)
+    const near = await calculator.calculateContract(contract({ taxHome: taxHome(50) }))
+    const far = await calculator.calculateContract(contract({ taxHome: taxHome(400) }))
+    const profile = SCORING_PROFILES['short-commute']
+
+    const commute = (calc: ContractCalculationResult) => engine.scoreContract(calc, profile).factors.find(factor => factor.factor === 'commute')!.score
+    expect(commute(near)).toBe(90)
+    expect(commute(far)).toBe(20)
+  })
+
+  it('ranks contracts overall using the profile', async () => {
+    const calculator = new ContractCalculationEngine()
+    const calculations = await Promise.all([highPay, affordable].map(input => calculator.calculateContract(input)))
+
+    expect(engine.rankContracts(calculations, 'overall', SCORING_PROFILES['family-friendly']).ranking).toEqual([1, 0])
+  })
+
+  it('rejects profiles without any weight', () => {
+    expect(() => ScoringProfileSchema.parse({ name: 'Empty', weights: {} })).toThrow('At least one factor must have a weight')
+  })
+})
@@ -0,0 +1,162 @@
+import { Decimal } from 'decimal.js'
+import { TaxCalculator } from '../engines/tax-calculator'
+import { ContractCalculationEngine } from '../engines/contract'
+import { USState } from '../types'
+import { contractInput } from './fixtures'
+import { expectCloseTo } from './setup'
+
+describe('1099 Self-Employment Taxes', () => {
+  const taxCalculator = new TaxCalculator()
+
+  const calculate1099 = (grossIncome: number, businessExpenses = 0, state: USState = 'TX') =>
+    taxCalculator.calculateAnnualTaxes({
+      grossIncome: new Decimal(grossIncome),
+      state,
+      filingStatus: 'SINGLE',
+      exemptions: 0,
+      isResident: true,
+      taxYear: 2024,
+      workerClassification: '1099',
+      businessExpenses: new Decimal(businessExpenses),
+    })
+
+  describe('calculateSelfEmploymentTax', () => {
+    it('taxes 92.35% of net profit at both FICA shares', () => {
+      const result = taxCalculator.calculateSelfEmploymentTax(new Decimal(150000), 'SINGLE', 2024)
+      expectCloseTo(result.netEarnings.toNumber(), 138525)
+      expectCloseTo(result.socialSecurity.toNumber(), 17177.1)
+      expectCloseTo(result.medicare.toNumber(), 4017.225)
+      expectCloseTo(result.deductibleHalf.toNumber(), 10597.16)
+    })
+
+    it('caps Social Security at the wage base and adds additional Medicare tax', () => {
+      const result = taxCalculator.calculateSelfEmploymentTax(new Decimal(300000), 'SINGLE', 2024)
+      expectCloseTo(result.socialSecurity.toNumber(), 20906.4)
+      expectCloseTo(result.medicare.toNumber(), 8034.45 + 693.45)
+      expectCloseTo(result.deductibleHalf.toNumber(), (20906.4 + 8034.45) / 2)
+    })
+
+    it('does not tax net earnings under $400', () => {
+      const result = taxCalculator.calculateSelfEmploymentTax(new Decimal(400), 'SINGLE', 2024)
+      expect(result.total.toNumber()).toBe(0)
+    })
+  })
+
+  describe('calculateQbiDeduction', () => {
+    const qbi = (taxableIncome: number, taxYear = 2024) =>
+      taxCalculator.calculateQbiDeduction(new Decimal(250000), new Decimal(taxableIncome), 'SINGLE', taxYear).toNumber()
+
+    it('allows 20% of QBI below the threshold, limited to 20% of taxable income', () => {
+      expectCloseTo(qbi(191950), 38390)
+      expectCloseTo(
+        taxCalculator.calculateQbiDeduction(new Decimal(100000), new Decimal(150000), 'SINGLE', 2024).toNumber(),
+        20000
+      )
+    })
+
+    it('phases out the deduction for health professionals above the threshold', () => {
+      expectCloseTo(qbi(216950), 12500)
+      expect(qbi(241950)).toBe(0)
+    })
+
+    it('uses the wider 2026 phase-in range', () => {
+      expectCloseTo(qbi(239275, 2026), 12500)
+      expect(qbi(241950, 2026)).toBeGreaterThan(0)
+    })
+
+    it('uses the joint threshold for married couples', () => {
+      const joint = taxCalculator.calculateQbiDeduction(new Decimal(250000), new Decimal(300000), 'MARRIED_FILING_JOINTLY', 2024)
+      expectCloseTo(joint.toNumber(), 50000)
+    })
+  })
+
+  describe('calculateAnnualTaxes', () => {
+    it('deducts half of SE tax and the QBI deduction from federal taxable income', async () => {
+      const result = await calculate1099(160000, 10000)
+      const selfEmployment = result.selfEmployment!
+
+      expectCloseTo(selfEmployment.netProfit.toNumber(), 150000)
+      expectCloseTo(selfEmployment.qbiDeduction.toNumber(), 24960.57)
+      expectCloseTo(result.federal.toNumber(), 17018.3)
+      expectCloseTo(result.socialSecurity.add(result.medicare).toNumber(), selfEmployment.total.toNumber())
+    })
+
+    it('does not apply state disability insurance to contractors', async () => {
+      const result = await calculate1099(200000, 0, 'CA')
+      expect(result.stateDisability.toNumber()).toBe(0)
+    })
+
+    it('leaves W-2 results without self-employment details', async () => {
+      const result = await taxCalculator.calculateAnnualTaxes({
+        grossIncome: new Decimal(150000),
+        state: 'TX',
+        filingStatus: 'SINGLE',
+        exemptions: 0,
+        isResident: true,
+        taxYear: 2024,
+      })
+      expect(result.selfEmployment).toBeUndefined()
+      expectCloseTo(result.socialSecurity.toNumber(), 9300)
+    })
+  })
+
+  describe('ContractCalculationEngine', () => {
+    const engine = new ContractCalculationEngine()
+    const contract = contractInput({
+      title: 'Emergency Medicine Locum',
+      specialty: 'Emergency Medicine',
+      location: { state: 'CA', city: 'Fresno', zipCode: '93701' },
+      startDate: new Date(2024, 0, 8),
+      endDate: new Date(2024, 11, 20),
+      duration: 40,
+      hourlyRate: 175,
+      businessExpenses: { malpracticeInsurance: 12000, licensure: 1500, cme: 3000 },
+    })
+
+    it('defaults to W-2 and ignores business expenses', async () => {
+      const result = await engine.calculateContract(contract)
+      expect(result.contract.workerClassification).toBe('W2')
+      expect(result.breakdown.businessExpenses).toBeUndefined()
+      expect(result.breakdown.taxes.selfEmployment).toBeUndefined()
+    })
+
+    it('compares W-2 and 1099 take-home for the same offer', async () => {
+      const { w2, contractor, netDifference } = await engine.compareWorkerClassifications(contract)
+
+      expect(contractor.breakdown.businessExpenses!.total.toNumber()).toBe(16500)
+      expect(contractor.breakdown.taxes.selfEmployment).toBeDefined()
+      expect(contractor.breakdown.taxes.stateDisability.toNumber()).toBe(0)
+      expect(contractor.breakdown.taxes.socialSecurity.gt(w2.breakdown.taxes.socialSecurity)).toBe(true)
+      expectCloseTo(
+        contractor.totals.netAnnualPay.toNumber(),
+        contractor.totals.grossAnnualPay.minus(contractor.totals.totalTaxes).minus(16500).toNumber()
+      )
+      expectCloseTo(
+        netDifference.toNumber(),
+        contractor.totals.netAnnualPay.minus(w2.totals.netAnnualPay).toNumber()
+      )
+    })
+
+    it('apportions contractor income across work states without SDI', async () => {
+      const result = await engine.calculateContract({
+        ...contract,
+        workerClassification: '1099',
+        multiState: {
+          homeState: 'TX',
+          apportionBy: 'DAYS',
+          workStates: [
+            { state: 'CA', days: 100, hours: 0 },
+            { state: 'NV', days: 100, hours: 0 },
+          ],
+        },
+      })
+
+      const { taxes } = result.breakdown
+      expect(taxes.stateDisability.toNumber()).toBe(0)
+      expectCloseTo(
+        taxes.byState!.reduce((total, state) => total + state.sourcedIncome.toNumber(), 0),
+        taxes.selfEmployment!.netProfit.minus(taxes.selfEmployment!.deductibleHalf).toNumber()
+      )
+    })
+  })
+})
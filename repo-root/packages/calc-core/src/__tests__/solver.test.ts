@@ -0,0 +1,84 @@
+import { ContractSolver } from '../engines/solver'
+import { ContractCalculationEngine } from '../engines/contract'
+
+describe('Contract Solver', () => {
+  const engine = new ContractCalculationEngine()
+  const solver = new ContractSolver(engine)
+
+  const contract = (overrides: any = {}): any => ({
+    title: 'Anesthesiologist',
+    specialty: 'Anesthesiology',
+    location: { state: 'TX', city: 'Dallas', zipCode: '75201' },
+    contractType: 'LOCUM_TENENS',
+    startDate: new Date(2025, 0, 6),
+    endDate: new Date(2025, 3, 7),
+    duration: 13,
+    hourlyRate: 180,
+    hoursPerWeek: 40,
+    taxInfo: { filingStatus: 'SINGLE' },
+    ...overrides,
+  })
+
+  const netPay = async (input: any) => (await engine.calculateContract(input)).totals.netAnnualPay.toNumber()
+
+  describe('solveForNetPay', () => {
+    it('finds the hourly rate for a target net pay', async () => {
+      const solved = await solver.solveForNetPay(contract(), 'hourlyRate', 60000)
+
+      expect(solved.converged).toBe(true)
+      expect(solved.achievedNetPay.toNumber()).toBeGreaterThanOrEqual(60000)
+      expect(solved.achievedNetPay.toNumber()).toBeLessThan(60006)
+      expect(await netPay(contract({ hourlyRate: solved.value.minus(0.05).toNumber() }))).toBeLessThan(60000)
+    })
+
+    it('finds the weekly housing stipend for a target net pay', async () => {
+      const base = await netPay(contract())
+      const solved = await solver.solveForNetPay(contract(), 'housingStipend', base + 10000)
+
+      expect(solved.converged).toBe(true)
+      expect(solved.value.toNumber()).toBeGreaterThan(10000 / 13)
+      expect(solved.achievedNetPay.minus(base + 10000).abs().toNumber()).toBeLessThanOrEqual(2)
+    })
+
+    it('reports targets that cannot be reached within the weekly hour limit', async () => {
+      const solved = await solver.solveForNetPay(contract(), 'hoursPerWeek', 10000000)
+
+      expect(solved.converged).toBe(false)
+      expect(solved.value.toNumber()).toBe(168)
+    })
+
+    it('returns the minimum when the target is already met', async () => {
+      const solved = await solver.solveForNetPay(contract(), 'housingStipend', 1000)
+      expect(solved.value.toNumber()).toBe(0)
+    })
+  })
+
+  describe('matchContract', () => {
+    it('finds the California rate that matches a Texas offer', async () => {
+      const texas = contract()
+      const california = contract({ location: { state: 'CA', city: 'Fresno', zipCode: '93701' } })
+      const solved = await solver.matchContract(california, texas, 'hourlyRate')
+
+      expect(solved.value.toNumber()).toBeGreaterThan(180)
+      expect(solved.achievedNetPay.minus(await netPay(texas)).abs().toNumber()).toBeLessThanOrEqual(2)
+    })
+  })
+
+  describe('sensitivity', () => {
+    it('builds a grid around the current rate and hours', async () => {
+      const table = await solver.sensitivity(contract())
+
+      expect(table.hourlyRates.map(rate => rate.toNumber())).toEqual([144, 162, 180, 198, 216])
+      expect(table.hoursPerWeek.map(hours => hours.toNumber())).toEqual([32, 36, 40, 44, 48])
+      expect(table.cells[2][2].netAnnualPay.toNumber()).toBe(await netPay(contract()))
+      expect(table.cells[0][0].netAnnualPay.lt(table.cells[4][4].netAnnualPay)).toBe(true)
+    })
+
+    it('uses a custom grid', async () => {
+      const table = await solver.sensitivity(contract(), { hourlyRates: [150, 200], hoursPerWeek: [36] })
+
+      expect(table.cells).toHaveLength(1)
+      expect(table.cells[0].map(cell => cell.hourlyRate.toNumber())).toEqual([150, 200])
+    })
+  })
+})
@@ -0,0 +1,137 @@
+import { PerDiemDirectory } from '../engines/per-diem'
+import { ContractCalculationEngine } from '../engines/contract'
+import { ContractInput, ContractInputSchema } from '../types'
+import { contractInput } from './fixtures'
+import { expectCloseTo } from './setup'
+
+describe('Stipend Eligibility', () => {
+  describe('PerDiemDirectory', () => {
+    const directory = new PerDiemDirectory()
+
+    it('uses seasonal locality rates', () => {
+      const march = directory.getRate({ state: 'NY', zipCode: '10001' }, new Date(2025, 2, 10))
+      const october = directory.getRate({ state: 'NY', city: 'Brooklyn' }, new Date(2024, 9, 10))
+
+      expect(march.locality).toBe('New York City')
+      expect(march.lodging).toBe(299)
+      expect(october.lodging).toBe(340)
+      expect(october.mealsAndIncidentals).toBe(92)
+    })
+
+    it('falls back to the standard CONUS rate', () => {
+      const rate = directory.getRate({ state: 'CA', city: 'Fresno', zipCode: '93701' }, new Date(2025, 0, 15))
+      expect(rate.locality).toBe('Standard CONUS')
+      expect(rate.lodging).toBe(110)
+      expect(rate.mealsAndIncidentals).toBe(68)
+    })
+
+    it('starts fiscal years in October', () => {
+      expect(directory.getFiscalYear(new Date(2024, 8, 30))).toBe(2024)
+      expect(directory.getFiscalYear(new Date(2024, 9, 1))).toBe(2025)
+    })
+  })
+
+  describe('ContractCalculationEngine', () => {
+    const engine = new ContractCalculationEngine()
+    const qualifiedTaxHome: NonNullable<ContractInput['taxHome']> = {
+      state: 'TX',
+      city: 'Austin',
+      distanceMiles: 1500,
+      worksNearHome: true,
+      maintainsHome: true,
+      returnsHome: true,
+    }
+    const contract = contractInput({
+      title: 'ICU Travel Nurse',
+      specialty: 'Critical Care',
+      location: { state: 'CA', city: 'Fresno', zipCode: '93701' },
+      contractType: 'TRAVEL_NURSING',
+      startDate: new Date(2025, 0, 6),
+      endDate: new Date(2025, 3, 6),
+      duration: 13,
+      hourlyRate: 45,
+      hoursPerWeek: 36,
+      stipends: { housing: 1000, meals: 476, travel: 500, licensure: 300 },
+      taxHome: qualifiedTaxHome,
+    })
+
+    const evaluate = async (overrides: Partial<ContractInput> = {}) => {
+      const result = await engine.calculateContract({ ...contract, ...overrides })
+      return result.breakdown.stipendEligibility!
+    }
+
+    it('keeps stipends within GSA limits tax-free and taxes the excess', async () => {
+      const eligibility = await evaluate()
+
+      expect(eligibility.taxHomeStatus).toBe('QUALIFIED')
+      expectCloseTo(eligibility.housing.limit!.toNumber(), 770 * 13)
+      expectCloseTo(eligibility.housing.taxable.toNumber(), 230 * 13)
+      expect(eligibility.meals.taxable.toNumber()).toBe(0)
+      expect(eligibility.travel.taxFree.toNumber()).toBe(500)
+      expect(eligibility.warnings).toEqual([
+        expect.stringContaining('Housing stipend exceeds the GSA lodging rate for Standard CONUS'),
+      ])
+    })
+
+    it('taxes housing, meals and travel for itinerant workers', async () => {
+      const eligibility = await evaluate({
+        taxHome: { ...qualifiedTaxHome, worksNearHome: false, maintainsHome: false },
+      })
+
+      expect(eligibility.taxHomeStatus).toBe('ITINERANT')
+      expectCloseTo(eligibility.taxable.toNumber(), 13000 + 476 * 13 + 500)
+      expect(eligibility.licensure.taxFree.toNumber()).toBe(300)
+    })
+
+    it('flags assignments that meet two of three tax home factors', async () => {
+      const eligibility = await evaluate({ taxHome: { ...qualifiedTaxHome, worksNearHome: false } })
+      expect(eligibility.taxHomeStatus).toBe('FACTS_AND_CIRCUMSTANCES')
+      expect(eligibility.travel.taxFree.toNumber()).toBe(500)
+      expect(eligibility.warnings[0]).toContain('two of the three')
+    })
+
+    it('treats assignments near the tax home as local', async () => {
+      const eligibility = await evaluate({ taxHome: { ...qualifiedTaxHome, state: 'CA', distanceMiles: 30 } })
+      expect(eligibility.taxHomeStatus).toBe('LOCAL')
+      expect(eligibility.housing.taxFree.toNumber()).toBe(0)
+    })
+
+    it('treats assignments longer than a year as indefinite', async () => {
+      const eligibility = await evaluate({ duration: 56, endDate: new Date(2026, 1, 1) })
+      expect(eligibility.taxHomeStatus).toBe('INDEFINITE')
+      expect(eligibility.meals.taxFree.toNumber()).toBe(0)
+    })
+
+    it('warns when no tax home is provided', async () => {
+      const eligibility = await evaluate({ taxHome: undefined })
+      expect(eligibility.taxHomeStatus).toBe('UNVERIFIED')
+      expect(eligibility.warnings[0]).toContain('No tax home was provided')
+    })
+
+    it('taxes all stipends paid to 1099 contractors', async () => {
+      const eligibility = await evaluate({ workerClassification: '1099' })
+      expect(eligibility.taxHomeStatus).toBe('NOT_APPLICABLE')
+      expect(eligibility.taxFree.toNumber()).toBe(0)
+    })
+
+    it('excludes tax-free stipends from taxable wages', async () => {
+      const qualified = await engine.calculateContract(contract)
+      const itinerant = await engine.calculateContract({
+        ...contract,
+        taxHome: { ...qualifiedTaxHome, worksNearHome: false, maintainsHome: false, returnsHome: false },
+      })
+
+      expect(qualified.totals.grossAnnualPay.eq(itinerant.totals.grossAnnualPay)).toBe(true)
+      expect(qualified.breakdown.taxes.socialSecurity.lt(itinerant.breakdown.taxes.socialSecurity)).toBe(true)
+      expectCloseTo(
+        itinerant.breakdown.taxes.socialSecurity.minus(qualified.breakdown.taxes.socialSecurity).toNumber(),
+        qualified.breakdown.stipendEligibility!.taxFree.minus(300).mul(0.062).toNumber()
+      )
+    })
+
+    it('defaults the tax home factors to true', () => {
+      const parsed = ContractInputSchema.parse({ ...contract, taxHome: { state: 'TX', city: 'Austin' } })
+      expect(parsed.taxHome).toMatchObject({ worksNearHome: true, maintainsHome: true, returnsHome: true })
+    })
+  })
+})
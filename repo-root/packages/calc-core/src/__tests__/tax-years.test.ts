@@ -0,0 +1,224 @@
+import { Decimal } from 'decimal.js'
+import { TaxCalculator } from '../engines/tax-calculator'
+import { ContractCalculationEngine } from '../engines/contract'
+import { PaycheckCalculationEngine } from '../engines/paycheck'
+import {
+  TaxYearRegistry,
+  taxYearRegistry,
+  deriveTaxYear,
+  progressive,
+  TAX_YEAR_2024,
+  TAX_YEAR_2025,
+} from '../engines/tax-tables'
+import { expectCloseTo } from './setup'
+
+describe('Tax Year Tables', () => {
+  const taxCalculator = new TaxCalculator()
+
+  const calculate = (grossIncome: number, state: any, taxYear: number, filingStatus: any = 'SINGLE') =>
+    taxCalculator.calculateAnnualTaxes({
+      grossIncome: new Decimal(grossIncome),
+      state,
+      filingStatus,
+      exemptions: 0,
+      isResident: true,
+      taxYear,
+    })
+
+  describe('registry', () => {
+    it('registers 2024 through 2026 by default', () => {
+      expect(taxYearRegistry.getYears()).toEqual([2024, 2025, 2026])
+    })
+
+    it('falls back to the closest earlier year', () => {
+      expect(taxYearRegistry.resolveYear(2030)).toBe(2026)
+      expect(taxYearRegistry.get(2030).year).toBe(2026)
+    })
+
+    it('uses the earliest year for dates before the first table', () => {
+      expect(taxYearRegistry.resolveYear(2020)).toBe(2024)
+    })
+
+    it('resolves the year from a date', () => {
+      expect(taxYearRegistry.getForDate(new Date(2025, 6, 1)).year).toBe(2025)
+    })
+
+    it('accepts new years without code changes to the calculator', async () => {
+      const registry = new TaxYearRegistry()
+      registry.register(TAX_YEAR_2024)
+      registry.register(deriveTaxYear(TAX_YEAR_2024, {
+        year: 2027,
+        payroll: { socialSecurityWageBase: 200000 },
+      }))
+
+      const result = await new TaxCalculator(registry).calculateAnnualTaxes({
+        grossIncome: new Decimal(250000),
+        state: 'TX',
+        filingStatus: 'SINGLE',
+        exemptions: 0,
+        isResident: true,
+        taxYear: 2027,
+      })
+
+      expect(result.taxYear).toBe(2027)
+      expectCloseTo(result.socialSecurity.toNumber(), 12400)
+    })
+  })
+
+  describe('deriveTaxYear', () => {
+    it('carries forward states that are not overridden', () => {
+      expect(TAX_YEAR_2025.states.PA).toBe(TAX_YEAR_2024.states.PA)
+      expect(TAX_YEAR_2025.states.CA).not.toBe(TAX_YEAR_2024.states.CA)
+    })
+
+    it('removes states overridden with null', () => {
+      const derived = deriveTaxYear(TAX_YEAR_2024, { year: 2099, states: { IL: null } })
+      expect(derived.states.IL).toBeUndefined()
+      expect(TAX_YEAR_2024.states.IL).toBeDefined()
+    })
+  })
+
+  describe('progressive', () => {
+    it('builds contiguous brackets ending at Infinity', () => {
+      expect(progressive([0.01, 0.02, 0.03], [100, 200])).toEqual([
+        { min: 0, max: 100, rate: 0.01 },
+        { min: 100, max: 200, rate: 0.02 },
+        { min: 200, max: Infinity, rate: 0.03 },
+      ])
+    })
+
+    it('rejects mismatched rates and thresholds', () => {
+      expect(() => progressive([0.01, 0.02], [100, 200])).toThrow()
+    })
+  })
+
+  describe('federal and payroll taxes', () => {
+    it('uses 2024 brackets and standard deduction', async () => {
+      const result = await calculate(200000, 'TX', 2024)
+      expectCloseTo(result.federal.toNumber(), 37538.5)
+      expect(result.state.toNumber()).toBe(0)
+    })
+
+    it('applies the Social Security wage base of each year', async () => {
+      const [y2024, y2025, y2026] = await Promise.all([
+        calculate(300000, 'TX', 2024),
+        calculate(300000, 'TX', 2025),
+        calculate(300000, 'TX', 2026),
+      ])
+
+      expectCloseTo(y2024.socialSecurity.toNumber(), 10453.2)
+      expectCloseTo(y2025.socialSecurity.toNumber(), 10918.2)
+      expectCloseTo(y2026.socialSecurity.toNumber(), 11439)
+    })
+
+    it('lowers federal tax as brackets are indexed for inflation', async () => {
+      const y2024 = await calculate(250000, 'TX', 2024)
+      const y2026 = await calculate(250000, 'TX', 2026)
+      expect(y2026.federal.lt(y2024.federal)).toBe(true)
+    })
+  })
+
+  describe('progressive state taxes', () => {
+    it('calculates California with brackets, standard deduction and personal credit', async () => {
+      const result = await calculate(200000, 'CA', 2024)
+      expectCloseTo(result.state.toNumber(), 14478.14)
+    })
+
+    it('applies the California mental health surcharge above $1M', () => {
+      const below = taxCalculator.calculateStateIncomeTax(new Decimal(1005540), 'CA', 'SINGLE', { taxYear: 2024 })
+      const above = taxCalculator.calculateStateIncomeTax(new Decimal(1015540), 'CA', 'SINGLE', { taxYear: 2024 })
+      expectCloseTo(above.minus(below).toNumber(), 1330)
+    })
+
+    it('calculates Oregon with the personal exemption credit', async () => {
+      const result = await calculate(150000, 'OR', 2024)
+      expectCloseTo(result.state.toNumber(), 12590.75)
+    })
+
+    it('calculates Minnesota brackets', async () => {
+      const result = await calculate(100000, 'MN', 2024)
+      expectCloseTo(result.state.toNumber(), 5349.4)
+    })
+
+    it('uses head of household brackets where a state defines them', () => {
+      const single = taxCalculator.calculateStateIncomeTax(new Decimal(120000), 'NY', 'SINGLE', { taxYear: 2024 })
+      const headOfHousehold = taxCalculator.calculateStateIncomeTax(new Decimal(120000), 'NY', 'HEAD_OF_HOUSEHOLD', { taxYear: 2024 })
+      expect(headOfHousehold.lt(single)).toBe(true)
+    })
+
+    it('applies the 2026 New York rate cuts', () => {
+      const y2024 = taxCalculator.calculateStateIncomeTax(new Decimal(150000), 'NY', 'SINGLE', { taxYear: 2024 })
+      const y2026 = taxCalculator.calculateStateIncomeTax(new Decimal(150000), 'NY', 'SINGLE', { taxYear: 2026 })
+      expect(y2026.lt(y2024)).toBe(true)
+    })
+
+    it('deducts the federal standard deduction for states that conform to it', () => {
+      expect(taxCalculator.getStateStandardDeduction('CO', 'SINGLE', 2025).toNumber()).toBe(15750)
+    })
+
+    it('returns zero for states without a wage income tax', () => {
+      ['TX', 'FL', 'WA', 'NV', 'SD', 'WY', 'AK', 'TN', 'NH'].forEach(state => {
+        expect(taxCalculator.calculateStateIncomeTax(new Decimal(300000), state as any, 'SINGLE').toNumber()).toBe(0)
+      })
+    })
+  })
+
+  describe('state disability insurance', () => {
+    it('applies uncapped California SDI', async () => {
+      const result = await calculate(300000, 'CA', 2024)
+      expectCloseTo(result.stateDisability.toNumber(), 3300)
+    })
+
+    it('caps New York disability contributions', async () => {
+      const result = await calculate(300000, 'NY', 2024)
+      expectCloseTo(result.stateDisability.toNumber(), 31.2)
+    })
+  })
+
+  describe('engine year selection', () => {
+    const contract = (startDate: Date) => ({
+      title: 'Hospitalist',
+      specialty: 'Internal Medicine',
+      location: { state: 'CA' as const, city: 'Fresno', zipCode: '93701' },
+      contractType: 'LOCUM_TENENS' as const,
+      startDate,
+      endDate: new Date(startDate.getFullYear(), 11, 31),
+      duration: 26,
+      hourlyRate: 180,
+      hoursPerWeek: 40,
+      overtimeThreshold: 40,
+      bonuses: [],
+      stipends: {},
+      deductions: {},
+      taxInfo: { filingStatus: 'SINGLE' as const },
+    })
+
+    it('selects the tax year from the contract start date', async () => {
+      const engine = new ContractCalculationEngine()
+      const y2024 = await engine.calculateContract(contract(new Date(2024, 6, 1)) as any)
+      const y2026 = await engine.calculateContract(contract(new Date(2026, 6, 1)) as any)
+
+      expect(y2024.totals.grossAnnualPay.eq(y2026.totals.grossAnnualPay)).toBe(true)
+      expect(y2026.breakdown.taxes.federal.lt(y2024.breakdown.taxes.federal)).toBe(true)
+    })
+
+    it('selects the tax year from the paycheck pay date', async () => {
+      const engine = new PaycheckCalculationEngine()
+      const paycheck = (payDate: Date) => engine.calculatePaycheck({
+        grossPay: 10000,
+        payFrequency: 'BI_WEEKLY',
+        payDate,
+        filingStatus: 'SINGLE',
+        workState: 'CA',
+        residenceState: 'CA',
+        ytdGross: 170000,
+      } as any)
+
+      const y2024 = await paycheck(new Date(2024, 11, 20))
+      const y2025 = await paycheck(new Date(2025, 11, 19))
+
+      expect(y2024.taxes.socialSecurity.toNumber()).toBe(0)
+      expectCloseTo(y2025.taxes.socialSecurity.toNumber(), (176100 - 170000) * 0.062)
+    })
+  })
+})
@@ -0,0 +1,133 @@
+import { PaycheckCalculationEngine } from '../engines/paycheck'
+import { expectCloseTo } from './setup'
+
+const noAdjustments = { multipleJobs: false, dependentsCredit: 0, otherIncome: 0, deductions: 0 }
+
+describe('Form W-4 Withholding', () => {
+  const engine = new PaycheckCalculationEngine()
+
+  const calculate = (overrides: any = {}) =>
+    engine.calculatePaycheck({
+      grossPay: 2000,
+      payFrequency: 'BI_WEEKLY',
+      payDate: new Date(2024, 6, 5),
+      filingStatus: 'SINGLE',
+      workState: 'TX',
+      residenceState: 'TX',
+      w4: noAdjustments,
+      ...overrides,
+    })
+
+  describe('Publication 15-T percentage method', () => {
+    // $52,000 a year less the $8,600 Step 2 adjustment: $1,160 + 12% over $17,600
+    it('withholds from the standard table', async () => {
+      const result = await calculate()
+
+      expectCloseTo(result.taxes.federal.toNumber(), 4256 / 26)
+    })
+
+    // $52,000 a year: $2,713 + 22% over $30,875
+    it('withholds from the Step 2 checkbox table for multiple jobs', async () => {
+      const result = await calculate({ w4: { ...noAdjustments, multipleJobs: true } })
+
+      expectCloseTo(result.taxes.federal.toNumber(), 7360.5 / 26)
+    })
+
+    it('uses the head of household table', async () => {
+      const result = await calculate({ filingStatus: 'HEAD_OF_HOUSEHOLD' })
+
+      // $43,400 after the Step 2 adjustment: $1,655 + 12% over $29,850
+      expectCloseTo(result.taxes.federal.toNumber(), 3281 / 26)
+    })
+
+    it('applies Step 3 credits and Step 4 adjustments', async () => {
+      const credit = await calculate({ w4: { ...noAdjustments, dependentsCredit: 2000 } })
+      const otherIncome = await calculate({ w4: { ...noAdjustments, otherIncome: 5200 } })
+      const deductions = await calculate({ w4: { ...noAdjustments, deductions: 5200 } })
+      const extra = await calculate({ additionalFederalWithholding: 50 })
+
+      expectCloseTo(credit.taxes.federal.toNumber(), 2256 / 26)
+      expectCloseTo(otherIncome.taxes.federal.toNumber(), 4880 / 26)
+      expectCloseTo(deductions.taxes.federal.toNumber(), 3632 / 26)
+      expectCloseTo(extra.taxes.federal.toNumber(), 4256 / 26 + 50)
+    })
+
+    it('withholds nothing when credits exceed the tentative amount', async () => {
+      const result = await calculate({ w4: { ...noAdjustments, dependentsCredit: 6000 } })
+
+      expect(result.taxes.federal.toNumber()).toBe(0)
+    })
+
+    it('reduces wages by allowances on a pre-2020 Form W-4', async () => {
+      const result = await calculate({ w4: undefined, exemptions: 1 })
+
+      // $52,000 less one $4,300 allowance: $1,160 + 12% over $17,600
+      expectCloseTo(result.taxes.federal.toNumber(), 4772 / 26)
+    })
+  })
+
+  describe('tax return forecast', () => {
+    it('breaks even when every paycheck is withheld from the tables', async () => {
+      const result = await calculate()
+
+      expect(result.forecast).toMatchObject({ taxYear: 2024, outcome: 'EVEN', recommendation: null })
+      expectCloseTo(result.forecast.wages.toNumber(), 52000)
+      expectCloseTo(result.forecast.liability.toNumber(), 4256)
+    })
+
+    it('recommends extra withholding to cover a balance due', async () => {
+      // 13 earlier paychecks with nothing withheld
+      const result = await calculate({ ytdGross: 26000, ytdFederalTax: 0 })
+
+      expect(result.forecast.outcome).toBe('BALANCE_DUE')
+      expectCloseTo(result.forecast.refund.toNumber(), -2128.03)
+      expectCloseTo(result.forecast.recommendation!.changePerPaycheck.toNumber(), 177.34)
+      expect(result.forecast.recommendation!.extraWithholding.toNumber()).toBe(178)
+      expect(result.forecast.recommendation!.message).toContain('Step 4(c)')
+    })
+
+    it('recommends Step 4(b) deductions to reduce a refund', async () => {
+      const result = await calculate({ ytdGross: 26000, ytdFederalTax: 2900 })
+      const recommendation = result.forecast.recommendation!
+
+      expect(result.forecast.outcome).toBe('REFUND')
+      expectCloseTo(result.forecast.refund.toNumber(), 771.97)
+      expectCloseTo(recommendation.changePerPaycheck.toNumber(), -64.33)
+      expect(recommendation.extraWithholding.toNumber()).toBe(0)
+      expect(recommendation.deductions.toNumber()).toBe(14000)
+
+      // Following the advice lowers each paycheck by the recommended change
+      const adjusted = await calculate({ w4: { ...noAdjustments, deductions: 14000 } })
+      expectCloseTo(
+        result.taxes.federal.minus(adjusted.taxes.federal).toNumber(),
+        -recommendation.changePerPaycheck.toNumber(),
+        0
+      )
+    })
+
+    it('lowers existing extra withholding before adding deductions', async () => {
+      // $571.97 refund spread over 12 paychecks
+      const result = await calculate({ additionalFederalWithholding: 100, ytdGross: 26000, ytdFederalTax: 1400 })
+
+      expect(result.forecast.outcome).toBe('REFUND')
+      expect(result.forecast.recommendation!.deductions.toNumber()).toBe(0)
+      expect(result.forecast.recommendation!.extraWithholding.toNumber()).toBe(53)
+      expect(result.forecast.recommendation!.message).toContain('Lower extra withholding')
+    })
+
+    it('counts Additional Medicare withheld on wages over $200,000', async () => {
+      const result = await calculate({ grossPay: 10000, payDate: new Date(2024, 0, 5) })
+
+      expect(result.forecast.additionalMedicare.toNumber()).toBe(540)
+      expect(result.forecast.outcome).toBe('EVEN')
+    })
+
+    it('withholds Additional Medicare over $200,000 whatever the filing status', async () => {
+      const result = await calculate({ grossPay: 20000, ytdGross: 190000, filingStatus: 'MARRIED_FILING_JOINTLY' })
+
+      // 1.45% on the paycheck plus 0.9% on the $10,000 over $200,000, though
+      // joint filers only owe it over $250,000
+      expectCloseTo(result.taxes.medicare.toNumber(), 290 + 90)
+    })
+  })
+})
@@ -47,6 +47,8 @@ export class CalculationEngine {
           dentalInsurance: new Decimal(0),
           visionInsurance: new Decimal(0),
           retirement401k: new Decimal(0),
+          hsa: new Decimal(0),
+          selfEmployedRetirement: new Decimal(0),
           professionalFees: new Decimal(0),
           parking: new Decimal(0),
           other: new Decimal(0),
@@ -58,6 +60,7 @@ export class CalculationEngine {
           socialSecurity: totalTaxes.mul(0.07),
           medicare: totalTaxes.mul(0.03),
           stateDisability: new Decimal(0),
+          local: new Decimal(0),
           unemployment: new Decimal(0),
           total: totalTaxes
         }
@@ -3,54 +3,97 @@ import {
   ContractInput,
   ContractCalculationResult,
   ContractComparisonResult,
+  ContractScore,
+  FactorScore,
+  ScoringFactor,
+  ScoringProfile,
+  ScoringProfileInput,
+  ScoringProfileSchema,
   USState
 } from '../types';
 import { ContractCalculationEngine } from './contract';
 import { LocationDataProvider } from './location-data';
+import { DEFAULT_SCORING_PROFILE, SCORING_FACTOR_LABELS } from './scoring-profiles';
 
 export class ContractComparisonEngine {
   private contractEngine: ContractCalculationEngine;
   private locationData: LocationDataProvider;
 
-  constructor() {
+  constructor(locationData: LocationDataProvider = new LocationDataProvider()) {
     this.contractEngine = new ContractCalculationEngine();
-    this.locationData = new LocationDataProvider();
+    this.locationData = locationData;
   }
 
   /**
    * Compare multiple contracts and provide comprehensive analysis
    */
-  async compareContracts(contracts: ContractInput[]): Promise<ContractComparisonResult> {
+  async compareContracts(
+    contracts: ContractInput[],
+    scoringProfile: ScoringProfileInput = DEFAULT_SCORING_PROFILE
+  ): Promise<ContractComparisonResult> {
     if (contracts.length < 2) {
       throw new Error('At least 2 contracts are required for comparison');
     }
 
+    const profile = ScoringProfileSchema.parse(scoringProfile);
+
     // Calculate all contracts
     const calculations = await Promise.all(
       contracts.map(contract => this.contractEngine.calculateContract(contract))
     );
+    const scores = calculations.map(calc => this.scoreContract(calc, profile));
 
     // Find best contracts by different metrics
-    const comparison = this.findBestContracts(calculations);
+    const comparison = this.findBestContracts(calculations, scores);
     
     // Calculate comparative metrics
     const metrics = this.calculateComparisonMetrics(calculations);
     
     // Generate recommendations
-    const recommendations = this.generateRecommendations(calculations, metrics);
+    const recommendations = [
+      ...this.generateProfileRecommendations(calculations, scores, profile, comparison.bestOverall),
+      ...this.generateRecommendations(calculations, metrics)
+    ];
 
     return {
       contracts: calculations,
       comparison,
       metrics,
-      recommendations
+      recommendations,
+      profile,
+      scores
+    };
+  }
+
+  /**
+   * Score a contract from 0 to 100 on each factor and combine the factor
+   * scores using the profile's weights
+   */
+  scoreContract(
+    calculation: ContractCalculationResult,
+    scoringProfile: ScoringProfileInput = DEFAULT_SCORING_PROFILE
+  ): ContractScore {
+    const { weights } = ScoringProfileSchema.parse(scoringProfile);
+    const totalWeight = Object.values(weights).reduce((total, weight) => total + weight, 0);
+
+    const factors: FactorScore[] = (Object.keys(weights) as ScoringFactor[])
+      .filter(factor => weights[factor] > 0)
+      .map(factor => {
+        const score = this.calculateFactorScore(calculation, factor);
+        const weight = weights[factor] / totalWeight;
+        return { factor, score, weight, contribution: score * weight };
+      });
+
+    return {
+      total: Math.round(factors.reduce((total, factor) => total + factor.contribution, 0)),
+      factors
     };
   }
 
   /**
    * Find the best contract by different criteria
    */
-  private findBestContracts(calculations: ContractCalculationResult[]) {
+  private findBestContracts(calculations: ContractCalculationResult[], scores: ContractScore[]) {
     let bestOverall = 0;
     let bestHourlyRate = 0;
     let bestNetPay = 0;
@@ -62,8 +105,8 @@ export class ContractComparisonEngine {
     let highestBenefits = new Decimal(0);
 
     calculations.forEach((calc, index) => {
-      // Overall score calculation (weighted)
-      const score = this.calculateOverallScore(calc);
+      // Overall score from the scoring profile
+      const score = scores[index].total;
       if (score > highestScore) {
         highestScore = score;
         bestOverall = index;
@@ -98,34 +141,37 @@ export class ContractComparisonEngine {
   }
 
   /**
-   * Calculate overall score for a contract (0-100)
+   * Score a single factor for a contract (0-100)
    */
-  private calculateOverallScore(calculation: ContractCalculationResult): number {
-    const contract = calculation.contract;
-    
-    // Compensation score (40% weight)
-    const hourlyRateScore = Math.min(100, calculation.totals.effectiveHourlyRate.toNumber() / 150 * 100);
-    const netPayScore = Math.min(100, calculation.totals.netAnnualPay.toNumber() / 400000 * 100);
-    const compensationScore = (hourlyRateScore * 0.6) + (netPayScore * 0.4);
-
-    // Benefits score (25% weight)
-    const stipendsValue = calculation.totals.totalStipends.toNumber();
-    const benefitsScore = Math.min(100, stipendsValue / 100000 * 100);
-
-    // Location score (20% weight)
-    const locationScore = this.locationData.calculateLocationScore(contract.location.state);
-
-    // Tax efficiency score (15% weight)
-    const taxRate = calculation.metrics.taxRate.toNumber();
-    const taxScore = Math.max(0, 100 - (taxRate * 2)); // Lower tax rate = higher score
-
-    // Weighted total
-    const totalScore = (compensationScore * 0.40) + 
-                      (benefitsScore * 0.25) + 
-                      (locationScore * 0.20) + 
-                      (taxScore * 0.15);
-
-    return Math.round(totalScore);
+  private calculateFactorScore(calculation: ContractCalculationResult, factor: ScoringFactor): number {
+    const { contract, totals, metrics } = calculation;
+    const location = this.locationData.getLocationData(contract.location.state);
+    const clamp = (score: number) => Math.max(0, Math.min(100, score));
+
+    switch (factor) {
+      case 'netPay':
+        return clamp(totals.netAnnualPay.toNumber() / 400000 * 100);
+      case 'hourlyRate':
+        return clamp(totals.effectiveHourlyRate.toNumber() / 150 * 100);
+      case 'benefits':
+        return clamp(totals.totalStipends.toNumber() / 100000 * 100);
+      case 'taxEfficiency':
+        // Lower tax rate = higher score
+        return clamp(100 - metrics.taxRate.toNumber() * 2);
+      case 'location':
+        return this.locationData.calculateLocationScore(contract.location);
+      case 'costOfLiving':
+        // An index of 80 or below scores 100; 180 or above scores 0
+        return clamp(180 - this.locationData.getCostOfLiving(contract.location).costOfLivingIndex);
+      case 'qualityOfLife':
+        return clamp(location.qualityOfLifeScore * 10);
+      case 'commute':
+        // Distance from the tax home when known, otherwise the state's
+        // average commute (15 minutes scores 100, 45 minutes scores 0)
+        return contract.taxHome?.distanceMiles !== undefined
+          ? clamp(100 - contract.taxHome.distanceMiles / 5)
+          : clamp((45 - location.averageCommute) / 30 * 100);
+    }
   }
 
   /**
@@ -150,8 +196,8 @@ export class ContractComparisonEngine {
 
     // Location factors
     const costOfLivingFactors = calculations.map(calc => {
-      const locationData = this.locationData.getLocationData(calc.contract.location.state);
-      return new Decimal(locationData.costOfLivingIndex);
+      const costOfLiving = this.locationData.getCostOfLiving(calc.contract.location);
+      return new Decimal(costOfLiving.costOfLivingIndex);
     });
 
     const taxBurdens = calculations.map(calc => calc.metrics.taxRate);
@@ -172,6 +218,49 @@ export class ContractComparisonEngine {
     };
   }
 
+  /**
+   * Explain the profile's pick: which factors carried the best contract, and
+   * where another contract is stronger on the profile's heaviest factor
+   */
+  private generateProfileRecommendations(
+    calculations: ContractCalculationResult[],
+    scores: ContractScore[],
+    profile: ScoringProfile,
+    bestIndex: number
+  ): string[] {
+    const recommendations: string[] = [];
+    const label = (index: number) => `Contract ${index + 1} (${calculations[index].contract.title})`;
+    const best = scores[bestIndex];
+
+    const drivers = [...best.factors]
+      .sort((a, b) => b.contribution - a.contribution)
+      .slice(0, 2)
+      .map(factor => SCORING_FACTOR_LABELS[factor.factor]);
+    recommendations.push(
+      `${label(bestIndex)} ranks first under the "${profile.name}" profile with a score of ${best.total}/100, ` +
+      `driven by ${drivers.join(' and ')}.`
+    );
+
+    const heaviest = [...best.factors].sort((a, b) => b.weight - a.weight)[0];
+    const challenger = scores
+      .map((score, index) => ({
+        index,
+        score: score.factors.find(factor => factor.factor === heaviest.factor)?.score ?? 0
+      }))
+      .filter(({ index }) => index !== bestIndex)
+      .sort((a, b) => b.score - a.score)[0];
+
+    if (challenger && challenger.score > heaviest.score) {
+      recommendations.push(
+        `${label(challenger.index)} is stronger on ${SCORING_FACTOR_LABELS[heaviest.factor]} ` +
+        `(${Math.round(challenger.score)} vs ${Math.round(heaviest.score)}), your most heavily weighted factor, ` +
+        'but trails on the rest of the profile.'
+      );
+    }
+
+    return recommendations;
+  }
+
   /**
    * Generate recommendations based on comparison analysis
    */
@@ -279,8 +368,8 @@ export class ContractComparisonEngine {
 
     // Calculate cost of living impact
     const costOfLivingAdjustment = this.locationData.calculateCostOfLivingAdjustment(
-      contract1.location.state,
-      contract2.location.state
+      contract1.location,
+      contract2.location
     );
 
     // Generate recommendation
@@ -315,7 +404,8 @@ export class ContractComparisonEngine {
    */
   rankContracts(
     calculations: ContractCalculationResult[],
-    criteria: 'netPay' | 'hourlyRate' | 'benefits' | 'overall' | 'location' = 'overall'
+    criteria: 'netPay' | 'hourlyRate' | 'benefits' | 'overall' | 'location' = 'overall',
+    scoringProfile: ScoringProfileInput = DEFAULT_SCORING_PROFILE
   ): { ranking: number[]; scores: number[] } {
     const scores: number[] = [];
 
@@ -333,11 +423,11 @@ export class ContractComparisonEngine {
           score = calc.totals.totalStipends.add(calc.metrics.benefitsValue).toNumber();
           break;
         case 'location':
-          score = this.locationData.calculateLocationScore(calc.contract.location.state);
+          score = this.locationData.calculateLocationScore(calc.contract.location);
           break;
         case 'overall':
         default:
-          score = this.calculateOverallScore(calc);
+          score = this.scoreContract(calc, scoringProfile).total;
           break;
       }
 
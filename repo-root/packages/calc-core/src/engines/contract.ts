@@ -5,17 +5,29 @@ import {
   ContractCalculationResult,
   PayFrequency,
   USState,
-  ContractInputSchema
+  ContractInputSchema,
+  WorkerClassificationComparison,
+  RetirementInput,
+  RetirementPlan
 } from '../types';
 import { TaxCalculator } from './tax-calculator';
 import { LocationDataProvider } from './location-data';
+import { MultiStateTaxCalculator } from './multi-state';
+import { StipendRulesEngine } from './stipend-rules';
+import { RetirementPlanner } from './retirement';
 
 export class ContractCalculationEngine {
   private taxCalculator: TaxCalculator;
+  private multiStateCalculator: MultiStateTaxCalculator;
+  private stipendRules: StipendRulesEngine;
+  private retirementPlanner: RetirementPlanner;
   private locationData: LocationDataProvider;
 
   constructor() {
     this.taxCalculator = new TaxCalculator();
+    this.multiStateCalculator = new MultiStateTaxCalculator(this.taxCalculator);
+    this.stipendRules = new StipendRulesEngine();
+    this.retirementPlanner = new RetirementPlanner(this.taxCalculator);
     this.locationData = new LocationDataProvider();
   }
 
@@ -29,18 +41,42 @@ export class ContractCalculationEngine {
     // Calculate base compensation components
     const basePay = this.calculateBasePay(validatedInput);
     const overtimePay = this.calculateOvertimePay(validatedInput);
+    const callPay = this.calculateCallPay(validatedInput);
     const bonuses = this.calculateBonuses(validatedInput);
     const stipends = this.calculateStipends(validatedInput);
-    const deductions = this.calculateDeductions(validatedInput);
+    const stipendEligibility = this.stipendRules.evaluate(validatedInput, stipends);
+    const businessExpenses = validatedInput.workerClassification === '1099'
+      ? this.calculateBusinessExpenses(validatedInput)
+      : undefined;
     
     // Calculate gross annual pay
-    const grossAnnualPay = basePay.add(overtimePay).add(bonuses).add(stipends.total);
+    const grossAnnualPay = basePay.add(overtimePay).add(callPay).add(bonuses).add(stipends.total);
+    const taxableGrossPay = grossAnnualPay.minus(stipendEligibility.taxFree);
     
-    // Calculate taxes
-    const taxes = await this.calculateTaxes(validatedInput, grossAnnualPay, deductions.total);
+    // Apply retirement and HSA contribution limits to W-2 wages or 1099 net profit
+    const retirement = this.retirementPlanner.plan({
+      workerClassification: validatedInput.workerClassification,
+      compensation: taxableGrossPay.minus(businessExpenses?.total || 0),
+      filingStatus: validatedInput.taxInfo.filingStatus,
+      taxYear: this.taxCalculator.resolveTaxYear(validatedInput.startDate),
+      contributions: this.getRetirementContributions(validatedInput)
+    });
+    const deductions = this.calculateDeductions(validatedInput, retirement);
+    
+    // Calculate taxes; tax-free stipends are excluded from taxable wages
+    const taxes = await this.calculateTaxes(
+      validatedInput,
+      taxableGrossPay,
+      deductions,
+      retirement,
+      businessExpenses?.total
+    );
     
     // Calculate net pay
-    const netAnnualPay = grossAnnualPay.minus(deductions.total).minus(taxes.total);
+    const netAnnualPay = grossAnnualPay
+      .minus(deductions.total)
+      .minus(taxes.total)
+      .minus(businessExpenses?.total || 0);
     
     // Calculate metrics
     const metrics = this.calculateMetrics(
@@ -69,9 +105,13 @@ export class ContractCalculationEngine {
       breakdown: {
         basePay,
         overtimePay,
+        ...(validatedInput.callPay && { callPay }),
         bonuses,
         stipends,
+        stipendEligibility,
         deductions,
+        retirement,
+        ...(businessExpenses && { businessExpenses }),
         taxes
       },
       payPeriods,
@@ -79,6 +119,22 @@ export class ContractCalculationEngine {
     };
   }
 
+  /**
+   * Calculate the same offer as a W-2 employee and as a 1099 contractor
+   */
+  async compareWorkerClassifications(input: ContractInput): Promise<WorkerClassificationComparison> {
+    const [w2, contractor] = await Promise.all([
+      this.calculateContract({ ...input, workerClassification: 'W2' }),
+      this.calculateContract({ ...input, workerClassification: '1099' })
+    ]);
+    
+    return {
+      w2,
+      contractor,
+      netDifference: contractor.totals.netAnnualPay.minus(w2.totals.netAnnualPay)
+    };
+  }
+
   /**
    * Calculate base pay (regular hours only)
    */
@@ -115,6 +171,19 @@ export class ContractCalculationEngine {
     return weeklyOvertimePay.mul(duration);
   }
 
+  /**
+   * Calculate pay for on-call hours
+   */
+  private calculateCallPay(contract: ContractInput): Decimal {
+    if (!contract.callPay) {
+      return new Decimal(0);
+    }
+
+    return new Decimal(contract.callPay.rate)
+      .mul(contract.callPay.hoursPerWeek)
+      .mul(contract.duration);
+  }
+
   /**
    * Calculate total bonuses
    */
@@ -154,9 +223,14 @@ export class ContractCalculationEngine {
   }
 
   /**
-   * Calculate deductions breakdown
+   * Retirement contributions for the contract, converting the legacy weekly
+   * 401(k) deduction when no retirement plan is given
    */
-  private calculateDeductions(contract: ContractInput) {
+  private getRetirementContributions(contract: ContractInput): RetirementInput {
+    if (contract.retirement) {
+      return contract.retirement;
+    }
+
     const { deductions, duration, hourlyRate, hoursPerWeek } = contract;
     
     // Calculate 401k deduction if percentage is specified
@@ -168,6 +242,26 @@ export class ContractCalculationEngine {
       retirement401k = Decimal.max(retirement401k, percentageDeduction);
     }
     
+    return {
+      electiveDeferral: retirement401k.toNumber(),
+      rothPercent: 0,
+      employerContribution: 0,
+      sepIra: 0,
+      hsa: 0,
+      hsaCoverage: 'SELF',
+      priorDeferrals: 0
+    };
+  }
+
+  /**
+   * Calculate deductions breakdown
+   */
+  private calculateDeductions(contract: ContractInput, retirement: RetirementPlan) {
+    const { deductions, duration } = contract;
+    
+    const retirement401k = retirement.preTaxDeferral.add(retirement.rothDeferral);
+    const hsa = retirement.hsa;
+    const selfEmployedRetirement = retirement.employerContribution.add(retirement.sepIra);
     const healthInsurance = new Decimal(deductions.healthInsurance || 0).mul(duration);
     const dentalInsurance = new Decimal(deductions.dentalInsurance || 0).mul(duration);
     const visionInsurance = new Decimal(deductions.visionInsurance || 0).mul(duration);
@@ -176,13 +270,16 @@ export class ContractCalculationEngine {
     const other = new Decimal(deductions.other || 0);
     
     const total = healthInsurance.add(dentalInsurance).add(visionInsurance)
-      .add(retirement401k).add(professionalFees).add(parking).add(other);
+      .add(retirement401k).add(hsa).add(selfEmployedRetirement)
+      .add(professionalFees).add(parking).add(other);
     
     return {
       healthInsurance,
       dentalInsurance,
       visionInsurance,
       retirement401k,
+      hsa,
+      selfEmployedRetirement,
       professionalFees,
       parking,
       other,
@@ -190,25 +287,103 @@ export class ContractCalculationEngine {
     };
   }
 
+  /**
+   * Calculate deductible business expenses for 1099 contracts
+   */
+  private calculateBusinessExpenses(contract: ContractInput) {
+    const { businessExpenses } = contract;
+    
+    const malpracticeInsurance = new Decimal(businessExpenses.malpracticeInsurance || 0);
+    const licensure = new Decimal(businessExpenses.licensure || 0);
+    const cme = new Decimal(businessExpenses.cme || 0);
+    const travel = new Decimal(businessExpenses.travel || 0);
+    const equipment = new Decimal(businessExpenses.equipment || 0);
+    const professionalServices = new Decimal(businessExpenses.professionalServices || 0);
+    const other = new Decimal(businessExpenses.other || 0);
+    
+    const total = malpracticeInsurance.add(licensure).add(cme).add(travel)
+      .add(equipment).add(professionalServices).add(other);
+    
+    return {
+      malpracticeInsurance,
+      licensure,
+      cme,
+      travel,
+      equipment,
+      professionalServices,
+      other,
+      total
+    };
+  }
+
   /**
    * Calculate taxes using TaxCalculator
    */
   private async calculateTaxes(
     contract: ContractInput, 
     grossPay: Decimal, 
-    deductions: Decimal
+    deductions: { total: Decimal; retirement401k: Decimal; hsa: Decimal; selfEmployedRetirement: Decimal },
+    retirement: RetirementPlan,
+    businessExpenses?: Decimal
   ) {
-    const taxableIncome = grossPay.minus(deductions);
+    // Retirement and HSA contributions are applied by the tax calculator
+    const otherDeductions = deductions.total
+      .minus(deductions.retirement401k)
+      .minus(deductions.hsa)
+      .minus(deductions.selfEmployedRetirement);
+    const taxableIncome = grossPay.minus(otherDeductions);
+    const taxYear = this.taxCalculator.resolveTaxYear(contract.startDate);
     
     const taxes = await this.taxCalculator.calculateAnnualTaxes({
       grossIncome: taxableIncome,
       state: contract.location.state,
       filingStatus: contract.taxInfo.filingStatus,
       exemptions: contract.taxInfo.federalExemptions,
-      isResident: contract.taxInfo.isResident
+      stateExemptions: contract.taxInfo.stateExemptions,
+      isResident: contract.taxInfo.isResident,
+      taxYear,
+      workLocation: contract.location,
+      homeLocation: contract.taxInfo.isResident ? contract.location : contract.taxInfo.residence,
+      workerClassification: contract.workerClassification,
+      businessExpenses,
+      retirement
+    });
+    
+    if (!contract.multiState) {
+      return taxes;
+    }
+
+    // Replace single-state taxes with the apportioned liability of every state
+    const { homeState, apportionBy, workStates } = contract.multiState;
+    const { selfEmployment } = taxes;
+    const apportioned = this.multiStateCalculator.calculate({
+      grossIncome: taxes.stateIncome,
+      homeState,
+      filingStatus: contract.taxInfo.filingStatus,
+      workStates: workStates.map(segment => ({
+        state: segment.state,
+        units: apportionBy === 'HOURS' ? segment.hours : segment.days
+      })),
+      taxYear,
+      stateExemptions: contract.taxInfo.stateExemptions
     });
+
+    // State disability programs only cover employees
+    const stateDisability = selfEmployment ? new Decimal(0) : apportioned.stateDisability;
+    const total = taxes.total
+      .minus(taxes.state)
+      .minus(taxes.stateDisability)
+      .add(apportioned.stateTax)
+      .add(stateDisability);
     
-    return taxes;
+    return {
+      ...taxes,
+      state: apportioned.stateTax,
+      stateDisability,
+      total,
+      effectiveRate: total.div(taxableIncome).mul(100),
+      byState: apportioned.states
+    };
   }
 
   /**
@@ -0,0 +1,172 @@
+import { USState, US_STATES } from '../types';
+import { splitCsvLine } from '../utils';
+
+export interface CostOfLivingArea {
+  name: string;
+  state: USState;
+  // ZIP codes or ZIP prefixes; the longest matching prefix wins, so a county
+  // or city entry can refine its metro
+  zipPrefixes: string[];
+  costOfLivingIndex: number; // 100 = national average
+  housingCostIndex: number;
+}
+
+export interface CostOfLivingLocation {
+  state: USState;
+  zipCode?: string;
+}
+
+// Metro and county cost-of-living indexes (national average = 100). Areas
+// that are not listed fall back to the state average.
+export const METRO_COST_OF_LIVING: CostOfLivingArea[] = [
+  { name: 'San Francisco', state: 'CA', zipPrefixes: ['940', '941', '944'], costOfLivingIndex: 179.1, housingCostIndex: 330.4 },
+  { name: 'San Jose', state: 'CA', zipPrefixes: ['950', '951'], costOfLivingIndex: 186.4, housingCostIndex: 349.8 },
+  { name: 'Oakland', state: 'CA', zipPrefixes: ['945', '946', '947'], costOfLivingIndex: 151.2, housingCostIndex: 241.5 },
+  { name: 'Los Angeles', state: 'CA', zipPrefixes: ['900', '901', '902', '903', '904', '905', '906', '907', '908', '910', '911', '912', '913', '914', '915', '916', '917', '918'], costOfLivingIndex: 146.3, housingCostIndex: 214.7 },
+  { name: 'Orange County', state: 'CA', zipPrefixes: ['926', '927', '928'], costOfLivingIndex: 151.8, housingCostIndex: 231.2 },
+  { name: 'San Diego', state: 'CA', zipPrefixes: ['919', '920', '921'], costOfLivingIndex: 143.5, housingCostIndex: 210.3 },
+  { name: 'Sacramento', state: 'CA', zipPrefixes: ['956', '957', '958'], costOfLivingIndex: 117.4, housingCostIndex: 141.6 },
+  { name: 'Fresno', state: 'CA', zipPrefixes: ['936', '937'], costOfLivingIndex: 101.2, housingCostIndex: 99.8 },
+  { name: 'Manhattan', state: 'NY', zipPrefixes: ['100', '101', '102'], costOfLivingIndex: 226.1, housingCostIndex: 461.2 },
+  { name: 'Brooklyn', state: 'NY', zipPrefixes: ['112'], costOfLivingIndex: 165.4, housingCostIndex: 279.6 },
+  { name: 'Queens', state: 'NY', zipPrefixes: ['110', '111', '113', '114', '116'], costOfLivingIndex: 149.8, housingCostIndex: 238.9 },
+  { name: 'Bronx', state: 'NY', zipPrefixes: ['104'], costOfLivingIndex: 127.3, housingCostIndex: 160.2 },
+  { name: 'Buffalo', state: 'NY', zipPrefixes: ['142'], costOfLivingIndex: 92.6, housingCostIndex: 78.4 },
+  { name: 'Boston', state: 'MA', zipPrefixes: ['021', '022'], costOfLivingIndex: 148.7, housingCostIndex: 229.8 },
+  { name: 'Seattle', state: 'WA', zipPrefixes: ['980', '981'], costOfLivingIndex: 152.3, housingCostIndex: 214.9 },
+  { name: 'Spokane', state: 'WA', zipPrefixes: ['992'], costOfLivingIndex: 97.4, housingCostIndex: 98.1 },
+  { name: 'Chicago', state: 'IL', zipPrefixes: ['606', '607', '608'], costOfLivingIndex: 108.2, housingCostIndex: 120.4 },
+  { name: 'Denver', state: 'CO', zipPrefixes: ['800', '801', '802'], costOfLivingIndex: 111.3, housingCostIndex: 135.2 },
+  { name: 'Miami', state: 'FL', zipPrefixes: ['330', '331', '332'], costOfLivingIndex: 121.4, housingCostIndex: 155.3 },
+  { name: 'Houston', state: 'TX', zipPrefixes: ['770', '771', '772'], costOfLivingIndex: 95.1, housingCostIndex: 86.3 },
+  { name: 'Dallas', state: 'TX', zipPrefixes: ['750', '751', '752', '753'], costOfLivingIndex: 102.4, housingCostIndex: 103.1 },
+  { name: 'Austin', state: 'TX', zipPrefixes: ['786', '787'], costOfLivingIndex: 104.2, housingCostIndex: 112.6 },
+  { name: 'Phoenix', state: 'AZ', zipPrefixes: ['850', '852', '853'], costOfLivingIndex: 104.1, housingCostIndex: 115.4 },
+  { name: 'Atlanta', state: 'GA', zipPrefixes: ['300', '301', '303'], costOfLivingIndex: 102.3, housingCostIndex: 105.2 },
+  { name: 'Philadelphia', state: 'PA', zipPrefixes: ['190', '191'], costOfLivingIndex: 105.3, housingCostIndex: 112.1 },
+  { name: 'Pittsburgh', state: 'PA', zipPrefixes: ['150', '151', '152'], costOfLivingIndex: 92.4, housingCostIndex: 80.2 },
+  { name: 'Minneapolis / St. Paul', state: 'MN', zipPrefixes: ['550', '551', '553', '554'], costOfLivingIndex: 106.1, housingCostIndex: 109.4 },
+  { name: 'Portland', state: 'OR', zipPrefixes: ['970', '971', '972'], costOfLivingIndex: 115.2, housingCostIndex: 140.3 },
+  { name: 'Arlington / Alexandria', state: 'VA', zipPrefixes: ['220', '221', '222', '223'], costOfLivingIndex: 140.1, housingCostIndex: 205.6 },
+  { name: 'Des Moines', state: 'IA', zipPrefixes: ['500', '503'], costOfLivingIndex: 89.2, housingCostIndex: 76.3 },
+  { name: 'Nashville', state: 'TN', zipPrefixes: ['370', '371', '372'], costOfLivingIndex: 100.4, housingCostIndex: 105.1 },
+  { name: 'Honolulu', state: 'HI', zipPrefixes: ['967', '968'], costOfLivingIndex: 180.2, housingCostIndex: 310.4 },
+  { name: 'Anchorage', state: 'AK', zipPrefixes: ['995'], costOfLivingIndex: 123.1, housingCostIndex: 130.2 },
+  { name: 'Albuquerque', state: 'NM', zipPrefixes: ['870', '871'], costOfLivingIndex: 93.2, housingCostIndex: 88.4 },
+  { name: 'Detroit', state: 'MI', zipPrefixes: ['480', '481', '482'], costOfLivingIndex: 91.3, housingCostIndex: 67.2 },
+  { name: 'Cleveland', state: 'OH', zipPrefixes: ['440', '441'], costOfLivingIndex: 90.1, housingCostIndex: 72.4 },
+  { name: 'Salt Lake City', state: 'UT', zipPrefixes: ['840', '841'], costOfLivingIndex: 106.3, housingCostIndex: 125.1 }
+];
+
+const CSV_COLUMNS = ['name', 'state', 'zip_prefixes', 'cost_of_living_index', 'housing_cost_index'];
+
+/**
+ * Parse a cost-of-living dataset from CSV. The header row must contain
+ * name, state, zip_prefixes, cost_of_living_index and housing_cost_index;
+ * ZIP prefixes are separated by spaces or semicolons.
+ */
+export function parseCostOfLivingCsv(csv: string): CostOfLivingArea[] {
+  const lines = csv.split(/\r?\n/).map(line => line.trim());
+  const headerIndex = lines.findIndex(line => line.length > 0);
+  if (headerIndex === -1) {
+    return [];
+  }
+
+  const header = splitCsvLine(lines[headerIndex]).map(column => column.toLowerCase());
+  const missing = CSV_COLUMNS.filter(column => !header.includes(column));
+  if (missing.length > 0) {
+    throw new Error(`Cost of living CSV is missing columns: ${missing.join(', ')}`);
+  }
+  const column = (values: string[], name: string) => values[header.indexOf(name)] ?? '';
+
+  const areas: CostOfLivingArea[] = [];
+  lines.slice(headerIndex + 1).forEach((line, offset) => {
+    if (!line) return;
+    const lineNumber = headerIndex + offset + 2;
+    const values = splitCsvLine(line);
+
+    const state = column(values, 'state').toUpperCase() as USState;
+    if (!US_STATES.includes(state)) {
+      throw new Error(`Invalid state "${column(values, 'state')}" on line ${lineNumber} of cost of living CSV`);
+    }
+
+    const zipPrefixes = column(values, 'zip_prefixes').split(/[\s;]+/).filter(Boolean);
+    if (zipPrefixes.length === 0 || zipPrefixes.some(prefix => !/^\d{1,5}$/.test(prefix))) {
+      throw new Error(`Invalid ZIP prefixes on line ${lineNumber} of cost of living CSV`);
+    }
+
+    const costOfLivingIndex = Number(column(values, 'cost_of_living_index'));
+    const housingCostIndex = Number(column(values, 'housing_cost_index'));
+    if (!(costOfLivingIndex > 0) || !(housingCostIndex > 0)) {
+      throw new Error(`Invalid index on line ${lineNumber} of cost of living CSV`);
+    }
+
+    areas.push({
+      name: column(values, 'name'),
+      state,
+      zipPrefixes,
+      costOfLivingIndex,
+      housingCostIndex
+    });
+  });
+
+  return areas;
+}
+
+/**
+ * Lookup of metro and county cost-of-living indexes by ZIP code
+ */
+export class CostOfLivingDirectory {
+  private areas: CostOfLivingArea[];
+
+  constructor(areas: CostOfLivingArea[] = METRO_COST_OF_LIVING) {
+    this.areas = [...areas];
+  }
+
+  /**
+   * Find the area for a location by the longest matching ZIP prefix within
+   * the same state
+   */
+  findArea(location: CostOfLivingLocation): CostOfLivingArea | undefined {
+    if (!location.zipCode) {
+      return undefined;
+    }
+
+    const zip = location.zipCode.slice(0, 5);
+    let bestMatch: CostOfLivingArea | undefined;
+    let bestLength = 0;
+
+    for (const area of this.areas) {
+      if (area.state !== location.state) continue;
+      for (const prefix of area.zipPrefixes) {
+        if (zip.startsWith(prefix) && prefix.length > bestLength) {
+          bestMatch = area;
+          bestLength = prefix.length;
+        }
+      }
+    }
+
+    return bestMatch;
+  }
+
+  /**
+   * Load areas from CSV. Rows replace existing areas with the same name and
+   * state unless `replace` discards the current dataset entirely. Returns the
+   * number of rows loaded.
+   */
+  loadCsv(csv: string, options: { replace?: boolean } = {}): number {
+    const loaded = parseCostOfLivingCsv(csv);
+    const key = (area: CostOfLivingArea) => `${area.state}:${area.name.toLowerCase()}`;
+    const loadedKeys = new Set(loaded.map(key));
+
+    this.areas = options.replace
+      ? loaded
+      : [...this.areas.filter(area => !loadedKeys.has(key(area))), ...loaded];
+
+    return loaded.length;
+  }
+
+  getAreas(): CostOfLivingArea[] {
+    return [...this.areas];
+  }
+}
@@ -0,0 +1,349 @@
+import { Decimal } from 'decimal.js';
+import { addDays, differenceInCalendarDays, max as maxDate, min as minDate } from 'date-fns';
+import {
+  ContractCalculationResult,
+  ContractInput,
+  EstimatedTaxInstallment,
+  EstimatedTaxPlan,
+  FilingStatus
+} from '../types';
+import { formatCurrency } from '../utils';
+import { ContractCalculationEngine } from './contract';
+import { TaxCalculator } from './tax-calculator';
+
+export interface EstimatedTaxPlanInput {
+  taxYear: number;
+  filingStatus: FilingStatus;
+  // Contracts worked during the year; income is spread evenly over each one
+  contracts: ContractInput[];
+  priorYearTax?: number;
+  priorYearAgi?: number;
+  // Estimated payments made (or planned) for each installment, on its due date
+  payments?: number[];
+}
+
+interface AnnualizationPeriod {
+  installment: 1 | 2 | 3 | 4;
+  // First day after the period, i.e. income is counted through the day before
+  periodEnd: (year: number) => Date;
+  dueDate: (year: number) => Date;
+  factor: number;
+  applicablePercentage: number;
+}
+
+interface IncomeTotals {
+  wages: Decimal;
+  selfEmploymentIncome: Decimal;
+  adjustments: Decimal;
+  withholding: Decimal;
+}
+
+interface IncomeSegment extends IncomeTotals {
+  label: string;
+  start: Date;
+  end: Date;
+}
+
+// Form 2210 Schedule AI annualization periods
+const ANNUALIZATION_PERIODS: AnnualizationPeriod[] = [
+  {
+    installment: 1,
+    periodEnd: year => new Date(year, 3, 1),
+    dueDate: year => new Date(year, 3, 15),
+    factor: 4,
+    applicablePercentage: 0.225
+  },
+  {
+    installment: 2,
+    periodEnd: year => new Date(year, 5, 1),
+    dueDate: year => new Date(year, 5, 15),
+    factor: 2.4,
+    applicablePercentage: 0.45
+  },
+  {
+    installment: 3,
+    periodEnd: year => new Date(year, 8, 1),
+    dueDate: year => new Date(year, 8, 15),
+    factor: 1.5,
+    applicablePercentage: 0.675
+  },
+  {
+    installment: 4,
+    periodEnd: year => new Date(year + 1, 0, 1),
+    dueDate: year => new Date(year + 1, 0, 15),
+    factor: 1,
+    applicablePercentage: 0.9
+  }
+];
+
+// No penalty applies when the balance due after withholding is below this
+const MINIMUM_BALANCE_DUE = 1000;
+
+// Prior-year AGI above which the prior-year safe harbor is 110%
+const HIGH_INCOME_AGI = 150000;
+const HIGH_INCOME_AGI_SEPARATE = 75000;
+
+/**
+ * Plans quarterly federal estimated tax payments for a year of contracts.
+ *
+ * Installments follow the annualized income installment method (Form 2210
+ * Schedule AI), so contracts that start late in the year push payments to
+ * later due dates instead of spreading them evenly. Each installment is
+ * capped at the regular safe-harbor installment, and any shortfall against
+ * the payments actually made is charged the IRS underpayment rate until it
+ * is paid or the return is due.
+ */
+export class EstimatedTaxPlanner {
+  private contractEngine: ContractCalculationEngine;
+  private taxCalculator: TaxCalculator;
+
+  constructor(
+    contractEngine: ContractCalculationEngine = new ContractCalculationEngine(),
+    taxCalculator: TaxCalculator = new TaxCalculator()
+  ) {
+    this.contractEngine = contractEngine;
+    this.taxCalculator = taxCalculator;
+  }
+
+  /**
+   * Build the installment schedule and estimate the underpayment penalty
+   */
+  async plan(input: EstimatedTaxPlanInput): Promise<EstimatedTaxPlan> {
+    const { taxYear, filingStatus } = input;
+    const table = this.taxCalculator.getTaxYearTable(taxYear);
+    const warnings: string[] = [];
+
+    const results = await Promise.all(
+      input.contracts.map(contract => this.contractEngine.calculateContract(contract))
+    );
+    const segments = results.map(result => this.toIncomeSegment(result));
+    const yearStart = new Date(taxYear, 0, 1);
+    const yearEnd = new Date(taxYear + 1, 0, 1);
+
+    segments.forEach(segment => {
+      if (segment.start < yearStart || segment.end > yearEnd) {
+        warnings.push(`${segment.label} extends outside ${taxYear}; only income earned during ${taxYear} is included.`);
+      }
+    });
+
+    // Liability on the income actually earned during the year
+    const annual = this.sumThrough(segments, yearStart, yearEnd);
+    const estimatedTax = this.calculateLiability(annual, filingStatus, taxYear);
+    const withholding = annual.withholding;
+
+    // Required annual payment: the lesser of 90% of this year's tax and
+    // 100% (110% for higher earners) of last year's tax
+    const currentYearSafeHarbor = estimatedTax.mul(0.9);
+    let priorYearSafeHarbor: Decimal | undefined;
+    if (input.priorYearTax !== undefined) {
+      const threshold = filingStatus === 'MARRIED_FILING_SEPARATELY' ? HIGH_INCOME_AGI_SEPARATE : HIGH_INCOME_AGI;
+      const rate = (input.priorYearAgi ?? 0) > threshold ? 1.1 : 1;
+      priorYearSafeHarbor = new Decimal(input.priorYearTax).mul(rate);
+    }
+    const requiredAnnualPayment = priorYearSafeHarbor
+      ? Decimal.min(currentYearSafeHarbor, priorYearSafeHarbor)
+      : currentYearSafeHarbor;
+
+    // Withholding is treated as paid evenly on the four due dates
+    const withholdingPerInstallment = withholding.div(ANNUALIZATION_PERIODS.length);
+    const installments: EstimatedTaxInstallment[] = [];
+    let requiredToDate = new Decimal(0);
+    let carryover = new Decimal(0);
+    let credit = new Decimal(0);
+    let method: EstimatedTaxPlan['method'] = 'REGULAR';
+
+    for (const period of ANNUALIZATION_PERIODS) {
+      const cumulative = this.sumThrough(segments, yearStart, period.periodEnd(taxYear));
+      const annualized = this.scale(cumulative, period.factor);
+      const annualizedTax = this.calculateLiability(annualized, filingStatus, taxYear);
+
+      const annualizedInstallment = Decimal.max(
+        0,
+        annualizedTax.mul(period.applicablePercentage).minus(requiredToDate)
+      );
+      const regularInstallment = requiredAnnualPayment.mul(0.25).add(carryover);
+      const requiredInstallment = Decimal.min(annualizedInstallment, regularInstallment);
+
+      if (annualizedInstallment.lt(regularInstallment)) {
+        method = 'ANNUALIZED';
+      }
+      carryover = regularInstallment.minus(requiredInstallment);
+      requiredToDate = requiredToDate.add(requiredInstallment);
+
+      const available = withholdingPerInstallment.add(credit);
+      const recommendedPayment = Decimal.max(0, requiredInstallment.minus(available));
+      credit = Decimal.max(0, available.minus(requiredInstallment));
+
+      installments.push({
+        installment: period.installment,
+        periodEnd: addDays(period.periodEnd(taxYear), -1),
+        dueDate: period.dueDate(taxYear),
+        cumulativeIncome: cumulative.wages.add(cumulative.selfEmploymentIncome),
+        annualizedIncome: annualized.wages.add(annualized.selfEmploymentIncome),
+        annualizedInstallment,
+        regularInstallment,
+        requiredInstallment,
+        withholding: withholdingPerInstallment,
+        recommendedPayment,
+        payment: new Decimal(input.payments?.[period.installment - 1] ?? recommendedPayment),
+        underpayment: new Decimal(0),
+        penalty: new Decimal(0)
+      });
+    }
+
+    const penaltyApplies = estimatedTax.minus(withholding).gte(MINIMUM_BALANCE_DUE);
+    if (penaltyApplies) {
+      this.calculatePenalties(installments, new Date(taxYear + 1, 3, 15), table.federal.underpaymentRate);
+    }
+
+    const totalPenalty = installments.reduce((total, installment) => total.add(installment.penalty), new Decimal(0));
+    if (totalPenalty.gt(0)) {
+      warnings.push(
+        `Planned payments fall short of the required installments; the estimated underpayment penalty is ` +
+        `${formatCurrency(totalPenalty.toNumber())}.`
+      );
+    }
+
+    return {
+      taxYear,
+      filingStatus,
+      totalIncome: annual.wages.add(annual.selfEmploymentIncome),
+      estimatedTax,
+      withholding,
+      currentYearSafeHarbor,
+      priorYearSafeHarbor,
+      requiredAnnualPayment,
+      method,
+      installments,
+      totalRecommended: installments.reduce(
+        (total, installment) => total.add(installment.recommendedPayment),
+        new Decimal(0)
+      ),
+      totalPenalty,
+      penaltyApplies,
+      warnings
+    };
+  }
+
+  /**
+   * Apply withholding and payments to the earliest underpaid installment
+   * first, charging interest on each shortfall until it is covered or the
+   * return is due
+   */
+  private calculatePenalties(installments: EstimatedTaxInstallment[], returnDueDate: Date, rate: number): void {
+    const outstanding: Array<{ installment: EstimatedTaxInstallment; amount: Decimal }> = [];
+    let surplus = new Decimal(0);
+
+    const accrue = (amount: Decimal, from: Date, to: Date) =>
+      amount.mul(rate).mul(Math.max(0, differenceInCalendarDays(to, from))).div(365);
+
+    for (const installment of installments) {
+      let available = installment.withholding.add(installment.payment).add(surplus);
+
+      for (const shortfall of outstanding) {
+        const applied = Decimal.min(available, shortfall.amount);
+        if (applied.lte(0)) break;
+        shortfall.installment.penalty = shortfall.installment.penalty.add(
+          accrue(applied, shortfall.installment.dueDate, installment.dueDate)
+        );
+        shortfall.amount = shortfall.amount.minus(applied);
+        available = available.minus(applied);
+      }
+
+      if (available.gte(installment.requiredInstallment)) {
+        surplus = available.minus(installment.requiredInstallment);
+      } else {
+        installment.underpayment = installment.requiredInstallment.minus(available);
+        outstanding.push({ installment, amount: installment.underpayment });
+        surplus = new Decimal(0);
+      }
+    }
+
+    for (const shortfall of outstanding) {
+      shortfall.installment.penalty = shortfall.installment.penalty.add(
+        accrue(shortfall.amount, shortfall.installment.dueDate, returnDueDate)
+      );
+    }
+  }
+
+  /**
+   * Federal income for a contract: W-2 wages after pre-tax deductions, or
+   * 1099 net profit with its above-the-line adjustments
+   */
+  private toIncomeSegment(result: ContractCalculationResult): IncomeSegment {
+    const { contract, breakdown } = result;
+    const { taxes } = breakdown;
+    const start = contract.startDate;
+    const end = addDays(start, Math.round(contract.duration * 7));
+    const label = contract.title;
+
+    if (taxes.selfEmployment) {
+      const { netProfit, deductibleHalf } = taxes.selfEmployment;
+      const adjustedGrossIncome = taxes.adjustedGrossIncome || netProfit.minus(deductibleHalf);
+      return {
+        label,
+        start,
+        end,
+        wages: new Decimal(0),
+        selfEmploymentIncome: netProfit,
+        adjustments: Decimal.max(0, netProfit.minus(deductibleHalf).minus(adjustedGrossIncome)),
+        withholding: new Decimal(0)
+      };
+    }
+
+    return {
+      label,
+      start,
+      end,
+      wages: taxes.adjustedGrossIncome || result.totals.grossAnnualPay,
+      selfEmploymentIncome: new Decimal(0),
+      adjustments: new Decimal(0),
+      withholding: taxes.federal
+    };
+  }
+
+  /**
+   * Income earned between two dates, assuming each contract pays evenly
+   */
+  private sumThrough(segments: IncomeSegment[], from: Date, to: Date): IncomeTotals {
+    const zero = new Decimal(0);
+    const totals: IncomeTotals = { wages: zero, selfEmploymentIncome: zero, adjustments: zero, withholding: zero };
+
+    for (const segment of segments) {
+      const days = differenceInCalendarDays(segment.end, segment.start);
+      const overlap = differenceInCalendarDays(minDate([segment.end, to]), maxDate([segment.start, from]));
+      if (days <= 0 || overlap <= 0) continue;
+
+      const share = new Decimal(overlap).div(days);
+      totals.wages = totals.wages.add(segment.wages.mul(share));
+      totals.selfEmploymentIncome = totals.selfEmploymentIncome.add(segment.selfEmploymentIncome.mul(share));
+      totals.adjustments = totals.adjustments.add(segment.adjustments.mul(share));
+      totals.withholding = totals.withholding.add(segment.withholding.mul(share));
+    }
+
+    return totals;
+  }
+
+  private scale(income: IncomeTotals, factor: number): IncomeTotals {
+    return {
+      wages: income.wages.mul(factor),
+      selfEmploymentIncome: income.selfEmploymentIncome.mul(factor),
+      adjustments: income.adjustments.mul(factor),
+      withholding: income.withholding.mul(factor)
+    };
+  }
+
+  private calculateLiability(
+    income: IncomeTotals,
+    filingStatus: FilingStatus,
+    taxYear: number
+  ): Decimal {
+    return this.taxCalculator.calculateFederalLiability({
+      wages: income.wages,
+      selfEmploymentIncome: income.selfEmploymentIncome,
+      adjustments: income.adjustments,
+      filingStatus,
+      taxYear
+    }).total;
+  }
+}
@@ -0,0 +1,184 @@
+import { Decimal } from 'decimal.js';
+import { addWeeks } from 'date-fns';
+import {
+  ContractInput,
+  ContractType,
+  FilingStatus,
+  JobCompensation,
+  JobCompensationInput,
+  JobCompensationSchema,
+  USState
+} from '../types';
+
+export interface JobPosting {
+  title: string;
+  specialty?: string;
+  location: {
+    state: USState;
+    city: string;
+    zipCode?: string;
+  };
+  contractType?: ContractType;
+  startDate?: Date;
+  compensation: JobCompensationInput;
+}
+
+export interface JobContractOptions {
+  // Which end of the posted rate range to use
+  rate?: 'MIN' | 'MIDPOINT' | 'MAX';
+  filingStatus?: FilingStatus;
+  startDate?: Date;
+}
+
+export interface CompensationRange {
+  min: Decimal;
+  max: Decimal;
+}
+
+const WEEKS_PER_YEAR = 52;
+
+// Assignment length used when a posting does not give one
+const DEFAULT_DURATION_WEEKS = 13;
+
+/**
+ * Converts structured job compensation to hourly and annual figures, and to
+ * a contract calculator input so a posting can be run through the
+ * calculator as-is.
+ */
+export class JobCompensationCalculator {
+  /**
+   * Hourly equivalent of the posted rate range
+   */
+  getHourlyRange(compensationInput: JobCompensationInput): CompensationRange {
+    const compensation = JobCompensationSchema.parse(compensationInput);
+    const toHourly = (rate: number) => this.toHourly(compensation, rate);
+
+    return {
+      min: toHourly(compensation.rateMin),
+      max: toHourly(compensation.rateMax ?? compensation.rateMin)
+    };
+  }
+
+  /**
+   * Annual base pay for the posted rate range, assuming the posted weekly
+   * hours all year. Overtime, call pay and stipends are not included.
+   */
+  annualize(compensationInput: JobCompensationInput): CompensationRange {
+    const compensation = JobCompensationSchema.parse(compensationInput);
+    const toAnnual = (rate: number) => compensation.payBasis === 'ANNUAL'
+      ? new Decimal(rate)
+      : this.toHourly(compensation, rate).mul(compensation.hoursPerWeek).mul(WEEKS_PER_YEAR);
+
+    return {
+      min: toAnnual(compensation.rateMin).toDecimalPlaces(0),
+      max: toAnnual(compensation.rateMax ?? compensation.rateMin).toDecimalPlaces(0)
+    };
+  }
+
+  /**
+   * Build a contract calculator input from a job posting. The location's ZIP
+   * code is left empty when the posting does not have one.
+   */
+  toContractInput(posting: JobPosting, options: JobContractOptions = {}): ContractInput {
+    const compensation = JobCompensationSchema.parse(posting.compensation);
+    const { min, max } = this.getHourlyRange(compensation);
+    const hourlyRate = options.rate === 'MIN'
+      ? min
+      : options.rate === 'MAX'
+        ? max
+        : min.add(max).div(2);
+
+    const duration = compensation.durationWeeks
+      ?? (compensation.payBasis === 'ANNUAL' ? WEEKS_PER_YEAR : DEFAULT_DURATION_WEEKS);
+    const startDate = options.startDate ?? posting.startDate ?? new Date();
+
+    return {
+      title: posting.title,
+      specialty: posting.specialty || 'General',
+      location: {
+        state: posting.location.state,
+        city: posting.location.city,
+        zipCode: posting.location.zipCode || ''
+      },
+      contractType: posting.contractType ?? (compensation.payBasis === 'ANNUAL' ? 'PERMANENT' : 'LOCUM_TENENS'),
+      startDate,
+      endDate: addWeeks(startDate, duration),
+      duration,
+      hourlyRate: hourlyRate.toDecimalPlaces(2).toNumber(),
+      hoursPerWeek: compensation.hoursPerWeek,
+      overtimeRate: compensation.overtimeRate,
+      overtimeThreshold: compensation.overtimeThreshold,
+      ...(compensation.callRate && compensation.callHoursPerWeek > 0 && {
+        callPay: { rate: compensation.callRate, hoursPerWeek: compensation.callHoursPerWeek }
+      }),
+      bonuses: [],
+      stipends: { ...compensation.stipends },
+      deductions: {
+        healthInsurance: 0,
+        dentalInsurance: 0,
+        visionInsurance: 0,
+        retirement401k: 0,
+        professionalFees: 0,
+        parking: 0,
+        other: 0
+      },
+      businessExpenses: {
+        malpracticeInsurance: 0,
+        licensure: 0,
+        cme: 0,
+        travel: 0,
+        equipment: 0,
+        professionalServices: 0,
+        other: 0
+      },
+      workerClassification: compensation.workerClassification,
+      taxInfo: {
+        filingStatus: options.filingStatus ?? 'SINGLE',
+        federalExemptions: 0,
+        stateExemptions: 0,
+        additionalFederalWithholding: 0,
+        additionalStateWithholding: 0,
+        isResident: true
+      }
+    };
+  }
+
+  /**
+   * Structured compensation for a contract, e.g. to post a calculated
+   * contract as a job
+   */
+  fromContractInput(contract: ContractInput): JobCompensation {
+    return JobCompensationSchema.parse({
+      payBasis: 'HOURLY',
+      rateMin: contract.hourlyRate,
+      hoursPerWeek: contract.hoursPerWeek,
+      durationWeeks: Number.isInteger(contract.duration) ? contract.duration : undefined,
+      overtimeRate: contract.overtimeRate,
+      overtimeThreshold: contract.overtimeThreshold,
+      callRate: contract.callPay?.rate,
+      callHoursPerWeek: contract.callPay?.hoursPerWeek ?? 0,
+      stipends: {
+        housing: contract.stipends.housing,
+        meals: contract.stipends.meals,
+        travel: contract.stipends.travel,
+        licensure: contract.stipends.licensure,
+        malpractice: contract.stipends.malpractice,
+        cme: contract.stipends.cme,
+        other: contract.stipends.other
+      },
+      workerClassification: contract.workerClassification
+    });
+  }
+
+  private toHourly(compensation: JobCompensation, rate: number): Decimal {
+    switch (compensation.payBasis) {
+      case 'HOURLY':
+        return new Decimal(rate);
+      case 'DAILY':
+      case 'SHIFT':
+        return new Decimal(rate).div(compensation.hoursPerShift!);
+      case 'ANNUAL':
+        return new Decimal(rate).div(compensation.hoursPerWeek).div(WEEKS_PER_YEAR);
+    }
+  }
+}
@@ -0,0 +1,329 @@
+import { USState } from '../types';
+import { TaxBracket, FilingStatusTable, progressive, flat } from './tax-tables';
+
+export interface LocalTaxSchedule {
+  // WAGES: gross wages, STATE_TAXABLE: state taxable income,
+  // STATE_TAX: a surcharge on state income tax (e.g. Yonkers)
+  base: 'WAGES' | 'STATE_TAXABLE' | 'STATE_TAX';
+  brackets: FilingStatusTable<TaxBracket[]>;
+}
+
+export interface LocalTaxJurisdiction {
+  id: string;
+  name: string;
+  state: USState;
+  cities: string[];
+  // ZIP codes or ZIP prefixes; the longest matching prefix wins
+  zipPrefixes: string[];
+  resident: LocalTaxSchedule | null;
+  nonresident: LocalTaxSchedule | null;
+}
+
+export interface LocalTaxLocation {
+  state: USState;
+  city?: string;
+  zipCode?: string;
+}
+
+const wageTax = (rate: number): LocalTaxSchedule => ({
+  base: 'WAGES',
+  brackets: { SINGLE: flat(rate), MARRIED_FILING_JOINTLY: flat(rate) }
+});
+
+const incomeTax = (rate: number): LocalTaxSchedule => ({
+  base: 'STATE_TAXABLE',
+  brackets: { SINGLE: flat(rate), MARRIED_FILING_JOINTLY: flat(rate) }
+});
+
+// Local income and wage taxes on employee compensation. ZIP prefixes
+// approximate city limits; an exact city name match takes precedence.
+export const LOCAL_TAX_JURISDICTIONS: LocalTaxJurisdiction[] = [
+  {
+    id: 'NY-NYC',
+    name: 'New York City',
+    state: 'NY',
+    cities: ['New York', 'New York City', 'Manhattan', 'Brooklyn', 'Bronx', 'Queens', 'Staten Island'],
+    zipPrefixes: ['100', '101', '102', '103', '104', '111', '112', '113', '114', '116'],
+    resident: {
+      base: 'STATE_TAXABLE',
+      brackets: {
+        SINGLE: progressive([0.03078, 0.03762, 0.03819, 0.03876], [12000, 25000, 50000]),
+        MARRIED_FILING_JOINTLY: progressive([0.03078, 0.03762, 0.03819, 0.03876], [21600, 45000, 90000]),
+        HEAD_OF_HOUSEHOLD: progressive([0.03078, 0.03762, 0.03819, 0.03876], [14400, 30000, 60000])
+      }
+    },
+    nonresident: null
+  },
+  {
+    id: 'NY-YONKERS',
+    name: 'Yonkers',
+    state: 'NY',
+    cities: ['Yonkers'],
+    zipPrefixes: ['1070', '10710'],
+    resident: {
+      base: 'STATE_TAX',
+      brackets: { SINGLE: flat(0.1675), MARRIED_FILING_JOINTLY: flat(0.1675) }
+    },
+    nonresident: wageTax(0.005)
+  },
+  {
+    id: 'PA-PHILADELPHIA',
+    name: 'Philadelphia',
+    state: 'PA',
+    cities: ['Philadelphia'],
+    zipPrefixes: ['191'],
+    resident: wageTax(0.0375),
+    nonresident: wageTax(0.0344)
+  },
+  {
+    id: 'PA-PITTSBURGH',
+    name: 'Pittsburgh',
+    state: 'PA',
+    cities: ['Pittsburgh'],
+    zipPrefixes: ['152'],
+    resident: wageTax(0.03),
+    nonresident: null
+  },
+  {
+    id: 'OH-COLUMBUS',
+    name: 'Columbus',
+    state: 'OH',
+    cities: ['Columbus'],
+    zipPrefixes: ['432'],
+    resident: wageTax(0.025),
+    nonresident: wageTax(0.025)
+  },
+  {
+    id: 'OH-CLEVELAND',
+    name: 'Cleveland',
+    state: 'OH',
+    cities: ['Cleveland'],
+    zipPrefixes: ['441'],
+    resident: wageTax(0.025),
+    nonresident: wageTax(0.025)
+  },
+  {
+    id: 'OH-CINCINNATI',
+    name: 'Cincinnati',
+    state: 'OH',
+    cities: ['Cincinnati'],
+    zipPrefixes: ['452'],
+    resident: wageTax(0.018),
+    nonresident: wageTax(0.018)
+  },
+  {
+    id: 'OH-TOLEDO',
+    name: 'Toledo',
+    state: 'OH',
+    cities: ['Toledo'],
+    zipPrefixes: ['436'],
+    resident: wageTax(0.025),
+    nonresident: wageTax(0.025)
+  },
+  {
+    id: 'OH-AKRON',
+    name: 'Akron',
+    state: 'OH',
+    cities: ['Akron'],
+    zipPrefixes: ['443'],
+    resident: wageTax(0.025),
+    nonresident: wageTax(0.025)
+  },
+  {
+    id: 'OH-DAYTON',
+    name: 'Dayton',
+    state: 'OH',
+    cities: ['Dayton'],
+    zipPrefixes: ['454'],
+    resident: wageTax(0.025),
+    nonresident: wageTax(0.025)
+  },
+  {
+    id: 'MI-DETROIT',
+    name: 'Detroit',
+    state: 'MI',
+    cities: ['Detroit'],
+    zipPrefixes: ['482'],
+    resident: wageTax(0.024),
+    nonresident: wageTax(0.012)
+  },
+  {
+    id: 'MI-GRAND-RAPIDS',
+    name: 'Grand Rapids',
+    state: 'MI',
+    cities: ['Grand Rapids'],
+    zipPrefixes: ['495'],
+    resident: wageTax(0.015),
+    nonresident: wageTax(0.0075)
+  },
+  {
+    id: 'MI-LANSING',
+    name: 'Lansing',
+    state: 'MI',
+    cities: ['Lansing'],
+    zipPrefixes: ['489'],
+    resident: wageTax(0.01),
+    nonresident: wageTax(0.005)
+  },
+  {
+    id: 'MO-KANSAS-CITY',
+    name: 'Kansas City',
+    state: 'MO',
+    cities: ['Kansas City'],
+    zipPrefixes: ['641'],
+    resident: wageTax(0.01),
+    nonresident: wageTax(0.01)
+  },
+  {
+    id: 'MO-ST-LOUIS',
+    name: 'St. Louis',
+    state: 'MO',
+    cities: ['St. Louis', 'Saint Louis'],
+    zipPrefixes: ['631'],
+    resident: wageTax(0.01),
+    nonresident: wageTax(0.01)
+  },
+  {
+    id: 'KY-LOUISVILLE',
+    name: 'Louisville Metro',
+    state: 'KY',
+    cities: ['Louisville'],
+    zipPrefixes: ['402'],
+    resident: wageTax(0.022),
+    nonresident: wageTax(0.0145)
+  },
+  {
+    id: 'KY-LEXINGTON',
+    name: 'Lexington-Fayette',
+    state: 'KY',
+    cities: ['Lexington'],
+    zipPrefixes: ['405'],
+    resident: wageTax(0.0225),
+    nonresident: wageTax(0.0225)
+  },
+  {
+    id: 'MD-BALTIMORE-CITY',
+    name: 'Baltimore City',
+    state: 'MD',
+    cities: ['Baltimore'],
+    zipPrefixes: ['212'],
+    resident: incomeTax(0.032),
+    nonresident: null
+  },
+  {
+    id: 'MD-MONTGOMERY',
+    name: 'Montgomery County',
+    state: 'MD',
+    cities: ['Bethesda', 'Rockville', 'Silver Spring', 'Gaithersburg', 'Germantown'],
+    zipPrefixes: ['208', '209'],
+    resident: incomeTax(0.032),
+    nonresident: null
+  },
+  {
+    id: 'IN-MARION',
+    name: 'Marion County',
+    state: 'IN',
+    cities: ['Indianapolis'],
+    zipPrefixes: ['462'],
+    resident: incomeTax(0.0202),
+    nonresident: incomeTax(0.0202)
+  },
+  {
+    id: 'DE-WILMINGTON',
+    name: 'Wilmington',
+    state: 'DE',
+    cities: ['Wilmington'],
+    zipPrefixes: ['198'],
+    resident: wageTax(0.0125),
+    nonresident: wageTax(0.0125)
+  },
+  {
+    id: 'OR-PORTLAND-METRO',
+    name: 'Portland Metro SHS and Multnomah PFA',
+    state: 'OR',
+    cities: ['Portland'],
+    zipPrefixes: ['972'],
+    resident: {
+      base: 'STATE_TAXABLE',
+      brackets: {
+        SINGLE: progressive([0, 0.025, 0.04], [125000, 250000]),
+        MARRIED_FILING_JOINTLY: progressive([0, 0.025, 0.04], [200000, 400000])
+      }
+    },
+    nonresident: {
+      base: 'STATE_TAXABLE',
+      brackets: {
+        SINGLE: progressive([0, 0.025, 0.04], [125000, 250000]),
+        MARRIED_FILING_JOINTLY: progressive([0, 0.025, 0.04], [200000, 400000])
+      }
+    }
+  },
+  {
+    id: 'AL-BIRMINGHAM',
+    name: 'Birmingham',
+    state: 'AL',
+    cities: ['Birmingham'],
+    zipPrefixes: ['352'],
+    resident: wageTax(0.01),
+    nonresident: wageTax(0.01)
+  }
+];
+
+/**
+ * Lookup of local tax jurisdictions by city or ZIP code
+ */
+export class LocalTaxDirectory {
+  private jurisdictions: LocalTaxJurisdiction[];
+
+  constructor(jurisdictions: LocalTaxJurisdiction[] = LOCAL_TAX_JURISDICTIONS) {
+    this.jurisdictions = jurisdictions;
+  }
+
+  /**
+   * Find the jurisdiction for a location, matching city name first and then
+   * the longest ZIP prefix within the same state
+   */
+  findJurisdiction(location: LocalTaxLocation): LocalTaxJurisdiction | undefined {
+    const inState = this.jurisdictions.filter(jurisdiction => jurisdiction.state === location.state);
+
+    if (location.city) {
+      const city = this.normalizeCity(location.city);
+      const byCity = inState.find(jurisdiction =>
+        jurisdiction.cities.some(name => this.normalizeCity(name) === city)
+      );
+      if (byCity) return byCity;
+    }
+
+    if (location.zipCode) {
+      const zip = location.zipCode.slice(0, 5);
+      let bestMatch: LocalTaxJurisdiction | undefined;
+      let bestLength = 0;
+
+      for (const jurisdiction of inState) {
+        for (const prefix of jurisdiction.zipPrefixes) {
+          if (zip.startsWith(prefix) && prefix.length > bestLength) {
+            bestMatch = jurisdiction;
+            bestLength = prefix.length;
+          }
+        }
+      }
+
+      return bestMatch;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Get all jurisdictions in a state
+   */
+  getJurisdictions(state?: USState): LocalTaxJurisdiction[] {
+    return state
+      ? this.jurisdictions.filter(jurisdiction => jurisdiction.state === state)
+      : [...this.jurisdictions];
+  }
+
+  private normalizeCity(city: string): string {
+    return city.trim().toLowerCase().replace(/\./g, '').replace(/\s+/g, ' ');
+  }
+}
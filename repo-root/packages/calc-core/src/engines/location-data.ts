@@ -1,5 +1,6 @@
 import { USState } from '../types';
 import { Decimal } from 'decimal.js';
+import { CostOfLivingArea, CostOfLivingDirectory, CostOfLivingLocation } from './cost-of-living';
 
 interface LocationData {
   state: USState;
@@ -28,7 +29,7 @@ const LOCATION_DATA: Record<USState, LocationData> = {
     qualityOfLifeScore: 6.2,
     healthcareDemand: 'MEDIUM',
     majorCities: ['Birmingham', 'Montgomery', 'Mobile', 'Huntsville'],
-    taxes: { salesTax: 9.22, propertyTaxRate: 0.41, hasLocalIncomeTax: false }
+    taxes: { salesTax: 9.22, propertyTaxRate: 0.41, hasLocalIncomeTax: true }
   },
   'AK': {
     state: 'AK',
@@ -105,7 +106,7 @@ const LOCATION_DATA: Record<USState, LocationData> = {
     qualityOfLifeScore: 6.8,
     healthcareDemand: 'MEDIUM',
     majorCities: ['Wilmington', 'Dover', 'Newark'],
-    taxes: { salesTax: 0.00, propertyTaxRate: 0.57, hasLocalIncomeTax: false }
+    taxes: { salesTax: 0.00, propertyTaxRate: 0.57, hasLocalIncomeTax: true }
   },
   'FL': {
     state: 'FL',
@@ -424,7 +425,7 @@ const LOCATION_DATA: Record<USState, LocationData> = {
     qualityOfLifeScore: 8.0,
     healthcareDemand: 'MEDIUM',
     majorCities: ['Portland', 'Eugene', 'Salem', 'Gresham'],
-    taxes: { salesTax: 0.00, propertyTaxRate: 1.07, hasLocalIncomeTax: false }
+    taxes: { salesTax: 0.00, propertyTaxRate: 1.07, hasLocalIncomeTax: true }
   },
   'PA': {
     state: 'PA',
@@ -571,7 +572,20 @@ const LOCATION_DATA: Record<USState, LocationData> = {
   }
 };
 
+export interface CostOfLivingIndexes {
+  state: USState;
+  area?: string;
+  costOfLivingIndex: number;
+  housingCostIndex: number;
+  source: 'METRO' | 'STATE';
+}
+
 export class LocationDataProvider {
+  private costOfLiving: CostOfLivingDirectory;
+
+  constructor(costOfLiving: CostOfLivingDirectory = new CostOfLivingDirectory()) {
+    this.costOfLiving = costOfLiving;
+  }
   
   /**
    * Get location data for a specific state
@@ -581,11 +595,49 @@ export class LocationDataProvider {
   }
 
   /**
-   * Calculate cost of living adjustment between two states
+   * Cost of living and housing indexes for a location. Uses the metro or
+   * county area matching the ZIP code when there is one, otherwise the
+   * state average.
+   */
+  getCostOfLiving(location: USState | CostOfLivingLocation): CostOfLivingIndexes {
+    const { state, zipCode } = typeof location === 'string' ? { state: location, zipCode: undefined } : location;
+    const area: CostOfLivingArea | undefined = this.costOfLiving.findArea({ state, zipCode });
+
+    if (area) {
+      return {
+        state,
+        area: area.name,
+        costOfLivingIndex: area.costOfLivingIndex,
+        housingCostIndex: area.housingCostIndex,
+        source: 'METRO'
+      };
+    }
+
+    const data = this.getLocationData(state);
+    return {
+      state,
+      costOfLivingIndex: data.costOfLivingIndex,
+      housingCostIndex: data.housingCostIndex,
+      source: 'STATE'
+    };
+  }
+
+  /**
+   * The metro/county dataset, e.g. to refresh it from CSV
+   */
+  getCostOfLivingDirectory(): CostOfLivingDirectory {
+    return this.costOfLiving;
+  }
+
+  /**
+   * Calculate cost of living adjustment between two locations
    */
-  calculateCostOfLivingAdjustment(fromState: USState, toState: USState): Decimal {
-    const fromData = this.getLocationData(fromState);
-    const toData = this.getLocationData(toState);
+  calculateCostOfLivingAdjustment(
+    from: USState | CostOfLivingLocation,
+    to: USState | CostOfLivingLocation
+  ): Decimal {
+    const fromData = this.getCostOfLiving(from);
+    const toData = this.getCostOfLiving(to);
     
     const adjustment = new Decimal(toData.costOfLivingIndex).div(fromData.costOfLivingIndex);
     return adjustment;
@@ -594,9 +646,12 @@ export class LocationDataProvider {
   /**
    * Calculate housing cost adjustment
    */
-  calculateHousingCostAdjustment(fromState: USState, toState: USState): Decimal {
-    const fromData = this.getLocationData(fromState);
-    const toData = this.getLocationData(toState);
+  calculateHousingCostAdjustment(
+    from: USState | CostOfLivingLocation,
+    to: USState | CostOfLivingLocation
+  ): Decimal {
+    const fromData = this.getCostOfLiving(from);
+    const toData = this.getCostOfLiving(to);
     
     const adjustment = new Decimal(toData.housingCostIndex).div(fromData.housingCostIndex);
     return adjustment;
@@ -690,11 +745,13 @@ export class LocationDataProvider {
   /**
    * Calculate location score for contract comparison
    */
-  calculateLocationScore(state: USState): number {
+  calculateLocationScore(location: USState | CostOfLivingLocation): number {
+    const state = typeof location === 'string' ? location : location.state;
     const data = this.getLocationData(state);
+    const { costOfLivingIndex } = this.getCostOfLiving(location);
     
     // Weighted scoring algorithm
-    const costScore = Math.max(0, 200 - data.costOfLivingIndex) / 100; // Lower cost = higher score
+    const costScore = Math.max(0, 200 - costOfLivingIndex) / 100; // Lower cost = higher score
     const qualityScore = data.qualityOfLifeScore / 10;
     const commuteScore = Math.max(0, (60 - data.averageCommute)) / 60; // Shorter commute = higher score
     const demandScore = { 'LOW': 0.5, 'MEDIUM': 0.7, 'HIGH': 0.9, 'CRITICAL': 1.0 }[data.healthcareDemand];
@@ -0,0 +1,163 @@
+import { Decimal } from 'decimal.js';
+import { USState, FilingStatus, StateTaxApportionment } from '../types';
+import { TaxCalculator } from './tax-calculator';
+
+// Reciprocal agreements: residents of the key state only pay tax on wages to
+// their home state when working in one of the listed states
+const RECIPROCAL_AGREEMENTS: Partial<Record<USState, USState[]>> = {
+  'IL': ['IA', 'KY', 'MI', 'WI'],
+  'IN': ['KY', 'MI', 'OH', 'PA', 'WI'],
+  'IA': ['IL'],
+  'KY': ['IL', 'IN', 'MI', 'OH', 'VA', 'WV', 'WI'],
+  'MD': ['PA', 'VA', 'WV'],
+  'MI': ['IL', 'IN', 'KY', 'MN', 'OH', 'WI'],
+  'MN': ['MI', 'ND'],
+  'MT': ['ND'],
+  'NJ': ['PA'],
+  'ND': ['MN', 'MT'],
+  'OH': ['IN', 'KY', 'MI', 'PA', 'WV'],
+  'PA': ['IN', 'MD', 'NJ', 'OH', 'VA', 'WV'],
+  'VA': ['KY', 'MD', 'PA', 'WV'],
+  'WV': ['KY', 'MD', 'OH', 'PA', 'VA'],
+  'WI': ['IL', 'IN', 'KY', 'MI']
+};
+
+export interface WorkStateSegment {
+  state: USState;
+  units: number; // Days or hours worked in the state
+}
+
+export interface MultiStateTaxInput {
+  grossIncome: Decimal;
+  homeState: USState;
+  filingStatus: FilingStatus;
+  workStates: WorkStateSegment[];
+  taxYear?: number;
+  stateExemptions?: number;
+}
+
+export interface MultiStateTaxResult {
+  states: StateTaxApportionment[];
+  stateTax: Decimal;
+  stateDisability: Decimal;
+}
+
+export class MultiStateTaxCalculator {
+  private taxCalculator: TaxCalculator;
+
+  constructor(taxCalculator: TaxCalculator = new TaxCalculator()) {
+    this.taxCalculator = taxCalculator;
+  }
+
+  /**
+   * Apportion wages across work states and calculate each state's liability.
+   *
+   * Wages are sourced to the state where the work is performed, pro rata by
+   * days or hours. Nonresident states tax their share using the income
+   * percentage method (tax on total income as a resident, multiplied by the
+   * state-source share). The home state taxes all income and allows a credit
+   * for tax paid to other states, limited to the home-state tax on the same
+   * income.
+   */
+  calculate(input: MultiStateTaxInput): MultiStateTaxResult {
+    const { grossIncome, homeState, filingStatus, taxYear, stateExemptions } = input;
+    const unitsByState = this.aggregateUnits(input.workStates);
+    const totalUnits = [...unitsByState.values()].reduce((total, units) => total + units, 0);
+
+    if (totalUnits <= 0) {
+      throw new Error('Work-state segments must include days or hours worked');
+    }
+
+    const taxOptions = { taxYear, exemptions: stateExemptions };
+    const states: StateTaxApportionment[] = [];
+
+    // Nonresident work states
+    for (const [state, units] of unitsByState) {
+      if (state === homeState || units <= 0) continue;
+
+      const apportionment = new Decimal(units).div(totalUnits);
+      const sourcedIncome = grossIncome.mul(apportionment);
+      const reciprocal = this.hasReciprocity(homeState, state);
+      const taxBeforeCredits = reciprocal || grossIncome.lte(0)
+        ? new Decimal(0)
+        : this.taxCalculator.calculateStateIncomeTax(grossIncome, state, filingStatus, taxOptions).mul(apportionment);
+
+      states.push({
+        state,
+        isResident: false,
+        reciprocal,
+        workUnits: units,
+        apportionment: apportionment.mul(100),
+        sourcedIncome,
+        taxBeforeCredits,
+        residentCredit: new Decimal(0),
+        tax: taxBeforeCredits,
+        stateDisability: this.calculateStateDisability(sourcedIncome, state, taxYear)
+      });
+    }
+
+    // Home state taxes all income, less credits for tax paid elsewhere
+    const homeUnits = unitsByState.get(homeState) || 0;
+    const homeApportionment = new Decimal(homeUnits).div(totalUnits);
+    const homeTax = this.taxCalculator.calculateStateIncomeTax(grossIncome, homeState, filingStatus, taxOptions);
+    const residentCredit = Decimal.min(homeTax, states.reduce((total, nonresident) => {
+      const limit = grossIncome.gt(0)
+        ? homeTax.mul(nonresident.sourcedIncome).div(grossIncome)
+        : new Decimal(0);
+      return total.add(Decimal.min(nonresident.tax, limit));
+    }, new Decimal(0)));
+
+    states.unshift({
+      state: homeState,
+      isResident: true,
+      reciprocal: false,
+      workUnits: homeUnits,
+      apportionment: homeApportionment.mul(100),
+      sourcedIncome: grossIncome.mul(homeApportionment),
+      taxBeforeCredits: homeTax,
+      residentCredit,
+      tax: homeTax.minus(residentCredit),
+      stateDisability: this.calculateStateDisability(grossIncome.mul(homeApportionment), homeState, taxYear)
+    });
+
+    return {
+      states,
+      stateTax: states.reduce((total, state) => total.add(state.tax), new Decimal(0)),
+      stateDisability: states.reduce((total, state) => total.add(state.stateDisability), new Decimal(0))
+    };
+  }
+
+  /**
+   * Check whether residents of one state are exempt from another state's
+   * withholding under a reciprocal agreement
+   */
+  hasReciprocity(homeState: USState, workState: USState): boolean {
+    return (RECIPROCAL_AGREEMENTS[homeState] || []).includes(workState);
+  }
+
+  /**
+   * Combine segments for the same state
+   */
+  private aggregateUnits(workStates: WorkStateSegment[]): Map<USState, number> {
+    const unitsByState = new Map<USState, number>();
+
+    for (const segment of workStates) {
+      unitsByState.set(segment.state, (unitsByState.get(segment.state) || 0) + segment.units);
+    }
+
+    return unitsByState;
+  }
+
+  /**
+   * State disability insurance follows the state where the work is performed
+   */
+  private calculateStateDisability(wages: Decimal, state: USState, taxYear?: number): Decimal {
+    const disabilityInfo = this.taxCalculator.getStateDisabilityTable(state, taxYear);
+
+    if (!disabilityInfo || wages.lte(0)) {
+      return new Decimal(0);
+    }
+
+    return Decimal.min(wages, new Decimal(disabilityInfo.wageBase)).mul(disabilityInfo.rate);
+  }
+}
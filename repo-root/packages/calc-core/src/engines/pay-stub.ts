@@ -0,0 +1,648 @@
+import { Decimal } from 'decimal.js';
+import { differenceInDays, endOfMonth, isSameDay } from 'date-fns';
+import {
+  FilingStatus,
+  PayFrequency,
+  PaycheckCalculationResult,
+  PaycheckInput,
+  USState,
+  US_STATES
+} from '../types';
+import { formatCurrency, roundToCents, splitCsvLine } from '../utils';
+import { PaycheckCalculationEngine } from './paycheck';
+import { extractPdfText } from './pdf-text';
+
+export type PayStubLineKind =
+  | 'EARNINGS'
+  | 'REIMBURSEMENT' // Non-taxable stipends and expense reimbursements
+  | 'GROSS'
+  | 'FEDERAL'
+  | 'STATE'
+  | 'LOCAL'
+  | 'SOCIAL_SECURITY'
+  | 'MEDICARE'
+  | 'STATE_DISABILITY'
+  | 'RETIREMENT' // 401(k)-style deferrals: pre-tax, but still FICA wages
+  | 'PRE_TAX' // Section 125 benefits, out of FICA wages too
+  | 'ROTH'
+  | 'AFTER_TAX'
+  | 'NET';
+
+export interface PayStubLine {
+  label: string;
+  kind: PayStubLineKind;
+  current: number;
+  ytd?: number;
+  state?: USState; // For state and disability taxes
+}
+
+export interface PayStub {
+  format: 'CSV' | 'PDF';
+  payDate?: Date;
+  periodStart?: Date;
+  periodEnd?: Date;
+  payFrequency?: PayFrequency;
+  filingStatus?: FilingStatus;
+  workState?: USState;
+  lines: PayStubLine[];
+  // Labels with amounts that are not a known earning, tax or deduction
+  unrecognized: string[];
+}
+
+export interface PayStubFile {
+  name: string;
+  data: Uint8Array | string;
+}
+
+export type PayStubCheck =
+  | 'NET_PAY'
+  | 'YEAR_TO_DATE'
+  | 'FEDERAL'
+  | 'STATE'
+  | 'LOCAL'
+  | 'SOCIAL_SECURITY'
+  | 'MEDICARE'
+  | 'STATE_DISABILITY';
+
+export interface PayStubDiscrepancy {
+  check: PayStubCheck;
+  // Errors are withholding the stub gets wrong whatever the Form W-4 says
+  severity: 'ERROR' | 'WARNING';
+  stubAmount: Decimal;
+  expectedAmount: Decimal;
+  message: string;
+}
+
+export interface PayStubReconciliation {
+  input: PaycheckInput;
+  result: PaycheckCalculationResult;
+  discrepancies: PayStubDiscrepancy[];
+  reconciled: boolean; // No errors, though warnings may remain
+}
+
+interface PayStubSegment {
+  label: string;
+  current: number;
+  ytd?: number;
+  category?: string; // Earnings, taxes or deductions section of a CSV
+}
+
+// First match wins; a null kind is a total or employer item to skip
+const LINE_KINDS: Array<[PayStubLineKind | null, RegExp]> = [
+  [null, /^total (taxes|deductions|withholdings?|pre-?tax|post-?tax|after-?tax|employee taxes)|^(er|employer)\b|\b(er|employer) (paid|contribution|match)|direct deposit|checking|savings/],
+  ['NET', /^net( pay| check| amount| earnings)?$|take[- ]?home/],
+  ['GROSS', /^(total )?gross( pay| earnings| wages| amount)?$|^total (earnings|pay)$/],
+  ['SOCIAL_SECURITY', /social security|\boasdi\b|soc\.? ?sec|fica[- ]?(ss|oasdi)|^(ee )?ss( tax| ee| w\/h)?$/],
+  ['MEDICARE', /medicare|fica[- ]?(med|hi)\b|^(ee )?med( tax| ee)?$/],
+  ['STATE_DISABILITY', /\b(sdi|vpdi|tdi|fli|pfl|pfml|famli|sui)\b|state disability|family leave|paid leave|unemployment/],
+  ['FEDERAL', /^fed|federal|\bfitw?\b|\bfwt\b/],
+  ['LOCAL', /\b(local|city|county|school|municipal|borough|township|occupational|lst|eit)\b|wage tax/],
+  ['STATE', /\b(state|sit|swt|sitw)\b|^[a-z]{2} (income|withholding|w\/h|tax)/],
+  ['ROTH', /roth/],
+  ['AFTER_TAX', /after[- ]?tax|post[- ]?tax|loan|garnish|child support|levy|union|dues|charit|donation|disability|\b(ltd|std)\b|life|accident|critical illness/],
+  ['RETIREMENT', /401\s*\(?k\)?|403\s*\(?b\)?|\b457\b|retirement|pension|\btsp\b/],
+  ['PRE_TAX', /pre[- ]?tax|medical|dental|vision|health|\bhsa\b|\bfsa\b|section 125|\bs125\b|cafeteria|dependent care|commuter|transit|parking/],
+  ['REIMBURSEMENT', /per diem|stipend|reimburs|housing|lodging|meals|travel|mileage|non[- ]?taxable/],
+  ['EARNINGS', /regular|salary|overtime|\bot\b|bonus|holiday|vacation|\bpto\b|sick|shift|differential|call|commission|retro|hourly|wages|earnings|pay$/]
+];
+
+const TAX_KINDS: PayStubLineKind[] = ['FEDERAL', 'STATE', 'LOCAL', 'SOCIAL_SECURITY', 'MEDICARE', 'STATE_DISABILITY'];
+const DEDUCTION_KINDS: PayStubLineKind[] = ['RETIREMENT', 'PRE_TAX', 'ROTH', 'AFTER_TAX'];
+
+const DATE = '(\\d{1,2}/\\d{1,2}/\\d{2,4}|\\d{4}-\\d{2}-\\d{2})';
+const AMOUNT = /^\(?-?\$?-?(\d{1,3}(,\d{3})+|\d+)\.\d{2,4}\)?-?$/;
+const DATE_TOKEN = new RegExp(`^${DATE}$`);
+
+// CSV headers of a stub with one row per line item
+const DESCRIPTION_HEADER = /^(description|item|name|line item|pay item|code|earnings?|deductions?|taxes|type)$/;
+const CURRENT_HEADER = /^(current|amount|this period|current amount|current period|period amount)$/;
+const YTD_HEADER = /^(ytd|ytd amount|ytd total|year to date)$/;
+const CATEGORY_HEADER = /^(category|section|group)$/;
+
+// Payroll taxes are exact; income tax depends on a Form W-4 we can't see
+const PAYROLL_TAX_TOLERANCE = 1;
+const INCOME_TAX_TOLERANCE = { amount: 10, rate: 0.1 };
+
+/**
+ * Read a pay stub from a CSV export. Either one row per line item, with a
+ * description, current amount and optional YTD column, or a payroll report
+ * with one row per paycheck and a column per pay item. Reports use the
+ * latest paycheck, with the year to date summed from that year's rows.
+ */
+export function parsePayStubCsv(csv: string): PayStub {
+  const rows = csv
+    .split(/\r?\n/)
+    .filter(line => line.trim().length > 0)
+    .map(splitCsvLine);
+
+  const lineItemHeader = rows.findIndex(row => {
+    const header = row.map(normalize);
+    return header.some(cell => DESCRIPTION_HEADER.test(cell)) && header.some(cell => CURRENT_HEADER.test(cell));
+  });
+  if (lineItemHeader !== -1) {
+    return parseLineItemCsv(rows, lineItemHeader);
+  }
+
+  const reportHeader = rows.findIndex(row =>
+    row.some(cell => /^(pay|check) date$/.test(normalize(cell))) &&
+    row.filter(cell => classifyLine(cell) !== undefined).length >= 2
+  );
+  if (reportHeader !== -1) {
+    return parseReportCsv(rows, reportHeader);
+  }
+
+  throw new Error('Pay stub CSV needs a description and current amount column, or a pay date and a column per pay item');
+}
+
+/**
+ * Read a pay stub from its text, e.g. the text layer of a PDF. Each row is
+ * a label followed by the current amount and the year to date; rows laid
+ * out side by side are split where a new label follows the amounts.
+ */
+export function parsePayStubText(text: string, format: PayStub['format'] = 'PDF'): PayStub {
+  const segments: PayStubSegment[] = [];
+
+  text.split(/\r?\n/).forEach(line => {
+    let label: string[] = [];
+    let amounts: number[] = [];
+    const flush = () => {
+      if (label.length > 0 && amounts.length > 0) {
+        const [current, ytd] = amounts.length >= 2 ? amounts.slice(-2) : [amounts[0], undefined];
+        segments.push({ label: label.join(' ').replace(/:$/, ''), current, ytd });
+      }
+      label = [];
+      amounts = [];
+    };
+
+    line.trim().split(/\s+/).forEach(token => {
+      if (AMOUNT.test(token)) {
+        amounts.push(parseAmount(token));
+      } else if (DATE_TOKEN.test(token)) {
+        flush();
+      } else {
+        if (amounts.length > 0) flush();
+        label.push(token);
+      }
+    });
+    flush();
+  });
+
+  return buildPayStub(format, segments, text);
+}
+
+/**
+ * Imports pay stubs into the paycheck calculator and checks them against
+ * what the calculator would withhold
+ */
+export class PayStubImporter {
+  constructor(private readonly engine: PaycheckCalculationEngine = new PaycheckCalculationEngine()) {}
+
+  async parse(file: PayStubFile): Promise<PayStub> {
+    const { name, data } = file;
+    const isPdf = /\.pdf$/i.test(name) ||
+      (typeof data !== 'string' && String.fromCharCode(...Array.from(data.subarray(0, 5))) === '%PDF-');
+
+    if (isPdf) {
+      if (typeof data === 'string') {
+        throw new Error('PDF pay stubs must be read as binary data');
+      }
+      const text = await extractPdfText(data);
+      if (!text.trim()) {
+        throw new Error('The PDF has no text to read. Scanned pay stubs need to be entered by hand.');
+      }
+      return parsePayStubText(text, 'PDF');
+    }
+
+    if (!/\.(csv|txt)$/i.test(name)) {
+      throw new Error('Pay stubs must be PDF or CSV files');
+    }
+    return parsePayStubCsv(typeof data === 'string' ? data : new TextDecoder().decode(data));
+  }
+
+  /**
+   * Paycheck calculator input for the stub. Overrides win over the stub, so
+   * the state the user actually works in is checked against the state the
+   * employer withheld for.
+   */
+  toPaycheckInput(stub: PayStub, overrides: Partial<PaycheckInput> = {}): PaycheckInput {
+    const grossPay = getTaxableGross(stub, 'current');
+    if (grossPay === undefined) {
+      throw new Error('Could not find gross pay on the pay stub');
+    }
+
+    const payDate = overrides.payDate ?? stub.payDate ?? stub.periodEnd;
+    if (!payDate) {
+      throw new Error('Could not find the pay date on the pay stub');
+    }
+
+    const payFrequency = overrides.payFrequency ?? stub.payFrequency;
+    if (!payFrequency) {
+      throw new Error('Could not tell how often you are paid from the pay stub');
+    }
+
+    const workState = overrides.workState ?? stub.workState ?? stub.lines.find(line => line.kind === 'STATE' && line.state)?.state;
+    if (!workState) {
+      throw new Error('Enter your work state; the pay stub does not show one');
+    }
+
+    // Calculator year-to-date amounts are before this paycheck
+    const ytdBefore = (kinds: PayStubLineKind[]) => {
+      const ytd = sumLines(stub, kinds, 'ytd');
+      return ytd === undefined ? 0 : Math.max(0, roundToCents(ytd - (sumLines(stub, kinds, 'current') ?? 0)));
+    };
+    const ytdGross = getTaxableGross(stub, 'ytd');
+
+    return {
+      grossPay,
+      payFrequency,
+      payDate,
+      filingStatus: stub.filingStatus ?? 'SINGLE',
+      exemptions: 0,
+      workState,
+      residenceState: overrides.residenceState ?? workState,
+      ytdGross: ytdGross === undefined ? 0 : Math.max(0, roundToCents(ytdGross - grossPay)),
+      ytdFederalTax: ytdBefore(['FEDERAL']),
+      ytdStateTax: ytdBefore(['STATE']),
+      ytdSocialSecurity: ytdBefore(['SOCIAL_SECURITY']),
+      ytdMedicare: ytdBefore(['MEDICARE']),
+      ytdStateDisability: ytdBefore(['STATE_DISABILITY']),
+      preTaxDeductions: sumLines(stub, ['RETIREMENT', 'PRE_TAX'], 'current') ?? 0,
+      rothDeductions: sumLines(stub, ['ROTH'], 'current') ?? 0,
+      afterTaxDeductions: sumLines(stub, ['AFTER_TAX'], 'current') ?? 0,
+      additionalFederalWithholding: 0,
+      additionalStateWithholding: 0,
+      ...overrides
+    } as PaycheckInput;
+  }
+
+  /**
+   * Calculate the paycheck from the stub and compare: the stub's own
+   * arithmetic, payroll taxes, which state was withheld for, and income
+   * tax withholding against the Form W-4 in the input.
+   */
+  async reconcile(stub: PayStub, overrides: Partial<PaycheckInput> = {}): Promise<PayStubReconciliation> {
+    const input = this.toPaycheckInput(stub, overrides);
+    const result = await this.engine.calculatePaycheck(input);
+
+    // The calculator takes every pre-tax deduction out of FICA wages, but
+    // 401(k) deferrals stay in them, so payroll taxes come from a second run
+    const deferrals = sumLines(stub, ['RETIREMENT'], 'current') ?? 0;
+    const payrollTaxes = deferrals > 0
+      ? (await this.engine.calculatePaycheck({ ...input, preTaxDeductions: Math.max(0, input.preTaxDeductions - deferrals) })).taxes
+      : result.taxes;
+
+    const discrepancies: PayStubDiscrepancy[] = [
+      ...checkNetPay(stub),
+      ...checkYearToDate(stub),
+      ...checkAmount('SOCIAL_SECURITY', 'Social Security', sumLines(stub, ['SOCIAL_SECURITY'], 'current'), payrollTaxes.socialSecurity),
+      ...checkAmount('MEDICARE', 'Medicare', sumLines(stub, ['MEDICARE'], 'current'), payrollTaxes.medicare),
+      ...checkAmount('STATE_DISABILITY', 'State disability insurance', sumLines(stub, ['STATE_DISABILITY'], 'current'), payrollTaxes.stateDisability),
+      ...checkAmount('FEDERAL', 'Federal income tax withholding', sumLines(stub, ['FEDERAL'], 'current') ?? 0, result.taxes.federal, INCOME_TAX_TOLERANCE),
+      ...checkState(stub, input, result.taxes.state),
+      ...checkAmount('LOCAL', 'Local tax withholding', sumLines(stub, ['LOCAL'], 'current'), result.taxes.local, INCOME_TAX_TOLERANCE)
+    ];
+
+    return {
+      input,
+      result,
+      discrepancies,
+      reconciled: discrepancies.every(discrepancy => discrepancy.severity !== 'ERROR')
+    };
+  }
+}
+
+function parseLineItemCsv(rows: string[][], headerIndex: number): PayStub {
+  const header = rows[headerIndex].map(normalize);
+  const findColumn = (pattern: RegExp) => header.findIndex(cell => pattern.test(cell));
+  const descriptionColumn = [/^(description|item|name|line item|pay item)$/, DESCRIPTION_HEADER]
+    .map(findColumn)
+    .find(index => index !== -1)!;
+  const currentColumn = findColumn(CURRENT_HEADER);
+  const ytdColumn = findColumn(YTD_HEADER);
+  const categoryColumn = findColumn(CATEGORY_HEADER);
+
+  // Rows that are not line items, e.g. "Pay Date,01/15/2025", are details
+  const details: string[] = rows.slice(0, headerIndex).map(row => row.join(': '));
+  const segments: PayStubSegment[] = [];
+
+  rows.slice(headerIndex + 1).forEach(row => {
+    const label = row[descriptionColumn] ?? '';
+    const current = AMOUNT.test(row[currentColumn] ?? '') ? parseAmount(row[currentColumn]) : undefined;
+    if (!label || current === undefined) {
+      details.push(row.filter(Boolean).join(': '));
+      return;
+    }
+
+    const ytd = ytdColumn !== -1 && AMOUNT.test(row[ytdColumn] ?? '') ? parseAmount(row[ytdColumn]) : undefined;
+    segments.push({ label, current, ytd, category: categoryColumn !== -1 ? row[categoryColumn] : undefined });
+  });
+
+  return buildPayStub('CSV', segments, details.join('\n'));
+}
+
+function parseReportCsv(rows: string[][], headerIndex: number): PayStub {
+  const header = rows[headerIndex];
+  const dateColumn = header.findIndex(cell => /^(pay|check) date$/.test(normalize(cell)));
+  const paychecks = rows
+    .slice(headerIndex + 1)
+    .map(row => ({ row, payDate: parseDate(row[dateColumn] ?? '') }))
+    .filter((paycheck): paycheck is { row: string[]; payDate: Date } => paycheck.payDate !== undefined)
+    .sort((a, b) => a.payDate.getTime() - b.payDate.getTime());
+
+  if (paychecks.length === 0) {
+    throw new Error('Pay stub CSV has no paychecks with a pay date');
+  }
+
+  const latest = paychecks[paychecks.length - 1];
+  const yearToDate = paychecks.filter(paycheck => paycheck.payDate.getFullYear() === latest.payDate.getFullYear());
+
+  const segments: PayStubSegment[] = [];
+  const details: string[] = [];
+  header.forEach((label, column) => {
+    const value = latest.row[column] ?? '';
+    if (column === dateColumn || !AMOUNT.test(value)) {
+      details.push(`${label}: ${value}`);
+      return;
+    }
+    segments.push({
+      label,
+      current: parseAmount(value),
+      ytd: roundToCents(yearToDate.reduce((sum, paycheck) => {
+        const amount = paycheck.row[column] ?? '';
+        return sum + (AMOUNT.test(amount) ? parseAmount(amount) : 0);
+      }, 0))
+    });
+  });
+
+  return buildPayStub('CSV', segments, details.join('\n'));
+}
+
+function buildPayStub(format: PayStub['format'], segments: PayStubSegment[], details: string): PayStub {
+  const lines: PayStubLine[] = [];
+  const unrecognized: string[] = [];
+  const workState = matchDetail(details, /(?:work|tax|taxing|sui)\s*state\s*:?\s*([A-Z]{2})\b/i)?.toUpperCase();
+
+  segments.forEach(segment => {
+    let kind = classifyLine(segment.label);
+    if (kind === undefined && segment.category) {
+      const category = normalize(segment.category);
+      kind = /earning/.test(category) ? 'EARNINGS' : /deduction/.test(category) ? 'AFTER_TAX' : undefined;
+    }
+    if (kind === undefined) {
+      unrecognized.push(segment.label);
+      return;
+    }
+    if (kind === null || ((kind === 'GROSS' || kind === 'NET') && lines.some(line => line.kind === kind))) {
+      return;
+    }
+
+    const state = kind === 'STATE' || kind === 'STATE_DISABILITY' || kind === 'LOCAL'
+      ? findStateCode(segment.label) ?? (isUSState(workState) ? workState : undefined)
+      : undefined;
+    lines.push({ label: segment.label, kind, current: segment.current, ytd: segment.ytd, ...(state && { state }) });
+  });
+
+  const [periodFrom, periodTo] = matchPeriod(details);
+  const periodStart = parseDate(matchDetail(details, new RegExp(`(?:period\\s*(?:start|begin(?:ning)?)|(?:start|begin(?:ning)?)\\s*date)\\s*(?:date)?\\s*:?\\s*${DATE}`, 'i')) ?? '') ?? periodFrom;
+  const periodEnd = parseDate(matchDetail(details, new RegExp(`(?:period\\s*end(?:ing)?|end\\s*date)\\s*(?:date)?\\s*:?\\s*${DATE}`, 'i')) ?? '') ?? periodTo;
+  const payDate = parseDate(matchDetail(details, new RegExp(`(?:pay|check|advice|deposit)\\s*date\\s*:?\\s*${DATE}`, 'i')) ?? '');
+
+  return {
+    format,
+    payDate,
+    periodStart,
+    periodEnd,
+    payFrequency: parseFrequency(matchDetail(details, /(?:frequency|pay\s*schedule|pay\s*cycle)\s*:?\s*(weekly|bi-?weekly|semi-?monthly|monthly|quarterly)/i))
+      ?? inferPayFrequency(periodStart, periodEnd),
+    filingStatus: parseFilingStatus(matchDetail(details, /(?:filing|marital)\s*status\s*:?\s*(single|married filing jointly|married filing separately|married|head of household)/i)),
+    workState: isUSState(workState) ? workState : undefined,
+    lines,
+    unrecognized
+  };
+}
+
+// Undefined when the label is unknown, null when it is deliberately skipped
+function classifyLine(label: string): PayStubLineKind | null | undefined {
+  const normalized = normalize(label);
+  const match = LINE_KINDS.find(([, pattern]) => pattern.test(normalized));
+  return match ? match[0] : undefined;
+}
+
+function checkNetPay(stub: PayStub): PayStubDiscrepancy[] {
+  const net = sumLines(stub, ['NET'], 'current');
+  const gross = sumLines(stub, ['GROSS'], 'current') ?? sumLines(stub, ['EARNINGS'], 'current');
+  if (net === undefined || gross === undefined) {
+    return [];
+  }
+
+  const reimbursements = sumLines(stub, ['REIMBURSEMENT'], 'current') ?? 0;
+  const paidOnTop = sumLines(stub, ['GROSS'], 'current') !== undefined && !grossIncludesReimbursements(stub) ? reimbursements : 0;
+  const expected = new Decimal(gross)
+    .add(paidOnTop)
+    .minus(sumLines(stub, TAX_KINDS, 'current') ?? 0)
+    .minus(sumLines(stub, DEDUCTION_KINDS, 'current') ?? 0);
+
+  if (expected.minus(net).abs().lte(0.01)) {
+    return [];
+  }
+  return [{
+    check: 'NET_PAY',
+    severity: 'ERROR',
+    stubAmount: new Decimal(net),
+    expectedAmount: expected,
+    message: `Net pay of ${formatCurrency(net)} does not match gross pay less the taxes and deductions on the stub (${formatCurrency(expected.toNumber())}).`
+  }];
+}
+
+function checkYearToDate(stub: PayStub): PayStubDiscrepancy[] {
+  return stub.lines
+    .filter(line => line.ytd !== undefined && line.ytd + 0.005 < line.current)
+    .map(line => ({
+      check: 'YEAR_TO_DATE' as const,
+      severity: 'WARNING' as const,
+      stubAmount: new Decimal(line.ytd!),
+      expectedAmount: new Decimal(line.current),
+      message: `Year-to-date ${line.label} of ${formatCurrency(line.ytd!)} is less than this paycheck's ${formatCurrency(line.current)}.`
+    }));
+}
+
+function checkAmount(
+  check: PayStubCheck,
+  description: string,
+  stubAmount: number | undefined,
+  expected: Decimal,
+  tolerance?: { amount: number; rate: number }
+): PayStubDiscrepancy[] {
+  const actual = new Decimal(stubAmount ?? 0);
+  const allowed = tolerance
+    ? Decimal.max(tolerance.amount, expected.mul(tolerance.rate))
+    : new Decimal(PAYROLL_TAX_TOLERANCE);
+  if (actual.minus(expected).abs().lte(allowed)) {
+    return [];
+  }
+
+  const direction = actual.gt(expected) ? 'more' : 'less';
+  const advice = tolerance
+    ? ' Check the Form W-4 and any extra withholding on file with the employer.'
+    : ' Payroll taxes are set by law, so ask the employer to correct it.';
+  return [{
+    check,
+    severity: tolerance ? 'WARNING' : 'ERROR',
+    stubAmount: actual,
+    expectedAmount: expected,
+    message: stubAmount === undefined
+      ? `${description} of about ${formatCurrency(expected.toNumber())} is missing from the pay stub.${advice}`
+      : `${description} of ${formatCurrency(actual.toNumber())} is ${direction} than the ${formatCurrency(expected.toNumber())} expected.${advice}`
+  }];
+}
+
+// Agencies often withhold for their own state instead of where you work
+function checkState(stub: PayStub, input: PaycheckInput, expected: Decimal): PayStubDiscrepancy[] {
+  const stateLines = stub.lines.filter(line => line.kind === 'STATE' && line.current > 0);
+  const stubTotal = sumLines(stub, ['STATE'], 'current') ?? 0;
+  const yourStates = Array.from(new Set([input.workState, input.residenceState]));
+  const location = input.residenceState !== input.workState
+    ? `you work in ${input.workState} and live in ${input.residenceState}`
+    : `you work in ${input.workState}`;
+
+  const wrongStates = Array.from(new Set(
+    stateLines.map(line => line.state).filter((state): state is USState => !!state && !yourStates.includes(state))
+  ));
+  if (wrongStates.length > 0) {
+    return [{
+      check: 'STATE',
+      severity: 'ERROR',
+      stubAmount: new Decimal(stubTotal),
+      expectedAmount: expected,
+      message: `State income tax was withheld for ${wrongStates.join(' and ')}, but ${location}. ` +
+        `Ask the employer to withhold ${expected.gt(0) ? `about ${formatCurrency(expected.toNumber())} for ${input.workState}` : `no state income tax for ${input.workState}`}.`
+    }];
+  }
+
+  if (expected.gt(0) && stubTotal === 0) {
+    return [{
+      check: 'STATE',
+      severity: 'ERROR',
+      stubAmount: new Decimal(0),
+      expectedAmount: expected,
+      message: `No ${input.workState} income tax was withheld; about ${formatCurrency(expected.toNumber())} was expected because ${location}.`
+    }];
+  }
+
+  if (expected.eq(0) && stubTotal > 0) {
+    return [{
+      check: 'STATE',
+      severity: 'ERROR',
+      stubAmount: new Decimal(stubTotal),
+      expectedAmount: expected,
+      message: `${formatCurrency(stubTotal)} of state income tax was withheld, but none is due because ${location}.`
+    }];
+  }
+
+  return checkAmount('STATE', 'State income tax withholding', stubTotal, expected, INCOME_TAX_TOLERANCE);
+}
+
+// Gross pay subject to tax, leaving out reimbursements included in the total
+function getTaxableGross(stub: PayStub, field: 'current' | 'ytd'): number | undefined {
+  const gross = sumLines(stub, ['GROSS'], field);
+  if (gross === undefined) {
+    return sumLines(stub, ['EARNINGS'], field);
+  }
+  return grossIncludesReimbursements(stub)
+    ? roundToCents(gross - (sumLines(stub, ['REIMBURSEMENT'], field) ?? 0))
+    : gross;
+}
+
+function grossIncludesReimbursements(stub: PayStub): boolean {
+  const gross = sumLines(stub, ['GROSS'], 'current');
+  const earnings = sumLines(stub, ['EARNINGS'], 'current');
+  const reimbursements = sumLines(stub, ['REIMBURSEMENT'], 'current');
+  return gross !== undefined && earnings !== undefined && reimbursements !== undefined &&
+    Math.abs(gross - earnings - reimbursements) < 0.01;
+}
+
+function sumLines(stub: PayStub, kinds: PayStubLineKind[], field: 'current' | 'ytd'): number | undefined {
+  const amounts = stub.lines
+    .filter(line => kinds.includes(line.kind))
+    .map(line => line[field])
+    .filter((amount): amount is number => amount !== undefined);
+  return amounts.length > 0 ? roundToCents(amounts.reduce((sum, amount) => sum + amount, 0)) : undefined;
+}
+
+// Taxes and deductions are often shown as negative or in parentheses
+function parseAmount(value: string): number {
+  return Math.abs(Number(value.replace(/[$,()\s-]/g, '')));
+}
+
+function parseDate(value: string): Date | undefined {
+  const us = /^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/.exec(value.trim());
+  if (us) {
+    const year = Number(us[3]) < 100 ? 2000 + Number(us[3]) : Number(us[3]);
+    return new Date(year, Number(us[1]) - 1, Number(us[2]));
+  }
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  return iso ? new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])) : undefined;
+}
+
+function parseFrequency(value: string | undefined): PayFrequency | undefined {
+  const normalized = value?.toLowerCase().replace('-', '');
+  const frequencies: Record<string, PayFrequency> = {
+    weekly: 'WEEKLY',
+    biweekly: 'BI_WEEKLY',
+    semimonthly: 'SEMI_MONTHLY',
+    monthly: 'MONTHLY',
+    quarterly: 'QUARTERLY'
+  };
+  return normalized ? frequencies[normalized] : undefined;
+}
+
+function parseFilingStatus(value: string | undefined): FilingStatus | undefined {
+  const normalized = value?.toLowerCase();
+  if (!normalized) return undefined;
+  if (normalized === 'married filing separately') return 'MARRIED_FILING_SEPARATELY';
+  if (normalized.startsWith('married')) return 'MARRIED_FILING_JOINTLY';
+  if (normalized === 'head of household') return 'HEAD_OF_HOUSEHOLD';
+  return 'SINGLE';
+}
+
+// Semi-monthly periods run 1st-15th and 16th-end of month; the rest by length
+function inferPayFrequency(start: Date | undefined, end: Date | undefined): PayFrequency | undefined {
+  if (!start || !end) {
+    return undefined;
+  }
+  if (
+    (start.getDate() === 1 && end.getDate() === 15) ||
+    (start.getDate() === 16 && isSameDay(end, endOfMonth(start)))
+  ) {
+    return 'SEMI_MONTHLY';
+  }
+
+  const days = differenceInDays(end, start) + 1;
+  if (days === 7) return 'WEEKLY';
+  if (days === 14) return 'BI_WEEKLY';
+  if (days >= 28 && days <= 31) return 'MONTHLY';
+  if (days >= 89 && days <= 92) return 'QUARTERLY';
+  return undefined;
+}
+
+function matchDetail(details: string, pattern: RegExp): string | undefined {
+  return pattern.exec(details)?.[1];
+}
+
+function matchPeriod(details: string): [Date | undefined, Date | undefined] {
+  const range = new RegExp(`period(?:\\s*dates?)?\\s*:?\\s*${DATE}\\s*(?:-|–|to|through|thru)\\s*${DATE}`, 'i').exec(details);
+  return range ? [parseDate(range[1]), parseDate(range[2])] : [undefined, undefined];
+}
+
+// A postal code standing alone in the label, e.g. "CA SDI" or "SIT - NY"
+function findStateCode(label: string): USState | undefined {
+  return label.split(/[\s\-–:/()]+/).find(token => isUSState(token));
+}
+
+function isUSState(value: string | undefined): value is USState {
+  return !!value && (US_STATES as readonly string[]).includes(value);
+}
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/\s+/g, ' ').trim();
+}
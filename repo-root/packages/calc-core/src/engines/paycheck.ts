@@ -1,20 +1,73 @@
 import { Decimal } from 'decimal.js';
-import { addWeeks, addMonths, differenceInWeeks, differenceInDays, endOfYear } from 'date-fns';
+import { addWeeks, addMonths, differenceInWeeks, differenceInDays, endOfYear, startOfDay } from 'date-fns';
 import {
   PaycheckInput,
   PaycheckCalculationResult,
   PayFrequency,
   FilingStatus,
   USState,
-  PaycheckInputSchema
+  PaycheckInputSchema,
+  PayEvent,
+  PaySimulationInput,
+  PaySimulationInputSchema,
+  PaySimulationMilestone,
+  PaySimulationResult,
+  PaySimulationTotals,
+  SimulatedPaycheck,
+  TaxReturnForecast,
+  W4Input,
+  W4Recommendation
 } from '../types';
+import { formatCurrency } from '../utils';
 import { TaxCalculator } from './tax-calculator';
+import { RetirementPlanner } from './retirement';
+import { FederalTaxTable, byFilingStatus } from './tax-tables';
+
+// Refunds and balances due smaller than this need no Form W-4 change
+const FORECAST_TOLERANCE = 100;
+
+type PaycheckLocation = Pick<
+  PaycheckInput,
+  'filingStatus' | 'workState' | 'workCity' | 'workZipCode' | 'residenceState' | 'residenceCity' | 'residenceZipCode'
+>;
+
+type ValidatedPaySimulationInput = ReturnType<typeof PaySimulationInputSchema.parse>;
+
+// Pay terms in effect for a paycheck, changed by pay events
+interface PayTerms {
+  grossPay: number;
+  workState: USState;
+  workCity?: string;
+  workZipCode?: string;
+  retirement401kPercent: number;
+}
+
+interface ScheduledPaycheck {
+  payDate: Date;
+  kind: SimulatedPaycheck['kind'];
+  bonus?: number;
+  description?: string;
+}
+
+interface SimulationYtd {
+  grossPay: Decimal;
+  socialSecurityWages: Decimal;
+  medicareWages: Decimal;
+  supplementalWages: Decimal;
+  retirement401k: Decimal;
+  totalTaxes: Decimal;
+  netPay: Decimal;
+  // Each state's disability insurance has its own wage base
+  stateDisabilityWages: Partial<Record<USState, Decimal>>;
+}
 
 export class PaycheckCalculationEngine {
   private taxCalculator: TaxCalculator;
+  private retirementPlanner: RetirementPlanner;
 
   constructor() {
     this.taxCalculator = new TaxCalculator();
+    this.retirementPlanner = new RetirementPlanner(this.taxCalculator);
   }
 
   /**
@@ -30,8 +83,8 @@ export class PaycheckCalculationEngine {
       payDate,
       filingStatus,
       exemptions,
+      w4,
       workState,
-      residenceState,
       ytdGross,
       ytdFederalTax,
       ytdStateTax,
@@ -45,17 +98,20 @@ export class PaycheckCalculationEngine {
       additionalStateWithholding
     } = validatedInput;
 
+    // Tax tables are selected by the year the paycheck is paid in
+    const taxYear = this.taxCalculator.resolveTaxYear(payDate);
+
     // Calculate taxable income for this paycheck
     const taxableGross = new Decimal(grossPay).minus(preTaxDeductions);
     
     // Calculate federal income tax withholding
-    const federalTax = await this.calculateFederalWithholding(
+    const federalTax = this.calculateFederalWithholding(
       taxableGross,
       payFrequency,
       filingStatus,
       exemptions,
-      new Decimal(ytdGross),
-      new Decimal(ytdFederalTax)
+      w4,
+      taxYear
     );
 
     // Calculate state income tax withholding
@@ -63,24 +119,23 @@ export class PaycheckCalculationEngine {
       taxableGross,
       payFrequency,
       workState,
-      residenceState,
       filingStatus,
-      new Decimal(ytdGross),
-      new Decimal(ytdStateTax)
+      taxYear
     );
 
     // Calculate FICA taxes
     const socialSecurity = this.calculateSocialSecurityWithholding(
       taxableGross,
       new Decimal(ytdGross),
-      new Decimal(ytdSocialSecurity)
+      new Decimal(ytdSocialSecurity),
+      taxYear
     );
 
     const medicare = this.calculateMedicareWithholding(
       taxableGross,
-      filingStatus,
       new Decimal(ytdGross),
-      new Decimal(ytdMedicare)
+      new Decimal(ytdMedicare),
+      taxYear
     );
 
     // Calculate state disability insurance
@@ -88,7 +143,16 @@ export class PaycheckCalculationEngine {
       taxableGross,
       workState,
       new Decimal(ytdGross),
-      new Decimal(ytdStateDisability)
+      new Decimal(ytdStateDisability),
+      taxYear
+    );
+
+    // Calculate local income tax withholding
+    const localTax = this.calculateLocalWithholding(
+      taxableGross,
+      payFrequency,
+      validatedInput,
+      taxYear
     );
 
     // Calculate total taxes
@@ -97,6 +161,7 @@ export class PaycheckCalculationEngine {
       .add(socialSecurity)
       .add(medicare)
       .add(stateDisability)
+      .add(localTax)
       .add(additionalFederalWithholding || 0)
       .add(additionalStateWithholding || 0);
 
@@ -128,6 +193,14 @@ export class PaycheckCalculationEngine {
       totalTaxes
     );
 
+    // Compare the year's withholding with the tax on the return
+    const forecast = this.forecastTaxReturn(
+      validatedInput,
+      taxableGross,
+      federalTax.add(additionalFederalWithholding || 0),
+      taxYear
+    );
+
     return {
       input: validatedInput,
       calculationDate: new Date(),
@@ -143,6 +216,7 @@ export class PaycheckCalculationEngine {
         socialSecurity,
         medicare,
         stateDisability,
+        local: localTax,
         effectiveRate: totalTaxes.div(grossPay).mul(100)
       },
       deductions: {
@@ -158,106 +232,373 @@ export class PaycheckCalculationEngine {
         totalDeductions: new Decimal(totalDeductions).mul(this.getPayPeriodsElapsed(payDate, payFrequency)),
         effectiveTaxRate
       },
-      projections
+      projections,
+      forecast
     };
   }
 
   /**
-   * Calculate federal income tax withholding using percentage method
+   * Simulate every paycheck of the year from the first pay date, applying
+   * rate, work state and 401(k) changes as they take effect. Year-to-date
+   * wages carry from one paycheck to the next, so Social Security stops at
+   * the wage base and Additional Medicare starts on the paycheck that
+   * crosses each threshold. Bonuses are paid as separate paychecks with
+   * federal tax withheld at the supplemental rate.
    */
-  private async calculateFederalWithholding(
+  async simulateYear(input: PaySimulationInput): Promise<PaySimulationResult> {
+    const validatedInput = PaySimulationInputSchema.parse(input);
+    const { firstPayDate, payFrequency, filingStatus, age } = validatedInput;
+
+    const taxYear = this.taxCalculator.resolveTaxYear(firstPayDate);
+    const retirementTable = this.taxCalculator.getTaxYearTable(taxYear).retirement;
+    // Deferrals are also capped by the wages on each paycheck
+    const deferralLimit = this.retirementPlanner.getLimits({
+      workerClassification: 'W2',
+      compensation: new Decimal(retirementTable.compensationLimit),
+      filingStatus,
+      taxYear,
+      contributions: {
+        age,
+        electiveDeferral: 0,
+        rothPercent: 0,
+        employerContribution: 0,
+        sepIra: 0,
+        hsa: 0,
+        hsaCoverage: 'SELF',
+        priorDeferrals: 0
+      }
+    }).electiveDeferral;
+
+    const events = [...validatedInput.events].sort((a, b) => a.date.getTime() - b.date.getTime());
+    const pendingChanges = events.filter(
+      (event): event is Exclude<PayEvent, { type: 'BONUS' }> => event.type !== 'BONUS'
+    );
+
+    const terms: PayTerms = {
+      grossPay: validatedInput.grossPay,
+      workState: validatedInput.workState,
+      workCity: validatedInput.workCity,
+      workZipCode: validatedInput.workZipCode,
+      retirement401kPercent: validatedInput.retirement401kPercent
+    };
+    const ytd: SimulationYtd = {
+      grossPay: new Decimal(0),
+      socialSecurityWages: new Decimal(0),
+      medicareWages: new Decimal(0),
+      supplementalWages: new Decimal(0),
+      retirement401k: new Decimal(0),
+      totalTaxes: new Decimal(0),
+      netPay: new Decimal(0),
+      stateDisabilityWages: {}
+    };
+
+    const paychecks: SimulatedPaycheck[] = [];
+    const milestones: PaySimulationResult['milestones'] = {};
+
+    for (const scheduled of this.buildPaySchedule(firstPayDate, payFrequency, events)) {
+      const changes: string[] = [];
+      while (pendingChanges.length > 0 && pendingChanges[0].date <= scheduled.payDate) {
+        changes.push(this.applyPayEvent(terms, pendingChanges.shift()!));
+      }
+
+      const paycheck = await this.simulatePaycheck(
+        scheduled,
+        terms,
+        changes,
+        validatedInput,
+        ytd,
+        deferralLimit,
+        taxYear
+      );
+      paycheck.milestones.forEach(milestone => {
+        milestones[milestone] = paycheck.payDate;
+      });
+      paychecks.push(paycheck);
+    }
+
+    return {
+      taxYear,
+      paychecks,
+      totals: this.sumPaychecks(paychecks),
+      milestones
+    };
+  }
+
+  /**
+   * Federal income tax withholding for one paycheck by the Publication 15-T
+   * percentage method, before Step 4(c) extra withholding
+   */
+  private calculateFederalWithholding(
     grossPay: Decimal,
     payFrequency: PayFrequency,
     filingStatus: FilingStatus,
     exemptions: number,
-    ytdGross: Decimal,
-    ytdFederalTax: Decimal
-  ): Promise<Decimal> {
-    // Convert to annual equivalent for calculation
+    w4: W4Input | undefined,
+    taxYear: number
+  ): Decimal {
     const periodsPerYear = this.getPeriodsPerYear(payFrequency);
-    const annualizedGross = grossPay.mul(periodsPerYear);
-    
-    // Calculate standard deduction
-    const standardDeduction = this.getStandardDeduction(filingStatus);
-    const exemptionAmount = new Decimal(exemptions).mul(4700); // 2024 exemption amount
-    
-    // Calculate taxable income
-    const taxableIncome = Decimal.max(0, annualizedGross.minus(standardDeduction).minus(exemptionAmount));
-    
-    // Calculate annual tax
-    const annualTax = await this.taxCalculator.calculateAnnualTaxes({
-      grossIncome: taxableIncome,
-      state: 'CA', // Federal calculation only, state doesn't matter here
+    const annualWithholding = this.calculateAnnualFederalWithholding(
+      grossPay.mul(periodsPerYear),
       filingStatus,
       exemptions,
-      isResident: true
+      w4,
+      taxYear
+    );
+
+    return annualWithholding.div(periodsPerYear).toDecimalPlaces(2);
+  }
+
+  /**
+   * Annual federal withholding on annualized wages (Publication 15-T
+   * Worksheet 1A), after the Step 3 credits
+   */
+  private calculateAnnualFederalWithholding(
+    annualWages: Decimal,
+    filingStatus: FilingStatus,
+    exemptions: number,
+    w4: W4Input | undefined,
+    taxYear: number
+  ): Decimal {
+    const schedule = this.getWithholdingSchedule(annualWages, filingStatus, exemptions, w4, taxYear);
+    const tentativeWithholding = this.taxCalculator
+      .calculateFederalIncomeTax(schedule.taxableIncome, schedule.filingStatus, taxYear)
+      .div(schedule.divisor);
+
+    return Decimal.max(0, tentativeWithholding.minus(w4?.dependentsCredit || 0));
+  }
+
+  /**
+   * Place annual wages on the income tax brackets the way the Publication
+   * 15-T annual percentage method tables do. The standard tables are the
+   * brackets shifted by the standard deduction less the Worksheet 1A line
+   * 1g amount. With the Step 2 box checked, they are the brackets halved
+   * and shifted by half the standard deduction, i.e. the tax on twice the
+   * wages less the standard deduction, divided by two.
+   */
+  private getWithholdingSchedule(
+    annualWages: Decimal,
+    filingStatus: FilingStatus,
+    exemptions: number,
+    w4: W4Input | undefined,
+    taxYear: number
+  ): { filingStatus: FilingStatus; taxableIncome: Decimal; divisor: number } {
+    const { withholding } = this.taxCalculator.getTaxYearTable(taxYear).federal;
+
+    // A 2019 or earlier Form W-4 only has single and married rates, and
+    // the new form has no separate married filing separately rates
+    const married = filingStatus === 'MARRIED_FILING_JOINTLY' || filingStatus === 'QUALIFYING_WIDOW';
+    const withholdingStatus: FilingStatus = married
+      ? 'MARRIED_FILING_JOINTLY'
+      : w4 && filingStatus === 'HEAD_OF_HOUSEHOLD' ? 'HEAD_OF_HOUSEHOLD' : 'SINGLE';
+    const standardDeduction = this.taxCalculator.getStandardDeduction(withholdingStatus, taxYear);
+    const deductionAdjustment = byFilingStatus(withholding.deductionAdjustment, withholdingStatus);
+
+    if (!w4) {
+      const adjustedWages = annualWages.minus(new Decimal(exemptions).mul(withholding.allowance));
+      return {
+        filingStatus: withholdingStatus,
+        taxableIncome: Decimal.max(0, adjustedWages.minus(standardDeduction).add(deductionAdjustment)),
+        divisor: 1
+      };
+    }
+
+    const adjustedWages = Decimal.max(
+      0,
+      annualWages
+        .add(w4.otherIncome)
+        .minus(w4.deductions)
+        .minus(w4.multipleJobs ? 0 : deductionAdjustment)
+    );
+
+    return w4.multipleJobs
+      ? {
+          filingStatus: withholdingStatus,
+          taxableIncome: Decimal.max(0, adjustedWages.mul(2).minus(standardDeduction)),
+          divisor: 2
+        }
+      : {
+          filingStatus: withholdingStatus,
+          taxableIncome: Decimal.max(0, adjustedWages.minus(standardDeduction).add(deductionAdjustment)),
+          divisor: 1
+        };
+  }
+
+  /**
+   * Project the year's federal withholding from this paycheck and the
+   * year to date, and compare it with the income tax and Additional
+   * Medicare tax on the return. Without year-to-date figures, earlier
+   * paychecks are assumed to match this one.
+   */
+  private forecastTaxReturn(
+    input: PaycheckInput,
+    taxableGross: Decimal,
+    federalWithholding: Decimal,
+    taxYear: number
+  ): TaxReturnForecast {
+    const { payFrequency, payDate, filingStatus, w4 } = input;
+    const payroll = this.taxCalculator.getPayrollTaxTable(taxYear);
+    const periodsPerYear = this.getPeriodsPerYear(payFrequency);
+    const periodsElapsed = Math.min(this.getPayPeriodsElapsed(payDate, payFrequency), periodsPerYear);
+    const earlierPaychecks = periodsElapsed - 1;
+    const remainingPaychecks = periodsPerYear - periodsElapsed;
+
+    const hasYtd = input.ytdGross > 0;
+    const earlierWages = hasYtd
+      ? Decimal.max(0, new Decimal(input.ytdGross).minus(new Decimal(input.preTaxDeductions).mul(earlierPaychecks)))
+      : taxableGross.mul(earlierPaychecks);
+    const earlierWithholding = hasYtd
+      ? new Decimal(input.ytdFederalTax)
+      : federalWithholding.mul(earlierPaychecks);
+
+    const wages = earlierWages.add(taxableGross.mul(remainingPaychecks + 1));
+    const additionalMedicareWithheld = Decimal.max(0, wages.minus(payroll.additionalMedicareWithholdingThreshold))
+      .mul(payroll.additionalMedicareRate);
+    const withholding = earlierWithholding
+      .add(federalWithholding.mul(remainingPaychecks + 1))
+      .add(additionalMedicareWithheld);
+
+    const liability = this.taxCalculator.calculateFederalLiability({
+      wages,
+      selfEmploymentIncome: new Decimal(0),
+      otherIncome: new Decimal(w4?.otherIncome || 0),
+      adjustments: new Decimal(w4?.deductions || 0),
+      filingStatus,
+      taxYear
     });
+    const incomeTax = Decimal.max(0, liability.incomeTax.minus(w4?.dependentsCredit || 0));
+    const totalLiability = incomeTax.add(liability.additionalMedicare);
+    const refund = withholding.minus(totalLiability).toDecimalPlaces(2);
 
-    // Calculate withholding for this pay period
-    const targetAnnualWithholding = annualTax.federal;
-    const targetPeriodWithholding = targetAnnualWithholding.div(periodsPerYear);
-    
-    // Adjust for year-to-date over/under withholding
-    const periodsElapsed = this.getPayPeriodsElapsed(new Date(), payFrequency);
-    const expectedYtdWithholding = targetAnnualWithholding.mul(periodsElapsed).div(periodsPerYear);
-    const adjustmentNeeded = expectedYtdWithholding.minus(ytdFederalTax);
-    
-    return Decimal.max(0, targetPeriodWithholding.add(adjustmentNeeded));
+    const isEven = refund.abs().lt(FORECAST_TOLERANCE);
+    return {
+      taxYear,
+      wages,
+      withholding,
+      incomeTax,
+      additionalMedicare: liability.additionalMedicare,
+      liability: totalLiability,
+      refund,
+      outcome: isEven ? 'EVEN' : refund.gt(0) ? 'REFUND' : 'BALANCE_DUE',
+      recommendation: isEven || remainingPaychecks === 0
+        ? null
+        : this.recommendW4Adjustment(input, taxableGross, federalWithholding, refund, remainingPaychecks, taxYear)
+    };
+  }
+
+  /**
+   * Form W-4 changes that spread the forecast refund or balance due over
+   * the remaining paychecks. A balance due is covered with Step 4(c) extra
+   * withholding. A refund first lowers extra withholding, then is turned
+   * into Step 4(b) deductions on a new form.
+   */
+  private recommendW4Adjustment(
+    input: PaycheckInput,
+    taxableGross: Decimal,
+    federalWithholding: Decimal,
+    refund: Decimal,
+    remainingPaychecks: number,
+    taxYear: number
+  ): W4Recommendation {
+    const currentExtra = new Decimal(input.additionalFederalWithholding);
+    const currentDeductions = new Decimal(input.w4?.deductions || 0);
+    const changePerPaycheck = refund.neg().div(remainingPaychecks).toDecimalPlaces(2);
+    const extraWithholding = currentExtra.add(changePerPaycheck);
+    const amount = formatCurrency(refund.abs().toNumber());
+
+    if (extraWithholding.gte(0)) {
+      const rounded = extraWithholding.toDecimalPlaces(0, Decimal.ROUND_UP);
+      return {
+        extraWithholding: rounded,
+        deductions: currentDeductions,
+        changePerPaycheck,
+        message: refund.lt(0)
+          ? `Withhold ${formatCurrency(rounded.toNumber())} extra per paycheck (Form W-4 Step 4(c)) to cover the ${amount} balance due.`
+          : `Lower extra withholding to ${formatCurrency(rounded.toNumber())} per paycheck (Form W-4 Step 4(c)) to reduce the ${amount} refund.`
+      };
+    }
+
+    // The smallest deductions that bring withholding down to the target.
+    // Withholding falls as deductions rise, so bisect between the current
+    // deductions and enough to cover all wages and other income.
+    const w4: W4Input = input.w4 || { multipleJobs: false, dependentsCredit: 0, otherIncome: 0, deductions: 0 };
+    const target = Decimal.max(0, federalWithholding.add(changePerPaycheck));
+    const withholdingWith = (deductions: Decimal) => this.calculateFederalWithholding(
+      taxableGross,
+      input.payFrequency,
+      input.filingStatus,
+      input.exemptions,
+      { ...w4, deductions: deductions.toNumber() },
+      taxYear
+    );
+
+    let low = input.w4 ? currentDeductions : new Decimal(0);
+    let high = taxableGross.mul(this.getPeriodsPerYear(input.payFrequency)).add(w4.otherIncome);
+    if (withholdingWith(low).lte(target)) {
+      high = low;
+    }
+    while (high.minus(low).gt(1)) {
+      const middle = low.add(high).div(2);
+      if (withholdingWith(middle).lte(target)) {
+        high = middle;
+      } else {
+        low = middle;
+      }
+    }
+    const deductions = high.div(100).ceil().mul(100);
+
+    return {
+      extraWithholding: new Decimal(0),
+      deductions,
+      changePerPaycheck,
+      message: `Claim ${formatCurrency(deductions.toNumber())} of deductions on a new Form W-4 (Step 4(b))` +
+        `${currentExtra.gt(0) ? ' and remove extra withholding' : ''} to reduce the ${amount} refund.`
+    };
   }
 
   /**
-   * Calculate state income tax withholding
+   * Calculate state income tax withholding. Employers withhold for the work
+   * state; what the residence state is owed is settled on the return.
    */
   private async calculateStateWithholding(
     grossPay: Decimal,
     payFrequency: PayFrequency,
     workState: USState,
-    residenceState: USState,
     filingStatus: FilingStatus,
-    ytdGross: Decimal,
-    ytdStateTax: Decimal
+    taxYear: number
   ): Promise<Decimal> {
-    // No state tax states
-    const noStateTaxStates: USState[] = ['AK', 'FL', 'NV', 'NH', 'SD', 'TN', 'TX', 'WA', 'WY'];
-    
-    if (noStateTaxStates.includes(workState) && noStateTaxStates.includes(residenceState)) {
-      return new Decimal(0);
-    }
-
-    // Use work state for withholding calculation
-    const taxState = workState;
-    
-    // Calculate using simplified percentage method
+    // Annualize this paycheck and withhold the matching share of annual state tax
     const periodsPerYear = this.getPeriodsPerYear(payFrequency);
     const annualizedGross = grossPay.mul(periodsPerYear);
     
-    // Get state tax rate (simplified)
-    const stateRates: Record<USState, number> = {
-      'AL': 0.05, 'AK': 0.00, 'AZ': 0.042, 'AR': 0.056, 'CA': 0.093,
-      'CO': 0.044, 'CT': 0.065, 'DE': 0.052, 'FL': 0.00, 'GA': 0.055,
-      'HI': 0.081, 'ID': 0.058, 'IL': 0.0475, 'IN': 0.032, 'IA': 0.065,
-      'KS': 0.053, 'KY': 0.05, 'LA': 0.045, 'ME': 0.075, 'MD': 0.051,
-      'MA': 0.05, 'MI': 0.042, 'MN': 0.078, 'MS': 0.05, 'MO': 0.054,
-      'MT': 0.069, 'NE': 0.058, 'NV': 0.00, 'NH': 0.00, 'NJ': 0.089,
-      'NM': 0.049, 'NY': 0.082, 'NC': 0.0475, 'ND': 0.029, 'OH': 0.037,
-      'OK': 0.05, 'OR': 0.087, 'PA': 0.031, 'RI': 0.0475, 'SC': 0.07,
-      'SD': 0.00, 'TN': 0.00, 'TX': 0.00, 'UT': 0.047, 'VT': 0.066,
-      'VA': 0.0575, 'WA': 0.00, 'WV': 0.036, 'WI': 0.054, 'WY': 0.00
-    };
-
-    const stateRate = stateRates[taxState] || 0;
-    
-    if (stateRate === 0) {
-      return new Decimal(0);
-    }
+    const annualStateTax = this.taxCalculator.calculateStateIncomeTax(
+      annualizedGross,
+      workState,
+      filingStatus,
+      { taxYear }
+    );
+    return annualStateTax.div(periodsPerYear);
+  }
 
-    // Simple proportional calculation
-    const federalStandardDeduction = this.getStandardDeduction(filingStatus);
-    const stateStandardDeduction = federalStandardDeduction.mul(0.7); // Approximate 70% of federal
-    const taxableIncome = Decimal.max(0, annualizedGross.minus(stateStandardDeduction));
+  /**
+   * Calculate local income tax withholding for the work and residence
+   * localities
+   */
+  private calculateLocalWithholding(
+    grossPay: Decimal,
+    payFrequency: PayFrequency,
+    input: PaycheckLocation,
+    taxYear: number
+  ): Decimal {
+    const periodsPerYear = this.getPeriodsPerYear(payFrequency);
     
-    const annualStateTax = taxableIncome.mul(stateRate);
-    return annualStateTax.div(periodsPerYear);
+    const annualLocalTax = this.taxCalculator.calculateLocalTax({
+      grossIncome: grossPay.mul(periodsPerYear),
+      filingStatus: input.filingStatus,
+      workLocation: { state: input.workState, city: input.workCity, zipCode: input.workZipCode },
+      homeLocation: { state: input.residenceState, city: input.residenceCity, zipCode: input.residenceZipCode },
+      taxYear
+    });
+    return annualLocalTax.total.div(periodsPerYear);
   }
 
   /**
@@ -266,53 +607,50 @@ export class PaycheckCalculationEngine {
   private calculateSocialSecurityWithholding(
     grossPay: Decimal,
     ytdGross: Decimal,
-    ytdSocialSecurity: Decimal
+    ytdSocialSecurity: Decimal,
+    taxYear: number
   ): Decimal {
-    const SOCIAL_SECURITY_RATE = 0.062;
-    const WAGE_BASE_2024 = 160200;
+    const payroll = this.taxCalculator.getPayrollTaxTable(taxYear);
+    const SOCIAL_SECURITY_RATE = payroll.socialSecurityRate;
+    const WAGE_BASE = payroll.socialSecurityWageBase;
     
     const newYtdGross = ytdGross.add(grossPay);
     
-    if (ytdGross.gte(WAGE_BASE_2024)) {
+    if (ytdGross.gte(WAGE_BASE)) {
       return new Decimal(0); // Already hit wage base
     }
     
-    if (newYtdGross.lte(WAGE_BASE_2024)) {
+    if (newYtdGross.lte(WAGE_BASE)) {
       return grossPay.mul(SOCIAL_SECURITY_RATE);
     }
     
     // Partial withholding up to wage base
-    const remainingWageBase = new Decimal(WAGE_BASE_2024).minus(ytdGross);
+    const remainingWageBase = new Decimal(WAGE_BASE).minus(ytdGross);
     const taxableAmount = Decimal.min(grossPay, remainingWageBase);
     
     return taxableAmount.mul(SOCIAL_SECURITY_RATE);
   }
 
   /**
-   * Calculate Medicare withholding (including additional Medicare tax)
+   * Calculate Medicare withholding (including additional Medicare tax).
+   * Employers withhold Additional Medicare on wages over $200,000 whatever
+   * the filing status; the filing-status thresholds apply on the return.
    */
   private calculateMedicareWithholding(
     grossPay: Decimal,
-    filingStatus: FilingStatus,
     ytdGross: Decimal,
-    ytdMedicare: Decimal
+    ytdMedicare: Decimal,
+    taxYear: number
   ): Decimal {
-    const MEDICARE_RATE = 0.0145;
-    const ADDITIONAL_MEDICARE_RATE = 0.009;
+    const payroll = this.taxCalculator.getPayrollTaxTable(taxYear);
+    const MEDICARE_RATE = payroll.medicareRate;
+    const ADDITIONAL_MEDICARE_RATE = payroll.additionalMedicareRate;
     
     // Regular Medicare (no wage base limit)
     const regularMedicare = grossPay.mul(MEDICARE_RATE);
     
-    // Additional Medicare tax thresholds
-    const thresholds = {
-      'SINGLE': 200000,
-      'MARRIED_FILING_JOINTLY': 250000,
-      'MARRIED_FILING_SEPARATELY': 125000,
-      'HEAD_OF_HOUSEHOLD': 200000,
-      'QUALIFYING_WIDOW': 250000
-    };
-    
-    const threshold = new Decimal(thresholds[filingStatus]);
+    // Additional Medicare withholding threshold
+    const threshold = new Decimal(payroll.additionalMedicareWithholdingThreshold);
     const newYtdGross = ytdGross.add(grossPay);
     
     let additionalMedicare = new Decimal(0);
@@ -336,17 +674,10 @@ export class PaycheckCalculationEngine {
     grossPay: Decimal,
     state: USState,
     ytdGross: Decimal,
-    ytdStateDisability: Decimal
+    ytdStateDisability: Decimal,
+    taxYear: number
   ): Decimal {
-    const stateDisabilityRates: Record<string, { rate: number; wageBase: number }> = {
-      'CA': { rate: 0.009, wageBase: 153164 },
-      'HI': { rate: 0.005, wageBase: 57000 },
-      'NJ': { rate: 0.0047, wageBase: 151900 },
-      'NY': { rate: 0.005, wageBase: 142800 },
-      'RI': { rate: 0.013, wageBase: 84000 }
-    };
-
-    const disabilityInfo = stateDisabilityRates[state];
+    const disabilityInfo = this.taxCalculator.getStateDisabilityTable(state, taxYear);
     
     if (!disabilityInfo) {
       return new Decimal(0);
@@ -397,18 +728,295 @@ export class PaycheckCalculationEngine {
   }
 
   /**
-   * Get standard deduction for filing status
+   * Withholding for one paycheck of a simulated year. Updates the
+   * year-to-date totals.
    */
-  private getStandardDeduction(filingStatus: FilingStatus): Decimal {
+  private async simulatePaycheck(
+    scheduled: ScheduledPaycheck,
+    terms: PayTerms,
+    changes: string[],
+    input: ValidatedPaySimulationInput,
+    ytd: SimulationYtd,
+    deferralLimit: Decimal,
+    taxYear: number
+  ): Promise<SimulatedPaycheck> {
+    const table = this.taxCalculator.getTaxYearTable(taxYear);
+    const { payroll } = table;
+    const isBonus = scheduled.kind === 'BONUS';
+    const location: PaycheckLocation = { ...input, ...terms };
+
+    // Health premiums and other pre-tax deductions come out of regular pay
+    const grossPay = new Decimal(isBonus ? scheduled.bonus! : terms.grossPay);
+    const preTax = isBonus ? new Decimal(0) : Decimal.min(grossPay, input.preTaxDeductions);
+    const ficaWages = grossPay.minus(preTax);
+    // 401(k) deferral from a paycheck, up to what is left of the annual limit
+    const remainingDeferral = Decimal.max(0, deferralLimit.minus(ytd.retirement401k));
+    const deferralFrom = (gross: Decimal, wages: Decimal) =>
+      Decimal.min(gross.mul(terms.retirement401kPercent).div(100), remainingDeferral, wages).toDecimalPlaces(2);
+    const retirement401k = deferralFrom(grossPay, ficaWages);
+    const incomeWages = ficaWages.minus(retirement401k);
+    const stateWages = (wages: Decimal, deferral: Decimal) =>
+      table.states[terms.workState]?.taxesElectiveDeferrals ? wages.add(deferral) : wages;
+
+    // State and local tax are withheld on a year of paychecks like this one
+    const withholdStateAndLocal = async (wages: Decimal) => ({
+      state: await this.calculateStateWithholding(
+        wages,
+        input.payFrequency,
+        terms.workState,
+        input.filingStatus,
+        taxYear
+      ),
+      local: this.calculateLocalWithholding(wages, input.payFrequency, location, taxYear)
+    });
+
+    let federal: Decimal;
+    let state: Decimal;
+    let local: Decimal;
+
+    if (isBonus) {
+      federal = this.calculateSupplementalWithholding(
+        incomeWages,
+        ytd.supplementalWages,
+        table.federal.supplementalWithholding
+      );
+
+      // Aggregate method: withholding on a regular paycheck and the bonus
+      // together, less the withholding on the regular paycheck alone
+      const regularGross = new Decimal(terms.grossPay);
+      const regularPreTax = Decimal.min(regularGross, input.preTaxDeductions);
+      const regularDeferral = deferralFrom(regularGross, regularGross.minus(regularPreTax));
+      const regularWages = stateWages(regularGross.minus(regularPreTax).minus(regularDeferral), regularDeferral);
+
+      const regular = await withholdStateAndLocal(regularWages);
+      const combined = await withholdStateAndLocal(regularWages.add(stateWages(incomeWages, retirement401k)));
+      state = Decimal.max(0, combined.state.minus(regular.state));
+      local = Decimal.max(0, combined.local.minus(regular.local));
+    } else {
+      federal = this.calculateFederalWithholding(
+        incomeWages,
+        input.payFrequency,
+        input.filingStatus,
+        input.exemptions,
+        input.w4,
+        taxYear
+      ).add(input.additionalFederalWithholding);
+
+      const regular = await withholdStateAndLocal(stateWages(incomeWages, retirement401k));
+      state = regular.state.add(input.additionalStateWithholding);
+      local = regular.local;
+    }
+
+    const socialSecurity = this.calculateSocialSecurityWithholding(
+      ficaWages,
+      ytd.socialSecurityWages,
+      new Decimal(0),
+      taxYear
+    );
+
+    const additionalMedicareThreshold = new Decimal(payroll.additionalMedicareWithholdingThreshold);
+    const wagesOverThreshold = Decimal.max(
+      0,
+      ytd.medicareWages.add(ficaWages).minus(Decimal.max(additionalMedicareThreshold, ytd.medicareWages))
+    );
+    const additionalMedicare = wagesOverThreshold.mul(payroll.additionalMedicareRate);
+
+    const ytdStateDisabilityWages = ytd.stateDisabilityWages[terms.workState] ?? new Decimal(0);
+    const stateDisability = this.calculateStateDisabilityWithholding(
+      ficaWages,
+      terms.workState,
+      ytdStateDisabilityWages,
+      new Decimal(0),
+      taxYear
+    );
+
+    const taxes = {
+      federal: federal.toDecimalPlaces(2),
+      state: state.toDecimalPlaces(2),
+      socialSecurity: socialSecurity.toDecimalPlaces(2),
+      medicare: ficaWages.mul(payroll.medicareRate).add(additionalMedicare).toDecimalPlaces(2),
+      additionalMedicare: additionalMedicare.toDecimalPlaces(2),
+      stateDisability: stateDisability.toDecimalPlaces(2),
+      local: local.toDecimalPlaces(2)
+    };
+    const totalTaxes = taxes.federal
+      .add(taxes.state)
+      .add(taxes.socialSecurity)
+      .add(taxes.medicare)
+      .add(taxes.stateDisability)
+      .add(taxes.local);
+
     const deductions = {
-      'SINGLE': 14600,
-      'MARRIED_FILING_JOINTLY': 29200,
-      'MARRIED_FILING_SEPARATELY': 14600,
-      'HEAD_OF_HOUSEHOLD': 21900,
-      'QUALIFYING_WIDOW': 29200
+      preTax,
+      retirement401k,
+      roth: new Decimal(isBonus ? 0 : input.rothDeductions),
+      afterTax: new Decimal(isBonus ? 0 : input.afterTaxDeductions)
+    };
+    const totalDeductions = deductions.preTax
+      .add(deductions.retirement401k)
+      .add(deductions.roth)
+      .add(deductions.afterTax);
+    const netPay = grossPay.minus(totalTaxes).minus(totalDeductions);
+
+    const milestones: PaySimulationMilestone[] = [];
+    const crossed = (before: Decimal, after: Decimal, threshold: Decimal.Value) =>
+      before.lt(threshold) && after.gte(threshold);
+
+    if (crossed(ytd.socialSecurityWages, ytd.socialSecurityWages.add(ficaWages), payroll.socialSecurityWageBase)) {
+      milestones.push('SOCIAL_SECURITY_WAGE_BASE');
+    }
+    if (additionalMedicare.gt(0) && ytd.medicareWages.lte(additionalMedicareThreshold)) {
+      milestones.push('ADDITIONAL_MEDICARE');
+    }
+    if (deferralLimit.gt(0) && crossed(ytd.retirement401k, ytd.retirement401k.add(retirement401k), deferralLimit)) {
+      milestones.push('RETIREMENT_LIMIT');
+    }
+
+    ytd.grossPay = ytd.grossPay.add(grossPay);
+    ytd.socialSecurityWages = ytd.socialSecurityWages.add(ficaWages);
+    ytd.medicareWages = ytd.medicareWages.add(ficaWages);
+    ytd.retirement401k = ytd.retirement401k.add(retirement401k);
+    ytd.totalTaxes = ytd.totalTaxes.add(totalTaxes);
+    ytd.netPay = ytd.netPay.add(netPay);
+    ytd.stateDisabilityWages[terms.workState] = ytdStateDisabilityWages.add(ficaWages);
+    if (isBonus) {
+      ytd.supplementalWages = ytd.supplementalWages.add(incomeWages);
+    }
+
+    return {
+      payDate: scheduled.payDate,
+      kind: scheduled.kind,
+      description: scheduled.description,
+      workState: terms.workState,
+      grossPay,
+      changes,
+      taxes: { ...taxes, total: totalTaxes },
+      deductions: { ...deductions, total: totalDeductions },
+      netPay,
+      ytd: {
+        grossPay: ytd.grossPay,
+        socialSecurityWages: ytd.socialSecurityWages,
+        medicareWages: ytd.medicareWages,
+        retirement401k: ytd.retirement401k,
+        totalTaxes: ytd.totalTaxes,
+        netPay: ytd.netPay
+      },
+      milestones
+    };
+  }
+
+  /**
+   * Federal withholding on supplemental wages at the flat rate, and at the
+   * mandatory rate on supplemental wages over the annual threshold
+   */
+  private calculateSupplementalWithholding(
+    wages: Decimal,
+    ytdSupplementalWages: Decimal,
+    rates: FederalTaxTable['supplementalWithholding']
+  ): Decimal {
+    const wagesOverThreshold = Decimal.max(
+      0,
+      ytdSupplementalWages.add(wages).minus(Decimal.max(rates.mandatoryThreshold, ytdSupplementalWages))
+    );
+
+    return wages
+      .minus(wagesOverThreshold)
+      .mul(rates.rate)
+      .add(wagesOverThreshold.mul(rates.mandatoryRate));
+  }
+
+  /**
+   * Regular pay dates from the first one to the end of its year, with
+   * bonuses on their own dates. A bonus paid on a regular pay date follows
+   * the regular paycheck.
+   */
+  private buildPaySchedule(firstPayDate: Date, frequency: PayFrequency, events: PayEvent[]): ScheduledPaycheck[] {
+    const year = firstPayDate.getFullYear();
+    const schedule: ScheduledPaycheck[] = this.getPayDates(firstPayDate, frequency)
+      .map(payDate => ({ payDate, kind: 'REGULAR' }));
+
+    events.forEach(event => {
+      if (event.type === 'BONUS' && event.date.getFullYear() === year) {
+        schedule.push({ payDate: event.date, kind: 'BONUS', bonus: event.amount, description: event.description });
+      }
+    });
+
+    const order = (paycheck: ScheduledPaycheck) => paycheck.kind === 'BONUS' ? 1 : 0;
+    return schedule.sort((a, b) => a.payDate.getTime() - b.payDate.getTime() || order(a) - order(b));
+  }
+
+  /**
+   * Pay dates from the first one to the end of its year. Semi-monthly pay
+   * falls on the 15th and the last day of the month.
+   */
+  private getPayDates(firstPayDate: Date, frequency: PayFrequency): Date[] {
+    const year = firstPayDate.getFullYear();
+    const payDates: Date[] = [];
+
+    if (frequency === 'SEMI_MONTHLY') {
+      const firstDay = startOfDay(firstPayDate);
+      for (let month = firstPayDate.getMonth(); month < 12; month++) {
+        [new Date(year, month, 15), new Date(year, month + 1, 0)]
+          .filter(payDate => payDate >= firstDay)
+          .forEach(payDate => payDates.push(payDate));
+      }
+      return payDates;
+    }
+
+    const nextPayDate = (index: number): Date => {
+      switch (frequency) {
+        case 'WEEKLY': return addWeeks(firstPayDate, index);
+        case 'BI_WEEKLY': return addWeeks(firstPayDate, index * 2);
+        case 'MONTHLY': return addMonths(firstPayDate, index);
+        case 'QUARTERLY': return addMonths(firstPayDate, index * 3);
+        default: return addMonths(firstPayDate, index * 12);
+      }
+    };
+
+    for (let index = 0; nextPayDate(index).getFullYear() === year; index++) {
+      payDates.push(nextPayDate(index));
+    }
+    return payDates;
+  }
+
+  /**
+   * Apply a pay event to the terms for the following paychecks, returning
+   * a description of the change
+   */
+  private applyPayEvent(terms: PayTerms, event: Exclude<PayEvent, { type: 'BONUS' }>): string {
+    switch (event.type) {
+      case 'RATE_CHANGE':
+        terms.grossPay = event.grossPay;
+        return `Gross pay changed to ${formatCurrency(event.grossPay)} per paycheck`;
+      case 'WORK_STATE_CHANGE':
+        terms.workState = event.workState;
+        terms.workCity = event.workCity;
+        terms.workZipCode = event.workZipCode;
+        return `Work state changed to ${event.workState}`;
+      case 'RETIREMENT_CHANGE':
+        terms.retirement401kPercent = event.retirement401kPercent;
+        return `401(k) contribution changed to ${event.retirement401kPercent}%`;
+    }
+  }
+
+  private sumPaychecks(paychecks: SimulatedPaycheck[]): PaySimulationTotals {
+    const sum = (value: (paycheck: SimulatedPaycheck) => Decimal) =>
+      paychecks.reduce((total, paycheck) => total.add(value(paycheck)), new Decimal(0));
+
+    return {
+      grossPay: sum(paycheck => paycheck.grossPay),
+      federal: sum(paycheck => paycheck.taxes.federal),
+      state: sum(paycheck => paycheck.taxes.state),
+      socialSecurity: sum(paycheck => paycheck.taxes.socialSecurity),
+      medicare: sum(paycheck => paycheck.taxes.medicare),
+      additionalMedicare: sum(paycheck => paycheck.taxes.additionalMedicare),
+      stateDisability: sum(paycheck => paycheck.taxes.stateDisability),
+      local: sum(paycheck => paycheck.taxes.local),
+      totalTaxes: sum(paycheck => paycheck.taxes.total),
+      retirement401k: sum(paycheck => paycheck.deductions.retirement401k),
+      totalDeductions: sum(paycheck => paycheck.deductions.total),
+      netPay: sum(paycheck => paycheck.netPay)
     };
-    
-    return new Decimal(deductions[filingStatus]);
   }
 
   /**
@@ -0,0 +1,695 @@
+// Reads the text layer of a PDF without external dependencies. Covers what
+// payroll providers generate: uncompressed or Flate content streams, object
+// streams, form XObjects and ToUnicode font maps. Scanned pay stubs have no
+// text layer and come back empty.
+
+interface PdfName { kind: 'name'; value: string }
+interface PdfString { kind: 'string'; value: string } // Raw bytes as latin1
+interface PdfRef { kind: 'ref'; id: number }
+interface PdfDictionary { kind: 'dict'; entries: Record<string, PdfValue> }
+interface PdfOperator { kind: 'operator'; value: string }
+
+type PdfValue = number | boolean | null | PdfName | PdfString | PdfRef | PdfDictionary | PdfValue[];
+
+interface PdfObject {
+  value: PdfValue;
+  stream?: string;
+}
+
+type Matrix = [number, number, number, number, number, number];
+
+interface PdfFont {
+  codeLength: 1 | 2;
+  toUnicode?: Map<number, string>;
+}
+
+interface TextFragment {
+  x: number;
+  y: number;
+  size: number;
+  text: string;
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const WHITESPACE = /[\0\t\n\f\r ]/;
+const DELIMITER = /[()<>[\]{}/%]/;
+
+// Average glyph width in ems, to tell where a fragment of text ends
+const GLYPH_WIDTH = 0.5;
+
+/**
+ * Text of a PDF, one line per row of text and pages in order. Fragments on
+ * the same baseline are joined left to right whatever order the producer
+ * drew them in, so table rows come out with their label and amounts.
+ */
+export async function extractPdfText(data: Uint8Array): Promise<string> {
+  const document = new PdfDocument(toLatin1(data));
+  await document.load();
+
+  const pages: string[] = [];
+  for (const page of document.getPages()) {
+    const fragments: TextFragment[] = [];
+    await drawContent(document, page, await document.getPageContent(page), IDENTITY, fragments);
+    pages.push(toLines(fragments).join('\n'));
+  }
+
+  return pages.join('\n');
+}
+
+class PdfDocument {
+  private readonly offsets = new Map<number, number>();
+  private readonly objects = new Map<number, PdfObject>();
+  private readonly compressed = new Map<number, PdfValue>();
+
+  constructor(private readonly source: string) {}
+
+  async load(): Promise<void> {
+    // Later definitions of an object come from incremental updates and win
+    const header = /(\d+)\s+\d+\s+obj\b/g;
+    let match: RegExpExecArray | null;
+    while ((match = header.exec(this.source))) {
+      this.offsets.set(Number(match[1]), match.index + match[0].length);
+    }
+
+    for (const id of Array.from(this.offsets.keys())) {
+      const object = this.getObject(id);
+      if (isDictionary(object?.value) && nameOf(object!.value.entries.Type) === 'ObjStm') {
+        await this.loadObjectStream(id, object!.value);
+      }
+    }
+  }
+
+  getPages(): PdfDictionary[] {
+    const catalog = this.findObjects('Catalog')[0];
+    const root = catalog && this.resolve(catalog.entries.Pages);
+    if (!isDictionary(root)) {
+      return this.findObjects('Page');
+    }
+
+    const pages: PdfDictionary[] = [];
+    const visit = (node: PdfDictionary, inherited: PdfValue, seen: Set<PdfDictionary>) => {
+      if (seen.has(node)) return;
+      seen.add(node);
+      const resources = node.entries.Resources ?? inherited;
+      if (nameOf(node.entries.Type) === 'Page') {
+        pages.push({ kind: 'dict', entries: { ...node.entries, Resources: resources } });
+        return;
+      }
+      const kids = this.resolve(node.entries.Kids);
+      (Array.isArray(kids) ? kids : []).forEach(kid => {
+        const child = this.resolve(kid);
+        if (isDictionary(child)) visit(child, resources, seen);
+      });
+    };
+    visit(root, null, new Set());
+
+    return pages;
+  }
+
+  async getPageContent(page: PdfDictionary): Promise<string> {
+    const contents = page.entries.Contents;
+    const streams = Array.isArray(this.resolve(contents)) ? this.resolve(contents) as PdfValue[] : [contents];
+    const decoded = await Promise.all(streams.map(stream => this.getStreamData(stream)));
+    return decoded.join('\n');
+  }
+
+  async getStreamData(value: PdfValue): Promise<string> {
+    const object = isRef(value) ? this.getObject(value.id) : undefined;
+    if (!object?.stream || !isDictionary(object.value)) {
+      return '';
+    }
+
+    const filter = this.resolve(object.value.entries.Filter);
+    const filters = (Array.isArray(filter) ? filter : filter ? [filter] : []).map(nameOf);
+    if (filters.length === 0) {
+      return object.stream;
+    }
+    if (filters.length === 1 && (filters[0] === 'FlateDecode' || filters[0] === 'Fl')) {
+      return inflate(object.stream);
+    }
+    return '';
+  }
+
+  getObject(id: number): PdfObject | undefined {
+    if (this.objects.has(id)) {
+      return this.objects.get(id);
+    }
+    if (this.compressed.has(id)) {
+      return { value: this.compressed.get(id)! };
+    }
+
+    const offset = this.offsets.get(id);
+    if (offset === undefined) {
+      return undefined;
+    }
+
+    // Placeholder so a stream whose length refers back to it terminates
+    this.objects.set(id, { value: null });
+    const parser = new PdfParser(this.source, offset);
+    const value = parser.readValue();
+    const object: PdfObject = { value };
+
+    if (isDictionary(value) && parser.readStreamStart()) {
+      const length = this.resolve(value.entries.Length);
+      const start = parser.position;
+      if (typeof length === 'number' && this.source.startsWith('endstream', this.skipEol(start + length))) {
+        object.stream = this.source.slice(start, start + length);
+      } else {
+        // Wrong or missing length: the data runs to the end-of-line before endstream
+        const end = this.source.indexOf('endstream', start);
+        object.stream = this.source.slice(start, end === -1 ? undefined : end).replace(/\r?\n$/, '');
+      }
+    }
+
+    this.objects.set(id, object);
+    return object;
+  }
+
+  resolve(value: PdfValue | undefined, depth = 0): PdfValue {
+    if (isRef(value) && depth < 32) {
+      return this.resolve(this.getObject(value.id)?.value ?? null, depth + 1);
+    }
+    return value ?? null;
+  }
+
+  async getFont(value: PdfValue): Promise<PdfFont> {
+    const font = this.resolve(value);
+    if (!isDictionary(font)) {
+      return { codeLength: 1 };
+    }
+
+    const composite = nameOf(font.entries.Subtype) === 'Type0';
+    const cmap = font.entries.ToUnicode ? await this.getStreamData(font.entries.ToUnicode) : '';
+    const toUnicode = cmap ? parseToUnicode(cmap) : undefined;
+
+    return {
+      codeLength: toUnicode?.codeLength ?? (composite ? 2 : 1),
+      toUnicode: toUnicode?.map
+    };
+  }
+
+  private findObjects(type: string): PdfDictionary[] {
+    const ids = Array.from(new Set([...Array.from(this.offsets.keys()), ...Array.from(this.compressed.keys())]));
+    return ids
+      .sort((a, b) => a - b)
+      .map(id => this.getObject(id)?.value)
+      .filter((value): value is PdfDictionary => isDictionary(value) && nameOf(value.entries.Type) === type);
+  }
+
+  private async loadObjectStream(id: number, dictionary: PdfDictionary): Promise<void> {
+    const data = await this.getStreamData({ kind: 'ref', id });
+    const count = this.resolve(dictionary.entries.N);
+    const first = this.resolve(dictionary.entries.First);
+    if (!data || typeof count !== 'number' || typeof first !== 'number') {
+      return;
+    }
+
+    const header = data.slice(0, first).trim().split(/\s+/).map(Number);
+    for (let i = 0; i < count; i++) {
+      const compressedId = header[i * 2];
+      const offset = header[i * 2 + 1];
+      if (!this.offsets.has(compressedId) && !this.compressed.has(compressedId)) {
+        this.compressed.set(compressedId, new PdfParser(data, first + offset).readValue());
+      }
+    }
+  }
+
+  private skipEol(position: number): number {
+    while (position < this.source.length && (this.source[position] === '\r' || this.source[position] === '\n')) {
+      position++;
+    }
+    return position;
+  }
+}
+
+class PdfParser {
+  constructor(private readonly source: string, public position = 0) {}
+
+  get done(): boolean {
+    this.skipWhitespace();
+    return this.position >= this.source.length;
+  }
+
+  // A value, or an operator keyword in a content stream
+  readToken(): PdfValue | PdfOperator {
+    this.skipWhitespace();
+    const char = this.source[this.position];
+
+    if (char === '/') {
+      this.position++;
+      return { kind: 'name', value: this.readRegular().replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))) };
+    }
+    if (char === '(') {
+      return { kind: 'string', value: this.readLiteralString() };
+    }
+    if (char === '<' && this.source[this.position + 1] === '<') {
+      return this.readDictionary();
+    }
+    if (char === '<') {
+      return { kind: 'string', value: this.readHexString() };
+    }
+    if (char === '[') {
+      this.position++;
+      const values: PdfValue[] = [];
+      while (!this.done && this.source[this.position] !== ']') {
+        values.push(this.readValue());
+      }
+      this.position++;
+      return values;
+    }
+    if (char === ']' || char === '>' || char === ')' || char === '{' || char === '}') {
+      this.position++;
+      return { kind: 'operator', value: char };
+    }
+
+    const word = this.readRegular();
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+      return this.readReference(Number(word));
+    }
+    if (word === 'true' || word === 'false') return word === 'true';
+    if (word === 'null') return null;
+    return { kind: 'operator', value: word };
+  }
+
+  readValue(): PdfValue {
+    const token = this.readToken();
+    return isOperator(token) ? null : token;
+  }
+
+  // After a stream dictionary, move past the stream keyword and its line end
+  readStreamStart(): boolean {
+    this.skipWhitespace();
+    if (!this.source.startsWith('stream', this.position)) {
+      return false;
+    }
+    this.position += 'stream'.length;
+    if (this.source[this.position] === '\r') this.position++;
+    if (this.source[this.position] === '\n') this.position++;
+    return true;
+  }
+
+  // Inline image data runs from ID to EI and is not tokenised
+  skipInlineImage(): void {
+    const end = this.source.slice(this.position).search(/\sEI(?=[\s]|$)/);
+    this.position = end === -1 ? this.source.length : this.position + end + 3;
+  }
+
+  private readReference(number: number): PdfValue {
+    const saved = this.position;
+    const match = /^\s+(\d+)\s+R(?=[\s/<>[\]()]|$)/.exec(this.source.slice(this.position, this.position + 24));
+    if (match && Number.isInteger(number)) {
+      this.position += match[0].length;
+      return { kind: 'ref', id: number };
+    }
+    this.position = saved;
+    return number;
+  }
+
+  private readDictionary(): PdfDictionary {
+    this.position += 2;
+    const entries: Record<string, PdfValue> = {};
+    while (!this.done && !this.source.startsWith('>>', this.position)) {
+      const key = this.readToken();
+      const name = isOperator(key) ? undefined : nameOf(key);
+      if (name !== undefined) {
+        entries[name] = this.readValue();
+      }
+    }
+    this.position += 2;
+    return { kind: 'dict', entries };
+  }
+
+  private readLiteralString(): string {
+    const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+    let depth = 0;
+    let value = '';
+    this.position++;
+
+    while (this.position < this.source.length) {
+      const char = this.source[this.position++];
+      if (char === '\\') {
+        const next = this.source[this.position++];
+        if (next in escapes) {
+          value += escapes[next];
+        } else if (/[0-7]/.test(next)) {
+          const octal = (next + this.source.slice(this.position, this.position + 2)).match(/^[0-7]{1,3}/)![0];
+          this.position += octal.length - 1;
+          value += String.fromCharCode(parseInt(octal, 8) & 0xff);
+        } else if (next === '\r' || next === '\n') {
+          if (next === '\r' && this.source[this.position] === '\n') this.position++;
+        } else {
+          value += next;
+        }
+      } else if (char === '(') {
+        depth++;
+        value += char;
+      } else if (char === ')') {
+        if (depth === 0) break;
+        depth--;
+        value += char;
+      } else {
+        value += char;
+      }
+    }
+
+    return value;
+  }
+
+  private readHexString(): string {
+    const end = this.source.indexOf('>', this.position);
+    const hex = this.source.slice(this.position + 1, end === -1 ? undefined : end).replace(/\s+/g, '');
+    this.position = end === -1 ? this.source.length : end + 1;
+
+    const padded = hex.length % 2 ? `${hex}0` : hex;
+    let value = '';
+    for (let i = 0; i < padded.length; i += 2) {
+      value += String.fromCharCode(parseInt(padded.slice(i, i + 2), 16));
+    }
+    return value;
+  }
+
+  private readRegular(): string {
+    const start = this.position;
+    while (
+      this.position < this.source.length &&
+      !WHITESPACE.test(this.source[this.position]) &&
+      !DELIMITER.test(this.source[this.position])
+    ) {
+      this.position++;
+    }
+    if (this.position === start) {
+      this.position++;
+    }
+    return this.source.slice(start, this.position);
+  }
+
+  private skipWhitespace(): void {
+    while (this.position < this.source.length) {
+      const char = this.source[this.position];
+      if (char === '%') {
+        while (this.position < this.source.length && this.source[this.position] !== '\n' && this.source[this.position] !== '\r') {
+          this.position++;
+        }
+      } else if (WHITESPACE.test(char)) {
+        this.position++;
+      } else {
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Run a content stream, collecting each piece of text shown with where it
+ * lands on the page. Only the text and graphics state that moves text is
+ * tracked.
+ */
+async function drawContent(
+  document: PdfDocument,
+  owner: PdfDictionary,
+  content: string,
+  initialMatrix: Matrix,
+  fragments: TextFragment[],
+  depth = 0
+): Promise<void> {
+  const resources = document.resolve(owner.entries.Resources);
+  const resourceEntries = isDictionary(resources) ? resources.entries : {};
+  const fontResources = document.resolve(resourceEntries.Font);
+  const xObjects = document.resolve(resourceEntries.XObject);
+  const fonts = new Map<string, PdfFont>();
+
+  const parser = new PdfParser(content);
+  const stack: Matrix[] = [];
+  let ctm = initialMatrix;
+  let textMatrix: Matrix = IDENTITY;
+  let lineMatrix: Matrix = IDENTITY;
+  let font: PdfFont = { codeLength: 1 };
+  let fontSize = 0;
+  let leading = 0;
+  let operands: PdfValue[] = [];
+
+  const moveLine = (tx: number, ty: number) => {
+    lineMatrix = multiply([1, 0, 0, 1, tx, ty], lineMatrix);
+    textMatrix = lineMatrix;
+  };
+
+  const show = (value: PdfValue) => {
+    const parts = Array.isArray(value) ? value : [value];
+    parts.forEach(part => {
+      if (typeof part === 'number') {
+        const shift = (-part / 1000) * fontSize;
+        textMatrix = multiply([1, 0, 0, 1, shift, 0], textMatrix);
+      } else if (isString(part)) {
+        const text = decodeText(part.value, font);
+        emit(text, text.length * GLYPH_WIDTH * fontSize);
+      }
+    });
+  };
+
+  const emit = (text: string, width: number) => {
+    const position = multiply(textMatrix, ctm);
+    if (text.trim()) {
+      fragments.push({
+        x: position[4],
+        y: position[5],
+        size: Math.abs(fontSize * Math.hypot(position[2], position[3])) || 1,
+        text
+      });
+    }
+    textMatrix = multiply([1, 0, 0, 1, width, 0], textMatrix);
+  };
+
+  while (!parser.done) {
+    const token = parser.readToken();
+    if (!isOperator(token)) {
+      operands.push(token);
+      continue;
+    }
+
+    const numbers = operands.filter((operand): operand is number => typeof operand === 'number');
+    switch (token.value) {
+      case 'q':
+        stack.push(ctm);
+        break;
+      case 'Q':
+        ctm = stack.pop() ?? ctm;
+        break;
+      case 'cm':
+        if (numbers.length === 6) ctm = multiply(numbers as Matrix, ctm);
+        break;
+      case 'BT':
+        textMatrix = IDENTITY;
+        lineMatrix = IDENTITY;
+        break;
+      case 'Tf': {
+        const key = nameOf(operands[0]) ?? '';
+        if (!fonts.has(key)) {
+          fonts.set(key, await document.getFont(isDictionary(fontResources) ? fontResources.entries[key] : null));
+        }
+        font = fonts.get(key)!;
+        fontSize = numbers[numbers.length - 1] ?? fontSize;
+        break;
+      }
+      case 'TL':
+        leading = numbers[0] ?? leading;
+        break;
+      case 'Td':
+        moveLine(numbers[0] ?? 0, numbers[1] ?? 0);
+        break;
+      case 'TD':
+        leading = -(numbers[1] ?? 0);
+        moveLine(numbers[0] ?? 0, numbers[1] ?? 0);
+        break;
+      case 'Tm':
+        if (numbers.length === 6) {
+          lineMatrix = numbers as Matrix;
+          textMatrix = lineMatrix;
+        }
+        break;
+      case 'T*':
+        moveLine(0, -leading);
+        break;
+      case 'Tj':
+      case 'TJ':
+        show(operands[operands.length - 1]);
+        break;
+      case "'":
+      case '"':
+        moveLine(0, -leading);
+        show(operands[operands.length - 1]);
+        break;
+      case 'Do': {
+        const key = nameOf(operands[0]) ?? '';
+        const ref = isDictionary(xObjects) ? xObjects.entries[key] : null;
+        const form = document.resolve(ref);
+        if (depth < 8 && isDictionary(form) && nameOf(form.entries.Subtype) === 'Form') {
+          const matrix = document.resolve(form.entries.Matrix);
+          const formMatrix = Array.isArray(matrix) && matrix.length === 6 ? matrix as Matrix : IDENTITY;
+          const formContent = await document.getStreamData(ref);
+          const formOwner: PdfDictionary = form.entries.Resources ? form : { kind: 'dict', entries: { ...form.entries, Resources: owner.entries.Resources } };
+          await drawContent(document, formOwner, formContent, multiply(formMatrix, ctm), fragments, depth + 1);
+        }
+        break;
+      }
+      case 'ID':
+        parser.skipInlineImage();
+        break;
+    }
+    operands = [];
+  }
+}
+
+// Group fragments into rows by baseline, top of the page first
+function toLines(fragments: TextFragment[]): string[] {
+  const sorted = [...fragments].sort((a, b) => b.y - a.y || a.x - b.x);
+  const rows: TextFragment[][] = [];
+
+  sorted.forEach(fragment => {
+    const row = rows[rows.length - 1];
+    if (row && Math.abs(row[0].y - fragment.y) <= Math.max(row[0].size, fragment.size) * 0.4) {
+      row.push(fragment);
+    } else {
+      rows.push([fragment]);
+    }
+  });
+
+  return rows.map(row => {
+    const ordered = row.sort((a, b) => a.x - b.x);
+    return ordered.reduce((line, fragment, index) => {
+      if (index === 0) return fragment.text;
+      const previous = ordered[index - 1];
+      const previousEnd = previous.x + previous.text.length * GLYPH_WIDTH * previous.size;
+      const gap = fragment.x - previousEnd;
+      const separator = gap > previous.size * 0.15 && !line.endsWith(' ') && !fragment.text.startsWith(' ') ? ' ' : '';
+      return line + separator + fragment.text;
+    }, '').replace(/\s+/g, ' ').trim();
+  }).filter(line => line.length > 0);
+}
+
+function decodeText(bytes: string, font: PdfFont): string {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += font.codeLength) {
+    const code = font.codeLength === 2
+      ? (bytes.charCodeAt(i) << 8) | (bytes.charCodeAt(i + 1) || 0)
+      : bytes.charCodeAt(i);
+    const mapped = font.toUnicode?.get(code);
+    text += mapped ?? (font.codeLength === 1 ? bytes[i] : '');
+  }
+  return text;
+}
+
+// Character codes to Unicode from a ToUnicode CMap's bfchar and bfrange
+function parseToUnicode(cmap: string): { codeLength: 1 | 2; map: Map<number, string> } {
+  const map = new Map<number, string>();
+  const codespace = /begincodespacerange\s*<([0-9a-fA-F]+)>/.exec(cmap);
+  const codeLength = codespace && codespace[1].length <= 2 ? 1 : 2;
+
+  const blocks = (name: string) => {
+    const pattern = new RegExp(`begin${name}([\\s\\S]*?)end${name}`, 'g');
+    const bodies: string[] = [];
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(cmap))) bodies.push(match[1]);
+    return bodies;
+  };
+
+  blocks('bfchar').forEach(body => {
+    const pair = /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g;
+    let match: RegExpExecArray | null;
+    while ((match = pair.exec(body))) {
+      map.set(parseInt(match[1], 16), fromUtf16Hex(match[2]));
+    }
+  });
+
+  blocks('bfrange').forEach(body => {
+    const range = /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g;
+    let match: RegExpExecArray | null;
+    while ((match = range.exec(body))) {
+      const start = parseInt(match[1], 16);
+      const end = parseInt(match[2], 16);
+      if (match[3].startsWith('[')) {
+        const targets = match[3].match(/<([0-9a-fA-F]*)>/g) || [];
+        targets.forEach((target, offset) => map.set(start + offset, fromUtf16Hex(target.slice(1, -1))));
+      } else {
+        const base = match[3].slice(1, -1);
+        const prefix = base.slice(0, -4);
+        const last = parseInt(base.slice(-4) || '0', 16);
+        for (let code = start; code <= end && code - start < 0x10000; code++) {
+          map.set(code, fromUtf16Hex(prefix + (last + code - start).toString(16).padStart(4, '0')));
+        }
+      }
+    }
+  });
+
+  return { codeLength, map };
+}
+
+function fromUtf16Hex(hex: string): string {
+  const units: number[] = [];
+  for (let i = 0; i + 4 <= hex.length; i += 4) {
+    units.push(parseInt(hex.slice(i, i + 4), 16));
+  }
+  if (units.length === 0 && hex.length === 2) {
+    units.push(parseInt(hex, 16));
+  }
+  return String.fromCharCode(...units);
+}
+
+// Flate-decode what it can; truncated streams keep the text before the break
+async function inflate(data: string): Promise<string> {
+  const bytes = new Uint8Array(data.length);
+  for (let i = 0; i < data.length; i++) bytes[i] = data.charCodeAt(i) & 0xff;
+
+  const chunks: Uint8Array[] = [];
+  try {
+    const reader = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate')).getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+    }
+  } catch {
+    // Keep the chunks read before the error
+  }
+
+  return chunks.map(toLatin1).join('');
+}
+
+function toLatin1(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    text += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return text;
+}
+
+// Product of two affine matrices, applying m1 then m2
+function multiply(m1: Matrix, m2: Matrix): Matrix {
+  return [
+    m1[0] * m2[0] + m1[1] * m2[2],
+    m1[0] * m2[1] + m1[1] * m2[3],
+    m1[2] * m2[0] + m1[3] * m2[2],
+    m1[2] * m2[1] + m1[3] * m2[3],
+    m1[4] * m2[0] + m1[5] * m2[2] + m2[4],
+    m1[4] * m2[1] + m1[5] * m2[3] + m2[5]
+  ];
+}
+
+function isDictionary(value: PdfValue | undefined): value is PdfDictionary {
+  return !!value && typeof value === 'object' && 'kind' in value && value.kind === 'dict';
+}
+
+function isRef(value: PdfValue | undefined): value is PdfRef {
+  return !!value && typeof value === 'object' && 'kind' in value && value.kind === 'ref';
+}
+
+function isString(value: PdfValue | undefined): value is PdfString {
+  return !!value && typeof value === 'object' && 'kind' in value && value.kind === 'string';
+}
+
+function isOperator(token: PdfValue | PdfOperator): token is PdfOperator {
+  return !!token && typeof token === 'object' && 'kind' in token && token.kind === 'operator';
+}
+
+function nameOf(value: PdfValue | undefined): string | undefined {
+  return value && typeof value === 'object' && 'kind' in value && value.kind === 'name' ? value.value : undefined;
+}
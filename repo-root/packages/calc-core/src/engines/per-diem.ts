@@ -0,0 +1,242 @@
+import { USState } from '../types';
+
+export interface PerDiemLocality {
+  name: string;
+  state: USState;
+  cities: string[];
+  zipPrefixes: string[];
+  // Maximum lodging by calendar month (January first), or one rate all year
+  lodging: number | number[];
+  mealsAndIncidentals: number;
+}
+
+export interface PerDiemTable {
+  fiscalYear: number;
+  standard: {
+    lodging: number;
+    mealsAndIncidentals: number;
+  };
+  localities: PerDiemLocality[];
+}
+
+export interface PerDiemRate {
+  locality: string;
+  fiscalYear: number;
+  lodging: number;
+  mealsAndIncidentals: number;
+}
+
+const monthly = (
+  jan: number, feb: number, mar: number, apr: number, may: number, jun: number,
+  jul: number, aug: number, sep: number, oct: number, nov: number, dec: number
+): number[] => [jan, feb, mar, apr, may, jun, jul, aug, sep, oct, nov, dec];
+
+// GSA CONUS per-diem rates (federal fiscal year 2025, October 2024 through
+// September 2025). Destinations that are not listed use the standard rate.
+export const GSA_PER_DIEM_FY2025: PerDiemTable = {
+  fiscalYear: 2025,
+  standard: { lodging: 110, mealsAndIncidentals: 68 },
+  localities: [
+    {
+      name: 'New York City',
+      state: 'NY',
+      cities: ['New York', 'New York City', 'Manhattan', 'Brooklyn', 'Bronx', 'Queens', 'Staten Island'],
+      zipPrefixes: ['100', '101', '102', '103', '104', '111', '112', '113', '114', '116'],
+      lodging: monthly(221, 221, 299, 299, 299, 299, 256, 256, 340, 340, 340, 340),
+      mealsAndIncidentals: 92
+    },
+    {
+      name: 'San Francisco',
+      state: 'CA',
+      cities: ['San Francisco'],
+      zipPrefixes: ['941'],
+      lodging: 272,
+      mealsAndIncidentals: 92
+    },
+    {
+      name: 'Los Angeles',
+      state: 'CA',
+      cities: ['Los Angeles', 'Long Beach', 'Santa Monica', 'Pasadena', 'Anaheim', 'Irvine'],
+      zipPrefixes: ['900', '901', '902', '903', '904', '905', '906', '907', '908', '910', '911', '912', '926', '927', '928'],
+      lodging: 191,
+      mealsAndIncidentals: 86
+    },
+    {
+      name: 'San Diego',
+      state: 'CA',
+      cities: ['San Diego'],
+      zipPrefixes: ['919', '920', '921'],
+      lodging: monthly(209, 209, 209, 209, 209, 255, 255, 255, 209, 209, 209, 209),
+      mealsAndIncidentals: 86
+    },
+    {
+      name: 'Boston / Cambridge',
+      state: 'MA',
+      cities: ['Boston', 'Cambridge'],
+      zipPrefixes: ['021', '022'],
+      lodging: monthly(229, 229, 229, 304, 304, 304, 304, 304, 313, 313, 313, 229),
+      mealsAndIncidentals: 92
+    },
+    {
+      name: 'Seattle',
+      state: 'WA',
+      cities: ['Seattle', 'Bellevue'],
+      zipPrefixes: ['980', '981'],
+      lodging: monthly(202, 202, 202, 202, 269, 269, 269, 269, 269, 202, 202, 202),
+      mealsAndIncidentals: 92
+    },
+    {
+      name: 'Chicago',
+      state: 'IL',
+      cities: ['Chicago', 'Evanston'],
+      zipPrefixes: ['606', '607', '608'],
+      lodging: monthly(146, 146, 190, 190, 218, 218, 218, 218, 218, 218, 190, 146),
+      mealsAndIncidentals: 92
+    },
+    {
+      name: 'Washington DC Metro',
+      state: 'VA',
+      cities: ['Arlington', 'Alexandria', 'Falls Church', 'Fairfax'],
+      zipPrefixes: ['222', '223'],
+      lodging: monthly(183, 183, 276, 276, 276, 204, 204, 204, 276, 276, 276, 183),
+      mealsAndIncidentals: 92
+    },
+    {
+      name: 'Denver / Aurora',
+      state: 'CO',
+      cities: ['Denver', 'Aurora', 'Lakewood'],
+      zipPrefixes: ['800', '802'],
+      lodging: 199,
+      mealsAndIncidentals: 92
+    },
+    {
+      name: 'Miami',
+      state: 'FL',
+      cities: ['Miami', 'Miami Beach'],
+      zipPrefixes: ['331', '332'],
+      lodging: monthly(245, 245, 245, 199, 199, 167, 167, 167, 167, 167, 199, 245),
+      mealsAndIncidentals: 86
+    },
+    {
+      name: 'Houston',
+      state: 'TX',
+      cities: ['Houston'],
+      zipPrefixes: ['770', '772'],
+      lodging: 146,
+      mealsAndIncidentals: 86
+    },
+    {
+      name: 'Phoenix / Scottsdale',
+      state: 'AZ',
+      cities: ['Phoenix', 'Scottsdale', 'Tempe', 'Mesa'],
+      zipPrefixes: ['850', '852'],
+      lodging: monthly(233, 233, 233, 170, 132, 132, 132, 132, 132, 170, 170, 170),
+      mealsAndIncidentals: 80
+    },
+    {
+      name: 'Philadelphia',
+      state: 'PA',
+      cities: ['Philadelphia'],
+      zipPrefixes: ['191'],
+      lodging: 187,
+      mealsAndIncidentals: 86
+    },
+    {
+      name: 'Atlanta',
+      state: 'GA',
+      cities: ['Atlanta'],
+      zipPrefixes: ['303'],
+      lodging: 175,
+      mealsAndIncidentals: 86
+    },
+    {
+      name: 'Minneapolis / St. Paul',
+      state: 'MN',
+      cities: ['Minneapolis', 'St. Paul', 'Saint Paul'],
+      zipPrefixes: ['554', '551'],
+      lodging: 161,
+      mealsAndIncidentals: 86
+    },
+    {
+      name: 'Portland',
+      state: 'OR',
+      cities: ['Portland'],
+      zipPrefixes: ['972'],
+      lodging: 166,
+      mealsAndIncidentals: 86
+    }
+  ]
+};
+
+/**
+ * Lookup of GSA per-diem rates by destination and date
+ */
+export class PerDiemDirectory {
+  private tables: PerDiemTable[];
+
+  constructor(tables: PerDiemTable[] = [GSA_PER_DIEM_FY2025]) {
+    this.tables = [...tables].sort((a, b) => a.fiscalYear - b.fiscalYear);
+  }
+
+  /**
+   * Get the lodging and M&IE rates for a destination on a date. Dates in a
+   * fiscal year without a table use the closest earlier year.
+   */
+  getRate(location: { state: USState; city?: string; zipCode?: string }, date: Date): PerDiemRate {
+    const table = this.getTable(this.getFiscalYear(date));
+    const locality = this.findLocality(table, location);
+
+    if (!locality) {
+      return {
+        locality: 'Standard CONUS',
+        fiscalYear: table.fiscalYear,
+        ...table.standard
+      };
+    }
+
+    return {
+      locality: locality.name,
+      fiscalYear: table.fiscalYear,
+      lodging: Array.isArray(locality.lodging) ? locality.lodging[date.getMonth()] : locality.lodging,
+      mealsAndIncidentals: locality.mealsAndIncidentals
+    };
+  }
+
+  /**
+   * Federal fiscal years begin on October 1
+   */
+  getFiscalYear(date: Date): number {
+    return date.getMonth() >= 9 ? date.getFullYear() + 1 : date.getFullYear();
+  }
+
+  private getTable(fiscalYear: number): PerDiemTable {
+    const earlier = this.tables.filter(table => table.fiscalYear <= fiscalYear);
+    return earlier.length > 0 ? earlier[earlier.length - 1] : this.tables[0];
+  }
+
+  private findLocality(
+    table: PerDiemTable,
+    location: { state: USState; city?: string; zipCode?: string }
+  ): PerDiemLocality | undefined {
+    const inState = table.localities.filter(locality => locality.state === location.state);
+
+    if (location.city) {
+      const city = this.normalizeCity(location.city);
+      const byCity = inState.find(locality =>
+        locality.cities.some(name => this.normalizeCity(name) === city)
+      );
+      if (byCity) return byCity;
+    }
+
+    if (location.zipCode) {
+      const zip = location.zipCode.slice(0, 5);
+      return inState.find(locality => locality.zipPrefixes.some(prefix => zip.startsWith(prefix)));
+    }
+
+    return undefined;
+  }
+
+  private normalizeCity(city: string): string {
+    return city.trim().toLowerCase().replace(/\./g, '').replace(/\s+/g, ' ');
+  }
+}
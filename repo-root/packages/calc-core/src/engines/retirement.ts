@@ -0,0 +1,168 @@
+import { Decimal } from 'decimal.js';
+import {
+  FilingStatus,
+  RetirementInput,
+  RetirementLimits,
+  RetirementPlan,
+  WorkerClassification
+} from '../types';
+import { formatCurrency } from '../utils';
+import { TaxCalculator } from './tax-calculator';
+
+export interface RetirementPlanInput {
+  workerClassification: WorkerClassification;
+  // W-2 wages, or Schedule C net profit for 1099 income
+  compensation: Decimal;
+  filingStatus: FilingStatus;
+  taxYear?: number;
+  contributions: RetirementInput;
+}
+
+/**
+ * Models 401(k), Solo 401(k), SEP-IRA and HSA contributions against the
+ * annual IRS limits for the tax year.
+ */
+export class RetirementPlanner {
+  private taxCalculator: TaxCalculator;
+
+  constructor(taxCalculator: TaxCalculator = new TaxCalculator()) {
+    this.taxCalculator = taxCalculator;
+  }
+
+  /**
+   * Apply contribution limits and split contributions into pre-tax and Roth
+   */
+  plan(input: RetirementPlanInput): RetirementPlan {
+    const { contributions, taxYear } = input;
+    const table = this.taxCalculator.getTaxYearTable(taxYear).retirement;
+    const limits = this.getLimits(input);
+    const selfEmployed = input.workerClassification === '1099';
+    const warnings: string[] = [];
+
+    // Elective deferrals, split between pre-tax and Roth
+    const deferral = this.applyLimit(
+      new Decimal(contributions.electiveDeferral),
+      limits.electiveDeferral,
+      '401(k) elective deferral',
+      warnings
+    );
+    let rothDeferral = deferral.mul(contributions.rothPercent).div(100);
+
+    const baseDeferralRoom = Decimal.max(0, new Decimal(table.electiveDeferral).minus(contributions.priorDeferrals));
+    const catchUpUsed = Decimal.max(0, deferral.minus(baseDeferralRoom));
+
+    // SECURE 2.0: high earners must make catch-up contributions as Roth
+    if (
+      !selfEmployed &&
+      table.rothCatchUpWageThreshold !== undefined &&
+      catchUpUsed.gt(0) &&
+      input.compensation.gt(table.rothCatchUpWageThreshold) &&
+      rothDeferral.lt(catchUpUsed)
+    ) {
+      rothDeferral = catchUpUsed;
+      warnings.push(
+        `Catch-up contributions must be Roth for wages above ${formatCurrency(table.rothCatchUpWageThreshold)}; ` +
+        `${formatCurrency(catchUpUsed.toNumber())} was designated Roth.`
+      );
+    }
+
+    // Employer contributions are only available on self-employment income,
+    // and share the annual additions limit with the non-catch-up deferral
+    let employerContribution = new Decimal(0);
+    let sepIra = new Decimal(0);
+    const requestedEmployer = new Decimal(contributions.employerContribution).add(contributions.sepIra);
+
+    if (!selfEmployed && requestedEmployer.gt(0)) {
+      warnings.push('Solo 401(k) employer and SEP-IRA contributions require 1099 self-employment income.');
+    } else if (selfEmployed) {
+      const employerRoom = Decimal.max(0, Decimal.min(
+        limits.employerContribution,
+        limits.annualAdditions.minus(deferral.minus(catchUpUsed))
+      ));
+      employerContribution = Decimal.min(contributions.employerContribution, employerRoom);
+      sepIra = Decimal.min(contributions.sepIra, employerRoom.minus(employerContribution));
+
+      if (employerContribution.add(sepIra).lt(requestedEmployer)) {
+        warnings.push(
+          `Employer contributions reduced to the ${formatCurrency(employerRoom.toNumber())} limit ` +
+          '(20% of net self-employment earnings, within the annual additions limit).'
+        );
+      }
+    }
+
+    const hsa = this.applyLimit(new Decimal(contributions.hsa), limits.hsa, 'HSA contribution', warnings);
+    const preTaxDeferral = deferral.minus(rothDeferral);
+    const preTaxTotal = preTaxDeferral.add(employerContribution).add(sepIra).add(hsa);
+
+    return {
+      preTaxDeferral,
+      rothDeferral,
+      employerContribution,
+      sepIra,
+      hsa,
+      preTaxTotal,
+      total: preTaxTotal.add(rothDeferral),
+      limits,
+      warnings
+    };
+  }
+
+  /**
+   * Annual limits for the contributor, including age-based catch-ups
+   */
+  getLimits(input: RetirementPlanInput): RetirementLimits {
+    const { contributions, filingStatus, taxYear } = input;
+    const table = this.taxCalculator.getTaxYearTable(taxYear).retirement;
+    const age = contributions.age ?? 0;
+    const selfEmployed = input.workerClassification === '1099';
+
+    // Plan compensation for the self-employed is net profit less the
+    // deductible half of self-employment tax
+    const earnedIncome = selfEmployed
+      ? input.compensation.minus(
+          this.taxCalculator.calculateSelfEmploymentTax(input.compensation, filingStatus, taxYear).deductibleHalf
+        )
+      : input.compensation;
+    const planCompensation = Decimal.min(Decimal.max(0, earnedIncome), table.compensationLimit);
+
+    const catchUp = new Decimal(
+      age >= 60 && age <= 63 && table.superCatchUp !== undefined
+        ? table.superCatchUp
+        : age >= 50 ? table.catchUp : 0
+    );
+    const electiveDeferral = Decimal.max(0, Decimal.min(
+      catchUp.add(table.electiveDeferral).minus(contributions.priorDeferrals),
+      planCompensation
+    ));
+
+    // 25% of compensation after the contribution itself, i.e. 20% of net
+    // earnings for the self-employed
+    const employerRate = table.employerContributionRate / (1 + table.employerContributionRate);
+    const employerContribution = selfEmployed
+      ? Decimal.min(planCompensation.mul(employerRate), table.annualAdditions)
+      : new Decimal(0);
+
+    const hsaBase = contributions.hsaCoverage === 'FAMILY' ? table.hsa.family : table.hsa.self;
+    const hsa = new Decimal(hsaBase).add(age >= 55 ? table.hsa.catchUp : 0);
+
+    return {
+      electiveDeferral,
+      catchUp,
+      employerContribution,
+      annualAdditions: new Decimal(table.annualAdditions),
+      hsa
+    };
+  }
+
+  private applyLimit(requested: Decimal, limit: Decimal, label: string, warnings: string[]): Decimal {
+    if (requested.lte(limit)) {
+      return requested;
+    }
+
+    warnings.push(
+      `${label} reduced from ${formatCurrency(requested.toNumber())} to the ` +
+      `${formatCurrency(limit.toNumber())} limit.`
+    );
+    return limit;
+  }
+}
@@ -0,0 +1,55 @@
+import { ScoringFactor, ScoringProfile } from '../types';
+
+export const SCORING_FACTOR_LABELS: Record<ScoringFactor, string> = {
+  netPay: 'net pay',
+  hourlyRate: 'effective hourly rate',
+  benefits: 'stipends and benefits',
+  taxEfficiency: 'tax efficiency',
+  location: 'location',
+  costOfLiving: 'cost of living',
+  qualityOfLife: 'quality of life',
+  commute: 'commute'
+};
+
+const NO_WEIGHTS: ScoringProfile['weights'] = {
+  netPay: 0,
+  hourlyRate: 0,
+  benefits: 0,
+  taxEfficiency: 0,
+  location: 0,
+  costOfLiving: 0,
+  qualityOfLife: 0,
+  commute: 0
+};
+
+// Built-in profiles. 'balanced' reproduces the original fixed weights:
+// compensation 40% (60/40 hourly rate and net pay), benefits 25%,
+// location 20% and tax efficiency 15%.
+export const SCORING_PROFILES: Record<string, ScoringProfile> = {
+  balanced: {
+    id: 'balanced',
+    name: 'Balanced',
+    description: 'Compensation, benefits, location and taxes',
+    weights: { ...NO_WEIGHTS, hourlyRate: 24, netPay: 16, benefits: 25, location: 20, taxEfficiency: 15 }
+  },
+  'max-net-pay': {
+    id: 'max-net-pay',
+    name: 'Maximize net pay',
+    description: 'Take-home pay above everything else',
+    weights: { ...NO_WEIGHTS, netPay: 70, hourlyRate: 15, taxEfficiency: 15 }
+  },
+  'family-friendly': {
+    id: 'family-friendly',
+    name: 'Family friendly',
+    description: 'Low cost of living and high quality of life',
+    weights: { ...NO_WEIGHTS, costOfLiving: 35, qualityOfLife: 35, netPay: 20, commute: 10 }
+  },
+  'short-commute': {
+    id: 'short-commute',
+    name: 'Short commute',
+    description: 'Assignments close to home',
+    weights: { ...NO_WEIGHTS, commute: 60, netPay: 25, qualityOfLife: 15 }
+  }
+};
+
+export const DEFAULT_SCORING_PROFILE = SCORING_PROFILES.balanced;
@@ -0,0 +1,191 @@
+import { Decimal } from 'decimal.js';
+import {
+  ContractCalculationResult,
+  ContractInput,
+  SensitivityCell,
+  SensitivityTable,
+  SolverResult,
+  SolverVariable
+} from '../types';
+import { ContractCalculationEngine } from './contract';
+
+export interface SolverOptions {
+  // Acceptable distance from the target net pay, in dollars
+  tolerance?: number;
+  maxIterations?: number;
+}
+
+export interface SensitivityGrid {
+  hourlyRates?: number[];
+  hoursPerWeek?: number[];
+}
+
+// Valid range of each variable, matching ContractInputSchema
+const VARIABLE_BOUNDS: Record<SolverVariable, { min: number; max?: number }> = {
+  hourlyRate: { min: 0.01 },
+  hoursPerWeek: { min: 1, max: 168 },
+  housingStipend: { min: 0 }
+};
+
+const DEFAULT_TOLERANCE = 1;
+const DEFAULT_MAX_ITERATIONS = 100;
+
+// Default sensitivity grid around the contract's own rate and hours
+const RATE_STEPS = [0.8, 0.9, 1, 1.1, 1.2];
+const HOUR_STEPS = [-8, -4, 0, 4, 8];
+
+/**
+ * Solves for the hourly rate, weekly hours or weekly housing stipend a
+ * contract needs to reach a net pay target, and tabulates net pay across a
+ * grid of rates and hours.
+ *
+ * Net pay is found by running the full contract calculation, so taxes,
+ * stipend limits and retirement contributions are all reflected in the
+ * answer.
+ */
+export class ContractSolver {
+  private contractEngine: ContractCalculationEngine;
+
+  constructor(contractEngine: ContractCalculationEngine = new ContractCalculationEngine()) {
+    this.contractEngine = contractEngine;
+  }
+
+  /**
+   * Find the value of a variable that produces the target net pay
+   */
+  async solveForNetPay(
+    contract: ContractInput,
+    variable: SolverVariable,
+    targetNetPay: number,
+    options: SolverOptions = {}
+  ): Promise<SolverResult> {
+    const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+    const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+    const bounds = VARIABLE_BOUNDS[variable];
+    const target = new Decimal(targetNetPay);
+    let iterations = 0;
+
+    const evaluate = (value: number) => {
+      iterations++;
+      return this.contractEngine.calculateContract(this.withValue(contract, variable, value));
+    };
+    const solved = (value: number, result: ContractCalculationResult, converged: boolean): SolverResult => ({
+      variable,
+      value: new Decimal(value),
+      targetNetPay: target,
+      achievedNetPay: result.totals.netAnnualPay,
+      converged,
+      iterations,
+      result
+    });
+
+    let low = bounds.min;
+    const lowResult = await evaluate(low);
+    if (lowResult.totals.netAnnualPay.gte(target)) {
+      return solved(low, lowResult, true);
+    }
+
+    // Expand the upper bound until it reaches the target
+    let high = Math.max(this.getValue(contract, variable) * 2, 1);
+    if (bounds.max !== undefined) high = Math.min(high, bounds.max);
+    let highResult = await evaluate(high);
+
+    while (highResult.totals.netAnnualPay.lt(target)) {
+      if ((bounds.max !== undefined && high >= bounds.max) || iterations >= maxIterations) {
+        return solved(high, highResult, false);
+      }
+      low = high;
+      high = bounds.max !== undefined ? Math.min(high * 2, bounds.max) : high * 2;
+      highResult = await evaluate(high);
+    }
+
+    // Bisect, keeping the upper bound at or above the target
+    while (
+      highResult.totals.netAnnualPay.minus(target).gt(tolerance) &&
+      high - low > 0.005 &&
+      iterations < maxIterations
+    ) {
+      const mid = (low + high) / 2;
+      const midResult = await evaluate(mid);
+      if (midResult.totals.netAnnualPay.gte(target)) {
+        high = mid;
+        highResult = midResult;
+      } else {
+        low = mid;
+      }
+    }
+
+    // Round up to the cent so the answer never falls short of the target
+    const value = new Decimal(high).toDecimalPlaces(2, Decimal.ROUND_UP).toNumber();
+    const result = value === high ? highResult : await evaluate(value);
+    return solved(value, result, true);
+  }
+
+  /**
+   * Find the value of a variable that gives the same net pay as a reference
+   * contract, e.g. the California rate that matches a Texas offer
+   */
+  async matchContract(
+    contract: ContractInput,
+    reference: ContractInput,
+    variable: SolverVariable,
+    options: SolverOptions = {}
+  ): Promise<SolverResult> {
+    const referenceResult = await this.contractEngine.calculateContract(reference);
+    return this.solveForNetPay(contract, variable, referenceResult.totals.netAnnualPay.toNumber(), options);
+  }
+
+  /**
+   * Net pay for each combination of hourly rate and weekly hours
+   */
+  async sensitivity(contract: ContractInput, grid: SensitivityGrid = {}): Promise<SensitivityTable> {
+    const hourlyRates = grid.hourlyRates ?? RATE_STEPS.map(step =>
+      new Decimal(contract.hourlyRate).mul(step).toDecimalPlaces(2).toNumber()
+    );
+    const hoursPerWeek = grid.hoursPerWeek ?? HOUR_STEPS
+      .map(step => contract.hoursPerWeek + step)
+      .filter(hours => hours >= VARIABLE_BOUNDS.hoursPerWeek.min && hours <= VARIABLE_BOUNDS.hoursPerWeek.max!);
+
+    const cells: SensitivityCell[][] = [];
+    for (const hours of hoursPerWeek) {
+      const row = await Promise.all(hourlyRates.map(async hourlyRate => {
+        const result = await this.contractEngine.calculateContract({ ...contract, hourlyRate, hoursPerWeek: hours });
+        return {
+          hourlyRate: new Decimal(hourlyRate),
+          hoursPerWeek: new Decimal(hours),
+          netAnnualPay: result.totals.netAnnualPay,
+          effectiveHourlyRate: result.totals.effectiveHourlyRate
+        };
+      }));
+      cells.push(row);
+    }
+
+    return {
+      hourlyRates: hourlyRates.map(rate => new Decimal(rate)),
+      hoursPerWeek: hoursPerWeek.map(hours => new Decimal(hours)),
+      cells
+    };
+  }
+
+  private getValue(contract: ContractInput, variable: SolverVariable): number {
+    switch (variable) {
+      case 'hourlyRate':
+        return contract.hourlyRate;
+      case 'hoursPerWeek':
+        return contract.hoursPerWeek;
+      case 'housingStipend':
+        return contract.stipends?.housing || 0;
+    }
+  }
+
+  private withValue(contract: ContractInput, variable: SolverVariable, value: number): ContractInput {
+    switch (variable) {
+      case 'hourlyRate':
+        return { ...contract, hourlyRate: value };
+      case 'hoursPerWeek':
+        return { ...contract, hoursPerWeek: value };
+      case 'housingStipend':
+        return { ...contract, stipends: { ...contract.stipends, housing: value } };
+    }
+  }
+}
@@ -0,0 +1,183 @@
+import { Decimal } from 'decimal.js';
+import { addDays, differenceInDays } from 'date-fns';
+import { ContractInput, StipendAllocation, StipendEligibility, TaxHomeStatus } from '../types';
+import { formatCurrency } from '../utils';
+import { PerDiemDirectory } from './per-diem';
+
+export interface StipendTotals {
+  housing: Decimal;
+  travel: Decimal;
+  meals: Decimal;
+  licensure: Decimal;
+  malpractice: Decimal;
+  cme: Decimal;
+  other: Decimal;
+}
+
+// Assignments closer to home than this are treated as local commutes
+const MINIMUM_DISTANCE_MILES = 50;
+
+// Travel stipends are only tax-free while the assignment is temporary
+const MAXIMUM_TEMPORARY_DAYS = 365;
+
+const ELIGIBLE_STATUSES: TaxHomeStatus[] = ['QUALIFIED', 'FACTS_AND_CIRCUMSTANCES', 'UNVERIFIED'];
+
+const STATUS_WARNINGS: Partial<Record<TaxHomeStatus, string>> = {
+  FACTS_AND_CIRCUMSTANCES: 'You meet two of the three IRS tax home factors. Stipends are treated as tax-free, but the IRS decides based on the facts and circumstances.',
+  UNVERIFIED: 'No tax home was provided. Housing, meal and travel stipends are assumed tax-free within GSA limits, but are taxable wages if you do not have a tax home.',
+  ITINERANT: 'You do not meet the IRS tax home test, so housing, meal and travel stipends are taxable wages.',
+  LOCAL: `The assignment is within ${MINIMUM_DISTANCE_MILES} miles of your tax home, so housing, meal and travel stipends are taxable wages.`,
+  INDEFINITE: 'Assignments expected to last more than one year are indefinite, so housing, meal and travel stipends are taxable wages.',
+  NOT_APPLICABLE: 'Stipends paid to 1099 contractors are taxable income. Deduct qualifying travel costs as business expenses instead.'
+};
+
+/**
+ * Determines which contract stipends are tax-free under an accountable plan.
+ *
+ * Housing and meal stipends are tax-free up to the GSA lodging and M&IE
+ * rates for the assignment location, and only when the traveler has a tax
+ * home they are away from on a temporary assignment. Anything above the
+ * limits, or paid to someone without a tax home, is reclassified as taxable
+ * wages.
+ */
+export class StipendRulesEngine {
+  private perDiem: PerDiemDirectory;
+
+  constructor(perDiem: PerDiemDirectory = new PerDiemDirectory()) {
+    this.perDiem = perDiem;
+  }
+
+  /**
+   * Split contract stipends into tax-free and taxable amounts
+   */
+  evaluate(contract: ContractInput, stipends: StipendTotals): StipendEligibility {
+    const taxHomeStatus = this.determineTaxHomeStatus(contract);
+    const allowance = this.calculatePerDiemAllowance(contract);
+    const eligible = ELIGIBLE_STATUSES.includes(taxHomeStatus);
+    const reimbursable = taxHomeStatus !== 'NOT_APPLICABLE';
+    const warnings: string[] = [];
+
+    const statusWarning = STATUS_WARNINGS[taxHomeStatus];
+    if (statusWarning) {
+      warnings.push(statusWarning);
+    }
+
+    const housing = eligible
+      ? this.allocate(stipends.housing, allowance.lodging)
+      : this.taxable(stipends.housing);
+    const meals = eligible
+      ? this.allocate(stipends.meals, allowance.mealsAndIncidentals)
+      : this.taxable(stipends.meals);
+
+    if (housing.limit && housing.taxable.gt(0)) {
+      warnings.push(
+        `Housing stipend exceeds the GSA lodging rate for ${allowance.locality} by ` +
+        `${formatCurrency(housing.taxable.toNumber())}; the excess is taxable wages.`
+      );
+    }
+    if (meals.limit && meals.taxable.gt(0)) {
+      warnings.push(
+        `Meal stipend exceeds the GSA M&IE rate for ${allowance.locality} by ` +
+        `${formatCurrency(meals.taxable.toNumber())}; the excess is taxable wages.`
+      );
+    }
+
+    // Reimbursed licensing, malpractice and CME costs are business expenses
+    // and stay tax-free whether or not the traveler has a tax home
+    const allocations = {
+      housing,
+      meals,
+      travel: eligible ? this.taxFree(stipends.travel) : this.taxable(stipends.travel),
+      licensure: reimbursable ? this.taxFree(stipends.licensure) : this.taxable(stipends.licensure),
+      malpractice: reimbursable ? this.taxFree(stipends.malpractice) : this.taxable(stipends.malpractice),
+      cme: reimbursable ? this.taxFree(stipends.cme) : this.taxable(stipends.cme),
+      other: this.taxable(stipends.other)
+    };
+
+    const all = Object.values(allocations);
+
+    return {
+      taxHomeStatus,
+      perDiemLocality: allowance.locality,
+      ...allocations,
+      taxFree: all.reduce((total, allocation) => total.add(allocation.taxFree), new Decimal(0)),
+      taxable: all.reduce((total, allocation) => total.add(allocation.taxable), new Decimal(0)),
+      warnings
+    };
+  }
+
+  /**
+   * Apply the IRS tax home test (Rev. Rul. 73-529) and the one-year rule for
+   * temporary assignments
+   */
+  determineTaxHomeStatus(contract: ContractInput): TaxHomeStatus {
+    const { taxHome, location } = contract;
+
+    if (contract.workerClassification === '1099') {
+      return 'NOT_APPLICABLE';
+    }
+
+    const assignmentDays = Math.max(
+      contract.duration * 7,
+      differenceInDays(contract.endDate, contract.startDate)
+    );
+    if (assignmentDays > MAXIMUM_TEMPORARY_DAYS) {
+      return 'INDEFINITE';
+    }
+
+    if (!taxHome) {
+      return 'UNVERIFIED';
+    }
+
+    const sameCity = taxHome.state === location.state && !!taxHome.city &&
+      taxHome.city.trim().toLowerCase() === location.city.trim().toLowerCase();
+    const sameZip = !!taxHome.zipCode && taxHome.zipCode.slice(0, 5) === location.zipCode.slice(0, 5);
+    const isLocal = taxHome.distanceMiles !== undefined
+      ? taxHome.distanceMiles < MINIMUM_DISTANCE_MILES
+      : sameCity || sameZip;
+    if (isLocal) {
+      return 'LOCAL';
+    }
+
+    const factors = [taxHome.worksNearHome, taxHome.maintainsHome, taxHome.returnsHome]
+      .filter(Boolean).length;
+
+    if (factors === 3) return 'QUALIFIED';
+    if (factors === 2) return 'FACTS_AND_CIRCUMSTANCES';
+    return 'ITINERANT';
+  }
+
+  /**
+   * Total GSA lodging and M&IE allowance for each day of the contract
+   */
+  private calculatePerDiemAllowance(contract: ContractInput) {
+    const days = Math.round(contract.duration * 7);
+    let lodging = new Decimal(0);
+    let mealsAndIncidentals = new Decimal(0);
+
+    for (let day = 0; day < days; day++) {
+      const rate = this.perDiem.getRate(contract.location, addDays(contract.startDate, day));
+      lodging = lodging.add(rate.lodging);
+      mealsAndIncidentals = mealsAndIncidentals.add(rate.mealsAndIncidentals);
+    }
+
+    return {
+      locality: this.perDiem.getRate(contract.location, contract.startDate).locality,
+      lodging,
+      mealsAndIncidentals
+    };
+  }
+
+  private allocate(amount: Decimal, limit: Decimal): StipendAllocation {
+    const taxFree = Decimal.min(amount, limit);
+    return { amount, limit, taxFree, taxable: amount.minus(taxFree) };
+  }
+
+  private taxFree(amount: Decimal): StipendAllocation {
+    return { amount, taxFree: amount, taxable: new Decimal(0) };
+  }
+
+  private taxable(amount: Decimal): StipendAllocation {
+    return { amount, taxFree: new Decimal(0), taxable: amount };
+  }
+}
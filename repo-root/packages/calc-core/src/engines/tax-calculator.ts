@@ -1,82 +1,22 @@
 import { Decimal } from 'decimal.js';
-import { USState, FilingStatus } from '../types';
-
-// 2024 Tax Tables and Constants
-const FEDERAL_TAX_BRACKETS_2024 = {
-  SINGLE: [
-    { min: 0, max: 11000, rate: 0.10 },
-    { min: 11000, max: 44725, rate: 0.12 },
-    { min: 44725, max: 95375, rate: 0.22 },
-    { min: 95375, max: 182050, rate: 0.24 },
-    { min: 182050, max: 231250, rate: 0.32 },
-    { min: 231250, max: 578125, rate: 0.35 },
-    { min: 578125, max: Infinity, rate: 0.37 }
-  ],
-  MARRIED_FILING_JOINTLY: [
-    { min: 0, max: 22000, rate: 0.10 },
-    { min: 22000, max: 89450, rate: 0.12 },
-    { min: 89450, max: 190750, rate: 0.22 },
-    { min: 190750, max: 364200, rate: 0.24 },
-    { min: 364200, max: 462500, rate: 0.32 },
-    { min: 462500, max: 693750, rate: 0.35 },
-    { min: 693750, max: Infinity, rate: 0.37 }
-  ],
-  MARRIED_FILING_SEPARATELY: [
-    { min: 0, max: 11000, rate: 0.10 },
-    { min: 11000, max: 44725, rate: 0.12 },
-    { min: 44725, max: 95375, rate: 0.22 },
-    { min: 95375, max: 182050, rate: 0.24 },
-    { min: 182050, max: 231250, rate: 0.32 },
-    { min: 231250, max: 346875, rate: 0.35 },
-    { min: 346875, max: Infinity, rate: 0.37 }
-  ],
-  HEAD_OF_HOUSEHOLD: [
-    { min: 0, max: 15700, rate: 0.10 },
-    { min: 15700, max: 59850, rate: 0.12 },
-    { min: 59850, max: 95350, rate: 0.22 },
-    { min: 95350, max: 182050, rate: 0.24 },
-    { min: 182050, max: 231250, rate: 0.32 },
-    { min: 231250, max: 578100, rate: 0.35 },
-    { min: 578100, max: Infinity, rate: 0.37 }
-  ],
-  QUALIFYING_WIDOW: [
-    { min: 0, max: 22000, rate: 0.10 },
-    { min: 22000, max: 89450, rate: 0.12 },
-    { min: 89450, max: 190750, rate: 0.22 },
-    { min: 190750, max: 364200, rate: 0.24 },
-    { min: 364200, max: 462500, rate: 0.32 },
-    { min: 462500, max: 693750, rate: 0.35 },
-    { min: 693750, max: Infinity, rate: 0.37 }
-  ]
-};
-
-const SOCIAL_SECURITY_RATE = 0.062;
-const MEDICARE_RATE = 0.0145;
-const ADDITIONAL_MEDICARE_RATE = 0.009; // For income over $200k (single) / $250k (married)
-const SOCIAL_SECURITY_WAGE_BASE_2024 = 160200;
-
-// State tax rates (simplified - in production would use comprehensive state tax tables)
-const STATE_TAX_RATES: Record<USState, number> = {
-  'AL': 0.05, 'AK': 0.00, 'AZ': 0.042, 'AR': 0.056, 'CA': 0.093,
-  'CO': 0.044, 'CT': 0.065, 'DE': 0.052, 'FL': 0.00, 'GA': 0.055,
-  'HI': 0.081, 'ID': 0.058, 'IL': 0.0475, 'IN': 0.032, 'IA': 0.065,
-  'KS': 0.053, 'KY': 0.05, 'LA': 0.045, 'ME': 0.075, 'MD': 0.051,
-  'MA': 0.05, 'MI': 0.042, 'MN': 0.078, 'MS': 0.05, 'MO': 0.054,
-  'MT': 0.069, 'NE': 0.058, 'NV': 0.00, 'NH': 0.00, 'NJ': 0.089,
-  'NM': 0.049, 'NY': 0.082, 'NC': 0.0475, 'ND': 0.029, 'OH': 0.037,
-  'OK': 0.05, 'OR': 0.087, 'PA': 0.031, 'RI': 0.0475, 'SC': 0.07,
-  'SD': 0.00, 'TN': 0.00, 'TX': 0.00, 'UT': 0.047, 'VT': 0.066,
-  'VA': 0.0575, 'WA': 0.00, 'WV': 0.036, 'WI': 0.054, 'WY': 0.00
-};
-
-// State disability insurance rates (where applicable)
-const STATE_DISABILITY_RATES: Record<string, { rate: number; wageBase: number }> = {
-  'CA': { rate: 0.009, wageBase: 153164 },
-  'HI': { rate: 0.005, wageBase: 57000 },
-  'NJ': { rate: 0.0047, wageBase: 151900 },
-  'NY': { rate: 0.005, wageBase: 142800 },
-  'RI': { rate: 0.013, wageBase: 84000 }
-};
+import {
+  USState,
+  FilingStatus,
+  LocalTaxLiability,
+  WorkerClassification,
+  SelfEmploymentTaxDetail,
+  RetirementPlan
+} from '../types';
+import {
+  TaxYearRegistry,
+  TaxYearTable,
+  TaxBracket,
+  PayrollTaxTable,
+  StateDisabilityTable,
+  taxYearRegistry,
+  byFilingStatus
+} from './tax-tables';
+import { LocalTaxDirectory, LocalTaxLocation, LocalTaxSchedule } from './local-taxes';
 
 interface TaxCalculationInput {
   grossIncome: Decimal;
@@ -85,6 +25,28 @@ interface TaxCalculationInput {
   exemptions: number;
   isResident: boolean;
   additionalWithholding?: Decimal;
+  taxYear?: number;
+  stateExemptions?: number;
+  workLocation?: LocalTaxLocation;
+  homeLocation?: LocalTaxLocation;
+  workerClassification?: WorkerClassification;
+  businessExpenses?: Decimal; // Deductible 1099 business expenses
+  retirement?: RetirementPlan; // Pre-tax contributions reduce taxable income
+}
+
+interface LocalTaxInput {
+  grossIncome: Decimal;
+  stateIncome?: Decimal; // Income for state-based schedules, if different from wages
+  filingStatus: FilingStatus;
+  workLocation?: LocalTaxLocation;
+  homeLocation?: LocalTaxLocation;
+  taxYear?: number;
+  stateExemptions?: number;
+}
+
+interface LocalTaxResult {
+  total: Decimal;
+  jurisdictions: LocalTaxLiability[];
 }
 
 interface TaxCalculationResult {
@@ -93,39 +55,133 @@ interface TaxCalculationResult {
   socialSecurity: Decimal;
   medicare: Decimal;
   stateDisability: Decimal;
+  local: Decimal;
   unemployment: Decimal;
   total: Decimal;
   effectiveRate: Decimal;
   marginalRate: Decimal;
+  taxYear: number;
+  adjustedGrossIncome: Decimal;
+  stateIncome: Decimal;
+  localJurisdictions: LocalTaxLiability[];
+  selfEmployment?: SelfEmploymentTaxDetail;
+}
+
+interface FederalLiabilityInput {
+  wages: Decimal;
+  selfEmploymentIncome: Decimal; // Net profit
+  otherIncome?: Decimal; // Interest, dividends and other income without payroll tax
+  adjustments?: Decimal; // Other above-the-line deductions (retirement, HSA)
+  filingStatus: FilingStatus;
+  taxYear?: number;
 }
 
+interface FederalLiability {
+  adjustedGrossIncome: Decimal;
+  incomeTax: Decimal;
+  selfEmploymentTax: Decimal;
+  additionalMedicare: Decimal; // On wages above the threshold
+  total: Decimal;
+}
+
+type SelfEmploymentTax = Omit<SelfEmploymentTaxDetail, 'qualifiedBusinessIncome' | 'qbiDeduction'>;
+
 export class TaxCalculator {
-  
+  private registry: TaxYearRegistry;
+  private localTaxDirectory: LocalTaxDirectory;
+
+  constructor(
+    registry: TaxYearRegistry = taxYearRegistry,
+    localTaxDirectory: LocalTaxDirectory = new LocalTaxDirectory()
+  ) {
+    this.registry = registry;
+    this.localTaxDirectory = localTaxDirectory;
+  }
+
   /**
    * Calculate annual taxes for given income and parameters
    */
   async calculateAnnualTaxes(input: TaxCalculationInput): Promise<TaxCalculationResult> {
     const { grossIncome, state, filingStatus, exemptions, isResident, additionalWithholding } = input;
+    const table = this.getTaxYearTable(input.taxYear);
+    
+    // Independent contractors pay both halves of FICA as self-employment tax
+    // on net profit, and deduct half of it from income
+    const selfEmployment = input.workerClassification === '1099'
+      ? this.calculateSelfEmploymentTax(
+          grossIncome.minus(input.businessExpenses || 0),
+          filingStatus,
+          table.year
+        )
+      : undefined;
+    
+    // Pre-tax retirement contributions reduce income tax but not FICA. HSA
+    // contributions through payroll are also exempt from FICA.
+    const preTaxDeferral = input.retirement?.preTaxDeferral || new Decimal(0);
+    const selfEmployedPlans = input.retirement
+      ? input.retirement.employerContribution.add(input.retirement.sepIra)
+      : new Decimal(0);
+    const hsa = input.retirement?.hsa || new Decimal(0);
+    const payrollWages = selfEmployment ? selfEmployment.netProfit : grossIncome.minus(hsa);
+    
+    // Business income is net of the half-SE deduction and retirement
+    // contributions made by the business
+    const businessIncome = selfEmployment
+      ? selfEmployment.netProfit.minus(selfEmployment.deductibleHalf).minus(preTaxDeferral).minus(selfEmployedPlans)
+      : new Decimal(0);
+    const adjustedGrossIncome = selfEmployment
+      ? businessIncome.minus(hsa)
+      : payrollWages.minus(preTaxDeferral);
+    const stateIncome = this.calculateStateIncome(adjustedGrossIncome, state, table, {
+      retirement: preTaxDeferral.add(selfEmployedPlans),
+      hsa
+    });
     
-    // Calculate standard deduction (2024 values)
-    const standardDeduction = this.getStandardDeduction(filingStatus);
+    // Calculate standard deduction
+    const standardDeduction = this.getStandardDeduction(filingStatus, table.year);
     
-    // Calculate taxable income
-    const exemptionAmount = new Decimal(exemptions).mul(4700); // 2024 exemption amount
-    const taxableIncome = Decimal.max(0, grossIncome.minus(standardDeduction).minus(exemptionAmount));
+    // Calculate taxable income, less the QBI deduction for 1099 income
+    const exemptionAmount = new Decimal(exemptions).mul(table.federal.personalExemption);
+    const taxableBeforeQbi = Decimal.max(0, adjustedGrossIncome.minus(standardDeduction).minus(exemptionAmount));
+    const qualifiedBusinessIncome = Decimal.max(0, businessIncome);
+    const qbiDeduction = this.calculateQbiDeduction(qualifiedBusinessIncome, taxableBeforeQbi, filingStatus, table.year);
+    const taxableIncome = taxableBeforeQbi.minus(qbiDeduction);
     
     // Calculate federal income tax
-    const federal = this.calculateFederalTax(taxableIncome, filingStatus);
+    const federal = this.calculateFederalTax(taxableIncome, filingStatus, table);
     
     // Calculate state income tax
-    const stateTax = isResident ? this.calculateStateTax(taxableIncome, state, filingStatus) : new Decimal(0);
+    const stateTax = isResident
+      ? this.calculateStateIncomeTax(stateIncome, state, filingStatus, {
+          taxYear: table.year,
+          exemptions: input.stateExemptions
+        })
+      : new Decimal(0);
     
     // Calculate FICA taxes
-    const socialSecurity = this.calculateSocialSecurityTax(grossIncome);
-    const medicare = this.calculateMedicareTax(grossIncome, filingStatus);
+    const socialSecurity = selfEmployment
+      ? selfEmployment.socialSecurity
+      : this.calculateSocialSecurityTax(payrollWages, table.payroll);
+    const medicare = selfEmployment
+      ? selfEmployment.medicare
+      : this.calculateMedicareTax(payrollWages, filingStatus, table.payroll);
+    
+    // Calculate state disability insurance (where applicable); state programs
+    // only cover employees
+    const stateDisability = selfEmployment
+      ? new Decimal(0)
+      : this.calculateStateDisabilityTax(payrollWages, state, table);
     
-    // Calculate state disability insurance (where applicable)
-    const stateDisability = this.calculateStateDisabilityTax(grossIncome, state);
+    // Calculate city, county and school district income taxes
+    const local = this.calculateLocalTax({
+      grossIncome: payrollWages,
+      stateIncome,
+      filingStatus,
+      workLocation: input.workLocation,
+      homeLocation: input.homeLocation,
+      taxYear: table.year,
+      stateExemptions: input.stateExemptions
+    });
     
     // Calculate unemployment tax (typically employer paid, but included for completeness)
     const unemployment = new Decimal(0); // FUTA is employer responsibility
@@ -134,10 +190,17 @@ export class TaxCalculator {
     const additionalFederal = additionalWithholding || new Decimal(0);
     
     const totalTaxes = federal.add(stateTax).add(socialSecurity).add(medicare)
-      .add(stateDisability).add(unemployment).add(additionalFederal);
+      .add(stateDisability).add(local.total).add(unemployment).add(additionalFederal);
     
     const effectiveRate = totalTaxes.div(grossIncome).mul(100);
-    const marginalRate = this.calculateMarginalRate(taxableIncome, filingStatus, state);
+    const marginalRate = this.calculateMarginalRate(
+      adjustedGrossIncome,
+      taxableIncome,
+      filingStatus,
+      state,
+      table,
+      selfEmployment !== undefined
+    );
     
     return {
       federal: federal.add(additionalFederal),
@@ -145,18 +208,312 @@ export class TaxCalculator {
       socialSecurity,
       medicare,
       stateDisability,
+      local: local.total,
       unemployment,
       total: totalTaxes,
       effectiveRate,
-      marginalRate
+      marginalRate,
+      taxYear: table.year,
+      adjustedGrossIncome,
+      stateIncome,
+      localJurisdictions: local.jurisdictions,
+      selfEmployment: selfEmployment && {
+        ...selfEmployment,
+        qualifiedBusinessIncome,
+        qbiDeduction
+      }
     };
   }
 
+  /**
+   * Calculate self-employment tax on 1099 net profit (Schedule SE). The
+   * contractor pays both the employee and employer shares of Social Security
+   * and Medicare on 92.35% of net profit, and deducts half of it. W-2 wages
+   * use up the Social Security wage base and Additional Medicare threshold
+   * first.
+   */
+  calculateSelfEmploymentTax(
+    netProfit: Decimal,
+    filingStatus: FilingStatus,
+    taxYear?: number,
+    wages: Decimal = new Decimal(0)
+  ): SelfEmploymentTax {
+    const payroll = this.getPayrollTaxTable(taxYear);
+    const netEarnings = Decimal.max(0, netProfit).mul(payroll.selfEmploymentEarningsFactor);
+    
+    // No self-employment tax is due on net earnings under $400
+    if (netEarnings.lt(400)) {
+      const zero = new Decimal(0);
+      return {
+        netProfit,
+        netEarnings,
+        socialSecurity: zero,
+        medicare: zero,
+        total: zero,
+        deductibleHalf: zero
+      };
+    }
+
+    const socialSecurityBase = Decimal.max(0, new Decimal(payroll.socialSecurityWageBase).minus(wages));
+    const socialSecurity = Decimal.min(netEarnings, socialSecurityBase)
+      .mul(payroll.socialSecurityRate * 2);
+    const regularMedicare = netEarnings.mul(payroll.medicareRate * 2);
+    
+    // Additional Medicare tax is not part of the deductible half
+    const additionalMedicareThreshold = Decimal.max(
+      0,
+      new Decimal(payroll.additionalMedicareThreshold[filingStatus]).minus(wages)
+    );
+    const additionalMedicare = netEarnings.gt(additionalMedicareThreshold)
+      ? netEarnings.minus(additionalMedicareThreshold).mul(payroll.additionalMedicareRate)
+      : new Decimal(0);
+    
+    const medicare = regularMedicare.add(additionalMedicare);
+    
+    return {
+      netProfit,
+      netEarnings,
+      socialSecurity,
+      medicare,
+      total: socialSecurity.add(medicare),
+      deductibleHalf: socialSecurity.add(regularMedicare).div(2)
+    };
+  }
+
+  /**
+   * Calculate the federal liability that estimated payments must cover:
+   * income tax on combined wages and self-employment income, plus
+   * self-employment tax and Additional Medicare tax
+   */
+  calculateFederalLiability(input: FederalLiabilityInput): FederalLiability {
+    const { wages, selfEmploymentIncome, filingStatus } = input;
+    const adjustments = input.adjustments || new Decimal(0);
+    const table = this.getTaxYearTable(input.taxYear);
+    const { payroll } = table;
+    
+    const selfEmployment = this.calculateSelfEmploymentTax(selfEmploymentIncome, filingStatus, table.year, wages);
+    const businessIncome = Decimal.max(0, selfEmploymentIncome.minus(selfEmployment.deductibleHalf).minus(adjustments));
+    const adjustedGrossIncome = wages
+      .add(selfEmploymentIncome)
+      .add(input.otherIncome || 0)
+      .minus(selfEmployment.deductibleHalf)
+      .minus(adjustments);
+    
+    const taxableBeforeQbi = Decimal.max(0, adjustedGrossIncome.minus(this.getStandardDeduction(filingStatus, table.year)));
+    const qbiDeduction = this.calculateQbiDeduction(businessIncome, taxableBeforeQbi, filingStatus, table.year);
+    const incomeTax = this.calculateFederalTax(taxableBeforeQbi.minus(qbiDeduction), filingStatus, table);
+    
+    const additionalMedicareThreshold = new Decimal(payroll.additionalMedicareThreshold[filingStatus]);
+    const additionalMedicare = Decimal.max(0, wages.minus(additionalMedicareThreshold)).mul(payroll.additionalMedicareRate);
+    
+    return {
+      adjustedGrossIncome,
+      incomeTax,
+      selfEmploymentTax: selfEmployment.total,
+      additionalMedicare,
+      total: incomeTax.add(selfEmployment.total).add(additionalMedicare)
+    };
+  }
+
+  /**
+   * Calculate the Section 199A qualified business income deduction.
+   *
+   * Health practices are specified service trades or businesses (SSTB): the
+   * deduction phases out as taxable income moves through the phase-in range
+   * above the threshold. A sole proprietor pays no W-2 wages, so the wage
+   * limitation phases in over the same range and the applicable percentage
+   * applies twice.
+   */
+  calculateQbiDeduction(
+    qualifiedBusinessIncome: Decimal,
+    taxableIncome: Decimal,
+    filingStatus: FilingStatus,
+    taxYear?: number
+  ): Decimal {
+    if (qualifiedBusinessIncome.lte(0) || taxableIncome.lte(0)) {
+      return new Decimal(0);
+    }
+
+    const { qbi } = this.getTaxYearTable(taxYear).federal;
+    const threshold = new Decimal(qbi.threshold[filingStatus]);
+    const phaseInRange = new Decimal(qbi.phaseInRange[filingStatus]);
+    const phaseIn = Decimal.min(1, Decimal.max(0, taxableIncome.minus(threshold).div(phaseInRange)));
+    const applicablePercentage = new Decimal(1).minus(phaseIn);
+    
+    const deduction = qualifiedBusinessIncome.mul(qbi.rate).mul(applicablePercentage).mul(applicablePercentage);
+    
+    // Limited to 20% of taxable income before the deduction
+    return Decimal.min(deduction, taxableIncome.mul(qbi.rate));
+  }
+
+  /**
+   * Get the tax table for a year, defaulting to the current calendar year
+   */
+  getTaxYearTable(taxYear?: number): TaxYearTable {
+    return this.registry.get(taxYear ?? new Date().getFullYear());
+  }
+
+  /**
+   * Resolve the tax year for a date (contract start date or pay date)
+   */
+  resolveTaxYear(date: Date): number {
+    return this.registry.resolveYear(date.getFullYear());
+  }
+
+  /**
+   * Calculate state income tax on state gross income using the state's
+   * progressive brackets, standard deduction, exemptions and credits
+   */
+  calculateStateIncomeTax(
+    grossIncome: Decimal,
+    state: USState,
+    filingStatus: FilingStatus,
+    options: { taxYear?: number; exemptions?: number } = {}
+  ): Decimal {
+    const table = this.getTaxYearTable(options.taxYear);
+    const stateTable = table.states[state];
+    
+    if (!stateTable) {
+      return new Decimal(0);
+    }
+
+    const exemptionCount = this.getFilerCount(filingStatus) + (options.exemptions || 0);
+    const stateTaxableIncome = this.calculateStateTaxableIncome(grossIncome, state, filingStatus, options);
+    
+    const tax = this.applyBrackets(stateTaxableIncome, byFilingStatus(stateTable.brackets, filingStatus));
+    const credits = new Decimal(stateTable.personalCredit || 0).mul(exemptionCount);
+    
+    return Decimal.max(0, tax.minus(credits));
+  }
+
+  /**
+   * Calculate state taxable income after the state standard deduction and
+   * personal exemptions
+   */
+  calculateStateTaxableIncome(
+    grossIncome: Decimal,
+    state: USState,
+    filingStatus: FilingStatus,
+    options: { taxYear?: number; exemptions?: number } = {}
+  ): Decimal {
+    const table = this.getTaxYearTable(options.taxYear);
+    const stateTable = table.states[state];
+    
+    if (!stateTable) {
+      return Decimal.max(0, grossIncome);
+    }
+
+    const exemptionCount = this.getFilerCount(filingStatus) + (options.exemptions || 0);
+    const standardDeduction = this.getStateStandardDeduction(state, filingStatus, table.year);
+    const exemptionAmount = new Decimal(stateTable.personalExemption).mul(exemptionCount);
+    
+    return Decimal.max(0, grossIncome.minus(standardDeduction).minus(exemptionAmount));
+  }
+
+  /**
+   * Calculate local income taxes. Residents pay their home jurisdiction's
+   * resident tax; wages earned in another jurisdiction are subject to its
+   * nonresident tax, with a credit against the home tax when both
+   * jurisdictions are in the same state.
+   */
+  calculateLocalTax(input: LocalTaxInput): LocalTaxResult {
+    const { grossIncome, filingStatus, taxYear, stateExemptions } = input;
+    const stateIncome = input.stateIncome || grossIncome;
+    const work = input.workLocation && this.localTaxDirectory.findJurisdiction(input.workLocation);
+    const home = input.homeLocation && this.localTaxDirectory.findJurisdiction(input.homeLocation);
+    const jurisdictions: LocalTaxLiability[] = [];
+
+    const applySchedule = (schedule: LocalTaxSchedule, state: USState): Decimal => {
+      const options = { taxYear, exemptions: stateExemptions };
+      let base: Decimal;
+      switch (schedule.base) {
+        case 'STATE_TAXABLE':
+          base = this.calculateStateTaxableIncome(stateIncome, state, filingStatus, options);
+          break;
+        case 'STATE_TAX':
+          base = this.calculateStateIncomeTax(stateIncome, state, filingStatus, options);
+          break;
+        case 'WAGES':
+        default:
+          base = Decimal.max(0, grossIncome);
+      }
+      return this.applyBrackets(base, byFilingStatus(schedule.brackets, filingStatus));
+    };
+
+    const nonresidentTax = work && work.nonresident && work.id !== home?.id
+      ? applySchedule(work.nonresident, work.state)
+      : new Decimal(0);
+    const residentTax = home && home.resident
+      ? applySchedule(home.resident, home.state)
+      : new Decimal(0);
+    const credit = work && home && work.id !== home.id && work.state === home.state
+      ? Decimal.min(nonresidentTax, residentTax)
+      : new Decimal(0);
+
+    if (home && home.resident) {
+      jurisdictions.push({
+        jurisdiction: home.id,
+        name: home.name,
+        isResident: true,
+        tax: residentTax.minus(credit)
+      });
+    }
+
+    if (work && work.nonresident && work.id !== home?.id) {
+      jurisdictions.push({
+        jurisdiction: work.id,
+        name: work.name,
+        isResident: false,
+        tax: nonresidentTax
+      });
+    }
+
+    return {
+      total: residentTax.add(nonresidentTax).minus(credit),
+      jurisdictions
+    };
+  }
+
+  /**
+   * Add back contributions that a state does not exclude from income
+   */
+  private calculateStateIncome(
+    adjustedGrossIncome: Decimal,
+    state: USState,
+    table: TaxYearTable,
+    contributions: { retirement: Decimal; hsa: Decimal }
+  ): Decimal {
+    const stateTable = table.states[state];
+    let stateIncome = adjustedGrossIncome;
+
+    if (stateTable?.taxesElectiveDeferrals) {
+      stateIncome = stateIncome.add(contributions.retirement);
+    }
+    if (stateTable?.taxesHsaContributions) {
+      stateIncome = stateIncome.add(contributions.hsa);
+    }
+
+    return stateIncome;
+  }
+
+  /**
+   * Federal income tax on taxable income, before credits
+   */
+  calculateFederalIncomeTax(taxableIncome: Decimal, filingStatus: FilingStatus, taxYear?: number): Decimal {
+    return this.calculateFederalTax(taxableIncome, filingStatus, this.getTaxYearTable(taxYear));
+  }
+
   /**
    * Calculate federal income tax using progressive brackets
    */
-  private calculateFederalTax(taxableIncome: Decimal, filingStatus: FilingStatus): Decimal {
-    const brackets = FEDERAL_TAX_BRACKETS_2024[filingStatus];
+  private calculateFederalTax(taxableIncome: Decimal, filingStatus: FilingStatus, table: TaxYearTable): Decimal {
+    return this.applyBrackets(taxableIncome, table.federal.brackets[filingStatus]);
+  }
+
+  /**
+   * Apply progressive brackets to taxable income
+   */
+  private applyBrackets(taxableIncome: Decimal, brackets: TaxBracket[]): Decimal {
     let tax = new Decimal(0);
     let remainingIncome = taxableIncome;
 
@@ -178,42 +535,42 @@ export class TaxCalculator {
   }
 
   /**
-   * Calculate state income tax (simplified)
+   * Find the marginal rate for an income within a set of brackets
    */
-  private calculateStateTax(taxableIncome: Decimal, state: USState, filingStatus: FilingStatus): Decimal {
-    const stateRate = STATE_TAX_RATES[state];
+  private findMarginalRate(taxableIncome: Decimal, brackets: TaxBracket[]): number {
+    let marginalRate = 0;
     
-    if (stateRate === 0) {
-      return new Decimal(0);
+    for (const bracket of brackets) {
+      if (taxableIncome.gt(bracket.min)) {
+        marginalRate = bracket.rate;
+      } else {
+        break;
+      }
     }
-
-    // Simplified calculation - in production would use state-specific brackets and deductions
-    const stateStandardDeduction = this.getStateStandardDeduction(state, filingStatus);
-    const stateTaxableIncome = Decimal.max(0, taxableIncome.minus(stateStandardDeduction));
     
-    return stateTaxableIncome.mul(stateRate);
+    return marginalRate;
   }
 
   /**
    * Calculate Social Security tax
    */
-  private calculateSocialSecurityTax(grossIncome: Decimal): Decimal {
-    const wageBase = new Decimal(SOCIAL_SECURITY_WAGE_BASE_2024);
+  private calculateSocialSecurityTax(grossIncome: Decimal, payroll: PayrollTaxTable): Decimal {
+    const wageBase = new Decimal(payroll.socialSecurityWageBase);
     const taxableWages = Decimal.min(grossIncome, wageBase);
-    return taxableWages.mul(SOCIAL_SECURITY_RATE);
+    return taxableWages.mul(payroll.socialSecurityRate);
   }
 
   /**
    * Calculate Medicare tax (including additional Medicare tax)
    */
-  private calculateMedicareTax(grossIncome: Decimal, filingStatus: FilingStatus): Decimal {
+  private calculateMedicareTax(grossIncome: Decimal, filingStatus: FilingStatus, payroll: PayrollTaxTable): Decimal {
     // Regular Medicare tax (no wage base limit)
-    const regularMedicare = grossIncome.mul(MEDICARE_RATE);
+    const regularMedicare = grossIncome.mul(payroll.medicareRate);
     
     // Additional Medicare tax for high earners
-    const additionalMedicareThreshold = this.getAdditionalMedicareThreshold(filingStatus);
+    const additionalMedicareThreshold = new Decimal(payroll.additionalMedicareThreshold[filingStatus]);
     const additionalMedicareTax = grossIncome.gt(additionalMedicareThreshold) 
-      ? grossIncome.minus(additionalMedicareThreshold).mul(ADDITIONAL_MEDICARE_RATE)
+      ? grossIncome.minus(additionalMedicareThreshold).mul(payroll.additionalMedicareRate)
       : new Decimal(0);
     
     return regularMedicare.add(additionalMedicareTax);
@@ -222,8 +579,8 @@ export class TaxCalculator {
   /**
    * Calculate state disability insurance tax
    */
-  private calculateStateDisabilityTax(grossIncome: Decimal, state: USState): Decimal {
-    const disabilityInfo = STATE_DISABILITY_RATES[state];
+  private calculateStateDisabilityTax(grossIncome: Decimal, state: USState, table: TaxYearTable): Decimal {
+    const disabilityInfo = table.stateDisability[state];
     
     if (!disabilityInfo) {
       return new Decimal(0);
@@ -236,68 +593,79 @@ export class TaxCalculator {
   /**
    * Get standard deduction for filing status
    */
-  private getStandardDeduction(filingStatus: FilingStatus): Decimal {
-    const deductions = {
-      'SINGLE': 14600,
-      'MARRIED_FILING_JOINTLY': 29200,
-      'MARRIED_FILING_SEPARATELY': 14600,
-      'HEAD_OF_HOUSEHOLD': 21900,
-      'QUALIFYING_WIDOW': 29200
-    };
-    
-    return new Decimal(deductions[filingStatus]);
+  getStandardDeduction(filingStatus: FilingStatus, taxYear?: number): Decimal {
+    return new Decimal(this.getTaxYearTable(taxYear).federal.standardDeduction[filingStatus]);
   }
 
   /**
-   * Get state standard deduction (simplified)
+   * Get state standard deduction, using the federal amount for states that
+   * start from federal taxable income
    */
-  private getStateStandardDeduction(state: USState, filingStatus: FilingStatus): Decimal {
-    // Simplified - states have varying standard deductions
-    const federalDeduction = this.getStandardDeduction(filingStatus);
+  getStateStandardDeduction(state: USState, filingStatus: FilingStatus, taxYear?: number): Decimal {
+    const table = this.getTaxYearTable(taxYear);
+    const stateTable = table.states[state];
     
-    // Most states use a percentage of federal or have their own amounts
-    // This is a simplified calculation
-    return federalDeduction.mul(0.7); // Approximate 70% of federal
+    if (!stateTable) {
+      return new Decimal(0);
+    }
+
+    if (stateTable.standardDeduction === 'FEDERAL') {
+      return this.getStandardDeduction(filingStatus, table.year);
+    }
+    
+    return new Decimal(byFilingStatus(stateTable.standardDeduction, filingStatus));
   }
 
   /**
-   * Get Additional Medicare tax threshold
+   * Get payroll tax rates and wage bases for a tax year
    */
-  private getAdditionalMedicareThreshold(filingStatus: FilingStatus): Decimal {
-    const thresholds = {
-      'SINGLE': 200000,
-      'MARRIED_FILING_JOINTLY': 250000,
-      'MARRIED_FILING_SEPARATELY': 125000,
-      'HEAD_OF_HOUSEHOLD': 200000,
-      'QUALIFYING_WIDOW': 250000
-    };
-    
-    return new Decimal(thresholds[filingStatus]);
+  getPayrollTaxTable(taxYear?: number): PayrollTaxTable {
+    return this.getTaxYearTable(taxYear).payroll;
+  }
+
+  /**
+   * Get the state disability insurance program for a state, if any
+   */
+  getStateDisabilityTable(state: USState, taxYear?: number): StateDisabilityTable | undefined {
+    return this.getTaxYearTable(taxYear).stateDisability[state];
+  }
+
+  /**
+   * Number of personal exemptions claimed by the filers themselves
+   */
+  private getFilerCount(filingStatus: FilingStatus): number {
+    return filingStatus === 'MARRIED_FILING_JOINTLY' ? 2 : 1;
   }
 
   /**
    * Calculate marginal tax rate
    */
-  private calculateMarginalRate(taxableIncome: Decimal, filingStatus: FilingStatus, state: USState): Decimal {
+  private calculateMarginalRate(
+    grossIncome: Decimal,
+    taxableIncome: Decimal,
+    filingStatus: FilingStatus,
+    state: USState,
+    table: TaxYearTable,
+    selfEmployed = false
+  ): Decimal {
     // Find federal marginal rate
-    const federalBrackets = FEDERAL_TAX_BRACKETS_2024[filingStatus];
-    let federalMarginalRate = 0;
-    
-    for (const bracket of federalBrackets) {
-      if (taxableIncome.gt(bracket.min)) {
-        federalMarginalRate = bracket.rate;
-      } else {
-        break;
-      }
-    }
+    const federalMarginalRate = this.findMarginalRate(taxableIncome, table.federal.brackets[filingStatus]);
     
     // Add state marginal rate
-    const stateMarginalRate = STATE_TAX_RATES[state];
+    const stateTable = table.states[state];
+    const stateTaxableIncome = grossIncome.minus(this.getStateStandardDeduction(state, filingStatus, table.year));
+    const stateMarginalRate = stateTable
+      ? this.findMarginalRate(stateTaxableIncome, byFilingStatus(stateTable.brackets, filingStatus))
+      : 0;
     
     // Add FICA rates (if applicable)
-    const ficaRate = taxableIncome.lt(SOCIAL_SECURITY_WAGE_BASE_2024) 
-      ? SOCIAL_SECURITY_RATE + MEDICARE_RATE 
-      : MEDICARE_RATE;
+    const { payroll } = table;
+    const employeeFicaRate = grossIncome.lt(payroll.socialSecurityWageBase) 
+      ? payroll.socialSecurityRate + payroll.medicareRate 
+      : payroll.medicareRate;
+    const ficaRate = selfEmployed
+      ? employeeFicaRate * 2 * payroll.selfEmploymentEarningsFactor
+      : employeeFicaRate;
     
     const totalMarginalRate = federalMarginalRate + stateMarginalRate + ficaRate;
     
@@ -0,0 +1,14 @@
+import { TaxYearRegistry } from './registry';
+import { TAX_YEAR_2024 } from './year-2024';
+import { TAX_YEAR_2025 } from './year-2025';
+import { TAX_YEAR_2026 } from './year-2026';
+
+export * from './types';
+export { TaxYearRegistry, progressive, flat, byFilingStatus, deriveTaxYear } from './registry';
+export { TAX_YEAR_2024, TAX_YEAR_2025, TAX_YEAR_2026 };
+
+// Default registry shared by the calculation engines
+export const taxYearRegistry = new TaxYearRegistry();
+taxYearRegistry.register(TAX_YEAR_2024);
+taxYearRegistry.register(TAX_YEAR_2025);
+taxYearRegistry.register(TAX_YEAR_2026);
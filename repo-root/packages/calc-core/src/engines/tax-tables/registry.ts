@@ -0,0 +1,125 @@
+import { USState, FilingStatus } from '../../types';
+import {
+  TaxBracket,
+  FilingStatusTable,
+  StateTaxTable,
+  TaxYearTable,
+  TaxYearOverrides
+} from './types';
+
+/**
+ * Build progressive brackets from marginal rates and the upper bound of every
+ * bracket except the last.
+ */
+export function progressive(rates: number[], thresholds: number[]): TaxBracket[] {
+  if (thresholds.length !== rates.length - 1) {
+    throw new Error('Progressive brackets need one threshold fewer than rates');
+  }
+
+  return rates.map((rate, index) => ({
+    min: index === 0 ? 0 : thresholds[index - 1],
+    max: index < thresholds.length ? thresholds[index] : Infinity,
+    rate
+  }));
+}
+
+/**
+ * Build a single bracket for flat-rate states
+ */
+export function flat(rate: number): TaxBracket[] {
+  return [{ min: 0, max: Infinity, rate }];
+}
+
+/**
+ * Look up a filing-status keyed value, falling back to the closest status
+ */
+export function byFilingStatus<T>(table: FilingStatusTable<T>, filingStatus: FilingStatus): T {
+  const value = table[filingStatus];
+  if (value !== undefined) {
+    return value;
+  }
+
+  return filingStatus === 'QUALIFYING_WIDOW' ? table.MARRIED_FILING_JOINTLY : table.SINGLE;
+}
+
+/**
+ * Create a new tax year from a previous one. States and disability programs
+ * that are not overridden carry forward unchanged; `null` removes an entry.
+ */
+export function deriveTaxYear(base: TaxYearTable, overrides: TaxYearOverrides): TaxYearTable {
+  const states = { ...base.states };
+  for (const [state, table] of Object.entries(overrides.states || {})) {
+    if (table === null) {
+      delete states[state as USState];
+    } else if (table) {
+      states[state as USState] = table;
+    }
+  }
+
+  const stateDisability = { ...base.stateDisability };
+  for (const [state, table] of Object.entries(overrides.stateDisability || {})) {
+    if (table === null) {
+      delete stateDisability[state as USState];
+    } else if (table) {
+      stateDisability[state as USState] = table;
+    }
+  }
+
+  return {
+    year: overrides.year,
+    federal: { ...base.federal, ...overrides.federal },
+    payroll: { ...base.payroll, ...overrides.payroll },
+    retirement: { ...base.retirement, ...overrides.retirement },
+    states,
+    stateDisability
+  };
+}
+
+/**
+ * Registry of tax year tables. New years are added with `register`, and
+ * lookups for a year without a table use the closest earlier year (or the
+ * earliest registered year for dates before it).
+ */
+export class TaxYearRegistry {
+  private tables = new Map<number, TaxYearTable>();
+
+  register(table: TaxYearTable): void {
+    this.tables.set(table.year, table);
+  }
+
+  has(year: number): boolean {
+    return this.tables.has(year);
+  }
+
+  getYears(): number[] {
+    return [...this.tables.keys()].sort((a, b) => a - b);
+  }
+
+  /**
+   * Resolve the table year used for a calendar year
+   */
+  resolveYear(year: number): number {
+    const years = this.getYears();
+    if (years.length === 0) {
+      throw new Error('No tax years have been registered');
+    }
+
+    const candidates = years.filter(registered => registered <= year);
+    return candidates.length > 0 ? candidates[candidates.length - 1] : years[0];
+  }
+
+  get(year: number): TaxYearTable {
+    return this.tables.get(this.resolveYear(year))!;
+  }
+
+  /**
+   * Get the table for the tax year a date falls in
+   */
+  getForDate(date: Date): TaxYearTable {
+    return this.get(date.getFullYear());
+  }
+
+  getStateTable(year: number, state: USState): StateTaxTable | undefined {
+    return this.get(year).states[state];
+  }
+}
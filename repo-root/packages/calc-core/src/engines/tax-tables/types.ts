@@ -0,0 +1,113 @@
+import { USState, FilingStatus } from '../../types';
+
+export interface TaxBracket {
+  min: number;
+  max: number;
+  rate: number;
+}
+
+/**
+ * Values keyed by filing status. Statuses that are omitted fall back to the
+ * closest equivalent: MFS and HOH use SINGLE, QW uses MARRIED_FILING_JOINTLY.
+ */
+export type FilingStatusTable<T> = {
+  SINGLE: T;
+  MARRIED_FILING_JOINTLY: T;
+} & Partial<Record<Exclude<FilingStatus, 'SINGLE' | 'MARRIED_FILING_JOINTLY'>, T>>;
+
+export interface QualifiedBusinessIncomeTable {
+  rate: number;
+  // Taxable income where the SSTB and W-2 wage limitations begin to phase in
+  threshold: Record<FilingStatus, number>;
+  phaseInRange: Record<FilingStatus, number>;
+}
+
+export interface FederalTaxTable {
+  brackets: Record<FilingStatus, TaxBracket[]>;
+  standardDeduction: Record<FilingStatus, number>;
+  personalExemption: number;
+  qbi: QualifiedBusinessIncomeTable;
+  // Interest rate charged on underpaid estimated tax (Form 2210)
+  underpaymentRate: number;
+  // Flat withholding on supplemental wages such as bonuses. The mandatory
+  // rate applies to supplemental wages over the threshold for the year.
+  supplementalWithholding: {
+    rate: number;
+    mandatoryRate: number;
+    mandatoryThreshold: number;
+  };
+  // Publication 15-T percentage method for automated payroll systems
+  withholding: {
+    // Worksheet 1A line 1g, for a 2020 or later Form W-4 without the
+    // Step 2 box checked
+    deductionAdjustment: FilingStatusTable<number>;
+    // Per allowance claimed on a 2019 or earlier Form W-4
+    allowance: number;
+  };
+}
+
+export interface PayrollTaxTable {
+  socialSecurityRate: number;
+  socialSecurityWageBase: number;
+  medicareRate: number;
+  additionalMedicareRate: number;
+  additionalMedicareThreshold: Record<FilingStatus, number>;
+  // Employers withhold Additional Medicare tax on wages over this amount,
+  // whatever the employee's filing status
+  additionalMedicareWithholdingThreshold: number;
+  // Share of net profit subject to self-employment tax (Schedule SE)
+  selfEmploymentEarningsFactor: number;
+}
+
+export interface StateTaxTable {
+  brackets: FilingStatusTable<TaxBracket[]>;
+  // 'FEDERAL' for states that start from federal taxable income
+  standardDeduction: FilingStatusTable<number> | 'FEDERAL';
+  // Deduction per exemption (filer, spouse and dependents)
+  personalExemption: number;
+  // Nonrefundable credit per exemption, for states that use credits instead
+  personalCredit?: number;
+  // States that do not exclude these contributions from taxable wages
+  taxesElectiveDeferrals?: boolean;
+  taxesHsaContributions?: boolean;
+}
+
+export interface RetirementLimitsTable {
+  electiveDeferral: number; // 401(k) employee contributions
+  catchUp: number; // Additional deferral at age 50+
+  superCatchUp?: number; // Replaces the catch-up at ages 60-63
+  // Catch-ups must be Roth when prior-year FICA wages exceed this amount
+  rothCatchUpWageThreshold?: number;
+  annualAdditions: number; // Employee and employer contributions, excluding catch-ups
+  compensationLimit: number;
+  employerContributionRate: number; // Of compensation, for SEP and profit sharing
+  hsa: {
+    self: number;
+    family: number;
+    catchUp: number; // Age 55+
+  };
+}
+
+export interface StateDisabilityTable {
+  rate: number;
+  wageBase: number;
+}
+
+export interface TaxYearTable {
+  year: number;
+  federal: FederalTaxTable;
+  payroll: PayrollTaxTable;
+  retirement: RetirementLimitsTable;
+  // States without an entry have no tax on wage income
+  states: Partial<Record<USState, StateTaxTable>>;
+  stateDisability: Partial<Record<USState, StateDisabilityTable>>;
+}
+
+export interface TaxYearOverrides {
+  year: number;
+  federal?: Partial<FederalTaxTable>;
+  payroll?: Partial<PayrollTaxTable>;
+  retirement?: Partial<RetirementLimitsTable>;
+  states?: Partial<Record<USState, StateTaxTable | null>>;
+  stateDisability?: Partial<Record<USState, StateDisabilityTable | null>>;
+}
@@ -0,0 +1,481 @@
+import { TaxYearTable } from './types';
+import { progressive, flat } from './registry';
+
+// 2024 Tax Tables and Constants (IRS Rev. Proc. 2023-34 and state revenue departments)
+export const TAX_YEAR_2024: TaxYearTable = {
+  year: 2024,
+
+  federal: {
+    brackets: {
+      SINGLE: progressive(
+        [0.10, 0.12, 0.22, 0.24, 0.32, 0.35, 0.37],
+        [11600, 47150, 100525, 191950, 243725, 609350]
+      ),
+      MARRIED_FILING_JOINTLY: progressive(
+        [0.10, 0.12, 0.22, 0.24, 0.32, 0.35, 0.37],
+        [23200, 94300, 201050, 383900, 487450, 731200]
+      ),
+      MARRIED_FILING_SEPARATELY: progressive(
+        [0.10, 0.12, 0.22, 0.24, 0.32, 0.35, 0.37],
+        [11600, 47150, 100525, 191950, 243725, 365600]
+      ),
+      HEAD_OF_HOUSEHOLD: progressive(
+        [0.10, 0.12, 0.22, 0.24, 0.32, 0.35, 0.37],
+        [16550, 63100, 100500, 191950, 243700, 609350]
+      ),
+      QUALIFYING_WIDOW: progressive(
+        [0.10, 0.12, 0.22, 0.24, 0.32, 0.35, 0.37],
+        [23200, 94300, 201050, 383900, 487450, 731200]
+      )
+    },
+    standardDeduction: {
+      SINGLE: 14600,
+      MARRIED_FILING_JOINTLY: 29200,
+      MARRIED_FILING_SEPARATELY: 14600,
+      HEAD_OF_HOUSEHOLD: 21900,
+      QUALIFYING_WIDOW: 29200
+    },
+    personalExemption: 0, // Suspended by the TCJA
+    underpaymentRate: 0.08,
+    supplementalWithholding: {
+      rate: 0.22,
+      mandatoryRate: 0.37,
+      mandatoryThreshold: 1000000
+    },
+    withholding: {
+      deductionAdjustment: {
+        SINGLE: 8600,
+        MARRIED_FILING_JOINTLY: 12900
+      },
+      allowance: 4300
+    },
+    qbi: {
+      rate: 0.20,
+      threshold: {
+        SINGLE: 191950,
+        MARRIED_FILING_JOINTLY: 383900,
+        MARRIED_FILING_SEPARATELY: 191950,
+        HEAD_OF_HOUSEHOLD: 191950,
+        QUALIFYING_WIDOW: 191950
+      },
+      phaseInRange: {
+        SINGLE: 50000,
+        MARRIED_FILING_JOINTLY: 100000,
+        MARRIED_FILING_SEPARATELY: 50000,
+        HEAD_OF_HOUSEHOLD: 50000,
+        QUALIFYING_WIDOW: 50000
+      }
+    }
+  },
+
+  payroll: {
+    socialSecurityRate: 0.062,
+    socialSecurityWageBase: 168600,
+    medicareRate: 0.0145,
+    additionalMedicareRate: 0.009,
+    additionalMedicareThreshold: {
+      SINGLE: 200000,
+      MARRIED_FILING_JOINTLY: 250000,
+      MARRIED_FILING_SEPARATELY: 125000,
+      HEAD_OF_HOUSEHOLD: 200000,
+      QUALIFYING_WIDOW: 250000
+    },
+    additionalMedicareWithholdingThreshold: 200000,
+    selfEmploymentEarningsFactor: 0.9235
+  },
+
+  retirement: {
+    electiveDeferral: 23000,
+    catchUp: 7500,
+    annualAdditions: 69000,
+    compensationLimit: 345000,
+    employerContributionRate: 0.25,
+    hsa: { self: 4150, family: 8300, catchUp: 1000 }
+  },
+
+  states: {
+    AL: {
+      brackets: {
+        SINGLE: progressive([0.02, 0.04, 0.05], [500, 3000]),
+        MARRIED_FILING_JOINTLY: progressive([0.02, 0.04, 0.05], [1000, 6000])
+      },
+      standardDeduction: { SINGLE: 2500, MARRIED_FILING_JOINTLY: 7500, HEAD_OF_HOUSEHOLD: 4700 },
+      personalExemption: 1500
+    },
+    AZ: {
+      brackets: { SINGLE: flat(0.025), MARRIED_FILING_JOINTLY: flat(0.025) },
+      standardDeduction: 'FEDERAL',
+      personalExemption: 0
+    },
+    AR: {
+      brackets: {
+        SINGLE: progressive([0, 0.02, 0.03, 0.034, 0.039], [5499, 10899, 15599, 25699]),
+        MARRIED_FILING_JOINTLY: progressive([0, 0.02, 0.03, 0.034, 0.039], [5499, 10899, 15599, 25699])
+      },
+      standardDeduction: { SINGLE: 2340, MARRIED_FILING_JOINTLY: 4680 },
+      personalExemption: 0,
+      personalCredit: 29
+    },
+    CA: {
+      brackets: {
+        SINGLE: progressive(
+          [0.01, 0.02, 0.04, 0.06, 0.08, 0.093, 0.103, 0.113, 0.123, 0.133],
+          [10756, 25499, 40245, 55866, 70606, 360659, 432787, 721314, 1000000]
+        ),
+        MARRIED_FILING_JOINTLY: progressive(
+          [0.01, 0.02, 0.04, 0.06, 0.08, 0.093, 0.103, 0.113, 0.123, 0.133],
+          [21512, 50998, 80490, 111732, 141212, 721318, 865574, 1000000, 1442628]
+        ),
+        HEAD_OF_HOUSEHOLD: progressive(
+          [0.01, 0.02, 0.04, 0.06, 0.08, 0.093, 0.103, 0.113, 0.123, 0.133],
+          [21527, 51000, 65744, 81364, 96107, 490493, 588593, 980987, 1000000]
+        )
+      },
+      standardDeduction: { SINGLE: 5540, MARRIED_FILING_JOINTLY: 11080, HEAD_OF_HOUSEHOLD: 11080 },
+      personalExemption: 0,
+      personalCredit: 149,
+      taxesHsaContributions: true
+    },
+    CO: {
+      brackets: { SINGLE: flat(0.0425), MARRIED_FILING_JOINTLY: flat(0.0425) },
+      standardDeduction: 'FEDERAL',
+      personalExemption: 0
+    },
+    CT: {
+      brackets: {
+        SINGLE: progressive(
+          [0.02, 0.045, 0.055, 0.06, 0.065, 0.069, 0.0699],
+          [10000, 50000, 100000, 200000, 250000, 500000]
+        ),
+        MARRIED_FILING_JOINTLY: progressive(
+          [0.02, 0.045, 0.055, 0.06, 0.065, 0.069, 0.0699],
+          [20000, 100000, 200000, 400000, 500000, 1000000]
+        ),
+        HEAD_OF_HOUSEHOLD: progressive(
+          [0.02, 0.045, 0.055, 0.06, 0.065, 0.069, 0.0699],
+          [16000, 80000, 160000, 320000, 400000, 800000]
+        )
+      },
+      standardDeduction: { SINGLE: 0, MARRIED_FILING_JOINTLY: 0 },
+      personalExemption: 0
+    },
+    DE: {
+      brackets: {
+        SINGLE: progressive([0, 0.022, 0.039, 0.048, 0.052, 0.0555, 0.066], [2000, 5000, 10000, 20000, 25000, 60000]),
+        MARRIED_FILING_JOINTLY: progressive([0, 0.022, 0.039, 0.048, 0.052, 0.0555, 0.066], [2000, 5000, 10000, 20000, 25000, 60000])
+      },
+      standardDeduction: { SINGLE: 3250, MARRIED_FILING_JOINTLY: 6500 },
+      personalExemption: 0,
+      personalCredit: 110
+    },
+    GA: {
+      brackets: { SINGLE: flat(0.0539), MARRIED_FILING_JOINTLY: flat(0.0539) },
+      standardDeduction: { SINGLE: 12000, MARRIED_FILING_JOINTLY: 24000 },
+      personalExemption: 0
+    },
+    HI: {
+      brackets: {
+        SINGLE: progressive(
+          [0.014, 0.032, 0.055, 0.064, 0.068, 0.072, 0.076, 0.079, 0.0825, 0.09, 0.10, 0.11],
+          [2400, 4800, 9600, 14400, 19200, 24000, 36000, 48000, 150000, 175000, 200000]
+        ),
+        MARRIED_FILING_JOINTLY: progressive(
+          [0.014, 0.032, 0.055, 0.064, 0.068, 0.072, 0.076, 0.079, 0.0825, 0.09, 0.10, 0.11],
+          [4800, 9600, 19200, 28800, 38400, 48000, 72000, 96000, 300000, 350000, 400000]
+        ),
+        HEAD_OF_HOUSEHOLD: progressive(
+          [0.014, 0.032, 0.055, 0.064, 0.068, 0.072, 0.076, 0.079, 0.0825, 0.09, 0.10, 0.11],
+          [3600, 7200, 14400, 21600, 28800, 36000, 54000, 72000, 225000, 262500, 300000]
+        )
+      },
+      standardDeduction: { SINGLE: 2200, MARRIED_FILING_JOINTLY: 4400, HEAD_OF_HOUSEHOLD: 3212 },
+      personalExemption: 1144
+    },
+    ID: {
+      brackets: {
+        SINGLE: progressive([0, 0.05695], [4673]),
+        MARRIED_FILING_JOINTLY: progressive([0, 0.05695], [9346])
+      },
+      standardDeduction: 'FEDERAL',
+      personalExemption: 0
+    },
+    IL: {
+      brackets: { SINGLE: flat(0.0495), MARRIED_FILING_JOINTLY: flat(0.0495) },
+      standardDeduction: { SINGLE: 0, MARRIED_FILING_JOINTLY: 0 },
+      personalExemption: 2775
+    },
+    IN: {
+      brackets: { SINGLE: flat(0.0305), MARRIED_FILING_JOINTLY: flat(0.0305) },
+      standardDeduction: { SINGLE: 0, MARRIED_FILING_JOINTLY: 0 },
+      personalExemption: 1000,
+      taxesHsaContributions: true
+    },
+    IA: {
+      brackets: {
+        SINGLE: progressive([0.044, 0.0482, 0.057], [6210, 31050]),
+        MARRIED_FILING_JOINTLY: progressive([0.044, 0.0482, 0.057], [12420, 62100])
+      },
+      standardDeduction: 'FEDERAL',
+      personalExemption: 0,
+      personalCredit: 40
+    },
+    KS: {
+      brackets: {
+        SINGLE: progressive([0.052, 0.0558], [23000]),
+        MARRIED_FILING_JOINTLY: progressive([0.052, 0.0558], [46000])
+      },
+      standardDeduction: { SINGLE: 3605, MARRIED_FILING_JOINTLY: 8240, HEAD_OF_HOUSEHOLD: 6180 },
+      personalExemption: 9160
+    },
+    KY: {
+      brackets: { SINGLE: flat(0.04), MARRIED_FILING_JOINTLY: flat(0.04) },
+      standardDeduction: { SINGLE: 3160, MARRIED_FILING_JOINTLY: 3160 },
+      personalExemption: 0
+    },
+    LA: {
+      brackets: {
+        SINGLE: progressive([0.0185, 0.035, 0.0425], [12500, 50000]),
+        MARRIED_FILING_JOINTLY: progressive([0.0185, 0.035, 0.0425], [25000, 100000])
+      },
+      standardDeduction: { SINGLE: 0, MARRIED_FILING_JOINTLY: 0 },
+      personalExemption: 4500
+    },
+    ME: {
+      brackets: {
+        SINGLE: progressive([0.058, 0.0675, 0.0715], [26050, 61600]),
+        MARRIED_FILING_JOINTLY: progressive([0.058, 0.0675, 0.0715], [52100, 123250]),
+        HEAD_OF_HOUSEHOLD: progressive([0.058, 0.0675, 0.0715], [39050, 92450])
+      },
+      standardDeduction: 'FEDERAL',
+      personalExemption: 5000
+    },
+    MD: {
+      brackets: {
+        SINGLE: progressive(
+          [0.02, 0.03, 0.04, 0.0475, 0.05, 0.0525, 0.055, 0.0575],
+          [1000, 2000, 3000, 100000, 125000, 150000, 250000]
+        ),
+        MARRIED_FILING_JOINTLY: progressive(
+          [0.02, 0.03, 0.04, 0.0475, 0.05, 0.0525, 0.055, 0.0575],
+          [1000, 2000, 3000, 150000, 175000, 225000, 300000]
+        )
+      },
+      standardDeduction: { SINGLE: 2550, MARRIED_FILING_JOINTLY: 5150, HEAD_OF_HOUSEHOLD: 5150 },
+      personalExemption: 3200
+    },
+    MA: {
+      brackets: {
+        SINGLE: progressive([0.05, 0.09], [1053750]),
+        MARRIED_FILING_JOINTLY: progressive([0.05, 0.09], [1053750])
+      },
+      standardDeduction: { SINGLE: 0, MARRIED_FILING_JOINTLY: 0 },
+      personalExemption: 4400
+    },
+    MI: {
+      brackets: { SINGLE: flat(0.0425), MARRIED_FILING_JOINTLY: flat(0.0425) },
+      standardDeduction: { SINGLE: 0, MARRIED_FILING_JOINTLY: 0 },
+      personalExemption: 5600
+    },
+    MN: {
+      brackets: {
+        SINGLE: progressive([0.0535, 0.068, 0.0785, 0.0985], [31690, 104090, 193240]),
+        MARRIED_FILING_JOINTLY: progressive([0.0535, 0.068, 0.0785, 0.0985], [46330, 184040, 321450]),
+        MARRIED_FILING_SEPARATELY: progressive([0.0535, 0.068, 0.0785, 0.0985], [23165, 92020, 160725]),
+        HEAD_OF_HOUSEHOLD: progressive([0.0535, 0.068, 0.0785, 0.0985], [39010, 156760, 256880])
+      },
+      standardDeduction: {
+        SINGLE: 14575,
+        MARRIED_FILING_JOINTLY: 29150,
+        MARRIED_FILING_SEPARATELY: 14575,
+        HEAD_OF_HOUSEHOLD: 21900
+      },
+      personalExemption: 0
+    },
+    MS: {
+      brackets: {
+        SINGLE: progressive([0, 0.047], [10000]),
+        MARRIED_FILING_JOINTLY: progressive([0, 0.047], [10000])
+      },
+      standardDeduction: { SINGLE: 2300, MARRIED_FILING_JOINTLY: 4600, HEAD_OF_HOUSEHOLD: 3400 },
+      personalExemption: 6000
+    },
+    MO: {
+      brackets: {
+        SINGLE: progressive(
+          [0, 0.02, 0.025, 0.03, 0.035, 0.04, 0.045, 0.048],
+          [1273, 2546, 3819, 5092, 6365, 7638, 8911]
+        ),
+        MARRIED_FILING_JOINTLY: progressive(
+          [0, 0.02, 0.025, 0.03, 0.035, 0.04, 0.045, 0.048],
+          [1273, 2546, 3819, 5092, 6365, 7638, 8911]
+        )
+      },
+      standardDeduction: 'FEDERAL',
+      personalExemption: 0
+    },
+    MT: {
+      brackets: {
+        SINGLE: progressive([0.047, 0.059], [20500]),
+        MARRIED_FILING_JOINTLY: progressive([0.047, 0.059], [41000])
+      },
+      standardDeduction: 'FEDERAL',
+      personalExemption: 0
+    },
+    NE: {
+      brackets: {
+        SINGLE: progressive([0.0246, 0.0351, 0.0501, 0.0584], [3700, 22170, 35730]),
+        MARRIED_FILING_JOINTLY: progressive([0.0246, 0.0351, 0.0501, 0.0584], [7390, 44350, 71460])
+      },
+      standardDeduction: { SINGLE: 8300, MARRIED_FILING_JOINTLY: 16600, HEAD_OF_HOUSEHOLD: 12150 },
+      personalExemption: 0,
+      personalCredit: 162
+    },
+    NJ: {
+      brackets: {
+        SINGLE: progressive(
+          [0.014, 0.0175, 0.035, 0.05525, 0.0637, 0.0897, 0.1075],
+          [20000, 35000, 40000, 75000, 500000, 1000000]
+        ),
+        MARRIED_FILING_JOINTLY: progressive(
+          [0.014, 0.0175, 0.0245, 0.035, 0.05525, 0.0637, 0.0897, 0.1075],
+          [20000, 50000, 70000, 80000, 150000, 500000, 1000000]
+        )
+      },
+      standardDeduction: { SINGLE: 0, MARRIED_FILING_JOINTLY: 0 },
+      personalExemption: 1000
+    },
+    NM: {
+      brackets: {
+        SINGLE: progressive([0.017, 0.032, 0.047, 0.049, 0.059], [5500, 11000, 16000, 210000]),
+        MARRIED_FILING_JOINTLY: progressive([0.017, 0.032, 0.047, 0.049, 0.059], [8000, 16000, 24000, 315000])
+      },
+      standardDeduction: 'FEDERAL',
+      personalExemption: 0
+    },
+    NY: {
+      brackets: {
+        SINGLE: progressive(
+          [0.04, 0.045, 0.0525, 0.055, 0.06, 0.0685, 0.0965, 0.103, 0.109],
+          [8500, 11700, 13900, 80650, 215400, 1077550, 5000000, 25000000]
+        ),
+        MARRIED_FILING_JOINTLY: progressive(
+          [0.04, 0.045, 0.0525, 0.055, 0.06, 0.0685, 0.0965, 0.103, 0.109],
+          [17150, 23600, 27900, 161550, 323200, 2155350, 5000000, 25000000]
+        ),
+        HEAD_OF_HOUSEHOLD: progressive(
+          [0.04, 0.045, 0.0525, 0.055, 0.06, 0.0685, 0.0965, 0.103, 0.109],
+          [12800, 17650, 20900, 107650, 269300, 1616450, 5000000, 25000000]
+        )
+      },
+      standardDeduction: { SINGLE: 8000, MARRIED_FILING_JOINTLY: 16050, HEAD_OF_HOUSEHOLD: 11200 },
+      personalExemption: 0
+    },
+    NC: {
+      brackets: { SINGLE: flat(0.045), MARRIED_FILING_JOINTLY: flat(0.045) },
+      standardDeduction: { SINGLE: 12750, MARRIED_FILING_JOINTLY: 25500, HEAD_OF_HOUSEHOLD: 19125 },
+      personalExemption: 0
+    },
+    ND: {
+      brackets: {
+        SINGLE: progressive([0, 0.0195, 0.025], [47150, 238200]),
+        MARRIED_FILING_JOINTLY: progressive([0, 0.0195, 0.025], [78775, 289975])
+      },
+      standardDeduction: 'FEDERAL',
+      personalExemption: 0
+    },
+    OH: {
+      brackets: {
+        SINGLE: progressive([0, 0.0275, 0.035], [26050, 100000]),
+        MARRIED_FILING_JOINTLY: progressive([0, 0.0275, 0.035], [26050, 100000])
+      },
+      standardDeduction: { SINGLE: 0, MARRIED_FILING_JOINTLY: 0 },
+      personalExemption: 1900
+    },
+    OK: {
+      brackets: {
+        SINGLE: progressive([0.0025, 0.0075, 0.0175, 0.0275, 0.0375, 0.0475], [1000, 2500, 3750, 4900, 7200]),
+        MARRIED_FILING_JOINTLY: progressive([0.0025, 0.0075, 0.0175, 0.0275, 0.0375, 0.0475], [2000, 5000, 7500, 9800, 12200])
+      },
+      standardDeduction: { SINGLE: 6350, MARRIED_FILING_JOINTLY: 12700, HEAD_OF_HOUSEHOLD: 9350 },
+      personalExemption: 1000
+    },
+    OR: {
+      brackets: {
+        SINGLE: progressive([0.0475, 0.0675, 0.0875, 0.099], [4300, 10750, 125000]),
+        MARRIED_FILING_JOINTLY: progressive([0.0475, 0.0675, 0.0875, 0.099], [8600, 21500, 250000]),
+        HEAD_OF_HOUSEHOLD: progressive([0.0475, 0.0675, 0.0875, 0.099], [8600, 21500, 250000])
+      },
+      standardDeduction: { SINGLE: 2745, MARRIED_FILING_JOINTLY: 5495, HEAD_OF_HOUSEHOLD: 4420 },
+      personalExemption: 0,
+      personalCredit: 249
+    },
+    PA: {
+      brackets: { SINGLE: flat(0.0307), MARRIED_FILING_JOINTLY: flat(0.0307) },
+      standardDeduction: { SINGLE: 0, MARRIED_FILING_JOINTLY: 0 },
+      personalExemption: 0,
+      taxesElectiveDeferrals: true
+    },
+    RI: {
+      brackets: {
+        SINGLE: progressive([0.0375, 0.0475, 0.0599], [77450, 176050]),
+        MARRIED_FILING_JOINTLY: progressive([0.0375, 0.0475, 0.0599], [77450, 176050])
+      },
+      standardDeduction: { SINGLE: 10550, MARRIED_FILING_JOINTLY: 21150, HEAD_OF_HOUSEHOLD: 15850 },
+      personalExemption: 4950
+    },
+    SC: {
+      brackets: {
+        SINGLE: progressive([0, 0.03, 0.062], [3460, 17330]),
+        MARRIED_FILING_JOINTLY: progressive([0, 0.03, 0.062], [3460, 17330])
+      },
+      standardDeduction: 'FEDERAL',
+      personalExemption: 0
+    },
+    UT: {
+      brackets: { SINGLE: flat(0.0455), MARRIED_FILING_JOINTLY: flat(0.0455) },
+      standardDeduction: { SINGLE: 0, MARRIED_FILING_JOINTLY: 0 },
+      personalExemption: 0
+    },
+    VT: {
+      brackets: {
+        SINGLE: progressive([0.0335, 0.066, 0.076, 0.0875], [47900, 116000, 242000]),
+        MARRIED_FILING_JOINTLY: progressive([0.0335, 0.066, 0.076, 0.0875], [79950, 193300, 294600]),
+        HEAD_OF_HOUSEHOLD: progressive([0.0335, 0.066, 0.076, 0.0875], [64200, 165700, 268300])
+      },
+      standardDeduction: { SINGLE: 7000, MARRIED_FILING_JOINTLY: 14050, HEAD_OF_HOUSEHOLD: 10500 },
+      personalExemption: 4850
+    },
+    VA: {
+      brackets: {
+        SINGLE: progressive([0.02, 0.03, 0.05, 0.0575], [3000, 5000, 17000]),
+        MARRIED_FILING_JOINTLY: progressive([0.02, 0.03, 0.05, 0.0575], [3000, 5000, 17000])
+      },
+      standardDeduction: { SINGLE: 8000, MARRIED_FILING_JOINTLY: 16000 },
+      personalExemption: 930
+    },
+    WV: {
+      brackets: {
+        SINGLE: progressive([0.0236, 0.0315, 0.0354, 0.0472, 0.0512], [10000, 25000, 40000, 60000]),
+        MARRIED_FILING_JOINTLY: progressive([0.0236, 0.0315, 0.0354, 0.0472, 0.0512], [10000, 25000, 40000, 60000])
+      },
+      standardDeduction: { SINGLE: 0, MARRIED_FILING_JOINTLY: 0 },
+      personalExemption: 2000
+    },
+    WI: {
+      brackets: {
+        SINGLE: progressive([0.035, 0.044, 0.053, 0.0765], [14320, 28640, 315310]),
+        MARRIED_FILING_JOINTLY: progressive([0.035, 0.044, 0.053, 0.0765], [19090, 38190, 420420])
+      },
+      standardDeduction: { SINGLE: 13230, MARRIED_FILING_JOINTLY: 24490, HEAD_OF_HOUSEHOLD: 17090 },
+      personalExemption: 700
+    }
+  },
+
+  stateDisability: {
+    CA: { rate: 0.011, wageBase: Infinity },
+    HI: { rate: 0.005, wageBase: 71488 },
+    NJ: { rate: 0.0018, wageBase: 161400 },
+    NY: { rate: 0.005, wageBase: 6240 },
+    RI: { rate: 0.012, wageBase: 87000 }
+  }
+};
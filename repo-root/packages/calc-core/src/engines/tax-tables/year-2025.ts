@@ -0,0 +1,219 @@
+import { TaxYearTable } from './types';
+import { progressive, flat, deriveTaxYear } from './registry';
+import { TAX_YEAR_2024 } from './year-2024';
+
+// 2025 Tax Tables (IRS Rev. Proc. 2024-40 as amended by P.L. 119-21). States
+// that did not change their rates or deductions carry forward from 2024.
+export const TAX_YEAR_2025: TaxYearTable = deriveTaxYear(TAX_YEAR_2024, {
+  year: 2025,
+
+  federal: {
+    brackets: {
+      SINGLE: progressive(
+        [0.10, 0.12, 0.22, 0.24, 0.32, 0.35, 0.37],
+        [11925, 48475, 103350, 197300, 250525, 626350]
+      ),
+      MARRIED_FILING_JOINTLY: progressive(
+        [0.10, 0.12, 0.22, 0.24, 0.32, 0.35, 0.37],
+        [23850, 96950, 206700, 394600, 501050, 751600]
+      ),
+      MARRIED_FILING_SEPARATELY: progressive(
+        [0.10, 0.12, 0.22, 0.24, 0.32, 0.35, 0.37],
+        [11925, 48475, 103350, 197300, 250525, 375800]
+      ),
+      HEAD_OF_HOUSEHOLD: progressive(
+        [0.10, 0.12, 0.22, 0.24, 0.32, 0.35, 0.37],
+        [17000, 64850, 103350, 197300, 250500, 626350]
+      ),
+      QUALIFYING_WIDOW: progressive(
+        [0.10, 0.12, 0.22, 0.24, 0.32, 0.35, 0.37],
+        [23850, 96950, 206700, 394600, 501050, 751600]
+      )
+    },
+    standardDeduction: {
+      SINGLE: 15750,
+      MARRIED_FILING_JOINTLY: 31500,
+      MARRIED_FILING_SEPARATELY: 15750,
+      HEAD_OF_HOUSEHOLD: 23625,
+      QUALIFYING_WIDOW: 31500
+    },
+    underpaymentRate: 0.07,
+    // Publication 15 (2025)
+    supplementalWithholding: {
+      rate: 0.22,
+      mandatoryRate: 0.37,
+      mandatoryThreshold: 1000000
+    },
+    // Publication 15-T (2025)
+    withholding: {
+      deductionAdjustment: {
+        SINGLE: 8600,
+        MARRIED_FILING_JOINTLY: 12900
+      },
+      allowance: 4300
+    },
+    qbi: {
+      rate: 0.20,
+      threshold: {
+        SINGLE: 197300,
+        MARRIED_FILING_JOINTLY: 394600,
+        MARRIED_FILING_SEPARATELY: 197300,
+        HEAD_OF_HOUSEHOLD: 197300,
+        QUALIFYING_WIDOW: 197300
+      },
+      phaseInRange: {
+        SINGLE: 50000,
+        MARRIED_FILING_JOINTLY: 100000,
+        MARRIED_FILING_SEPARATELY: 50000,
+        HEAD_OF_HOUSEHOLD: 50000,
+        QUALIFYING_WIDOW: 50000
+      }
+    }
+  },
+
+  payroll: {
+    socialSecurityWageBase: 176100
+  },
+
+  retirement: {
+    electiveDeferral: 23500,
+    superCatchUp: 11250,
+    annualAdditions: 70000,
+    compensationLimit: 350000,
+    hsa: { self: 4300, family: 8550, catchUp: 1000 }
+  },
+
+  states: {
+    CA: {
+      brackets: {
+        SINGLE: progressive(
+          [0.01, 0.02, 0.04, 0.06, 0.08, 0.093, 0.103, 0.113, 0.123, 0.133],
+          [11079, 26264, 41452, 57542, 72724, 371479, 445771, 742953, 1000000]
+        ),
+        MARRIED_FILING_JOINTLY: progressive(
+          [0.01, 0.02, 0.04, 0.06, 0.08, 0.093, 0.103, 0.113, 0.123, 0.133],
+          [22158, 52528, 82904, 115084, 145448, 742958, 891542, 1000000, 1485906]
+        ),
+        HEAD_OF_HOUSEHOLD: progressive(
+          [0.01, 0.02, 0.04, 0.06, 0.08, 0.093, 0.103, 0.113, 0.123, 0.133],
+          [22173, 52530, 67716, 83805, 98990, 505208, 606251, 1000000, 1010417]
+        )
+      },
+      standardDeduction: { SINGLE: 5706, MARRIED_FILING_JOINTLY: 11412, HEAD_OF_HOUSEHOLD: 11412 },
+      personalExemption: 0,
+      personalCredit: 153,
+      taxesHsaContributions: true
+    },
+    GA: {
+      brackets: { SINGLE: flat(0.0519), MARRIED_FILING_JOINTLY: flat(0.0519) },
+      standardDeduction: { SINGLE: 12000, MARRIED_FILING_JOINTLY: 24000 },
+      personalExemption: 0
+    },
+    ID: {
+      brackets: {
+        SINGLE: progressive([0, 0.053], [4811]),
+        MARRIED_FILING_JOINTLY: progressive([0, 0.053], [9622])
+      },
+      standardDeduction: 'FEDERAL',
+      personalExemption: 0
+    },
+    IN: {
+      brackets: { SINGLE: flat(0.03), MARRIED_FILING_JOINTLY: flat(0.03) },
+      standardDeduction: { SINGLE: 0, MARRIED_FILING_JOINTLY: 0 },
+      personalExemption: 1000
+    },
+    IA: {
+      brackets: { SINGLE: flat(0.038), MARRIED_FILING_JOINTLY: flat(0.038) },
+      standardDeduction: 'FEDERAL',
+      personalExemption: 0,
+      personalCredit: 40
+    },
+    LA: {
+      brackets: { SINGLE: flat(0.03), MARRIED_FILING_JOINTLY: flat(0.03) },
+      standardDeduction: { SINGLE: 12500, MARRIED_FILING_JOINTLY: 25000, HEAD_OF_HOUSEHOLD: 25000 },
+      personalExemption: 0
+    },
+    MN: {
+      brackets: {
+        SINGLE: progressive([0.0535, 0.068, 0.0785, 0.0985], [32570, 106990, 198630]),
+        MARRIED_FILING_JOINTLY: progressive([0.0535, 0.068, 0.0785, 0.0985], [47620, 189180, 330410]),
+        MARRIED_FILING_SEPARATELY: progressive([0.0535, 0.068, 0.0785, 0.0985], [23810, 94590, 165205]),
+        HEAD_OF_HOUSEHOLD: progressive([0.0535, 0.068, 0.0785, 0.0985], [40100, 161130, 264050])
+      },
+      standardDeduction: {
+        SINGLE: 14950,
+        MARRIED_FILING_JOINTLY: 29900,
+        MARRIED_FILING_SEPARATELY: 14950,
+        HEAD_OF_HOUSEHOLD: 22500
+      },
+      personalExemption: 0
+    },
+    MS: {
+      brackets: {
+        SINGLE: progressive([0, 0.044], [10000]),
+        MARRIED_FILING_JOINTLY: progressive([0, 0.044], [10000])
+      },
+      standardDeduction: { SINGLE: 2300, MARRIED_FILING_JOINTLY: 4600, HEAD_OF_HOUSEHOLD: 3400 },
+      personalExemption: 6000
+    },
+    NC: {
+      brackets: { SINGLE: flat(0.0425), MARRIED_FILING_JOINTLY: flat(0.0425) },
+      standardDeduction: { SINGLE: 12750, MARRIED_FILING_JOINTLY: 25500, HEAD_OF_HOUSEHOLD: 19125 },
+      personalExemption: 0
+    },
+    NE: {
+      brackets: {
+        SINGLE: progressive([0.0246, 0.0351, 0.0501, 0.052], [3700, 22170, 35730]),
+        MARRIED_FILING_JOINTLY: progressive([0.0246, 0.0351, 0.0501, 0.052], [7390, 44350, 71460])
+      },
+      standardDeduction: { SINGLE: 8600, MARRIED_FILING_JOINTLY: 17200, HEAD_OF_HOUSEHOLD: 12600 },
+      personalExemption: 0,
+      personalCredit: 171
+    },
+    NM: {
+      brackets: {
+        SINGLE: progressive([0.015, 0.032, 0.043, 0.047, 0.049, 0.059], [5500, 16500, 33500, 66500, 210000]),
+        MARRIED_FILING_JOINTLY: progressive([0.015, 0.032, 0.043, 0.047, 0.049, 0.059], [8000, 25000, 50000, 100000, 315000])
+      },
+      standardDeduction: 'FEDERAL',
+      personalExemption: 0
+    },
+    OR: {
+      brackets: {
+        SINGLE: progressive([0.0475, 0.0675, 0.0875, 0.099], [4400, 11050, 125000]),
+        MARRIED_FILING_JOINTLY: progressive([0.0475, 0.0675, 0.0875, 0.099], [8800, 22100, 250000]),
+        HEAD_OF_HOUSEHOLD: progressive([0.0475, 0.0675, 0.0875, 0.099], [8800, 22100, 250000])
+      },
+      standardDeduction: { SINGLE: 2835, MARRIED_FILING_JOINTLY: 5670, HEAD_OF_HOUSEHOLD: 4560 },
+      personalExemption: 0,
+      personalCredit: 256
+    },
+    UT: {
+      brackets: { SINGLE: flat(0.045), MARRIED_FILING_JOINTLY: flat(0.045) },
+      standardDeduction: { SINGLE: 0, MARRIED_FILING_JOINTLY: 0 },
+      personalExemption: 0
+    },
+    VA: {
+      brackets: {
+        SINGLE: progressive([0.02, 0.03, 0.05, 0.0575], [3000, 5000, 17000]),
+        MARRIED_FILING_JOINTLY: progressive([0.02, 0.03, 0.05, 0.0575], [3000, 5000, 17000])
+      },
+      standardDeduction: { SINGLE: 8500, MARRIED_FILING_JOINTLY: 17000 },
+      personalExemption: 930
+    },
+    WV: {
+      brackets: {
+        SINGLE: progressive([0.0222, 0.0296, 0.0333, 0.0444, 0.0482], [10000, 25000, 40000, 60000]),
+        MARRIED_FILING_JOINTLY: progressive([0.0222, 0.0296, 0.0333, 0.0444, 0.0482], [10000, 25000, 40000, 60000])
+      },
+      standardDeduction: { SINGLE: 0, MARRIED_FILING_JOINTLY: 0 },
+      personalExemption: 2000
+    }
+  },
+
+  stateDisability: {
+    CA: { rate: 0.012, wageBase: Infinity },
+    NJ: { rate: 0.0056, wageBase: 165400 },
+    RI: { rate: 0.011, wageBase: 89200 }
+  }
+});
@@ -0,0 +1,157 @@
+import { TaxYearTable } from './types';
+import { progressive, flat, deriveTaxYear } from './registry';
+import { TAX_YEAR_2025 } from './year-2025';
+
+// 2026 Tax Tables (IRS Rev. Proc. 2025-32). States that have not published
+// 2026 changes carry forward from 2025.
+export const TAX_YEAR_2026: TaxYearTable = deriveTaxYear(TAX_YEAR_2025, {
+  year: 2026,
+
+  federal: {
+    brackets: {
+      SINGLE: progressive(
+        [0.10, 0.12, 0.22, 0.24, 0.32, 0.35, 0.37],
+        [12400, 50400, 105700, 201775, 256225, 640600]
+      ),
+      MARRIED_FILING_JOINTLY: progressive(
+        [0.10, 0.12, 0.22, 0.24, 0.32, 0.35, 0.37],
+        [24800, 100800, 211400, 403550, 512450, 768700]
+      ),
+      MARRIED_FILING_SEPARATELY: progressive(
+        [0.10, 0.12, 0.22, 0.24, 0.32, 0.35, 0.37],
+        [12400, 50400, 105700, 201775, 256225, 384350]
+      ),
+      HEAD_OF_HOUSEHOLD: progressive(
+        [0.10, 0.12, 0.22, 0.24, 0.32, 0.35, 0.37],
+        [17700, 67450, 105700, 201750, 256200, 640600]
+      ),
+      QUALIFYING_WIDOW: progressive(
+        [0.10, 0.12, 0.22, 0.24, 0.32, 0.35, 0.37],
+        [24800, 100800, 211400, 403550, 512450, 768700]
+      )
+    },
+    standardDeduction: {
+      SINGLE: 16100,
+      MARRIED_FILING_JOINTLY: 32200,
+      MARRIED_FILING_SEPARATELY: 16100,
+      HEAD_OF_HOUSEHOLD: 24150,
+      QUALIFYING_WIDOW: 32200
+    },
+    underpaymentRate: 0.07,
+    // Publication 15 (2026)
+    supplementalWithholding: {
+      rate: 0.22,
+      mandatoryRate: 0.37,
+      mandatoryThreshold: 1000000
+    },
+    // Publication 15-T (2026)
+    withholding: {
+      deductionAdjustment: {
+        SINGLE: 8600,
+        MARRIED_FILING_JOINTLY: 12900
+      },
+      allowance: 4300
+    },
+    qbi: {
+      rate: 0.20,
+      threshold: {
+        SINGLE: 201775,
+        MARRIED_FILING_JOINTLY: 403550,
+        MARRIED_FILING_SEPARATELY: 201775,
+        HEAD_OF_HOUSEHOLD: 201775,
+        QUALIFYING_WIDOW: 201775
+      },
+      // Phase-in range widened by the One Big Beautiful Bill Act
+      phaseInRange: {
+        SINGLE: 75000,
+        MARRIED_FILING_JOINTLY: 150000,
+        MARRIED_FILING_SEPARATELY: 75000,
+        HEAD_OF_HOUSEHOLD: 75000,
+        QUALIFYING_WIDOW: 75000
+      }
+    }
+  },
+
+  payroll: {
+    socialSecurityWageBase: 184500
+  },
+
+  retirement: {
+    electiveDeferral: 24500,
+    catchUp: 8000,
+    rothCatchUpWageThreshold: 150000,
+    annualAdditions: 72000,
+    compensationLimit: 360000,
+    hsa: { self: 4400, family: 8750, catchUp: 1000 }
+  },
+
+  states: {
+    GA: {
+      brackets: { SINGLE: flat(0.0509), MARRIED_FILING_JOINTLY: flat(0.0509) },
+      standardDeduction: { SINGLE: 12000, MARRIED_FILING_JOINTLY: 24000 },
+      personalExemption: 0
+    },
+    IN: {
+      brackets: { SINGLE: flat(0.0295), MARRIED_FILING_JOINTLY: flat(0.0295) },
+      standardDeduction: { SINGLE: 0, MARRIED_FILING_JOINTLY: 0 },
+      personalExemption: 1000
+    },
+    KY: {
+      brackets: { SINGLE: flat(0.035), MARRIED_FILING_JOINTLY: flat(0.035) },
+      standardDeduction: { SINGLE: 3270, MARRIED_FILING_JOINTLY: 3270 },
+      personalExemption: 0
+    },
+    MS: {
+      brackets: {
+        SINGLE: progressive([0, 0.04], [10000]),
+        MARRIED_FILING_JOINTLY: progressive([0, 0.04], [10000])
+      },
+      standardDeduction: { SINGLE: 2300, MARRIED_FILING_JOINTLY: 4600, HEAD_OF_HOUSEHOLD: 3400 },
+      personalExemption: 6000
+    },
+    NC: {
+      brackets: { SINGLE: flat(0.0399), MARRIED_FILING_JOINTLY: flat(0.0399) },
+      standardDeduction: { SINGLE: 12750, MARRIED_FILING_JOINTLY: 25500, HEAD_OF_HOUSEHOLD: 19125 },
+      personalExemption: 0
+    },
+    NE: {
+      brackets: {
+        SINGLE: progressive([0.0246, 0.0351, 0.0455], [3700, 22170]),
+        MARRIED_FILING_JOINTLY: progressive([0.0246, 0.0351, 0.0455], [7390, 44350])
+      },
+      standardDeduction: { SINGLE: 8600, MARRIED_FILING_JOINTLY: 17200, HEAD_OF_HOUSEHOLD: 12600 },
+      personalExemption: 0,
+      personalCredit: 171
+    },
+    NY: {
+      brackets: {
+        SINGLE: progressive(
+          [0.039, 0.044, 0.0515, 0.054, 0.059, 0.0685, 0.0965, 0.103, 0.109],
+          [8500, 11700, 13900, 80650, 215400, 1077550, 5000000, 25000000]
+        ),
+        MARRIED_FILING_JOINTLY: progressive(
+          [0.039, 0.044, 0.0515, 0.054, 0.059, 0.0685, 0.0965, 0.103, 0.109],
+          [17150, 23600, 27900, 161550, 323200, 2155350, 5000000, 25000000]
+        ),
+        HEAD_OF_HOUSEHOLD: progressive(
+          [0.039, 0.044, 0.0515, 0.054, 0.059, 0.0685, 0.0965, 0.103, 0.109],
+          [12800, 17650, 20900, 107650, 269300, 1616450, 5000000, 25000000]
+        )
+      },
+      standardDeduction: { SINGLE: 8000, MARRIED_FILING_JOINTLY: 16050, HEAD_OF_HOUSEHOLD: 11200 },
+      personalExemption: 0
+    },
+    OH: {
+      brackets: {
+        SINGLE: progressive([0, 0.0275], [26050]),
+        MARRIED_FILING_JOINTLY: progressive([0, 0.0275], [26050])
+      },
+      standardDeduction: { SINGLE: 0, MARRIED_FILING_JOINTLY: 0 },
+      personalExemption: 1900
+    }
+  },
+
+  stateDisability: {
+    CA: { rate: 0.013, wageBase: Infinity }
+  }
+});
@@ -20,6 +20,7 @@ export abstract class BaseExporter {
       includeComparison: false,
       includeTaxDetails: true,
       includeProjections: true,
+      includeEstimatedTaxes: true,
       ...options,
     }
 
@@ -127,6 +128,16 @@ export abstract class BaseExporter {
       })
     }
 
+    // Quarterly estimated tax payments
+    if (this.options.includeEstimatedTaxes !== false && data.installments) {
+      sections.push({
+        title: 'Estimated Tax Payments',
+        order: 6,
+        visible: true,
+        data: this.extractEstimatedTaxes(data),
+      })
+    }
+
     return sections.sort((a, b) => (a.order || 0) - (b.order || 0))
   }
 
@@ -153,6 +164,15 @@ export abstract class BaseExporter {
       summary['Effective Tax Rate'] = formatPercentage(data.effectiveTaxRate / 100)
     }
 
+    // Estimated tax plan
+    if (data.installments) {
+      summary['Tax Year'] = String(data.taxYear)
+      summary['Estimated Tax'] = formatCurrency(Number(data.estimatedTax))
+      summary['Withholding'] = formatCurrency(Number(data.withholding))
+      summary['Required Annual Payment'] = formatCurrency(Number(data.requiredAnnualPayment))
+      summary['Estimated Penalty'] = formatCurrency(Number(data.totalPenalty))
+    }
+
     return summary
   }
 
@@ -166,6 +186,9 @@ export abstract class BaseExporter {
       if (data.taxes.state !== undefined) {
         taxes['State Income Tax'] = formatCurrency(data.taxes.state)
       }
+      if (data.taxes.local !== undefined && data.taxes.local > 0) {
+        taxes['Local Income Tax'] = formatCurrency(data.taxes.local)
+      }
       if (data.taxes.socialSecurity !== undefined) {
         taxes['Social Security'] = formatCurrency(data.taxes.socialSecurity)
       }
@@ -175,6 +198,10 @@ export abstract class BaseExporter {
       if (data.taxes.additionalMedicare !== undefined && data.taxes.additionalMedicare > 0) {
         taxes['Additional Medicare'] = formatCurrency(data.taxes.additionalMedicare)
       }
+      if (data.taxes.selfEmployment !== undefined) {
+        taxes['Self-Employment Tax'] = formatCurrency(data.taxes.selfEmployment.total)
+        taxes['QBI Deduction'] = formatCurrency(data.taxes.selfEmployment.qbiDeduction)
+      }
       if (data.taxes.total !== undefined) {
         taxes['Total Taxes'] = formatCurrency(data.taxes.total)
       }
@@ -183,6 +210,24 @@ export abstract class BaseExporter {
     return taxes
   }
 
+  protected extractEstimatedTaxes(data: any): Record<string, any> {
+    const payments: Record<string, any> = {}
+
+    data.installments.forEach((installment: any) => {
+      const label = `Q${installment.installment} (due ${this.formatDate(installment.dueDate)})`
+      payments[`${label} Required`] = formatCurrency(Number(installment.requiredInstallment))
+      payments[`${label} Recommended Payment`] = formatCurrency(Number(installment.recommendedPayment))
+      if (Number(installment.penalty) > 0) {
+        payments[`${label} Penalty`] = formatCurrency(Number(installment.penalty))
+      }
+    })
+
+    payments['Total Recommended'] = formatCurrency(Number(data.totalRecommended))
+    payments['Method'] = data.method === 'ANNUALIZED' ? 'Annualized income installment' : 'Regular installment'
+
+    return payments
+  }
+
   protected extractBreakdown(data: any): Record<string, any> {
     const breakdown: Record<string, any> = {}
 
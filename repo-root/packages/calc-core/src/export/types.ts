@@ -13,6 +13,7 @@ export interface ExportOptions {
   includeComparison?: boolean
   includeTaxDetails?: boolean
   includeProjections?: boolean
+  includeEstimatedTaxes?: boolean
   locale?: string
   currency?: string
   dateFormat?: string
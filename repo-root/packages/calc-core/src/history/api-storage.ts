@@ -0,0 +1,119 @@
+import {
+  CalculationSyncCursor,
+  CalculationSyncRecord,
+  SYNCED_CALCULATION_FIELDS,
+  isCalculationTombstone,
+} from '@locumtruerate/types'
+import {
+  CalculationHistoryItem,
+  CalculationHistoryStorage,
+  CalculationHistoryFilter,
+  CalculationHistorySort,
+  CalculationHistoryPage,
+  CalculationSyncClient,
+} from './types'
+import { matchesHistoryFilter, queryHistory } from './query'
+import { fromSyncRecord, syncWithServer, toSyncRecord, touchFields } from './sync'
+
+/**
+ * History kept only on the server, in the user's saved calculations. Holds
+ * a copy of the history that each call brings up to date with the changes
+ * since the previous one, so reads after the first cost one small request.
+ */
+export class ApiHistoryStorage implements CalculationHistoryStorage {
+  private readonly records = new Map<string, CalculationSyncRecord>()
+  private readonly defaultPageSize = 20
+  private readonly userId?: string
+  private readonly now: () => number
+  private cursor?: CalculationSyncCursor
+
+  constructor(
+    private readonly client: CalculationSyncClient,
+    options: {
+      userId?: string
+      now?: () => number
+    } = {}
+  ) {
+    this.userId = options.userId
+    this.now = options.now || Date.now
+  }
+
+  async save(item: CalculationHistoryItem): Promise<void> {
+    const clock = touchFields(undefined, [...SYNCED_CALCULATION_FIELDS], this.now())
+    await this.push([toSyncRecord(item, clock)])
+  }
+
+  async update(id: string, updates: Partial<CalculationHistoryItem>): Promise<void> {
+    const current = await this.getRecord(id)
+    const item = { ...fromSyncRecord(current, this.userId), ...updates, id }
+    const clock = touchFields(current.fieldUpdatedAt, Object.keys(updates), this.now())
+
+    await this.push([toSyncRecord(item, clock)])
+  }
+
+  async delete(id: string): Promise<void> {
+    const current = await this.getRecord(id)
+    await this.push([{ ...current, deletedAt: this.now() }])
+  }
+
+  async get(id: string): Promise<CalculationHistoryItem | null> {
+    await this.refresh()
+    const record = this.records.get(id)
+    return record ? fromSyncRecord(record, this.userId) : null
+  }
+
+  async list(
+    filter?: CalculationHistoryFilter,
+    sort?: CalculationHistorySort,
+    pagination?: { page: number; pageSize: number }
+  ): Promise<CalculationHistoryPage> {
+    return queryHistory(await this.export(), filter, sort, pagination, this.defaultPageSize)
+  }
+
+  async clear(filter?: CalculationHistoryFilter): Promise<void> {
+    const items = await this.export()
+    const cleared = filter ? items.filter(item => matchesHistoryFilter(item, filter)) : items
+    const deletedAt = this.now()
+
+    await this.push(cleared.map(item => ({ ...this.records.get(item.id)!, deletedAt })))
+  }
+
+  async export(): Promise<CalculationHistoryItem[]> {
+    await this.refresh()
+    return Array.from(this.records.values()).map(record => fromSyncRecord(record, this.userId))
+  }
+
+  async import(items: CalculationHistoryItem[]): Promise<void> {
+    await this.refresh()
+
+    // Only add items that don't already exist
+    const newItems = items.filter(item => !this.records.has(item.id))
+    await this.push(newItems.map(item => toSyncRecord(item)))
+  }
+
+  // Pull changes made since the last call, on this device or elsewhere
+  refresh(): Promise<void> {
+    return this.push([])
+  }
+
+  private async push(changes: CalculationSyncRecord[]): Promise<void> {
+    this.cursor = await syncWithServer(this.client, changes, this.cursor, async record => {
+      if (isCalculationTombstone(record)) {
+        this.records.delete(record.id)
+      } else {
+        this.records.set(record.id, record)
+      }
+    })
+  }
+
+  private async getRecord(id: string): Promise<CalculationSyncRecord> {
+    await this.refresh()
+    const record = this.records.get(id)
+
+    if (!record) {
+      throw new Error(`Calculation with id ${id} not found`)
+    }
+
+    return record
+  }
+}
\ No newline at end of file
@@ -7,9 +7,12 @@ import {
   CalculationHistoryPage,
   SavedCalculation,
   CalculationHistoryAnalytics,
+  CalculationSyncClient,
 } from './types'
 import { LocalStorageHistory } from './local-storage'
 import { IndexedDBHistory } from './indexed-db'
+import { ApiHistoryStorage } from './api-storage'
+import { SyncedHistoryStorage, HistorySyncResult } from './sync'
 import { ContractInput, PaycheckInput, ContractResult, PaycheckResult } from '../types'
 
 export class CalculationHistoryManager {
@@ -17,17 +20,45 @@ export class CalculationHistoryManager {
   private userId?: string
 
   constructor(options?: {
-    storage?: 'localStorage' | 'indexedDB'
+    storage?: 'localStorage' | 'indexedDB' | 'api'
     userId?: string
+    // The API's calculations.sync; signed-in local history syncs through
+    // it, and 'api' storage keeps history there only
+    syncClient?: CalculationSyncClient
   }) {
     this.userId = options?.userId
+    const syncClient = options?.syncClient
+    
+    if (options?.storage === 'api') {
+      if (!syncClient) {
+        throw new Error('API history storage needs a sync client')
+      }
+      this.storage = new ApiHistoryStorage(syncClient, { userId: this.userId })
+      return
+    }
     
     // Choose storage backend based on availability and preference
-    if (options?.storage === 'indexedDB' && typeof window !== 'undefined' && window.indexedDB) {
-      this.storage = new IndexedDBHistory()
-    } else {
-      this.storage = new LocalStorageHistory()
+    const local = options?.storage === 'indexedDB' && typeof window !== 'undefined' && window.indexedDB
+      ? new IndexedDBHistory()
+      : new LocalStorageHistory()
+    
+    this.storage = syncClient && this.userId
+      ? new SyncedHistoryStorage(local, syncClient, { userId: this.userId })
+      : local
+  }
+
+  /**
+   * Sync local history with the server. Does nothing (and returns null)
+   * unless the manager has a sync client and a signed-in user.
+   */
+  async sync(): Promise<HistorySyncResult | null> {
+    if (this.storage instanceof SyncedHistoryStorage) {
+      return this.storage.sync()
+    }
+    if (this.storage instanceof ApiHistoryStorage) {
+      await this.storage.refresh()
     }
+    return null
   }
 
   async saveCalculation(
@@ -2,8 +2,13 @@ export * from './types'
 export * from './local-storage'
 export * from './indexed-db'
 export * from './history-manager'
+export * from './query'
+export * from './sync'
+export * from './api-storage'
 
 // Re-export main classes for convenience
 export { CalculationHistoryManager } from './history-manager'
 export { LocalStorageHistory } from './local-storage'
-export { IndexedDBHistory } from './indexed-db'
\ No newline at end of file
+export { IndexedDBHistory } from './indexed-db'
+export { SyncedHistoryStorage } from './sync'
+export { ApiHistoryStorage } from './api-storage'
\ No newline at end of file
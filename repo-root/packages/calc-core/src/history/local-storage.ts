@@ -5,6 +5,7 @@ import {
   CalculationHistorySort,
   CalculationHistoryPage,
 } from './types'
+import { matchesHistoryFilter, queryHistory } from './query'
 
 export class LocalStorageHistory implements CalculationHistoryStorage {
   private readonly storageKey = 'locumtruerate_calculation_history'
@@ -63,33 +64,8 @@ export class LocalStorageHistory implements CalculationHistoryStorage {
     sort?: CalculationHistorySort,
     pagination?: { page: number; pageSize: number }
   ): Promise<CalculationHistoryPage> {
-    let history = await this.getAllItems()
-    
-    // Apply filters
-    if (filter) {
-      history = this.applyFilter(history, filter)
-    }
-    
-    // Apply sorting
-    if (sort) {
-      history = this.applySort(history, sort)
-    }
-    
-    // Apply pagination
-    const page = pagination?.page || 1
-    const pageSize = pagination?.pageSize || this.defaultPageSize
-    const start = (page - 1) * pageSize
-    const end = start + pageSize
-    
-    const items = history.slice(start, end)
-    
-    return {
-      items,
-      total: history.length,
-      page,
-      pageSize,
-      hasMore: end < history.length,
-    }
+    const history = await this.getAllItems()
+    return queryHistory(history, filter, sort, pagination, this.defaultPageSize)
   }
 
   async clear(filter?: CalculationHistoryFilter): Promise<void> {
@@ -100,7 +76,7 @@ export class LocalStorageHistory implements CalculationHistoryStorage {
     }
     
     const history = await this.getAllItems()
-    const filtered = history.filter(item => !this.matchesFilter(item, filter))
+    const filtered = history.filter(item => !matchesHistoryFilter(item, filter))
     await this.saveAllItems(filtered)
   }
 
@@ -170,97 +146,6 @@ export class LocalStorageHistory implements CalculationHistoryStorage {
     }
   }
 
-  private applyFilter(
-    items: CalculationHistoryItem[],
-    filter: CalculationHistoryFilter
-  ): CalculationHistoryItem[] {
-    return items.filter(item => this.matchesFilter(item, filter))
-  }
-
-  private matchesFilter(
-    item: CalculationHistoryItem,
-    filter: CalculationHistoryFilter
-  ): boolean {
-    // Type filter
-    if (filter.type) {
-      const types = Array.isArray(filter.type) ? filter.type : [filter.type]
-      if (!types.includes(item.type)) return false
-    }
-    
-    // User filter
-    if (filter.userId && item.userId !== filter.userId) {
-      return false
-    }
-    
-    // Date range filter
-    const itemDate = new Date(item.timestamp)
-    if (filter.startDate && itemDate < filter.startDate) {
-      return false
-    }
-    if (filter.endDate && itemDate > filter.endDate) {
-      return false
-    }
-    
-    // Tags filter
-    if (filter.tags && filter.tags.length > 0) {
-      if (!item.tags || !filter.tags.some(tag => item.tags!.includes(tag))) {
-        return false
-      }
-    }
-    
-    // Favorite filter
-    if (filter.isFavorite !== undefined && item.isFavorite !== filter.isFavorite) {
-      return false
-    }
-    
-    // Search query filter
-    if (filter.searchQuery) {
-      const query = filter.searchQuery.toLowerCase()
-      const searchableText = [
-        item.name,
-        item.description,
-        JSON.stringify(item.input),
-        item.tags?.join(' '),
-      ]
-        .filter(Boolean)
-        .join(' ')
-        .toLowerCase()
-      
-      if (!searchableText.includes(query)) {
-        return false
-      }
-    }
-    
-    return true
-  }
-
-  private applySort(
-    items: CalculationHistoryItem[],
-    sort: CalculationHistorySort
-  ): CalculationHistoryItem[] {
-    const sorted = [...items]
-    
-    sorted.sort((a, b) => {
-      let comparison = 0
-      
-      switch (sort.field) {
-        case 'timestamp':
-          comparison = new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-          break
-        case 'name':
-          comparison = (a.name || '').localeCompare(b.name || '')
-          break
-        case 'type':
-          comparison = a.type.localeCompare(b.type)
-          break
-      }
-      
-      return sort.direction === 'asc' ? comparison : -comparison
-    })
-    
-    return sorted
-  }
-
   // Utility method to get storage size
   getStorageSize(): number {
     if (typeof window === 'undefined' || !window.localStorage) {
@@ -0,0 +1,120 @@
+import {
+  CalculationHistoryItem,
+  CalculationHistoryFilter,
+  CalculationHistorySort,
+  CalculationHistoryPage,
+  SavedCalculation,
+} from './types'
+
+// Filtering, sorting and paging for storages that hold history in memory
+
+export function matchesHistoryFilter(
+  item: CalculationHistoryItem,
+  filter: CalculationHistoryFilter
+): boolean {
+  // Type filter
+  if (filter.type) {
+    const types = Array.isArray(filter.type) ? filter.type : [filter.type]
+    if (!types.includes(item.type)) return false
+  }
+
+  // User filter
+  if (filter.userId && item.userId !== filter.userId) {
+    return false
+  }
+
+  // Date range filter
+  const itemDate = new Date(item.timestamp)
+  if (filter.startDate && itemDate < filter.startDate) {
+    return false
+  }
+  if (filter.endDate && itemDate > filter.endDate) {
+    return false
+  }
+
+  // Tags filter
+  if (filter.tags && filter.tags.length > 0) {
+    if (!item.tags || !filter.tags.some(tag => item.tags!.includes(tag))) {
+      return false
+    }
+  }
+
+  // Favorite filter
+  if (filter.isFavorite !== undefined && item.isFavorite !== filter.isFavorite) {
+    return false
+  }
+
+  // Search query filter
+  if (filter.searchQuery) {
+    const query = filter.searchQuery.toLowerCase()
+    const searchableText = [
+      item.name,
+      (item as SavedCalculation).description,
+      JSON.stringify(item.input),
+      item.tags?.join(' '),
+    ]
+      .filter(Boolean)
+      .join(' ')
+      .toLowerCase()
+
+    if (!searchableText.includes(query)) {
+      return false
+    }
+  }
+
+  return true
+}
+
+export function sortHistoryItems(
+  items: CalculationHistoryItem[],
+  sort: CalculationHistorySort
+): CalculationHistoryItem[] {
+  const sorted = [...items]
+
+  sorted.sort((a, b) => {
+    let comparison = 0
+
+    switch (sort.field) {
+      case 'timestamp':
+        comparison = new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+        break
+      case 'name':
+        comparison = (a.name || '').localeCompare(b.name || '')
+        break
+      case 'type':
+        comparison = a.type.localeCompare(b.type)
+        break
+    }
+
+    return sort.direction === 'asc' ? comparison : -comparison
+  })
+
+  return sorted
+}
+
+export function queryHistory(
+  items: CalculationHistoryItem[],
+  filter?: CalculationHistoryFilter,
+  sort?: CalculationHistorySort,
+  pagination?: { page: number; pageSize: number },
+  defaultPageSize = 20
+): CalculationHistoryPage {
+  let history = filter ? items.filter(item => matchesHistoryFilter(item, filter)) : items
+
+  if (sort) {
+    history = sortHistoryItems(history, sort)
+  }
+
+  const page = pagination?.page || 1
+  const pageSize = pagination?.pageSize || defaultPageSize
+  const start = (page - 1) * pageSize
+  const end = start + pageSize
+
+  return {
+    items: history.slice(start, end),
+    total: history.length,
+    page,
+    pageSize,
+    hasMore: end < history.length,
+  }
+}
\ No newline at end of file
@@ -0,0 +1,368 @@
+import {
+  CalculationFieldClock,
+  CalculationSyncCursor,
+  CalculationSyncRecord,
+  MAX_CALCULATION_SYNC_CHANGES,
+  SYNCED_CALCULATION_FIELDS,
+  isCalculationTombstone,
+  mergeCalculationSyncRecords,
+} from '@locumtruerate/types'
+import {
+  CalculationHistoryItem,
+  CalculationHistoryStorage,
+  CalculationHistoryFilter,
+  CalculationHistorySort,
+  CalculationHistoryPage,
+  CalculationSyncClient,
+} from './types'
+import { matchesHistoryFilter } from './query'
+
+export function toSyncRecord(
+  item: CalculationHistoryItem,
+  clock: CalculationFieldClock = {}
+): CalculationSyncRecord {
+  return {
+    id: item.id,
+    type: item.type,
+    input: item.input,
+    result: item.result,
+    name: item.name ?? null,
+    tags: item.tags ?? [],
+    isFavorite: item.isFavorite ?? false,
+    metadata: item.metadata ?? null,
+    timestamp: new Date(item.timestamp).getTime(),
+    fieldUpdatedAt: { ...clock },
+    deletedAt: null,
+  }
+}
+
+export function fromSyncRecord(
+  record: CalculationSyncRecord,
+  userId?: string
+): CalculationHistoryItem {
+  return {
+    id: record.id,
+    type: record.type,
+    input: record.input,
+    result: record.result,
+    timestamp: new Date(record.timestamp),
+    userId,
+    name: record.name ?? undefined,
+    tags: record.tags,
+    isFavorite: record.isFavorite,
+    metadata: record.metadata ?? undefined,
+  }
+}
+
+// Mark the given fields as changed at `now`
+export function touchFields(
+  clock: CalculationFieldClock | undefined,
+  fields: string[],
+  now: number
+): CalculationFieldClock {
+  const touched = { ...clock }
+  SYNCED_CALCULATION_FIELDS.forEach(field => {
+    if (fields.includes(field)) touched[field] = now
+  })
+  return touched
+}
+
+// Push changes in batches the API accepts, then keep pulling until the
+// server has nothing more. Returns the new cursor.
+export async function syncWithServer(
+  client: CalculationSyncClient,
+  changes: CalculationSyncRecord[],
+  since: CalculationSyncCursor | undefined,
+  apply: (record: CalculationSyncRecord) => Promise<void>
+): Promise<CalculationSyncCursor | undefined> {
+  let batch = changes
+  let cursor = since
+  let hasMore = true
+
+  while (hasMore) {
+    const response = await client.sync({
+      changes: batch.slice(0, MAX_CALCULATION_SYNC_CHANGES),
+      since: cursor,
+    })
+    batch = batch.slice(MAX_CALCULATION_SYNC_CHANGES)
+
+    for (const record of response.changes) {
+      await apply(record)
+    }
+
+    cursor = response.cursor
+    hasMore = response.hasMore || batch.length > 0
+  }
+
+  return cursor
+}
+
+export interface HistorySyncState {
+  // cursor from the last sync; unset until the first one
+  cursor?: CalculationSyncCursor
+  clocks: Record<string, CalculationFieldClock>
+  // Calculations saved or edited since the last sync
+  pending: string[]
+  // Calculations deleted since the last sync
+  tombstones: Record<string, CalculationSyncRecord>
+}
+
+export interface HistorySyncStateStore {
+  load(): Promise<HistorySyncState | null>
+  save(state: HistorySyncState): Promise<void>
+}
+
+export class LocalStorageSyncState implements HistorySyncStateStore {
+  constructor(private readonly storageKey: string) {}
+
+  async load(): Promise<HistorySyncState | null> {
+    if (typeof window === 'undefined' || !window.localStorage) {
+      return null
+    }
+
+    try {
+      const data = localStorage.getItem(this.storageKey)
+      return data ? JSON.parse(data) : null
+    } catch (error) {
+      console.error('Failed to parse calculation sync state:', error)
+      return null
+    }
+  }
+
+  async save(state: HistorySyncState): Promise<void> {
+    if (typeof window === 'undefined' || !window.localStorage) {
+      return
+    }
+
+    localStorage.setItem(this.storageKey, JSON.stringify(state))
+  }
+}
+
+export class MemorySyncState implements HistorySyncStateStore {
+  private state: HistorySyncState | null = null
+
+  async load(): Promise<HistorySyncState | null> {
+    return this.state
+  }
+
+  async save(state: HistorySyncState): Promise<void> {
+    this.state = state
+  }
+}
+
+export interface HistorySyncResult {
+  pushed: number
+  pulled: number
+  deleted: number
+  syncedAt: Date
+}
+
+/**
+ * Local history (localStorage or IndexedDB) that syncs with the user's
+ * saved calculations on the server. Writes are recorded with the time each
+ * field changed, and deletes leave a tombstone, so sync() can merge them
+ * with changes made on other devices.
+ */
+export class SyncedHistoryStorage implements CalculationHistoryStorage {
+  private readonly userId?: string
+  private readonly stateStore: HistorySyncStateStore
+  private readonly now: () => number
+  private state: HistorySyncState | null = null
+  private syncing: Promise<HistorySyncResult> | null = null
+
+  constructor(
+    private readonly local: CalculationHistoryStorage,
+    private readonly client: CalculationSyncClient,
+    options: {
+      userId?: string
+      state?: HistorySyncStateStore
+      now?: () => number
+    } = {}
+  ) {
+    this.userId = options.userId
+    this.now = options.now || Date.now
+    this.stateStore = options.state || (
+      typeof window !== 'undefined' && window.localStorage
+        ? new LocalStorageSyncState(`locumtruerate_calculation_sync_${options.userId || 'anonymous'}`)
+        : new MemorySyncState()
+    )
+  }
+
+  async save(item: CalculationHistoryItem): Promise<void> {
+    await this.local.save(item)
+
+    const state = await this.loadState()
+    state.clocks[item.id] = touchFields(undefined, [...SYNCED_CALCULATION_FIELDS], this.now())
+    this.markPending(state, item.id)
+    await this.saveState()
+  }
+
+  async update(id: string, updates: Partial<CalculationHistoryItem>): Promise<void> {
+    await this.local.update(id, updates)
+
+    const state = await this.loadState()
+    state.clocks[id] = touchFields(state.clocks[id], Object.keys(updates), this.now())
+    this.markPending(state, id)
+    await this.saveState()
+  }
+
+  async delete(id: string): Promise<void> {
+    const item = await this.local.get(id)
+    await this.local.delete(id)
+
+    if (item) {
+      await this.addTombstones([item])
+    }
+  }
+
+  async get(id: string): Promise<CalculationHistoryItem | null> {
+    return this.local.get(id)
+  }
+
+  async list(
+    filter?: CalculationHistoryFilter,
+    sort?: CalculationHistorySort,
+    pagination?: { page: number; pageSize: number }
+  ): Promise<CalculationHistoryPage> {
+    return this.local.list(filter, sort, pagination)
+  }
+
+  async clear(filter?: CalculationHistoryFilter): Promise<void> {
+    const items = await this.local.export()
+    const cleared = filter ? items.filter(item => matchesHistoryFilter(item, filter)) : items
+
+    await this.local.clear(filter)
+    await this.addTombstones(cleared)
+  }
+
+  async export(): Promise<CalculationHistoryItem[]> {
+    return this.local.export()
+  }
+
+  async import(items: CalculationHistoryItem[]): Promise<void> {
+    await this.local.import(items)
+
+    const state = await this.loadState()
+    items.forEach(item => this.markPending(state, item.id))
+    await this.saveState()
+  }
+
+  /**
+   * Push local changes and pull changes made elsewhere. The first sync
+   * pushes all of this user's history (and history saved before signing
+   * in) and pulls everything on the server. Concurrent calls share one run.
+   */
+  sync(): Promise<HistorySyncResult> {
+    if (!this.syncing) {
+      this.syncing = this.performSync().finally(() => {
+        this.syncing = null
+      })
+    }
+    return this.syncing
+  }
+
+  private async performSync(): Promise<HistorySyncResult> {
+    const state = await this.loadState()
+    const pending = state.cursor === undefined
+      ? (await this.local.export())
+          .filter(item => !item.userId || item.userId === this.userId)
+          .map(item => item.id)
+      : state.pending
+    const tombstones = Object.values(state.tombstones)
+
+    const items = await Promise.all(pending.map(id => this.local.get(id)))
+    const changes = [
+      ...items
+        .filter((item): item is CalculationHistoryItem => item !== null)
+        .map(item => toSyncRecord(item, state.clocks[item.id])),
+      ...tombstones,
+    ]
+
+    // Edits made while syncing are pending for the next sync
+    state.pending = []
+    await this.saveState()
+
+    let pulled = 0
+    let deleted = 0
+
+    try {
+      state.cursor = await syncWithServer(this.client, changes, state.cursor, async record => {
+        const applied = await this.applyRemote(state, record)
+        if (applied === 'saved') pulled++
+        if (applied === 'deleted') deleted++
+      })
+    } catch (error) {
+      state.pending = [...new Set([...pending, ...state.pending])]
+      await this.saveState()
+      throw error
+    }
+
+    tombstones.forEach(tombstone => {
+      if (state.tombstones[tombstone.id] === tombstone) delete state.tombstones[tombstone.id]
+    })
+    await this.saveState()
+
+    return { pushed: changes.length, pulled, deleted, syncedAt: new Date() }
+  }
+
+  // Merge a calculation from the server into local history, including
+  // local changes made while the sync was running
+  private async applyRemote(
+    state: HistorySyncState,
+    record: CalculationSyncRecord
+  ): Promise<'saved' | 'deleted' | 'skipped'> {
+    const existing = await this.local.get(record.id)
+    const current = existing
+      ? toSyncRecord(existing, state.clocks[record.id])
+      : state.tombstones[record.id]
+    const merged = current ? mergeCalculationSyncRecords(current, record) : record
+
+    if (isCalculationTombstone(merged)) {
+      delete state.clocks[record.id]
+      if (!existing) return 'skipped'
+      await this.local.delete(record.id)
+      return 'deleted'
+    }
+
+    const item = fromSyncRecord(merged, this.userId)
+    if (existing) {
+      await this.local.update(record.id, item)
+    } else {
+      await this.local.save(item)
+    }
+    state.clocks[record.id] = merged.fieldUpdatedAt
+    return 'saved'
+  }
+
+  private async addTombstones(items: CalculationHistoryItem[]): Promise<void> {
+    const state = await this.loadState()
+    const deletedAt = this.now()
+
+    items.forEach(item => {
+      state.tombstones[item.id] = { ...toSyncRecord(item, state.clocks[item.id]), deletedAt }
+      delete state.clocks[item.id]
+      state.pending = state.pending.filter(id => id !== item.id)
+    })
+    await this.saveState()
+  }
+
+  private markPending(state: HistorySyncState, id: string): void {
+    if (!state.pending.includes(id)) {
+      state.pending.push(id)
+    }
+    delete state.tombstones[id]
+  }
+
+  private async loadState(): Promise<HistorySyncState> {
+    if (!this.state) {
+      this.state = (await this.stateStore.load()) || { clocks: {}, pending: [], tombstones: {} }
+    }
+    return this.state
+  }
+
+  private async saveState(): Promise<void> {
+    if (this.state) {
+      await this.stateStore.save(this.state)
+    }
+  }
+}
\ No newline at end of file
@@ -1,3 +1,5 @@
+import type { CalculationSyncRequest, CalculationSyncResponse } from '@locumtruerate/types'
+
 export interface CalculationHistoryItem {
   id: string
   type: 'contract' | 'paycheck' | 'comparison'
@@ -57,6 +59,12 @@ export interface CalculationHistoryStorage {
   import(items: CalculationHistoryItem[]): Promise<void>
 }
 
+// The calculations.sync procedure of the API, e.g.
+// { sync: request => trpc.calculations.sync.mutate(request) }
+export interface CalculationSyncClient {
+  sync(request: CalculationSyncRequest): Promise<CalculationSyncResponse>
+}
+
 export interface CalculationHistoryAnalytics {
   totalCalculations: number
   calculationsByType: Record<CalculationHistoryItem['type'], number>
@@ -1,6 +1,8 @@
 // Minimal exports for calc-core package
 // This is a temporary build configuration to get the package building
 
+import { taxYearRegistry } from './engines/tax-tables';
+
 // Main types
 export * from './types';
 
@@ -10,10 +12,64 @@ export { PaycheckCalculationEngine } from './engines/paycheck';
 export { ContractComparisonEngine } from './engines/comparison';
 export { TaxCalculator } from './engines/tax-calculator';
 export { LocationDataProvider } from './engines/location-data';
+export { MultiStateTaxCalculator } from './engines/multi-state';
+export { LocalTaxDirectory, LOCAL_TAX_JURISDICTIONS } from './engines/local-taxes';
+export { StipendRulesEngine } from './engines/stipend-rules';
+export { RetirementPlanner } from './engines/retirement';
+export { EstimatedTaxPlanner } from './engines/estimated-tax';
+export { ContractSolver } from './engines/solver';
+export { SCORING_PROFILES, DEFAULT_SCORING_PROFILE, SCORING_FACTOR_LABELS } from './engines/scoring-profiles';
+export { PerDiemDirectory, GSA_PER_DIEM_FY2025 } from './engines/per-diem';
+export { CostOfLivingDirectory, METRO_COST_OF_LIVING, parseCostOfLivingCsv } from './engines/cost-of-living';
+export { JobCompensationCalculator } from './engines/job-compensation';
+export { PayStubImporter, parsePayStubCsv, parsePayStubText } from './engines/pay-stub';
+export { extractPdfText } from './engines/pdf-text';
+export type { LocalTaxJurisdiction, LocalTaxSchedule, LocalTaxLocation } from './engines/local-taxes';
+export type { WorkStateSegment, MultiStateTaxInput, MultiStateTaxResult } from './engines/multi-state';
+export type { StipendTotals } from './engines/stipend-rules';
+export type { RetirementPlanInput } from './engines/retirement';
+export type { EstimatedTaxPlanInput } from './engines/estimated-tax';
+export type { SolverOptions, SensitivityGrid } from './engines/solver';
+export type { PerDiemTable, PerDiemLocality, PerDiemRate } from './engines/per-diem';
+export type { CostOfLivingArea, CostOfLivingLocation } from './engines/cost-of-living';
+export type { CostOfLivingIndexes } from './engines/location-data';
+export type { JobPosting, JobContractOptions, CompensationRange } from './engines/job-compensation';
+export type {
+  PayStub,
+  PayStubLine,
+  PayStubLineKind,
+  PayStubFile,
+  PayStubCheck,
+  PayStubDiscrepancy,
+  PayStubReconciliation
+} from './engines/pay-stub';
+
+// Tax year tables
+export {
+  taxYearRegistry,
+  TaxYearRegistry,
+  deriveTaxYear,
+  progressive,
+  flat,
+  TAX_YEAR_2024,
+  TAX_YEAR_2025,
+  TAX_YEAR_2026
+} from './engines/tax-tables';
+export type {
+  TaxYearTable,
+  TaxYearOverrides,
+  TaxBracket,
+  FederalTaxTable,
+  QualifiedBusinessIncomeTable,
+  PayrollTaxTable,
+  StateTaxTable,
+  StateDisabilityTable,
+  RetirementLimitsTable
+} from './engines/tax-tables';
 
 // Re-export Decimal for convenience
 export { Decimal } from 'decimal.js';
 
 // Version and metadata
 export const VERSION = '0.1.0';
-export const SUPPORTED_TAX_YEAR = 2024;
\ No newline at end of file
+export const SUPPORTED_TAX_YEARS = taxYearRegistry.getYears();
\ No newline at end of file
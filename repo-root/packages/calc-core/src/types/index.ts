@@ -38,6 +38,11 @@ export const FilingStatusSchema = z.enum([
   'QUALIFYING_WIDOW'
 ]);
 
+export const WorkerClassificationSchema = z.enum([
+  'W2',   // Employee: FICA split with the employer
+  '1099'  // Independent contractor: self-employment tax and QBI deduction
+]);
+
 export const PayFrequencySchema = z.enum([
   'WEEKLY',
   'BI_WEEKLY',
@@ -69,6 +74,12 @@ export const ContractInputSchema = z.object({
   hoursPerWeek: z.number().min(1).max(168, 'Hours per week must be between 1 and 168'),
   overtimeRate: z.number().optional(),
   overtimeThreshold: z.number().default(40),
+  // On-call hours paid at a separate hourly rate; they do not count toward
+  // the overtime threshold
+  callPay: z.object({
+    rate: z.number().nonnegative(),
+    hoursPerWeek: z.number().min(0).max(168)
+  }).optional(),
   
   // Additional compensation
   bonuses: z.array(z.object({
@@ -88,6 +99,18 @@ export const ContractInputSchema = z.object({
     other: z.number().nonnegative().default(0)
   }).default({}),
   
+  // Permanent tax home, used to test whether travel stipends are tax-free
+  taxHome: z.object({
+    state: z.enum(US_STATES),
+    city: z.string().optional(),
+    zipCode: z.string().regex(/^\d{5}(-\d{4})?$/, 'Invalid ZIP code format').optional(),
+    distanceMiles: z.number().nonnegative().optional(), // From the assignment
+    // IRS tax home factors (Rev. Rul. 73-529)
+    worksNearHome: z.boolean().default(true), // Regularly works in the area of the home
+    maintainsHome: z.boolean().default(true), // Pays for the home while away (duplicate expenses)
+    returnsHome: z.boolean().default(true) // Family lives there, or returns to it regularly
+  }).optional(),
+  
   // Deductions and expenses
   deductions: z.object({
     healthInsurance: z.number().nonnegative().default(0),
@@ -100,15 +123,59 @@ export const ContractInputSchema = z.object({
     other: z.number().nonnegative().default(0)
   }).default({}),
   
+  // Retirement and HSA contributions for the contract (replaces
+  // deductions.retirement401k). Amounts above the annual IRS limits are reduced.
+  retirement: z.object({
+    age: z.number().int().min(16).max(100).optional(), // For catch-up contributions
+    electiveDeferral: z.number().nonnegative().default(0), // 401(k) or Solo 401(k) employee contribution
+    rothPercent: z.number().min(0).max(100).default(0), // Share of the deferral designated Roth
+    employerContribution: z.number().nonnegative().default(0), // Solo 401(k) profit sharing (1099 only)
+    sepIra: z.number().nonnegative().default(0), // 1099 only
+    hsa: z.number().nonnegative().default(0),
+    hsaCoverage: z.enum(['SELF', 'FAMILY']).default('SELF'),
+    priorDeferrals: z.number().nonnegative().default(0) // Deferrals to other plans this year
+  }).optional(),
+  
+  // Business expenses paid by an independent contractor (contract totals),
+  // deducted from 1099 income on Schedule C
+  businessExpenses: z.object({
+    malpracticeInsurance: z.number().nonnegative().default(0),
+    licensure: z.number().nonnegative().default(0),
+    cme: z.number().nonnegative().default(0),
+    travel: z.number().nonnegative().default(0),
+    equipment: z.number().nonnegative().default(0),
+    professionalServices: z.number().nonnegative().default(0), // Accounting, legal
+    other: z.number().nonnegative().default(0)
+  }).default({}),
+  
   // Tax information
+  workerClassification: WorkerClassificationSchema.default('W2'),
   taxInfo: z.object({
     filingStatus: FilingStatusSchema,
     federalExemptions: z.number().nonnegative().default(0),
     stateExemptions: z.number().nonnegative().default(0),
     additionalFederalWithholding: z.number().nonnegative().default(0),
     additionalStateWithholding: z.number().nonnegative().default(0),
-    isResident: z.boolean().default(true)
-  })
+    isResident: z.boolean().default(true),
+    // Home city for local taxes when not a resident of the contract location
+    residence: z.object({
+      state: z.enum(US_STATES),
+      city: z.string().optional(),
+      zipCode: z.string().regex(/^\d{5}(-\d{4})?$/, 'Invalid ZIP code format').optional()
+    }).optional()
+  }),
+
+  // Assignments split across states: wages are apportioned by days or hours
+  // worked in each state and replace the single-state location tax
+  multiState: z.object({
+    homeState: z.enum(US_STATES),
+    apportionBy: z.enum(['DAYS', 'HOURS']).default('DAYS'),
+    workStates: z.array(z.object({
+      state: z.enum(US_STATES),
+      days: z.number().nonnegative().default(0),
+      hours: z.number().nonnegative().default(0)
+    })).min(1, 'At least one work state is required')
+  }).optional()
 });
 
 export const PaycheckInputSchema = z.object({
@@ -119,11 +186,23 @@ export const PaycheckInputSchema = z.object({
   
   // Employee information
   filingStatus: FilingStatusSchema,
-  exemptions: z.number().nonnegative().default(0),
+  exemptions: z.number().nonnegative().default(0), // Allowances on a 2019 or earlier Form W-4
+  // Form W-4 from 2020 on, which replaces the allowances in `exemptions`.
+  // Step 4(c) extra withholding is additionalFederalWithholding.
+  w4: z.object({
+    multipleJobs: z.boolean().default(false), // Step 2(c) box
+    dependentsCredit: z.number().nonnegative().default(0), // Step 3
+    otherIncome: z.number().nonnegative().default(0), // Step 4(a)
+    deductions: z.number().nonnegative().default(0) // Step 4(b)
+  }).optional(),
   
   // Location for tax calculations
   workState: z.enum(US_STATES),
   residenceState: z.enum(US_STATES),
+  workCity: z.string().optional(),
+  workZipCode: z.string().regex(/^\d{5}(-\d{4})?$/, 'Invalid ZIP code format').optional(),
+  residenceCity: z.string().optional(),
+  residenceZipCode: z.string().regex(/^\d{5}(-\d{4})?$/, 'Invalid ZIP code format').optional(),
   
   // Year-to-date totals
   ytdGross: z.number().nonnegative().default(0),
@@ -143,7 +222,214 @@ export const PaycheckInputSchema = z.object({
   additionalStateWithholding: z.number().nonnegative().default(0)
 });
 
+// Changes during the year, effective from the first paycheck paid on or
+// after the date. Bonuses are paid as separate paychecks on their date.
+export const PayEventSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('RATE_CHANGE'),
+    date: z.date(),
+    grossPay: z.number().positive('Gross pay must be positive') // Per paycheck
+  }),
+  z.object({
+    type: z.literal('WORK_STATE_CHANGE'),
+    date: z.date(),
+    workState: z.enum(US_STATES),
+    workCity: z.string().optional(),
+    workZipCode: z.string().regex(/^\d{5}(-\d{4})?$/, 'Invalid ZIP code format').optional()
+  }),
+  z.object({
+    type: z.literal('BONUS'),
+    date: z.date(),
+    amount: z.number().positive('Bonus amount must be positive'),
+    description: z.string().optional()
+  }),
+  z.object({
+    type: z.literal('RETIREMENT_CHANGE'),
+    date: z.date(),
+    retirement401kPercent: z.number().min(0).max(100)
+  })
+]);
+
+// Every paycheck of the year, starting from the first pay date. Earnings
+// with the employer before that date are assumed to be nil.
+export const PaySimulationInputSchema = PaycheckInputSchema.omit({
+  payDate: true,
+  ytdGross: true,
+  ytdFederalTax: true,
+  ytdStateTax: true,
+  ytdSocialSecurity: true,
+  ytdMedicare: true,
+  ytdStateDisability: true
+}).extend({
+  firstPayDate: z.date(),
+  // 401(k) deferral as a share of each paycheck and bonus. Unlike
+  // preTaxDeductions (health premiums), it is still subject to FICA.
+  retirement401kPercent: z.number().min(0).max(100).default(0),
+  age: z.number().int().min(16).max(100).optional(), // For catch-up contributions
+  events: z.array(PayEventSchema).default([])
+});
+
+export const ScoringFactorSchema = z.enum([
+  'netPay',
+  'hourlyRate',
+  'benefits',
+  'taxEfficiency',
+  'location',
+  'costOfLiving',
+  'qualityOfLife',
+  'commute'
+]);
+
+export const ScoringProfileSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().min(1, 'Profile name is required').max(100),
+  description: z.string().max(500).optional(),
+  // Relative weights; they are normalized so they need not add up to 100
+  weights: z.object({
+    netPay: z.number().nonnegative().default(0),
+    hourlyRate: z.number().nonnegative().default(0),
+    benefits: z.number().nonnegative().default(0),
+    taxEfficiency: z.number().nonnegative().default(0),
+    location: z.number().nonnegative().default(0),
+    costOfLiving: z.number().nonnegative().default(0),
+    qualityOfLife: z.number().nonnegative().default(0),
+    commute: z.number().nonnegative().default(0)
+  }).refine(
+    weights => Object.values(weights).some(weight => weight > 0),
+    'At least one factor must have a weight'
+  )
+});
+
+export const PayBasisSchema = z.enum([
+  'HOURLY',
+  'DAILY',
+  'SHIFT',
+  'ANNUAL'
+]);
+
+export const MalpracticeCoverageSchema = z.enum([
+  'NONE',
+  'CLAIMS_MADE',
+  'CLAIMS_MADE_WITH_TAIL',
+  'OCCURRENCE'
+]);
+
+// Structured compensation on a job posting. Rates are in the units of the
+// pay basis; stipends use the same units as ContractInput (housing and meals
+// weekly, the rest per assignment).
+export const JobCompensationSchema = z.object({
+  payBasis: PayBasisSchema,
+  rateMin: z.number().positive('Rate must be positive'),
+  rateMax: z.number().positive('Rate must be positive').optional(),
+  hoursPerShift: z.number().min(1).max(48).optional(), // Required for DAILY and SHIFT pay
+  hoursPerWeek: z.number().min(1).max(168).default(40),
+  durationWeeks: z.number().int().positive().optional(),
+  overtimeRate: z.number().positive().optional(), // Hourly
+  overtimeThreshold: z.number().default(40),
+  callRate: z.number().nonnegative().optional(), // Hourly, for on-call hours
+  callHoursPerWeek: z.number().min(0).max(168).default(0),
+  stipends: z.object({
+    housing: z.number().nonnegative().default(0),
+    meals: z.number().nonnegative().default(0),
+    travel: z.number().nonnegative().default(0),
+    licensure: z.number().nonnegative().default(0),
+    malpractice: z.number().nonnegative().default(0),
+    cme: z.number().nonnegative().default(0),
+    other: z.number().nonnegative().default(0)
+  }).default({}),
+  malpracticeCoverage: MalpracticeCoverageSchema.default('NONE'),
+  workerClassification: WorkerClassificationSchema.default('W2')
+}).refine(
+  compensation => compensation.rateMax === undefined || compensation.rateMax >= compensation.rateMin,
+  { message: 'Maximum rate cannot be less than the minimum rate', path: ['rateMax'] }
+).refine(
+  compensation => compensation.payBasis === 'HOURLY' || compensation.payBasis === 'ANNUAL' || compensation.hoursPerShift !== undefined,
+  { message: 'Hours per shift are required for daily and shift pay', path: ['hoursPerShift'] }
+);
+
 // Output Types
+export interface StateTaxApportionment {
+  state: USState;
+  isResident: boolean;
+  reciprocal: boolean; // Exempt under a reciprocal agreement with the home state
+  workUnits: number;
+  apportionment: Decimal; // Percentage of wages sourced to the state
+  sourcedIncome: Decimal;
+  taxBeforeCredits: Decimal;
+  residentCredit: Decimal; // Credit for taxes paid to other states
+  tax: Decimal;
+  stateDisability: Decimal;
+}
+
+export interface LocalTaxLiability {
+  jurisdiction: string;
+  name: string;
+  isResident: boolean;
+  tax: Decimal;
+}
+
+export type TaxHomeStatus =
+  | 'QUALIFIED'              // Meets all three tax home factors
+  | 'FACTS_AND_CIRCUMSTANCES' // Meets two of three; eligibility depends on the facts
+  | 'UNVERIFIED'             // No tax home supplied
+  | 'ITINERANT'              // No tax home; stipends are taxable wages
+  | 'LOCAL'                  // Assignment is within commuting distance of home
+  | 'INDEFINITE'             // Assignment expected to last more than a year
+  | 'NOT_APPLICABLE';        // 1099 contractor; stipends are business income
+
+export interface StipendAllocation {
+  amount: Decimal;
+  limit?: Decimal; // GSA per-diem allowance over the contract
+  taxFree: Decimal;
+  taxable: Decimal;
+}
+
+export interface StipendEligibility {
+  taxHomeStatus: TaxHomeStatus;
+  perDiemLocality: string;
+  housing: StipendAllocation;
+  meals: StipendAllocation;
+  travel: StipendAllocation;
+  licensure: StipendAllocation;
+  malpractice: StipendAllocation;
+  cme: StipendAllocation;
+  other: StipendAllocation;
+  taxFree: Decimal;
+  taxable: Decimal;
+  warnings: string[];
+}
+
+export interface RetirementLimits {
+  electiveDeferral: Decimal; // Including catch-up, less prior deferrals
+  catchUp: Decimal;
+  employerContribution: Decimal; // Solo 401(k) profit sharing and SEP-IRA combined
+  annualAdditions: Decimal;
+  hsa: Decimal;
+}
+
+export interface RetirementPlan {
+  preTaxDeferral: Decimal;
+  rothDeferral: Decimal;
+  employerContribution: Decimal;
+  sepIra: Decimal;
+  hsa: Decimal;
+  preTaxTotal: Decimal; // Excluded from federal taxable income
+  total: Decimal;
+  limits: RetirementLimits;
+  warnings: string[];
+}
+
+export interface SelfEmploymentTaxDetail {
+  netProfit: Decimal; // Schedule C net profit after business expenses
+  netEarnings: Decimal; // Net earnings subject to self-employment tax
+  socialSecurity: Decimal;
+  medicare: Decimal;
+  total: Decimal;
+  deductibleHalf: Decimal; // Deduction for one-half of self-employment tax
+  qualifiedBusinessIncome: Decimal;
+  qbiDeduction: Decimal;
+}
+
 export interface ContractCalculationResult {
   contract: ContractInput;
   calculationDate: Date;
@@ -163,6 +449,7 @@ export interface ContractCalculationResult {
   breakdown: {
     basePay: Decimal;
     overtimePay: Decimal;
+    callPay?: Decimal;
     bonuses: Decimal;
     stipends: {
       housing: Decimal;
@@ -179,19 +466,38 @@ export interface ContractCalculationResult {
       dentalInsurance: Decimal;
       visionInsurance: Decimal;
       retirement401k: Decimal;
+      hsa: Decimal;
+      selfEmployedRetirement: Decimal; // Solo 401(k) employer and SEP-IRA contributions
       professionalFees: Decimal;
       parking: Decimal;
       other: Decimal;
       total: Decimal;
     };
+    retirement?: RetirementPlan;
+    stipendEligibility?: StipendEligibility;
+    businessExpenses?: {
+      malpracticeInsurance: Decimal;
+      licensure: Decimal;
+      cme: Decimal;
+      travel: Decimal;
+      equipment: Decimal;
+      professionalServices: Decimal;
+      other: Decimal;
+      total: Decimal;
+    };
     taxes: {
       federal: Decimal;
       state: Decimal;
       socialSecurity: Decimal;
       medicare: Decimal;
       stateDisability: Decimal;
+      local: Decimal;
       unemployment: Decimal;
       total: Decimal;
+      adjustedGrossIncome?: Decimal;
+      byState?: StateTaxApportionment[];
+      localJurisdictions?: LocalTaxLiability[];
+      selfEmployment?: SelfEmploymentTaxDetail;
     };
   };
   
@@ -232,6 +538,7 @@ export interface PaycheckCalculationResult {
     socialSecurity: Decimal;
     medicare: Decimal;
     stateDisability: Decimal;
+    local: Decimal;
     effectiveRate: Decimal;
   };
   
@@ -259,6 +566,165 @@ export interface PaycheckCalculationResult {
     annualTaxes: Decimal;
     remainingPaychecks: number;
   };
+
+  forecast: TaxReturnForecast;
+}
+
+export interface W4Recommendation {
+  extraWithholding: Decimal; // Step 4(c), per paycheck
+  deductions: Decimal; // Step 4(b)
+  // Change in federal withholding per paycheck for the rest of the year
+  changePerPaycheck: Decimal;
+  message: string;
+}
+
+// Federal withholding for the year against the tax on the return
+export interface TaxReturnForecast {
+  taxYear: number;
+  wages: Decimal; // Federal taxable wages for the year
+  withholding: Decimal; // Income tax and Additional Medicare withheld
+  incomeTax: Decimal; // After the Form W-4 Step 3 credits
+  additionalMedicare: Decimal;
+  liability: Decimal;
+  // Withholding less liability: a refund when positive, a balance due when negative
+  refund: Decimal;
+  outcome: 'REFUND' | 'BALANCE_DUE' | 'EVEN';
+  // Null when the forecast is close to even or no paychecks remain
+  recommendation: W4Recommendation | null;
+}
+
+export interface WorkerClassificationComparison {
+  w2: ContractCalculationResult;
+  contractor: ContractCalculationResult;
+  // Contractor net pay minus W-2 net pay
+  netDifference: Decimal;
+}
+
+export type SolverVariable = 'hourlyRate' | 'hoursPerWeek' | 'housingStipend';
+
+export interface SolverResult {
+  variable: SolverVariable;
+  // Value of the variable that reaches the target (weekly for stipends)
+  value: Decimal;
+  targetNetPay: Decimal;
+  achievedNetPay: Decimal;
+  // False when the target cannot be reached within the variable's bounds
+  converged: boolean;
+  iterations: number;
+  result: ContractCalculationResult;
+}
+
+export interface SensitivityCell {
+  hourlyRate: Decimal;
+  hoursPerWeek: Decimal;
+  netAnnualPay: Decimal;
+  effectiveHourlyRate: Decimal;
+}
+
+export interface SensitivityTable {
+  hourlyRates: Decimal[];
+  hoursPerWeek: Decimal[];
+  // One row per hours-per-week value, one column per hourly rate
+  cells: SensitivityCell[][];
+}
+
+export interface EstimatedTaxInstallment {
+  installment: 1 | 2 | 3 | 4;
+  periodEnd: Date;
+  dueDate: Date;
+  // Income earned from January 1 through the end of the period
+  cumulativeIncome: Decimal;
+  annualizedIncome: Decimal;
+  annualizedInstallment: Decimal;
+  regularInstallment: Decimal;
+  requiredInstallment: Decimal;
+  withholding: Decimal;
+  recommendedPayment: Decimal;
+  payment: Decimal;
+  underpayment: Decimal;
+  penalty: Decimal;
+}
+
+export interface EstimatedTaxPlan {
+  taxYear: number;
+  filingStatus: FilingStatus;
+  totalIncome: Decimal;
+  estimatedTax: Decimal; // Federal income, self-employment and Additional Medicare tax
+  withholding: Decimal;
+  currentYearSafeHarbor: Decimal; // 90% of this year's tax
+  priorYearSafeHarbor?: Decimal; // 100% or 110% of last year's tax
+  requiredAnnualPayment: Decimal;
+  method: 'ANNUALIZED' | 'REGULAR';
+  installments: EstimatedTaxInstallment[];
+  totalRecommended: Decimal;
+  totalPenalty: Decimal;
+  penaltyApplies: boolean;
+  warnings: string[];
+}
+
+export type PaySimulationMilestone =
+  | 'SOCIAL_SECURITY_WAGE_BASE' // Social Security withholding stops
+  | 'ADDITIONAL_MEDICARE' // Additional Medicare withholding starts
+  | 'RETIREMENT_LIMIT'; // 401(k) deferrals stop at the annual limit
+
+export interface SimulatedPaycheck {
+  payDate: Date;
+  kind: 'REGULAR' | 'BONUS';
+  description?: string;
+  workState: USState;
+  grossPay: Decimal;
+  // Pay events that took effect with this paycheck
+  changes: string[];
+  taxes: {
+    federal: Decimal;
+    state: Decimal;
+    socialSecurity: Decimal;
+    medicare: Decimal; // Including Additional Medicare
+    additionalMedicare: Decimal;
+    stateDisability: Decimal;
+    local: Decimal;
+    total: Decimal;
+  };
+  deductions: {
+    preTax: Decimal;
+    retirement401k: Decimal;
+    roth: Decimal;
+    afterTax: Decimal;
+    total: Decimal;
+  };
+  netPay: Decimal;
+  ytd: {
+    grossPay: Decimal;
+    socialSecurityWages: Decimal;
+    medicareWages: Decimal;
+    retirement401k: Decimal;
+    totalTaxes: Decimal;
+    netPay: Decimal;
+  };
+  milestones: PaySimulationMilestone[];
+}
+
+export interface PaySimulationTotals {
+  grossPay: Decimal;
+  federal: Decimal;
+  state: Decimal;
+  socialSecurity: Decimal;
+  medicare: Decimal;
+  additionalMedicare: Decimal;
+  stateDisability: Decimal;
+  local: Decimal;
+  totalTaxes: Decimal;
+  retirement401k: Decimal;
+  totalDeductions: Decimal;
+  netPay: Decimal;
+}
+
+export interface PaySimulationResult {
+  taxYear: number;
+  paychecks: SimulatedPaycheck[];
+  totals: PaySimulationTotals;
+  // Pay date of the paycheck that reached each milestone
+  milestones: Partial<Record<PaySimulationMilestone, Date>>;
 }
 
 export interface ContractComparisonResult {
@@ -284,14 +750,41 @@ export interface ContractComparisonResult {
     };
   };
   recommendations: string[];
+  // Scoring profile used for bestOverall, so the comparison can be reproduced
+  profile: ScoringProfile;
+  scores: ContractScore[];
+}
+
+export interface FactorScore {
+  factor: ScoringFactor;
+  score: number; // 0-100
+  weight: number; // Normalized share of the total, 0-1
+  contribution: number; // score × weight
+}
+
+export interface ContractScore {
+  total: number; // 0-100
+  factors: FactorScore[];
 }
 
 // Export types from schemas
 export type ContractInput = z.infer<typeof ContractInputSchema>;
 export type PaycheckInput = z.infer<typeof PaycheckInputSchema>;
+export type W4Input = NonNullable<PaycheckInput['w4']>;
+export type PayEvent = z.infer<typeof PayEventSchema>;
+export type PaySimulationInput = z.input<typeof PaySimulationInputSchema>;
 export type ContractType = z.infer<typeof ContractTypeSchema>;
 export type FilingStatus = z.infer<typeof FilingStatusSchema>;
 export type PayFrequency = z.infer<typeof PayFrequencySchema>;
+export type WorkerClassification = z.infer<typeof WorkerClassificationSchema>;
+export type ScoringFactor = z.infer<typeof ScoringFactorSchema>;
+export type ScoringProfile = z.infer<typeof ScoringProfileSchema>;
+export type ScoringProfileInput = z.input<typeof ScoringProfileSchema>;
+export type RetirementInput = NonNullable<ContractInput['retirement']>;
+export type PayBasis = z.infer<typeof PayBasisSchema>;
+export type MalpracticeCoverage = z.infer<typeof MalpracticeCoverageSchema>;
+export type JobCompensation = z.infer<typeof JobCompensationSchema>;
+export type JobCompensationInput = z.input<typeof JobCompensationSchema>;
 
 // Export Decimal for external use
 export { Decimal };
\ No newline at end of file
@@ -21,4 +21,35 @@ export function formatNumber(value: number): string {
 
 export function roundToCents(amount: number): number {
   return Math.round(amount * 100) / 100
-}
\ No newline at end of file
+}
+
+// Split a CSV line, allowing quoted fields with commas and "" escapes
+export function splitCsvLine(line: string): string[] {
+  const values: string[] = []
+  let current = ''
+  let quoted = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        current += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      values.push(current.trim())
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  values.push(current.trim())
+
+  return values
+}
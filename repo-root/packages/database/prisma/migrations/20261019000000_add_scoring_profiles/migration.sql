@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "ScoringProfile" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "weights" JSONB NOT NULL,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ScoringProfile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ScoringProfile_userId_name_key" ON "ScoringProfile"("userId", "name");
+
+-- CreateIndex
+CREATE INDEX "ScoringProfile_userId_idx" ON "ScoringProfile"("userId");
+
+-- AddForeignKey
+ALTER TABLE "ScoringProfile" ADD CONSTRAINT "ScoringProfile_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "Profession" AS ENUM ('PHYSICIAN', 'CRNA', 'NURSE_PRACTITIONER', 'PHYSICIAN_ASSISTANT', 'REGISTERED_NURSE');
+
+-- CreateEnum
+CREATE TYPE "BoardCertificationRequirement" AS ENUM ('NOT_REQUIRED', 'BOARD_ELIGIBLE', 'BOARD_CERTIFIED');
+
+-- CreateEnum
+CREATE TYPE "ClinicalCertification" AS ENUM ('DEA', 'ACLS', 'BLS', 'PALS', 'ATLS', 'NRP');
+
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN     "boardCertification" "BoardCertificationRequirement" NOT NULL DEFAULT 'NOT_REQUIRED',
+ADD COLUMN     "profession" "Profession",
+ADD COLUMN     "requiredCertifications" "ClinicalCertification"[],
+ADD COLUMN     "requiredLicenseStates" TEXT[],
+ADD COLUMN     "specialty" TEXT,
+ADD COLUMN     "subspecialty" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Job_profession_idx" ON "Job"("profession");
+
+-- CreateIndex
+CREATE INDEX "Job_specialty_idx" ON "Job"("specialty");
@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "PayBasis" AS ENUM ('HOURLY', 'DAILY', 'SHIFT', 'ANNUAL');
+
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN     "annualPayMax" INTEGER,
+ADD COLUMN     "annualPayMin" INTEGER,
+ADD COLUMN     "compensation" JSONB,
+ADD COLUMN     "payBasis" "PayBasis",
+ADD COLUMN     "zipCode" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Job_annualPayMax_idx" ON "Job"("annualPayMax");
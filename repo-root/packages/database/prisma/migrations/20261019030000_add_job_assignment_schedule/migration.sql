@@ -0,0 +1,20 @@
+-- CreateEnum
+CREATE TYPE "ShiftType" AS ENUM ('DAY', 'NIGHT', 'SWING', 'ROTATING', 'TWENTY_FOUR_HOUR');
+
+-- CreateEnum
+CREATE TYPE "CallRequirement" AS ENUM ('NONE', 'HOME_CALL', 'IN_HOUSE');
+
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN     "assignmentEndDate" TIMESTAMP(3),
+ADD COLUMN     "assignmentStartDate" TIMESTAMP(3),
+ADD COLUMN     "callFrequency" INTEGER,
+ADD COLUMN     "callRequirement" "CallRequirement" NOT NULL DEFAULT 'NONE',
+ADD COLUMN     "daysOff" INTEGER,
+ADD COLUMN     "daysOn" INTEGER,
+ADD COLUMN     "guaranteedHoursPerWeek" INTEGER,
+ADD COLUMN     "latestStartDate" TIMESTAMP(3),
+ADD COLUMN     "shiftLengthHours" INTEGER,
+ADD COLUMN     "shiftType" "ShiftType";
+
+-- CreateIndex
+CREATE INDEX "Job_assignmentStartDate_assignmentEndDate_idx" ON "Job"("assignmentStartDate", "assignmentEndDate");
@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE "CandidateAvailability" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "profession" "Profession",
+    "specialties" TEXT[],
+    "desiredStates" TEXT[],
+    "licensedStates" TEXT[],
+    "minHourlyRate" INTEGER,
+    "digestEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "lastDigestSentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CandidateAvailability_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AvailabilityBlock" (
+    "id" TEXT NOT NULL,
+    "availabilityId" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AvailabilityBlock_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CandidateAvailability_userId_key" ON "CandidateAvailability"("userId");
+
+-- CreateIndex
+CREATE INDEX "CandidateAvailability_digestEnabled_idx" ON "CandidateAvailability"("digestEnabled");
+
+-- CreateIndex
+CREATE INDEX "AvailabilityBlock_availabilityId_idx" ON "AvailabilityBlock"("availabilityId");
+
+-- CreateIndex
+CREATE INDEX "AvailabilityBlock_startDate_endDate_idx" ON "AvailabilityBlock"("startDate", "endDate");
+
+-- AddForeignKey
+ALTER TABLE "CandidateAvailability" ADD CONSTRAINT "CandidateAvailability_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AvailabilityBlock" ADD CONSTRAINT "AvailabilityBlock_availabilityId_fkey" FOREIGN KEY ("availabilityId") REFERENCES "CandidateAvailability"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,57 @@
+-- CreateEnum
+CREATE TYPE "CredentialType" AS ENUM ('STATE_LICENSE', 'BOARD_CERTIFICATION', 'DEA_REGISTRATION', 'MALPRACTICE_COI', 'LIFE_SUPPORT_CERTIFICATION', 'IMMUNIZATION_RECORD', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "CredentialVerificationStatus" AS ENUM ('UNVERIFIED', 'PENDING', 'VERIFIED', 'REJECTED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "Credential" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "CredentialType" NOT NULL,
+    "name" TEXT NOT NULL,
+    "issuingState" TEXT,
+    "issuingAuthority" TEXT,
+    "number" TEXT,
+    "issuedAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3),
+    "documentUrl" TEXT,
+    "verificationStatus" "CredentialVerificationStatus" NOT NULL DEFAULT 'UNVERIFIED',
+    "verifiedAt" TIMESTAMP(3),
+    "lastReminderDays" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "deletedAt" TIMESTAMP(3),
+
+    CONSTRAINT "Credential_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ApplicationCredential" (
+    "applicationId" TEXT NOT NULL,
+    "credentialId" TEXT NOT NULL,
+    "attachedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ApplicationCredential_pkey" PRIMARY KEY ("applicationId","credentialId")
+);
+
+-- CreateIndex
+CREATE INDEX "Credential_userId_idx" ON "Credential"("userId");
+
+-- CreateIndex
+CREATE INDEX "Credential_type_idx" ON "Credential"("type");
+
+-- CreateIndex
+CREATE INDEX "Credential_expiresAt_idx" ON "Credential"("expiresAt");
+
+-- CreateIndex
+CREATE INDEX "ApplicationCredential_credentialId_idx" ON "ApplicationCredential"("credentialId");
+
+-- AddForeignKey
+ALTER TABLE "Credential" ADD CONSTRAINT "Credential_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApplicationCredential" ADD CONSTRAINT "ApplicationCredential_applicationId_fkey" FOREIGN KEY ("applicationId") REFERENCES "Application"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApplicationCredential" ADD CONSTRAINT "ApplicationCredential_credentialId_fkey" FOREIGN KEY ("credentialId") REFERENCES "Credential"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterEnum
+ALTER TYPE "CredentialType" ADD VALUE 'NPI';
+
+-- AlterTable
+ALTER TABLE "Credential" ADD COLUMN     "verificationCheckedAt" TIMESTAMP(3),
+ADD COLUMN     "verificationEvidence" JSONB,
+ADD COLUMN     "verificationSource" TEXT;
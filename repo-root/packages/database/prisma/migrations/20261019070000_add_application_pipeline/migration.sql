@@ -0,0 +1,111 @@
+-- CreateEnum
+CREATE TYPE "ApplicationEventType" AS ENUM ('APPLIED', 'STAGE_CHANGED', 'STATUS_CHANGED', 'INTERVIEW_SCHEDULED', 'INTERVIEW_CANCELLED', 'OFFER_SENT', 'OFFER_ACCEPTED', 'OFFER_DECLINED', 'OFFER_WITHDRAWN');
+
+-- CreateEnum
+CREATE TYPE "InterviewStatus" AS ENUM ('SCHEDULED', 'COMPLETED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "OfferStatus" AS ENUM ('SENT', 'ACCEPTED', 'DECLINED', 'WITHDRAWN', 'EXPIRED');
+
+-- AlterTable
+ALTER TABLE "Organization" ADD COLUMN     "pipelineStages" JSONB;
+
+-- AlterTable
+ALTER TABLE "Application" ADD COLUMN     "stage" TEXT,
+ADD COLUMN     "stageEnteredAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "ApplicationEvent" (
+    "id" TEXT NOT NULL,
+    "applicationId" TEXT NOT NULL,
+    "type" "ApplicationEventType" NOT NULL,
+    "fromStage" TEXT,
+    "toStage" TEXT,
+    "stageName" TEXT,
+    "fromStatus" "ApplicationStatus",
+    "toStatus" "ApplicationStatus",
+    "actorId" TEXT,
+    "note" TEXT,
+    "details" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ApplicationEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Interview" (
+    "id" TEXT NOT NULL,
+    "applicationId" TEXT NOT NULL,
+    "scheduledBy" TEXT NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "timezone" TEXT NOT NULL DEFAULT 'UTC',
+    "location" TEXT,
+    "meetingUrl" TEXT,
+    "notes" TEXT,
+    "status" "InterviewStatus" NOT NULL DEFAULT 'SCHEDULED',
+    "icsUid" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Interview_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Offer" (
+    "id" TEXT NOT NULL,
+    "applicationId" TEXT NOT NULL,
+    "createdBy" TEXT NOT NULL,
+    "status" "OfferStatus" NOT NULL DEFAULT 'SENT',
+    "terms" JSONB NOT NULL,
+    "letter" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3),
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "respondedAt" TIMESTAMP(3),
+    "responseNote" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Offer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Application_stage_idx" ON "Application"("stage");
+
+-- CreateIndex
+CREATE INDEX "ApplicationEvent_applicationId_createdAt_idx" ON "ApplicationEvent"("applicationId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Interview_icsUid_key" ON "Interview"("icsUid");
+
+-- CreateIndex
+CREATE INDEX "Interview_applicationId_idx" ON "Interview"("applicationId");
+
+-- CreateIndex
+CREATE INDEX "Interview_startsAt_idx" ON "Interview"("startsAt");
+
+-- CreateIndex
+CREATE INDEX "Offer_applicationId_idx" ON "Offer"("applicationId");
+
+-- CreateIndex
+CREATE INDEX "Offer_status_idx" ON "Offer"("status");
+
+-- AddForeignKey
+ALTER TABLE "ApplicationEvent" ADD CONSTRAINT "ApplicationEvent_applicationId_fkey" FOREIGN KEY ("applicationId") REFERENCES "Application"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Interview" ADD CONSTRAINT "Interview_applicationId_fkey" FOREIGN KEY ("applicationId") REFERENCES "Application"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Offer" ADD CONSTRAINT "Offer_applicationId_fkey" FOREIGN KEY ("applicationId") REFERENCES "Application"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill the timeline for existing applications from appliedAt and the
+-- last review recorded in reviewedAt
+INSERT INTO "ApplicationEvent" ("id", "applicationId", "type", "toStatus", "createdAt")
+SELECT 'applied_' || "id", "id", 'APPLIED', 'PENDING', "appliedAt" FROM "Application";
+
+INSERT INTO "ApplicationEvent" ("id", "applicationId", "type", "fromStatus", "toStatus", "actorId", "createdAt")
+SELECT 'reviewed_' || "id", "id", 'STATUS_CHANGED', 'PENDING', "status", "reviewedBy", "reviewedAt"
+FROM "Application"
+WHERE "reviewedAt" IS NOT NULL;
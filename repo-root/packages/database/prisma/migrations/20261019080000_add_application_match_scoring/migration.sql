@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Job" ADD COLUMN     "minExperienceYears" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Application" ADD COLUMN     "licenseStates" TEXT[],
+ADD COLUMN     "scoredAt" TIMESTAMP(3),
+ADD COLUMN     "specialty" TEXT;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "ApiKey" ADD COLUMN     "prefix" TEXT,
+ADD COLUMN     "rateLimit" INTEGER NOT NULL DEFAULT 60;
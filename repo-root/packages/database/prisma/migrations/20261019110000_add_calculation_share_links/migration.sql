@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "CalculationShareLink" (
+    "id" TEXT NOT NULL,
+    "calculationId" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "label" TEXT,
+    "redactPersonal" BOOLEAN NOT NULL DEFAULT true,
+    "passwordHash" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "viewCount" INTEGER NOT NULL DEFAULT 0,
+    "lastViewedAt" TIMESTAMP(3),
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CalculationShareLink_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CalculationShareView" (
+    "id" TEXT NOT NULL,
+    "linkId" TEXT NOT NULL,
+    "viewedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userAgent" TEXT,
+    "referrer" TEXT,
+
+    CONSTRAINT "CalculationShareView_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CalculationShareLink_token_key" ON "CalculationShareLink"("token");
+
+-- CreateIndex
+CREATE INDEX "CalculationShareLink_calculationId_idx" ON "CalculationShareLink"("calculationId");
+
+-- CreateIndex
+CREATE INDEX "CalculationShareView_linkId_viewedAt_idx" ON "CalculationShareView"("linkId", "viewedAt");
+
+-- AddForeignKey
+ALTER TABLE "CalculationShareLink" ADD CONSTRAINT "CalculationShareLink_calculationId_fkey" FOREIGN KEY ("calculationId") REFERENCES "SavedCalculation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CalculationShareView" ADD CONSTRAINT "CalculationShareView_linkId_fkey" FOREIGN KEY ("linkId") REFERENCES "CalculationShareLink"("id") ON DELETE CASCADE ON UPDATE CASCADE;
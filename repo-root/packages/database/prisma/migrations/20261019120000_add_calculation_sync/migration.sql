@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "SavedCalculation" ADD COLUMN     "deletedAt" TIMESTAMP(3),
+ADD COLUMN     "fieldUpdatedAt" JSONB;
+
+-- CreateIndex
+CREATE INDEX "SavedCalculation_userId_updatedAt_idx" ON "SavedCalculation"("userId", "updatedAt");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "CalculationShareLink" ADD COLUMN     "failedPasswordAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lockedUntil" TIMESTAMP(3);
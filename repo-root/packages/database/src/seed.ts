@@ -4,6 +4,12 @@ import {
   JobStatus, 
   JobType, 
   JobCategory, 
+  PayBasis,
+  Profession,
+  BoardCertificationRequirement,
+  ClinicalCertification,
+  ShiftType,
+  CallRequirement,
   ApplicationStatus,
   SubscriptionTier,
   OrganizationRole 
@@ -139,9 +145,38 @@ async function main() {
         responsibilities: 'Provide emergency medical care, Lead medical team, Ensure quality patient outcomes',
         benefits: 'Competitive hourly rate, Travel expenses covered, Malpractice insurance provided',
         salary: '$350-450/hour',
+        zipCode: '94110',
+        compensation: {
+          payBasis: 'HOURLY',
+          rateMin: 350,
+          rateMax: 450,
+          hoursPerWeek: 40,
+          durationWeeks: 13,
+          stipends: { housing: 1500, meals: 400, travel: 1000 },
+          malpracticeCoverage: 'OCCURRENCE',
+          workerClassification: '1099',
+        },
+        payBasis: PayBasis.HOURLY,
+        annualPayMin: 728000,
+        annualPayMax: 936000,
         type: JobType.CONTRACT,
         category: JobCategory.OTHER,
         tags: ['emergency-medicine', 'physician', 'locum-tenens'],
+        profession: Profession.PHYSICIAN,
+        specialty: 'Emergency Medicine',
+        boardCertification: BoardCertificationRequirement.BOARD_CERTIFIED,
+        requiredLicenseStates: ['CA'],
+        requiredCertifications: [ClinicalCertification.DEA, ClinicalCertification.ACLS, ClinicalCertification.BLS],
+        assignmentStartDate: new Date(Date.now() + 21 * 24 * 60 * 60 * 1000), // 3 weeks out
+        assignmentEndDate: new Date(Date.now() + (21 + 13 * 7) * 24 * 60 * 60 * 1000), // 13 weeks
+        latestStartDate: new Date(Date.now() + 35 * 24 * 60 * 60 * 1000),
+        shiftType: ShiftType.NIGHT,
+        shiftLengthHours: 12,
+        daysOn: 7,
+        daysOff: 7,
+        callRequirement: CallRequirement.HOME_CALL,
+        callFrequency: 4,
+        guaranteedHoursPerWeek: 36,
         status: JobStatus.ACTIVE,
         publishedAt: new Date(),
         expiresAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days
@@ -162,6 +197,10 @@ async function main() {
         type: JobType.CONTRACT,
         category: JobCategory.OTHER,
         tags: ['nurse-practitioner', 'primary-care', 'locum'],
+        profession: Profession.NURSE_PRACTITIONER,
+        specialty: 'Family Medicine',
+        requiredLicenseStates: ['NY'],
+        requiredCertifications: [ClinicalCertification.BLS],
         status: JobStatus.ACTIVE,
         publishedAt: new Date(),
         expiresAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
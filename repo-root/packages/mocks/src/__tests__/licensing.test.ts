@@ -0,0 +1,69 @@
+/**
+ * Licensing Mock Server Tests
+ */
+
+import { LicensingMockServer } from '../licensing';
+
+describe('LicensingMockServer', () => {
+  let server: LicensingMockServer;
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation();
+    server = new LicensingMockServer({ port: 4255, host: 'localhost' });
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    jest.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    server.resetRecords();
+  });
+
+  it('should look up seeded state board licenses', async () => {
+    const response = await fetch(`${server.getAdapterUrls().stateBoards}/CA/licenses/A123456`);
+    expect(response.status).toBe(200);
+
+    const license = await response.json();
+    expect(license.status).toBe('ACTIVE');
+    expect(license.expirationDate).toBe('2027-06-30');
+  });
+
+  it('should return 404 for unknown licenses', async () => {
+    const response = await fetch(`${server.getAdapterUrls().stateBoards}/CA/licenses/NOPE`);
+    expect(response.status).toBe(404);
+  });
+
+  it('should answer NPI lookups in the NPPES format', async () => {
+    const response = await fetch(`${server.getAdapterUrls().nppes}/?version=2.1&number=1234567893`);
+    const body = await response.json();
+
+    expect(body.result_count).toBe(1);
+    expect(body.results[0].basic.status).toBe('A');
+  });
+
+  it('should return an empty NPPES result for unknown NPIs', async () => {
+    const response = await fetch(`${server.getAdapterUrls().nppes}/?version=2.1&number=1111111111`);
+    const body = await response.json();
+
+    expect(body.result_count).toBe(0);
+  });
+
+  it('should serve records added by tests until reset', async () => {
+    server.addDeaRegistration({
+      registrationNumber: 'FS7654321',
+      registrantName: 'Test Provider',
+      status: 'REVOKED',
+      schedules: []
+    });
+
+    const added = await fetch(`${server.getAdapterUrls().dea}/registrations/fs7654321`);
+    expect((await added.json()).status).toBe('REVOKED');
+
+    server.resetRecords();
+    const reset = await fetch(`${server.getAdapterUrls().dea}/registrations/FS7654321`);
+    expect(reset.status).toBe(404);
+  });
+});
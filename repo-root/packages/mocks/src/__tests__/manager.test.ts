@@ -31,6 +31,7 @@ describe('MockServerManager', () => {
       expect(urls.stripe).toContain('localhost:4242');
       expect(urls.zapier).toContain('localhost:4243');
       expect(urls.email).toContain('localhost:4244');
+      expect(urls.licensing).toContain('localhost:4245');
     });
   });
 
@@ -95,6 +96,7 @@ describe('MockServerManager', () => {
       expect(urls.stripe).toBeDefined();
       expect(urls.zapier).toBeDefined();
       expect(urls.email).toBeDefined();
+      expect(urls.licensing).toBeDefined();
     });
   });
 
@@ -6,6 +6,7 @@
 export { StripeMockServer } from './stripe';
 export { ZapierMockServer } from './zapier';
 export { EmailMockServer } from './email';
+export { LicensingMockServer } from './licensing';
 export { MockServerManager } from './manager';
 
 // Re-export types
@@ -15,4 +16,8 @@ export type {
   StripeMockConfig,
   ZapierMockConfig,
   EmailMockConfig,
+  LicensingMockConfig,
+  MockStateLicense,
+  MockNpiRecord,
+  MockDeaRegistration,
 } from './types';
\ No newline at end of file
@@ -0,0 +1,238 @@
+/**
+ * Licensing Mock Server
+ * Provides mock primary sources for credential verification: state medical
+ * boards, the NPPES NPI registry and DEA registration lookups
+ */
+
+import express from 'express';
+import cors from 'cors';
+import type {
+  LicensingMockConfig,
+  MockServerInstance,
+  MockStateLicense,
+  MockNpiRecord,
+  MockDeaRegistration
+} from './types';
+
+const FIXTURE_LICENSES: MockStateLicense[] = [
+  {
+    state: 'CA',
+    licenseNumber: 'A123456',
+    licenseeName: 'Jane Doe',
+    licenseType: 'Physician and Surgeon',
+    status: 'ACTIVE',
+    issueDate: '2015-07-01',
+    expirationDate: '2027-06-30'
+  },
+  {
+    state: 'TX',
+    licenseNumber: 'R7654',
+    licenseeName: 'John Smith',
+    licenseType: 'Physician',
+    status: 'PROBATION',
+    issueDate: '2012-03-15',
+    expirationDate: '2026-11-30'
+  },
+  {
+    state: 'NY',
+    licenseNumber: '298765',
+    licenseeName: 'Maria Garcia',
+    licenseType: 'Physician',
+    status: 'EXPIRED',
+    issueDate: '2010-09-01',
+    expirationDate: '2024-08-31'
+  }
+];
+
+const FIXTURE_NPIS: MockNpiRecord[] = [
+  { number: '1234567893', firstName: 'JANE', lastName: 'DOE', status: 'A', taxonomy: '207P00000X' },
+  { number: '1245319599', firstName: 'JOHN', lastName: 'SMITH', status: 'D', taxonomy: '207R00000X' }
+];
+
+const FIXTURE_DEA_REGISTRATIONS: MockDeaRegistration[] = [
+  {
+    registrationNumber: 'AB1234563',
+    registrantName: 'Jane Doe',
+    status: 'ACTIVE',
+    schedules: ['2', '2N', '3', '3N', '4', '5'],
+    expirationDate: '2027-01-31'
+  }
+];
+
+export class LicensingMockServer implements MockServerInstance {
+  private app: express.Application;
+  public server: any;
+  public port: number;
+  public url: string;
+
+  // In-memory primary source records
+  private licenses = new Map<string, MockStateLicense>();
+  private npis = new Map<string, MockNpiRecord>();
+  private deaRegistrations = new Map<string, MockDeaRegistration>();
+
+  constructor(private config: LicensingMockConfig) {
+    this.port = config.port;
+    this.url = `http://${config.host || 'localhost'}:${this.port}`;
+    this.app = express();
+    this.setupMiddleware();
+    this.setupRoutes();
+    this.seedFixtures();
+  }
+
+  private setupMiddleware(): void {
+    this.app.use(express.json());
+
+    if (this.config.cors) {
+      this.app.use(cors(this.config.cors));
+    }
+  }
+
+  private setupRoutes(): void {
+    // Health check
+    this.app.get('/health', (req, res) => {
+      res.json({
+        status: 'ok',
+        service: 'licensing-mock',
+        licenses: this.licenses.size,
+        npis: this.npis.size,
+        dea_registrations: this.deaRegistrations.size
+      });
+    });
+
+    // NPPES NPI registry (https://npiregistry.cms.hhs.gov/api/?version=2.1&number=)
+    this.app.get('/nppes/api', (req, res) => {
+      const record = this.npis.get(String(req.query.number || ''));
+      if (!record) {
+        return res.json({ result_count: 0, results: [] });
+      }
+
+      res.json({
+        result_count: 1,
+        results: [{
+          number: record.number,
+          enumeration_type: 'NPI-1',
+          basic: {
+            first_name: record.firstName,
+            last_name: record.lastName,
+            status: record.status
+          },
+          taxonomies: record.taxonomy
+            ? [{ code: record.taxonomy, primary: true }]
+            : []
+        }]
+      });
+    });
+
+    // State medical board license lookup
+    this.app.get('/boards/:state/licenses/:number', (req, res) => {
+      const license = this.licenses.get(this.licenseKey(req.params.state, req.params.number));
+      if (!license) {
+        return res.status(404).json({ error: 'License not found' });
+      }
+
+      res.json(license);
+    });
+
+    // DEA registration lookup
+    this.app.get('/dea/registrations/:number', (req, res) => {
+      const registration = this.deaRegistrations.get(req.params.number.toUpperCase());
+      if (!registration) {
+        return res.status(404).json({ error: 'Registration not found' });
+      }
+
+      res.json(registration);
+    });
+
+    // Error handler
+    this.app.use((err: any, req: any, res: any, next: any) => {
+      console.error('Licensing mock error:', err);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: err.message
+      });
+    });
+  }
+
+  private licenseKey(state: string, licenseNumber: string): string {
+    return `${state.toUpperCase()}:${licenseNumber.toUpperCase()}`;
+  }
+
+  private seedFixtures(): void {
+    if (this.config.seedFixtures === false) return;
+
+    FIXTURE_LICENSES.forEach(license => this.addLicense(license));
+    FIXTURE_NPIS.forEach(record => this.addNpi(record));
+    FIXTURE_DEA_REGISTRATIONS.forEach(registration => this.addDeaRegistration(registration));
+  }
+
+  async start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server = this.app.listen(this.port, this.config.host || 'localhost', () => {
+        console.log(`🪪 Licensing Mock Server running at ${this.url}`);
+        console.log(`🪪 NPPES: ${this.url}/nppes/api`);
+        console.log(`🪪 State boards: ${this.url}/boards`);
+        console.log(`🪪 DEA: ${this.url}/dea`);
+        resolve();
+      });
+
+      this.server.on('error', (err: any) => {
+        if (err.code === 'EADDRINUSE') {
+          console.log(`Port ${this.port} is busy, trying ${this.port + 1}`);
+          this.port += 1;
+          this.url = `http://${this.config.host || 'localhost'}:${this.port}`;
+          this.server.listen(this.port, this.config.host || 'localhost');
+        } else {
+          reject(err);
+        }
+      });
+    });
+  }
+
+  async stop(): Promise<void> {
+    return new Promise((resolve) => {
+      if (this.server) {
+        this.server.close(() => {
+          console.log('🪪 Licensing Mock Server stopped');
+          resolve();
+        });
+      } else {
+        resolve();
+      }
+    });
+  }
+
+  // Helper methods for testing
+  addLicense(license: MockStateLicense): void {
+    this.licenses.set(this.licenseKey(license.state, license.licenseNumber), license);
+  }
+
+  addNpi(record: MockNpiRecord): void {
+    this.npis.set(record.number, record);
+  }
+
+  addDeaRegistration(registration: MockDeaRegistration): void {
+    this.deaRegistrations.set(registration.registrationNumber.toUpperCase(), registration);
+  }
+
+  /**
+   * Base URLs for the API's verification adapters
+   * (NPPES_API_URL, STATE_BOARD_API_URL, DEA_VERIFICATION_API_URL)
+   */
+  getAdapterUrls(): { nppes: string; stateBoards: string; dea: string } {
+    return {
+      nppes: `${this.url}/nppes/api`,
+      stateBoards: `${this.url}/boards`,
+      dea: `${this.url}/dea`
+    };
+  }
+
+  /**
+   * Drop records added by tests and restore the seeded fixtures
+   */
+  resetRecords(): void {
+    this.licenses.clear();
+    this.npis.clear();
+    this.deaRegistrations.clear();
+    this.seedFixtures();
+  }
+}
@@ -7,16 +7,19 @@ import type {
   MockServerInstance, 
   StripeMockConfig, 
   ZapierMockConfig, 
-  EmailMockConfig 
+  EmailMockConfig,
+  LicensingMockConfig
 } from './types';
 import { StripeMockServer } from './stripe';
 import { ZapierMockServer } from './zapier';
 import { EmailMockServer } from './email';
+import { LicensingMockServer } from './licensing';
 
 export interface MockManagerConfig {
   stripe?: StripeMockConfig;
   zapier?: ZapierMockConfig;
   email?: EmailMockConfig;
+  licensing?: LicensingMockConfig;
   startAll?: boolean;
 }
 
@@ -45,6 +48,11 @@ export class MockServerManager {
       this.servers.set('email', emailServer);
     }
 
+    if (this.config.licensing) {
+      const licensingServer = new LicensingMockServer(this.config.licensing);
+      this.servers.set('licensing', licensingServer);
+    }
+
     if (this.config.startAll) {
       await this.startAll();
     }
@@ -212,6 +220,15 @@ export class MockServerManager {
         smtpPort: 1026,
         enableSMTP: false
       },
+      licensing: {
+        port: 4245,
+        host: 'localhost',
+        cors: {
+          origin: ['http://localhost:3000', 'http://localhost:3001'],
+          credentials: true
+        },
+        seedFixtures: true
+      },
       startAll: false
     };
   }
@@ -235,6 +252,8 @@ export class MockServerManager {
         (server as any).clearEmails();
       } else if (name === 'zapier' && 'clearWebhooks' in server) {
         (server as any).clearWebhooks();
+      } else if (name === 'licensing' && 'resetRecords' in server) {
+        (server as any).resetRecords();
       }
     });
     console.log('🧹 All mock server data cleared');
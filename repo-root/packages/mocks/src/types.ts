@@ -36,6 +36,10 @@ export interface EmailMockConfig extends MockServerConfig {
   enableSMTP?: boolean;
 }
 
+export interface LicensingMockConfig extends MockServerConfig {
+  seedFixtures?: boolean;
+}
+
 // Stripe Mock Types
 export interface StripeCustomer {
   id: string;
@@ -106,4 +110,31 @@ export interface ZapierWebhook {
   timestamp: number;
   status: 'pending' | 'sent' | 'failed';
   retryCount: number;
-}
\ No newline at end of file
+}
+
+// Licensing Mock Types
+export interface MockStateLicense {
+  state: string;
+  licenseNumber: string;
+  licenseeName: string;
+  licenseType: string;
+  status: 'ACTIVE' | 'EXPIRED' | 'PROBATION' | 'SUSPENDED' | 'REVOKED' | 'INACTIVE';
+  issueDate?: string;
+  expirationDate?: string;
+}
+
+export interface MockNpiRecord {
+  number: string;
+  firstName: string;
+  lastName: string;
+  status: 'A' | 'D';
+  taxonomy?: string;
+}
+
+export interface MockDeaRegistration {
+  registrationNumber: string;
+  registrantName: string;
+  status: 'ACTIVE' | 'EXPIRED' | 'REVOKED' | 'SURRENDERED';
+  schedules: string[];
+  expirationDate?: string;
+}
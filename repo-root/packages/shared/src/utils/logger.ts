@@ -125,6 +125,8 @@ class Logger {
   private async sendToLoggingService(entry: LogEntry) {
     // In production, this would send to Sentry, LogRocket, etc.
     // For now, we'll just structure the data properly
+    // Read through globalThis so server packages compiled without the DOM lib can use the logger
+    const host = globalThis as { window?: unknown; navigator?: { userAgent?: string } };
     const payload = {
       level: LogLevel[entry.level],
       message: entry.message,
@@ -138,8 +140,8 @@ class Logger {
       } : undefined,
       environment: {
         nodeEnv: process.env.NODE_ENV,
-        platform: typeof window !== 'undefined' ? 'browser' : 'node',
-        userAgent: typeof window !== 'undefined' && typeof navigator !== 'undefined' ? (navigator as any).userAgent : undefined,
+        platform: host.window !== undefined ? 'browser' : 'node',
+        userAgent: host.window !== undefined ? host.navigator?.userAgent : undefined,
       },
     };
     
@@ -45,6 +45,8 @@ class MemoryStore {
         }
       }
     }, 60000);
+    // Don't keep the process alive just to clean up
+    this.cleanup.unref?.();
   }
   
   async get(key: string): Promise<{ count: number; resetTime: number } | null> {
@@ -367,6 +369,7 @@ export class DDoSProtection {
   ) {
     // Cleanup every minute
     this.cleanupInterval = setInterval(() => this.cleanup(), 60000);
+    this.cleanupInterval.unref?.();
   }
   
   checkRequest(ip: string): { allowed: boolean; reason?: string } {
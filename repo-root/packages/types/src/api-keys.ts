@@ -0,0 +1,41 @@
+// Keys for the public REST API. Each key acts as the user who created it,
+// limited to the scopes picked when it was created.
+
+export enum ApiKeyScope {
+  JOBS_READ = 'jobs:read',
+  JOBS_WRITE = 'jobs:write',
+  APPLICATIONS_READ = 'applications:read',
+  APPLICATIONS_WRITE = 'applications:write',
+  CALCULATIONS_READ = 'calculations:read',
+  CALCULATIONS_RUN = 'calculations:run'
+}
+
+export const API_KEY_SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  [ApiKeyScope.JOBS_READ]: 'Read your jobs',
+  [ApiKeyScope.JOBS_WRITE]: 'Create, update, publish and delete your jobs',
+  [ApiKeyScope.APPLICATIONS_READ]: 'Read applications to your jobs',
+  [ApiKeyScope.APPLICATIONS_WRITE]: 'Update application status and notes',
+  [ApiKeyScope.CALCULATIONS_READ]: 'Read your saved calculations',
+  [ApiKeyScope.CALCULATIONS_RUN]: 'Run contract and paycheck calculations'
+}
+
+// Header carrying the key; "Authorization: Bearer <key>" also works
+export const API_KEY_HEADER = 'X-API-Key'
+
+// Requests per minute a key gets unless another limit is picked
+export const DEFAULT_API_KEY_RATE_LIMIT = 60
+
+export interface ApiKey {
+  id: string
+  userId: string
+  name: string
+  // First characters of the key; the full key is only shown once, when it
+  // is created, and only its hash is stored
+  prefix: string
+  permissions: ApiKeyScope[]
+  rateLimit: number // Requests per minute
+  lastUsedAt?: Date
+  expiresAt?: Date
+  revokedAt?: Date
+  createdAt: Date
+}
@@ -23,6 +23,8 @@ export interface Application {
   currentRole?: string
   expectedSalary?: string
   noticePeriod?: string
+  specialty?: string
+  licenseStates?: string[] // Self-reported license states
   
   // Application content
   resumeUrl?: string
@@ -31,9 +33,10 @@ export interface Application {
   linkedinUrl?: string
   additionalInfo?: string
   
-  // AI Scoring
+  // Match scoring against the job's requirements
   score?: number // 0-100
-  scoreBreakdown?: Record<string, any> // Detailed scoring criteria
+  scoreBreakdown?: ApplicationScoreBreakdown
+  scoredAt?: Date
   matchPercentage?: number // Job match percentage
   
   // Status tracking
@@ -45,4 +48,41 @@ export interface Application {
   appliedAt: Date
   updatedAt: Date
   ipAddress?: string
+}
+
+export enum ApplicationScoreCriterion {
+  EXPERIENCE = 'EXPERIENCE',
+  PROFESSION = 'PROFESSION',
+  SPECIALTY = 'SPECIALTY',
+  LICENSES = 'LICENSES',
+  CERTIFICATIONS = 'CERTIFICATIONS',
+  EXPECTED_PAY = 'EXPECTED_PAY',
+  AVAILABILITY = 'AVAILABILITY'
+}
+
+export const APPLICATION_SCORE_CRITERION_LABELS: Record<ApplicationScoreCriterion, string> = {
+  [ApplicationScoreCriterion.EXPERIENCE]: 'Experience',
+  [ApplicationScoreCriterion.PROFESSION]: 'Role',
+  [ApplicationScoreCriterion.SPECIALTY]: 'Specialty',
+  [ApplicationScoreCriterion.LICENSES]: 'State licenses',
+  [ApplicationScoreCriterion.CERTIFICATIONS]: 'Certifications',
+  [ApplicationScoreCriterion.EXPECTED_PAY]: 'Expected pay',
+  [ApplicationScoreCriterion.AVAILABILITY]: 'Availability'
+}
+
+export interface ApplicationScoreItem {
+  criterion: ApplicationScoreCriterion
+  // False when the job sets no requirement for this criterion; the item is
+  // then left out of the score
+  applicable: boolean
+  points: number
+  maxPoints: number
+  detail: string // Why the application earned these points
+}
+
+export interface ApplicationScoreBreakdown {
+  version: number // Scorer version, bumped when the rules change
+  items: ApplicationScoreItem[]
+  points: number
+  maxPoints: number
 }
\ No newline at end of file
@@ -0,0 +1,46 @@
+// Read-only links to a saved calculation, e.g. a comp breakdown a recruiter
+// sends a candidate
+
+export enum CalculationShareLinkStatus {
+  ACTIVE = 'ACTIVE',
+  EXPIRED = 'EXPIRED',
+  REVOKED = 'REVOKED'
+}
+
+export const CALCULATION_SHARE_LINK_STATUS_LABELS: Record<CalculationShareLinkStatus, string> = {
+  [CalculationShareLinkStatus.ACTIVE]: 'Active',
+  [CalculationShareLinkStatus.EXPIRED]: 'Expired',
+  [CalculationShareLinkStatus.REVOKED]: 'Revoked'
+}
+
+export interface CalculationShareLink {
+  id: string
+  calculationId: string
+  url: string
+  label?: string
+  redactPersonal: boolean
+  hasPassword: boolean
+  status: CalculationShareLinkStatus
+  expiresAt?: Date
+  revokedAt?: Date
+  viewCount: number
+  lastViewedAt?: Date
+  recentViews: Date[] // Newest first
+  createdAt: Date
+}
+
+// What someone opening a link sees. Personal fields are removed from input
+// and result when the link redacts them.
+export interface SharedCalculation {
+  type: 'contract' | 'paycheck' | 'comparison'
+  name?: string
+  input: Record<string, any>
+  result: Record<string, any>
+  redacted: boolean
+  sharedAt: Date
+  expiresAt?: Date
+}
+
+// Why a link can't be shown yet; unknown and revoked links are not found.
+// 'locked' follows too many wrong passwords.
+export type SharedCalculationGate = 'password_required' | 'invalid_password' | 'locked' | 'expired'
@@ -0,0 +1,103 @@
+// Calculator history sync between browsers, the mobile app and the user's
+// saved calculations on the server. Each field carries the time it last
+// changed and the newer value wins, so edits to different fields on
+// different devices both survive. Deletes are kept as tombstones so they
+// reach devices that still have the calculation.
+
+export const SYNCED_CALCULATION_FIELDS = [
+  'type',
+  'input',
+  'result',
+  'name',
+  'tags',
+  'isFavorite',
+  'metadata'
+] as const
+
+export type SyncedCalculationField = typeof SYNCED_CALCULATION_FIELDS[number]
+
+// When each field last changed, in epoch milliseconds. Fields without an
+// entry date from the calculation's timestamp.
+export type CalculationFieldClock = Partial<Record<SyncedCalculationField, number>>
+
+export interface CalculationSyncRecord {
+  id: string
+  type: 'contract' | 'paycheck' | 'comparison'
+  // Calculator input and result as JSON; their shape depends on the type
+  input: Record<string, unknown>
+  result: Record<string, unknown>
+  name?: string | null
+  tags?: string[]
+  isFavorite?: boolean
+  metadata?: Record<string, any> | null
+  // When the calculation was made, in epoch milliseconds
+  timestamp: number
+  fieldUpdatedAt: CalculationFieldClock
+  // Set on tombstones: when the calculation was deleted
+  deletedAt?: number | null
+}
+
+// Where a device's next pull resumes. Opaque to devices: store the one from
+// the last response and send it back as `since`.
+export type CalculationSyncCursor = string
+
+export interface CalculationSyncRequest {
+  // Calculations created, edited or deleted on this device since it last synced
+  changes: CalculationSyncRecord[]
+  // cursor from the last response; omit to pull the whole history
+  since?: CalculationSyncCursor
+}
+
+export interface CalculationSyncResponse {
+  // Calculations changed on the server since `since`, after applying the
+  // pushed changes. A full pull leaves out tombstones.
+  changes: CalculationSyncRecord[]
+  // Pass as `since` next time
+  cursor: CalculationSyncCursor
+  // More changes are waiting; sync again with the new cursor
+  hasMore: boolean
+}
+
+export const MAX_CALCULATION_SYNC_CHANGES = 500
+
+const fieldUpdatedAt = (record: CalculationSyncRecord, field: SyncedCalculationField): number =>
+  record.fieldUpdatedAt[field] ?? record.timestamp
+
+/**
+ * When any field of a calculation last changed
+ */
+export const calculationLastUpdatedAt = (record: CalculationSyncRecord): number =>
+  Math.max(record.timestamp, ...SYNCED_CALCULATION_FIELDS.map(field => fieldUpdatedAt(record, field)))
+
+/**
+ * A delete wins unless the calculation was edited after it, e.g. on a
+ * device that had not yet heard about the delete
+ */
+export const isCalculationTombstone = (record: CalculationSyncRecord): boolean =>
+  record.deletedAt != null && record.deletedAt >= calculationLastUpdatedAt(record)
+
+/**
+ * Merge two copies of a calculation field by field, keeping the newer value
+ * of each. Ties go to `incoming`.
+ */
+export const mergeCalculationSyncRecords = (
+  current: CalculationSyncRecord,
+  incoming: CalculationSyncRecord
+): CalculationSyncRecord => {
+  const merged: CalculationSyncRecord = {
+    ...current,
+    timestamp: Math.min(current.timestamp, incoming.timestamp),
+    fieldUpdatedAt: {},
+    deletedAt: Math.max(current.deletedAt ?? 0, incoming.deletedAt ?? 0) || null
+  }
+
+  for (const field of SYNCED_CALCULATION_FIELDS) {
+    const currentAt = fieldUpdatedAt(current, field)
+    const incomingAt = fieldUpdatedAt(incoming, field)
+    const winner = incomingAt >= currentAt ? incoming : current
+    Object.assign(merged, { [field]: winner[field] })
+    merged.fieldUpdatedAt[field] = Math.max(currentAt, incomingAt)
+  }
+
+  return merged
+}
\ No newline at end of file
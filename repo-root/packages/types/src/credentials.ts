@@ -0,0 +1,99 @@
+// Provider credentials kept in the credential wallet and reused across applications
+
+export enum CredentialType {
+  STATE_LICENSE = 'STATE_LICENSE',
+  BOARD_CERTIFICATION = 'BOARD_CERTIFICATION',
+  DEA_REGISTRATION = 'DEA_REGISTRATION',
+  NPI = 'NPI',
+  MALPRACTICE_COI = 'MALPRACTICE_COI',
+  LIFE_SUPPORT_CERTIFICATION = 'LIFE_SUPPORT_CERTIFICATION',
+  IMMUNIZATION_RECORD = 'IMMUNIZATION_RECORD',
+  OTHER = 'OTHER'
+}
+
+export enum CredentialVerificationStatus {
+  UNVERIFIED = 'UNVERIFIED',
+  PENDING = 'PENDING',
+  VERIFIED = 'VERIFIED',
+  REJECTED = 'REJECTED',
+  EXPIRED = 'EXPIRED'
+}
+
+export const CREDENTIAL_TYPE_LABELS: Record<CredentialType, string> = {
+  [CredentialType.STATE_LICENSE]: 'State license',
+  [CredentialType.BOARD_CERTIFICATION]: 'Board certification',
+  [CredentialType.DEA_REGISTRATION]: 'DEA registration',
+  [CredentialType.NPI]: 'NPI number',
+  [CredentialType.MALPRACTICE_COI]: 'Malpractice certificate of insurance',
+  [CredentialType.LIFE_SUPPORT_CERTIFICATION]: 'Life support certification',
+  [CredentialType.IMMUNIZATION_RECORD]: 'Immunization record',
+  [CredentialType.OTHER]: 'Other'
+}
+
+export const CREDENTIAL_VERIFICATION_STATUS_LABELS: Record<CredentialVerificationStatus, string> = {
+  [CredentialVerificationStatus.UNVERIFIED]: 'Not verified',
+  [CredentialVerificationStatus.PENDING]: 'Verification pending',
+  [CredentialVerificationStatus.VERIFIED]: 'Verified',
+  [CredentialVerificationStatus.REJECTED]: 'Rejected',
+  [CredentialVerificationStatus.EXPIRED]: 'Expired'
+}
+
+// Credentials issued by a state, so issuingState is required
+export const STATE_ISSUED_CREDENTIAL_TYPES: CredentialType[] = [
+  CredentialType.STATE_LICENSE,
+  CredentialType.DEA_REGISTRATION
+]
+
+// Credentials that can be checked against a primary source (state boards,
+// the NPPES NPI registry, DEA)
+export const PRIMARY_SOURCE_CREDENTIAL_TYPES: CredentialType[] = [
+  CredentialType.STATE_LICENSE,
+  CredentialType.DEA_REGISTRATION,
+  CredentialType.NPI
+]
+
+// Days before expiry that reminders are sent, latest first
+export const CREDENTIAL_REMINDER_DAYS = [90, 60, 30] as const
+
+export interface Credential {
+  id: string
+  userId: string
+  type: CredentialType
+  name: string
+  issuingState?: string
+  issuingAuthority?: string
+  number?: string
+  issuedAt?: Date
+  expiresAt?: Date
+  documentUrl?: string
+  verificationStatus: CredentialVerificationStatus
+  verifiedAt?: Date
+  // Primary source the last verification checked, e.g. "state-board:CA"
+  verificationSource?: string
+  verificationCheckedAt?: Date
+  verificationEvidence?: Record<string, any>
+  createdAt: Date
+  updatedAt: Date
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Whole days until a credential expires; negative once it has expired
+ */
+export const daysUntilExpiry = (expiresAt: Date | string, now: Date = new Date()): number =>
+  Math.ceil((new Date(expiresAt).getTime() - now.getTime()) / DAY_MS)
+
+/**
+ * Expiry state for badges: expired, expiring within the first reminder
+ * window, or current. Credentials without an expiry date never expire.
+ */
+export const credentialExpiryStatus = (
+  expiresAt: Date | string | null | undefined,
+  now: Date = new Date()
+): 'expired' | 'expiring' | 'current' => {
+  if (!expiresAt) return 'current'
+  const days = daysUntilExpiry(expiresAt, now)
+  if (days < 0) return 'expired'
+  return days <= CREDENTIAL_REMINDER_DAYS[0] ? 'expiring' : 'current'
+}
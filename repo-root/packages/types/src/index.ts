@@ -3,4 +3,12 @@ export * from './job'
 export * from './user'
 export * from './application'
 export * from './company'
-export * from './common'
\ No newline at end of file
+export * from './common'
+export * from './taxonomy'
+export * from './schedule'
+export * from './credentials'
+export * from './pipeline'
+export * from './webhooks'
+export * from './api-keys'
+export * from './calculation-sharing'
+export * from './calculation-sync'
\ No newline at end of file
@@ -46,6 +46,27 @@ export interface Job {
   category?: JobCategory
   tags: string[]
   
+  // Healthcare taxonomy
+  profession?: Profession
+  specialty?: string
+  subspecialty?: string
+  boardCertification?: BoardCertificationRequirement
+  requiredLicenseStates?: string[]
+  requiredCertifications?: ClinicalCertification[]
+  minExperienceYears?: number
+  
+  // Assignment schedule
+  assignmentStartDate?: Date
+  assignmentEndDate?: Date
+  latestStartDate?: Date
+  shiftType?: ShiftType
+  shiftLengthHours?: number
+  daysOn?: number
+  daysOff?: number
+  callRequirement?: CallRequirement
+  callFrequency?: number
+  guaranteedHoursPerWeek?: number
+  
   // Job lifecycle
   status: JobStatus
   publishedAt?: Date
@@ -93,7 +114,9 @@ export interface JobCardData {
   type?: JobType
   category?: JobCategory
   tags: string[]
+  profession?: Profession
   specialty?: string
+  schedule?: AssignmentSchedule
   experienceLevel?: string
   publishedAt: Date
   expiresAt: Date
@@ -107,4 +130,6 @@ export interface JobCardData {
 // Import related types
 import type { Company } from './company'
 import type { User } from './user'
-import type { Application } from './application'
\ No newline at end of file
+import type { Application } from './application'
+import type { Profession, BoardCertificationRequirement, ClinicalCertification } from './taxonomy'
+import type { ShiftType, CallRequirement, AssignmentSchedule } from './schedule'
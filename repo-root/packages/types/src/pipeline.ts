@@ -0,0 +1,167 @@
+// Hiring pipelines, interviews and offers
+
+export enum PipelineStageKind {
+  SCREEN = 'SCREEN',
+  CREDENTIALING = 'CREDENTIALING',
+  INTERVIEW = 'INTERVIEW',
+  OFFER = 'OFFER',
+  ONBOARDING = 'ONBOARDING',
+  CUSTOM = 'CUSTOM'
+}
+
+export interface PipelineStage {
+  // Stable identifier stored on applications and in their history
+  key: string
+  name: string
+  kind: PipelineStageKind
+}
+
+// Used by organizations that have not configured their own pipeline and by
+// companies that do not belong to an organization
+export const DEFAULT_PIPELINE_STAGES: PipelineStage[] = [
+  { key: 'screen', name: 'Screen', kind: PipelineStageKind.SCREEN },
+  { key: 'credentialing', name: 'Credentialing', kind: PipelineStageKind.CREDENTIALING },
+  { key: 'interview', name: 'Interview', kind: PipelineStageKind.INTERVIEW },
+  { key: 'offer', name: 'Offer', kind: PipelineStageKind.OFFER },
+  { key: 'onboarding', name: 'Onboarding', kind: PipelineStageKind.ONBOARDING }
+]
+
+export const MAX_PIPELINE_STAGES = 12
+
+export enum ApplicationEventType {
+  APPLIED = 'APPLIED',
+  STAGE_CHANGED = 'STAGE_CHANGED',
+  STATUS_CHANGED = 'STATUS_CHANGED',
+  INTERVIEW_SCHEDULED = 'INTERVIEW_SCHEDULED',
+  INTERVIEW_CANCELLED = 'INTERVIEW_CANCELLED',
+  OFFER_SENT = 'OFFER_SENT',
+  OFFER_ACCEPTED = 'OFFER_ACCEPTED',
+  OFFER_DECLINED = 'OFFER_DECLINED',
+  OFFER_WITHDRAWN = 'OFFER_WITHDRAWN'
+}
+
+export const APPLICATION_EVENT_LABELS: Record<ApplicationEventType, string> = {
+  [ApplicationEventType.APPLIED]: 'Applied',
+  [ApplicationEventType.STAGE_CHANGED]: 'Moved stage',
+  [ApplicationEventType.STATUS_CHANGED]: 'Status changed',
+  [ApplicationEventType.INTERVIEW_SCHEDULED]: 'Interview scheduled',
+  [ApplicationEventType.INTERVIEW_CANCELLED]: 'Interview cancelled',
+  [ApplicationEventType.OFFER_SENT]: 'Offer sent',
+  [ApplicationEventType.OFFER_ACCEPTED]: 'Offer accepted',
+  [ApplicationEventType.OFFER_DECLINED]: 'Offer declined',
+  [ApplicationEventType.OFFER_WITHDRAWN]: 'Offer withdrawn'
+}
+
+export interface ApplicationEvent {
+  id: string
+  applicationId: string
+  type: ApplicationEventType
+  fromStage?: string
+  toStage?: string
+  // Stage name when the event was recorded, so renamed or removed stages
+  // still read correctly in the timeline
+  stageName?: string
+  fromStatus?: string
+  toStatus?: string
+  actorId?: string
+  note?: string
+  details?: Record<string, any>
+  createdAt: Date
+}
+
+export enum InterviewStatus {
+  SCHEDULED = 'SCHEDULED',
+  COMPLETED = 'COMPLETED',
+  CANCELLED = 'CANCELLED'
+}
+
+export interface Interview {
+  id: string
+  applicationId: string
+  scheduledBy: string
+  startsAt: Date
+  endsAt: Date
+  timezone: string
+  location?: string
+  meetingUrl?: string
+  notes?: string
+  status: InterviewStatus
+  // Calendar UID and revision so updates and cancellations replace the
+  // original invite
+  icsUid: string
+  sequence: number
+  createdAt: Date
+  updatedAt: Date
+}
+
+export enum OfferStatus {
+  SENT = 'SENT',
+  ACCEPTED = 'ACCEPTED',
+  DECLINED = 'DECLINED',
+  WITHDRAWN = 'WITHDRAWN',
+  EXPIRED = 'EXPIRED'
+}
+
+export const OFFER_STATUS_LABELS: Record<OfferStatus, string> = {
+  [OfferStatus.SENT]: 'Awaiting response',
+  [OfferStatus.ACCEPTED]: 'Accepted',
+  [OfferStatus.DECLINED]: 'Declined',
+  [OfferStatus.WITHDRAWN]: 'Withdrawn',
+  [OfferStatus.EXPIRED]: 'Expired'
+}
+
+// Offer terms, taken from the job's structured compensation at the time the
+// offer is made. Rates are in the units of the pay basis.
+export interface OfferTerms {
+  payBasis?: 'HOURLY' | 'DAILY' | 'SHIFT' | 'ANNUAL'
+  rate?: number
+  hoursPerShift?: number
+  hoursPerWeek?: number
+  overtimeRate?: number
+  callRate?: number
+  stipends?: Record<string, number>
+  malpracticeCoverage?: string
+  workerClassification?: string
+  // Free-text pay for jobs posted without structured compensation
+  salary?: string
+  startDate?: Date
+  endDate?: Date
+}
+
+export interface Offer {
+  id: string
+  applicationId: string
+  createdBy: string
+  status: OfferStatus
+  terms: OfferTerms
+  letter: string
+  expiresAt?: Date
+  sentAt: Date
+  respondedAt?: Date
+  responseNote?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+/**
+ * Problems with a pipeline configuration; empty when it is valid
+ */
+export const validatePipelineStages = (stages: PipelineStage[]): string[] => {
+  const errors: string[] = []
+  if (stages.length === 0) {
+    errors.push('A pipeline needs at least one stage')
+  }
+  if (stages.length > MAX_PIPELINE_STAGES) {
+    errors.push(`A pipeline can have at most ${MAX_PIPELINE_STAGES} stages`)
+  }
+
+  const keys = new Set<string>()
+  for (const stage of stages) {
+    if (keys.has(stage.key)) {
+      errors.push(`Stage key "${stage.key}" is used more than once`)
+    }
+    keys.add(stage.key)
+  }
+
+  return errors
+}
@@ -0,0 +1,114 @@
+// Assignment dates and shift patterns for locum and travel postings
+
+export enum ShiftType {
+  DAY = 'DAY',
+  NIGHT = 'NIGHT',
+  SWING = 'SWING',
+  ROTATING = 'ROTATING',
+  TWENTY_FOUR_HOUR = 'TWENTY_FOUR_HOUR'
+}
+
+export enum CallRequirement {
+  NONE = 'NONE',
+  HOME_CALL = 'HOME_CALL',
+  IN_HOUSE = 'IN_HOUSE'
+}
+
+export const SHIFT_TYPE_LABELS: Record<ShiftType, string> = {
+  [ShiftType.DAY]: 'Days',
+  [ShiftType.NIGHT]: 'Nights',
+  [ShiftType.SWING]: 'Swing shifts',
+  [ShiftType.ROTATING]: 'Rotating shifts',
+  [ShiftType.TWENTY_FOUR_HOUR]: '24-hour shifts'
+}
+
+export const CALL_REQUIREMENT_LABELS: Record<CallRequirement, string> = {
+  [CallRequirement.NONE]: 'No call',
+  [CallRequirement.HOME_CALL]: 'Home call',
+  [CallRequirement.IN_HOUSE]: 'In-house call'
+}
+
+export interface AssignmentSchedule {
+  assignmentStartDate?: Date | string | null
+  assignmentEndDate?: Date | string | null
+  // Latest date the assignment can start; the start is flexible between
+  // assignmentStartDate and this date
+  latestStartDate?: Date | string | null
+  shiftType?: ShiftType | null
+  shiftLengthHours?: number | null
+  daysOn?: number | null
+  daysOff?: number | null
+  callRequirement?: CallRequirement | null
+  // Call taken one in every N nights, e.g. 4 for 1:4 call
+  callFrequency?: number | null
+  guaranteedHoursPerWeek?: number | null
+}
+
+// Assignment dates are calendar dates, so format them in UTC
+const formatScheduleDate = (date: Date | string, withYear = false): string =>
+  new Date(date).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    ...(withYear && { year: 'numeric' }),
+    timeZone: 'UTC'
+  })
+
+/**
+ * Assignment dates as "Aug 4 – Nov 2, 2026", or "From Aug 4, 2026" when the
+ * end date is open
+ */
+export const formatAssignmentDates = (schedule: AssignmentSchedule): string | undefined => {
+  const { assignmentStartDate: start, assignmentEndDate: end, latestStartDate } = schedule
+  if (!start) return undefined
+
+  const flexible = latestStartDate && new Date(latestStartDate) > new Date(start)
+    ? ` (flexible start until ${formatScheduleDate(latestStartDate)})`
+    : ''
+
+  if (!end) return `From ${formatScheduleDate(start, true)}${flexible}`
+
+  const sameYear = new Date(start).getUTCFullYear() === new Date(end).getUTCFullYear()
+  return `${formatScheduleDate(start, !sameYear)} – ${formatScheduleDate(end, true)}${flexible}`
+}
+
+/**
+ * Shift pattern, call and guaranteed hours as a single line, e.g.
+ * "7-on/7-off · 12h nights · 1:4 home call · 36h/week guaranteed"
+ */
+export const formatShiftPattern = (schedule: AssignmentSchedule): string | undefined => {
+  const parts: string[] = []
+
+  if (schedule.daysOn && schedule.daysOff) {
+    parts.push(`${schedule.daysOn}-on/${schedule.daysOff}-off`)
+  }
+
+  if (schedule.shiftType) {
+    const label = SHIFT_TYPE_LABELS[schedule.shiftType]
+    parts.push(schedule.shiftLengthHours && schedule.shiftType !== ShiftType.TWENTY_FOUR_HOUR
+      ? `${schedule.shiftLengthHours}h ${label.toLowerCase()}`
+      : label)
+  } else if (schedule.shiftLengthHours) {
+    parts.push(`${schedule.shiftLengthHours}h shifts`)
+  }
+
+  if (schedule.callRequirement && schedule.callRequirement !== CallRequirement.NONE) {
+    const label = CALL_REQUIREMENT_LABELS[schedule.callRequirement]
+    parts.push(schedule.callFrequency
+      ? `1:${schedule.callFrequency} ${label.toLowerCase()}`
+      : label)
+  }
+
+  if (schedule.guaranteedHoursPerWeek) {
+    parts.push(`${schedule.guaranteedHoursPerWeek}h/week guaranteed`)
+  }
+
+  return parts.length > 0 ? parts.join(' · ') : undefined
+}
+
+/**
+ * Full schedule summary for job cards and detail pages
+ */
+export const formatAssignmentSchedule = (schedule: AssignmentSchedule): string | undefined => {
+  const parts = [formatAssignmentDates(schedule), formatShiftPattern(schedule)].filter(Boolean)
+  return parts.length > 0 ? parts.join(', ') : undefined
+}
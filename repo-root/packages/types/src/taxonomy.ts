@@ -0,0 +1,93 @@
+// Healthcare job taxonomy shared by the API and the web app
+
+export enum Profession {
+  PHYSICIAN = 'PHYSICIAN',
+  CRNA = 'CRNA',
+  NURSE_PRACTITIONER = 'NURSE_PRACTITIONER',
+  PHYSICIAN_ASSISTANT = 'PHYSICIAN_ASSISTANT',
+  REGISTERED_NURSE = 'REGISTERED_NURSE'
+}
+
+export enum BoardCertificationRequirement {
+  NOT_REQUIRED = 'NOT_REQUIRED',
+  BOARD_ELIGIBLE = 'BOARD_ELIGIBLE',
+  BOARD_CERTIFIED = 'BOARD_CERTIFIED'
+}
+
+export enum ClinicalCertification {
+  DEA = 'DEA',
+  ACLS = 'ACLS',
+  BLS = 'BLS',
+  PALS = 'PALS',
+  ATLS = 'ATLS',
+  NRP = 'NRP'
+}
+
+export const PROFESSION_LABELS: Record<Profession, string> = {
+  [Profession.PHYSICIAN]: 'Physician (MD/DO)',
+  [Profession.CRNA]: 'CRNA',
+  [Profession.NURSE_PRACTITIONER]: 'Nurse Practitioner (NP)',
+  [Profession.PHYSICIAN_ASSISTANT]: 'Physician Assistant (PA)',
+  [Profession.REGISTERED_NURSE]: 'Registered Nurse (RN)'
+}
+
+export const BOARD_CERTIFICATION_LABELS: Record<BoardCertificationRequirement, string> = {
+  [BoardCertificationRequirement.NOT_REQUIRED]: 'Not required',
+  [BoardCertificationRequirement.BOARD_ELIGIBLE]: 'Board eligible',
+  [BoardCertificationRequirement.BOARD_CERTIFIED]: 'Board certified'
+}
+
+export const CLINICAL_CERTIFICATION_LABELS: Record<ClinicalCertification, string> = {
+  [ClinicalCertification.DEA]: 'DEA registration',
+  [ClinicalCertification.ACLS]: 'ACLS',
+  [ClinicalCertification.BLS]: 'BLS',
+  [ClinicalCertification.PALS]: 'PALS',
+  [ClinicalCertification.ATLS]: 'ATLS',
+  [ClinicalCertification.NRP]: 'NRP'
+}
+
+// Specialties and their subspecialties
+export const HEALTHCARE_SPECIALTIES: Record<string, string[]> = {
+  'Anesthesiology': ['Cardiac Anesthesiology', 'Obstetric Anesthesiology', 'Pain Medicine', 'Pediatric Anesthesiology', 'Regional Anesthesiology'],
+  'Cardiology': ['Electrophysiology', 'Heart Failure', 'Interventional Cardiology'],
+  'Critical Care': ['Cardiothoracic ICU', 'Medical ICU', 'Neonatal ICU', 'Neuro ICU', 'Surgical ICU'],
+  'Dermatology': ['Dermatopathology', 'Mohs Surgery'],
+  'Emergency Medicine': ['Pediatric Emergency Medicine', 'Toxicology', 'Urgent Care'],
+  'Endocrinology': [],
+  'Family Medicine': ['Obstetrics', 'Sports Medicine', 'Urgent Care'],
+  'Gastroenterology': ['Hepatology'],
+  'Hospitalist': ['Nocturnist'],
+  'Internal Medicine': ['Geriatrics', 'Infectious Disease', 'Nephrology', 'Rheumatology'],
+  'Labor & Delivery': [],
+  'Medical-Surgical': ['Telemetry'],
+  'Neurology': ['Neurocritical Care', 'Stroke'],
+  'Obstetrics & Gynecology': ['Maternal-Fetal Medicine', 'OB Hospitalist'],
+  'Oncology': ['Hematology', 'Radiation Oncology'],
+  'Operating Room': ['PACU', 'Pre-Op'],
+  'Ophthalmology': [],
+  'Orthopedics': ['Hand Surgery', 'Spine Surgery', 'Sports Medicine'],
+  'Pathology': [],
+  'Pediatrics': ['Neonatology', 'Pediatric Hospitalist'],
+  'Psychiatry': ['Addiction Psychiatry', 'Child & Adolescent Psychiatry', 'Geriatric Psychiatry', 'Telepsychiatry'],
+  'Pulmonology': ['Sleep Medicine'],
+  'Radiology': ['Interventional Radiology', 'Neuroradiology', 'Teleradiology'],
+  'Surgery': ['Cardiothoracic Surgery', 'General Surgery', 'Neurosurgery', 'Trauma Surgery', 'Vascular Surgery'],
+  'Urology': []
+}
+
+// States (and DC) that issue professional licenses
+export const LICENSE_STATES = [
+  'AL', 'AK', 'AZ', 'AR', 'CA', 'CO', 'CT', 'DC', 'DE', 'FL',
+  'GA', 'HI', 'ID', 'IL', 'IN', 'IA', 'KS', 'KY', 'LA', 'ME',
+  'MD', 'MA', 'MI', 'MN', 'MS', 'MO', 'MT', 'NE', 'NV', 'NH',
+  'NJ', 'NM', 'NY', 'NC', 'ND', 'OH', 'OK', 'OR', 'PA', 'RI',
+  'SC', 'SD', 'TN', 'TX', 'UT', 'VT', 'VA', 'WA', 'WV', 'WI', 'WY'
+] as const
+
+export type LicenseState = typeof LICENSE_STATES[number]
+
+export const isKnownSpecialty = (specialty: string): boolean =>
+  Object.prototype.hasOwnProperty.call(HEALTHCARE_SPECIALTIES, specialty)
+
+export const isValidSubspecialty = (specialty: string, subspecialty: string): boolean =>
+  isKnownSpecialty(specialty) && HEALTHCARE_SPECIALTIES[specialty].includes(subspecialty)
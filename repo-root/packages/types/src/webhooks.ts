@@ -0,0 +1,67 @@
+// Outbound webhooks organizations register to receive platform events
+
+export enum WebhookEventType {
+  JOB_PUBLISHED = 'job.published',
+  APPLICATION_CREATED = 'application.created',
+  APPLICATION_STATUS_CHANGED = 'application.status_changed',
+  LEAD_CREATED = 'lead.created',
+  LEAD_UPDATED = 'lead.updated',
+  SUBSCRIPTION_UPDATED = 'subscription.updated'
+}
+
+export enum WebhookDeliveryStatus {
+  PENDING = 'PENDING',
+  SUCCEEDED = 'SUCCEEDED',
+  FAILED = 'FAILED'
+}
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEventType, string> = {
+  [WebhookEventType.JOB_PUBLISHED]: 'Job published',
+  [WebhookEventType.APPLICATION_CREATED]: 'Application received',
+  [WebhookEventType.APPLICATION_STATUS_CHANGED]: 'Application status changed',
+  [WebhookEventType.LEAD_CREATED]: 'Lead captured on the site or purchased from the marketplace',
+  [WebhookEventType.LEAD_UPDATED]: 'Site lead status changed',
+  [WebhookEventType.SUBSCRIPTION_UPDATED]: 'Subscription updated'
+}
+
+export const WEBHOOK_DELIVERY_STATUS_LABELS: Record<WebhookDeliveryStatus, string> = {
+  [WebhookDeliveryStatus.PENDING]: 'Pending',
+  [WebhookDeliveryStatus.SUCCEEDED]: 'Delivered',
+  [WebhookDeliveryStatus.FAILED]: 'Failed'
+}
+
+// Header carrying the signature, "t=<unix seconds>,v1=<hex HMAC-SHA256>".
+// While a rotated secret is still valid the header has one v1 per secret.
+export const WEBHOOK_SIGNATURE_HEADER = 'X-LocumTrueRate-Signature'
+
+export interface WebhookEndpoint {
+  id: string
+  organizationId: string
+  url: string
+  description?: string
+  events: WebhookEventType[]
+  enabled: boolean
+  // Last characters of the signing secret; the full secret is only shown
+  // when it is created or rotated
+  secretHint: string
+  previousSecretExpiresAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface WebhookDelivery {
+  id: string
+  endpointId: string
+  eventId: string // Shared by every delivery of one event, including replays
+  eventType: WebhookEventType
+  payload: Record<string, any>
+  status: WebhookDeliveryStatus
+  attempts: number
+  nextAttemptAt?: Date
+  lastAttemptAt?: Date
+  responseStatus?: number
+  error?: string
+  durationMs?: number
+  replayOf?: string
+  createdAt: Date
+}